@@ -0,0 +1,260 @@
+// Local stand-in for the MTN MoMo and Airtel Money collection APIs, for testing mobile money payments
+// end to end over HTTP without real money. Set a department's provider to the sandbox environment
+// with the API host override pointing at it (e.g. http://localhost:4010); any credentials are
+// accepted. It answers the edge functions' payment, status, refund and balance calls, then posts
+// callbacks to mobile-money-callback the way the providers do. For practice without any server,
+// use the simulator environment instead.
+//
+// The payer's number decides the outcome, by its last digit:
+//   1 = payer declines (FAILED)
+//   2 = never settles (stays PENDING, no callback)
+//   3 = paid, but a different amount (MTN only; Airtel results carry no amount)
+//   4 = paid, but the callback is never sent (polling only)
+//   anything else = paid, callback sent
+//
+// Usage: npm run mock:momo
+//   MOCK_MOMO_PORT        port to listen on (default 4010)
+//   MOCK_MOMO_DELAY_MS    how long the "customer" takes to approve (default 3000)
+//   AIRTEL_CALLBACK_URL   Airtel posts to the URL set on the merchant account, not one sent per request:
+//                         <SUPABASE_URL>/functions/v1/mobile-money-callback?provider=airtel&secret=<secret>
+import express from 'express';
+import crypto from 'crypto';
+
+const PORT = Number(process.env.MOCK_MOMO_PORT || 4010);
+const DELAY_MS = Number(process.env.MOCK_MOMO_DELAY_MS || 3000);
+const AIRTEL_CALLBACK_URL = process.env.AIRTEL_CALLBACK_URL || '';
+
+const app = express();
+app.use(express.json());
+
+// referenceId -> { provider, amount, msisdn, externalId, status, transactionId, callbackUrl }
+const requests = new Map();
+
+const outcomeFor = (msisdn) => {
+  switch (String(msisdn).slice(-1)) {
+    case '1': return { status: 'FAILED', callback: true };
+    case '2': return { status: 'PENDING', callback: false };
+    case '3': return { status: 'SUCCESSFUL', callback: true, amountOffset: 1000 };
+    case '4': return { status: 'SUCCESSFUL', callback: false };
+    default: return { status: 'SUCCESSFUL', callback: true };
+  }
+};
+
+const postCallback = async (url, method, body) => {
+  if (!url) {
+    console.log('  no callback URL, skipping callback');
+    return;
+  }
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    console.log(`  callback ${method} ${url.split('?')[0]} -> ${response.status}`);
+  } catch (error) {
+    console.error('  callback failed:', error.message);
+  }
+};
+
+const mtnBody = (request) => ({
+  amount: String(request.amount),
+  currency: 'UGX',
+  financialTransactionId: request.transactionId || undefined,
+  externalId: request.externalId,
+  payer: { partyIdType: 'MSISDN', partyId: request.msisdn },
+  status: request.status,
+  reason: request.status === 'FAILED' ? 'APPROVAL_REJECTED' : undefined,
+});
+
+const airtelTransaction = (request) => ({
+  id: request.referenceId,
+  airtel_money_id: request.transactionId || undefined,
+  message: request.status === 'FAILED' ? 'Transaction declined by payer' : request.status === 'SUCCESSFUL' ? 'Paid' : 'In progress',
+  status: request.status === 'SUCCESSFUL' ? 'TS' : request.status === 'FAILED' ? 'TF' : 'TIP',
+});
+
+const settle = (request) => {
+  const outcome = outcomeFor(request.msisdn);
+  setTimeout(() => {
+    request.status = outcome.status;
+    if (outcome.status === 'SUCCESSFUL') {
+      request.transactionId = String(Math.floor(Math.random() * 1e10));
+      request.amount += outcome.amountOffset || 0;
+    }
+    console.log(`${request.provider} ${request.referenceId} -> ${request.status}`);
+    if (!outcome.callback) return;
+
+    if (request.provider === 'mtn') {
+      postCallback(request.callbackUrl, 'PUT', mtnBody(request));
+    } else {
+      const transaction = airtelTransaction(request);
+      postCallback(AIRTEL_CALLBACK_URL, 'POST', { transaction: { ...transaction, status_code: transaction.status } });
+    }
+  }, DELAY_MS);
+};
+
+const airtelStatus = (success = true) => ({
+  code: success ? '200' : '400',
+  message: success ? 'SUCCESS' : 'FAILED',
+  result_code: success ? 'ESB000010' : 'ESB000001',
+  response_code: success ? 'DP00800001006' : 'DP00800001000',
+  success,
+});
+
+const refunds = [];
+
+// MTN MoMo collection and disbursement
+const mtnToken = (req, res) => {
+  if (!req.get('Authorization')?.startsWith('Basic ') || !req.get('Ocp-Apim-Subscription-Key')) {
+    return res.status(401).json({ statusCode: 401, message: 'Access denied due to missing subscription key or credentials' });
+  }
+  res.json({ access_token: crypto.randomBytes(24).toString('hex'), token_type: 'access_token', expires_in: 3600 });
+};
+app.post('/collection/token/', mtnToken);
+app.post('/disbursement/token/', mtnToken);
+
+app.get('/collection/v1_0/account/balance', (req, res) => {
+  res.json({ availableBalance: '1500000', currency: 'EUR' });
+});
+
+app.post('/disbursement/v1_0/refund', (req, res) => {
+  const referenceId = req.get('X-Reference-Id');
+  const original = requests.get(req.body?.referenceIdToRefund);
+  if (!referenceId || !original || original.status !== 'SUCCESSFUL') {
+    return res.status(400).json({ code: 'INVALID_REFERENCE', message: 'Nothing to refund for that reference' });
+  }
+  refunds.push({ provider: 'mtn', referenceId, amount: Number(req.body.amount), refunds: original.referenceId });
+  console.log(`mtn refund ${referenceId}: UGX ${req.body.amount} to ${original.msisdn}`);
+  res.status(202).end();
+});
+
+app.post('/collection/v1_0/requesttopay', (req, res) => {
+  const referenceId = req.get('X-Reference-Id');
+  const { amount, externalId, payer } = req.body || {};
+  if (!referenceId || !payer?.partyId || !(Number(amount) > 0)) {
+    return res.status(400).json({ code: 'INVALID_REQUEST', message: 'X-Reference-Id, amount and payer are required' });
+  }
+  if (requests.has(referenceId)) {
+    return res.status(409).json({ code: 'RESOURCE_ALREADY_EXIST', message: 'Duplicated reference id' });
+  }
+
+  const request = {
+    provider: 'mtn',
+    referenceId,
+    amount: Number(amount),
+    msisdn: payer.partyId,
+    externalId,
+    status: 'PENDING',
+    transactionId: null,
+    callbackUrl: req.get('X-Callback-Url') || '',
+  };
+  requests.set(referenceId, request);
+  console.log(`mtn request to pay ${referenceId}: UGX ${request.amount} from ${request.msisdn}`);
+  settle(request);
+  res.status(202).end();
+});
+
+app.get('/collection/v1_0/requesttopay/:referenceId', (req, res) => {
+  const request = requests.get(req.params.referenceId);
+  if (!request || request.provider !== 'mtn') {
+    return res.status(404).json({ code: 'RESOURCE_NOT_FOUND', message: 'Requested resource was not found' });
+  }
+  res.json(mtnBody(request));
+});
+
+// Airtel Money collection
+app.post('/auth/oauth2/token', (req, res) => {
+  if (!req.body?.client_id || !req.body?.client_secret) {
+    return res.status(401).json({ error: 'invalid_client', error_description: 'Client credentials are required' });
+  }
+  res.json({ access_token: crypto.randomBytes(24).toString('hex'), token_type: 'bearer', expires_in: '180' });
+});
+
+app.post('/merchant/v1/payments/', (req, res) => {
+  const { subscriber, transaction } = req.body || {};
+  if (!transaction?.id || !subscriber?.msisdn || !(Number(transaction.amount) > 0)) {
+    return res.status(400).json({ data: {}, status: airtelStatus(false) });
+  }
+  if (requests.has(transaction.id)) {
+    return res.json({ data: {}, status: { ...airtelStatus(false), message: 'Duplicate transaction id' } });
+  }
+
+  const request = {
+    provider: 'airtel',
+    referenceId: transaction.id,
+    amount: Number(transaction.amount),
+    msisdn: subscriber.msisdn,
+    status: 'PENDING',
+    transactionId: null,
+  };
+  requests.set(transaction.id, request);
+  console.log(`airtel payment ${transaction.id}: UGX ${request.amount} from ${request.msisdn}`);
+  settle(request);
+  res.json({ data: { transaction: { id: transaction.id, status: 'Success.' } }, status: airtelStatus() });
+});
+
+app.get('/standard/v1/payments/:id', (req, res) => {
+  const request = requests.get(req.params.id);
+  if (!request || request.provider !== 'airtel') {
+    return res.status(404).json({ data: {}, status: { ...airtelStatus(false), message: 'Transaction not found' } });
+  }
+  res.json({ data: { transaction: airtelTransaction(request) }, status: airtelStatus() });
+});
+
+app.post('/standard/v1/payments/refund', (req, res) => {
+  const airtelMoneyId = req.body?.transaction?.airtel_money_id;
+  const original = [...requests.values()].find((r) => r.provider === 'airtel' && r.transactionId === airtelMoneyId);
+  if (!original) {
+    return res.json({ data: {}, status: { ...airtelStatus(false), message: 'Transaction not found' } });
+  }
+  refunds.push({ provider: 'airtel', airtelMoneyId, amount: original.amount, refunds: original.referenceId });
+  console.log(`airtel refund of ${airtelMoneyId}: UGX ${original.amount} to ${original.msisdn}`);
+  res.json({ data: { transaction: { airtel_money_id: airtelMoneyId, status: 'SUCCESS' } }, status: airtelStatus() });
+});
+
+app.get('/standard/v1/users/balance', (req, res) => {
+  res.json({ data: { balance: '2500000', currency: 'UGX', account_status: 'Active' }, status: airtelStatus() });
+});
+
+// Test helpers
+app.get('/mock/requests', (req, res) => {
+  res.json({ requests: [...requests.values()], refunds });
+});
+
+// Sends a successful callback nobody asked for, to exercise the exceptions queue
+app.post('/mock/unmatched/:provider', async (req, res) => {
+  const { amount = 5000, msisdn = '256770000000', callbackUrl } = req.body || {};
+  const referenceId = crypto.randomUUID();
+  const transactionId = String(Math.floor(Math.random() * 1e10));
+  // Kept so the payment can be refunded from the exceptions queue
+  requests.set(referenceId, {
+    provider: req.params.provider,
+    referenceId,
+    amount: Number(amount),
+    msisdn,
+    status: 'SUCCESSFUL',
+    transactionId,
+  });
+
+  if (req.params.provider === 'mtn') {
+    if (!callbackUrl) return res.status(400).json({ error: 'callbackUrl is required for MTN' });
+    await postCallback(callbackUrl, 'PUT', {
+      amount: String(amount),
+      currency: 'UGX',
+      financialTransactionId: transactionId,
+      externalId: referenceId,
+      payer: { partyIdType: 'MSISDN', partyId: msisdn },
+      status: 'SUCCESSFUL',
+    });
+  } else {
+    await postCallback(callbackUrl || AIRTEL_CALLBACK_URL, 'POST', {
+      transaction: { id: referenceId, airtel_money_id: transactionId, message: 'Paid', status_code: 'TS' },
+    });
+  }
+  res.json({ referenceId, transactionId });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock mobile money provider on http://localhost:${PORT} (approval delay ${DELAY_MS}ms)`);
+});
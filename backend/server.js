@@ -1151,41 +1151,117 @@ app.get('/api/customers-count', authenticateToken, async (req, res) => {
   }
 });
 
+// Checkout in one transaction: stock check, receipt number, header, items, payments and stock
+// deductions all succeed or none do. A retry with the same Idempotency-Key header (or
+// body.idempotency_key) gets the sale created by the first attempt instead of a duplicate.
 app.post('/api/sales', authenticateToken, async (req, res) => {
+  const { sale, items = [], payments = [] } = req.body;
+  const idempotencyKey = req.get('Idempotency-Key') || req.body.idempotency_key || null;
+
+  if (!sale || items.length === 0) {
+    return res.status(400).json({ error: 'A sale needs at least one item' });
+  }
+
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
-    
-    const { sale, items } = req.body;
-    
-    // Insert sale
+
+    if (idempotencyKey) {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`create_sale:${idempotencyKey}`]);
+      const existing = await client.query('SELECT * FROM sales WHERE idempotency_key = $1', [idempotencyKey]);
+      if (existing.rows.length > 0) {
+        await client.query('COMMIT');
+        return res.status(200).json({ ...existing.rows[0], duplicate: true });
+      }
+    }
+
+    // Check every line before taking anything, holding the rows so another till can't sell them meanwhile.
+    // Lines for the same product or variant are added up first, so together they can't oversell it.
+    const deductions = new Map();
+    const addDeduction = (deduction) => {
+      const key = `${deduction.table}:${deduction.column}:${deduction.id}`;
+      const existing = deductions.get(key);
+      if (existing) {
+        existing.quantity += Number(deduction.quantity || 0);
+      } else {
+        deductions.set(key, { ...deduction, quantity: Number(deduction.quantity || 0) });
+      }
+    };
+    for (const item of items) {
+      if (item.variant_id) {
+        const { rows } = await client.query(
+          'SELECT current_stock FROM product_variants WHERE id = $1 FOR UPDATE',
+          [item.variant_id]
+        );
+        addDeduction({ table: 'product_variants', column: 'current_stock', id: item.variant_id, quantity: item.quantity, available: rows[0]?.current_stock, name: item.item_name });
+      } else if (item.product_id) {
+        const { rows } = await client.query(
+          'SELECT current_stock, current_stock_ml, tracking_type FROM products WHERE id = $1 FOR UPDATE',
+          [item.product_id]
+        );
+        const useMl = rows[0]?.tracking_type === 'ml' && item.ml_amount;
+        addDeduction({
+          table: 'products',
+          column: useMl ? 'current_stock_ml' : 'current_stock',
+          id: item.product_id,
+          quantity: useMl ? item.ml_amount : item.quantity,
+          available: useMl ? rows[0]?.current_stock_ml : rows[0]?.current_stock,
+          name: item.item_name,
+        });
+      }
+    }
+
+    const shortage = [...deductions.values()].find((d) => d.available === undefined || Number(d.available || 0) < Number(d.quantity));
+    if (shortage) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({
+        error: shortage.available === undefined
+          ? `Stock item for ${shortage.name} not found`
+          : `Insufficient stock for ${shortage.name}. Available: ${shortage.available}`,
+      });
+    }
+
+    // generate_receipt_number reads MAX(receipt_number), so only one checkout may use it at a time
+    let receiptNumber = sale.receipt_number;
+    if (!receiptNumber) {
+      await client.query("SELECT pg_advisory_xact_lock(hashtext('create_sale:receipt_number'))");
+      const { rows } = await client.query('SELECT generate_receipt_number() AS receipt_number');
+      receiptNumber = rows[0].receipt_number;
+    }
+
     const saleResult = await client.query(
-      `INSERT INTO sales (receipt_number, customer_id, subtotal, discount, total, amount_paid, change_amount, payment_method, cashier_name, department_id, status)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING *`,
-      [sale.receipt_number, sale.customer_id, sale.subtotal, sale.discount, sale.total, sale.amount_paid, sale.change_amount, sale.payment_method, sale.cashier_name, sale.department_id, sale.status]
+      `INSERT INTO sales (receipt_number, invoice_number, is_invoice, customer_id, subtotal, discount, total, amount_paid, change_amount, payment_method, cashier_name, department_id, status, remarks, idempotency_key)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15) RETURNING *`,
+      [receiptNumber, sale.invoice_number || null, sale.is_invoice || false, sale.customer_id, sale.subtotal, sale.discount || 0, sale.total, sale.amount_paid, sale.change_amount || 0, sale.payment_method, sale.cashier_name, sale.department_id, sale.status || 'completed', sale.remarks || null, idempotencyKey]
     );
-    
+
     const createdSale = saleResult.rows[0];
-    
-    // Insert sale items
+
     for (const item of items) {
       await client.query(
-        `INSERT INTO sale_items (sale_id, product_id, variant_id, item_name, quantity, unit_price, subtotal)
-         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-        [createdSale.id, item.product_id, item.variant_id, item.item_name, item.quantity, item.unit_price, item.subtotal]
+        `INSERT INTO sale_items (sale_id, product_id, variant_id, service_id, item_name, quantity, unit_price, subtotal, customer_type, scent_mixture, bottle_cost)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [createdSale.id, item.product_id || null, item.variant_id || null, item.service_id || null, item.item_name, item.quantity, item.unit_price, item.subtotal, item.customer_type || null, item.scent_mixture || null, item.bottle_cost || 0]
       );
-      
-      // Update stock
-      if (item.product_id) {
-        await client.query(
-          'UPDATE products SET current_stock = current_stock - $1 WHERE id = $2',
-          [item.quantity, item.product_id]
-        );
-      }
     }
-    
+
+    for (const payment of payments) {
+      await client.query(
+        `INSERT INTO payment_transactions (sale_id, payment_method, amount, reference_number, status)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [createdSale.id, payment.method, payment.amount, payment.reference || null, payment.status || 'completed']
+      );
+    }
+
+    for (const d of deductions.values()) {
+      await client.query(
+        `UPDATE ${d.table} SET ${d.column} = ${d.column} - $1 WHERE id = $2`,
+        [d.quantity, d.id]
+      );
+    }
+
     await client.query('COMMIT');
-    res.status(201).json(createdSale);
+    res.status(201).json({ ...createdSale, duplicate: false });
   } catch (error) {
     await client.query('ROLLBACK');
     console.error('Error creating sale:', error);
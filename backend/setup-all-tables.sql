@@ -217,9 +217,13 @@ CREATE TABLE IF NOT EXISTS sales (
   voided_by UUID,
   voided_at TIMESTAMPTZ,
   void_reason TEXT,
+  idempotency_key TEXT,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Existing installs: key that makes POST /api/sales safe to retry
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
 -- Sale items table
 CREATE TABLE IF NOT EXISTS sale_items (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -574,6 +578,7 @@ CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON product_variants(p
 CREATE INDEX IF NOT EXISTS idx_product_variants_barcode ON product_variants(barcode);
 CREATE INDEX IF NOT EXISTS idx_product_variants_sku ON product_variants(sku);
 CREATE INDEX IF NOT EXISTS idx_sales_department_id ON sales(department_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_idempotency_key ON sales(idempotency_key) WHERE idempotency_key IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_sales_created_at ON sales(created_at);
 CREATE INDEX IF NOT EXISTS idx_sale_items_sale_id ON sale_items(sale_id);
 CREATE INDEX IF NOT EXISTS idx_customers_department_id ON customers(department_id);
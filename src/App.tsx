@@ -62,11 +62,13 @@ const LandingPageEditor = lazyRetry(() => import("./pages/LandingPageEditor"), "
 const ComingSoon = lazyRetry(() => import("./pages/ComingSoon"), "ComingSoon");
 const Suppliers = lazyRetry(() => import("./pages/Suppliers"), "Suppliers");
 const SuspendedRevenue = lazyRetry(() => import("./pages/SuspendedRevenue"), "SuspendedRevenue");
+const GiftVouchers = lazyRetry(() => import("./pages/GiftVouchers"), "GiftVouchers");
 const InstallPWA = lazyRetry(() => import("./pages/InstallPWA"), "InstallPWA");
 const PerfumeSalesHistory = lazyRetry(() => import("./pages/PerfumeSalesHistory"), "PerfumeSalesHistory");
 const CustomerCredits = lazyRetry(() => import("./pages/CustomerCredits"), "CustomerCredits");
 const CustomerScentCheckIn = lazyRetry(() => import("./pages/CustomerScentCheckIn"), "CustomerScentCheckIn");
 const CustomerScentMemory = lazyRetry(() => import("./pages/CustomerScentMemory"), "CustomerScentMemory");
+const BookAppointment = lazyRetry(() => import("./pages/BookAppointment"), "BookAppointment");
 const ScentCheckInQR = lazyRetry(() => import("./pages/ScentCheckInQR"), "ScentCheckInQR");
 const DataImport = lazyRetry(() => import("./pages/DataImport"), "DataImport");
 const UserAccountsGuide = lazyRetry(() => import("./pages/UserAccountsGuide"), "UserAccountsGuide");
@@ -194,10 +196,12 @@ const App = () => (
                       <Route path="/data-import" element={<DataImport />} />
                       <Route path="/user-accounts-guide" element={<UserAccountsGuide />} />
                       <Route path="/cash-drawer" element={<CashDrawer />} />
+                      <Route path="/gift-vouchers" element={<GiftVouchers />} />
                     </Route>
                     {/* Public routes for customer self-service */}
                     <Route path="/customer-scent-check-in" element={<CustomerScentCheckIn />} />
                     <Route path="/customer-scent-memory" element={<CustomerScentMemory />} />
+                    <Route path="/book-appointment" element={<BookAppointment />} />
                     {/* Redirect /home to root */}
                     <Route path="/home" element={<Navigate to="/" replace />} />
                     {/* Catch-all route for 404 */}
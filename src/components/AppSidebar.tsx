@@ -28,6 +28,7 @@ import {
   Globe,
   Building2,
   QrCode,
+  Gift,
   Upload,
   BookOpen,
   Building,
@@ -142,6 +143,7 @@ export function AppSidebar() {
     { path: "/reports", icon: FileText, label: "Reports" },
     { path: "/credits", icon: CreditCard, label: "Credits" },
     { path: "/customer-credits", icon: CreditCard, label: "Customer Credits" },
+    { path: "/gift-vouchers", icon: Gift, label: "Gift Vouchers" },
     { path: "/inbox", icon: Mail, label: "Inbox" },
     { path: "/internal-usage", icon: AlertCircle, label: "Internal Usage" },
     { path: "/mobile-money", icon: Wallet, label: "Mobile Money", departmentTypes: ["mobile_money"] },
@@ -203,7 +205,7 @@ export function AppSidebar() {
     }
     
     const basicPages = ["/inventory", "/sales", "/sales-history", "/customers", "/services", 
-                        "/appointments", "/barcode-generator", "/credits", 
+                        "/appointments", "/barcode-generator", "/credits", "/gift-vouchers",
                         "/inbox", "/internal-usage", "/reports"];
     if (basicPages.includes(item.path)) return true;
     
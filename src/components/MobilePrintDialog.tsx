@@ -19,6 +19,7 @@ import {
   shareReceiptAsImage,
   isAndroid,
 } from "@/utils/mobilePrinter";
+import type { Translator } from "@/utils/i18n";
 
 interface ReceiptData {
   receiptNumber: string;
@@ -49,6 +50,7 @@ interface ReceiptData {
     whatsapp?: string;
   };
   seasonalRemark?: string;
+  translate?: Translator;
 }
 
 interface MobilePrintDialogProps {
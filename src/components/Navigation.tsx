@@ -1,7 +1,7 @@
 import { Link, useLocation } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
-import { LayoutDashboard, ShoppingCart, Package, Wrench, FileText, Settings, Users, LogOut, Shield, Smartphone, BarChart, UserCog, PackagePlus, Calculator, AlertTriangle, Receipt, Package2, History, BookOpen, Barcode, TrendingUp, Sparkles, DollarSign, Droplet, BarChart3, Calendar } from "lucide-react";
+import { LayoutDashboard, ShoppingCart, Package, Wrench, FileText, Settings, Users, LogOut, Shield, Smartphone, BarChart, UserCog, PackagePlus, Calculator, AlertTriangle, Receipt, Package2, History, BookOpen, Barcode, TrendingUp, Sparkles, DollarSign, Droplet, BarChart3, Calendar, Gift } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "./ui/button";
@@ -76,6 +76,7 @@ const Navigation = () => {
     { path: "/barcode-generator", icon: Barcode, label: "Barcode Gen", departments: ["general"] },
     { path: "/services", icon: Wrench, label: "Services", departments: ["general"] },
     { path: "/customers", icon: Users, label: "Customers", departments: ["general"] },
+    { path: "/gift-vouchers", icon: Gift, label: "Gift Vouchers", departments: ["general", "perfume"] },
     { path: "/reconcile", icon: Calculator, label: "Reconcile", departments: ["general"] },
     { path: "/internal-usage", icon: Package2, label: "Internal Usage", departments: ["general", "mobile money", "perfume"] },
     { path: "/expenses", icon: Receipt, label: "Expenses", departments: ["general"] },
@@ -1,37 +1,147 @@
+import { useState } from "react";
+import { format } from "date-fns";
 import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { useUserRole } from "@/hooks/useUserRole";
 import { Badge } from "@/components/ui/badge";
-import { Cloud, CloudOff, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { AlertTriangle, Cloud, CloudOff, Loader2, RefreshCw } from "lucide-react";
+import { OutboxEntry } from "@/utils/offlineQueue";
+
+const STATUS_LABELS: Record<OutboxEntry["status"], string> = {
+  pending: "Waiting",
+  syncing: "Syncing",
+  conflict: "Needs review",
+};
 
 export const OfflineSyncIndicator = () => {
-  const { isOnline, isSyncing, queueCount } = useOfflineSync();
+  const { isOnline, isSyncing, queueCount, entries, conflicts, resolveConflict, syncNow } = useOfflineSync();
+  const { isAdmin, isModerator } = useUserRole();
+  const [showReview, setShowReview] = useState(false);
+  const [discarding, setDiscarding] = useState<OutboxEntry | null>(null);
 
-  if (isOnline && queueCount === 0 && !isSyncing) {
+  if (isOnline && entries.length === 0 && !isSyncing) {
     return null;
   }
 
   return (
-    <div className="fixed bottom-4 right-4 z-50">
-      <Badge
-        variant={isOnline ? "default" : "destructive"}
-        className="px-3 py-2 text-sm flex items-center gap-2"
-      >
-        {isSyncing ? (
-          <>
-            <Loader2 className="h-4 w-4 animate-spin" />
-            Syncing...
-          </>
-        ) : isOnline ? (
-          <>
-            <Cloud className="h-4 w-4" />
-            Online {queueCount > 0 && `(${queueCount} pending)`}
-          </>
-        ) : (
-          <>
-            <CloudOff className="h-4 w-4" />
-            Offline {queueCount > 0 && `(${queueCount} saved)`}
-          </>
-        )}
-      </Badge>
-    </div>
+    <>
+      <button type="button" className="fixed bottom-4 right-4 z-50" onClick={() => setShowReview(true)}>
+        <Badge
+          variant={isOnline && conflicts.length === 0 ? "default" : "destructive"}
+          className="px-3 py-2 text-sm flex items-center gap-2"
+        >
+          {isSyncing ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Syncing...
+            </>
+          ) : conflicts.length > 0 ? (
+            <>
+              <AlertTriangle className="h-4 w-4" />
+              {conflicts.length} to review {queueCount > 0 && `(${queueCount} pending)`}
+            </>
+          ) : isOnline ? (
+            <>
+              <Cloud className="h-4 w-4" />
+              Online {queueCount > 0 && `(${queueCount} pending)`}
+            </>
+          ) : (
+            <>
+              <CloudOff className="h-4 w-4" />
+              Offline {queueCount > 0 && `(${queueCount} saved)`}
+            </>
+          )}
+        </Badge>
+      </button>
+
+      <Dialog open={showReview} onOpenChange={setShowReview}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Offline Changes</DialogTitle>
+            <DialogDescription>
+              Saved on this device and sent to the server when the connection allows. Anything the server
+              refused, such as a sale of stock that ran out meanwhile, waits here for you to decide.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {entries.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">Everything is synced.</p>
+            )}
+            {entries.map((entry) => (
+              <div
+                key={entry.id}
+                className={`p-3 rounded-lg border space-y-2 ${entry.status === "conflict" ? "border-destructive/50 bg-destructive/5" : ""}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{entry.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(entry.createdAt), "dd MMM, HH:mm")}
+                      {entry.attempts > 0 && ` · ${entry.attempts} attempt${entry.attempts === 1 ? "" : "s"}`}
+                      {entry.status === "pending" && entry.nextAttemptAt > Date.now() &&
+                        ` · next try ${format(new Date(entry.nextAttemptAt), "HH:mm:ss")}`}
+                    </p>
+                  </div>
+                  <Badge variant={entry.status === "conflict" ? "destructive" : "secondary"}>
+                    {STATUS_LABELS[entry.status]}
+                  </Badge>
+                </div>
+                {entry.lastError && <p className="text-sm text-destructive">{entry.lastError}</p>}
+                {entry.status === "conflict" && (
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="outline" onClick={() => resolveConflict(entry.id, "retry")}>
+                      Retry
+                    </Button>
+                    {/* Recording a sale past the stock on hand is a manager's call, as create_sale enforces */}
+                    {entry.kind === "create_sale" && (isAdmin || isModerator) && (
+                      <Button size="sm" onClick={() => resolveConflict(entry.id, "record_anyway")}>
+                        Record Sale Anyway
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" className="text-destructive" onClick={() => setDiscarding(entry)}>
+                      Discard
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {isOnline && queueCount > 0 && (
+            <Button variant="outline" onClick={syncNow} disabled={isSyncing}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? "animate-spin" : ""}`} />
+              Sync Now
+            </Button>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!discarding} onOpenChange={(open) => !open && setDiscarding(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard this change?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {discarding?.kind === "create_sale"
+                ? "The sale will never reach the server: it won't appear in reports and its stock won't be deducted."
+                : "It will be removed from this device without being saved."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (discarding) resolveConflict(discarding.id, "discard");
+                setDiscarding(null);
+              }}
+            >
+              Discard
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
   );
 };
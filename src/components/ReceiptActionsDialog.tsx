@@ -2,8 +2,11 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { Printer, MessageCircle, Eye, FileText, Edit, Smartphone } from "lucide-react";
-import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Printer, MessageCircle, Eye, FileText, Edit, Smartphone, Languages } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
 import { printReceipt, shareViaWhatsApp, generateReceiptHTML } from "@/utils/receiptPrinter";
 import { printInvoice, shareInvoiceViaWhatsApp, generateInvoiceHTML } from "@/utils/invoicePrinter";
 import { Badge } from "@/components/ui/badge";
@@ -11,6 +14,8 @@ import { useUserRole } from "@/hooks/useUserRole";
 import { PrintPreviewDialog } from "@/components/PrintPreviewDialog";
 import { MobilePrintDialog } from "@/components/MobilePrintDialog";
 import { isMobile } from "@/utils/mobilePrinter";
+import { useTranslator } from "@/hooks/useTranslator";
+import { LANGUAGES, Language } from "@/constants/translations";
 
 interface ReceiptActionsDialogProps {
   isOpen: boolean;
@@ -19,6 +24,8 @@ interface ReceiptActionsDialogProps {
   customerPhone?: string;
   isInvoice?: boolean;
   onEdit?: () => void;
+  departmentId?: string | null; // For the department's default language and string overrides
+  customerId?: string | null; // For the customer's preferred language
 }
 
 export const ReceiptActionsDialog = ({ 
@@ -28,13 +35,38 @@ export const ReceiptActionsDialog = ({
   customerPhone,
   isInvoice = false,
   onEdit,
+  departmentId,
+  customerId,
 }: ReceiptActionsDialogProps) => {
   const [whatsappNumber, setWhatsappNumber] = useState(customerPhone || "");
+  const [language, setLanguage] = useState<Language | null>(null);
   const { isAdmin } = useUserRole();
   const [showPrintPreview, setShowPrintPreview] = useState(false);
   const [printPreviewHtml, setPrintPreviewHtml] = useState("");
   const [showMobilePrint, setShowMobilePrint] = useState(false);
 
+  const { data: preferredLanguage } = useQuery({
+    queryKey: ["customer-language", customerId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("customers")
+        .select("preferred_language")
+        .eq("id", customerId)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.preferred_language ?? null;
+    },
+    enabled: !!customerId,
+  });
+
+  // A language picked here only applies to this receipt
+  useEffect(() => {
+    setLanguage(null);
+  }, [receiptData]);
+
+  const { t, language: documentLanguage } = useTranslator(departmentId, language || preferredLanguage);
+  const documentData = receiptData ? { ...receiptData, translate: t } : receiptData;
+
   const handlePrint = async () => {
     // Check if on mobile - use mobile print dialog
     if (isMobile()) {
@@ -46,9 +78,9 @@ export const ReceiptActionsDialog = ({
     try {
       let html: string;
       if (isInvoice) {
-        html = generateInvoiceHTML(receiptData);
+        html = generateInvoiceHTML(documentData);
       } else {
-        html = generateReceiptHTML(receiptData);
+        html = generateReceiptHTML(documentData);
       }
       setPrintPreviewHtml(html);
       setShowPrintPreview(true);
@@ -56,9 +88,9 @@ export const ReceiptActionsDialog = ({
       console.error('Error generating print preview:', error);
       // Fallback to direct print
       if (isInvoice) {
-        await printInvoice(receiptData, false);
+        await printInvoice(documentData, false);
       } else {
-        await printReceipt(receiptData, false);
+        await printReceipt(documentData, false);
       }
     }
   };
@@ -68,9 +100,9 @@ export const ReceiptActionsDialog = ({
     try {
       let html: string;
       if (isInvoice) {
-        html = generateInvoiceHTML(receiptData);
+        html = generateInvoiceHTML(documentData);
       } else {
-        html = generateReceiptHTML(receiptData);
+        html = generateReceiptHTML(documentData);
       }
       setPrintPreviewHtml(html);
       setShowPrintPreview(true);
@@ -78,9 +110,9 @@ export const ReceiptActionsDialog = ({
       console.error('Error generating preview:', error);
       // Fallback to old preview
       if (isInvoice) {
-        await printInvoice(receiptData, true);
+        await printInvoice(documentData, true);
       } else {
-        await printReceipt(receiptData, true);
+        await printReceipt(documentData, true);
       }
     }
   };
@@ -138,9 +170,9 @@ export const ReceiptActionsDialog = ({
   const handleWhatsAppShare = async () => {
     try {
       if (isInvoice) {
-        await shareInvoiceViaWhatsApp(receiptData, whatsappNumber);
+        await shareInvoiceViaWhatsApp(documentData, whatsappNumber);
       } else {
-        await shareViaWhatsApp(receiptData, whatsappNumber);
+        await shareViaWhatsApp(documentData, whatsappNumber);
       }
     } catch (error) {
       console.error('Error sharing:', error);
@@ -203,6 +235,23 @@ export const ReceiptActionsDialog = ({
               </Button>
             </div>
 
+            <div className="space-y-2">
+              <Label className="flex items-center gap-1">
+                <Languages className="w-4 h-4" />
+                {isInvoice ? "Invoice" : "Receipt"} Language
+              </Label>
+              <Select value={documentLanguage} onValueChange={(value) => setLanguage(value as Language)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LANGUAGES).map(([code, name]) => (
+                    <SelectItem key={code} value={code}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="whatsapp">Customer WhatsApp Number</Label>
               <Input
@@ -261,7 +310,7 @@ export const ReceiptActionsDialog = ({
         <MobilePrintDialog
           open={showMobilePrint}
           onOpenChange={setShowMobilePrint}
-          receiptData={receiptData}
+          receiptData={documentData}
           onPrintComplete={() => setShowMobilePrint(false)}
         />
       )}
@@ -8,6 +8,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Trash2, Save } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { applyStockMovement, StockReference } from "@/utils/stockManagement";
 
 interface ReceiptEditDialogProps {
   isOpen: boolean;
@@ -30,7 +31,7 @@ interface EditItem {
 export const ReceiptEditDialog = ({ isOpen, onClose, receiptData }: ReceiptEditDialogProps) => {
   const queryClient = useQueryClient();
   const [items, setItems] = useState<EditItem[]>([]);
-  const [paymentMethod, setPaymentMethod] = useState<"cash" | "mobile_money" | "card" | "credit">("cash");
+  const [paymentMethod, setPaymentMethod] = useState<"cash" | "mobile_money" | "card">("cash");
   const [saleDate, setSaleDate] = useState<string>("");
   const [loading, setLoading] = useState(false);
 
@@ -50,7 +51,7 @@ export const ReceiptEditDialog = ({ isOpen, onClose, receiptData }: ReceiptEditD
       })) || [];
       setItems(loadedItems);
       const method = receiptData.paymentMethod?.toLowerCase() || receiptData.payment_method || "cash";
-      setPaymentMethod(method as "cash" | "mobile_money" | "card" | "credit");
+      setPaymentMethod(method as "cash" | "mobile_money" | "card");
 
       if (receiptData.created_at) {
         // Format to YYYY-MM-DDTHH:MM for datetime-local input using local time
@@ -97,6 +98,18 @@ export const ReceiptEditDialog = ({ isOpen, onClose, receiptData }: ReceiptEditD
       const subtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
       const total = subtotal;
 
+      // Totals, payment method, date and the tenders in sale_payments are saved together, and a
+      // receipt that can't be edited is refused before any stock moves
+      const { error: updateError } = await supabase.rpc("update_sale_receipt", {
+        _sale_id: saleId,
+        _subtotal: subtotal,
+        _total: total,
+        _payment_method: paymentMethod,
+        _created_at: saleDate ? new Date(saleDate).toISOString() : receiptData.created_at,
+      });
+
+      if (updateError) throw updateError;
+
       // Fetch original sale items to handle stock restoration
       const { data: originalSaleItems, error: fetchError } = await supabase
         .from("sale_items")
@@ -105,44 +118,31 @@ export const ReceiptEditDialog = ({ isOpen, onClose, receiptData }: ReceiptEditD
 
       if (fetchError) throw fetchError;
 
+      const stockReference: StockReference = { type: "sale", id: saleId };
+
       // Restore stock for original items
       for (const originalItem of originalSaleItems || []) {
         if (originalItem.product_id) {
           const { data: product } = await supabase
             .from("products")
-            .select("stock, total_ml, tracking_type")
+            .select("tracking_type")
             .eq("id", originalItem.product_id)
             .single();
 
           if (product) {
-            const updateData: Record<string, number> = {};
-            if (product.tracking_type === "ml") {
-              updateData.total_ml = (product.total_ml || 0) + (originalItem.ml_amount || originalItem.quantity);
-            } else {
-              updateData.stock = (product.stock || 0) + originalItem.quantity;
-            }
-
-            await supabase
-              .from("products")
-              .update(updateData)
-              .eq("id", originalItem.product_id);
+            const useMl = product.tracking_type === "ml";
+            await applyStockMovement({
+              itemType: "product",
+              itemId: originalItem.product_id,
+              movementType: "receipt_edit",
+              quantity: useMl ? (originalItem.ml_amount || originalItem.quantity) : originalItem.quantity,
+              useMl,
+              reference: stockReference,
+            });
           }
         }
       }
 
-      // Update the sale record
-      const { error: updateError } = await supabase
-        .from("sales")
-        .update({
-          subtotal,
-          total,
-          payment_method: paymentMethod,
-          created_at: saleDate ? new Date(saleDate).toISOString() : receiptData.created_at,
-        })
-        .eq("id", saleId);
-
-      if (updateError) throw updateError;
-
       // Delete old sale items
       const { error: deleteError } = await supabase
         .from("sale_items")
@@ -170,22 +170,19 @@ export const ReceiptEditDialog = ({ isOpen, onClose, receiptData }: ReceiptEditD
         if (item.productId) {
           const { data: product } = await supabase
             .from("products")
-            .select("stock, total_ml, tracking_type")
+            .select("tracking_type")
             .eq("id", item.productId)
             .single();
 
           if (product) {
-            const updateData: Record<string, number> = {};
-            if (product.tracking_type === "ml") {
-              updateData.total_ml = Math.max(0, (product.total_ml || 0) - item.quantity);
-            } else {
-              updateData.stock = Math.max(0, (product.stock || 0) - item.quantity);
-            }
-
-            await supabase
-              .from("products")
-              .update(updateData)
-              .eq("id", item.productId);
+            await applyStockMovement({
+              itemType: "product",
+              itemId: item.productId,
+              movementType: "receipt_edit",
+              quantity: -item.quantity,
+              useMl: product.tracking_type === "ml",
+              reference: stockReference,
+            });
           }
         }
       }
@@ -279,7 +276,6 @@ export const ReceiptEditDialog = ({ isOpen, onClose, receiptData }: ReceiptEditD
                   <SelectItem value="cash">Cash</SelectItem>
                   <SelectItem value="mobile_money">Mobile Money</SelectItem>
                   <SelectItem value="card">Card</SelectItem>
-                  <SelectItem value="credit">Credit</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -1,22 +1,85 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Sparkles, MessageCircle, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Sparkles, Search, Plus, X, Heart } from "lucide-react";
+import {
+  RecommendableScent,
+  buildScentSalesStats,
+  recommendScents,
+  suggestCombinations,
+} from "@/utils/scentRecommendations";
 
 interface ScentAssistantProps {
+  /** Every active scent in the department, with stock and notes */
+  scents: RecommendableScent[];
+  departmentId: string | null;
+  customerId?: string | null;
+  /** Scents already in the bottle - recommendations go well with these */
+  selectedScents?: string[];
   onScentRecommendation?: (scents: string[]) => void;
 }
 
-export function ScentAssistant({ onScentRecommendation }: ScentAssistantProps) {
+const HISTORY_DAYS = 90;
+
+export function ScentAssistant({
+  scents,
+  departmentId,
+  customerId,
+  selectedScents = [],
+  onScentRecommendation,
+}: ScentAssistantProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [query, setQuery] = useState("");
 
-  const popularCombinations = [
-    { name: "Fresh & Clean", scents: ["AQUA", "CITRUS", "MUSK"] },
-    { name: "Romantic Evening", scents: ["ROSE", "VANILLA", "AMBER"] },
-    { name: "Bold & Confident", scents: ["OUD", "SANDALWOOD", "LEATHER"] },
-    { name: "Light & Airy", scents: ["JASMINE", "WHITE TEA", "BERGAMOT"] },
-  ];
+  // Mixtures sold in this department recently - the co-occurrence data behind every suggestion
+  const { data: mixtures = [] } = useQuery({
+    queryKey: ["scent-mixture-history", departmentId],
+    queryFn: async () => {
+      const since = new Date();
+      since.setDate(since.getDate() - HISTORY_DAYS);
+      const { data, error } = await supabase
+        .from("sale_items")
+        .select("scent_mixture, sales!inner(department_id)")
+        .eq("sales.department_id", departmentId)
+        .gte("created_at", since.toISOString())
+        .not("scent_mixture", "is", null)
+        .limit(5000);
+      if (error) throw error;
+      return (data || []).map((item) => item.scent_mixture);
+    },
+    enabled: isOpen && !!departmentId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: preferredScents = [] } = useQuery({
+    queryKey: ["customer-preferred-scents", customerId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("customer_preferences")
+        .select("preferred_scents")
+        .eq("customer_id", customerId)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.preferred_scents || [];
+    },
+    enabled: isOpen && !!customerId,
+  });
+
+  const stats = useMemo(() => buildScentSalesStats(mixtures), [mixtures]);
+
+  const recommendations = useMemo(
+    () => recommendScents({ scents, stats, selected: selectedScents, preferred: preferredScents, query }),
+    [scents, stats, selectedScents, preferredScents, query]
+  );
+
+  const combinations = useMemo(
+    () => suggestCombinations({ scents, stats, preferred: preferredScents }),
+    [scents, stats, preferredScents]
+  );
 
   if (!isOpen) {
     return (
@@ -51,25 +114,80 @@ export function ScentAssistant({ onScentRecommendation }: ScentAssistantProps) {
         </div>
       </CardHeader>
       <CardContent className="space-y-3">
-        <p className="text-xs text-muted-foreground">
-          Popular scent combinations:
-        </p>
-        <div className="grid grid-cols-2 gap-2">
-          {popularCombinations.map((combo) => (
-            <Button
-              key={combo.name}
-              variant="outline"
-              size="sm"
-              className="h-auto py-2 flex flex-col items-start"
-              onClick={() => onScentRecommendation?.(combo.scents)}
-            >
-              <span className="font-medium text-xs">{combo.name}</span>
-              <span className="text-[10px] text-muted-foreground">
-                {combo.scents.join(", ")}
-              </span>
-            </Button>
-          ))}
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            className="pl-8 h-9"
+            placeholder='e.g. "similar to ROSE OUD" or "woody fresh"'
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
         </div>
+
+        {preferredScents.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+            <Heart className="h-3 w-3" />
+            {preferredScents.slice(0, 5).join(", ")}
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            {selectedScents.length > 0 && !query ? "Goes well with this bottle:" : "Suggested scents (in stock):"}
+          </p>
+          {recommendations.length === 0 ? (
+            <p className="text-xs text-muted-foreground py-2">No in-stock scents match</p>
+          ) : (
+            recommendations.map(({ scent, reasons }) => (
+              <div key={scent.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{scent.name}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {reasons.map((reason) => (
+                      <Badge key={reason} variant="secondary" className="text-[10px] font-normal">
+                        {reason}
+                      </Badge>
+                    ))}
+                    <span className="text-[10px] text-muted-foreground">{scent.stock_ml || 0}ml</span>
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0 shrink-0"
+                  title="Add to bottle"
+                  onClick={() => onScentRecommendation?.([scent.name])}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {combinations.length > 0 && (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Popular combinations:
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {combinations.map((combo) => (
+                <Button
+                  key={combo.scents.join("|")}
+                  variant="outline"
+                  size="sm"
+                  className="h-auto py-2 flex flex-col items-start"
+                  onClick={() => onScentRecommendation?.(combo.scents)}
+                >
+                  <span className="font-medium text-xs">{combo.name}</span>
+                  <span className="text-[10px] text-muted-foreground text-left whitespace-normal">
+                    {combo.scents.join(", ")} · {combo.count} sold
+                  </span>
+                </Button>
+              ))}
+            </div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
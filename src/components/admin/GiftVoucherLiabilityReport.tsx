@@ -0,0 +1,195 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Gift, Wallet } from "lucide-react";
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getVoucherState } from "@/utils/giftVouchers";
+
+interface GiftVoucherLiabilityReportProps {
+  departmentId?: string;
+}
+
+/**
+ * What the business still owes in goods: unspent gift vouchers and customers' store credit.
+ * Balances are as of now; issued and redeemed totals are for the chosen period.
+ */
+export const GiftVoucherLiabilityReport = ({ departmentId }: GiftVoucherLiabilityReportProps) => {
+  const today = new Date();
+  const [startDate, setStartDate] = useState(format(new Date(today.getFullYear(), today.getMonth(), 1), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(today, "yyyy-MM-dd"));
+
+  const { data: vouchers = [], isLoading: loadingVouchers } = useQuery({
+    queryKey: ["voucher-liability", departmentId],
+    queryFn: async () => {
+      if (!departmentId) return [];
+      const { data, error } = await supabase
+        .from("gift_vouchers")
+        .select("*")
+        .eq("department_id", departmentId)
+        .eq("status", "active")
+        .gt("balance", 0)
+        .order("expires_at", { ascending: true, nullsFirst: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!departmentId,
+  });
+
+  const { data: storeCredit = 0, isLoading: loadingCredit } = useQuery({
+    queryKey: ["store-credit-liability", departmentId],
+    queryFn: async () => {
+      if (!departmentId) return 0;
+      const { data, error } = await supabase
+        .from("customers")
+        .select("store_credit_balance")
+        .eq("department_id", departmentId)
+        .gt("store_credit_balance", 0);
+      if (error) throw error;
+      return (data || []).reduce((sum, c) => sum + Number(c.store_credit_balance || 0), 0);
+    },
+    enabled: !!departmentId,
+  });
+
+  const { data: movements = [] } = useQuery({
+    queryKey: ["voucher-movements", departmentId, startDate, endDate],
+    queryFn: async () => {
+      if (!departmentId) return [];
+      const { data, error } = await supabase
+        .from("gift_voucher_transactions")
+        .select("transaction_type, amount")
+        .eq("department_id", departmentId)
+        .gte("created_at", `${startDate}T00:00:00`)
+        .lte("created_at", `${endDate}T23:59:59`);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!departmentId,
+  });
+
+  const summary = useMemo(() => {
+    const active = vouchers.filter((v) => getVoucherState(v) === "active");
+    const expired = vouchers.filter((v) => getVoucherState(v) === "expired");
+    const sumOf = (type: string) =>
+      Math.abs(movements.filter((m) => m.transaction_type === type).reduce((sum, m) => sum + Number(m.amount), 0));
+
+    return {
+      active,
+      outstanding: active.reduce((sum, v) => sum + Number(v.balance), 0),
+      expiredBalance: expired.reduce((sum, v) => sum + Number(v.balance), 0),
+      expiredCount: expired.length,
+      issued: sumOf("issue"),
+      // Voided sales put their voucher tenders back
+      redeemed: sumOf("redeem") - sumOf("reversal"),
+    };
+  }, [vouchers, movements]);
+
+  if (loadingVouchers || loadingCredit) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <Gift className="w-4 h-4 text-primary" />
+              Open Vouchers
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-primary">UGX {Math.round(summary.outstanding).toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">{summary.active.length} vouchers</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <Wallet className="w-4 h-4 text-primary" />
+              Store Credit
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-primary">UGX {Math.round(storeCredit).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Total Liability</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xl font-bold">UGX {Math.round(summary.outstanding + storeCredit).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Expired Unspent</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xl font-bold text-muted-foreground">UGX {Math.round(summary.expiredBalance).toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">{summary.expiredCount} vouchers, not owed</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+        <div className="space-y-1">
+          <Label>From</Label>
+          <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>To</Label>
+          <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+        </div>
+        <p className="text-sm text-muted-foreground sm:pb-2">
+          Issued UGX {Math.round(summary.issued).toLocaleString()} · Redeemed UGX {Math.round(summary.redeemed).toLocaleString()}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Open Vouchers by Expiry</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Issued</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.active.map((voucher) => (
+                <TableRow key={voucher.id}>
+                  <TableCell className="font-mono">{voucher.code}</TableCell>
+                  <TableCell className="text-sm">{format(new Date(voucher.created_at), "dd MMM yyyy")}</TableCell>
+                  <TableCell className="text-sm">
+                    {voucher.expires_at ? format(new Date(voucher.expires_at), "dd MMM yyyy") : "Never"}
+                  </TableCell>
+                  <TableCell className="text-right">{Number(voucher.balance).toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+              {summary.active.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No open vouchers
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
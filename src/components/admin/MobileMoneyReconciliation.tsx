@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Clock, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import {
+  EXCEPTION_REASON_LABELS,
+  MobileMoneyException,
+  MobileMoneyExceptionReason,
+  checkMobilePayments,
+  refundMobileMoneyException,
+  resolveMobileMoneyException,
+} from "@/utils/mobileMoneyPayments";
+
+interface MobileMoneyReconciliationProps {
+  departmentId?: string;
+}
+
+const PROVIDER_LABELS: Record<string, string> = { mtn: "MTN", airtel: "Airtel" };
+
+type ResolveAction = "match" | "dismiss" | "refund";
+
+const RESOLVE_TITLES: Record<ResolveAction, string> = {
+  match: "Match to a Sale",
+  dismiss: "Dismiss Exception",
+  refund: "Refund Payer",
+};
+
+const RESOLVE_DESCRIPTIONS: Record<ResolveAction, string> = {
+  match: "Mark an unpaid mobile money payment as paid with this transaction",
+  dismiss: "Record why this result needs no action, e.g. a duplicate notification",
+  refund: "Send the collected amount back to the payer through the provider",
+};
+
+/**
+ * Mobile money collections still waiting on the provider, and provider results that couldn't be
+ * applied automatically, for staff to match to a sale or dismiss
+ */
+export const MobileMoneyReconciliation = ({ departmentId }: MobileMoneyReconciliationProps) => {
+  const queryClient = useQueryClient();
+  const [resolving, setResolving] = useState<{ exception: MobileMoneyException; action: ResolveAction } | null>(null);
+  const [tenderId, setTenderId] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: pending = [] } = useQuery({
+    queryKey: ["mobile-money-pending", departmentId],
+    queryFn: async () => {
+      let query = supabase.from("mobile_money_payments").select("*").eq("status", "pending");
+      if (departmentId) query = query.eq("department_id", departmentId);
+      const { data, error } = await query.order("created_at", { ascending: false }).limit(50);
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  // Unmatched results have no department, so they show everywhere
+  const { data: exceptions = [] } = useQuery({
+    queryKey: ["mobile-money-exceptions", departmentId],
+    queryFn: async () => {
+      let query = supabase.from("mobile_money_exceptions").select("*").eq("status", "open");
+      if (departmentId) query = query.or(`department_id.eq.${departmentId},department_id.is.null`);
+      const { data, error } = await query.order("created_at", { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: unpaidTenders = [] } = useQuery({
+    queryKey: ["unpaid-mobile-tenders", departmentId],
+    queryFn: async () => {
+      let query = supabase
+        .from("sale_payments")
+        .select("*, sales!inner(sale_number, status)")
+        .eq("method", "mobile_money")
+        .in("status", ["pending", "failed"])
+        .neq("sales.status", "voided");
+      if (departmentId) query = query.eq("department_id", departmentId);
+      const { data, error } = await query.order("created_at", { ascending: false }).limit(100);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: resolving?.action === "match",
+  });
+
+  // Only payments the exception can pay for: same department and provider, amount covered
+  const matchingTenders = unpaidTenders.filter(
+    (tender) =>
+      resolving &&
+      tender.department_id === resolving.exception.department_id &&
+      (!tender.provider || tender.provider === resolving.exception.provider) &&
+      Number(resolving.exception.amount || 0) >= Number(tender.amount)
+  );
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["mobile-money-pending"] });
+    queryClient.invalidateQueries({ queryKey: ["mobile-money-exceptions"] });
+    queryClient.invalidateQueries({ queryKey: ["unpaid-mobile-tenders"] });
+    queryClient.invalidateQueries({ queryKey: ["payment-transactions"] });
+  };
+
+  const checkMutation = useMutation({
+    mutationFn: () => checkMobilePayments({ departmentId: departmentId! }),
+    onSuccess: (results) => {
+      const settled = results.filter((r) => r.status !== "pending").length;
+      toast.success(
+        results.length === 0 ? "No payments to check" : `Checked ${results.length} payment(s), ${settled} settled`
+      );
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to check payments");
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async () => {
+      const { exception, action } = resolving!;
+      if (action === "refund") {
+        await refundMobileMoneyException(exception.id, exception.department_id || departmentId!, notes.trim());
+        return;
+      }
+      if (action === "match" && !tenderId) throw new Error("Choose the payment this belongs to");
+      await resolveMobileMoneyException(
+        resolving!.exception.id,
+        resolving!.action === "match" ? tenderId : null,
+        notes.trim()
+      );
+    },
+    onSuccess: () => {
+      toast.success(
+        resolving?.action === "match" ? "Payment matched" : resolving?.action === "refund" ? "Refund sent" : "Exception dismissed"
+      );
+      invalidate();
+      setResolving(null);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to resolve exception");
+    },
+  });
+
+  const openResolve = (exception: MobileMoneyException, action: ResolveAction) => {
+    setResolving({ exception, action });
+    setTenderId("");
+    setNotes("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            Awaiting Confirmation
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => checkMutation.mutate()}
+            disabled={!departmentId || checkMutation.isPending}
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${checkMutation.isPending ? "animate-spin" : ""}`} />
+            Check Now
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Requested</TableHead>
+                <TableHead>Provider</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead className="text-right">Amount (UGX)</TableHead>
+                <TableHead>Last checked</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pending.map((payment) => (
+                <TableRow key={payment.id}>
+                  <TableCell className="text-sm">{format(new Date(payment.created_at), "MMM dd, HH:mm")}</TableCell>
+                  <TableCell>
+                    {PROVIDER_LABELS[payment.provider] || payment.provider}
+                    {payment.is_simulated && (
+                      <Badge variant="secondary" className="ml-1">Practice</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{payment.phone_number}</TableCell>
+                  <TableCell className="text-right">{Number(payment.amount).toLocaleString()}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {payment.last_checked_at
+                      ? `${format(new Date(payment.last_checked_at), "HH:mm")} (${payment.check_attempts}×)`
+                      : "Not yet"}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {pending.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No payments waiting on the provider
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5" />
+            Exceptions
+            {exceptions.length > 0 && <Badge variant="destructive">{exceptions.length}</Badge>}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Provider results that couldn't be applied to a payment automatically
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Provider</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Transaction ID</TableHead>
+                <TableHead className="text-right">Amount (UGX)</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {exceptions.map((exception) => (
+                <TableRow key={exception.id}>
+                  <TableCell className="text-sm">{format(new Date(exception.created_at), "MMM dd, HH:mm")}</TableCell>
+                  <TableCell>{PROVIDER_LABELS[exception.provider] || exception.provider}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {EXCEPTION_REASON_LABELS[exception.reason as MobileMoneyExceptionReason] || exception.reason}
+                    </Badge>
+                    {exception.reported_status && (
+                      <p className="text-xs text-muted-foreground mt-1">Reported {exception.reported_status}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{exception.phone_number || "-"}</TableCell>
+                  <TableCell className="font-mono text-xs">{exception.transaction_id || "-"}</TableCell>
+                  <TableCell className="text-right">
+                    {exception.amount !== null ? Number(exception.amount).toLocaleString() : "-"}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {exception.reported_status === "completed" && (
+                      <>
+                        <Button variant="outline" size="sm" className="mr-2" onClick={() => openResolve(exception, "match")}>
+                          Match
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="mr-2"
+                          onClick={() => openResolve(exception, "refund")}
+                          disabled={!exception.department_id && !departmentId}
+                        >
+                          Refund
+                        </Button>
+                      </>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => openResolve(exception, "dismiss")}>
+                      Dismiss
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {exceptions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No open exceptions
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{resolving && RESOLVE_TITLES[resolving.action]}</DialogTitle>
+            <DialogDescription>{resolving && RESOLVE_DESCRIPTIONS[resolving.action]}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {resolving?.action === "refund" && (
+              <p className="text-sm">
+                UGX {resolving.exception.amount !== null ? Number(resolving.exception.amount).toLocaleString() : "full amount"} to{" "}
+                {resolving.exception.phone_number || "the payer"}
+              </p>
+            )}
+            {resolving?.action === "match" && (
+              <div className="space-y-1">
+                <Label>Unpaid payment</Label>
+                <Select value={tenderId} onValueChange={setTenderId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose payment" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {matchingTenders.map((tender) => (
+                      <SelectItem key={tender.id} value={tender.id}>
+                        {tender.sales?.sale_number} · UGX {Number(tender.amount).toLocaleString()}
+                        {tender.phone_number ? ` · ${tender.phone_number}` : ""}
+                        {tender.status === "failed" ? " · failed" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {matchingTenders.length === 0 && (
+                  <p className="text-xs text-muted-foreground">No unpaid mobile money payments this transaction can cover</p>
+                )}
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Notes</Label>
+              <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolving(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => resolveMutation.mutate()} disabled={resolveMutation.isPending}>
+              {resolveMutation.isPending
+                ? "Saving..."
+                : resolving?.action === "match"
+                ? "Match"
+                : resolving?.action === "refund"
+                ? "Send Refund"
+                : "Dismiss"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
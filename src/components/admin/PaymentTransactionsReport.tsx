@@ -15,14 +15,15 @@ export const PaymentTransactionsReport = ({ departmentId }: PaymentTransactionsR
   const { data: transactions, isLoading } = useQuery({
     queryKey: ["payment-transactions", departmentId],
     queryFn: async () => {
+      // Tenders rather than sales, so a split sale only counts its card / mobile money portion
       let query = supabase
-        .from("sales")
-        .select("*, customers(name)")
-        .in("payment_method", ["mobile_money", "card"])
-        .neq("status", "voided");
+        .from("sale_payments")
+        .select("*, sales!inner(sale_number, status, department_id, customers(name))")
+        .in("method", ["mobile_money", "card"])
+        .neq("sales.status", "voided");
 
       if (departmentId) {
-        query = query.eq("department_id", departmentId);
+        query = query.eq("sales.department_id", departmentId);
       }
 
       const { data, error } = await query.order("created_at", { ascending: false });
@@ -35,11 +36,11 @@ export const PaymentTransactionsReport = ({ departmentId }: PaymentTransactionsR
   const analytics = useMemo(() => {
     if (!transactions) return null;
 
-    const mobileMoneyTransactions = transactions.filter(t => t.payment_method === "mobile_money");
-    const cardTransactions = transactions.filter(t => t.payment_method === "card");
+    const mobileMoneyTransactions = transactions.filter(t => t.method === "mobile_money");
+    const cardTransactions = transactions.filter(t => t.method === "card");
 
-    const totalMobileMoney = mobileMoneyTransactions.reduce((sum, t) => sum + Number(t.total), 0);
-    const totalCard = cardTransactions.reduce((sum, t) => sum + Number(t.total), 0);
+    const totalMobileMoney = mobileMoneyTransactions.reduce((sum, t) => sum + Number(t.amount), 0);
+    const totalCard = cardTransactions.reduce((sum, t) => sum + Number(t.amount), 0);
     const totalAmount = totalMobileMoney + totalCard;
 
     return {
@@ -142,6 +143,7 @@ export const PaymentTransactionsReport = ({ departmentId }: PaymentTransactionsR
                     <TableHead>Sale #</TableHead>
                     <TableHead>Customer</TableHead>
                     <TableHead>Payment Method</TableHead>
+                    <TableHead>Reference</TableHead>
                     <TableHead className="text-right">Amount (UGX)</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -152,20 +154,29 @@ export const PaymentTransactionsReport = ({ departmentId }: PaymentTransactionsR
                         {format(new Date(transaction.created_at), "MMM dd, yyyy HH:mm")}
                       </TableCell>
                       <TableCell className="font-mono text-sm">
-                        {transaction.sale_number}
+                        {transaction.sales?.sale_number}
                       </TableCell>
                       <TableCell className="text-sm">
-                        {transaction.customers?.name || "Walk-in"}
+                        {transaction.sales?.customers?.name || "Walk-in"}
                       </TableCell>
                       <TableCell>
                         <Badge
-                          variant={transaction.payment_method === "mobile_money" ? "default" : "secondary"}
+                          variant={transaction.method === "mobile_money" ? "default" : "secondary"}
                         >
-                          {transaction.payment_method === "mobile_money" ? "Mobile Money" : "Card"}
+                          {transaction.method === "mobile_money" ? "Mobile Money" : "Card"}
                         </Badge>
+                        {transaction.status === "pending" && (
+                          <Badge variant="outline" className="ml-1">Pending</Badge>
+                        )}
+                        {transaction.status === "failed" && (
+                          <Badge variant="destructive" className="ml-1">Failed</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {transaction.reference || transaction.phone_number || "-"}
                       </TableCell>
                       <TableCell className="text-right font-semibold">
-                        {Number(transaction.total).toLocaleString()}
+                        {Number(transaction.amount).toLocaleString()}
                       </TableCell>
                     </TableRow>
                   ))}
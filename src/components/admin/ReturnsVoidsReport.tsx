@@ -0,0 +1,236 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Ban, PackageX, Undo2 } from "lucide-react";
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { REFUND_METHOD_LABELS, RefundMethod } from "@/utils/saleReturns";
+
+interface ReturnsVoidsReportProps {
+  departmentId?: string;
+}
+
+export const ReturnsVoidsReport = ({ departmentId }: ReturnsVoidsReportProps) => {
+  const today = new Date();
+  const [startDate, setStartDate] = useState(format(new Date(today.getFullYear(), today.getMonth(), 1), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(today, "yyyy-MM-dd"));
+
+  const { data: returns = [], isLoading: loadingReturns } = useQuery({
+    queryKey: ["returns-report", departmentId, startDate, endDate],
+    queryFn: async () => {
+      if (!departmentId) return [];
+      const { data, error } = await supabase
+        .from("sale_returns")
+        .select("*, sales(receipt_number), sale_return_items(quantity, amount, disposition)")
+        .eq("department_id", departmentId)
+        .gte("created_at", `${startDate}T00:00:00`)
+        .lte("created_at", `${endDate}T23:59:59`)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!departmentId,
+  });
+
+  // Voids are dated by when they were voided, not when the sale happened
+  const { data: voids = [], isLoading: loadingVoids } = useQuery({
+    queryKey: ["voids-report", departmentId, startDate, endDate],
+    queryFn: async () => {
+      if (!departmentId) return [];
+      const { data, error } = await supabase
+        .from("sales")
+        .select("id, receipt_number, total, void_reason, voided_at, created_at, cashier_name")
+        .eq("department_id", departmentId)
+        .eq("status", "voided")
+        .gte("voided_at", `${startDate}T00:00:00`)
+        .lte("voided_at", `${endDate}T23:59:59`)
+        .order("voided_at", { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!departmentId,
+  });
+
+  const summary = useMemo(() => {
+    const byMethod: Record<string, number> = {};
+    let restocked = 0;
+    let writtenOff = 0;
+
+    returns.forEach((r) => {
+      byMethod[r.refund_method] = (byMethod[r.refund_method] || 0) + Number(r.refund_amount);
+      (r.sale_return_items || []).forEach((item) => {
+        if (item.disposition === "write_off") writtenOff += Number(item.amount);
+        else restocked += Number(item.amount);
+      });
+    });
+
+    return {
+      returnsTotal: returns.reduce((sum, r) => sum + Number(r.refund_amount), 0),
+      voidsTotal: voids.reduce((sum, v) => sum + Number(v.total), 0),
+      byMethod,
+      restocked,
+      writtenOff,
+    };
+  }, [returns, voids]);
+
+  if (loadingReturns || loadingVoids) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+        <div className="space-y-1">
+          <Label>From</Label>
+          <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>To</Label>
+          <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <Undo2 className="w-4 h-4 text-primary" />
+              Returns
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-primary">UGX {Math.round(summary.returnsTotal).toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">{returns.length} credit notes</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Restocked</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xl font-bold">UGX {Math.round(summary.restocked).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <PackageX className="w-4 h-4 text-destructive" />
+              Written Off
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xl font-bold text-destructive">UGX {Math.round(summary.writtenOff).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <Ban className="w-4 h-4 text-destructive" />
+              Voids
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-destructive">UGX {Math.round(summary.voidsTotal).toLocaleString()}</p>
+            <p className="text-xs text-muted-foreground">{voids.length} sales voided</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {Object.keys(summary.byMethod).length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(summary.byMethod).map(([method, amount]) => (
+            <Badge key={method} variant="secondary">
+              {REFUND_METHOD_LABELS[method as RefundMethod] || method}: UGX {Math.round(amount).toLocaleString()}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Returns</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Credit Note</TableHead>
+                <TableHead>Receipt</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Refunded As</TableHead>
+                <TableHead className="text-right">Amount (UGX)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {returns.map((r) => (
+                <TableRow key={r.id}>
+                  <TableCell className="text-sm">{format(new Date(r.created_at), "MMM dd, yyyy HH:mm")}</TableCell>
+                  <TableCell className="font-mono text-sm">{r.credit_note_number}</TableCell>
+                  <TableCell className="font-mono text-sm">{r.sales?.receipt_number}</TableCell>
+                  <TableCell className="text-sm">{r.reason}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{REFUND_METHOD_LABELS[r.refund_method as RefundMethod] || r.refund_method}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right font-semibold">{Number(r.refund_amount).toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+              {returns.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No returns in this period
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Voided Sales</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Voided</TableHead>
+                <TableHead>Receipt</TableHead>
+                <TableHead>Cashier</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Amount (UGX)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {voids.map((v) => (
+                <TableRow key={v.id}>
+                  <TableCell className="text-sm">{format(new Date(v.voided_at || v.created_at), "MMM dd, yyyy HH:mm")}</TableCell>
+                  <TableCell className="font-mono text-sm">{v.receipt_number}</TableCell>
+                  <TableCell className="text-sm">{v.cashier_name || "Staff"}</TableCell>
+                  <TableCell className="text-sm">{v.void_reason || "-"}</TableCell>
+                  <TableCell className="text-right font-semibold">{Number(v.total).toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+              {voids.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No voided sales in this period
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Download, Landmark } from "lucide-react";
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TAX_TREATMENT_LABELS, TaxTreatment } from "@/utils/tax";
+
+interface TaxSummaryReportProps {
+  departmentId?: string;
+  departmentName?: string;
+}
+
+interface TaxSummaryRow {
+  key: string;
+  name: string;
+  code: string | null;
+  treatment: TaxTreatment | "unclassified";
+  rate: number;
+  lines: number;
+  grossAmount: number; // What customers paid for these lines
+  taxableAmount: number; // Excluding tax
+  taxAmount: number;
+}
+
+export const TaxSummaryReport = ({ departmentId, departmentName }: TaxSummaryReportProps) => {
+  const today = new Date();
+  const [startDate, setStartDate] = useState(format(new Date(today.getFullYear(), today.getMonth(), 1), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(today, "yyyy-MM-dd"));
+
+  const { data: items, isLoading } = useQuery({
+    queryKey: ["tax-summary", departmentId, startDate, endDate],
+    queryFn: async () => {
+      if (!departmentId) return [];
+
+      const { data, error } = await supabase
+        .from("sale_items")
+        .select("*, sales!inner(department_id, created_at, status)")
+        .eq("sales.department_id", departmentId)
+        .eq("sales.status", "completed")
+        .gte("sales.created_at", `${startDate}T00:00:00`)
+        .lte("sales.created_at", `${endDate}T23:59:59`);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!departmentId,
+  });
+
+  const { data: profileCodes } = useQuery({
+    queryKey: ["tax-profile-codes"],
+    queryFn: async () => {
+      const { data } = await supabase.from("tax_profiles").select("id, code");
+      return Object.fromEntries((data || []).map((p) => [p.id, p.code]));
+    },
+  });
+
+  const summary = useMemo(() => {
+    const rows: Record<string, TaxSummaryRow> = {};
+
+    (items || []).forEach((item) => {
+      const treatment = (item.tax_treatment || "unclassified") as TaxSummaryRow["treatment"];
+      const key = treatment === "unclassified" ? "unclassified" : `${item.tax_name}|${item.tax_rate}`;
+      const lineTotal = Number(item.total) || 0;
+      const taxAmount = Number(item.tax_amount) || 0;
+
+      if (!rows[key]) {
+        rows[key] = {
+          key,
+          name: treatment === "unclassified" ? "Not classified" : item.tax_name || TAX_TREATMENT_LABELS[treatment],
+          code: item.tax_profile_id ? profileCodes?.[item.tax_profile_id] || null : null,
+          treatment,
+          rate: Number(item.tax_rate) || 0,
+          lines: 0,
+          grossAmount: 0,
+          taxableAmount: 0,
+          taxAmount: 0,
+        };
+      }
+
+      rows[key].lines += 1;
+      rows[key].taxAmount += taxAmount;
+      if (treatment === "unclassified") {
+        rows[key].grossAmount += lineTotal;
+        rows[key].taxableAmount += lineTotal;
+      } else {
+        const taxable = Number(item.taxable_amount) || 0;
+        rows[key].taxableAmount += taxable;
+        rows[key].grossAmount += taxable + taxAmount;
+      }
+    });
+
+    const list = Object.values(rows).sort((a, b) => b.taxAmount - a.taxAmount);
+    const sumBy = (treatment: TaxSummaryRow["treatment"]) =>
+      list.filter((r) => r.treatment === treatment).reduce((sum, r) => sum + r.taxableAmount, 0);
+
+    return {
+      rows: list,
+      totalTax: list.reduce((sum, r) => sum + r.taxAmount, 0),
+      standardRated: sumBy("standard"),
+      zeroRated: sumBy("zero_rated"),
+      exempt: sumBy("exempt"),
+      unclassified: sumBy("unclassified"),
+      grossSales: list.reduce((sum, r) => sum + r.grossAmount, 0),
+    };
+  }, [items, profileCodes]);
+
+  const exportCsv = () => {
+    let csv = `Tax Summary - ${departmentName || "Department"}\n`;
+    csv += `Period,${startDate} to ${endDate}\n`;
+    csv += `Generated,${new Date().toLocaleString()}\n\n`;
+    csv += "Tax,Code,Treatment,Rate,Lines,Sales (incl. tax),Taxable Value,Tax\n";
+    summary.rows.forEach((row) => {
+      csv += `${row.name},${row.code || ""},${row.treatment},${row.rate},${row.lines},${Math.round(row.grossAmount)},${Math.round(row.taxableAmount)},${Math.round(row.taxAmount)}\n`;
+    });
+    csv += `\nStandard-rated sales,${Math.round(summary.standardRated)}\n`;
+    csv += `Zero-rated sales,${Math.round(summary.zeroRated)}\n`;
+    csv += `Exempt sales,${Math.round(summary.exempt)}\n`;
+    csv += `Not classified,${Math.round(summary.unclassified)}\n`;
+    csv += `Output tax,${Math.round(summary.totalTax)}\n`;
+
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `tax-summary-${startDate}-to-${endDate}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+        <div className="space-y-1">
+          <Label>From</Label>
+          <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>To</Label>
+          <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+        </div>
+        <Button variant="outline" onClick={exportCsv} disabled={summary.rows.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <Landmark className="w-4 h-4 text-primary" />
+              Output Tax
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-primary">UGX {Math.round(summary.totalTax).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Standard-rated</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xl font-bold">UGX {Math.round(summary.standardRated).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Zero-rated</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xl font-bold">UGX {Math.round(summary.zeroRated).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Exempt</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xl font-bold">UGX {Math.round(summary.exempt).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Not classified</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xl font-bold text-muted-foreground">UGX {Math.round(summary.unclassified).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tax</TableHead>
+                  <TableHead>Treatment</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Lines</TableHead>
+                  <TableHead className="text-right">Sales (UGX)</TableHead>
+                  <TableHead className="text-right">Taxable Value (UGX)</TableHead>
+                  <TableHead className="text-right">Tax (UGX)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.rows.map((row) => (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">
+                      {row.name}
+                      {row.code && <span className="text-xs text-muted-foreground ml-1">({row.code})</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={row.treatment === "unclassified" ? "outline" : "secondary"}>
+                        {row.treatment === "unclassified" ? "Before tax setup" : TAX_TREATMENT_LABELS[row.treatment]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{row.treatment === "standard" ? `${row.rate}%` : "-"}</TableCell>
+                    <TableCell className="text-right">{row.lines}</TableCell>
+                    <TableCell className="text-right">{Math.round(row.grossAmount).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{Math.round(row.taxableAmount).toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-bold">{Math.round(row.taxAmount).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+                {summary.rows.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No sales in this period
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
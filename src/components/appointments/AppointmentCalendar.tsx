@@ -0,0 +1,179 @@
+import { useMemo } from "react";
+import { addDays, format, isSameDay, startOfWeek } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  Appointment,
+  APPOINTMENT_STATUS_LABELS,
+  AppointmentStatus,
+  findAppointmentConflicts,
+  getAppointmentCustomerName,
+} from "@/utils/appointments";
+
+export type AppointmentCalendarView = "day" | "week";
+
+interface AppointmentCalendarProps {
+  appointments: Appointment[];
+  view: AppointmentCalendarView;
+  date: Date;
+  selectedId?: string;
+  onSelect: (appointment: Appointment) => void;
+}
+
+const HOUR_HEIGHT = 56; // px per hour in the day view
+const UNASSIGNED = "Unassigned";
+
+const STATUS_CLASSES: Record<AppointmentStatus, string> = {
+  requested: "bg-background border-dashed border-primary/60",
+  scheduled: "bg-primary/10 border-primary/40",
+  arrived: "bg-amber-100 border-amber-400 dark:bg-amber-900/30",
+  in_progress: "bg-blue-100 border-blue-400 dark:bg-blue-900/30",
+  completed: "bg-green-100 border-green-400 dark:bg-green-900/30",
+  no_show: "bg-muted border-muted-foreground/30 opacity-60 line-through",
+  cancelled: "bg-muted border-muted-foreground/30 opacity-60 line-through",
+};
+
+const staffName = (a: Appointment) => a.assigned_staff?.trim() || UNASSIGNED;
+
+export const AppointmentCalendar = ({ appointments, view, date, selectedId, onSelect }: AppointmentCalendarProps) => {
+  const days = useMemo(() => {
+    if (view === "day") return [date];
+    const weekStart = startOfWeek(date, { weekStartsOn: 1 });
+    return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  }, [view, date]);
+
+  const visible = useMemo(
+    () => appointments.filter((a) => days.some((d) => isSameDay(new Date(a.appointment_date), d))),
+    [appointments, days]
+  );
+
+  // One column (day view) or row (week view) per staff member, case-insensitive
+  const staff = useMemo(() => {
+    const names = new Map<string, string>();
+    visible.forEach((a) => {
+      const name = staffName(a);
+      if (!names.has(name.toLowerCase())) names.set(name.toLowerCase(), name);
+    });
+    return Array.from(names.values()).sort((a, b) =>
+      a === UNASSIGNED ? 1 : b === UNASSIGNED ? -1 : a.localeCompare(b)
+    );
+  }, [visible]);
+
+  const conflictIds = useMemo(() => {
+    const ids = new Set<string>();
+    visible.forEach((a) => {
+      if (findAppointmentConflicts(a, visible).length > 0 && a.status !== "cancelled" && a.status !== "no_show") {
+        ids.add(a.id);
+      }
+    });
+    return ids;
+  }, [visible]);
+
+  const forStaff = (name: string) => visible.filter((a) => staffName(a).toLowerCase() === name.toLowerCase());
+
+  if (staff.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-8">
+        No appointments {view === "day" ? "on this day" : "this week"}
+      </p>
+    );
+  }
+
+  const renderCard = (a: Appointment, compact = false) => (
+    <button
+      type="button"
+      onClick={() => onSelect(a)}
+      className={cn(
+        "w-full text-left rounded border px-2 py-1 text-xs overflow-hidden",
+        STATUS_CLASSES[a.status as AppointmentStatus] || STATUS_CLASSES.scheduled,
+        selectedId === a.id && "ring-2 ring-primary",
+        conflictIds.has(a.id) && "border-destructive border-2"
+      )}
+      title={conflictIds.has(a.id) ? "Overlaps another booking for this staff member" : undefined}
+    >
+      <p className="font-semibold truncate">
+        {format(new Date(a.appointment_date), "HH:mm")} {getAppointmentCustomerName(a)}
+      </p>
+      {!compact && <p className="truncate">{a.services?.name || "No service"}</p>}
+      <p className="truncate text-muted-foreground">
+        {a.duration_minutes} min · {APPOINTMENT_STATUS_LABELS[a.status as AppointmentStatus] || a.status}
+      </p>
+    </button>
+  );
+
+  if (view === "week") {
+    return (
+      <div className="overflow-x-auto">
+        <div className="grid min-w-[800px]" style={{ gridTemplateColumns: `140px repeat(7, minmax(0, 1fr))` }}>
+          <div />
+          {days.map((day) => (
+            <div key={day.toISOString()} className="p-2 text-center text-sm font-medium border-b">
+              {format(day, "EEE dd")}
+            </div>
+          ))}
+          {staff.map((name) => (
+            <div key={name} className="contents">
+              <div className="p-2 text-sm font-medium border-b border-r">{name}</div>
+              {days.map((day) => (
+                <div key={day.toISOString()} className="p-1 space-y-1 border-b min-h-[60px]">
+                  {forStaff(name)
+                    .filter((a) => isSameDay(new Date(a.appointment_date), day))
+                    .map((a) => (
+                      <div key={a.id}>{renderCard(a, true)}</div>
+                    ))}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  // Day view: the visible hours stretch to fit early and late bookings
+  const startHour = Math.min(8, ...visible.map((a) => new Date(a.appointment_date).getHours()));
+  const endHour = Math.max(
+    20,
+    ...visible.map((a) => {
+      const start = new Date(a.appointment_date);
+      return Math.ceil(start.getHours() + (start.getMinutes() + a.duration_minutes) / 60);
+    })
+  );
+  const hours = Array.from({ length: Math.min(24, endHour) - startHour }, (_, i) => startHour + i);
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex min-w-fit">
+        <div className="w-14 shrink-0 pt-8">
+          {hours.map((hour) => (
+            <div key={hour} className="text-xs text-muted-foreground text-right pr-2" style={{ height: HOUR_HEIGHT }}>
+              {String(hour).padStart(2, "0")}:00
+            </div>
+          ))}
+        </div>
+        {staff.map((name) => (
+          <div key={name} className="flex-1 min-w-[160px] border-l">
+            <div className="h-8 text-sm font-medium text-center border-b truncate px-1">{name}</div>
+            <div className="relative" style={{ height: hours.length * HOUR_HEIGHT }}>
+              {hours.map((hour) => (
+                <div key={hour} className="border-b border-dashed" style={{ height: HOUR_HEIGHT }} />
+              ))}
+              {forStaff(name).map((a) => {
+                const start = new Date(a.appointment_date);
+                const top = ((start.getHours() - startHour) * 60 + start.getMinutes()) * (HOUR_HEIGHT / 60);
+                return (
+                  <div
+                    key={a.id}
+                    className="absolute left-1 right-1"
+                    style={{ top, height: Math.max(24, a.duration_minutes * (HOUR_HEIGHT / 60)) }}
+                  >
+                    <div className="h-full [&>button]:h-full">{renderCard(a)}</div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { printReceipt } from "@/utils/receiptPrinter";
+import { fetchTranslator } from "@/utils/i18n";
+import { createSale, newCheckoutKey } from "@/utils/checkout";
+import { buildSalePaymentRows, createTender } from "@/utils/payments";
+import { Appointment, getAppointmentCustomerName } from "@/utils/appointments";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,7 +18,7 @@ import { Receipt } from "lucide-react";
 interface AppointmentCheckoutDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  appointment: any;
+  appointment: Appointment;
   departmentId: string;
 }
 
@@ -25,7 +29,9 @@ export function AppointmentCheckoutDialog({
   departmentId,
 }: AppointmentCheckoutDialogProps) {
   const queryClient = useQueryClient();
-  const [servicePrice, setServicePrice] = useState(appointment?.services?.price || 0);
+  const [servicePrice, setServicePrice] = useState(
+    appointment?.services?.price || appointment?.services?.base_price || 0
+  );
   const [paymentMethod, setPaymentMethod] = useState<"cash" | "mobile_money" | "card" | "credit">("cash");
   const [discount, setDiscount] = useState(0);
   const [shouldPrintReceipt, setShouldPrintReceipt] = useState(true);
@@ -33,45 +39,54 @@ export function AppointmentCheckoutDialog({
   const subtotal = servicePrice;
   const total = Math.max(0, subtotal - discount);
 
+  // Retrying after a dropped connection must not charge the appointment twice
+  const checkoutKeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    checkoutKeyRef.current = null;
+  }, [servicePrice, discount, paymentMethod]);
+
   const completeAppointmentMutation = useMutation({
     mutationFn: async () => {
-      // Generate sale number
-      const saleNumber = `SALE-${Date.now()}`;
+      if (paymentMethod === "credit" && !appointment.customer_id) {
+        throw new Error("Credit needs a customer on the appointment");
+      }
 
-      // Get user info
       const { data: { user } } = await supabase.auth.getUser();
+      const tender = { ...createTender(paymentMethod, total), customerId: appointment.customer_id };
 
-      // Create sale record
-      const { data: sale, error: saleError } = await supabase
-        .from("sales")
-        .insert({
-          sale_number: saleNumber,
+      const { sale } = await createSale({
+        idempotencyKey: checkoutKeyRef.current || (checkoutKeyRef.current = newCheckoutKey()),
+        sale: {
           customer_id: appointment.customer_id,
           subtotal,
           discount,
           total,
+          amount_paid: total,
           payment_method: paymentMethod,
           cashier_id: user?.id,
           department_id: departmentId,
           notes: `Appointment service: ${appointment.services?.name || "N/A"}`,
-        })
-        .select()
-        .single();
-
-      if (saleError) throw saleError;
-
-      // Create sale item
-      const { error: itemError } = await supabase.from("sale_items").insert({
-        sale_id: sale.id,
-        service_id: appointment.service_id,
-        name: appointment.services?.name || "Service",
-        quantity: 1,
-        unit_price: servicePrice,
-        total: servicePrice,
+        },
+        items: [
+          {
+            service_id: appointment.service_id,
+            name: appointment.services?.name || "Service",
+            quantity: 1,
+            unit_price: servicePrice,
+            total: servicePrice,
+          },
+        ],
+        payments: buildSalePaymentRows([tender], total),
+        stock: [],
       });
 
-      if (itemError) throw itemError;
+      const { error: appointmentError } = await supabase
+        .from("appointments")
+        .update({ status: "completed", sale_id: sale.id })
+        .eq("id", appointment.id);
+      if (appointmentError) throw appointmentError;
 
+      const saleNumber = sale.receipt_number;
       return { sale, saleNumber };
     },
     onSuccess: async ({ sale, saleNumber }) => {
@@ -94,17 +109,18 @@ export function AppointmentCheckoutDialog({
 
           const settingsData = settings || globalSettings;
 
-          let customerName, customerPhone;
+          let customerName, customerPhone, customerLanguage;
           if (appointment.customer_id) {
             const { data: customer } = await supabase
               .from("customers")
-              .select("name, phone")
+              .select("name, phone, preferred_language")
               .eq("id", appointment.customer_id)
               .maybeSingle();
             
             if (customer) {
               customerName = customer.name;
               customerPhone = customer.phone;
+              customerLanguage = customer.preferred_language;
             }
           }
 
@@ -143,6 +159,7 @@ export function AppointmentCheckoutDialog({
               phone: "+256745368426",
               whatsapp: "+256745368426",
             },
+            translate: await fetchTranslator({ departmentId, language: customerLanguage }),
           };
 
           await printReceipt(receiptData, false);
@@ -153,11 +170,12 @@ export function AppointmentCheckoutDialog({
       }
 
       queryClient.invalidateQueries({ queryKey: ["sales"] });
+      queryClient.invalidateQueries({ queryKey: ["appointments"] });
       onOpenChange(false);
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       console.error("Failed to complete appointment:", error);
-      toast.error("Failed to complete appointment");
+      toast.error(error.message || "Failed to complete appointment");
     },
   });
 
@@ -174,7 +192,7 @@ export function AppointmentCheckoutDialog({
         <div className="space-y-4 py-4">
           <div className="space-y-2">
             <Label>Customer</Label>
-            <Input value={appointment?.customers?.name || "Walk-in"} disabled />
+            <Input value={getAppointmentCustomerName(appointment)} disabled />
           </div>
 
           <div className="space-y-2">
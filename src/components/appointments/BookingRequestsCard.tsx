@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { CalendarCheck, Globe, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Appointment,
+  AppointmentStatus,
+  getAppointmentCustomerName,
+  getAppointmentCustomerPhone,
+} from "@/utils/appointments";
+
+interface BookingRequestsCardProps {
+  departmentId: string;
+}
+
+// Requests from the public booking page, waiting for a member of staff to take them
+export const BookingRequestsCard = ({ departmentId }: BookingRequestsCardProps) => {
+  const queryClient = useQueryClient();
+  const [staffById, setStaffById] = useState<Record<string, string>>({});
+
+  const { data: requests = [] } = useQuery({
+    queryKey: ["appointments", "requests", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("appointments")
+        .select("*, customers(name, phone), services(name, price, base_price)")
+        .eq("department_id", departmentId)
+        .eq("status", "requested")
+        .gte("appointment_date", new Date().toISOString())
+        .order("appointment_date");
+      if (error) throw error;
+      return (data || []) as Appointment[];
+    },
+    enabled: !!departmentId,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ appointment, status }: { appointment: Appointment; status: AppointmentStatus }) => {
+      const assignedStaff = staffById[appointment.id]?.trim();
+      if (status === "scheduled" && !assignedStaff) {
+        throw new Error("Assign a member of staff before confirming");
+      }
+      const { error } = await supabase
+        .from("appointments")
+        .update(status === "scheduled" ? { status, assigned_staff: assignedStaff } : { status })
+        .eq("id", appointment.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { status }) => {
+      toast.success(status === "scheduled" ? "Booking confirmed" : "Booking declined");
+      queryClient.invalidateQueries({ queryKey: ["appointments"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update booking");
+    },
+  });
+
+  if (requests.length === 0) return null;
+
+  return (
+    <Card className="border-primary/40">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="w-5 h-5 text-primary" />
+          Booking Requests
+          <Badge>{requests.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.map((request) => (
+          <div key={request.id} className="p-3 rounded-lg border space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <p className="font-medium">{getAppointmentCustomerName(request)}</p>
+                <p className="text-sm text-muted-foreground">
+                  {request.services?.name || "Service"} · {format(new Date(request.appointment_date), "EEE dd MMM, HH:mm")} (
+                  {request.duration_minutes} min)
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {getAppointmentCustomerPhone(request)}
+                  {request.customer_email && ` · ${request.customer_email}`}
+                  {!request.customer_id && " · new customer"}
+                </p>
+                {request.notes && <p className="text-xs">Notes: {request.notes}</p>}
+              </div>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                placeholder="Assign staff"
+                list="appointment-staff"
+                value={staffById[request.id] || ""}
+                onChange={(e) => setStaffById({ ...staffById, [request.id]: e.target.value })}
+              />
+              <Button
+                size="sm"
+                disabled={respondMutation.isPending}
+                onClick={() => respondMutation.mutate({ appointment: request, status: "scheduled" })}
+              >
+                <CalendarCheck className="w-4 h-4 mr-2" />
+                Confirm
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={respondMutation.isPending}
+                onClick={() => respondMutation.mutate({ appointment: request, status: "cancelled" })}
+              >
+                <X className="w-4 h-4 mr-2" />
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,105 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { BellRing, MessageCircle, X } from "lucide-react";
+import { toast } from "sonner";
+import { getWhatsAppLink } from "@/utils/appointments";
+
+interface PendingRemindersCardProps {
+  departmentId: string;
+}
+
+// WhatsApp reminders queued by send-appointment-reminders, sent by staff from the shop's phone
+export const PendingRemindersCard = ({ departmentId }: PendingRemindersCardProps) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data: reminders = [] } = useQuery({
+    queryKey: ["appointment-reminders", "pending", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("appointment_reminders")
+        .select("*, appointments(appointment_date, status)")
+        .eq("department_id", departmentId)
+        .eq("channel", "whatsapp")
+        .eq("status", "pending")
+        .order("created_at");
+      if (error) throw error;
+      // Nothing to remind about once the appointment is past or no longer booked
+      return (data || []).filter(
+        (r) => r.appointments?.status === "scheduled" && new Date(r.appointments.appointment_date) > new Date()
+      );
+    },
+    enabled: !!departmentId,
+  });
+
+  const markMutation = useMutation({
+    mutationFn: async ({ id, sent }: { id: string; sent: boolean }) => {
+      const { error } = await supabase
+        .from("appointment_reminders")
+        .update(
+          sent
+            ? { status: "sent", sent_at: new Date().toISOString(), sent_by: user?.id }
+            : { status: "failed", error: "Dismissed by staff" }
+        )
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["appointment-reminders"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update reminder");
+    },
+  });
+
+  if (reminders.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="w-5 h-5 text-primary" />
+          Reminders to Send
+          <Badge variant="secondary">{reminders.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {reminders.map((reminder) => (
+          <div key={reminder.id} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg border">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium">
+                +{reminder.recipient} · {format(new Date(reminder.appointments.appointment_date), "EEE dd MMM, HH:mm")}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">{reminder.message}</p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => {
+                  window.open(getWhatsAppLink(reminder.recipient || "", reminder.message), "_blank");
+                  markMutation.mutate({ id: reminder.id, sent: true });
+                }}
+              >
+                <MessageCircle className="w-4 h-4 mr-2" />
+                Send
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                title="Dismiss"
+                onClick={() => markMutation.mutate({ id: reminder.id, sent: false })}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
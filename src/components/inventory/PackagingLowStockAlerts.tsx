@@ -0,0 +1,93 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, PackageX } from "lucide-react";
+import { PackagingItem, describePackagingUse, isPackagingLow } from "@/utils/packaging";
+
+interface PackagingLowStockAlertsProps {
+  departmentId: string;
+}
+
+export const PackagingLowStockAlerts = ({ departmentId }: PackagingLowStockAlertsProps) => {
+  const { data: items = [] } = useQuery({
+    queryKey: ["packaging-low-stock", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("packaging_items")
+        .select("*")
+        .eq("department_id", departmentId)
+        .eq("is_active", true)
+        .order("stock");
+      if (error) throw error;
+      return (data || []) as PackagingItem[];
+    },
+    enabled: !!departmentId,
+  });
+
+  const alerts = items.filter(isPackagingLow);
+  const criticalAlerts = alerts.filter((item) => item.stock === 0);
+  const lowStockAlerts = alerts.filter((item) => item.stock > 0);
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <Card className="border-destructive/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-destructive">
+          <AlertCircle className="w-5 h-5" />
+          Packaging Alerts ({alerts.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {criticalAlerts.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold flex items-center gap-2">
+                <PackageX className="w-4 h-4" />
+                Out of Stock ({criticalAlerts.length})
+              </h4>
+              <div className="space-y-1">
+                {criticalAlerts.map((item) => (
+                  <div
+                    key={item.id}
+                    className="flex items-center justify-between p-2 rounded bg-destructive/10 text-sm"
+                  >
+                    <span className="font-medium">
+                      {item.name} <span className="text-xs text-muted-foreground">· {describePackagingUse(item)}</span>
+                    </span>
+                    <Badge variant="destructive">Out of Stock</Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {lowStockAlerts.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                Low Stock ({lowStockAlerts.length})
+              </h4>
+              <div className="space-y-1">
+                {lowStockAlerts.map((item) => (
+                  <div
+                    key={item.id}
+                    className="flex items-center justify-between p-2 rounded bg-orange-500/10 text-sm"
+                  >
+                    <span>
+                      {item.name} <span className="text-xs text-muted-foreground">· {describePackagingUse(item)}</span>
+                    </span>
+                    <Badge variant="outline" className="border-orange-500 text-orange-500">
+                      {item.stock} left
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,389 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Boxes, Edit, History, PackagePlus, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { applyStockMovement } from "@/utils/stockManagement";
+import {
+  PACKAGING_KIND_LABELS,
+  PackagingItem,
+  PackagingKind,
+  describePackagingUse,
+  fetchRefillSizes,
+  isPackagingLow,
+} from "@/utils/packaging";
+import { StockMovementHistoryDialog } from "./StockMovementHistoryDialog";
+
+interface PackagingManagerProps {
+  departmentId: string;
+}
+
+interface PackagingForm {
+  name: string;
+  sku: string;
+  kind: PackagingKind;
+  size: string; // "all" or a refill size in ml
+  quantityPerRefill: string;
+  stock: string;
+  minStock: string;
+  costPrice: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: PackagingForm = {
+  name: "",
+  sku: "",
+  kind: "bottle",
+  size: "all",
+  quantityPerRefill: "1",
+  stock: "0",
+  minStock: "10",
+  costPrice: "0",
+  isActive: true,
+};
+
+export function PackagingManager({ departmentId }: PackagingManagerProps) {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<PackagingItem | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<PackagingForm>(EMPTY_FORM);
+  const [adjusting, setAdjusting] = useState<PackagingItem | null>(null);
+  const [adjustMode, setAdjustMode] = useState<"receive" | "count">("receive");
+  const [adjustValue, setAdjustValue] = useState("");
+  const [adjustNotes, setAdjustNotes] = useState("");
+  const [historyItem, setHistoryItem] = useState<PackagingItem | null>(null);
+
+  const { data: items = [], isLoading } = useQuery({
+    queryKey: ["packaging-items", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("packaging_items")
+        .select("*")
+        .eq("department_id", departmentId)
+        .order("bottle_size_ml", { ascending: true, nullsFirst: false })
+        .order("name");
+      if (error) throw error;
+      return (data || []) as PackagingItem[];
+    },
+    enabled: !!departmentId,
+  });
+
+  const { data: refillSizes = [] } = useQuery({
+    queryKey: ["refill-sizes", departmentId],
+    queryFn: () => fetchRefillSizes(departmentId),
+    enabled: !!departmentId,
+  });
+
+  // Sizes we sell that no active bottle is linked to - those refills take no bottle from stock
+  const sizesWithoutBottle = refillSizes.filter(
+    (ml) => !items.some((item) => item.is_active && item.kind === "bottle" && Number(item.bottle_size_ml) === ml)
+  );
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["packaging-items"] });
+    queryClient.invalidateQueries({ queryKey: ["packaging-low-stock"] });
+    queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+  };
+
+  const openForm = (item: PackagingItem | null) => {
+    setEditing(item);
+    setForm(
+      item
+        ? {
+            name: item.name,
+            sku: item.sku || "",
+            kind: item.kind as PackagingKind,
+            size: item.bottle_size_ml ? String(Number(item.bottle_size_ml)) : "all",
+            quantityPerRefill: String(item.quantity_per_refill),
+            stock: String(item.stock),
+            minStock: String(item.min_stock),
+            costPrice: String(item.cost_price),
+            isActive: item.is_active,
+          }
+        : EMPTY_FORM
+    );
+    setFormOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!form.name.trim()) throw new Error("Enter a name");
+      const values = {
+        name: form.name.trim(),
+        sku: form.sku.trim() || null,
+        kind: form.kind,
+        bottle_size_ml: form.size === "all" ? null : Number(form.size),
+        quantity_per_refill: Math.max(1, parseInt(form.quantityPerRefill) || 1),
+        min_stock: Math.max(0, parseInt(form.minStock) || 0),
+        cost_price: Math.max(0, Number(form.costPrice) || 0),
+        is_active: form.isActive,
+      };
+
+      if (editing) {
+        // Stock changes go through the ledger (Adjust), not the edit form
+        const { error } = await supabase
+          .from("packaging_items")
+          .update({ ...values, updated_at: new Date().toISOString() })
+          .eq("id", editing.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("packaging_items").insert({
+          ...values,
+          department_id: departmentId,
+          stock: Math.max(0, parseInt(form.stock) || 0),
+        });
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success(editing ? "Packaging updated" : "Packaging added");
+      invalidate();
+      setFormOpen(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save packaging");
+    },
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async () => {
+      const value = parseInt(adjustValue);
+      if (isNaN(value) || value < 0) throw new Error("Enter a quantity");
+      await applyStockMovement({
+        itemType: "packaging",
+        itemId: adjusting!.id,
+        movementType: adjustMode === "receive" ? "purchase_receipt" : "adjustment",
+        quantity: adjustMode === "receive" ? value : undefined,
+        newBalance: adjustMode === "count" ? value : undefined,
+        reference: { type: "packaging_items", id: adjusting!.id, notes: adjustNotes.trim() || undefined },
+      });
+    },
+    onSuccess: () => {
+      toast.success("Stock updated");
+      invalidate();
+      setAdjusting(null);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update stock");
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Boxes className="w-5 h-5" />
+          Bottles & Packaging
+        </CardTitle>
+        <Button onClick={() => openForm(null)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Item
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Every refill sale takes the packaging linked to its bottle size, plus anything set for every refill.
+          Voids and full returns put it back.
+        </p>
+
+        {sizesWithoutBottle.length > 0 && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              No bottle linked to {sizesWithoutBottle.map((ml) => `${ml}ml`).join(", ")} - those refills are not deducting a bottle.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && <p className="text-sm text-muted-foreground text-center py-4">Loading packaging...</p>}
+        {!isLoading && items.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">No packaging set up yet.</p>
+        )}
+
+        {items.map((item) => (
+          <div
+            key={item.id}
+            className={`flex flex-wrap items-center justify-between gap-2 p-3 rounded-lg border ${item.is_active ? "" : "opacity-60"}`}
+          >
+            <div>
+              <p className="font-medium">
+                {item.name}
+                {item.sku && <span className="text-xs text-muted-foreground ml-2">{item.sku}</span>}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {PACKAGING_KIND_LABELS[item.kind as PackagingKind] || item.kind} · {describePackagingUse(item)} ·{" "}
+                {Number(item.cost_price).toLocaleString()} UGX each
+                {!item.is_active && " · inactive"}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge
+                variant={item.stock === 0 ? "destructive" : isPackagingLow(item) ? "outline" : "secondary"}
+                className={item.stock > 0 && isPackagingLow(item) ? "border-orange-500 text-orange-500" : ""}
+              >
+                {item.stock} in stock
+              </Badge>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setAdjusting(item);
+                  setAdjustMode("receive");
+                  setAdjustValue("");
+                  setAdjustNotes("");
+                }}
+              >
+                <PackagePlus className="w-4 h-4 mr-1" />
+                Stock
+              </Button>
+              <Button size="icon" variant="ghost" onClick={() => setHistoryItem(item)} title="Stock history">
+                <History className="w-4 h-4" />
+              </Button>
+              <Button size="icon" variant="ghost" onClick={() => openForm(item)} title="Edit">
+                <Edit className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Packaging" : "Add Packaging"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label>Name *</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="30ml glass bottle" />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={form.kind} onValueChange={(value) => setForm({ ...form, kind: value as PackagingKind })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PACKAGING_KIND_LABELS) as PackagingKind[]).map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {PACKAGING_KIND_LABELS[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>SKU</Label>
+              <Input value={form.sku} onChange={(e) => setForm({ ...form, sku: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Used for</Label>
+              <Select value={form.size} onValueChange={(value) => setForm({ ...form, size: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Every refill</SelectItem>
+                  {[...new Set([...refillSizes, ...(form.size !== "all" ? [Number(form.size)] : [])])].map((ml) => (
+                    <SelectItem key={ml} value={String(ml)}>
+                      {ml}ml refills
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Per refill</Label>
+              <Input
+                type="number"
+                min="1"
+                value={form.quantityPerRefill}
+                onChange={(e) => setForm({ ...form, quantityPerRefill: e.target.value })}
+              />
+            </div>
+            {!editing && (
+              <div className="space-y-2">
+                <Label>Opening stock</Label>
+                <Input type="number" min="0" value={form.stock} onChange={(e) => setForm({ ...form, stock: e.target.value })} />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Alert at or below</Label>
+              <Input type="number" min="0" value={form.minStock} onChange={(e) => setForm({ ...form, minStock: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Cost each (UGX)</Label>
+              <Input type="number" min="0" value={form.costPrice} onChange={(e) => setForm({ ...form, costPrice: e.target.value })} />
+            </div>
+            {editing && (
+              <div className="flex items-center gap-2 col-span-2">
+                <Switch checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+                <Label>Active - inactive items are no longer deducted on refills</Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!adjusting} onOpenChange={(open) => !open && setAdjusting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Stock - {adjusting?.name}</DialogTitle>
+            <DialogDescription>Currently {adjusting?.stock ?? 0} in stock.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Select value={adjustMode} onValueChange={(value) => setAdjustMode(value as "receive" | "count")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="receive">Add a delivery</SelectItem>
+                <SelectItem value="count">Set counted stock</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="space-y-2">
+              <Label>{adjustMode === "receive" ? "Quantity received" : "Counted quantity"}</Label>
+              <Input type="number" min="0" value={adjustValue} onChange={(e) => setAdjustValue(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Notes</Label>
+              <Input value={adjustNotes} onChange={(e) => setAdjustNotes(e.target.value)} placeholder="Supplier, delivery note, reason..." />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAdjusting(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => adjustMutation.mutate()} disabled={adjustMutation.isPending || adjustValue === ""}>
+              {adjustMutation.isPending ? "Saving..." : "Update Stock"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <StockMovementHistoryDialog
+        open={!!historyItem}
+        onOpenChange={(open) => !open && setHistoryItem(null)}
+        itemName={historyItem?.name || ""}
+        packagingId={historyItem?.id}
+      />
+    </Card>
+  );
+}
@@ -1,10 +1,10 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { X, Sparkles, Plus, Package, AlertTriangle, TrendingUp } from "lucide-react";
+import { X, Sparkles, Plus, Package, AlertTriangle, TrendingUp, BookOpen, Save } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery } from "@tanstack/react-query";
@@ -15,12 +15,16 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 // PERFUME_SCENTS import removed - we only use scents from database now
 import { useDepartment } from "@/contexts/DepartmentContext";
+import { PerfumeRecipe, RECIPE_SELECT, getRecipeScents, scaleRecipe } from "@/utils/perfumeRecipes";
+import { RecipeDialog } from "@/components/perfume/RecipeDialog";
+import { ScentAssistant } from "@/components/ScentAssistant";
 
 interface PerfumeRefillDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   perfumeProducts: any[];
   customerId?: string | null;
+  recipeId?: string | null; // Open with this saved recipe loaded
   onAddToCart: (item: any) => void;
 }
 
@@ -28,6 +32,7 @@ interface SelectedScent {
   scent: string;
   scentId: string | null;
   ml: number;
+  ratio: number; // Parts of the bottle - equal unless loaded from a recipe
 }
 
 // Default pricing config
@@ -55,6 +60,7 @@ export function PerfumeRefillDialog({
   onOpenChange,
   perfumeProducts,
   customerId,
+  recipeId,
   onAddToCart,
 }: PerfumeRefillDialogProps) {
   const { selectedDepartmentId } = useDepartment();
@@ -64,6 +70,9 @@ export function PerfumeRefillDialog({
   const [customerType, setCustomerType] = useState<"retail" | "wholesale">("retail");
   const [selectedBottleSize, setSelectedBottleSize] = useState<string>("");
   const [selectedShopProducts, setSelectedShopProducts] = useState<Record<string, number>>({});
+  const [activeRecipeId, setActiveRecipeId] = useState<string>("");
+  const [saveRecipeOpen, setSaveRecipeOpen] = useState(false);
+  const appliedRecipeRef = useRef<string | null>(null);
 
   // Fetch scents with stock information (ONLY department-specific - no global scents)
   const { data: scentsWithStock = [] } = useQuery({
@@ -74,7 +83,7 @@ export function PerfumeRefillDialog({
       // Fetch ONLY department-specific scents - each department is independent
       const { data, error } = await supabase
         .from("perfume_scents")
-        .select("id, name, description, stock_ml, department_id")
+        .select("id, name, description, stock_ml, department_id, notes")
         .eq("is_active", true)
         .eq("department_id", selectedDepartmentId)
         .order("name");
@@ -123,6 +132,26 @@ export function PerfumeRefillDialog({
     enabled: !!selectedDepartmentId,
   });
 
+  // The customer's own recipes first, then the house blends
+  const { data: recipes = [] } = useQuery({
+    queryKey: ["perfume-recipes", selectedDepartmentId, "refill", customerId],
+    queryFn: async () => {
+      if (!selectedDepartmentId) return [];
+      let query = supabase
+        .from("perfume_recipes")
+        .select(RECIPE_SELECT)
+        .eq("department_id", selectedDepartmentId)
+        .eq("is_active", true);
+      query = customerId
+        ? query.or(`is_house_blend.eq.true,customer_id.eq.${customerId}`)
+        : query.eq("is_house_blend", true);
+      const { data, error } = await query.order("name");
+      if (error) throw error;
+      return ((data || []) as PerfumeRecipe[]).sort((a, b) => Number(a.is_house_blend) - Number(b.is_house_blend));
+    },
+    enabled: open && !!selectedDepartmentId,
+  });
+
   // Get pricing config from perfume_pricing_config table or use defaults
   const { data: pricingConfigData } = useQuery({
     queryKey: ["perfume-pricing-config", selectedDepartmentId],
@@ -208,54 +237,105 @@ export function PerfumeRefillDialog({
     });
   };
 
+  // Validate and add scents to the bottle in one update (the picker adds one, the assistant may add a blend)
+  const addScentsByName = (names: string[]) => {
+    const next = [...selectedScents];
+    for (const name of names) {
+      if (next.length >= 10) {
+        toast.error("Maximum 10 scents allowed");
+        break;
+      }
+
+      if (next.some(s => s.scent === name)) {
+        if (names.length === 1) toast.error("Scent already added");
+        continue;
+      }
+
+      const scentInfo = getScentInfo(name);
+
+      // Block adding scent if not found in database (required for stock deduction)
+      if (!scentInfo || !scentInfo.id) {
+        toast.error(`${name} not found in inventory. Please add it first.`);
+        continue;
+      }
+
+      // Warn if low stock
+      if ((scentInfo.stock_ml || 0) < LOW_STOCK_THRESHOLD) {
+        toast.warning(`Low stock warning: ${name} only has ${scentInfo.stock_ml || 0}ml remaining`);
+      }
+
+      next.push({
+        scent: name,
+        scentId: scentInfo.id, // Always set scentId since we validate above
+        ml: 0,
+        ratio: 1,
+      });
+    }
+
+    if (next.length === selectedScents.length) return false;
+    setSelectedScents(next);
+    setActiveRecipeId("");
+    return true;
+  };
+
   const addScent = () => {
     if (!currentScent) {
       toast.error("Please select a scent");
       return;
     }
-    
-    if (selectedScents.length >= 10) {
-      toast.error("Maximum 10 scents allowed");
-      return;
-    }
-    
-    if (selectedScents.some(s => s.scent === currentScent)) {
-      toast.error("Scent already added");
-      return;
-    }
 
-    const scentInfo = getScentInfo(currentScent);
-    
-    // Block adding scent if not found in database (required for stock deduction)
-    if (!scentInfo || !scentInfo.id) {
-      toast.error("Scent not found in inventory. Please add it first.");
-      return;
+    if (addScentsByName([currentScent])) {
+      setCurrentScent("");
     }
-    
-    // Warn if low stock
-    if ((scentInfo.stock_ml || 0) < LOW_STOCK_THRESHOLD) {
-      toast.warning(`Low stock warning: ${currentScent} only has ${scentInfo.stock_ml || 0}ml remaining`);
-    }
-    
-    setSelectedScents([...selectedScents, {
-      scent: currentScent,
-      scentId: scentInfo.id, // Always set scentId since we validate above
-      ml: 0,
-    }]);
-    
-    setCurrentScent("");
   };
 
   const removeScent = (scent: string) => {
     setSelectedScents(selectedScents.filter(s => s.scent !== scent));
+    setActiveRecipeId("");
   };
 
-  // Calculate ML per scent based on bottle size and number of scents
-  const getMlPerScent = () => {
-    if (!selectedBottleSize || selectedScents.length === 0) return 0;
-    return Math.round((parseInt(selectedBottleSize) / selectedScents.length) * 10) / 10;
+  // ML of each scent for the chosen bottle size, split by ratio
+  const getScaledScents = () => scaleRecipe(selectedScents, parseInt(selectedBottleSize) || 0);
+
+  const applyRecipe = (recipe: PerfumeRecipe) => {
+    const missing: string[] = [];
+    const scents: SelectedScent[] = [];
+    for (const recipeScent of getRecipeScents(recipe)) {
+      const info = scentsWithStock.find((s) => s.id === recipeScent.scentId) || getScentInfo(recipeScent.scent);
+      if (!info) {
+        missing.push(recipeScent.scent);
+        continue;
+      }
+      scents.push({ scent: info.name, scentId: info.id, ml: 0, ratio: recipeScent.ratio });
+    }
+    if (missing.length > 0) {
+      toast.warning(`Not in this shop's inventory: ${missing.join(", ")}`);
+    }
+
+    setCustomerType("retail");
+    setCurrentScent("");
+    setSelectedScents(scents);
+    setActiveRecipeId(recipe.id);
+    const sizes = (pricingConfig?.retail_bottle_pricing?.sizes || []) as { ml: number }[];
+    if (recipe.default_size_ml && sizes.some((size) => size.ml === Number(recipe.default_size_ml))) {
+      setSelectedBottleSize(String(Number(recipe.default_size_ml)));
+    }
   };
 
+  // Opened from a recipe (scent memory): load it once the recipes and stock are in
+  useEffect(() => {
+    if (!open) {
+      appliedRecipeRef.current = null;
+      return;
+    }
+    if (!recipeId || appliedRecipeRef.current === recipeId || scentsWithStock.length === 0) return;
+    const recipe = recipes.find((r) => r.id === recipeId);
+    if (!recipe) return;
+    appliedRecipeRef.current = recipeId;
+    applyRecipe(recipe);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, recipeId, recipes, scentsWithStock]);
+
   const getBottleCostBySize = (totalMl: number) => {
     // Get bottle cost from retail_bottle_pricing.sizes
     const sizes = pricingConfig?.retail_bottle_pricing?.sizes as { ml: number; price: number; cost?: number }[];
@@ -299,13 +379,12 @@ export function PerfumeRefillDialog({
 
   // Check if any selected scent has insufficient stock
   const checkStockSufficiency = () => {
-    const mlPerScent = getMlPerScent();
     const insufficientScents: string[] = [];
     
-    selectedScents.forEach(s => {
+    getScaledScents().forEach(s => {
       const scentInfo = getScentInfo(s.scent);
-      if (scentInfo && mlPerScent > (scentInfo.stock_ml || 0)) {
-        insufficientScents.push(`${s.scent} (need ${mlPerScent}ml, have ${scentInfo.stock_ml || 0}ml)`);
+      if (scentInfo && s.ml > (scentInfo.stock_ml || 0)) {
+        insufficientScents.push(`${s.scent} (need ${s.ml}ml, have ${scentInfo.stock_ml || 0}ml)`);
       }
     });
     
@@ -331,7 +410,6 @@ export function PerfumeRefillDialog({
     }
 
     const totalMl = parseInt(selectedBottleSize);
-    const mlPerScent = getMlPerScent();
     const price = calculatePrice();
     const scentMixture = selectedScents.map(s => s.scent).join(" + ");
     const pricePerMl = getPricePerMl();
@@ -339,10 +417,10 @@ export function PerfumeRefillDialog({
     const basePrice = totalMl * pricePerMl;
     
     // Update scents with calculated ML
-    const scentsWithMl = selectedScents.map(s => ({
+    const scentsWithMl = getScaledScents().map(s => ({
       scent: s.scent,
       scentId: s.scentId,
-      ml: mlPerScent,
+      ml: s.ml,
     }));
     
     onAddToCart({
@@ -370,6 +448,7 @@ export function PerfumeRefillDialog({
     setSelectedBottleSize("");
     setCustomerType("retail");
     setCurrentScent("");
+    setActiveRecipeId("");
     onOpenChange(false);
     
     toast.success("Added to cart!");
@@ -595,6 +674,36 @@ export function PerfumeRefillDialog({
               )}
             </div>
 
+            {/* Saved recipes - the customer's own and the house blends */}
+            {customerType === "retail" && recipes.length > 0 && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-1">
+                  <BookOpen className="w-4 h-4" />
+                  Saved Recipe
+                </Label>
+                <Select
+                  value={activeRecipeId}
+                  onValueChange={(id) => {
+                    const recipe = recipes.find((r) => r.id === id);
+                    if (recipe) applyRecipe(recipe);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Start from a recipe..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {recipes.map((recipe) => (
+                      <SelectItem key={recipe.id} value={recipe.id}>
+                        {recipe.name}
+                        {recipe.is_house_blend ? " · House blend" : " · Customer's"}
+                        {recipe.default_size_ml ? ` · ${Number(recipe.default_size_ml)}ml` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* Scent Selection - Different UI for Retail vs Wholesale */}
             <Card className="bg-muted/30">
               <CardContent className="pt-4 space-y-3">
@@ -658,6 +767,7 @@ export function PerfumeRefillDialog({
                                         scent: scent,
                                         scentId: info?.id || null,
                                         ml: 0,
+                                        ratio: 1,
                                       }]);
                                       setPopoverOpen(false);
                                     }}
@@ -749,12 +859,28 @@ export function PerfumeRefillDialog({
                       </Button>
                     </div>
 
+                    <ScentAssistant
+                      scents={scentsWithStock}
+                      departmentId={selectedDepartmentId}
+                      customerId={customerId}
+                      selectedScents={selectedScents.map(s => s.scent)}
+                      onScentRecommendation={addScentsByName}
+                    />
+
                     {/* Selected Scents */}
                     {selectedScents.length > 0 && (
                       <div className="space-y-2">
-                        <Label className="text-sm">Selected Scents ({selectedScents.length})</Label>
+                        <div className="flex items-center justify-between">
+                          <Label className="text-sm">Selected Scents ({selectedScents.length})</Label>
+                          {selectedDepartmentId && (
+                            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setSaveRecipeOpen(true)}>
+                              <Save className="w-3 h-3 mr-1" />
+                              Save as Recipe
+                            </Button>
+                          )}
+                        </div>
                         <div className="flex flex-wrap gap-2">
-                          {selectedScents.map((s) => {
+                          {getScaledScents().map((s) => {
                             const scentInfo = getScentInfo(s.scent);
                             const isLowStock = scentInfo && (scentInfo.stock_ml || 0) < LOW_STOCK_THRESHOLD;
                             return (
@@ -764,6 +890,7 @@ export function PerfumeRefillDialog({
                                 className="flex items-center gap-1 py-1"
                               >
                                 {s.scent}
+                                {s.ml > 0 && <span className="opacity-70">· {s.ml}ml</span>}
                                 <Button
                                   variant="ghost"
                                   size="sm"
@@ -890,6 +1017,17 @@ export function PerfumeRefillDialog({
             </Button>
           </TabsContent>
         </Tabs>
+
+        {selectedDepartmentId && (
+          <RecipeDialog
+            open={saveRecipeOpen}
+            onOpenChange={setSaveRecipeOpen}
+            departmentId={selectedDepartmentId}
+            initialScents={selectedScents.map((s) => ({ scentId: s.scentId, scent: s.scent, ratio: s.ratio }))}
+            initialCustomerId={customerId}
+            initialSizeMl={parseInt(selectedBottleSize) || null}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -7,6 +7,7 @@ import { Switch } from "@/components/ui/switch";
 import { useState, useEffect } from "react";
 import { Barcode } from "lucide-react";
 import { CustomBarcodeGenerator } from "./CustomBarcodeGenerator";
+import { TaxProfileSelect } from "@/components/tax/TaxProfileSelect";
 
 interface ProductFormData {
   name: string;
@@ -39,6 +40,7 @@ interface ProductFormData {
   retail_price_per_ml: number;
   imei: string;
   serial_number: string;
+  tax_profile_id: string;
 }
 
 interface ProductFormDialogProps {
@@ -210,6 +212,15 @@ export const ProductFormDialog = ({
               </div>
             )}
 
+            <div className="space-y-2">
+              <Label>Tax Profile</Label>
+              <TaxProfileSelect
+                value={formData.tax_profile_id}
+                onChange={value => setFormData({ ...formData, tax_profile_id: value || "" })}
+                departmentId={formData.department_id}
+              />
+            </div>
+
             <div className="space-y-2">
               <Label>Department *</Label>
               <Select
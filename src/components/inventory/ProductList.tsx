@@ -1,9 +1,10 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Pencil, AlertCircle, Package, Droplet, Clock, Box, Plus, Trash2 } from "lucide-react";
+import { Pencil, AlertCircle, Package, Droplet, Clock, Box, Plus, Trash2, History } from "lucide-react";
 import { useState } from "react";
 import { ProductVariantsDialog } from "./ProductVariantsDialog";
+import { StockMovementHistoryDialog } from "./StockMovementHistoryDialog";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
@@ -40,6 +41,7 @@ export const ProductList = ({ products, onEdit, onAddStock, onArchive, isAdmin }
   const [addStockDialogOpen, setAddStockDialogOpen] = useState(false);
   const [stockToAdd, setStockToAdd] = useState<number>(0);
   const [currentProductId, setCurrentProductId] = useState<string>("");
+  const [historyProduct, setHistoryProduct] = useState<{ id: string; name: string } | null>(null);
 
   // Fetch variant counts and stock for all products
   const { data: variantData } = useQuery({
@@ -213,6 +215,14 @@ export const ProductList = ({ products, onEdit, onAddStock, onArchive, isAdmin }
                     >
                       <Plus className="w-4 h-4" />
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setHistoryProduct({ id: product.id, name: product.name })}
+                      title="Stock History"
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
                     {isAdmin && (
                       <Button size="sm" variant="outline" onClick={() => onEdit(product)}>
                         <Pencil className="w-4 h-4" />
@@ -273,6 +283,13 @@ export const ProductList = ({ products, onEdit, onAddStock, onArchive, isAdmin }
         </DialogFooter>
       </DialogContent>
     </Dialog>
+
+    <StockMovementHistoryDialog
+      open={!!historyProduct}
+      onOpenChange={(open) => !open && setHistoryProduct(null)}
+      itemName={historyProduct?.name || ""}
+      productId={historyProduct?.id}
+    />
     </>
   );
 };
@@ -7,6 +7,7 @@ import { Plus, Trash2, Pencil, Check, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { applyStockMovement } from "@/utils/stockManagement";
 
 interface ProductVariant {
   id?: string;
@@ -86,25 +87,27 @@ export function ProductVariantsDialog({
         );
       }
 
-      // Insert the variant
-      const { error: variantError } = await supabase.from("product_variants").insert({
-        product_id: productId,
-        name: variant.name,
-        sku: variant.sku || null,
-        stock: variant.stock,
-        price: variant.price,
-        ml_size: variant.ml_size || null,
-      });
+      // Insert the variant empty, then move its stock over from the parent product
+      const { data: inserted, error: variantError } = await supabase
+        .from("product_variants")
+        .insert({
+          product_id: productId,
+          name: variant.name,
+          sku: variant.sku || null,
+          stock: 0,
+          price: variant.price,
+          ml_size: variant.ml_size || null,
+        })
+        .select()
+        .single();
 
       if (variantError) throw variantError;
 
-      // Deduct the variant stock from parent product
-      const { error: updateError } = await supabase
-        .from("products")
-        .update({ stock: parentStock - variantStock })
-        .eq("id", productId);
-
-      if (updateError) throw updateError;
+      if (variantStock > 0) {
+        const reference = { type: "product_variant", id: inserted.id, notes: `Allocated to ${variant.name}` };
+        await applyStockMovement({ itemType: "product", itemId: productId, movementType: "transfer", quantity: -variantStock, reference });
+        await applyStockMovement({ itemType: "variant", itemId: inserted.id, movementType: "transfer", quantity: variantStock, reference });
+      }
     },
     onSuccess: () => {
       toast({ 
@@ -168,13 +171,20 @@ export function ProductVariantsDialog({
     mutationFn: async (variantId: string) => {
       const { data: variant, error: fetchError } = await supabase
         .from("product_variants")
-        .select("stock")
+        .select("stock, name")
         .eq("id", variantId)
         .single();
 
       if (fetchError) throw fetchError;
 
       const variantStock = variant?.stock || 0;
+      const reference = { type: "product_variant", id: variantId, notes: `Returned from ${variant?.name}` };
+
+      // Return the stock to the parent product before the variant goes
+      if (variantStock > 0) {
+        await applyStockMovement({ itemType: "variant", itemId: variantId, movementType: "transfer", quantity: -variantStock, reference });
+        await applyStockMovement({ itemType: "product", itemId: productId, movementType: "transfer", quantity: variantStock, reference });
+      }
 
       const { error: deleteError } = await supabase
         .from("product_variants")
@@ -182,17 +192,6 @@ export function ProductVariantsDialog({
         .eq("id", variantId);
 
       if (deleteError) throw deleteError;
-
-      // Return the stock to the parent product
-      if (variantStock > 0) {
-        const parentStock = parentProduct?.stock || 0;
-        const { error: updateError } = await supabase
-          .from("products")
-          .update({ stock: parentStock + variantStock })
-          .eq("id", productId);
-
-        if (updateError) throw updateError;
-      }
     },
     onSuccess: () => {
       toast({ 
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { RefreshCw, Scale } from "lucide-react";
+import { toast } from "sonner";
+import { parseScaleLine, readScaleWeight } from "@/utils/weighScale";
+
+interface ScaleWeightInputProps {
+  value: string;
+  onChange: (grams: string) => void;
+  onEnter?: (grams: string) => void; // Gets the converted value - state hasn't caught up yet
+  placeholder?: string;
+  autoFocus?: boolean;
+  scaleConnected: boolean;
+}
+
+/**
+ * Grams field that reads from the connected scale, or takes what a keyboard-wedge
+ * scale types ("850.2 g", "0.850kg") and turns it into grams.
+ */
+export const ScaleWeightInput = ({
+  value,
+  onChange,
+  onEnter,
+  placeholder,
+  autoFocus,
+  scaleConnected,
+}: ScaleWeightInputProps) => {
+  const [isReading, setIsReading] = useState(false);
+
+  const normalize = (text: string) => {
+    const reading = parseScaleLine(text);
+    if (!reading) return text;
+    if (String(reading.grams) !== text) onChange(String(reading.grams));
+    return String(reading.grams);
+  };
+
+  const readFromScale = async () => {
+    setIsReading(true);
+    try {
+      const reading = await readScaleWeight();
+      onChange(String(reading.grams));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to read the scale");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        inputMode="decimal"
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onBlur={(e) => normalize(e.target.value)}
+        onKeyDown={(e) => {
+          // Keyboard-wedge scales finish each reading with Enter
+          if (e.key !== "Enter") return;
+          e.preventDefault();
+          onEnter?.(normalize(e.currentTarget.value));
+        }}
+      />
+      {scaleConnected && (
+        <Button type="button" variant="secondary" onClick={readFromScale} disabled={isReading}>
+          {isReading ? <RefreshCw className="w-4 h-4 mr-1 animate-spin" /> : <Scale className="w-4 h-4 mr-1" />}
+          Read
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { SCENT_NOTES, guessScentNotes } from "@/utils/scentRecommendations";
+
+interface ScentNotesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scent: { id: string; name: string; notes?: string[] | null } | null;
+}
+
+export const ScentNotesDialog = ({ open, onOpenChange, scent }: ScentNotesDialogProps) => {
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open && scent) {
+      // Untagged scents start from the notes the assistant already guesses from the name
+      setNotes(scent.notes && scent.notes.length > 0 ? scent.notes : guessScentNotes(scent.name));
+    }
+  }, [open, scent]);
+
+  const toggleNote = (note: string) => {
+    setNotes((current) => (current.includes(note) ? current.filter((n) => n !== note) : [...current, note]));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!scent) return;
+      const { error } = await supabase
+        .from("perfume_scents")
+        .update({ notes: SCENT_NOTES.filter((note) => notes.includes(note)) })
+        .eq("id", scent.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Scent notes saved");
+      queryClient.invalidateQueries({ queryKey: ["scent-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["scents-with-stock"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save scent notes");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Scent Notes - {scent?.name}</DialogTitle>
+          <DialogDescription>
+            Tag the fragrance families so the Scent Assistant can find similar scents in stock.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap gap-2">
+          {SCENT_NOTES.map((note) => (
+            <Badge
+              key={note}
+              variant={notes.includes(note) ? "default" : "outline"}
+              className="cursor-pointer capitalize"
+              onClick={() => toggleNote(note)}
+            >
+              {note}
+            </Badge>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Notes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -12,11 +12,18 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Droplet, Scale, Plus, Edit, AlertCircle, RefreshCw, Check, ChevronsUpDown, Globe } from "lucide-react";
+import { Droplet, Scale, Plus, Edit, AlertCircle, RefreshCw, Check, ChevronsUpDown, Globe, History, ClipboardCheck, Tags } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
-import { PERFUME_SCENTS } from "@/constants/perfumeScents";
 import { useUserRole } from "@/hooks/useUserRole";
+import { calculateScentMl, postScentStockTake } from "@/utils/scentStockTake";
+import { getScaleStatus } from "@/utils/weighScale";
+import { ScentCatalogEntry, fetchScentCatalog, searchScentCatalog } from "@/utils/scentCatalog";
+import { StockMovementHistoryDialog } from "./StockMovementHistoryDialog";
+import { ScaleWeightInput } from "./ScaleWeightInput";
+import { ScentStockTakeDialog } from "./ScentStockTakeDialog";
+import { ScentNotesDialog } from "./ScentNotesDialog";
+import { WeighScaleSetup } from "./WeighScaleSetup";
 
 interface ScentStockManagerProps {
   departmentId: string;
@@ -32,6 +39,8 @@ interface Scent {
   density: number | null;
   is_active: boolean | null;
   department_id: string | null;
+  notes: string[] | null;
+  catalog_id: string | null;
 }
 
 export function ScentStockManager({ departmentId }: ScentStockManagerProps) {
@@ -41,6 +50,11 @@ export function ScentStockManager({ departmentId }: ScentStockManagerProps) {
   const [updateDialogOpen, setUpdateDialogOpen] = useState(false);
   const [addScentDialogOpen, setAddScentDialogOpen] = useState(false);
   const [scentSelectorOpen, setScentSelectorOpen] = useState(false);
+  const [historyScent, setHistoryScent] = useState<Scent | null>(null);
+  const [notesScent, setNotesScent] = useState<Scent | null>(null);
+  const [stockTakeOpen, setStockTakeOpen] = useState(false);
+  const [scaleSetupOpen, setScaleSetupOpen] = useState(false);
+  const [scaleConnected, setScaleConnected] = useState(() => getScaleStatus().connected);
   
   // Form states for updating stock
   const [emptyBottleWeight, setEmptyBottleWeight] = useState<string>("");
@@ -49,6 +63,8 @@ export function ScentStockManager({ departmentId }: ScentStockManagerProps) {
   
   // Form states for new scent - now using dropdown selection
   const [newScentName, setNewScentName] = useState("");
+  const [newScentCatalogId, setNewScentCatalogId] = useState<string | null>(null);
+  const [catalogSearch, setCatalogSearch] = useState("");
   const [newScentDescription, setNewScentDescription] = useState("");
   const [newScentDepartmentId, setNewScentDepartmentId] = useState<string>(departmentId);
 
@@ -72,6 +88,20 @@ export function ScentStockManager({ departmentId }: ScentStockManagerProps) {
     refetchInterval: 5000,
   });
 
+  const { data: catalog = [] } = useQuery({
+    queryKey: ["scent-catalog"],
+    queryFn: () => fetchScentCatalog(),
+    enabled: addScentDialogOpen,
+  });
+
+  // Catalog scents this department does not stock yet, matched by name, alias or oil code
+  const addableScents = catalog.filter(entry =>
+    !scents.some(s => s.catalog_id === entry.id || s.name.toLowerCase() === entry.name.toLowerCase())
+  );
+  const catalogMatches: { entry: ScentCatalogEntry; matchedAlias: string | null }[] = catalogSearch.trim()
+    ? searchScentCatalog(addableScents, catalogSearch, 50)
+    : addableScents.slice(0, 100).map(entry => ({ entry, matchedAlias: null }));
+
   // Fetch departments for admin dropdown
   const { data: departments = [] } = useQuery({
     queryKey: ["perfume-departments-for-scents"],
@@ -89,42 +119,42 @@ export function ScentStockManager({ departmentId }: ScentStockManagerProps) {
     enabled: isAdmin,
   });
 
-  // Calculate ML from weight
-  const calculateMl = (emptyWeight: number, currentWeight: number, density: number) => {
-    if (currentWeight <= emptyWeight) return 0;
-    const weightDifference = currentWeight - emptyWeight; // grams of perfume
-    const ml = weightDifference / density; // convert to ml
-    return Math.round(ml * 10) / 10; // round to 1 decimal
-  };
-
   const calculatedMl = emptyBottleWeight && currentWeight && density
-    ? calculateMl(parseFloat(emptyBottleWeight), parseFloat(currentWeight), parseFloat(density))
+    ? calculateScentMl(parseFloat(emptyBottleWeight), parseFloat(currentWeight), parseFloat(density))
     : 0;
 
   // Update scent stock mutation
   const updateStockMutation = useMutation({
-    mutationFn: async ({ scentId, stockMl, emptyWeight, currWeight, dens }: {
-      scentId: string;
+    mutationFn: async ({ scent, stockMl, emptyWeight, currWeight, dens }: {
+      scent: Scent;
       stockMl: number;
       emptyWeight: number;
       currWeight: number;
       dens: number;
     }) => {
-      const { error } = await supabase
-        .from("perfume_scents")
-        .update({
-          stock_ml: stockMl,
-          empty_bottle_weight_g: emptyWeight,
-          current_weight_g: currWeight,
-          density: dens,
-        })
-        .eq("id", scentId);
-      
-      if (error) throw error;
+      // A single weigh-in is a one-scent stock-take, so its variance is kept with the rest
+      await postScentStockTake(
+        departmentId,
+        [
+          {
+            scentId: scent.id,
+            scentName: scent.name,
+            emptyWeight,
+            weight: currWeight,
+            density: dens,
+            expectedMl: scent.stock_ml || 0,
+            countedMl: stockMl,
+          },
+        ],
+        "Weigh-in"
+      );
     },
     onSuccess: () => {
       toast.success("Scent stock updated successfully");
       queryClient.invalidateQueries({ queryKey: ["scent-stock", departmentId] });
+      queryClient.invalidateQueries({ queryKey: ["scent-variance-history"] });
+      queryClient.invalidateQueries({ queryKey: ["scent-stock-takes"] });
+      queryClient.invalidateQueries({ queryKey: ["suspended-revenue"] });
       setUpdateDialogOpen(false);
       resetForm();
     },
@@ -144,6 +174,7 @@ export function ScentStockManager({ departmentId }: ScentStockManagerProps) {
         .from("perfume_scents")
         .insert({
           name: newScentName,
+          catalog_id: newScentCatalogId,
           description: newScentDescription || null,
           department_id: targetDepartmentId,
           stock_ml: 0,
@@ -160,6 +191,8 @@ export function ScentStockManager({ departmentId }: ScentStockManagerProps) {
       queryClient.invalidateQueries({ queryKey: ["scent-stock", departmentId] });
       setAddScentDialogOpen(false);
       setNewScentName("");
+      setNewScentCatalogId(null);
+      setCatalogSearch("");
       setNewScentDescription("");
       setNewScentDepartmentId(departmentId);
     },
@@ -201,10 +234,10 @@ export function ScentStockManager({ departmentId }: ScentStockManagerProps) {
       return;
     }
     
-    const stockMl = calculateMl(emptyWeight, currWeight, dens);
+    const stockMl = calculateScentMl(emptyWeight, currWeight, dens);
     
     updateStockMutation.mutate({
-      scentId: selectedScent.id,
+      scent: selectedScent,
       stockMl,
       emptyWeight,
       currWeight,
@@ -229,9 +262,17 @@ export function ScentStockManager({ departmentId }: ScentStockManagerProps) {
               <Droplet className="w-5 h-5 text-primary" />
               Scent Stock Overview
             </CardTitle>
-            <Button size="sm" onClick={() => setAddScentDialogOpen(true)}>
-              <Plus className="w-4 h-4 mr-1" /> Add Scent
-            </Button>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => setScaleSetupOpen(true)} title="Weigh Scale">
+                <Scale className={cn("w-4 h-4", scaleConnected && "text-green-600")} />
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setStockTakeOpen(true)} disabled={scents.length === 0}>
+                <ClipboardCheck className="w-4 h-4 mr-1" /> Stock-Take
+              </Button>
+              <Button size="sm" onClick={() => setAddScentDialogOpen(true)}>
+                <Plus className="w-4 h-4 mr-1" /> Add Scent
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -301,15 +342,42 @@ export function ScentStockManager({ departmentId }: ScentStockManagerProps) {
                       {scent.description && (
                         <p className="text-xs text-muted-foreground">{scent.description}</p>
                       )}
+                      {scent.notes && scent.notes.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {scent.notes.map(note => (
+                            <Badge key={note} variant="secondary" className="text-[10px] capitalize">
+                              {note}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setNotesScent(scent)}
+                        title="Scent Notes"
+                      >
+                        <Tags className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setHistoryScent(scent)}
+                        title="Stock History"
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
+                      <Button 
+                        size="sm" 
+                        variant="outline" 
+                        onClick={() => openUpdateDialog(scent)}
+                      >
+                        <Scale className="w-4 h-4 mr-1" />
+                        Update
+                      </Button>
                     </div>
-                    <Button 
-                      size="sm" 
-                      variant="outline" 
-                      onClick={() => openUpdateDialog(scent)}
-                    >
-                      <Scale className="w-4 h-4 mr-1" />
-                      Update
-                    </Button>
                   </div>
                   
                   <div className="space-y-2">
@@ -376,11 +444,11 @@ export function ScentStockManager({ departmentId }: ScentStockManagerProps) {
             
             <div className="space-y-2">
               <Label>Current Weight (grams)</Label>
-              <Input
-                type="number"
+              <ScaleWeightInput
                 placeholder="e.g., 850"
                 value={currentWeight}
-                onChange={(e) => setCurrentWeight(e.target.value)}
+                onChange={setCurrentWeight}
+                scaleConnected={scaleConnected}
               />
               <p className="text-xs text-muted-foreground">
                 Current weight of container with perfume
@@ -454,38 +522,49 @@ export function ScentStockManager({ departmentId }: ScentStockManagerProps) {
                   </Button>
                 </PopoverTrigger>
                 <PopoverContent className="w-full p-0" align="start">
-                  <Command>
-                    <CommandInput placeholder="Search scents..." />
+                  <Command shouldFilter={false}>
+                    <CommandInput
+                      placeholder="Search name, alias or oil code..."
+                      value={catalogSearch}
+                      onValueChange={setCatalogSearch}
+                    />
                     <CommandList>
                       <CommandEmpty>No scent found.</CommandEmpty>
                       <CommandGroup className="max-h-64 overflow-y-auto">
-                        {PERFUME_SCENTS
-                          .filter(scent => !scents.some(s => s.name.toLowerCase() === scent.toLowerCase()))
-                          .map((scent) => (
-                            <CommandItem
-                              key={scent}
-                              value={scent}
-                              onSelect={() => {
-                                setNewScentName(scent);
-                                setScentSelectorOpen(false);
-                              }}
-                            >
-                              <Check
-                                className={cn(
-                                  "mr-2 h-4 w-4",
-                                  newScentName === scent ? "opacity-100" : "opacity-0"
-                                )}
-                              />
-                              {scent}
-                            </CommandItem>
-                          ))}
+                        {catalogMatches.map(({ entry, matchedAlias }) => (
+                          <CommandItem
+                            key={entry.id}
+                            value={entry.id}
+                            onSelect={() => {
+                              setNewScentName(entry.name);
+                              setNewScentCatalogId(entry.id);
+                              setScentSelectorOpen(false);
+                            }}
+                          >
+                            <Check
+                              className={cn(
+                                "mr-2 h-4 w-4",
+                                newScentCatalogId === entry.id ? "opacity-100" : "opacity-0"
+                              )}
+                            />
+                            <span className="flex-1">
+                              {entry.name}
+                              {matchedAlias && (
+                                <span className="ml-1 text-xs text-muted-foreground">({matchedAlias})</span>
+                              )}
+                            </span>
+                            {entry.inspired_by_brand && (
+                              <span className="text-xs text-muted-foreground">{entry.inspired_by_brand}</span>
+                            )}
+                          </CommandItem>
+                        ))}
                       </CommandGroup>
                     </CommandList>
                   </Command>
                 </PopoverContent>
               </Popover>
               <p className="text-xs text-muted-foreground">
-                {PERFUME_SCENTS.length - scents.length} scents available to add
+                {addableScents.length} catalog scents available to add - new names are added in the Scent Manager
               </p>
             </div>
 
@@ -540,6 +619,33 @@ export function ScentStockManager({ departmentId }: ScentStockManagerProps) {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <StockMovementHistoryDialog
+        open={!!historyScent}
+        onOpenChange={(open) => !open && setHistoryScent(null)}
+        itemName={historyScent?.name || ""}
+        scentId={historyScent?.id}
+      />
+
+      <ScentNotesDialog
+        open={!!notesScent}
+        onOpenChange={(open) => !open && setNotesScent(null)}
+        scent={notesScent}
+      />
+
+      <ScentStockTakeDialog
+        open={stockTakeOpen}
+        onOpenChange={setStockTakeOpen}
+        departmentId={departmentId}
+        scents={scents}
+        scaleConnected={scaleConnected}
+      />
+
+      <WeighScaleSetup
+        open={scaleSetupOpen}
+        onOpenChange={setScaleSetupOpen}
+        onChange={() => setScaleConnected(getScaleStatus().connected)}
+      />
     </div>
   );
 }
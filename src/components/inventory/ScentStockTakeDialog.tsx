@@ -0,0 +1,294 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Tables } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, ClipboardCheck, Edit, RefreshCw, SkipForward } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  StockTakeLine,
+  calculateScentMl,
+  getStockTakeVariance,
+  postScentStockTake,
+} from "@/utils/scentStockTake";
+import { ScaleWeightInput } from "./ScaleWeightInput";
+
+type StockTakeScent = Pick<
+  Tables<"perfume_scents">,
+  "id" | "name" | "stock_ml" | "empty_bottle_weight_g" | "density"
+>;
+
+interface ScentStockTakeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  departmentId: string;
+  scents: StockTakeScent[];
+  scaleConnected: boolean;
+}
+
+const formatVariance = (ml: number) => `${ml > 0 ? "+" : ""}${ml.toLocaleString()} ml`;
+
+// Walks the shelf one bottle at a time, then posts every weighed scent as a single stock-take
+export const ScentStockTakeDialog = ({
+  open,
+  onOpenChange,
+  departmentId,
+  scents,
+  scaleConnected,
+}: ScentStockTakeDialogProps) => {
+  const queryClient = useQueryClient();
+  // The scent list refreshes every few seconds - keep the order fixed for the session
+  const [sessionScents, setSessionScents] = useState<StockTakeScent[]>([]);
+  const [index, setIndex] = useState(0);
+  const [lines, setLines] = useState<Record<string, StockTakeLine>>({});
+  const [emptyWeight, setEmptyWeight] = useState("");
+  const [weight, setWeight] = useState("");
+  const [density, setDensity] = useState("0.9");
+  const [notes, setNotes] = useState("");
+
+  const reviewing = index >= sessionScents.length;
+  const scent = reviewing ? null : sessionScents[index];
+  const weighed = sessionScents.map((s) => lines[s.id]).filter(Boolean);
+
+  const loadStep = (step: number, list: StockTakeScent[], captured: Record<string, StockTakeLine>) => {
+    setIndex(step);
+    const next = list[step];
+    if (!next) return;
+    const line = captured[next.id];
+    setEmptyWeight(String(line?.emptyWeight ?? next.empty_bottle_weight_g ?? ""));
+    setWeight(line ? String(line.weight) : "");
+    setDensity(String(line?.density ?? next.density ?? 0.9));
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setSessionScents(scents);
+    setLines({});
+    setNotes("");
+    loadStep(0, scents, {});
+    // Only when the session starts
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const emptyValue = parseFloat(emptyWeight) || 0;
+  const densityValue = parseFloat(density) || 0.9;
+  const countedMl = calculateScentMl(emptyValue, parseFloat(weight) || 0, densityValue);
+  const expectedMl = Number(scent?.stock_ml) || 0;
+
+  const record = (weightText: string) => {
+    if (!scent) return;
+    const weightValue = parseFloat(weightText);
+    if (emptyValue <= 0) {
+      toast.error("Enter the empty bottle weight");
+      return;
+    }
+    if (!(weightValue >= emptyValue)) {
+      toast.error("The bottle can't weigh less than when empty");
+      return;
+    }
+
+    const captured = {
+      ...lines,
+      [scent.id]: {
+        scentId: scent.id,
+        scentName: scent.name,
+        emptyWeight: emptyValue,
+        weight: weightValue,
+        density: densityValue,
+        expectedMl,
+        countedMl: calculateScentMl(emptyValue, weightValue, densityValue),
+      },
+    };
+    setLines(captured);
+    loadStep(index + 1, sessionScents, captured);
+  };
+
+  const skip = () => {
+    if (!scent) return;
+    const rest = { ...lines };
+    delete rest[scent.id];
+    setLines(rest);
+    loadStep(index + 1, sessionScents, rest);
+  };
+
+  const postMutation = useMutation({
+    mutationFn: () => postScentStockTake(departmentId, weighed, notes),
+    onSuccess: () => {
+      const variance = weighed.reduce((sum, line) => sum + getStockTakeVariance(line), 0);
+      toast.success(`Stock-take posted: ${weighed.length} scents, ${formatVariance(Math.round(variance * 10) / 10)}`);
+      queryClient.invalidateQueries({ queryKey: ["scent-stock", departmentId] });
+      queryClient.invalidateQueries({ queryKey: ["scent-variance-history"] });
+      queryClient.invalidateQueries({ queryKey: ["scent-stock-takes"] });
+      queryClient.invalidateQueries({ queryKey: ["suspended-revenue"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to post stock-take");
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next && weighed.length > 0 && !postMutation.isSuccess) {
+      if (!window.confirm(`Discard ${weighed.length} weighed scents?`)) return;
+    }
+    onOpenChange(next);
+  };
+
+  const totalVariance = Math.round(weighed.reduce((sum, line) => sum + getStockTakeVariance(line), 0) * 10) / 10;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5" />
+            Scent Stock-Take
+          </DialogTitle>
+          <DialogDescription>
+            {reviewing
+              ? `${weighed.length} of ${sessionScents.length} scents weighed - check the variances and post.`
+              : `Scent ${index + 1} of ${sessionScents.length}. Put the bottle on the scale.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Progress value={sessionScents.length ? (Math.min(index, sessionScents.length) / sessionScents.length) * 100 : 0} />
+
+        {scent && (
+          <div key={scent.id} className="space-y-4 py-2">
+            <div className="flex items-baseline justify-between">
+              <h3 className="text-xl font-semibold">{scent.name}</h3>
+              <span className="text-sm text-muted-foreground">Expected {expectedMl.toLocaleString()} ml</span>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Current Weight (grams)</Label>
+              <ScaleWeightInput
+                value={weight}
+                onChange={setWeight}
+                onEnter={record}
+                placeholder="Weigh the bottle"
+                autoFocus
+                scaleConnected={scaleConnected}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Empty Bottle Weight (grams)</Label>
+                <Input type="number" value={emptyWeight} onChange={(e) => setEmptyWeight(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Density (g/ml)</Label>
+                <Input type="number" step="0.01" value={density} onChange={(e) => setDensity(e.target.value)} />
+              </div>
+            </div>
+
+            {weight && parseFloat(weight) >= emptyValue && (
+              <div className="grid grid-cols-2 gap-3 text-center">
+                <div className="p-3 rounded-lg bg-primary/10">
+                  <p className="text-xs text-muted-foreground">Counted</p>
+                  <p className="text-2xl font-bold text-primary">{countedMl} ml</p>
+                </div>
+                <div className="p-3 rounded-lg bg-muted/50">
+                  <p className="text-xs text-muted-foreground">Variance</p>
+                  <p
+                    className={cn(
+                      "text-2xl font-bold",
+                      getStockTakeVariance({ expectedMl, countedMl }) < 0 && "text-destructive"
+                    )}
+                  >
+                    {formatVariance(getStockTakeVariance({ expectedMl, countedMl }))}
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {reviewing && (
+          <div className="space-y-4 py-2">
+            <ScrollArea className="h-[320px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Scent</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Counted</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessionScents.map((s, step) => {
+                    const line = lines[s.id];
+                    const variance = line ? getStockTakeVariance(line) : 0;
+                    return (
+                      <TableRow key={s.id} className={cn(!line && "text-muted-foreground")}>
+                        <TableCell className="font-medium">{s.name}</TableCell>
+                        <TableCell className="text-right">{(line?.expectedMl ?? (Number(s.stock_ml) || 0)).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{line ? line.countedMl.toLocaleString() : "Skipped"}</TableCell>
+                        <TableCell className={cn("text-right", variance < 0 && "text-destructive")}>
+                          {line ? formatVariance(variance) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button size="icon" variant="ghost" title="Weigh again" onClick={() => loadStep(step, sessionScents, lines)}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            <div className="flex justify-between text-sm font-medium">
+              <span>Net variance</span>
+              <span className={cn(totalVariance < 0 && "text-destructive")}>{formatVariance(totalVariance)}</span>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Notes</Label>
+              <Textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Month-end count" />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => loadStep(Math.max(0, Math.min(index, sessionScents.length) - 1), sessionScents, lines)}
+            disabled={index === 0}
+          >
+            <ChevronLeft className="w-4 h-4 mr-1" />
+            Back
+          </Button>
+          {scent ? (
+            <>
+              <Button variant="ghost" onClick={skip}>
+                <SkipForward className="w-4 h-4 mr-1" />
+                Skip
+              </Button>
+              <Button onClick={() => record(weight)} disabled={!weight}>
+                Next
+                <ChevronRight className="w-4 h-4 ml-1" />
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => postMutation.mutate()} disabled={weighed.length === 0 || postMutation.isPending}>
+              {postMutation.isPending && <RefreshCw className="w-4 h-4 mr-1 animate-spin" />}
+              Post {weighed.length} Adjustments
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,140 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { STOCK_MOVEMENT_LABELS, StockMovementType } from "@/utils/stockManagement";
+
+interface StockMovementHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  itemName: string;
+  productId?: string; // Includes movements of the product's variants
+  scentId?: string;
+  packagingId?: string;
+}
+
+export const StockMovementHistoryDialog = ({
+  open,
+  onOpenChange,
+  itemName,
+  productId,
+  scentId,
+  packagingId,
+}: StockMovementHistoryDialogProps) => {
+  const [fromDate, setFromDate] = useState("");
+
+  const { data: movements = [], isLoading } = useQuery({
+    queryKey: ["stock-movements", productId, scentId, packagingId, fromDate],
+    queryFn: async () => {
+      let query = supabase
+        .from("stock_movement_history")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(500);
+
+      if (scentId) query = query.eq("scent_id", scentId);
+      else if (packagingId) query = query.eq("packaging_id", packagingId);
+      else query = query.eq("product_id", productId);
+      if (fromDate) query = query.gte("created_at", `${fromDate}T00:00:00`);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open && !!(productId || scentId || packagingId),
+  });
+
+  // Net change per movement type, to answer "where did the stock go"
+  const totalsByType = useMemo(() => {
+    const totals: Record<string, number> = {};
+    movements.forEach((m) => {
+      totals[m.movement_type] = (totals[m.movement_type] || 0) + Number(m.quantity);
+    });
+    return totals;
+  }, [movements]);
+
+  const unitLabel = (field: string | null) => (field === "stock" ? "" : " ml");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock History - {itemName}</DialogTitle>
+          <DialogDescription>Every change to this item's stock, newest first.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+          <div className="space-y-1">
+            <Label>Since</Label>
+            <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(totalsByType).map(([type, total]) => (
+              <Badge key={type} variant={total < 0 ? "destructive" : "secondary"}>
+                {STOCK_MOVEMENT_LABELS[type as StockMovementType] || type}: {total > 0 ? "+" : ""}
+                {Math.round(total * 100) / 100}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movements.map((m) => (
+                <TableRow key={m.id}>
+                  <TableCell className="text-xs whitespace-nowrap">
+                    {m.created_at ? format(new Date(m.created_at), "MMM dd, yyyy HH:mm") : "-"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{STOCK_MOVEMENT_LABELS[m.movement_type as StockMovementType] || m.movement_type}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">{m.item_name}</TableCell>
+                  <TableCell className={`text-right font-semibold ${Number(m.quantity) < 0 ? "text-destructive" : "text-green-600"}`}>
+                    {Number(m.quantity) > 0 ? "+" : ""}
+                    {Number(m.quantity)}
+                    {unitLabel(m.stock_field)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {Number(m.balance_after)}
+                    {unitLabel(m.stock_field)}
+                  </TableCell>
+                  <TableCell className="text-xs">{m.notes || "-"}</TableCell>
+                  <TableCell className="text-xs">{m.created_by_name || "System"}</TableCell>
+                </TableRow>
+              ))}
+              {movements.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No stock movements recorded
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
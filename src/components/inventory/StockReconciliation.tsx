@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { AlertCircle, Beaker, Scale } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
+import { format } from "date-fns";
 
 interface StockReconciliationProps {
   departmentId: string;
@@ -28,6 +29,22 @@ export function StockReconciliation({ departmentId }: StockReconciliationProps)
     enabled: !!departmentId,
   });
 
+  // Theoretical stock against the scale, as of the last count
+  const { data: lastStockTake } = useQuery({
+    queryKey: ["scent-stock-takes", departmentId, "latest"],
+    queryFn: async () => {
+      const { data } = await supabase
+        .from("scent_stock_takes")
+        .select("created_at, scent_count, total_variance_ml, total_variance_value, counted_by_name")
+        .eq("department_id", departmentId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      return data;
+    },
+    enabled: !!departmentId,
+  });
+
   const totalScentMl = scents.reduce((sum, s) => sum + (s.stock_ml || 0), 0);
   const scentsWithStock = scents.filter(s => (s.stock_ml || 0) > 0);
   const lowStockScents = scents.filter(s => (s.stock_ml || 0) > 0 && (s.stock_ml || 0) < LOW_STOCK_THRESHOLD);
@@ -67,6 +84,26 @@ export function StockReconciliation({ departmentId }: StockReconciliationProps)
           </div>
         </div>
 
+        {/* Last Stock-Take Variance */}
+        {lastStockTake && (
+          <div className="p-3 rounded-lg border text-sm space-y-1">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Last stock-take</span>
+              <span>{format(new Date(lastStockTake.created_at || ""), "dd MMM, HH:mm")}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                {lastStockTake.scent_count} scents{lastStockTake.counted_by_name ? ` by ${lastStockTake.counted_by_name}` : ""}
+              </span>
+              <span className={lastStockTake.total_variance_ml < 0 ? "text-destructive font-medium" : "font-medium"}>
+                {lastStockTake.total_variance_ml > 0 ? "+" : ""}
+                {Number(lastStockTake.total_variance_ml).toLocaleString()} ml · UGX{" "}
+                {Math.round(Number(lastStockTake.total_variance_value)).toLocaleString()}
+              </span>
+            </div>
+          </div>
+        )}
+
         {/* Low Stock Warning */}
         {lowStockScents.length > 0 && (
           <Alert variant="destructive">
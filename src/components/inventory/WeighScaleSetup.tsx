@@ -0,0 +1,236 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Keyboard, Scale, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  SCALE_PROTOCOL_LABELS,
+  ScaleProtocol,
+  ScaleReading,
+  ScaleSettings,
+  ScaleTransport,
+  connectScale,
+  disconnectScale,
+  getPairedScales,
+  getScaleSettings,
+  getScaleStatus,
+  isWebSerialSupported,
+  isWebUSBSupported,
+  requestScale,
+  saveScaleSettings,
+  subscribeToScale,
+} from "@/utils/weighScale";
+
+interface WeighScaleSetupProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange?: () => void;
+}
+
+const BAUD_RATES = [1200, 2400, 4800, 9600, 19200, 38400];
+
+export const WeighScaleSetup = ({ open, onOpenChange, onChange }: WeighScaleSetupProps) => {
+  const [settings, setSettings] = useState<ScaleSettings>(getScaleSettings);
+  const [status, setStatus] = useState(getScaleStatus);
+  const [reading, setReading] = useState<ScaleReading | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSettings(getScaleSettings());
+    setStatus(getScaleStatus());
+    return subscribeToScale(setReading);
+  }, [open]);
+
+  const updateSettings = (changes: Partial<ScaleSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveScaleSettings(next);
+  };
+
+  const transportSupported =
+    settings.transport === "keyboard" ||
+    (settings.transport === "serial" ? isWebSerialSupported() : isWebUSBSupported());
+
+  const connect = async (reusePaired: boolean) => {
+    if (settings.transport === "keyboard") return;
+    setIsConnecting(true);
+    try {
+      const paired = reusePaired ? await getPairedScales(settings.transport) : [];
+      const target = paired[0] || (await requestScale(settings.transport));
+      if (!target) return;
+
+      if (await connectScale(target, settings)) {
+        toast.success("Scale connected");
+        onChange?.();
+      } else {
+        toast.error("Failed to connect to scale. USB keyboard scales work in keyboard mode.");
+      }
+    } catch (error) {
+      console.error("Error connecting scale:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to access scale");
+    } finally {
+      setStatus(getScaleStatus());
+      setIsConnecting(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    await disconnectScale();
+    setStatus(getScaleStatus());
+    setReading(null);
+    onChange?.();
+    toast.info("Scale disconnected");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Weigh Scale Setup
+          </DialogTitle>
+          <DialogDescription>
+            Read bottle weights straight from the scale instead of typing them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Connection</Label>
+            <Select
+              value={settings.transport}
+              onValueChange={(value) => updateSettings({ transport: value as ScaleTransport })}
+              disabled={status.connected}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="serial">Serial (RS-232 or USB-serial cable)</SelectItem>
+                <SelectItem value="usb">USB (WebUSB)</SelectItem>
+                <SelectItem value="keyboard">Keyboard - the scale types the weight</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {settings.transport === "keyboard" ? (
+            <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50 text-sm">
+              <Keyboard className="h-5 w-5 mt-0.5 text-muted-foreground" />
+              <p>
+                Click into a weight field and press the print or send key on the scale. Readings such as
+                "850.2 g" or "0.850 kg" are converted to grams.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Protocol</Label>
+                  <Select
+                    value={settings.protocol}
+                    onValueChange={(value) => updateSettings({ protocol: value as ScaleProtocol })}
+                    disabled={status.connected}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SCALE_PROTOCOL_LABELS) as ScaleProtocol[]).map((protocol) => (
+                        <SelectItem key={protocol} value={protocol}>
+                          {SCALE_PROTOCOL_LABELS[protocol]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {settings.transport === "serial" && (
+                  <div className="space-y-2">
+                    <Label>Baud rate</Label>
+                    <Select
+                      value={String(settings.baudRate)}
+                      onValueChange={(value) => updateSettings({ baudRate: Number(value) })}
+                      disabled={status.connected}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BAUD_RATES.map((rate) => (
+                          <SelectItem key={rate} value={String(rate)}>
+                            {rate}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              {!transportSupported && (
+                <p className="text-sm text-destructive">
+                  This browser can't reach {settings.transport === "serial" ? "serial" : "USB"} devices. Use Chrome
+                  or Edge, or switch to keyboard mode.
+                </p>
+              )}
+
+              <div className="flex items-center justify-between p-3 rounded-lg border">
+                <div className="flex items-center gap-2">
+                  {status.connected ? (
+                    <>
+                      <Check className="h-4 w-4 text-green-500" />
+                      <span className="text-sm">{status.deviceName}</span>
+                      <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                        Connected
+                      </Badge>
+                    </>
+                  ) : (
+                    <>
+                      <X className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-sm text-muted-foreground">No scale connected</span>
+                    </>
+                  )}
+                </div>
+                {status.connected && reading && (
+                  <span className="font-mono text-sm">
+                    {reading.grams}g{!reading.stable && <span className="text-muted-foreground"> ~</span>}
+                  </span>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          {status.connected ? (
+            <Button variant="outline" onClick={handleDisconnect}>
+              Disconnect
+            </Button>
+          ) : (
+            settings.transport !== "keyboard" && (
+              <>
+                <Button variant="outline" onClick={() => connect(false)} disabled={isConnecting || !transportSupported}>
+                  Choose Device
+                </Button>
+                <Button onClick={() => connect(true)} disabled={isConnecting || !transportSupported}>
+                  {isConnecting ? "Connecting..." : "Connect"}
+                </Button>
+              </>
+            )
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Gift, Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { fetchCustomerLoyalty, getPunchesRequired, getRedeemableValue, isFreeRefillReady } from "@/utils/loyalty";
+
+interface CustomerLoyaltyCardProps {
+  customerId: string | null | undefined;
+  className?: string;
+}
+
+/** Points and refill punch-card for a customer; renders nothing when the program is off */
+export function CustomerLoyaltyCard({ customerId, className }: CustomerLoyaltyCardProps) {
+  const { data: loyalty } = useQuery({
+    queryKey: ["customer-loyalty", customerId],
+    queryFn: () => fetchCustomerLoyalty(customerId as string),
+    enabled: !!customerId,
+  });
+
+  if (!customerId || !loyalty?.enabled) return null;
+
+  const required = getPunchesRequired(loyalty);
+  const redeemable = getRedeemableValue(loyalty);
+  const freeRefill = isFreeRefillReady(loyalty);
+
+  return (
+    <Card className={cn("border-amber-500/30 bg-amber-500/5", className)}>
+      <CardContent className="py-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="flex items-center gap-2 text-sm font-medium">
+            <Star className="h-4 w-4 text-amber-500" />
+            {loyalty.points.toLocaleString()} points
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {redeemable > 0
+              ? `Worth UGX ${redeemable.toLocaleString()}`
+              : `${loyalty.minRedeemPoints} needed to redeem`}
+          </span>
+        </div>
+
+        {required > 0 && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Refill card</span>
+              {freeRefill ? (
+                <Badge className="bg-amber-500 hover:bg-amber-500 gap-1">
+                  <Gift className="h-3 w-3" />
+                  Next refill free
+                </Badge>
+              ) : (
+                <span>
+                  {Math.min(loyalty.punches, required)} of {required}
+                </span>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {Array.from({ length: required + 1 }, (_, i) => (
+                <span
+                  key={i}
+                  className={cn(
+                    "h-3 w-3 rounded-full border",
+                    i < loyalty.punches && i < required && "bg-amber-500 border-amber-500",
+                    i === required && "border-dashed border-amber-500"
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
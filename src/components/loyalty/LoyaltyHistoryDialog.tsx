@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/useUserRole";
+import { LOYALTY_TRANSACTION_LABELS, LoyaltyTransaction, adjustLoyalty } from "@/utils/loyalty";
+import { CustomerLoyaltyCard } from "./CustomerLoyaltyCard";
+
+interface LoyaltyHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer: { id: string; name: string } | null;
+}
+
+const formatChange = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+export const LoyaltyHistoryDialog = ({ open, onOpenChange, customer }: LoyaltyHistoryDialogProps) => {
+  const queryClient = useQueryClient();
+  const { isAdmin, isModerator } = useUserRole();
+  const [points, setPoints] = useState("");
+  const [punches, setPunches] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setPoints("");
+    setPunches("");
+    setNotes("");
+  }, [open]);
+
+  const { data: transactions = [] } = useQuery({
+    queryKey: ["loyalty-transactions", customer?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("loyalty_transactions")
+        .select("*, sales(receipt_number)")
+        .eq("customer_id", customer?.id)
+        .order("created_at", { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return (data || []) as (LoyaltyTransaction & { sales: { receipt_number: string } | null })[];
+    },
+    enabled: open && !!customer,
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: () => {
+      if (!notes.trim()) throw new Error("Give a reason for the adjustment");
+      return adjustLoyalty(customer!.id, Math.round(Number(points) || 0), Math.round(Number(punches) || 0), notes.trim());
+    },
+    onSuccess: () => {
+      toast.success("Loyalty balance adjusted");
+      queryClient.invalidateQueries({ queryKey: ["customer-loyalty", customer?.id] });
+      queryClient.invalidateQueries({ queryKey: ["loyalty-transactions", customer?.id] });
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      setPoints("");
+      setPunches("");
+      setNotes("");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to adjust loyalty balance");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Loyalty - {customer?.name}</DialogTitle>
+          <DialogDescription>Points and refill punches earned and redeemed</DialogDescription>
+        </DialogHeader>
+
+        <CustomerLoyaltyCard customerId={customer?.id} />
+
+        {(isAdmin || isModerator) && (
+          <div className="grid gap-2 sm:grid-cols-[1fr_1fr_2fr_auto] items-end border rounded-lg p-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Points (+/-)</Label>
+              <Input type="number" step={1} value={points} onChange={(e) => setPoints(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Punches (+/-)</Label>
+              <Input type="number" step={1} value={punches} onChange={(e) => setPunches(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Reason</Label>
+              <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="e.g. Card transferred" />
+            </div>
+            <Button onClick={() => adjustMutation.mutate()} disabled={adjustMutation.isPending}>
+              Adjust
+            </Button>
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="text-right">Points</TableHead>
+              <TableHead className="text-right">Punches</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {transactions.map((tx) => (
+              <TableRow key={tx.id}>
+                <TableCell className="text-xs">
+                  {tx.created_at && format(new Date(tx.created_at), "dd MMM yyyy HH:mm")}
+                </TableCell>
+                <TableCell>
+                  <p className="text-sm">{LOYALTY_TRANSACTION_LABELS[tx.transaction_type] || tx.transaction_type}</p>
+                  <p className="text-xs text-muted-foreground">{tx.sales?.receipt_number || tx.notes}</p>
+                </TableCell>
+                <TableCell className="text-right">{tx.points ? formatChange(tx.points) : "-"}</TableCell>
+                <TableCell className="text-right">{tx.punches ? formatChange(tx.punches) : "-"}</TableCell>
+                <TableCell className="text-right text-xs">
+                  {tx.points_after} pts · {tx.punches_after} punches
+                </TableCell>
+              </TableRow>
+            ))}
+            {transactions.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-sm text-muted-foreground py-6">
+                  No loyalty activity yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
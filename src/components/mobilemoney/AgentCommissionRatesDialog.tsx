@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { AGENT_PROVIDER_LABELS, AGENT_TRANSACTION_LABELS, AgentProvider } from "@/utils/agentFloat";
+import {
+  COMMISSION_TRANSACTION_TYPES,
+  CommissionBand,
+  CommissionTransactionType,
+  getBandError,
+  saveCommissionRates,
+} from "@/utils/agentCommissions";
+
+interface AgentCommissionRatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  departmentId: string;
+}
+
+type BandTable = Record<CommissionTransactionType, CommissionBand[]>;
+
+const emptyTable = (): BandTable => ({ deposit: [], withdrawal: [] });
+
+export const AgentCommissionRatesDialog = ({ open, onOpenChange, departmentId }: AgentCommissionRatesDialogProps) => {
+  const queryClient = useQueryClient();
+  const [provider, setProvider] = useState<AgentProvider>("mtn");
+  const [tables, setTables] = useState<Record<AgentProvider, BandTable>>({ mtn: emptyTable(), airtel: emptyTable() });
+
+  const { data: rates = [] } = useQuery({
+    queryKey: ["agent-commission-rates", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("agent_commission_rates")
+        .select("*")
+        .eq("department_id", departmentId)
+        .order("min_amount");
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    const next = { mtn: emptyTable(), airtel: emptyTable() };
+    for (const rate of rates) {
+      const table = next[rate.provider as AgentProvider];
+      const type = rate.transaction_type as CommissionTransactionType;
+      if (!table || !table[type]) continue;
+      table[type].push({
+        min_amount: Number(rate.min_amount),
+        max_amount: rate.max_amount === null ? null : Number(rate.max_amount),
+        fixed_commission: Number(rate.fixed_commission),
+        percent_commission: Number(rate.percent_commission),
+      });
+    }
+    setTables(next);
+  }, [open, rates]);
+
+  const updateBand = (type: CommissionTransactionType, index: number, changes: Partial<CommissionBand>) => {
+    setTables((prev) => ({
+      ...prev,
+      [provider]: {
+        ...prev[provider],
+        [type]: prev[provider][type].map((band, i) => (i === index ? { ...band, ...changes } : band)),
+      },
+    }));
+  };
+
+  const addBand = (type: CommissionTransactionType) => {
+    setTables((prev) => {
+      const bands = prev[provider][type];
+      const last = bands[bands.length - 1];
+      // A new band starts right after the last one ends
+      const start = last ? (last.max_amount ?? last.min_amount) + 1 : 0;
+      return {
+        ...prev,
+        [provider]: {
+          ...prev[provider],
+          [type]: [...bands, { min_amount: start, max_amount: null, fixed_commission: 0, percent_commission: 0 }],
+        },
+      };
+    });
+  };
+
+  const removeBand = (type: CommissionTransactionType, index: number) => {
+    setTables((prev) => ({
+      ...prev,
+      [provider]: { ...prev[provider], [type]: prev[provider][type].filter((_, i) => i !== index) },
+    }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveCommissionRates(departmentId, provider, tables[provider]),
+    onSuccess: () => {
+      toast.success(`${AGENT_PROVIDER_LABELS[provider]} commission saved`);
+      queryClient.invalidateQueries({ queryKey: ["agent-commission-rates", departmentId] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save commission rates");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Commission Rates</DialogTitle>
+          <DialogDescription>
+            Commission per amount band, as on the provider's tariff. It's worked out on each deposit and withdrawal
+            when recorded; changes apply to new entries only.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={provider} onValueChange={(value) => setProvider(value as AgentProvider)}>
+          <TabsList>
+            {(Object.keys(AGENT_PROVIDER_LABELS) as AgentProvider[]).map((p) => (
+              <TabsTrigger key={p} value={p}>
+                {AGENT_PROVIDER_LABELS[p]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {(Object.keys(AGENT_PROVIDER_LABELS) as AgentProvider[]).map((p) => (
+            <TabsContent key={p} value={p} className="space-y-6">
+              {COMMISSION_TRANSACTION_TYPES.map((type) => {
+                const bands = tables[p][type];
+                const error = getBandError(bands);
+                return (
+                  <div key={type} className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium text-sm">{AGENT_TRANSACTION_LABELS[type]}</p>
+                      <Button variant="outline" size="sm" onClick={() => addBand(type)}>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Band
+                      </Button>
+                    </div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>From (UGX)</TableHead>
+                          <TableHead>To (UGX)</TableHead>
+                          <TableHead>Fixed (UGX)</TableHead>
+                          <TableHead>Percent</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {bands.map((band, index) => (
+                          <TableRow key={index}>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min="0"
+                                value={band.min_amount}
+                                onChange={(e) => updateBand(type, index, { min_amount: Number(e.target.value) || 0 })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min="0"
+                                value={band.max_amount ?? ""}
+                                placeholder="No limit"
+                                onChange={(e) =>
+                                  updateBand(type, index, {
+                                    max_amount: e.target.value === "" ? null : Number(e.target.value),
+                                  })
+                                }
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min="0"
+                                value={band.fixed_commission}
+                                onChange={(e) =>
+                                  updateBand(type, index, { fixed_commission: Number(e.target.value) || 0 })
+                                }
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={band.percent_commission}
+                                onChange={(e) =>
+                                  updateBand(type, index, { percent_commission: Number(e.target.value) || 0 })
+                                }
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Button variant="ghost" size="icon" onClick={() => removeBand(type, index)}>
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                        {bands.length === 0 && (
+                          <TableRow>
+                            <TableCell colSpan={5} className="text-center text-muted-foreground">
+                              No commission on {AGENT_TRANSACTION_LABELS[type].toLowerCase()}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </TableBody>
+                    </Table>
+                    {error && <p className="text-xs text-destructive">{error}</p>}
+                  </div>
+                );
+              })}
+            </TabsContent>
+          ))}
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : `Save ${AGENT_PROVIDER_LABELS[provider]} Rates`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,339 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Coins, Settings2 } from "lucide-react";
+import { toast } from "sonner";
+import { endOfMonth, format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { AGENT_TRANSACTION_LABELS, AgentLine, AgentTransactionType, getVariance } from "@/utils/agentFloat";
+import {
+  COMMISSION_TRANSACTION_TYPES,
+  CommissionTotals,
+  groupCommission,
+  recordCommissionStatement,
+} from "@/utils/agentCommissions";
+import { AgentCommissionRatesDialog } from "./AgentCommissionRatesDialog";
+
+interface AgentCommissionReportProps {
+  departmentId: string;
+}
+
+const BreakdownTable = ({ title, rows }: { title: string; rows: [string, CommissionTotals][] }) => (
+  <div className="space-y-2">
+    <p className="font-medium text-sm">{title}</p>
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead />
+          <TableHead className="text-right">Entries</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+          <TableHead className="text-right">Commission</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(([label, totals]) => (
+          <TableRow key={label}>
+            <TableCell>{label}</TableCell>
+            <TableCell className="text-right">{totals.count}</TableCell>
+            <TableCell className="text-right">{totals.amount.toLocaleString()}</TableCell>
+            <TableCell className="text-right font-medium">{totals.commission.toLocaleString()}</TableCell>
+          </TableRow>
+        ))}
+        {rows.length === 0 && (
+          <TableRow>
+            <TableCell colSpan={4} className="text-center text-muted-foreground">
+              No commission in this period
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+/**
+ * Commission accrued on deposits and withdrawals for a day or month, by line, staff and type,
+ * with the month's provider statements reconciled against it
+ */
+export const AgentCommissionReport = ({ departmentId }: AgentCommissionReportProps) => {
+  const queryClient = useQueryClient();
+  const today = new Date();
+  const [period, setPeriod] = useState<"day" | "month">("day");
+  const [date, setDate] = useState(format(today, "yyyy-MM-dd"));
+  const [month, setMonth] = useState(format(today, "yyyy-MM"));
+  const [showRates, setShowRates] = useState(false);
+  const [statementLine, setStatementLine] = useState<AgentLine | null>(null);
+  const [statementAmount, setStatementAmount] = useState("");
+  const [statementNotes, setStatementNotes] = useState("");
+
+  const startDate = period === "day" ? date : `${month}-01`;
+  const endDate = period === "day" ? date : format(endOfMonth(parseISO(`${month}-01`)), "yyyy-MM-dd");
+
+  const { data: lines = [] } = useQuery({
+    queryKey: ["agent-lines", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("agent_lines")
+        .select("*")
+        .eq("department_id", departmentId)
+        .order("name");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: transactions = [] } = useQuery({
+    queryKey: ["agent-transactions", departmentId, "commission", startDate, endDate],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("agent_transactions")
+        .select("*")
+        .eq("department_id", departmentId)
+        .in("transaction_type", [...COMMISSION_TRANSACTION_TYPES, "reversal"])
+        .gte("created_at", `${startDate}T00:00:00`)
+        .lte("created_at", `${endDate}T23:59:59`)
+        .order("created_at");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const staffIds = useMemo(
+    () => [...new Set(transactions.map((t) => t.created_by).filter(Boolean))] as string[],
+    [transactions]
+  );
+
+  const { data: staff = [] } = useQuery({
+    queryKey: ["agent-commission-staff", staffIds],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("profiles").select("id, full_name, email").in("id", staffIds);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: staffIds.length > 0,
+  });
+
+  const { data: statements = [] } = useQuery({
+    queryKey: ["agent-commission-statements", departmentId, month],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("agent_commission_statements")
+        .select("*")
+        .eq("department_id", departmentId)
+        .eq("period_month", `${month}-01`);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: period === "month",
+  });
+
+  const report = useMemo(() => {
+    // Reversals are reported against the entry they undo, so they land on the same type and cashier
+    const originals = new Map(transactions.map((t) => [t.id, t]));
+    const entries = transactions.filter((t) => t.transaction_type !== "reversal" || originals.has(t.reversal_of || ""));
+    const originalOf = (t: (typeof transactions)[number]) =>
+      t.transaction_type === "reversal" ? originals.get(t.reversal_of || "") || t : t;
+
+    const lineNames = new Map(lines.map((line) => [line.id, line.name]));
+    const staffNames = new Map(staff.map((s) => [s.id, s.full_name || s.email || "Staff"]));
+    const sorted = (groups: Map<string, CommissionTotals>) =>
+      [...groups.entries()].sort((a, b) => b[1].commission - a[1].commission);
+
+    return {
+      total: entries.reduce((sum, t) => sum + Number(t.commission), 0),
+      byLine: groupCommission(entries, (t) => t.line_id),
+      byLineRows: sorted(groupCommission(entries, (t) => lineNames.get(t.line_id) || "Removed line")),
+      byStaff: sorted(
+        groupCommission(entries, (t) => {
+          const createdBy = originalOf(t).created_by;
+          return createdBy ? staffNames.get(createdBy) || "Staff" : "Unknown";
+        })
+      ),
+      byType: sorted(
+        groupCommission(
+          entries,
+          (t) => AGENT_TRANSACTION_LABELS[originalOf(t).transaction_type as AgentTransactionType] || t.transaction_type
+        )
+      ),
+      byDay: [...groupCommission(entries, (t) => format(new Date(t.created_at), "yyyy-MM-dd")).entries()].sort(
+        (a, b) => a[0].localeCompare(b[0])
+      ),
+    };
+  }, [transactions, lines, staff]);
+
+  const statementMutation = useMutation({
+    mutationFn: () => {
+      if (statementAmount === "" || Number(statementAmount) < 0) {
+        throw new Error("Enter the commission shown on the statement");
+      }
+      return recordCommissionStatement(statementLine!.id, month, Number(statementAmount), statementNotes.trim());
+    },
+    onSuccess: () => {
+      toast.success("Statement saved");
+      queryClient.invalidateQueries({ queryKey: ["agent-commission-statements", departmentId] });
+      setStatementLine(null);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save statement");
+    },
+  });
+
+  const openStatement = (line: AgentLine) => {
+    const existing = statements.find((s) => s.line_id === line.id);
+    setStatementLine(line);
+    setStatementAmount(existing ? String(existing.statement_commission) : "");
+    setStatementNotes(existing?.notes || "");
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="w-5 h-5" />
+          Agent Commission
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={() => setShowRates(true)}>
+          <Settings2 className="w-4 h-4 mr-2" />
+          Rates
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <Tabs value={period} onValueChange={(value) => setPeriod(value as "day" | "month")}>
+            <TabsList>
+              <TabsTrigger value="day">Daily</TabsTrigger>
+              <TabsTrigger value="month">Monthly</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          {period === "day" ? (
+            <div className="space-y-1">
+              <Label className="text-xs">Date</Label>
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <Label className="text-xs">Month</Label>
+              <Input type="month" value={month} onChange={(e) => setMonth(e.target.value)} />
+            </div>
+          )}
+          <div className="ml-auto text-right">
+            <p className="text-xs text-muted-foreground">Expected commission</p>
+            <p className="text-2xl font-bold">UGX {report.total.toLocaleString()}</p>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <BreakdownTable title="By line" rows={report.byLineRows} />
+          <BreakdownTable title="By staff" rows={report.byStaff} />
+          <BreakdownTable title="By type" rows={report.byType} />
+        </div>
+
+        {period === "month" && (
+          <>
+            <BreakdownTable
+              title="By day"
+              rows={report.byDay.map(([day, totals]) => [format(parseISO(day), "EEE d MMM"), totals])}
+            />
+
+            <div className="space-y-2">
+              <p className="font-medium text-sm">Statement reconciliation</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Statement</TableHead>
+                    <TableHead className="text-right">Difference</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => {
+                    const expected = report.byLine.get(line.id)?.commission || 0;
+                    const statement = statements.find((s) => s.line_id === line.id);
+                    const variance = statement ? getVariance(expected, Number(statement.statement_commission)) : 0;
+                    return (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          {line.name}
+                          {statement?.notes && <p className="text-xs text-muted-foreground">{statement.notes}</p>}
+                        </TableCell>
+                        <TableCell className="text-right">{expected.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">
+                          {statement ? Number(statement.statement_commission).toLocaleString() : "—"}
+                        </TableCell>
+                        <TableCell
+                          className={cn(
+                            "text-right font-medium",
+                            variance < 0 && "text-destructive",
+                            variance > 0 && "text-green-600"
+                          )}
+                        >
+                          {statement ? `${variance > 0 ? "+" : ""}${variance.toLocaleString()}` : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => openStatement(line)}>
+                            {statement ? "Edit" : "Enter"} statement
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {lines.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        No agent lines yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-muted-foreground">
+                Difference is the statement minus the commission worked out from the ledger; negative means the
+                provider paid less than expected.
+              </p>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <AgentCommissionRatesDialog open={showRates} onOpenChange={setShowRates} departmentId={departmentId} />
+
+      <Dialog open={!!statementLine} onOpenChange={(open) => !open && setStatementLine(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{statementLine?.name} statement</DialogTitle>
+            <DialogDescription>
+              Commission paid for {format(parseISO(`${month}-01`), "MMMM yyyy")} as shown on the provider's statement
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Commission (UGX)</Label>
+              <Input type="number" min="0" value={statementAmount} onChange={(e) => setStatementAmount(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Notes</Label>
+              <Input value={statementNotes} onChange={(e) => setStatementNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStatementLine(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => statementMutation.mutate()} disabled={statementMutation.isPending}>
+              {statementMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { AgentFloatDay, AgentLine, FloatCounts, closeAgentDay, getVariance, openAgentDay } from "@/utils/agentFloat";
+
+interface AgentDayDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  departmentId: string;
+  lines: AgentLine[]; // Active lines
+  day: AgentFloatDay | null; // The open day when closing; null when opening
+  lastLowCashAlert?: number; // Carried over from the previous day
+}
+
+const Variance = ({ expected, counted }: { expected: number; counted: number }) => {
+  const variance = getVariance(expected, counted);
+  return (
+    <span className={cn("text-xs", variance < 0 ? "text-destructive" : variance > 0 ? "text-green-600" : "text-muted-foreground")}>
+      Expected {expected.toLocaleString()}
+      {variance !== 0 && ` (${variance > 0 ? "+" : ""}${variance.toLocaleString()})`}
+    </span>
+  );
+};
+
+/** Opens the day with the counted float and cash, or closes it with the end-of-day counts */
+export const AgentDayDialog = ({ open, onOpenChange, departmentId, lines, day, lastLowCashAlert = 0 }: AgentDayDialogProps) => {
+  const queryClient = useQueryClient();
+  const closing = !!day;
+  const [cash, setCash] = useState("");
+  const [floats, setFloats] = useState<Record<string, string>>({});
+  const [lowCashAlert, setLowCashAlert] = useState(0);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setCash("");
+    // Opening starts from the balances the ledger expects, which the counts usually match
+    setFloats(closing ? {} : Object.fromEntries(lines.map((line) => [line.id, String(line.float_balance)])));
+    setLowCashAlert(lastLowCashAlert);
+    setNotes("");
+  }, [open, closing, lines, lastLowCashAlert]);
+
+  const dayMutation = useMutation({
+    mutationFn: () => {
+      const counts: FloatCounts = {};
+      for (const line of lines) {
+        const value = floats[line.id];
+        if (value === undefined || value === "" || Number(value) < 0) {
+          throw new Error(`Enter the float on ${line.name}`);
+        }
+        counts[line.id] = Number(value);
+      }
+      if (cash === "" || Number(cash) < 0) throw new Error("Enter the cash counted");
+
+      return closing
+        ? closeAgentDay(day!.id, Number(cash), counts, notes.trim())
+        : openAgentDay(departmentId, Number(cash), counts, lowCashAlert, notes.trim());
+    },
+    onSuccess: () => {
+      toast.success(closing ? "Day closed" : "Day opened");
+      queryClient.invalidateQueries({ queryKey: ["agent-day", departmentId] });
+      queryClient.invalidateQueries({ queryKey: ["agent-lines", departmentId] });
+      queryClient.invalidateQueries({ queryKey: ["agent-days", departmentId] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || `Failed to ${closing ? "close" : "open"} the day`);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !dayMutation.isPending && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{closing ? "Close Day" : "Open Day"}</DialogTitle>
+          <DialogDescription>
+            {closing
+              ? "Count the cash and check each SIM's balance. Differences are kept with the day."
+              : "Count the cash and check each SIM's balance before the first transaction."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Cash in the till</Label>
+            <Input type="number" min="0" value={cash} onChange={(e) => setCash(e.target.value)} placeholder="0" />
+            {closing && cash !== "" && <Variance expected={Number(day.cash_balance)} counted={Number(cash)} />}
+          </div>
+
+          {lines.map((line) => (
+            <div key={line.id} className="space-y-1">
+              <Label>{line.name} float</Label>
+              <Input
+                type="number"
+                min="0"
+                value={floats[line.id] ?? ""}
+                onChange={(e) => setFloats((prev) => ({ ...prev, [line.id]: e.target.value }))}
+                placeholder="Balance shown on the SIM"
+              />
+              {closing && floats[line.id] !== undefined && floats[line.id] !== "" && (
+                <Variance expected={Number(line.float_balance)} counted={Number(floats[line.id])} />
+              )}
+            </div>
+          ))}
+
+          {!closing && (
+            <div className="space-y-1">
+              <Label>Warn when cash is below</Label>
+              <Input
+                type="number"
+                min="0"
+                value={lowCashAlert}
+                onChange={(e) => setLowCashAlert(Number(e.target.value) || 0)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={dayMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => dayMutation.mutate()} disabled={dayMutation.isPending}>
+            {dayMutation.isPending ? "Saving..." : closing ? "Close Day" : "Open Day"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
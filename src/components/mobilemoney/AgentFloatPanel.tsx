@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Banknote, Plus, Settings2, Smartphone, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { useUserRole } from "@/hooks/useUserRole";
+import {
+  AGENT_PROVIDER_LABELS,
+  AGENT_TRANSACTION_LABELS,
+  AgentProvider,
+  AgentTransaction,
+  AgentTransactionType,
+  fetchOpenAgentDay,
+  getBalanceWarnings,
+  reverseAgentTransaction,
+} from "@/utils/agentFloat";
+import { AgentLinesDialog } from "./AgentLinesDialog";
+import { AgentDayDialog } from "./AgentDayDialog";
+import { AgentTransactionDialog } from "./AgentTransactionDialog";
+
+interface AgentFloatPanelProps {
+  departmentId: string;
+}
+
+const formatChange = (value: number) =>
+  value === 0 ? "—" : `${value > 0 ? "+" : "−"}${Math.abs(value).toLocaleString()}`;
+
+/**
+ * Agent float and cash for the day: per-SIM e-float, till cash, warnings and the day's ledger
+ */
+export const AgentFloatPanel = ({ departmentId }: AgentFloatPanelProps) => {
+  const queryClient = useQueryClient();
+  const { isAdmin, isModerator } = useUserRole();
+  const [showLines, setShowLines] = useState(false);
+  const [showDay, setShowDay] = useState(false);
+  const [showTransaction, setShowTransaction] = useState(false);
+  const [reversing, setReversing] = useState<AgentTransaction | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: lines = [] } = useQuery({
+    queryKey: ["agent-lines", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("agent_lines")
+        .select("*")
+        .eq("department_id", departmentId)
+        .order("name");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: day } = useQuery({
+    queryKey: ["agent-day", departmentId],
+    queryFn: () => fetchOpenAgentDay(departmentId),
+  });
+
+  const { data: lastDay } = useQuery({
+    queryKey: ["agent-days", departmentId, "last-closed"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("agent_float_days")
+        .select("*")
+        .eq("department_id", departmentId)
+        .eq("status", "closed")
+        .order("closed_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !day,
+  });
+
+  const { data: transactions = [] } = useQuery({
+    queryKey: ["agent-transactions", departmentId, day?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("agent_transactions")
+        .select("*")
+        .eq("day_id", day!.id)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!day,
+  });
+
+  const activeLines = lines.filter((line) => line.is_active);
+  const warnings = getBalanceWarnings(activeLines, day);
+  const lineNames = new Map(lines.map((line) => [line.id, line.name]));
+  const reversedIds = new Set(transactions.map((t) => t.reversal_of).filter(Boolean));
+
+  const reverseMutation = useMutation({
+    mutationFn: () => {
+      if (!reason.trim()) throw new Error("Give a reason for the reversal");
+      return reverseAgentTransaction(reversing!.id, reason.trim());
+    },
+    onSuccess: () => {
+      toast.success("Transaction reversed");
+      queryClient.invalidateQueries({ queryKey: ["agent-day", departmentId] });
+      queryClient.invalidateQueries({ queryKey: ["agent-lines", departmentId] });
+      queryClient.invalidateQueries({ queryKey: ["agent-transactions", departmentId] });
+      setReversing(null);
+      setReason("");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to reverse transaction");
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          Agent Float
+          <Badge variant={day ? "default" : "secondary"}>
+            {day ? `Open · ${format(new Date(day.business_date), "PP")}` : "Closed"}
+          </Badge>
+        </CardTitle>
+        <div className="flex flex-wrap gap-2">
+          {(isAdmin || isModerator) && (
+            <Button variant="outline" size="sm" onClick={() => setShowLines(true)}>
+              <Settings2 className="w-4 h-4 mr-2" />
+              Lines
+            </Button>
+          )}
+          <Button
+            variant={day ? "outline" : "default"}
+            size="sm"
+            onClick={() => setShowDay(true)}
+            disabled={activeLines.length === 0}
+          >
+            {day ? "Close Day" : "Open Day"}
+          </Button>
+          {day && (
+            <Button size="sm" onClick={() => setShowTransaction(true)} disabled={activeLines.length === 0}>
+              <Plus className="w-4 h-4 mr-2" />
+              Transaction
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {activeLines.length === 0 && (
+          <p className="text-sm text-muted-foreground">Add your agent SIM lines to start tracking float.</p>
+        )}
+
+        {warnings.map((warning) => (
+          <Alert key={warning.lineId || "cash"} variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{warning.message}</AlertDescription>
+          </Alert>
+        ))}
+
+        {activeLines.length > 0 && (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            {activeLines.map((line) => (
+              <div
+                key={line.id}
+                className={cn(
+                  "rounded-lg border p-4",
+                  warnings.some((w) => w.lineId === line.id) && "border-destructive"
+                )}
+              >
+                <div className="flex items-center justify-between text-sm font-medium">
+                  {line.name}
+                  <Smartphone className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div className="text-2xl font-bold">UGX {Number(line.float_balance).toLocaleString()}</div>
+                <p className="text-xs text-muted-foreground">
+                  {AGENT_PROVIDER_LABELS[line.provider as AgentProvider] || line.provider} e-float
+                </p>
+              </div>
+            ))}
+            {day && (
+              <div className={cn("rounded-lg border p-4", warnings.some((w) => !w.lineId) && "border-destructive")}>
+                <div className="flex items-center justify-between text-sm font-medium">
+                  Cash
+                  <Banknote className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div className="text-2xl font-bold">UGX {Number(day.cash_balance).toLocaleString()}</div>
+                <p className="text-xs text-muted-foreground">
+                  Opened with UGX {Number(day.opening_cash).toLocaleString()}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {day && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Line</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Float</TableHead>
+                <TableHead className="text-right">Cash</TableHead>
+                <TableHead className="text-right">Commission</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.map((t) => {
+                const reversed = reversedIds.has(t.id);
+                return (
+                  <TableRow key={t.id} className={reversed ? "opacity-50" : ""}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(t.created_at), "p")}</TableCell>
+                    <TableCell>{lineNames.get(t.line_id) || "—"}</TableCell>
+                    <TableCell>
+                      {AGENT_TRANSACTION_LABELS[t.transaction_type as AgentTransactionType] || t.transaction_type}
+                      {reversed && <Badge variant="outline" className="ml-2">Reversed</Badge>}
+                      {t.reference && <p className="text-xs text-muted-foreground">{t.reference}</p>}
+                    </TableCell>
+                    <TableCell>
+                      {t.customer_phone || "—"}
+                      {t.customer_name && <p className="text-xs text-muted-foreground">{t.customer_name}</p>}
+                    </TableCell>
+                    <TableCell className="text-right">{Number(t.amount).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatChange(Number(t.float_change))}</TableCell>
+                    <TableCell className="text-right">{formatChange(Number(t.cash_change))}</TableCell>
+                    <TableCell className="text-right">{formatChange(Number(t.commission))}</TableCell>
+                    <TableCell className="text-right">
+                      {t.transaction_type !== "reversal" && !reversed && (
+                        <Button variant="ghost" size="icon" title="Reverse" onClick={() => setReversing(t)}>
+                          <Undo2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {transactions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-muted-foreground">
+                    No transactions today
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AgentLinesDialog open={showLines} onOpenChange={setShowLines} departmentId={departmentId} lines={lines} />
+      <AgentDayDialog
+        open={showDay}
+        onOpenChange={setShowDay}
+        departmentId={departmentId}
+        lines={activeLines}
+        day={day || null}
+        lastLowCashAlert={Number(lastDay?.low_cash_alert || 0)}
+      />
+      {day && (
+        <AgentTransactionDialog
+          open={showTransaction}
+          onOpenChange={setShowTransaction}
+          departmentId={departmentId}
+          lines={activeLines}
+          day={day}
+        />
+      )}
+
+      <AlertDialog
+        open={!!reversing}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReversing(null);
+            setReason("");
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reverse transaction?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {reversing &&
+                `${AGENT_TRANSACTION_LABELS[reversing.transaction_type as AgentTransactionType]} of UGX ${Number(
+                  reversing.amount
+                ).toLocaleString()} will be undone on the float and cash balances.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason, e.g. Wrong number" />
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={reverseMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                reverseMutation.mutate();
+              }}
+              disabled={reverseMutation.isPending}
+            >
+              Reverse
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
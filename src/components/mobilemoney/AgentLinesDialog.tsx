@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Pencil } from "lucide-react";
+import { AGENT_PROVIDER_LABELS, AgentLine, AgentProvider } from "@/utils/agentFloat";
+
+interface AgentLinesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  departmentId: string;
+  lines: AgentLine[];
+}
+
+const emptyForm = {
+  name: "",
+  provider: "mtn" as AgentProvider,
+  agent_code: "",
+  phone_number: "",
+  low_float_alert: 0,
+  float_balance: 0,
+  is_active: true,
+};
+
+export const AgentLinesDialog = ({ open, onOpenChange, departmentId, lines }: AgentLinesDialogProps) => {
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!open) return;
+    setEditingId(null);
+    setForm(emptyForm);
+  }, [open]);
+
+  const startEdit = (line: AgentLine) => {
+    setEditingId(line.id);
+    setForm({
+      name: line.name,
+      provider: line.provider as AgentProvider,
+      agent_code: line.agent_code || "",
+      phone_number: line.phone_number || "",
+      low_float_alert: Number(line.low_float_alert),
+      float_balance: Number(line.float_balance),
+      is_active: line.is_active,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!form.name.trim()) throw new Error("Give the line a name, e.g. MTN Agent 1");
+      const values = {
+        name: form.name.trim(),
+        provider: form.provider,
+        agent_code: form.agent_code.trim() || null,
+        phone_number: form.phone_number.trim() || null,
+        low_float_alert: form.low_float_alert,
+        is_active: form.is_active,
+      };
+
+      // The float only moves through the ledger once a line exists
+      const { error } = editingId
+        ? await supabase.from("agent_lines").update(values).eq("id", editingId)
+        : await supabase.from("agent_lines").insert({ ...values, department_id: departmentId, float_balance: form.float_balance });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success(editingId ? "Agent line updated" : "Agent line added");
+      queryClient.invalidateQueries({ queryKey: ["agent-lines", departmentId] });
+      setEditingId(null);
+      setForm(emptyForm);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save agent line");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Agent SIM Lines</DialogTitle>
+          <DialogDescription>Each agent SIM keeps its own e-float balance</DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Line</TableHead>
+              <TableHead>Provider</TableHead>
+              <TableHead className="text-right">Float</TableHead>
+              <TableHead className="text-right">Alert below</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.map((line) => (
+              <TableRow key={line.id} className={line.is_active ? "" : "opacity-50"}>
+                <TableCell>
+                  <p className="font-medium">{line.name}</p>
+                  <p className="text-xs text-muted-foreground">{[line.agent_code, line.phone_number].filter(Boolean).join(" · ")}</p>
+                </TableCell>
+                <TableCell>{AGENT_PROVIDER_LABELS[line.provider as AgentProvider] || line.provider}</TableCell>
+                <TableCell className="text-right">{Number(line.float_balance).toLocaleString()}</TableCell>
+                <TableCell className="text-right">{Number(line.low_float_alert).toLocaleString()}</TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => startEdit(line)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {lines.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No agent lines yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="border rounded-lg p-3 space-y-3">
+          <p className="font-medium text-sm">{editingId ? "Edit line" : "Add line"}</p>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Name</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="MTN Agent 1" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Provider</Label>
+              <Select value={form.provider} onValueChange={(value) => setForm({ ...form, provider: value as AgentProvider })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(AGENT_PROVIDER_LABELS) as AgentProvider[]).map((provider) => (
+                    <SelectItem key={provider} value={provider}>
+                      {AGENT_PROVIDER_LABELS[provider]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Agent code</Label>
+              <Input value={form.agent_code} onChange={(e) => setForm({ ...form, agent_code: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">SIM number</Label>
+              <Input
+                type="tel"
+                value={form.phone_number}
+                onChange={(e) => setForm({ ...form, phone_number: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Warn when float is below</Label>
+              <Input
+                type="number"
+                min="0"
+                value={form.low_float_alert}
+                onChange={(e) => setForm({ ...form, low_float_alert: Number(e.target.value) || 0 })}
+              />
+            </div>
+            {editingId ? (
+              <div className="flex items-center gap-2 pt-5">
+                <Switch checked={form.is_active} onCheckedChange={(checked) => setForm({ ...form, is_active: checked })} />
+                <Label className="text-xs">In use</Label>
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <Label className="text-xs">Float on the SIM now</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={form.float_balance}
+                  onChange={(e) => setForm({ ...form, float_balance: Number(e.target.value) || 0 })}
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2 justify-end">
+            {editingId && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setEditingId(null);
+                  setForm(emptyForm);
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {editingId ? "Save Line" : "Add Line"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
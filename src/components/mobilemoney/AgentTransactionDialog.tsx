@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  AGENT_TRANSACTION_EFFECTS,
+  AGENT_TRANSACTION_LABELS,
+  AgentFloatDay,
+  AgentLine,
+  AgentTransactionInput,
+  CUSTOMER_TRANSACTION_TYPES,
+  recordAgentTransaction,
+} from "@/utils/agentFloat";
+import { getCommissionForAmount } from "@/utils/agentCommissions";
+
+type EntryType = AgentTransactionInput["type"];
+
+interface AgentTransactionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  departmentId: string;
+  lines: AgentLine[]; // Active lines
+  day: AgentFloatDay;
+}
+
+export const AgentTransactionDialog = ({ open, onOpenChange, departmentId, lines, day }: AgentTransactionDialogProps) => {
+  const queryClient = useQueryClient();
+  const [lineId, setLineId] = useState("");
+  const [type, setType] = useState<EntryType>("deposit");
+  const [amount, setAmount] = useState("");
+  const [customerPhone, setCustomerPhone] = useState("");
+  const [customerName, setCustomerName] = useState("");
+  const [reference, setReference] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: rates = [] } = useQuery({
+    queryKey: ["agent-commission-rates", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("agent_commission_rates")
+        .select("*")
+        .eq("department_id", departmentId)
+        .order("min_amount");
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setLineId((current) => (lines.some((line) => line.id === current) ? current : lines[0]?.id || ""));
+    setAmount("");
+    setCustomerPhone("");
+    setCustomerName("");
+    setReference("");
+    setNotes("");
+  }, [open, lines]);
+
+  const line = lines.find((l) => l.id === lineId);
+  const effect = AGENT_TRANSACTION_EFFECTS[type];
+  const value = Number(amount) || 0;
+  const floatAfter = Number(line?.float_balance || 0) + effect.float * value;
+  const cashAfter = Number(day.cash_balance) + effect.cash * value;
+  const needsCustomer = CUSTOMER_TRANSACTION_TYPES.includes(type);
+  const commission = line ? getCommissionForAmount(rates, line.provider, type, value) : 0;
+
+  const recordMutation = useMutation({
+    mutationFn: () => {
+      if (!line) throw new Error("Choose an agent line");
+      if (!(value > 0)) throw new Error("Enter an amount");
+      if (needsCustomer && !customerPhone.trim()) throw new Error("Enter the customer's phone number");
+
+      return recordAgentTransaction({
+        lineId: line.id,
+        type,
+        amount: value,
+        customerPhone: needsCustomer ? customerPhone.trim() : undefined,
+        customerName: needsCustomer ? customerName.trim() : undefined,
+        reference: reference.trim(),
+        notes: notes.trim(),
+      });
+    },
+    onSuccess: () => {
+      toast.success(`${AGENT_TRANSACTION_LABELS[type]} recorded`);
+      queryClient.invalidateQueries({ queryKey: ["agent-day", departmentId] });
+      queryClient.invalidateQueries({ queryKey: ["agent-lines", departmentId] });
+      queryClient.invalidateQueries({ queryKey: ["agent-transactions", departmentId] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to record transaction");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !recordMutation.isPending && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Agent Transaction</DialogTitle>
+          <DialogDescription>Record a cash-in, cash-out or float movement</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Line</Label>
+              <Select value={lineId} onValueChange={setLineId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose line" />
+                </SelectTrigger>
+                <SelectContent>
+                  {lines.map((l) => (
+                    <SelectItem key={l.id} value={l.id}>
+                      {l.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as EntryType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(AGENT_TRANSACTION_EFFECTS) as EntryType[]).map((entryType) => (
+                    <SelectItem key={entryType} value={entryType}>
+                      {AGENT_TRANSACTION_LABELS[entryType]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Amount (UGX)</Label>
+            <Input type="number" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} autoFocus />
+          </div>
+
+          {needsCustomer && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Customer phone</Label>
+                <Input type="tel" value={customerPhone} onChange={(e) => setCustomerPhone(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Customer name</Label>
+                <Input value={customerName} onChange={(e) => setCustomerName(e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Reference</Label>
+              <Input value={reference} onChange={(e) => setReference(e.target.value)} placeholder="Transaction ID" />
+            </div>
+            <div className="space-y-1">
+              <Label>Notes</Label>
+              <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+
+          {line && value > 0 && (
+            <div className="rounded-lg bg-muted p-3 text-sm space-y-1">
+              {effect.float !== 0 && (
+                <div className="flex justify-between">
+                  <span>{line.name} float after</span>
+                  <span className={cn("font-medium", floatAfter < 0 && "text-destructive")}>
+                    UGX {floatAfter.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              {effect.cash !== 0 && (
+                <div className="flex justify-between">
+                  <span>Cash after</span>
+                  <span className={cn("font-medium", cashAfter < 0 && "text-destructive")}>
+                    UGX {cashAfter.toLocaleString()}
+                  </span>
+                </div>
+              )}
+              {commission > 0 && (
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Commission</span>
+                  <span>UGX {commission.toLocaleString()}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={recordMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => recordMutation.mutate()}
+            disabled={recordMutation.isPending || floatAfter < 0 || cashAfter < 0}
+          >
+            {recordMutation.isPending ? "Saving..." : "Record"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
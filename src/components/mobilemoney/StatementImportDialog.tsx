@@ -0,0 +1,228 @@
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { AGENT_PROVIDER_LABELS, AgentLine, AgentProvider } from "@/utils/agentFloat";
+import {
+  STATEMENT_KIND_LABELS,
+  StatementImportResult,
+  StatementKind,
+  importStatement,
+  parseCsvStatement,
+  parseSmsStatement,
+} from "@/utils/mobileMoneyStatements";
+
+interface StatementImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  departmentId: string;
+  lines: AgentLine[];
+  onImported: (result: StatementImportResult) => void;
+}
+
+const NO_LINE = "none";
+
+export const StatementImportDialog = ({ open, onOpenChange, departmentId, lines, onImported }: StatementImportDialogProps) => {
+  const [provider, setProvider] = useState<AgentProvider>("mtn");
+  const [lineId, setLineId] = useState(NO_LINE);
+  const [source, setSource] = useState<"sms" | "csv">("sms");
+  const [smsText, setSmsText] = useState("");
+  const [csvText, setCsvText] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fallbackDate, setFallbackDate] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const providerLines = lines.filter((line) => line.provider === provider);
+  const line = providerLines.find((l) => l.id === lineId) || null;
+
+  const parsed = useMemo(
+    () =>
+      source === "sms"
+        ? parseSmsStatement(smsText, fallbackDate)
+        : parseCsvStatement(csvText, fallbackDate, line?.phone_number),
+    [source, smsText, csvText, fallbackDate, line?.phone_number]
+  );
+
+  const reset = () => {
+    setSmsText("");
+    setCsvText("");
+    setFileName(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsvText(await file.text());
+    setFileName(file.name);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: () => {
+      if (parsed.lines.length === 0) throw new Error("Nothing to import");
+      return importStatement({
+        departmentId,
+        lineId: line?.id || null,
+        provider,
+        source,
+        fileName: source === "csv" ? fileName : null,
+        lines: parsed.lines,
+      });
+    },
+    onSuccess: (result) => {
+      toast.success(
+        `Imported ${result.imported} transactions: ${result.matched} matched, ${result.unmatched} unmatched` +
+          (result.duplicates ? `, ${result.duplicates} already imported` : "")
+      );
+      reset();
+      onImported(result);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to import statement");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Statement</DialogTitle>
+          <DialogDescription>
+            Paste confirmation SMS or upload the statement CSV downloaded from the line. Transactions are matched
+            against the agent ledger and mobile money sales.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label>Provider</Label>
+            <Select
+              value={provider}
+              onValueChange={(value) => {
+                setProvider(value as AgentProvider);
+                setLineId(NO_LINE);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(AGENT_PROVIDER_LABELS) as AgentProvider[]).map((p) => (
+                  <SelectItem key={p} value={p}>
+                    {AGENT_PROVIDER_LABELS[p]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Agent line</Label>
+            <Select value={lineId} onValueChange={setLineId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_LINE}>Merchant / not an agent line</SelectItem>
+                {providerLines.map((l) => (
+                  <SelectItem key={l.id} value={l.id}>
+                    {l.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Statement date</Label>
+            <Input type="date" value={fallbackDate} onChange={(e) => setFallbackDate(e.target.value)} />
+            <p className="text-xs text-muted-foreground">Used when a message has no date</p>
+          </div>
+        </div>
+
+        <Tabs value={source} onValueChange={(value) => setSource(value as "sms" | "csv")}>
+          <TabsList>
+            <TabsTrigger value="sms">Paste SMS</TabsTrigger>
+            <TabsTrigger value="csv">CSV File</TabsTrigger>
+          </TabsList>
+          <TabsContent value="sms" className="space-y-1">
+            <Textarea
+              rows={8}
+              value={smsText}
+              onChange={(e) => setSmsText(e.target.value)}
+              placeholder="Paste one message per line, or separate messages with a blank line"
+            />
+          </TabsContent>
+          <TabsContent value="csv" className="space-y-1">
+            <Input type="file" accept=".csv,.txt,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+            {fileName && <p className="text-xs text-muted-foreground">{fileName}</p>}
+          </TabsContent>
+        </Tabs>
+
+        {(parsed.lines.length > 0 || parsed.skipped.length > 0) && (
+          <div className="space-y-2">
+            <p className="font-medium text-sm">
+              {parsed.lines.length} transactions found
+              {parsed.skipped.length > 0 && `, ${parsed.skipped.length} skipped`}
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Transaction ID</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Counterparty</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {parsed.lines.map((l, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="whitespace-nowrap">
+                      {l.occurred_at ? format(new Date(l.occurred_at), "dd MMM HH:mm") : l.occurred_on}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {l.transaction_id || <span className="text-muted-foreground">None</span>}
+                    </TableCell>
+                    <TableCell>{STATEMENT_KIND_LABELS[l.kind as StatementKind]}</TableCell>
+                    <TableCell>
+                      {[l.counterparty_name, l.counterparty_phone].filter(Boolean).join(" · ") || "—"}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {l.direction === "in" ? "+" : "-"}
+                      {l.amount.toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {parsed.skipped.map((s, index) => (
+                  <TableRow key={`skipped-${index}`} className="text-muted-foreground">
+                    <TableCell colSpan={4} className="text-xs truncate max-w-md" title={s.text}>
+                      {s.text}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant="outline">{s.reason}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => importMutation.mutate()} disabled={importMutation.isPending || parsed.lines.length === 0}>
+            {importMutation.isPending ? "Importing..." : `Import ${parsed.lines.length} transactions`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,444 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileSpreadsheet, RefreshCw, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { AGENT_PROVIDER_LABELS, AGENT_TRANSACTION_LABELS, AgentProvider, AgentTransactionType } from "@/utils/agentFloat";
+import {
+  STATEMENT_KIND_LABELS,
+  STATEMENT_STATUS_LABELS,
+  StatementKind,
+  StatementLineStatus,
+  raiseStatementDiscrepancy,
+  recordStatementLineInLedger,
+  rematchStatement,
+  setStatementLineStatus,
+} from "@/utils/mobileMoneyStatements";
+import { StatementImportDialog } from "./StatementImportDialog";
+
+interface StatementReconciliationPanelProps {
+  departmentId: string;
+}
+
+const STATUS_VARIANTS: Record<StatementLineStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  unmatched: "destructive",
+  matched: "default",
+  created: "default",
+  ignored: "outline",
+  raised: "secondary",
+};
+
+/**
+ * Provider statements (CSV or pasted SMS) checked line by line against the agent ledger and
+ * mobile money sales. Unmatched lines can be added to the ledger, ignored with a reason or raised
+ * as a discrepancy on the Reconcile page.
+ */
+export const StatementReconciliationPanel = ({ departmentId }: StatementReconciliationPanelProps) => {
+  const queryClient = useQueryClient();
+  const [showImport, setShowImport] = useState(false);
+  const [importId, setImportId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [ignoreLineId, setIgnoreLineId] = useState<string | null>(null);
+  const [ignoreNotes, setIgnoreNotes] = useState("");
+  const [showRaise, setShowRaise] = useState(false);
+  const [cashierName, setCashierName] = useState("");
+  const [raiseNotes, setRaiseNotes] = useState("");
+
+  const { data: lines = [] } = useQuery({
+    queryKey: ["agent-lines", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("agent_lines")
+        .select("*")
+        .eq("department_id", departmentId)
+        .order("name");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: imports = [] } = useQuery({
+    queryKey: ["statement-imports", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("mobile_money_statement_imports")
+        .select("*")
+        .eq("department_id", departmentId)
+        .order("created_at", { ascending: false })
+        .limit(20);
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  useEffect(() => {
+    if (!importId && imports.length > 0) setImportId(imports[0].id);
+  }, [imports, importId]);
+
+  const { data: statementLines = [] } = useQuery({
+    queryKey: ["statement-lines", importId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("mobile_money_statement_lines")
+        .select("*, sale_payments(sales(sale_number)), agent_transactions(transaction_type, created_at)")
+        .eq("import_id", importId!)
+        .order("occurred_on")
+        .order("occurred_at");
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!importId,
+  });
+
+  useEffect(() => {
+    setSelected([]);
+  }, [importId]);
+
+  const summary = useMemo(() => {
+    const counts = { unmatched: 0, matched: 0, created: 0, ignored: 0, raised: 0 } as Record<StatementLineStatus, number>;
+    let unmatchedNet = 0;
+    for (const line of statementLines) {
+      counts[line.status as StatementLineStatus]++;
+      if (line.status === "unmatched") {
+        unmatchedNet += line.direction === "in" ? Number(line.amount) : -Number(line.amount);
+      }
+    }
+    return { counts, unmatchedNet };
+  }, [statementLines]);
+
+  const lineNames = new Map(lines.map((line) => [line.id, line.name]));
+  const unmatchedIds = statementLines.filter((l) => l.status === "unmatched").map((l) => l.id);
+
+  const refresh = (ledgerChanged = false) => {
+    queryClient.invalidateQueries({ queryKey: ["statement-lines", importId] });
+    if (ledgerChanged) {
+      queryClient.invalidateQueries({ queryKey: ["agent-lines", departmentId] });
+      queryClient.invalidateQueries({ queryKey: ["agent-day", departmentId] });
+      queryClient.invalidateQueries({ queryKey: ["agent-transactions", departmentId] });
+    }
+  };
+
+  const rematchMutation = useMutation({
+    mutationFn: () => rematchStatement(importId!),
+    onSuccess: (matched) => {
+      toast.success(matched ? `${matched} more transactions matched` : "No new matches");
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to re-run matching");
+    },
+  });
+
+  const ledgerMutation = useMutation({
+    mutationFn: (statementLineId: string) => recordStatementLineInLedger(statementLineId),
+    onSuccess: () => {
+      toast.success("Added to the agent ledger");
+      refresh(true);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to add to ledger");
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status, notes }: { id: string; status: "ignored" | "unmatched"; notes?: string }) =>
+      setStatementLineStatus(id, status, notes),
+    onSuccess: () => {
+      setIgnoreLineId(null);
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update line");
+    },
+  });
+
+  const raiseMutation = useMutation({
+    mutationFn: () => {
+      if (!cashierName.trim()) throw new Error("Enter who is responsible for these transactions");
+      return raiseStatementDiscrepancy(selected, cashierName.trim(), raiseNotes.trim());
+    },
+    onSuccess: () => {
+      toast.success("Discrepancy raised for the mobile money department");
+      setShowRaise(false);
+      setSelected([]);
+      queryClient.invalidateQueries({ queryKey: ["reconciliations"] });
+      queryClient.invalidateQueries({ queryKey: ["suspended_revenue"] });
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to raise discrepancy");
+    },
+  });
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelected((current) => (checked ? [...current, id] : current.filter((s) => s !== id)));
+
+  const selectedNet = statementLines
+    .filter((l) => selected.includes(l.id))
+    .reduce((sum, l) => sum + (l.direction === "in" ? Number(l.amount) : -Number(l.amount)), 0);
+
+  const currentImport = imports.find((i) => i.id === importId);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="w-5 h-5" />
+          Statement Matching
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={() => setShowImport(true)}>
+          <Upload className="w-4 h-4 mr-2" />
+          Import Statement
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {imports.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Import an MTN or Airtel statement to check it against the ledger and mobile money sales.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label className="text-xs">Statement</Label>
+                <Select value={importId || ""} onValueChange={setImportId}>
+                  <SelectTrigger className="w-72">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {imports.map((i) => (
+                      <SelectItem key={i.id} value={i.id}>
+                        {AGENT_PROVIDER_LABELS[i.provider as AgentProvider]}
+                        {i.line_id && ` · ${lineNames.get(i.line_id) || "Removed line"}`}
+                        {" · "}
+                        {i.file_name || (i.source === "sms" ? "SMS" : "CSV")} · {format(new Date(i.created_at), "dd MMM HH:mm")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(STATEMENT_STATUS_LABELS) as StatementLineStatus[])
+                  .filter((status) => summary.counts[status] > 0)
+                  .map((status) => (
+                    <Badge key={status} variant={STATUS_VARIANTS[status]}>
+                      {summary.counts[status]} {STATEMENT_STATUS_LABELS[status].toLowerCase()}
+                    </Badge>
+                  ))}
+                {currentImport && currentImport.duplicate_count > 0 && (
+                  <Badge variant="outline">{currentImport.duplicate_count} already imported</Badge>
+                )}
+              </div>
+              <div className="ml-auto flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => rematchMutation.mutate()}
+                  disabled={rematchMutation.isPending || summary.counts.unmatched === 0}
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Re-run Matching
+                </Button>
+                <Button variant="destructive" size="sm" onClick={() => setShowRaise(true)} disabled={selected.length === 0}>
+                  Raise Discrepancy ({selected.length})
+                </Button>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8">
+                    <Checkbox
+                      checked={unmatchedIds.length > 0 && unmatchedIds.every((id) => selected.includes(id))}
+                      onCheckedChange={(checked) => setSelected(checked ? unmatchedIds : [])}
+                      disabled={unmatchedIds.length === 0}
+                    />
+                  </TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Transaction ID</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Counterparty</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statementLines.map((line) => {
+                  const status = line.status as StatementLineStatus;
+                  const kind = line.kind as StatementKind;
+                  const sale = line.sale_payments?.sales;
+                  const agentTransaction = line.agent_transactions;
+                  return (
+                    <TableRow key={line.id} className={cn(status === "unmatched" && "bg-destructive/5")}>
+                      <TableCell>
+                        {status === "unmatched" && (
+                          <Checkbox
+                            checked={selected.includes(line.id)}
+                            onCheckedChange={(checked) => toggle(line.id, checked === true)}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {line.occurred_at ? format(new Date(line.occurred_at), "dd MMM HH:mm") : line.occurred_on}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs" title={line.raw_text || undefined}>
+                        {line.transaction_id || "—"}
+                      </TableCell>
+                      <TableCell>{STATEMENT_KIND_LABELS[kind] || line.kind}</TableCell>
+                      <TableCell>
+                        {[line.counterparty_name, line.counterparty_phone].filter(Boolean).join(" · ") || "—"}
+                      </TableCell>
+                      <TableCell
+                        className={cn("text-right font-medium", line.direction === "out" && "text-destructive")}
+                      >
+                        {line.direction === "in" ? "+" : "-"}
+                        {Number(line.amount).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[status]}>{STATEMENT_STATUS_LABELS[status]}</Badge>
+                        {sale && <p className="text-xs text-muted-foreground">Sale {sale.sale_number}</p>}
+                        {agentTransaction && (
+                          <p className="text-xs text-muted-foreground">
+                            {AGENT_TRANSACTION_LABELS[agentTransaction.transaction_type as AgentTransactionType]}{" "}
+                            {format(new Date(agentTransaction.created_at), "dd MMM HH:mm")}
+                            {line.match_method === "amount_time" && " (by amount)"}
+                          </p>
+                        )}
+                        {line.notes && <p className="text-xs text-muted-foreground">{line.notes}</p>}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap space-x-2">
+                        {status === "unmatched" && line.line_id && (kind === "cash_in" || kind === "cash_out") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => ledgerMutation.mutate(line.id)}
+                            disabled={ledgerMutation.isPending}
+                          >
+                            Add to Ledger
+                          </Button>
+                        )}
+                        {status === "unmatched" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setIgnoreLineId(line.id);
+                              setIgnoreNotes("");
+                            }}
+                          >
+                            Ignore
+                          </Button>
+                        )}
+                        {status === "ignored" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => statusMutation.mutate({ id: line.id, status: "unmatched" })}
+                            disabled={statusMutation.isPending}
+                          >
+                            Restore
+                          </Button>
+                        )}
+                        {status === "raised" && line.reconciliation_id && (
+                          <Button variant="ghost" size="sm" asChild>
+                            <Link to="/reconcile">View</Link>
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {summary.counts.unmatched > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Unmatched lines net UGX {summary.unmatchedNet.toLocaleString()} (money in minus money out). Add agent
+                deposits and withdrawals the ledger missed, ignore lines that need no action, and raise the rest as a
+                discrepancy.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <StatementImportDialog
+        open={showImport}
+        onOpenChange={setShowImport}
+        departmentId={departmentId}
+        lines={lines}
+        onImported={(result) => {
+          queryClient.invalidateQueries({ queryKey: ["statement-imports", departmentId] });
+          setImportId(result.import_id);
+        }}
+      />
+
+      <Dialog open={!!ignoreLineId} onOpenChange={(open) => !open && setIgnoreLineId(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Ignore Line</DialogTitle>
+            <DialogDescription>Say why this transaction needs no ledger entry or sale</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label>Reason</Label>
+            <Input value={ignoreNotes} onChange={(e) => setIgnoreNotes(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIgnoreLineId(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => statusMutation.mutate({ id: ignoreLineId!, status: "ignored", notes: ignoreNotes.trim() })}
+              disabled={statusMutation.isPending || !ignoreNotes.trim()}
+            >
+              Ignore
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showRaise} onOpenChange={setShowRaise}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Raise Discrepancy</DialogTitle>
+            <DialogDescription>
+              {selected.length} unmatched lines, net UGX {selectedNet.toLocaleString()}, will be recorded on the
+              Reconcile page for the mobile money department.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Responsible cashier</Label>
+              <Input value={cashierName} onChange={(e) => setCashierName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Notes</Label>
+              <Input value={raiseNotes} onChange={(e) => setRaiseNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRaise(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={() => raiseMutation.mutate()} disabled={raiseMutation.isPending}>
+              {raiseMutation.isPending ? "Raising..." : "Raise Discrepancy"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,120 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { TRACE_SELECT, TracedBatch } from "@/utils/productionBatches";
+
+interface BatchTraceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  batchIds: string[];
+  title?: string;
+}
+
+const formatUgx = (value: number) => `UGX ${Math.round(value).toLocaleString()}`;
+
+export const BatchTraceDialog = ({ open, onOpenChange, batchIds, title }: BatchTraceDialogProps) => {
+  const { data: batches = [], isLoading } = useQuery({
+    queryKey: ["production-batch-trace", batchIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("production_batches")
+        .select(TRACE_SELECT)
+        .in("id", batchIds)
+        .order("created_at");
+      if (error) throw error;
+      return (data || []) as unknown as TracedBatch[];
+    },
+    enabled: open && batchIds.length > 0,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title || "Batch Trace"}</DialogTitle>
+          <DialogDescription>The oils and packaging that went into each batch, and where its bottles were sold</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {batches.map((batch) => {
+              const inputs = batch.production_batch_inputs || [];
+              const sales = batch.production_batch_sales || [];
+              return (
+                <div key={batch.id} className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono font-semibold">{batch.batch_code}</span>
+                    <Badge variant="secondary">
+                      {batch.quantity} × {batch.product_name} {Number(batch.bottle_size_ml)}ml
+                    </Badge>
+                    {batch.recipe_name && <Badge variant="outline">{batch.recipe_name}</Badge>}
+                    <span className="text-xs text-muted-foreground">
+                      {batch.created_at && format(new Date(batch.created_at), "dd MMM yyyy HH:mm")}
+                    </span>
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Input</TableHead>
+                        <TableHead>Oil Code</TableHead>
+                        <TableHead className="text-right">Used</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {inputs.map((input) => (
+                        <TableRow key={input.id}>
+                          <TableCell>{input.name}</TableCell>
+                          <TableCell className="font-mono text-xs">{input.supplier_oil_code || "-"}</TableCell>
+                          <TableCell className="text-right">
+                            {Number(input.quantity).toLocaleString()}
+                            {input.item_type === "scent" ? "ml" : ""}
+                          </TableCell>
+                          <TableCell className="text-right">{formatUgx(Number(input.total_cost))}</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow>
+                        <TableCell colSpan={3} className="font-medium">Cost per bottle</TableCell>
+                        <TableCell className="text-right font-medium">{formatUgx(Number(batch.unit_cost))}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">
+                      Sold {batch.quantity - batch.remaining_quantity} of {batch.quantity}
+                    </p>
+                    {sales.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">No bottles from this batch sold yet</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {sales.map((sale) => (
+                          <Badge key={sale.id} variant="outline" className="font-normal">
+                            {sale.sales?.receipt_number || "Sale"} · {sale.quantity} ·{" "}
+                            {sale.created_at && format(new Date(sale.created_at), "dd MMM")}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            {batches.length === 0 && (
+              <p className="py-6 text-center text-sm text-muted-foreground">No production batch found</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
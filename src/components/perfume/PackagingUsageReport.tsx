@@ -0,0 +1,130 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Boxes } from "lucide-react";
+import { PACKAGING_KIND_LABELS, PackagingKind, isPackagingLow } from "@/utils/packaging";
+
+interface PackagingUsageReportProps {
+  departmentId: string | null;
+  fromDate: string;
+  toDate: string;
+}
+
+interface UsageRow {
+  packagingId: string;
+  name: string;
+  kind: string;
+  bottleSizeMl: number | null;
+  used: number;
+  cost: number;
+  stock: number | null;
+  low: boolean;
+}
+
+// Bottles, atomizers and boxes that went out with refills, net of voids and returns
+export const PackagingUsageReport = ({ departmentId, fromDate, toDate }: PackagingUsageReportProps) => {
+  const { data: rows = [], isLoading } = useQuery({
+    queryKey: ["packaging-usage", departmentId, fromDate, toDate],
+    queryFn: async () => {
+      let usageQuery = supabase
+        .from("packaging_usage")
+        .select("*")
+        .gte("usage_date", fromDate)
+        .lte("usage_date", toDate);
+      if (departmentId) usageQuery = usageQuery.eq("department_id", departmentId);
+
+      let itemsQuery = supabase.from("packaging_items").select("id, stock, min_stock");
+      if (departmentId) itemsQuery = itemsQuery.eq("department_id", departmentId);
+
+      const [usage, items] = await Promise.all([usageQuery, itemsQuery]);
+      if (usage.error) throw usage.error;
+      if (items.error) throw items.error;
+
+      const stockById = new Map((items.data || []).map((item) => [item.id, item]));
+      const byItem = new Map<string, UsageRow>();
+      for (const day of usage.data || []) {
+        const row = byItem.get(day.packaging_id) || {
+          packagingId: day.packaging_id,
+          name: day.name,
+          kind: day.kind,
+          bottleSizeMl: day.bottle_size_ml,
+          used: 0,
+          cost: 0,
+          stock: stockById.get(day.packaging_id)?.stock ?? null,
+          low: stockById.has(day.packaging_id) && isPackagingLow(stockById.get(day.packaging_id)!),
+        };
+        row.used += Number(day.quantity_used) || 0;
+        row.cost += Number(day.cost) || 0;
+        byItem.set(day.packaging_id, row);
+      }
+
+      return [...byItem.values()]
+        .filter((row) => row.used !== 0)
+        .sort((a, b) => (a.bottleSizeMl ?? Infinity) - (b.bottleSizeMl ?? Infinity) || a.name.localeCompare(b.name));
+    },
+  });
+
+  const bottlesUsed = rows.filter((row) => row.kind === "bottle").reduce((sum, row) => sum + row.used, 0);
+  const totalCost = rows.reduce((sum, row) => sum + row.cost, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Boxes className="h-5 w-5 text-orange-500" />
+          Bottle & Packaging Usage
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Bottles used</p>
+            <p className="text-2xl font-bold">{bottlesUsed}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Packaging cost</p>
+            <p className="text-2xl font-bold">UGX {Math.round(totalCost).toLocaleString()}</p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-8">Loading packaging usage...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">No packaging used for this date</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead className="text-right">Used</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+                <TableHead className="text-right">In stock</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.packagingId}>
+                  <TableCell>
+                    <span className="font-medium">{row.name}</span>
+                    <span className="text-xs text-muted-foreground ml-2">
+                      {PACKAGING_KIND_LABELS[row.kind as PackagingKind] || row.kind}
+                    </span>
+                  </TableCell>
+                  <TableCell>{row.bottleSizeMl ? `${Number(row.bottleSizeMl)}ml` : "All"}</TableCell>
+                  <TableCell className="text-right">{row.used}</TableCell>
+                  <TableCell className="text-right">UGX {Math.round(row.cost).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    {row.stock === null ? "-" : row.low ? <Badge variant="destructive">{row.stock}</Badge> : row.stock}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,293 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Factory } from "lucide-react";
+import { toast } from "sonner";
+import { PackagingItem, fetchRefillSizes } from "@/utils/packaging";
+import { PerfumeRecipe, RECIPE_SELECT } from "@/utils/perfumeRecipes";
+import { ProductionBatch, buildBatchInputs, getBatchCost, produceBatch } from "@/utils/productionBatches";
+
+interface ProductionBatchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  departmentId: string;
+  onProduced?: (batch: ProductionBatch) => void;
+}
+
+const formatUgx = (value: number) => `UGX ${Math.round(value).toLocaleString()}`;
+
+export const ProductionBatchDialog = ({ open, onOpenChange, departmentId, onProduced }: ProductionBatchDialogProps) => {
+  const queryClient = useQueryClient();
+  const [recipeId, setRecipeId] = useState("");
+  const [productId, setProductId] = useState("");
+  const [sizeMl, setSizeMl] = useState("");
+  const [quantity, setQuantity] = useState("10");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setRecipeId("");
+    setProductId("");
+    setSizeMl("");
+    setQuantity("10");
+    setNotes("");
+  }, [open]);
+
+  const { data: recipes = [] } = useQuery({
+    queryKey: ["perfume-recipes", departmentId, "production"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("perfume_recipes")
+        .select(RECIPE_SELECT)
+        .eq("department_id", departmentId)
+        .eq("is_active", true)
+        .order("is_house_blend", { ascending: false })
+        .order("name");
+      if (error) throw error;
+      return (data || []) as PerfumeRecipe[];
+    },
+    enabled: open && !!departmentId,
+  });
+
+  // Finished goods are counted in units, so ml-tracked products are left out
+  const { data: products = [] } = useQuery({
+    queryKey: ["production-products", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, stock, cost_price, tracking_type")
+        .eq("department_id", departmentId)
+        .eq("is_archived", false)
+        .order("name");
+      if (error) throw error;
+      return (data || []).filter((p) => p.tracking_type !== "ml");
+    },
+    enabled: open && !!departmentId,
+  });
+
+  const { data: scents = [] } = useQuery({
+    queryKey: ["production-scents", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("perfume_scents")
+        .select("id, name, stock_ml, cost_per_ml")
+        .eq("department_id", departmentId)
+        .eq("is_active", true);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open && !!departmentId,
+  });
+
+  const { data: packaging = [] } = useQuery({
+    queryKey: ["packaging-items", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("packaging_items")
+        .select("*")
+        .eq("department_id", departmentId)
+        .order("bottle_size_ml", { ascending: true, nullsFirst: false })
+        .order("name");
+      if (error) throw error;
+      return (data || []) as PackagingItem[];
+    },
+    enabled: open && !!departmentId,
+  });
+
+  const { data: refillSizes = [] } = useQuery({
+    queryKey: ["refill-sizes", departmentId],
+    queryFn: () => fetchRefillSizes(departmentId),
+    enabled: open && !!departmentId,
+  });
+
+  const recipe = recipes.find((r) => r.id === recipeId);
+  const size = Number(sizeMl) || 0;
+  const units = Math.floor(Number(quantity) || 0);
+  const sizes = [...new Set([...refillSizes, ...(recipe?.default_size_ml ? [Number(recipe.default_size_ml)] : [])])].sort(
+    (a, b) => a - b
+  );
+
+  const { inputs, missing } = useMemo(
+    () => buildBatchInputs({ recipe, sizeMl: size, quantity: units, scents, packaging }),
+    [recipe, size, units, scents, packaging]
+  );
+  const cost = getBatchCost(inputs, units);
+  const shortages = inputs.filter((input) => input.quantity > input.available);
+
+  const handleRecipeChange = (id: string) => {
+    setRecipeId(id);
+    const selected = recipes.find((r) => r.id === id);
+    if (selected?.default_size_ml) setSizeMl(String(Number(selected.default_size_ml)));
+  };
+
+  const produceMutation = useMutation({
+    mutationFn: () =>
+      produceBatch(
+        { departmentId, recipe: recipe as PerfumeRecipe, productId, sizeMl: size, quantity: units, notes },
+        inputs
+      ),
+    onSuccess: (batch) => {
+      toast.success(`Batch ${batch.batch_code} produced: ${batch.quantity} × ${batch.product_name}`);
+      queryClient.invalidateQueries({ queryKey: ["production-batches"] });
+      queryClient.invalidateQueries({ queryKey: ["production-products"] });
+      queryClient.invalidateQueries({ queryKey: ["production-scents"] });
+      queryClient.invalidateQueries({ queryKey: ["packaging-items"] });
+      queryClient.invalidateQueries({ queryKey: ["packaging-low-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["scent-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["scents-with-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      onOpenChange(false);
+      onProduced?.(batch);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to produce batch");
+    },
+  });
+
+  const canProduce =
+    !!recipe && !!productId && size > 0 && units > 0 && inputs.length > 0 && missing.length === 0 && shortages.length === 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Factory className="w-5 h-5" />
+            New Production Batch
+          </DialogTitle>
+          <DialogDescription>
+            Pre-fill bottles from a recipe. The oils and packaging come out of stock and the bottles go into the finished product.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Recipe *</Label>
+              <Select value={recipeId} onValueChange={handleRecipeChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select recipe" />
+                </SelectTrigger>
+                <SelectContent>
+                  {recipes.map((r) => (
+                    <SelectItem key={r.id} value={r.id}>
+                      {r.name}
+                      {!r.is_house_blend && r.customers?.name ? ` (${r.customers.name})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Finished Product *</Label>
+              <Select value={productId} onValueChange={setProductId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name} ({p.stock || 0} in stock)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Bottle Size *</Label>
+              <Select value={sizeMl} onValueChange={setSizeMl}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select size" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sizes.map((ml) => (
+                    <SelectItem key={ml} value={String(ml)}>{ml}ml</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Bottles to Fill *</Label>
+              <Input type="number" min={1} step={1} value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+            </div>
+          </div>
+
+          {missing.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>Not stocked in this department: {missing.join(", ")}</AlertDescription>
+            </Alert>
+          )}
+
+          {inputs.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Input</TableHead>
+                  <TableHead className="text-right">Needed</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {inputs.map((input) => {
+                  const unit = input.item_type === "scent" ? "ml" : "";
+                  const short = input.quantity > input.available;
+                  return (
+                    <TableRow key={`${input.item_type}-${input.item_id}`}>
+                      <TableCell>{input.name}</TableCell>
+                      <TableCell className="text-right">{input.quantity.toLocaleString()}{unit}</TableCell>
+                      <TableCell className={`text-right ${short ? "text-destructive font-medium" : ""}`}>
+                        {input.available.toLocaleString()}{unit}
+                      </TableCell>
+                      <TableCell className="text-right">{formatUgx(input.quantity * input.unitCost)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {inputs.length > 0 && (
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div className="rounded-md border p-2">
+                <p className="text-xs text-muted-foreground">Oils</p>
+                <p className="font-medium">{formatUgx(cost.oil)}</p>
+              </div>
+              <div className="rounded-md border p-2">
+                <p className="text-xs text-muted-foreground">Packaging</p>
+                <p className="font-medium">{formatUgx(cost.packaging)}</p>
+              </div>
+              <div className="rounded-md border p-2 bg-primary/5">
+                <p className="text-xs text-muted-foreground">Cost per Bottle</p>
+                <p className="font-medium">{formatUgx(cost.unit)}</p>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => produceMutation.mutate()} disabled={!canProduce || produceMutation.isPending}>
+            {produceMutation.isPending ? "Producing..." : `Produce ${units > 0 ? units : ""} Bottles`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Barcode, Factory, Loader2, Plus, Search } from "lucide-react";
+import { toast } from "sonner";
+import { BATCH_SELECT, ProductionBatch, findBatchIds, getBatchLabelsPath } from "@/utils/productionBatches";
+import { ProductionBatchDialog } from "./ProductionBatchDialog";
+import { BatchTraceDialog } from "./BatchTraceDialog";
+
+interface ProductionManagerProps {
+  departmentId: string;
+}
+
+const formatUgx = (value: number) => `UGX ${Math.round(value).toLocaleString()}`;
+
+export function ProductionManager({ departmentId }: ProductionManagerProps) {
+  const navigate = useNavigate();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [traceIds, setTraceIds] = useState<string[]>([]);
+  const [traceTitle, setTraceTitle] = useState("");
+  const [traceTerm, setTraceTerm] = useState("");
+  const [searching, setSearching] = useState(false);
+
+  const { data: batches = [], isLoading } = useQuery({
+    queryKey: ["production-batches", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("production_batches")
+        .select(BATCH_SELECT)
+        .eq("department_id", departmentId)
+        .order("created_at", { ascending: false })
+        .limit(100);
+      if (error) throw error;
+      return (data || []) as ProductionBatch[];
+    },
+    enabled: !!departmentId,
+  });
+
+  const openTrace = (ids: string[], title: string) => {
+    setTraceTitle(title);
+    setTraceIds(ids);
+  };
+
+  const handleTraceSearch = async () => {
+    if (!traceTerm.trim()) return;
+    try {
+      setSearching(true);
+      const ids = await findBatchIds(traceTerm);
+      if (ids.length === 0) {
+        toast.info("No batch found for that code or receipt");
+        return;
+      }
+      openTrace(ids, `Trace ${traceTerm.trim()}`);
+    } catch (error) {
+      console.error("Batch trace failed:", error);
+      toast.error("Batch trace failed");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleProduced = (batch: ProductionBatch) => {
+    if (confirm(`Print ${batch.quantity} labels for batch ${batch.batch_code}?`)) {
+      navigate(getBatchLabelsPath(batch));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Factory className="w-5 h-5" />
+          Production Batches
+        </CardTitle>
+        <Button onClick={() => setDialogOpen(true)}>
+          <Plus className="w-4 h-4 mr-1" />
+          New Batch
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2.5 w-4 h-4 text-muted-foreground" />
+            <Input
+              className="pl-8"
+              placeholder="Trace a batch code or receipt number..."
+              value={traceTerm}
+              onChange={(e) => setTraceTerm(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleTraceSearch()}
+            />
+          </div>
+          <Button variant="outline" onClick={handleTraceSearch} disabled={searching}>
+            {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : "Trace"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+        ) : batches.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No batches yet. Pre-fill bottles from a recipe to sell them off the shelf.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Batch</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Left / Made</TableHead>
+                <TableHead className="text-right">Cost / Bottle</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map((batch) => (
+                <TableRow key={batch.id}>
+                  <TableCell>
+                    <button
+                      className="font-mono font-medium hover:underline"
+                      onClick={() => openTrace([batch.id], `Batch ${batch.batch_code}`)}
+                    >
+                      {batch.batch_code}
+                    </button>
+                    <p className="text-xs text-muted-foreground">
+                      {batch.created_at && format(new Date(batch.created_at), "dd MMM yyyy")}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    <p>{batch.product_name} · {Number(batch.bottle_size_ml)}ml</p>
+                    {batch.recipe_name && <p className="text-xs text-muted-foreground">{batch.recipe_name}</p>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant={batch.remaining_quantity > 0 ? "secondary" : "outline"}>
+                      {batch.remaining_quantity} / {batch.quantity}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{formatUgx(Number(batch.unit_cost))}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Print labels"
+                      onClick={() => navigate(getBatchLabelsPath(batch))}
+                    >
+                      <Barcode className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ProductionBatchDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        departmentId={departmentId}
+        onProduced={handleProduced}
+      />
+
+      <BatchTraceDialog
+        open={traceIds.length > 0}
+        onOpenChange={(open) => !open && setTraceIds([])}
+        batchIds={traceIds}
+        title={traceTitle}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,259 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { fetchRefillSizes } from "@/utils/packaging";
+import {
+  PerfumeRecipe,
+  RecipeScentInput,
+  getRecipePercent,
+  getRecipeScents,
+  saveRecipe,
+} from "@/utils/perfumeRecipes";
+
+interface RecipeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  departmentId: string;
+  recipe?: PerfumeRecipe | null; // Edit this recipe
+  initialScents?: RecipeScentInput[]; // New recipe from a mix
+  initialCustomerId?: string | null;
+  initialSizeMl?: number | null;
+}
+
+export const RecipeDialog = ({
+  open,
+  onOpenChange,
+  departmentId,
+  recipe,
+  initialScents,
+  initialCustomerId,
+  initialSizeMl,
+}: RecipeDialogProps) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isHouseBlend, setIsHouseBlend] = useState(false);
+  const [customerId, setCustomerId] = useState("");
+  const [defaultSize, setDefaultSize] = useState("none");
+  const [scents, setScents] = useState<RecipeScentInput[]>([]);
+  const [scentToAdd, setScentToAdd] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setName(recipe?.name || "");
+    setDescription(recipe?.description || "");
+    setIsHouseBlend(recipe ? recipe.is_house_blend : !initialCustomerId);
+    setCustomerId(recipe?.customer_id || initialCustomerId || "");
+    const size = recipe ? recipe.default_size_ml : initialSizeMl;
+    setDefaultSize(size ? String(Number(size)) : "none");
+    setScents(recipe ? getRecipeScents(recipe) : initialScents || []);
+    setScentToAdd("");
+    // Only when the dialog opens - the initial values are rebuilt on every parent render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, recipe]);
+
+  const { data: availableScents = [] } = useQuery({
+    queryKey: ["recipe-scents", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("perfume_scents")
+        .select("id, name")
+        .eq("department_id", departmentId)
+        .eq("is_active", true)
+        .order("name");
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open && !!departmentId,
+  });
+
+  const { data: customers = [] } = useQuery({
+    queryKey: ["recipe-customers", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("customers")
+        .select("id, name, phone")
+        .eq("department_id", departmentId)
+        .order("name");
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open && !!departmentId && !isHouseBlend,
+  });
+
+  const { data: refillSizes = [] } = useQuery({
+    queryKey: ["refill-sizes", departmentId],
+    queryFn: () => fetchRefillSizes(departmentId),
+    enabled: open && !!departmentId,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      saveRecipe(
+        {
+          id: recipe?.id,
+          departmentId,
+          customerId: customerId || null,
+          isHouseBlend,
+          name,
+          description,
+          defaultSizeMl: defaultSize === "none" ? null : Number(defaultSize),
+          createdBy: user?.id,
+        },
+        scents
+      ),
+    onSuccess: (saved) => {
+      toast.success(`Recipe "${saved.name}" saved`);
+      queryClient.invalidateQueries({ queryKey: ["perfume-recipes"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save recipe");
+    },
+  });
+
+  const addScent = () => {
+    const scent = availableScents.find((s) => s.id === scentToAdd);
+    if (!scent || scents.some((s) => s.scentId === scent.id)) return;
+    setScents([...scents, { scentId: scent.id, scent: scent.name, ratio: 1 }]);
+    setScentToAdd("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{recipe ? "Edit Recipe" : "New Recipe"}</DialogTitle>
+          <DialogDescription>Ratios are parts - 2 : 1 pours twice as much of the first scent, at any bottle size.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Name *</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Sarah's evening blend" />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch checked={isHouseBlend} onCheckedChange={setIsHouseBlend} />
+            <Label>House blend - offered to every customer</Label>
+          </div>
+
+          {!isHouseBlend && (
+            <div className="space-y-2">
+              <Label>Customer *</Label>
+              <Select value={customerId} onValueChange={setCustomerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose the customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>
+                      {customer.name}
+                      {customer.phone ? ` · ${customer.phone}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Default bottle size</Label>
+            <Select value={defaultSize} onValueChange={setDefaultSize}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No default</SelectItem>
+                {[...new Set([...refillSizes, ...(defaultSize !== "none" ? [Number(defaultSize)] : [])])].map((ml) => (
+                  <SelectItem key={ml} value={String(ml)}>
+                    {ml}ml
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scents *</Label>
+            {scents.map((scent, index) => (
+              <div key={scent.scentId || scent.scent} className="grid grid-cols-12 gap-2 items-center">
+                <span className="col-span-6 text-sm font-medium">
+                  {scent.scent}
+                  {!scent.scentId && <span className="text-xs text-destructive ml-1">(no longer stocked)</span>}
+                </span>
+                <Input
+                  className="col-span-3"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={scent.ratio}
+                  onChange={(e) =>
+                    setScents(scents.map((s, i) => (i === index ? { ...s, ratio: Number(e.target.value) } : s)))
+                  }
+                  aria-label={`${scent.scent} ratio`}
+                />
+                <span className="col-span-2 text-xs text-muted-foreground text-right">
+                  {getRecipePercent(scent.ratio, scents)}%
+                </span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="col-span-1"
+                  onClick={() => setScents(scents.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Select value={scentToAdd} onValueChange={setScentToAdd}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Add a scent" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableScents
+                    .filter((s) => !scents.some((r) => r.scentId === s.id))
+                    .map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Button variant="secondary" onClick={addScent} disabled={!scentToAdd}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea rows={2} value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Recipe"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { BookOpen, Edit, EyeOff, Plus, QrCode } from "lucide-react";
+import { toast } from "sonner";
+import { printRecipeCard } from "@/utils/invoicePrinter";
+import {
+  PerfumeRecipe,
+  RECIPE_SELECT,
+  getRecipePercent,
+  getRecipeQrDataUrl,
+  getRecipeScents,
+} from "@/utils/perfumeRecipes";
+import { RecipeDialog } from "./RecipeDialog";
+
+interface RecipeManagerProps {
+  departmentId: string;
+}
+
+export function RecipeManager({ departmentId }: RecipeManagerProps) {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [editing, setEditing] = useState<PerfumeRecipe | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { data: recipes = [], isLoading } = useQuery({
+    queryKey: ["perfume-recipes", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("perfume_recipes")
+        .select(RECIPE_SELECT)
+        .eq("department_id", departmentId)
+        .eq("is_active", true)
+        .order("is_house_blend", { ascending: false })
+        .order("name");
+      if (error) throw error;
+      return (data || []) as PerfumeRecipe[];
+    },
+    enabled: !!departmentId,
+  });
+
+  const { data: globalSettings } = useQuery({
+    queryKey: ["global-settings"],
+    queryFn: async () => {
+      const { data } = await supabase.from("settings").select("*").is("department_id", null).maybeSingle();
+      return data;
+    },
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: async (recipe: PerfumeRecipe) => {
+      const { error } = await supabase
+        .from("perfume_recipes")
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .eq("id", recipe.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Recipe removed");
+      queryClient.invalidateQueries({ queryKey: ["perfume-recipes"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to remove recipe");
+    },
+  });
+
+  const handlePrint = async (recipe: PerfumeRecipe) => {
+    try {
+      const scents = getRecipeScents(recipe);
+      await printRecipeCard({
+        name: recipe.name,
+        owner: recipe.is_house_blend ? "House blend" : recipe.customers?.name || "Customer blend",
+        description: recipe.description || undefined,
+        defaultSizeMl: recipe.default_size_ml ? Number(recipe.default_size_ml) : undefined,
+        scents: scents.map((s) => ({ name: s.scent, percent: getRecipePercent(s.ratio, scents) })),
+        shareCode: recipe.share_code,
+        qrDataUrl: await getRecipeQrDataUrl(recipe.share_code),
+        businessInfo: {
+          name: globalSettings?.business_name || "Business Name",
+          phone: globalSettings?.business_phone || "",
+        },
+      });
+    } catch (error) {
+      console.error("Error printing recipe card:", error);
+      toast.error("Failed to print recipe card");
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const filtered = term
+    ? recipes.filter(
+        (r) =>
+          r.name.toLowerCase().includes(term) ||
+          r.share_code.toLowerCase().includes(term) ||
+          (r.customers?.name || "").toLowerCase().includes(term)
+      )
+    : recipes;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="w-5 h-5" />
+          Recipes
+        </CardTitle>
+        <div className="flex gap-2">
+          <Input
+            className="w-48"
+            placeholder="Search name, customer, code..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <Button
+            onClick={() => {
+              setEditing(null);
+              setDialogOpen(true);
+            }}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Recipe
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && <p className="text-sm text-muted-foreground text-center py-4">Loading recipes...</p>}
+        {!isLoading && filtered.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">No recipes yet.</p>
+        )}
+        {filtered.map((recipe) => {
+          const scents = getRecipeScents(recipe);
+          return (
+            <div key={recipe.id} className="p-3 rounded-lg border space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium">
+                    {recipe.name}
+                    <span className="text-xs text-muted-foreground font-mono ml-2">{recipe.share_code}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {recipe.is_house_blend ? "House blend" : recipe.customers?.name}
+                    {recipe.default_size_ml ? ` · ${Number(recipe.default_size_ml)}ml` : ""}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button size="sm" variant="outline" onClick={() => handlePrint(recipe)}>
+                    <QrCode className="w-4 h-4 mr-1" />
+                    Print QR
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Edit"
+                    onClick={() => {
+                      setEditing(recipe);
+                      setDialogOpen(true);
+                    }}
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Remove"
+                    onClick={() => {
+                      if (window.confirm(`Remove recipe "${recipe.name}"?`)) deactivateMutation.mutate(recipe);
+                    }}
+                  >
+                    <EyeOff className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {scents.map((s) => (
+                  <Badge key={s.scentId || s.scent} variant={s.scentId ? "secondary" : "destructive"} className="text-xs">
+                    {s.scent} {getRecipePercent(s.ratio, scents)}%
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <RecipeDialog open={dialogOpen} onOpenChange={setDialogOpen} departmentId={departmentId} recipe={editing} />
+    </Card>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import {
+  SCENT_GENDERS,
+  ScentCatalogEntry,
+  ScentGender,
+  parseCatalogList,
+  scentNameGender,
+  scentNameKey,
+} from "@/utils/scentCatalog";
+
+interface ScentCatalogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entry?: ScentCatalogEntry | null; // Edit this entry
+  catalog: ScentCatalogEntry[]; // For the duplicate check
+}
+
+export const ScentCatalogDialog = ({ open, onOpenChange, entry, catalog }: ScentCatalogDialogProps) => {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [brand, setBrand] = useState("");
+  const [gender, setGender] = useState<ScentGender>("unisex");
+  const [oilCode, setOilCode] = useState("");
+  const [topNotes, setTopNotes] = useState("");
+  const [heartNotes, setHeartNotes] = useState("");
+  const [baseNotes, setBaseNotes] = useState("");
+  const [aliases, setAliases] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setName(entry?.name || "");
+    setBrand(entry?.inspired_by_brand || "");
+    setGender((entry?.gender as ScentGender) || "unisex");
+    setOilCode(entry?.supplier_oil_code || "");
+    setTopNotes((entry?.top_notes || []).join(", "));
+    setHeartNotes((entry?.heart_notes || []).join(", "));
+    setBaseNotes((entry?.base_notes || []).join(", "));
+    setAliases((entry?.aliases || []).join(", "));
+  }, [open, entry]);
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    // "(M)" / "MAN" on a new name picks the gender; staff can still change it
+    if (!entry) setGender(scentNameGender(value));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const trimmedName = name.trim().toUpperCase();
+      if (!trimmedName) throw new Error("Scent name cannot be empty");
+
+      const duplicate = catalog.find(
+        (c) => c.id !== entry?.id && c.gender === gender && scentNameKey(c.name) === scentNameKey(trimmedName)
+      );
+      if (duplicate) throw new Error(`Already in the catalog as ${duplicate.name}`);
+
+      const values = {
+        name: trimmedName,
+        inspired_by_brand: brand.trim() || null,
+        gender,
+        supplier_oil_code: oilCode.trim().toUpperCase() || null,
+        top_notes: parseCatalogList(topNotes),
+        heart_notes: parseCatalogList(heartNotes),
+        base_notes: parseCatalogList(baseNotes),
+        aliases: parseCatalogList(aliases).filter((alias) => alias !== trimmedName),
+        updated_at: new Date().toISOString(),
+      };
+
+      const { error } = entry
+        ? await supabase.from("scent_catalog").update(values).eq("id", entry.id)
+        : await supabase.from("scent_catalog").insert(values);
+      if (error) {
+        if (error.code === "23505") throw new Error("Another scent already has this name or oil code");
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success(entry ? "Scent updated" : "Scent added to catalog");
+      queryClient.invalidateQueries({ queryKey: ["scent-catalog"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save scent");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{entry ? `Edit ${entry.name}` : "Add Scent to Catalog"}</DialogTitle>
+          <DialogDescription>
+            The catalog is shared by every department. Stock is still kept per department.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Scent Name *</Label>
+            <Input
+              value={name}
+              onChange={(e) => handleNameChange(e.target.value)}
+              placeholder="e.g. 212 VIP (M)"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Inspired By (Brand)</Label>
+              <Input value={brand} onChange={(e) => setBrand(e.target.value)} placeholder="e.g. Carolina Herrera" />
+            </div>
+            <div className="space-y-2">
+              <Label>Gender</Label>
+              <Select value={gender} onValueChange={(value) => setGender(value as ScentGender)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SCENT_GENDERS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Supplier Oil Code</Label>
+            <Input value={oilCode} onChange={(e) => setOilCode(e.target.value)} placeholder="Code on the supplier's price list" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Note Pyramid</Label>
+            <Input value={topNotes} onChange={(e) => setTopNotes(e.target.value)} placeholder="Top notes, e.g. Bergamot, Pepper" />
+            <Input value={heartNotes} onChange={(e) => setHeartNotes(e.target.value)} placeholder="Heart notes, e.g. Rose, Jasmine" />
+            <Input value={baseNotes} onChange={(e) => setBaseNotes(e.target.value)} placeholder="Base notes, e.g. Amber, Musk" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Aliases & Misspellings</Label>
+            <Input value={aliases} onChange={(e) => setAliases(e.target.value)} placeholder="e.g. 212 VIP MAN, 212 VIP MEN" />
+            <p className="text-xs text-muted-foreground">
+              Comma separated. Sales and searches using any of these find this scent.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!name.trim() || saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -11,9 +12,12 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Search, Droplet, User, Phone, Receipt, History, Loader2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { SCENT_GENDERS, ScentGender, fetchScentCatalog, searchScentCatalog } from "@/utils/scentCatalog";
 
 interface Customer {
   id: string;
@@ -37,6 +41,30 @@ export function ScentLookupDialog({ departmentId, children }: ScentLookupDialogP
   const [loading, setLoading] = useState(false);
   const [loadingHistory, setLoadingHistory] = useState(false);
   const [scentData, setScentData] = useState<any>(null);
+  const [scentQuery, setScentQuery] = useState("");
+
+  const { data: catalog = [] } = useQuery({
+    queryKey: ["scent-catalog"],
+    queryFn: () => fetchScentCatalog(),
+    enabled: open,
+  });
+
+  // What this department stocks of each catalog scent
+  const { data: departmentScents = [] } = useQuery({
+    queryKey: ["scent-lookup-stock", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("perfume_scents")
+        .select("id, catalog_id, stock_ml")
+        .eq("department_id", departmentId)
+        .eq("is_active", true);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open && !!departmentId,
+  });
+
+  const scentMatches = useMemo(() => searchScentCatalog(catalog, scentQuery, 15), [catalog, scentQuery]);
 
   const resetState = () => {
     setSearchTerm("");
@@ -45,6 +73,7 @@ export function ScentLookupDialog({ departmentId, children }: ScentLookupDialogP
     setCustomers([]);
     setSelectedCustomer(null);
     setScentData(null);
+    setScentQuery("");
   };
 
   const searchCustomers = async () => {
@@ -194,168 +223,241 @@ export function ScentLookupDialog({ departmentId, children }: ScentLookupDialogP
             Customer Scent Lookup
           </DialogTitle>
           <DialogDescription>
-            Search for a customer to see their previous scent mixtures
+            Search for a customer to see their previous scent mixtures, or look up a scent by any name
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-4">
-          {/* Search Form */}
-          <div className="grid gap-3">
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-              <div>
-                <Label htmlFor="name" className="text-xs">
-                  <User className="h-3 w-3 inline mr-1" />
-                  Name
-                </Label>
-                <Input
-                  id="name"
-                  placeholder="Customer name..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && searchCustomers()}
-                />
-              </div>
-              <div>
-                <Label htmlFor="phone" className="text-xs">
-                  <Phone className="h-3 w-3 inline mr-1" />
-                  Phone
-                </Label>
-                <Input
-                  id="phone"
-                  placeholder="Phone number..."
-                  value={searchPhone}
-                  onChange={(e) => setSearchPhone(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && searchCustomers()}
-                />
-              </div>
-              <div>
-                <Label htmlFor="receipt" className="text-xs">
-                  <Receipt className="h-3 w-3 inline mr-1" />
-                  Receipt
-                </Label>
-                <Input
-                  id="receipt"
-                  placeholder="Receipt #..."
-                  value={searchReceipt}
-                  onChange={(e) => setSearchReceipt(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && searchCustomers()}
-                />
+        <Tabs defaultValue="customer">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="customer">
+              <User className="h-4 w-4 mr-2" />
+              Customer
+            </TabsTrigger>
+            <TabsTrigger value="scent">
+              <Droplet className="h-4 w-4 mr-2" />
+              Scent
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="customer" className="space-y-4">
+            {/* Search Form */}
+            <div className="grid gap-3">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <Label htmlFor="name" className="text-xs">
+                    <User className="h-3 w-3 inline mr-1" />
+                    Name
+                  </Label>
+                  <Input
+                    id="name"
+                    placeholder="Customer name..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && searchCustomers()}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="phone" className="text-xs">
+                    <Phone className="h-3 w-3 inline mr-1" />
+                    Phone
+                  </Label>
+                  <Input
+                    id="phone"
+                    placeholder="Phone number..."
+                    value={searchPhone}
+                    onChange={(e) => setSearchPhone(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && searchCustomers()}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="receipt" className="text-xs">
+                    <Receipt className="h-3 w-3 inline mr-1" />
+                    Receipt
+                  </Label>
+                  <Input
+                    id="receipt"
+                    placeholder="Receipt #..."
+                    value={searchReceipt}
+                    onChange={(e) => setSearchReceipt(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && searchCustomers()}
+                  />
+                </div>
               </div>
+              <Button onClick={searchCustomers} disabled={loading} className="w-full">
+                {loading ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                ) : (
+                  <Search className="h-4 w-4 mr-2" />
+                )}
+                Search
+              </Button>
             </div>
-            <Button onClick={searchCustomers} disabled={loading} className="w-full">
-              {loading ? (
-                <Loader2 className="h-4 w-4 animate-spin mr-2" />
-              ) : (
-                <Search className="h-4 w-4 mr-2" />
-              )}
-              Search
-            </Button>
-          </div>
-
-          {/* Customer Results */}
-          {customers.length > 1 && (
-            <div className="space-y-2">
-              <Label className="text-sm font-medium">Select Customer:</Label>
-              <div className="grid gap-2 max-h-32 overflow-y-auto">
-                {customers.map((customer) => (
-                  <Button
-                    key={customer.id}
-                    variant={selectedCustomer?.id === customer.id ? "default" : "outline"}
-                    size="sm"
-                    className="justify-start"
-                    onClick={() => handleSelectCustomer(customer)}
-                  >
-                    <User className="h-3 w-3 mr-2" />
-                    {customer.name}
-                    {customer.phone && (
-                      <span className="text-xs ml-2 opacity-70">({customer.phone})</span>
-                    )}
-                  </Button>
-                ))}
+
+            {/* Customer Results */}
+            {customers.length > 1 && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Select Customer:</Label>
+                <div className="grid gap-2 max-h-32 overflow-y-auto">
+                  {customers.map((customer) => (
+                    <Button
+                      key={customer.id}
+                      variant={selectedCustomer?.id === customer.id ? "default" : "outline"}
+                      size="sm"
+                      className="justify-start"
+                      onClick={() => handleSelectCustomer(customer)}
+                    >
+                      <User className="h-3 w-3 mr-2" />
+                      {customer.name}
+                      {customer.phone && (
+                        <span className="text-xs ml-2 opacity-70">({customer.phone})</span>
+                      )}
+                    </Button>
+                  ))}
+                </div>
               </div>
-            </div>
-          )}
+            )}
 
-          {/* Loading History */}
-          {loadingHistory && (
-            <div className="text-center py-6">
-              <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
-              <p className="text-sm text-muted-foreground mt-2">Loading scent history...</p>
-            </div>
-          )}
-
-          {/* Scent History Results */}
-          {scentData && !loadingHistory && selectedCustomer && (
-            <div className="space-y-3">
-              <div className="flex items-center gap-2 pb-2 border-b">
-                <User className="h-4 w-4 text-primary" />
-                <span className="font-medium">{selectedCustomer.name}</span>
-                {selectedCustomer.phone && (
-                  <span className="text-sm text-muted-foreground">• {selectedCustomer.phone}</span>
-                )}
+            {/* Loading History */}
+            {loadingHistory && (
+              <div className="text-center py-6">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+                <p className="text-sm text-muted-foreground mt-2">Loading scent history...</p>
               </div>
+            )}
+
+            {/* Scent History Results */}
+            {scentData && !loadingHistory && selectedCustomer && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 pb-2 border-b">
+                  <User className="h-4 w-4 text-primary" />
+                  <span className="font-medium">{selectedCustomer.name}</span>
+                  {selectedCustomer.phone && (
+                    <span className="text-sm text-muted-foreground">• {selectedCustomer.phone}</span>
+                  )}
+                </div>
 
-              {scentData.purchases.length > 0 ? (
-                <div className="space-y-2">
-                  <Label className="text-sm font-medium text-primary">Previous Scent Mixtures:</Label>
-                  {scentData.purchases.map((purchase: any, index: number) => (
-                    <Card key={purchase.id} className={index === 0 ? "border-primary bg-primary/5" : ""}>
-                      <CardContent className="p-3">
-                        <div className="flex items-start justify-between mb-2">
-                          <div className="flex items-center gap-2">
-                            <Droplet className={`h-4 w-4 ${index === 0 ? "text-primary" : "text-muted-foreground"}`} />
-                            <span className="font-medium text-sm">
-                              {purchase.item_name || purchase.name}
-                            </span>
-                            {index === 0 && (
-                              <span className="text-xs bg-primary text-primary-foreground px-2 py-0.5 rounded">
-                                Latest
+                {scentData.purchases.length > 0 ? (
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium text-primary">Previous Scent Mixtures:</Label>
+                    {scentData.purchases.map((purchase: any, index: number) => (
+                      <Card key={purchase.id} className={index === 0 ? "border-primary bg-primary/5" : ""}>
+                        <CardContent className="p-3">
+                          <div className="flex items-start justify-between mb-2">
+                            <div className="flex items-center gap-2">
+                              <Droplet className={`h-4 w-4 ${index === 0 ? "text-primary" : "text-muted-foreground"}`} />
+                              <span className="font-medium text-sm">
+                                {purchase.item_name || purchase.name}
                               </span>
-                            )}
-                          </div>
-                          <span className="text-xs text-muted-foreground">
-                            {new Date(purchase.sales?.created_at || purchase.created_at).toLocaleDateString()}
-                          </span>
-                        </div>
-                        {purchase.scent_mixture && (
-                          <div className="bg-background rounded p-2 border text-sm">
-                            <span className="font-medium text-primary">Scent:</span>{" "}
-                            {purchase.scent_mixture}
+                              {index === 0 && (
+                                <span className="text-xs bg-primary text-primary-foreground px-2 py-0.5 rounded">
+                                  Latest
+                                </span>
+                              )}
+                            </div>
+                            <span className="text-xs text-muted-foreground">
+                              {new Date(purchase.sales?.created_at || purchase.created_at).toLocaleDateString()}
+                            </span>
                           </div>
-                        )}
-                        <div className="flex gap-4 mt-2 text-xs text-muted-foreground">
-                          {purchase.ml_amount && <span>Amount: {purchase.ml_amount}ml</span>}
-                          {purchase.sales?.receipt_number && (
-                            <span>Receipt: {purchase.sales.receipt_number}</span>
+                          {purchase.scent_mixture && (
+                            <div className="bg-background rounded p-2 border text-sm">
+                              <span className="font-medium text-primary">Scent:</span>{" "}
+                              {purchase.scent_mixture}
+                            </div>
                           )}
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
-              ) : (
-                <div className="text-center py-6 text-muted-foreground">
-                  <Droplet className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                  <p>No previous scent purchases found</p>
-                </div>
-              )}
-
-              {/* Preferences */}
-              {scentData.preferences?.preferred_scents?.length > 0 && (
-                <div className="pt-2 border-t">
-                  <Label className="text-sm font-medium">Preferred Scents:</Label>
-                  <div className="flex flex-wrap gap-1 mt-1">
-                    {scentData.preferences.preferred_scents.map((scent: string, i: number) => (
-                      <span key={i} className="px-2 py-1 bg-primary/10 text-primary rounded text-xs">
-                        {scent}
-                      </span>
+                          <div className="flex gap-4 mt-2 text-xs text-muted-foreground">
+                            {purchase.ml_amount && <span>Amount: {purchase.ml_amount}ml</span>}
+                            {purchase.sales?.receipt_number && (
+                              <span>Receipt: {purchase.sales.receipt_number}</span>
+                            )}
+                          </div>
+                        </CardContent>
+                      </Card>
                     ))}
                   </div>
-                </div>
-              )}
+                ) : (
+                  <div className="text-center py-6 text-muted-foreground">
+                    <Droplet className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                    <p>No previous scent purchases found</p>
+                  </div>
+                )}
+
+                {/* Preferences */}
+                {scentData.preferences?.preferred_scents?.length > 0 && (
+                  <div className="pt-2 border-t">
+                    <Label className="text-sm font-medium">Preferred Scents:</Label>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {scentData.preferences.preferred_scents.map((scent: string, i: number) => (
+                        <span key={i} className="px-2 py-1 bg-primary/10 text-primary rounded text-xs">
+                          {scent}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="scent" className="space-y-3">
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                className="pl-8"
+                placeholder="Name, alias, misspelling or oil code..."
+                value={scentQuery}
+                onChange={(e) => setScentQuery(e.target.value)}
+              />
             </div>
-          )}
-        </div>
+
+            {scentQuery.trim() && scentMatches.length === 0 && (
+              <div className="text-center py-6 text-muted-foreground">
+                <Droplet className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p>No scent in the catalog matches</p>
+              </div>
+            )}
+
+            {scentMatches.map(({ entry, matchedAlias }) => {
+              const stock = departmentScents.find((s) => s.catalog_id === entry.id);
+              const pyramid = [
+                ["Top", entry.top_notes],
+                ["Heart", entry.heart_notes],
+                ["Base", entry.base_notes],
+              ].filter(([, notes]) => notes.length > 0) as [string, string[]][];
+              return (
+                <Card key={entry.id}>
+                  <CardContent className="p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm">{entry.name}</span>
+                      {stock ? (
+                        <Badge variant={(stock.stock_ml || 0) > 0 ? "secondary" : "destructive"}>
+                          {stock.stock_ml || 0}ml in stock
+                        </Badge>
+                      ) : departmentId ? (
+                        <Badge variant="outline">Not stocked</Badge>
+                      ) : null}
+                    </div>
+                    {matchedAlias && (
+                      <p className="text-xs text-muted-foreground">Found as "{matchedAlias}"</p>
+                    )}
+                    <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                      {entry.inspired_by_brand && <span>Inspired by {entry.inspired_by_brand}</span>}
+                      <span>{SCENT_GENDERS[entry.gender as ScentGender] || entry.gender}</span>
+                      {entry.supplier_oil_code && <span>Oil code {entry.supplier_oil_code}</span>}
+                    </div>
+                    {pyramid.map(([label, notes]) => (
+                      <p key={label} className="text-xs">
+                        <span className="font-medium">{label}:</span> {notes.join(", ")}
+                      </p>
+                    ))}
+                    {entry.aliases.length > 0 && (
+                      <p className="text-xs text-muted-foreground">Also called: {entry.aliases.join(", ")}</p>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -3,8 +3,9 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Sparkles, ShoppingCart, Heart, TrendingUp, Droplet, Clock, Star } from "lucide-react";
+import { Sparkles, ShoppingCart, Heart, TrendingUp, Droplet, Clock, Star, BookOpen } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { PerfumeRecipe, RECIPE_SELECT, getRecipePercent, getRecipeScents } from "@/utils/perfumeRecipes";
 
 interface CartItem {
   id: string;
@@ -28,6 +29,7 @@ interface ScentMemoryCardProps {
   customerId: string | null;
   departmentId: string;
   onQuickReorder: (items: CartItem[]) => void;
+  onUseRecipe?: (recipeId: string) => void;
 }
 
 interface ScentStats {
@@ -47,7 +49,24 @@ export function ScentMemoryCard({
   customerId,
   departmentId,
   onQuickReorder,
+  onUseRecipe,
 }: ScentMemoryCardProps) {
+  const { data: recipes = [] } = useQuery({
+    queryKey: ["perfume-recipes", departmentId, "customer", customerId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("perfume_recipes")
+        .select(RECIPE_SELECT)
+        .eq("customer_id", customerId)
+        .eq("department_id", departmentId)
+        .eq("is_active", true)
+        .order("updated_at", { ascending: false });
+      if (error) throw error;
+      return (data || []) as PerfumeRecipe[];
+    },
+    enabled: !!customerId && !!onUseRecipe,
+  });
+
   // Fetch customer's scent purchase history and analyze patterns
   const { data: scentMemory, isLoading } = useQuery({
     queryKey: ["scent-memory", customerId, departmentId],
@@ -188,7 +207,7 @@ export function ScentMemoryCard({
     );
   }
 
-  if (!scentMemory || scentMemory.totalPurchases === 0) {
+  if ((!scentMemory || scentMemory.totalPurchases === 0) && recipes.length === 0) {
     return (
       <Card className="bg-gradient-to-br from-muted/30 to-muted/50 border-dashed">
         <CardContent className="py-6 text-center">
@@ -213,15 +232,55 @@ export function ScentMemoryCard({
           </div>
           <div className="flex items-center gap-2 text-xs text-muted-foreground">
             <Clock className="h-3 w-3" />
-            {scentMemory.lastPurchaseDate && (
+            {scentMemory?.lastPurchaseDate && (
               <span>Last: {formatDistanceToNow(new Date(scentMemory.lastPurchaseDate), { addSuffix: true })}</span>
             )}
           </div>
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* Saved Recipes - one tap loads the exact ratios */}
+        {recipes.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+              <BookOpen className="h-3 w-3 text-primary" />
+              Saved Recipes
+            </div>
+            <div className="space-y-2">
+              {recipes.slice(0, 3).map((recipe) => {
+                const scents = getRecipeScents(recipe);
+                return (
+                  <div
+                    key={recipe.id}
+                    className="flex items-center justify-between p-2 bg-muted/30 rounded-lg hover:bg-muted/50 transition-colors"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-medium truncate">
+                        {recipe.name}
+                        {recipe.default_size_ml ? ` (${Number(recipe.default_size_ml)}ml)` : ""}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {scents.map((s) => `${s.scent} ${getRecipePercent(s.ratio, scents)}%`).join(" + ")}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      className="h-7 text-xs shrink-0"
+                      onClick={() => onUseRecipe?.(recipe.id)}
+                    >
+                      <ShoppingCart className="h-3 w-3 mr-1" />
+                      Pour
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Favorite Scents */}
-        {scentMemory.favoriteScents.length > 0 && (
+        {scentMemory?.favoriteScents.length > 0 && (
           <div className="space-y-2">
             <div className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
               <Heart className="h-3 w-3 text-rose-500" />
@@ -244,7 +303,7 @@ export function ScentMemoryCard({
         )}
 
         {/* Preferred Bottle Sizes */}
-        {scentMemory.preferredSizes.length > 0 && (
+        {scentMemory?.preferredSizes.length > 0 && (
           <div className="space-y-2">
             <div className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
               <TrendingUp className="h-3 w-3 text-emerald-500" />
@@ -269,7 +328,7 @@ export function ScentMemoryCard({
         )}
 
         {/* Quick Reorder - Recent Orders */}
-        {scentMemory.recentOrders.length > 0 && (
+        {scentMemory?.recentOrders.length > 0 && (
           <div className="space-y-2 pt-2 border-t">
             <div className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
               <ShoppingCart className="h-3 w-3 text-blue-500" />
@@ -311,9 +370,9 @@ export function ScentMemoryCard({
 
         {/* Stats Footer */}
         <div className="pt-2 border-t flex items-center justify-center gap-4 text-xs text-muted-foreground">
-          <span>{scentMemory.totalPurchases} perfume orders</span>
+          <span>{scentMemory?.totalPurchases || 0} perfume orders</span>
           <span>•</span>
-          <span>{scentMemory.favoriteScents.length} unique scents</span>
+          <span>{scentMemory?.favoriteScents.length || 0} unique scents</span>
         </div>
       </CardContent>
     </Card>
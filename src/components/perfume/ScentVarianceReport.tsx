@@ -0,0 +1,361 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { AlertTriangle, TrendingDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  RepeatShrinkage,
+  ScentVarianceRow,
+  findRepeatShrinkage,
+  getStockTakeSettings,
+} from "@/utils/scentStockTake";
+
+interface ScentVarianceReportProps {
+  departmentId: string;
+}
+
+const PERIODS = [
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+  { days: 180, label: "Last 6 months" },
+  { days: 365, label: "Last year" },
+];
+
+const trendConfig = {
+  variance_ml: { label: "Variance (ml)", color: "hsl(var(--primary))" },
+  variance_value: { label: "Variance (UGX)", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const scentConfig = {
+  shrinkage_value: { label: "Shrinkage (UGX)", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const formatUgx = (value: number) => `UGX ${Math.round(value).toLocaleString()}`;
+const formatMl = (value: number) => `${value > 0 ? "+" : ""}${(Math.round(value * 10) / 10).toLocaleString()} ml`;
+
+const FlagList = ({ title, flags }: { title: string; flags: RepeatShrinkage[] }) => (
+  <div className="space-y-2">
+    <p className="text-sm font-medium">{title}</p>
+    {flags.length === 0 ? (
+      <p className="text-xs text-muted-foreground">None - no repeated shrinkage over tolerance</p>
+    ) : (
+      flags.map((flag) => (
+        <div key={flag.key} className="flex items-center justify-between text-sm p-2 rounded border border-destructive/30 bg-destructive/5">
+          <span className="font-medium">{flag.name}</span>
+          <span className="text-xs text-muted-foreground">
+            {flag.counts} counts · -{flag.shrinkageMl.toLocaleString()} ml · {formatUgx(flag.shrinkageValue)}
+          </span>
+        </div>
+      ))
+    )}
+  </div>
+);
+
+// How the ledger's stock_ml drifts from what the scale finds, stock-take after stock-take
+export const ScentVarianceReport = ({ departmentId }: ScentVarianceReportProps) => {
+  const [days, setDays] = useState(90);
+  const [scentFilter, setScentFilter] = useState("all");
+  const since = subDays(new Date(), days).toISOString();
+
+  const { data: rows = [], isLoading } = useQuery({
+    queryKey: ["scent-variance-history", departmentId, days],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("scent_variance_history")
+        .select("*")
+        .eq("department_id", departmentId)
+        .gte("created_at", since)
+        .order("created_at");
+      if (error) throw error;
+      return (data || []) as ScentVarianceRow[];
+    },
+    enabled: !!departmentId,
+  });
+
+  const { data: stockTakes = [] } = useQuery({
+    queryKey: ["scent-stock-takes", departmentId, days],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("scent_stock_takes")
+        .select("*")
+        .eq("department_id", departmentId)
+        .gte("created_at", since)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!departmentId,
+  });
+
+  const { data: settingsRows = [] } = useQuery({
+    queryKey: ["stock-take-settings", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("settings")
+        .select("department_id, settings_json")
+        .or(`department_id.eq.${departmentId},department_id.is.null`);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!departmentId,
+  });
+
+  const settings = getStockTakeSettings(
+    settingsRows.find((row) => row.department_id === departmentId) || {},
+    settingsRows.find((row) => row.department_id === null) || {}
+  );
+
+  const scentOptions = [...new Map(rows.map((row) => [row.scent_id || row.scent_name, row.scent_name])).entries()].sort(
+    (a, b) => (a[1] || "").localeCompare(b[1] || "")
+  );
+
+  // One point per stock-take: all scents together, or the chosen scent
+  const trendByTake = new Map<string, { date: string; variance_ml: number; variance_value: number }>();
+  for (const row of rows) {
+    if (scentFilter !== "all" && (row.scent_id || row.scent_name) !== scentFilter) continue;
+    const point = trendByTake.get(row.stock_take_id || "") || {
+      date: format(new Date(row.created_at || ""), "dd MMM HH:mm"),
+      variance_ml: 0,
+      variance_value: 0,
+    };
+    point.variance_ml = Math.round((point.variance_ml + (Number(row.variance_ml) || 0)) * 10) / 10;
+    point.variance_value += Number(row.variance_value) || 0;
+    trendByTake.set(row.stock_take_id || "", point);
+  }
+  const trend = [...trendByTake.values()];
+
+  const byScent = new Map<
+    string,
+    { name: string; counts: number; overTolerance: number; varianceMl: number; varianceValue: number }
+  >();
+  for (const row of rows) {
+    const key = row.scent_id || row.scent_name || "";
+    const entry = byScent.get(key) || { name: row.scent_name || "", counts: 0, overTolerance: 0, varianceMl: 0, varianceValue: 0 };
+    entry.counts += 1;
+    if (row.over_tolerance) entry.overTolerance += 1;
+    entry.varianceMl += Number(row.variance_ml) || 0;
+    entry.varianceValue += Number(row.variance_value) || 0;
+    byScent.set(key, entry);
+  }
+  const scentSummary = [...byScent.values()].sort((a, b) => a.varianceValue - b.varianceValue);
+  const topShrinkage = scentSummary
+    .filter((s) => s.varianceValue < 0)
+    .slice(0, 10)
+    .map((s) => ({ name: s.name, shrinkage_value: -Math.round(s.varianceValue) }));
+
+  const flaggedScents = findRepeatShrinkage(rows, "scent");
+  const flaggedStaff = findRepeatShrinkage(rows, "staff");
+  const netMl = rows.reduce((sum, row) => sum + (Number(row.variance_ml) || 0), 0);
+  const netValue = rows.reduce((sum, row) => sum + (Number(row.variance_value) || 0), 0);
+  const suspendedCount = stockTakes.filter((take) => take.suspended_revenue_id).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <TrendingDown className="w-5 h-5" />
+            Scent Variance
+          </CardTitle>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((period) => (
+                <SelectItem key={period.days} value={String(period.days)}>
+                  {period.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="text-center p-3 bg-muted/50 rounded-lg">
+              <p className="text-2xl font-bold">{stockTakes.length}</p>
+              <p className="text-xs text-muted-foreground">Stock-takes</p>
+            </div>
+            <div className="text-center p-3 bg-muted/50 rounded-lg">
+              <p className={cn("text-2xl font-bold", netMl < 0 && "text-destructive")}>{formatMl(netMl)}</p>
+              <p className="text-xs text-muted-foreground">Net variance</p>
+            </div>
+            <div className="text-center p-3 bg-muted/50 rounded-lg">
+              <p className={cn("text-2xl font-bold", netValue < 0 && "text-destructive")}>{formatUgx(netValue)}</p>
+              <p className="text-xs text-muted-foreground">Net variance value</p>
+            </div>
+            <div className="text-center p-3 bg-destructive/10 rounded-lg">
+              <p className="text-2xl font-bold text-destructive">{suspendedCount}</p>
+              <p className="text-xs text-muted-foreground">Sent to suspended revenue</p>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Shrinkage is over tolerance beyond {settings.varianceTolerancePercent}% of expected stock, and at least{" "}
+            {settings.varianceToleranceMl} ml.
+          </p>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <p className="text-muted-foreground text-center py-8">Loading variance history...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-muted-foreground text-center py-8">No stock-takes in this period</p>
+      ) : (
+        <>
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
+                <CardTitle className="text-base">Variance per stock-take</CardTitle>
+                <Select value={scentFilter} onValueChange={setScentFilter}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All scents</SelectItem>
+                    {scentOptions.map(([key, name]) => (
+                      <SelectItem key={key} value={key || ""}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={trendConfig} className="h-64 w-full">
+                  <LineChart data={trend}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} fontSize={11} />
+                    <YAxis yAxisId="ml" tickLine={false} axisLine={false} fontSize={11} />
+                    <YAxis yAxisId="value" orientation="right" tickLine={false} axisLine={false} fontSize={11} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line yAxisId="ml" dataKey="variance_ml" stroke="var(--color-variance_ml)" strokeWidth={2} dot />
+                    <Line yAxisId="value" dataKey="variance_value" stroke="var(--color-variance_value)" strokeWidth={2} dot />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Biggest shrinkage by scent</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {topShrinkage.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">No shrinkage in this period</p>
+                ) : (
+                  <ChartContainer config={scentConfig} className="h-64 w-full">
+                    <BarChart data={topShrinkage} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" tickLine={false} axisLine={false} fontSize={11} />
+                      <YAxis type="category" dataKey="name" width={100} tickLine={false} axisLine={false} fontSize={11} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="shrinkage_value" fill="var(--color-shrinkage_value)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-destructive" />
+                Repeated shrinkage
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-6 md:grid-cols-2">
+              <FlagList title="Scents" flags={flaggedScents} />
+              <FlagList title="Counted by" flags={flaggedStaff} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">By scent</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Scent</TableHead>
+                    <TableHead className="text-right">Counts</TableHead>
+                    <TableHead className="text-right">Over tolerance</TableHead>
+                    <TableHead className="text-right">Net ml</TableHead>
+                    <TableHead className="text-right">Net UGX</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {scentSummary.map((scent) => (
+                    <TableRow key={scent.name}>
+                      <TableCell className="font-medium">{scent.name}</TableCell>
+                      <TableCell className="text-right">{scent.counts}</TableCell>
+                      <TableCell className="text-right">
+                        {scent.overTolerance > 0 ? <Badge variant="destructive">{scent.overTolerance}</Badge> : 0}
+                      </TableCell>
+                      <TableCell className={cn("text-right", scent.varianceMl < 0 && "text-destructive")}>
+                        {formatMl(scent.varianceMl)}
+                      </TableCell>
+                      <TableCell className={cn("text-right", scent.varianceValue < 0 && "text-destructive")}>
+                        {formatUgx(scent.varianceValue)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Stock-takes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Counted by</TableHead>
+                    <TableHead className="text-right">Scents</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stockTakes.map((take) => (
+                    <TableRow key={take.id}>
+                      <TableCell>
+                        {format(new Date(take.created_at || ""), "dd MMM yyyy HH:mm")}
+                        {take.notes && <span className="block text-xs text-muted-foreground">{take.notes}</span>}
+                      </TableCell>
+                      <TableCell>{take.counted_by_name || "-"}</TableCell>
+                      <TableCell className="text-right">{take.scent_count}</TableCell>
+                      <TableCell className={cn("text-right", take.total_variance_ml < 0 && "text-destructive")}>
+                        {formatMl(Number(take.total_variance_ml))}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatUgx(Number(take.total_variance_value))}
+                        {take.suspended_revenue_id && (
+                          <Badge variant="destructive" className="ml-2 text-xs">
+                            Suspended
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,239 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PasswordInput } from "@/components/ui/password-input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, Lock, Percent } from "lucide-react";
+import {
+  Discount,
+  DiscountSettings,
+  DiscountType,
+  calculateDiscountAmount,
+  getDiscountCap,
+  getDiscountPercent,
+  verifyOverridePin,
+} from "@/utils/discounts";
+
+interface DiscountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  baseAmount: number; // Amount the discount is applied to
+  priorDiscount?: number; // UGX already taken off before baseAmount (line discounts under a cart discount)
+  currentDiscount?: Discount | null;
+  discountSettings: DiscountSettings;
+  role: string;
+  onApply: (discount: Discount | null) => void;
+}
+
+export const DiscountDialog = ({
+  open,
+  onOpenChange,
+  title,
+  baseAmount,
+  priorDiscount = 0,
+  currentDiscount,
+  discountSettings,
+  role,
+  onApply,
+}: DiscountDialogProps) => {
+  const [type, setType] = useState<DiscountType>("percentage");
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+  const [overridePin, setOverridePin] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setType(currentDiscount?.type || "percentage");
+      setValue(currentDiscount?.value ? String(currentDiscount.value) : "");
+      setReason(currentDiscount?.reason || "");
+      setOverridePin("");
+    }
+  }, [open, currentDiscount]);
+
+  const draft: Discount = { type, value: Number(value) || 0, reason };
+  const discountAmount = calculateDiscountAmount(baseAmount, draft);
+  const discountPercent = getDiscountPercent(baseAmount, draft);
+  // The cap covers everything taken off the sale, so a cart discount counts the line discounts too
+  const capPercent = priorDiscount > 0
+    ? ((priorDiscount + discountAmount) / (baseAmount + priorDiscount)) * 100
+    : discountPercent;
+  const cap = getDiscountCap(role, discountSettings);
+  const needsOverride = capPercent > cap;
+
+  const handleApply = async () => {
+    if (!draft.value || draft.value <= 0) {
+      toast.error("Enter a discount amount");
+      return;
+    }
+    if (type === "percentage" && draft.value > 100) {
+      toast.error("Percentage cannot exceed 100%");
+      return;
+    }
+    if (type === "fixed" && draft.value > baseAmount) {
+      toast.error("Discount cannot exceed the amount");
+      return;
+    }
+    if (!reason) {
+      toast.error("Select a reason for the discount");
+      return;
+    }
+
+    if (!needsOverride) {
+      onApply(draft);
+      onOpenChange(false);
+      return;
+    }
+
+    if (!overridePin.trim()) {
+      toast.error("Manager PIN required for this discount");
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const approver = await verifyOverridePin(overridePin.trim());
+      if (!approver) {
+        toast.error("Incorrect manager PIN");
+        setOverridePin("");
+        return;
+      }
+
+      if (capPercent > getDiscountCap(approver.role, discountSettings)) {
+        toast.error(`${approver.fullName} cannot approve more than ${discountSettings.caps.manager}%`);
+        return;
+      }
+
+      toast.success(`Discount approved by ${approver.fullName}`);
+      onApply({ ...draft, approvedBy: approver.userId, approvedByName: approver.fullName, approvedByRole: approver.role });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to verify PIN");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleRemove = () => {
+    onApply(null);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Percent className="w-5 h-5" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>
+            Amount before discount: UGX {baseAmount.toLocaleString()}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(v) => setType(v as DiscountType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">Percentage (%)</SelectItem>
+                  <SelectItem value="fixed">Fixed (UGX)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{type === "percentage" ? "Percent" : "Amount (UGX)"}</Label>
+              <Input
+                type="number"
+                min="0"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={type === "percentage" ? "e.g., 10" : "e.g., 2000"}
+                autoFocus
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {discountSettings.reasons.map((r) => (
+                  <SelectItem key={r} value={r}>{r}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="bg-muted/50 p-3 rounded-lg text-sm space-y-1">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Discount</span>
+              <span className="font-medium">-UGX {discountAmount.toLocaleString()} ({discountPercent.toFixed(1)}%)</span>
+            </div>
+            <div className="flex justify-between font-bold">
+              <span>After discount</span>
+              <span>UGX {(baseAmount - discountAmount).toLocaleString()}</span>
+            </div>
+            {priorDiscount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                With item discounts: {capPercent.toFixed(1)}% off the sale
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">Your limit: {cap}% without approval</p>
+          </div>
+
+          {needsOverride && (
+            <div className="space-y-2 border border-orange-500/30 bg-orange-500/10 p-3 rounded-lg">
+              <Label className="flex items-center gap-2">
+                <Lock className="w-4 h-4" />
+                Manager PIN required
+              </Label>
+              <PasswordInput
+                placeholder="Enter manager PIN"
+                value={overridePin}
+                onChange={(e) => setOverridePin(e.target.value)}
+                disabled={isVerifying}
+              />
+              <p className="text-xs text-muted-foreground">
+                This discount exceeds your {cap}% limit
+              </p>
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            {currentDiscount && (
+              <Button variant="outline" onClick={handleRemove} disabled={isVerifying}>
+                Remove
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isVerifying} className="flex-1">
+              Cancel
+            </Button>
+            <Button onClick={handleApply} disabled={isVerifying} className="flex-1">
+              {isVerifying ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                "Apply Discount"
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
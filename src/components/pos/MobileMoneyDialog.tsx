@@ -1,13 +1,19 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Loader2, CheckCircle, AlertCircle } from "lucide-react";
+import {
+  SIMULATED_CHECK_INTERVAL_MS,
+  STATUS_CHECK_INTERVAL_MS,
+  checkMobilePayments,
+  fetchMobileMoneyPayment,
+} from "@/utils/mobileMoneyPayments";
 
 interface MobileMoneyDialogProps {
   open: boolean;
@@ -15,6 +21,9 @@ interface MobileMoneyDialogProps {
   amount: number;
   departmentId: string;
   saleId: string | null;
+  salePaymentId?: string | null; // sale_payments row for this tender, updated with the provider reference
+  initialPhone?: string;
+  initialProvider?: "mtn" | "airtel";
   onSuccess: () => void;
 }
 
@@ -24,12 +33,24 @@ export const MobileMoneyDialog = ({
   amount,
   departmentId,
   saleId,
+  salePaymentId,
+  initialPhone,
+  initialProvider,
   onSuccess,
 }: MobileMoneyDialogProps) => {
   const [phoneNumber, setPhoneNumber] = useState("");
   const [provider, setProvider] = useState<"mtn" | "airtel">("mtn");
-  const [paymentStatus, setPaymentStatus] = useState<"idle" | "processing" | "success" | "error">("idle");
+  const [paymentStatus, setPaymentStatus] = useState<"idle" | "processing" | "waiting" | "success" | "error">("idle");
   const [statusMessage, setStatusMessage] = useState("");
+  const [paymentId, setPaymentId] = useState<string | null>(null);
+  const [simulated, setSimulated] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      if (initialPhone) setPhoneNumber(initialPhone);
+      if (initialProvider) setProvider(initialProvider);
+    }
+  }, [open, initialPhone, initialProvider]);
 
   const processMobilePaymentMutation = useMutation({
     mutationFn: async () => {
@@ -50,6 +71,7 @@ export const MobileMoneyDialog = ({
           provider,
           amount,
           saleId,
+          salePaymentId,
           departmentId,
         },
       });
@@ -57,24 +79,35 @@ export const MobileMoneyDialog = ({
       if (error) {
         throw error;
       }
+      if (!data?.success) {
+        throw new Error(data?.message || "The provider refused the payment request");
+      }
+
+      // The provider reference is filled in when the collection is confirmed
+      if (salePaymentId) {
+        await supabase
+          .from("sale_payments")
+          .update({
+            phone_number: phoneNumber.trim(),
+            provider,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", salePaymentId);
+      }
 
       return data;
     },
     onSuccess: (data) => {
-      setPaymentStatus("success");
-      setStatusMessage("Payment initiated! Customer will receive USSD prompt.");
-      toast.success("Mobile money payment initiated successfully");
-
-      // Auto-close after 3 seconds
-      setTimeout(() => {
-        onOpenChange(false);
-        onSuccess();
-        setPhoneNumber("");
-        setPaymentStatus("idle");
-        setStatusMessage("");
-      }, 3000);
+      setPaymentId(data.paymentId);
+      setSimulated(!!data.simulated);
+      setPaymentStatus("waiting");
+      setStatusMessage(
+        data.simulated
+          ? "Practice payment: no prompt is sent and no money moves. Settling shortly..."
+          : "Waiting for the customer to approve the prompt on their phone..."
+      );
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       setPaymentStatus("error");
       const errorMessage = error.message || "Failed to process payment";
       setStatusMessage(errorMessage);
@@ -82,16 +115,65 @@ export const MobileMoneyDialog = ({
     },
   });
 
+  const finish = () => {
+    onOpenChange(false);
+    onSuccess();
+    setPhoneNumber("");
+    setPaymentStatus("idle");
+    setStatusMessage("");
+    setPaymentId(null);
+    setSimulated(false);
+  };
+
+  // The callback settles the payment; watch the row and ask the provider ourselves if it's slow
+  const { data: payment } = useQuery({
+    queryKey: ["mobile-money-payment", paymentId],
+    queryFn: () => fetchMobileMoneyPayment(paymentId!),
+    enabled: !!paymentId && paymentStatus === "waiting",
+    refetchInterval: 3000,
+  });
+
+  useEffect(() => {
+    if (!paymentId || paymentStatus !== "waiting") return;
+    const timer = setInterval(() => {
+      checkMobilePayments({ paymentId }).catch((error) => console.error("Status check failed:", error));
+    }, simulated ? SIMULATED_CHECK_INTERVAL_MS : STATUS_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [paymentId, paymentStatus, simulated]);
+
+  useEffect(() => {
+    if (paymentStatus !== "waiting" || !payment) return;
+    if (payment.status === "completed") {
+      setPaymentStatus("success");
+      setStatusMessage(`Payment received${payment.transaction_id ? ` (ID ${payment.transaction_id})` : ""}`);
+      toast.success("Mobile money payment received");
+    } else if (payment.status === "failed") {
+      setPaymentStatus("error");
+      setStatusMessage(payment.status_message || "The payment was not completed");
+      setPaymentId(null);
+      toast.error("Mobile money payment failed");
+    }
+  }, [payment, paymentStatus]);
+
+  useEffect(() => {
+    if (paymentStatus !== "success") return;
+    const timer = setTimeout(finish, 2000);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [paymentStatus]);
+
   const handleSubmit = () => {
     processMobilePaymentMutation.mutate();
   };
 
   const handleClose = () => {
-    if (paymentStatus !== "processing") {
+    if (paymentStatus !== "processing" && paymentStatus !== "waiting") {
       onOpenChange(false);
       setPhoneNumber("");
       setPaymentStatus("idle");
       setStatusMessage("");
+      setPaymentId(null);
+      setSimulated(false);
     }
   };
 
@@ -117,7 +199,7 @@ export const MobileMoneyDialog = ({
           <div className="space-y-2">
             <Label htmlFor="provider">Payment Provider</Label>
             <Select value={provider} onValueChange={(value) => setProvider(value as "mtn" | "airtel")}>
-              <SelectTrigger id="provider" disabled={paymentStatus === "processing"}>
+              <SelectTrigger id="provider" disabled={paymentStatus === "processing" || paymentStatus === "waiting"}>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
@@ -135,7 +217,7 @@ export const MobileMoneyDialog = ({
               placeholder="e.g., 0241234567"
               value={phoneNumber}
               onChange={(e) => setPhoneNumber(e.target.value)}
-              disabled={paymentStatus === "processing"}
+              disabled={paymentStatus === "processing" || paymentStatus === "waiting"}
               type="tel"
             />
             <p className="text-xs text-muted-foreground">
@@ -176,30 +258,43 @@ export const MobileMoneyDialog = ({
           )}
 
           {/* Action Buttons */}
-          <div className="flex gap-2 pt-4">
-            <Button
-              variant="outline"
-              onClick={handleClose}
-              disabled={paymentStatus === "processing"}
-              className="flex-1"
-            >
-              Cancel
-            </Button>
-            <Button
-              onClick={handleSubmit}
-              disabled={paymentStatus === "processing" || !phoneNumber.trim()}
-              className="flex-1"
-            >
-              {paymentStatus === "processing" ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Processing...
-                </>
-              ) : (
-                "Send Payment Request"
-              )}
-            </Button>
-          </div>
+          {paymentStatus === "waiting" ? (
+            <div className="space-y-2 pt-4">
+              <Button variant="outline" onClick={finish} className="w-full">
+                Continue Without Waiting
+              </Button>
+              <p className="text-xs text-muted-foreground text-center">
+                The payment stays pending and is updated when the provider confirms it
+              </p>
+            </div>
+          ) : (
+            <div className="flex gap-2 pt-4">
+              <Button
+                variant="outline"
+                onClick={handleClose}
+                disabled={paymentStatus === "processing"}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSubmit}
+                disabled={paymentStatus === "processing" || paymentStatus === "success" || !phoneNumber.trim()}
+                className="flex-1"
+              >
+                {paymentStatus === "processing" ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Processing...
+                  </>
+                ) : paymentStatus === "error" ? (
+                  "Try Again"
+                ) : (
+                  "Send Payment Request"
+                )}
+              </Button>
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
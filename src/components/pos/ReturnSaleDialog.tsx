@@ -0,0 +1,347 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Gift, Loader2, Printer, Undo2 } from "lucide-react";
+import {
+  REFUND_METHOD_LABELS,
+  RefundMethod,
+  ReturnDisposition,
+  ReturnLine,
+  ReturnableSale,
+  calculateLineRefund,
+  fetchReturnableItems,
+  processSaleReturn,
+} from "@/utils/saleReturns";
+import { CreditNoteData, printCreditNote } from "@/utils/creditNotePrinter";
+import { GiftVoucher, getVoucherExpiry, getVoucherSettings } from "@/utils/giftVouchers";
+import { printGiftVoucher } from "@/utils/voucherPrinter";
+
+interface ReturnSaleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sale: ReturnableSale | null; // Sale with sale_items
+}
+
+export const ReturnSaleDialog = ({ open, onOpenChange, sale }: ReturnSaleDialogProps) => {
+  const queryClient = useQueryClient();
+  const [lines, setLines] = useState<Record<string, ReturnLine>>({});
+  const [reason, setReason] = useState("");
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>("cash");
+  const [refundReference, setRefundReference] = useState("");
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [creditNote, setCreditNote] = useState<CreditNoteData | null>(null);
+  const [refundVoucher, setRefundVoucher] = useState<GiftVoucher | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setLines({});
+      setReason("");
+      setRefundMethod("cash");
+      setRefundReference("");
+      setCustomerId(sale?.customer_id || null);
+      setCreditNote(null);
+      setRefundVoucher(null);
+    }
+  }, [open, sale]);
+
+  const { data: returnables = [], isLoading } = useQuery({
+    queryKey: ["returnable-items", sale?.id],
+    queryFn: () => fetchReturnableItems(sale),
+    enabled: open && !!sale?.id,
+  });
+
+  const { data: customers = [] } = useQuery({
+    queryKey: ["return-customers", sale?.department_id],
+    queryFn: async () => {
+      const { data } = await supabase
+        .from("customers")
+        .select("id, name, phone")
+        .eq("department_id", sale.department_id)
+        .order("name");
+      return data || [];
+    },
+    enabled: open && !!sale?.department_id,
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ["credit-note-settings", sale?.department_id],
+    queryFn: async () => {
+      const { data: deptSettings } = await supabase
+        .from("settings")
+        .select("*")
+        .eq("department_id", sale.department_id)
+        .maybeSingle();
+      if (deptSettings) return deptSettings;
+      const { data: globalSettings } = await supabase
+        .from("settings")
+        .select("*")
+        .is("department_id", null)
+        .maybeSingle();
+      return globalSettings;
+    },
+    enabled: open && !!sale?.department_id,
+  });
+
+  const setLine = (saleItemId: string, changes: Partial<ReturnLine>) => {
+    setLines((prev) => ({
+      ...prev,
+      [saleItemId]: { saleItemId, quantity: 0, disposition: "restock", ...prev[saleItemId], ...changes },
+    }));
+  };
+
+  const refundTotal = returnables.reduce(
+    (sum, r) => sum + calculateLineRefund(r, lines[r.item.id]?.quantity || 0),
+    0
+  );
+
+  const returnMutation = useMutation({
+    mutationFn: async () => {
+      if (!reason.trim()) throw new Error("Please provide a reason for the return");
+
+      return processSaleReturn({
+        sale,
+        returnables,
+        lines: Object.values(lines),
+        reason: reason.trim(),
+        refundMethod,
+        refundReference,
+        customerId,
+        voucherExpiresAt: getVoucherExpiry(getVoucherSettings(settings)),
+      });
+    },
+    onSuccess: (result) => {
+      const customer = customers.find((c) => c.id === result.saleReturn.customer_id);
+      setRefundVoucher(result.voucher);
+      setCreditNote({
+        creditNoteNumber: result.saleReturn.credit_note_number,
+        receiptNumber: sale.receipt_number,
+        date: new Date(result.saleReturn.created_at).toLocaleString(),
+        reason: result.saleReturn.reason,
+        refundMethod,
+        refundReference: result.saleReturn.refund_reference,
+        customerName: customer?.name,
+        cashierName: sale.cashier_name,
+        items: result.lines,
+        total: result.refundAmount,
+        businessInfo: {
+          name: settings?.business_name || "Business Name",
+          address: settings?.business_address || "",
+          phone: settings?.business_phone || "",
+          logo: settings?.logo_url || "",
+        },
+      });
+
+      toast.success(`Return recorded. Refund UGX ${result.refundAmount.toLocaleString()}`);
+      queryClient.invalidateQueries({ queryKey: ["returnable-items", sale.id] });
+      queryClient.invalidateQueries({ queryKey: ["sales"] });
+      queryClient.invalidateQueries({ queryKey: ["sales-history"] });
+      queryClient.invalidateQueries({ queryKey: ["perfume-sales-history"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["perfume-scents"] });
+      queryClient.invalidateQueries({ queryKey: ["gift-vouchers"] });
+      queryClient.invalidateQueries({ queryKey: ["loyalty-transactions"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to record return");
+    },
+  });
+
+  const needsCustomer = refundMethod === "store_credit" || refundMethod === "credit";
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !returnMutation.isPending && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Undo2 className="w-5 h-5" />
+            Return Items - {sale?.receipt_number}
+          </DialogTitle>
+          <DialogDescription>
+            Choose the items and quantities coming back. Restocked items go back into inventory; written-off items don't.
+          </DialogDescription>
+        </DialogHeader>
+
+        {creditNote ? (
+          <div className="space-y-4 text-center py-4">
+            <p className="font-medium">Credit note {creditNote.creditNoteNumber}</p>
+            <p className="text-2xl font-bold text-primary">UGX {creditNote.total.toLocaleString()}</p>
+            <p className="text-sm text-muted-foreground">Refunded as {REFUND_METHOD_LABELS[creditNote.refundMethod]}</p>
+            <div className="flex gap-2 justify-center">
+              <Button onClick={() => printCreditNote(creditNote)}>
+                <Printer className="w-4 h-4 mr-2" />
+                Print Credit Note
+              </Button>
+              {refundVoucher && (
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    printGiftVoucher({
+                      code: refundVoucher.code,
+                      value: Number(refundVoucher.balance),
+                      expiresAt: refundVoucher.expires_at,
+                      issuedAt: creditNote.date,
+                      businessInfo: creditNote.businessInfo,
+                    })
+                  }
+                >
+                  <Gift className="w-4 h-4 mr-2" />
+                  Print Voucher
+                </Button>
+              )}
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Done
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {isLoading ? (
+              <div className="flex justify-center p-4">
+                <Loader2 className="w-6 h-6 animate-spin" />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {returnables.map((r) => {
+                  const line = lines[r.item.id];
+                  return (
+                    <div key={r.item.id} className="border rounded-lg p-3 space-y-2">
+                      <div className="flex justify-between gap-2">
+                        <div>
+                          <p className="font-medium">{r.item.item_name || r.item.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Sold {r.soldQuantity} {r.unit}
+                            {r.returnedQuantity > 0 && ` • ${r.returnedQuantity} ${r.unit} already returned`}
+                            {" • "}Paid UGX {Math.round(r.paidAmount).toLocaleString()}
+                          </p>
+                        </div>
+                        <p className="text-sm font-medium whitespace-nowrap">
+                          UGX {calculateLineRefund(r, line?.quantity || 0).toLocaleString()}
+                        </p>
+                      </div>
+                      {r.remainingQuantity > 0 ? (
+                        <div className="grid grid-cols-2 gap-2">
+                          <div className="flex items-center gap-2">
+                            <Input
+                              type="number"
+                              min="0"
+                              max={r.remainingQuantity}
+                              value={line?.quantity || ""}
+                              onChange={(e) =>
+                                setLine(r.item.id, {
+                                  quantity: Math.min(r.remainingQuantity, Math.max(0, Number(e.target.value) || 0)),
+                                })
+                              }
+                              placeholder={`0 - ${r.remainingQuantity}`}
+                            />
+                            <span className="text-sm text-muted-foreground">{r.unit}</span>
+                          </div>
+                          <Select
+                            value={line?.disposition || "restock"}
+                            onValueChange={(value) => setLine(r.item.id, { disposition: value as ReturnDisposition })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="restock">Restock</SelectItem>
+                              <SelectItem value="write_off">Write off (damaged)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">Fully returned</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Refund As</Label>
+                <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as RefundMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(REFUND_METHOD_LABELS) as RefundMethod[]).map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {REFUND_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {(refundMethod === "card" || refundMethod === "mobile_money") && (
+                <div className="space-y-2">
+                  <Label>Refund Reference</Label>
+                  <Input
+                    value={refundReference}
+                    onChange={(e) => setRefundReference(e.target.value)}
+                    placeholder="Transaction ID"
+                  />
+                </div>
+              )}
+              {needsCustomer && (
+                <div className="space-y-2">
+                  <Label>Customer</Label>
+                  <Select value={customerId || ""} onValueChange={setCustomerId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select customer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {customers.map((customer) => (
+                        <SelectItem key={customer.id} value={customer.id}>
+                          {customer.name}
+                          {customer.phone ? ` - ${customer.phone}` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="return-reason">Reason *</Label>
+              <Textarea
+                id="return-reason"
+                placeholder="e.g., Wrong size, Customer changed mind, Faulty item"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-between text-lg font-bold border-t pt-3">
+              <span>Refund:</span>
+              <span>UGX {refundTotal.toLocaleString()}</span>
+            </div>
+          </div>
+        )}
+
+        {!creditNote && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={returnMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => returnMutation.mutate()}
+              disabled={returnMutation.isPending || refundTotal <= 0 || (needsCustomer && !customerId)}
+            >
+              {returnMutation.isPending ? "Processing..." : "Record Return"}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
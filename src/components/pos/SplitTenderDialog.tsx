@@ -0,0 +1,449 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Banknote, CreditCard, Gift, Loader2, Search, Smartphone, Star, Trash2, UserCheck, Wallet } from "lucide-react";
+import {
+  Tender,
+  TenderMethod,
+  TENDER_METHOD_LABELS,
+  createTender,
+  summarizeTenders,
+  validateTenders,
+} from "@/utils/payments";
+import { LoyaltySettings, getPointsForAmount, getPunchesRequired } from "@/utils/loyalty";
+import { GiftVoucher, fetchGiftVoucher, getVoucherTenderError, normalizeVoucherCode } from "@/utils/giftVouchers";
+
+interface SplitTenderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  total: number;
+  departmentId: string | null;
+  customerId?: string | null;
+  isProcessing?: boolean;
+  freeRefillValue?: number; // Price of the dearest refill in the cart, which a full punch-card covers
+  onConfirm: (tenders: Tender[]) => void;
+}
+
+const METHOD_ICONS: Record<TenderMethod, typeof Banknote> = {
+  cash: Banknote,
+  card: CreditCard,
+  mobile_money: Smartphone,
+  credit: UserCheck,
+  loyalty: Star,
+  voucher: Gift,
+  store_credit: Wallet,
+};
+
+export const SplitTenderDialog = ({
+  open,
+  onOpenChange,
+  total,
+  departmentId,
+  customerId,
+  isProcessing,
+  freeRefillValue = 0,
+  onConfirm,
+}: SplitTenderDialogProps) => {
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  // Vouchers looked up in this dialog, by code; null when the code doesn't exist
+  const [vouchers, setVouchers] = useState<Record<string, GiftVoucher | null>>({});
+  const [lookingUp, setLookingUp] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setTenders([]);
+    setVouchers({});
+  }, [open]);
+
+  const { data: customers = [] } = useQuery({
+    queryKey: ["tender-customers", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("customers")
+        .select("id, name, phone, outstanding_balance, credit_limit, loyalty_points, refill_punches, store_credit_balance")
+        .eq("department_id", departmentId)
+        .order("name");
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open && !!departmentId,
+  });
+
+  const { data: loyaltySettings } = useQuery({
+    queryKey: ["loyalty-settings", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_loyalty_settings", { _department_id: departmentId });
+      if (error) throw error;
+      return data as unknown as LoyaltySettings;
+    },
+    enabled: open && !!departmentId,
+  });
+
+  const summary = summarizeTenders(tenders, total);
+  const methods = (Object.keys(TENDER_METHOD_LABELS) as TenderMethod[]).filter(
+    (method) => method !== "loyalty" || loyaltySettings?.enabled
+  );
+
+  const getRedeemableValue = (id: string | null | undefined) => {
+    const customer = customers.find((c) => c.id === id);
+    return customer && loyaltySettings ? customer.loyalty_points * loyaltySettings.pointValue : 0;
+  };
+
+  const getStoreCredit = (id: string | null | undefined) =>
+    Number(customers.find((c) => c.id === id)?.store_credit_balance || 0);
+
+  const addTender = (method: TenderMethod) => {
+    const amount =
+      method === "loyalty"
+        ? Math.min(summary.remaining, getRedeemableValue(customerId))
+        : method === "store_credit"
+          ? Math.min(summary.remaining, getStoreCredit(customerId))
+          : method === "voucher"
+            ? 0 // Filled in from the balance once the code is checked
+            : summary.remaining;
+    setTenders((prev) => [
+      ...prev,
+      {
+        ...createTender(method, amount),
+        customerId: method === "credit" || method === "loyalty" || method === "store_credit" ? customerId || null : undefined,
+        loyaltyReward: method === "loyalty" ? "points" : undefined,
+      },
+    ]);
+  };
+
+  const updateTender = (id: string, changes: Partial<Tender>) => {
+    setTenders((prev) => prev.map((t) => (t.id === id ? { ...t, ...changes } : t)));
+  };
+
+  const removeTender = (id: string) => {
+    setTenders((prev) => prev.filter((t) => t.id !== id));
+  };
+
+  const getCreditWarning = (tender: Tender) => {
+    const customer = customers.find((c) => c.id === tender.customerId);
+    if (!customer?.credit_limit) return null;
+    const balanceAfter = Number(customer.outstanding_balance || 0) + (Number(tender.amount) || 0);
+    return balanceAfter > Number(customer.credit_limit)
+      ? `Exceeds credit limit of UGX ${Number(customer.credit_limit).toLocaleString()}`
+      : null;
+  };
+
+  const canRedeemFreeRefill = (tender: Tender) => {
+    const customer = customers.find((c) => c.id === tender.customerId);
+    const required = loyaltySettings ? getPunchesRequired(loyaltySettings) : 0;
+    return !!customer && freeRefillValue > 0 && required > 0 && customer.refill_punches >= required;
+  };
+
+  const getLoyaltyInfo = (tender: Tender) => {
+    const customer = customers.find((c) => c.id === tender.customerId);
+    if (!customer || !loyaltySettings) return null;
+    if (tender.loyaltyReward === "free_refill") {
+      return { text: `Uses ${getPunchesRequired(loyaltySettings)} refill punches`, warning: null };
+    }
+    const points = getPointsForAmount(Number(tender.amount) || 0, loyaltySettings.pointValue);
+    const warning =
+      points > customer.loyalty_points
+        ? `Only ${customer.loyalty_points} points (UGX ${getRedeemableValue(customer.id).toLocaleString()})`
+        : points > 0 && points < loyaltySettings.minRedeemPoints
+          ? `At least ${loyaltySettings.minRedeemPoints} points must be redeemed`
+          : null;
+    return { text: `Uses ${points} of ${customer.loyalty_points} points`, warning };
+  };
+
+  const lookupVoucher = async (tender: Tender) => {
+    const code = normalizeVoucherCode(tender.reference);
+    if (!code) return;
+    setLookingUp(tender.id);
+    try {
+      const voucher = await fetchGiftVoucher(code);
+      setVouchers((prev) => ({ ...prev, [code]: voucher }));
+      if (voucher && !getVoucherTenderError(voucher, 0, departmentId)) {
+        const owed = summary.remaining + (Number(tender.amount) || 0);
+        updateTender(tender.id, { reference: code, amount: Math.min(owed, Number(voucher.balance)) });
+      }
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to check the voucher");
+    } finally {
+      setLookingUp(null);
+    }
+  };
+
+  const getVoucherInfo = (tender: Tender) => {
+    const code = normalizeVoucherCode(tender.reference);
+    if (!code || !(code in vouchers)) return null;
+    const voucher = vouchers[code];
+    const warning = getVoucherTenderError(voucher, Number(tender.amount) || 0, departmentId);
+    return { text: `UGX ${Number(voucher?.balance || 0).toLocaleString()} on voucher`, warning };
+  };
+
+  const handleConfirm = () => {
+    const error = validateTenders(tenders, total);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    for (const tender of tenders.filter((t) => t.method === "voucher")) {
+      const code = normalizeVoucherCode(tender.reference);
+      if (!(code in vouchers)) {
+        toast.error(`Check voucher ${code} before completing the sale`);
+        return;
+      }
+      const voucherError = getVoucherTenderError(vouchers[code], Number(tender.amount), departmentId);
+      if (voucherError) {
+        toast.error(`${code}: ${voucherError}`);
+        return;
+      }
+    }
+    const overdrawn = tenders.find((t) => t.method === "store_credit" && Number(t.amount) > getStoreCredit(t.customerId));
+    if (overdrawn) {
+      toast.error(`Only UGX ${getStoreCredit(overdrawn.customerId).toLocaleString()} of store credit left`);
+      return;
+    }
+    onConfirm(tenders);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isProcessing && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Split Payment</DialogTitle>
+          <DialogDescription>
+            Take the total across cash, mobile money, card, customer credit, loyalty rewards, gift vouchers and store credit
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="bg-primary/10 p-4 rounded-lg border border-primary/20">
+            <p className="text-sm text-muted-foreground">Amount to Pay</p>
+            <p className="text-2xl font-bold text-primary">UGX {total.toLocaleString()}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {methods.map((method) => {
+              const Icon = METHOD_ICONS[method];
+              return (
+                <Button key={method} type="button" variant="outline" size="sm" onClick={() => addTender(method)}>
+                  <Icon className="w-4 h-4 mr-2" />
+                  {TENDER_METHOD_LABELS[method]}
+                </Button>
+              );
+            })}
+          </div>
+
+          {tenders.map((tender) => {
+            const Icon = METHOD_ICONS[tender.method];
+            const creditWarning = tender.method === "credit" ? getCreditWarning(tender) : null;
+            const loyaltyInfo = tender.method === "loyalty" ? getLoyaltyInfo(tender) : null;
+            const voucherInfo = tender.method === "voucher" ? getVoucherInfo(tender) : null;
+            return (
+              <div key={tender.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium flex items-center gap-2">
+                    <Icon className="w-4 h-4" />
+                    {TENDER_METHOD_LABELS[tender.method]}
+                  </span>
+                  <Button type="button" variant="ghost" size="icon" onClick={() => removeTender(tender.id)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    value={tender.amount || ""}
+                    onChange={(e) => updateTender(tender.id, { amount: Number(e.target.value) || 0 })}
+                    placeholder="Amount"
+                  />
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={() => updateTender(tender.id, { amount: (Number(tender.amount) || 0) + summary.remaining })}
+                    disabled={summary.remaining === 0}
+                  >
+                    Rest
+                  </Button>
+                </div>
+
+                {tender.method === "mobile_money" && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select
+                      value={tender.provider || "mtn"}
+                      onValueChange={(value) => updateTender(tender.id, { provider: value as "mtn" | "airtel" })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="mtn">MTN Mobile Money</SelectItem>
+                        <SelectItem value="airtel">Airtel Money</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="tel"
+                      value={tender.phoneNumber || ""}
+                      onChange={(e) => updateTender(tender.id, { phoneNumber: e.target.value })}
+                      placeholder="Phone e.g. 0772123456"
+                    />
+                  </div>
+                )}
+
+                {(tender.method === "mobile_money" || tender.method === "card") && (
+                  <div className="space-y-1">
+                    <Input
+                      value={tender.reference || ""}
+                      onChange={(e) => updateTender(tender.id, { reference: e.target.value })}
+                      placeholder={tender.method === "card" ? "Card approval code" : "Transaction ID (if already paid)"}
+                    />
+                    {tender.method === "mobile_money" && !tender.reference?.trim() && (
+                      <p className="text-xs text-muted-foreground">
+                        Without a transaction ID a payment request is sent to the phone after the sale is saved
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {tender.method === "voucher" && (
+                  <div className="space-y-1">
+                    <div className="flex gap-2">
+                      <Input
+                        value={tender.reference || ""}
+                        onChange={(e) => updateTender(tender.id, { reference: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.preventDefault();
+                            lookupVoucher(tender);
+                          }
+                        }}
+                        placeholder="Scan or type voucher code"
+                      />
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        onClick={() => lookupVoucher(tender)}
+                        disabled={!tender.reference?.trim() || lookingUp === tender.id}
+                      >
+                        {lookingUp === tender.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                    {voucherInfo && (
+                      <p className={`text-xs ${voucherInfo.warning ? "text-orange-600 dark:text-orange-400" : "text-muted-foreground"}`}>
+                        {voucherInfo.warning || voucherInfo.text}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {(tender.method === "credit" || tender.method === "loyalty" || tender.method === "store_credit") && (
+                  <div className="space-y-1">
+                    <Select
+                      value={tender.customerId || ""}
+                      onValueChange={(value) => updateTender(tender.id, { customerId: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select customer" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {customers.map((customer) => (
+                          <SelectItem key={customer.id} value={customer.id}>
+                            {customer.name}
+                            {customer.phone ? ` - ${customer.phone}` : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {creditWarning && <p className="text-xs text-orange-600 dark:text-orange-400">{creditWarning}</p>}
+                    {tender.method === "store_credit" && tender.customerId && (
+                      <p
+                        className={`text-xs ${
+                          Number(tender.amount) > getStoreCredit(tender.customerId)
+                            ? "text-orange-600 dark:text-orange-400"
+                            : "text-muted-foreground"
+                        }`}
+                      >
+                        UGX {getStoreCredit(tender.customerId).toLocaleString()} store credit available
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {tender.method === "loyalty" && (
+                  <div className="space-y-1">
+                    <Select
+                      value={tender.loyaltyReward || "points"}
+                      onValueChange={(value) =>
+                        updateTender(tender.id, {
+                          loyaltyReward: value as "points" | "free_refill",
+                          amount:
+                            value === "free_refill"
+                              ? Math.min(freeRefillValue, total)
+                              : Math.min(summary.remaining + (Number(tender.amount) || 0), getRedeemableValue(tender.customerId)),
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="points">Redeem points</SelectItem>
+                        <SelectItem value="free_refill" disabled={!canRedeemFreeRefill(tender)}>
+                          Free refill (punch-card full)
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {loyaltyInfo && (
+                      <p className={`text-xs ${loyaltyInfo.warning ? "text-orange-600 dark:text-orange-400" : "text-muted-foreground"}`}>
+                        {loyaltyInfo.warning || loyaltyInfo.text}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="space-y-1 text-sm border-t pt-3">
+            <div className="flex justify-between">
+              <span>Paid:</span>
+              <span>UGX {summary.tendered.toLocaleString()}</span>
+            </div>
+            {summary.remaining > 0 && (
+              <div className="flex justify-between text-destructive font-medium">
+                <span>Remaining:</span>
+                <span>UGX {summary.remaining.toLocaleString()}</span>
+              </div>
+            )}
+            {summary.change > 0 && (
+              <div className="flex justify-between text-green-600 font-medium">
+                <span>Change:</span>
+                <span>UGX {summary.change.toLocaleString()}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)} disabled={isProcessing}>
+              Cancel
+            </Button>
+            <Button className="flex-1" onClick={handleConfirm} disabled={isProcessing || tenders.length === 0}>
+              {isProcessing ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Processing...
+                </>
+              ) : (
+                "Complete Sale"
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,234 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/contexts/AuthContext";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  PurchaseOrderLineInput,
+  buildPurchasableItems,
+  toPurchaseOrderItemRows,
+} from "@/utils/purchasing";
+
+interface PurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  departmentId: string;
+  suppliers: Tables<"suppliers">[];
+}
+
+export const PurchaseOrderDialog = ({ open, onOpenChange, departmentId, suppliers }: PurchaseOrderDialogProps) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [supplierId, setSupplierId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [itemSearch, setItemSearch] = useState("");
+  const [lines, setLines] = useState<PurchaseOrderLineInput[]>([]);
+
+  const { data: purchasableItems = [] } = useQuery({
+    queryKey: ["purchasable-items", departmentId],
+    queryFn: async () => {
+      const [products, variants, scents] = await Promise.all([
+        supabase.from("products").select("*").eq("department_id", departmentId).eq("is_archived", false).order("name"),
+        supabase.from("product_variants").select("*, products!inner(department_id)").eq("products.department_id", departmentId),
+        supabase.from("perfume_scents").select("*").eq("department_id", departmentId).order("name"),
+      ]);
+      if (products.error) throw products.error;
+      if (variants.error) throw variants.error;
+      if (scents.error) throw scents.error;
+      return buildPurchasableItems(products.data || [], variants.data || [], scents.data || []);
+    },
+    enabled: open && !!departmentId,
+  });
+
+  const searchResults = useMemo(() => {
+    const term = itemSearch.trim().toLowerCase();
+    if (!term) return [];
+    return purchasableItems
+      .filter((item) => item.description.toLowerCase().includes(term))
+      .filter((item) => !lines.some((line) => line.item.key === item.key))
+      .slice(0, 8);
+  }, [itemSearch, purchasableItems, lines]);
+
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+
+  const reset = () => {
+    setSupplierId("");
+    setExpectedDate("");
+    setNotes("");
+    setItemSearch("");
+    setLines([]);
+  };
+
+  const updateLine = (key: string, changes: Partial<PurchaseOrderLineInput>) => {
+    setLines(lines.map((line) => (line.item.key === key ? { ...line, ...changes } : line)));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!supplierId) throw new Error("Choose a supplier");
+      if (lines.length === 0) throw new Error("Add at least one item");
+      if (lines.some((line) => !(line.quantity > 0) || line.unitCost < 0)) {
+        throw new Error("Every line needs a quantity and a cost");
+      }
+
+      const { data: poNumber, error: numberError } = await supabase.rpc("generate_po_number");
+      if (numberError) throw numberError;
+
+      const { data: order, error } = await supabase
+        .from("purchase_orders")
+        .insert({
+          po_number: poNumber,
+          supplier_id: supplierId,
+          department_id: departmentId,
+          expected_date: expectedDate || null,
+          notes: notes || null,
+          created_by: user?.id,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+
+      const { error: itemsError } = await supabase
+        .from("purchase_order_items")
+        .insert(toPurchaseOrderItemRows(order.id, lines));
+      if (itemsError) {
+        // Don't leave an empty order behind
+        await supabase.from("purchase_orders").delete().eq("id", order.id);
+        throw itemsError;
+      }
+      return order;
+    },
+    onSuccess: (order) => {
+      toast.success(`Purchase order ${order.po_number} created`);
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to create purchase order");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Purchase Order</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Supplier *</Label>
+            <Select value={supplierId} onValueChange={setSupplierId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a supplier" />
+              </SelectTrigger>
+              <SelectContent>
+                {suppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={supplier.id}>
+                    {supplier.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Expected Delivery</Label>
+            <Input type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Add Items</Label>
+          <Input
+            placeholder="Search products, variants and scents..."
+            value={itemSearch}
+            onChange={(e) => setItemSearch(e.target.value)}
+          />
+          {searchResults.length > 0 && (
+            <div className="border rounded-lg divide-y">
+              {searchResults.map((item) => (
+                <button
+                  key={item.key}
+                  type="button"
+                  className="w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-muted"
+                  onClick={() => {
+                    setLines([...lines, { item, quantity: 1, unitCost: item.unitCost }]);
+                    setItemSearch("");
+                  }}
+                >
+                  <span>{item.description}</span>
+                  <span className="text-muted-foreground">
+                    <Plus className="w-3 h-3 inline mr-1" />
+                    {item.unitCost.toLocaleString()} UGX{item.useMl ? "/ml" : ""}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {lines.length > 0 && (
+          <div className="space-y-2">
+            {lines.map((line) => (
+              <div key={line.item.key} className="grid grid-cols-12 gap-2 items-center">
+                <p className="col-span-12 sm:col-span-5 text-sm font-medium">{line.item.description}</p>
+                <div className="col-span-5 sm:col-span-3">
+                  <Input
+                    type="number"
+                    min="0"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(line.item.key, { quantity: Number(e.target.value) })}
+                    aria-label={line.item.useMl ? "Quantity (ml)" : "Quantity"}
+                  />
+                </div>
+                <div className="col-span-5 sm:col-span-3">
+                  <Input
+                    type="number"
+                    min="0"
+                    value={line.unitCost}
+                    onChange={(e) => updateLine(line.item.key, { unitCost: Number(e.target.value) })}
+                    aria-label={line.item.useMl ? "Cost per ml" : "Unit cost"}
+                  />
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="col-span-2 sm:col-span-1"
+                  onClick={() => setLines(lines.filter((l) => l.item.key !== line.item.key))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">Quantity and cost are per ml for scents and ml-tracked products.</p>
+            <p className="text-right font-semibold">Total: {total.toLocaleString()} UGX</p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Notes</Label>
+          <Textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Delivery instructions, terms..." />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+            {createMutation.isPending ? "Saving..." : "Create Draft Order"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardList, PackageCheck, Plus, Printer, Send, X } from "lucide-react";
+import { toast } from "sonner";
+import { printPurchaseOrder } from "@/utils/invoicePrinter";
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  canReceivePurchaseOrder,
+} from "@/utils/purchasing";
+import { PurchaseOrderDialog } from "./PurchaseOrderDialog";
+import { ReceiveGoodsDialog } from "./ReceiveGoodsDialog";
+
+interface PurchaseOrdersPanelProps {
+  departmentId: string;
+  suppliers: Tables<"suppliers">[];
+}
+
+const STATUS_VARIANTS: Record<PurchaseOrderStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  sent: "secondary",
+  partially_received: "default",
+  received: "default",
+  cancelled: "destructive",
+};
+
+export const PurchaseOrdersPanel = ({ departmentId, suppliers }: PurchaseOrdersPanelProps) => {
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | "open" | "all">("open");
+  const [showCreate, setShowCreate] = useState(false);
+  const [receiving, setReceiving] = useState<PurchaseOrder | null>(null);
+
+  const { data: orders = [], isLoading } = useQuery({
+    queryKey: ["purchase-orders", departmentId, statusFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from("purchase_orders")
+        .select("*, suppliers(name, phone, email, address, contact_person), purchase_order_items(*)")
+        .eq("department_id", departmentId)
+        .order("order_date", { ascending: false })
+        .order("po_number", { ascending: false });
+      if (statusFilter === "open") {
+        query = query.in("status", ["draft", "sent", "partially_received"]);
+      } else if (statusFilter !== "all") {
+        query = query.eq("status", statusFilter);
+      }
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as PurchaseOrder[];
+    },
+    enabled: !!departmentId,
+  });
+
+  const { data: globalSettings } = useQuery({
+    queryKey: ["global-settings"],
+    queryFn: async () => {
+      const { data } = await supabase.from("settings").select("*").is("department_id", null).maybeSingle();
+      return data;
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ order, status }: { order: PurchaseOrder; status: PurchaseOrderStatus }) => {
+      const { error } = await supabase
+        .from("purchase_orders")
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq("id", order.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { status }) => {
+      toast.success(status === "sent" ? "Order marked as sent" : "Order cancelled");
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update order");
+    },
+  });
+
+  const handlePrint = (order: PurchaseOrder) => {
+    printPurchaseOrder({
+      poNumber: order.po_number,
+      status: PURCHASE_ORDER_STATUS_LABELS[order.status as PurchaseOrderStatus] || order.status,
+      orderDate: format(new Date(order.order_date), "dd MMM yyyy"),
+      expectedDate: order.expected_date ? format(new Date(order.expected_date), "dd MMM yyyy") : undefined,
+      supplier: {
+        name: order.suppliers?.name || "Supplier",
+        contactPerson: order.suppliers?.contact_person || undefined,
+        phone: order.suppliers?.phone || undefined,
+        email: order.suppliers?.email || undefined,
+        address: order.suppliers?.address || undefined,
+      },
+      items: (order.purchase_order_items || []).map((item) => ({
+        description: item.description,
+        quantity: Number(item.quantity_ordered),
+        unit: item.use_ml ? "ml" : "pcs",
+        unitCost: Number(item.unit_cost),
+        received: Number(item.quantity_received),
+      })),
+      total: Number(order.total_cost),
+      notes: order.notes || undefined,
+      businessInfo: {
+        name: globalSettings?.business_name || "Business Name",
+        address: globalSettings?.business_address || "",
+        phone: globalSettings?.business_phone || "",
+        email: globalSettings?.business_email || "",
+        logo: globalSettings?.logo_url || "",
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="w-5 h-5" />
+          Purchase Orders
+        </CardTitle>
+        <div className="flex gap-2">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open orders</SelectItem>
+              <SelectItem value="all">All orders</SelectItem>
+              {(Object.keys(PURCHASE_ORDER_STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {PURCHASE_ORDER_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setShowCreate(true)} disabled={suppliers.length === 0}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Order
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && <p className="text-sm text-muted-foreground text-center py-4">Loading purchase orders...</p>}
+        {!isLoading && orders.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">No purchase orders here yet.</p>
+        )}
+        {orders.map((order) => {
+          const status = order.status as PurchaseOrderStatus;
+          const nothingReceived = (order.purchase_order_items || []).every((item) => Number(item.quantity_received) === 0);
+          return (
+            <div key={order.id} className="p-3 rounded-lg border space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium">
+                    {order.po_number} · {order.suppliers?.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(order.order_date), "dd MMM yyyy")}
+                    {order.expected_date && ` · due ${format(new Date(order.expected_date), "dd MMM")}`}
+                    {` · ${(order.purchase_order_items || []).length} lines · ${Number(order.total_cost).toLocaleString()} UGX`}
+                  </p>
+                </div>
+                <Badge variant={STATUS_VARIANTS[status]}>{PURCHASE_ORDER_STATUS_LABELS[status]}</Badge>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={() => handlePrint(order)}>
+                  <Printer className="w-4 h-4 mr-2" />
+                  Print
+                </Button>
+                {status === "draft" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => statusMutation.mutate({ order, status: "sent" })}
+                    disabled={statusMutation.isPending}
+                  >
+                    <Send className="w-4 h-4 mr-2" />
+                    Mark Sent
+                  </Button>
+                )}
+                {canReceivePurchaseOrder(status) && (
+                  <Button size="sm" onClick={() => setReceiving(order)}>
+                    <PackageCheck className="w-4 h-4 mr-2" />
+                    Receive Goods
+                  </Button>
+                )}
+                {(status === "draft" || status === "sent") && nothingReceived && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive"
+                    onClick={() => {
+                      if (window.confirm(`Cancel purchase order ${order.po_number}?`)) {
+                        statusMutation.mutate({ order, status: "cancelled" });
+                      }
+                    }}
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <PurchaseOrderDialog
+        open={showCreate}
+        onOpenChange={setShowCreate}
+        departmentId={departmentId}
+        suppliers={suppliers}
+      />
+      <ReceiveGoodsDialog order={receiving} onOpenChange={(open) => !open && setReceiving(null)} />
+    </Card>
+  );
+};
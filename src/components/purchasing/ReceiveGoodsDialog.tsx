@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { PurchaseOrder, ReceiveLineInput, getOutstandingQuantity, receivePurchaseOrder } from "@/utils/purchasing";
+
+interface ReceiveGoodsDialogProps {
+  order: PurchaseOrder | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Goods-received note: what actually arrived, which may be less than ordered or at a different cost
+export const ReceiveGoodsDialog = ({ order, onOpenChange }: ReceiveGoodsDialogProps) => {
+  const queryClient = useQueryClient();
+  const [lines, setLines] = useState<ReceiveLineInput[]>([]);
+  const [notes, setNotes] = useState("");
+
+  const items = (order?.purchase_order_items || []).filter((item) => getOutstandingQuantity(item) > 0);
+
+  useEffect(() => {
+    // Default to receiving everything still outstanding at the ordered cost
+    setLines(
+      (order?.purchase_order_items || [])
+        .filter((item) => getOutstandingQuantity(item) > 0)
+        .map((item) => ({
+          purchaseOrderItemId: item.id,
+          quantity: getOutstandingQuantity(item),
+          unitCost: Number(item.unit_cost),
+        }))
+    );
+    setNotes("");
+  }, [order]);
+
+  const updateLine = (id: string, changes: Partial<ReceiveLineInput>) => {
+    setLines(lines.map((line) => (line.purchaseOrderItemId === id ? { ...line, ...changes } : line)));
+  };
+
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+
+  const receiveMutation = useMutation({
+    mutationFn: () => receivePurchaseOrder(order!.id, lines, notes),
+    onSuccess: () => {
+      toast.success("Goods received and stock updated");
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["supplier-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["perfume-scents"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to receive goods");
+    },
+  });
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Goods - {order?.po_number}</DialogTitle>
+          <DialogDescription>
+            Enter what arrived. Stock goes up by these quantities and each item's cost moves to the
+            weighted average of the stock on hand and this delivery.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-12 gap-2 text-xs font-medium text-muted-foreground">
+            <span className="col-span-6">Item</span>
+            <span className="col-span-3">Received</span>
+            <span className="col-span-3">Unit cost</span>
+          </div>
+          {items.map((item) => {
+            const line = lines.find((l) => l.purchaseOrderItemId === item.id);
+            return (
+              <div key={item.id} className="grid grid-cols-12 gap-2 items-center">
+                <div className="col-span-6">
+                  <p className="text-sm font-medium">{item.description}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {Number(item.quantity_received)} of {Number(item.quantity_ordered)}
+                    {item.use_ml ? " ml" : ""} received
+                  </p>
+                </div>
+                <Input
+                  className="col-span-3"
+                  type="number"
+                  min="0"
+                  max={getOutstandingQuantity(item)}
+                  value={line?.quantity ?? 0}
+                  onChange={(e) => updateLine(item.id, { quantity: Number(e.target.value) })}
+                />
+                <Input
+                  className="col-span-3"
+                  type="number"
+                  min="0"
+                  value={line?.unitCost ?? 0}
+                  onChange={(e) => updateLine(item.id, { unitCost: Number(e.target.value) })}
+                />
+              </div>
+            );
+          })}
+          <p className="text-right font-semibold">Value received: {total.toLocaleString()} UGX</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Notes</Label>
+          <Textarea
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Delivery note number, damaged items..."
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => receiveMutation.mutate()}
+            disabled={receiveMutation.isPending || !lines.some((line) => line.quantity > 0)}
+          >
+            {receiveMutation.isPending ? "Posting..." : "Post Goods Received Note"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
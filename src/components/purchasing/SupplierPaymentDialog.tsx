@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { SUPPLIER_PAYMENT_METHOD_LABELS, SupplierPaymentMethod } from "@/utils/purchasing";
+
+interface SupplierPaymentDialogProps {
+  supplier: { id: string; name: string; balance: number } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const SupplierPaymentDialog = ({ supplier, onOpenChange }: SupplierPaymentDialogProps) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<SupplierPaymentMethod>("cash");
+  const [reference, setReference] = useState("");
+  const [paidAt, setPaidAt] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      const value = Number(amount);
+      if (!(value > 0)) throw new Error("Enter an amount");
+      const { error } = await supabase.from("supplier_payments").insert({
+        supplier_id: supplier!.id,
+        amount: value,
+        method,
+        reference: reference || null,
+        paid_at: paidAt,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Payment recorded");
+      queryClient.invalidateQueries({ queryKey: ["supplier-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["supplier-payments"] });
+      setAmount("");
+      setReference("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to record payment");
+    },
+  });
+
+  return (
+    <Dialog open={!!supplier} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pay {supplier?.name}</DialogTitle>
+          <DialogDescription>Outstanding: {(supplier?.balance || 0).toLocaleString()} UGX</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Amount (UGX) *</Label>
+            <Input type="number" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Date</Label>
+            <Input type="date" value={paidAt} onChange={(e) => setPaidAt(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Method</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as SupplierPaymentMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SUPPLIER_PAYMENT_METHOD_LABELS) as SupplierPaymentMethod[]).map((m) => (
+                  <SelectItem key={m} value={m}>
+                    {SUPPLIER_PAYMENT_METHOD_LABELS[m]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Reference</Label>
+            <Input value={reference} onChange={(e) => setReference(e.target.value)} placeholder="Cheque / transaction no." />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => paymentMutation.mutate()} disabled={paymentMutation.isPending}>
+            {paymentMutation.isPending ? "Saving..." : "Record Payment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
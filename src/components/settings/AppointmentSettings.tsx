@@ -0,0 +1,289 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BellRing, CalendarClock, Copy, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/useUserRole";
+import {
+  AppointmentSettings as AppointmentSettingsConfig,
+  getAppointmentSettings,
+  REMINDER_CHANNEL_LABELS,
+  ReminderChannel,
+} from "@/utils/appointments";
+
+interface AppointmentSettingsProps {
+  departmentId?: string;
+}
+
+const REMINDER_LEAD_TIMES = [
+  { value: 60, label: "1 hour before" },
+  { value: 120, label: "2 hours before" },
+  { value: 360, label: "6 hours before" },
+  { value: 1440, label: "1 day before" },
+  { value: 2880, label: "2 days before" },
+];
+
+export const AppointmentSettings = ({ departmentId }: AppointmentSettingsProps) => {
+  const queryClient = useQueryClient();
+  const { isAdmin } = useUserRole();
+  const isGlobal = !departmentId || departmentId === "global";
+  const [config, setConfig] = useState<AppointmentSettingsConfig>(getAppointmentSettings());
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["appointment-settings", departmentId],
+    queryFn: async () => {
+      let query = supabase.from("settings").select("*");
+      query = isGlobal ? query.is("department_id", null) : query.eq("department_id", departmentId);
+      const { data, error } = await query.maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    setConfig(getAppointmentSettings(settings));
+  }, [settings]);
+
+  const bookingUrl = isGlobal ? "" : `${window.location.origin}/book-appointment?dept=${departmentId}`;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (config.openingTime >= config.closingTime) {
+        throw new Error("Closing time must be after opening time");
+      }
+      if (config.slotMinutes < 5 || config.bookingCapacity < 1 || config.bookingDaysAhead < 1) {
+        throw new Error("Slot length, capacity and days ahead must be positive");
+      }
+      if (config.remindersEnabled && config.reminderChannels.length === 0) {
+        throw new Error("Pick at least one reminder channel");
+      }
+
+      const existingJson = (settings?.settings_json as Record<string, unknown>) || {};
+      const updatedSettingsJson = JSON.parse(JSON.stringify({
+        ...existingJson,
+        appointments: config,
+      }));
+
+      if (settings) {
+        const { error } = await supabase
+          .from("settings")
+          .update({ settings_json: updatedSettingsJson })
+          .eq("id", settings.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("settings")
+          .insert([{
+            department_id: isGlobal ? null : departmentId,
+            settings_json: updatedSettingsJson
+          }]);
+
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["appointment-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["department-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["global-settings"] });
+      toast.success("Appointment settings saved");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save appointment settings");
+    },
+  });
+
+  const toggleChannel = (channel: ReminderChannel, checked: boolean) => {
+    setConfig({
+      ...config,
+      reminderChannels: checked
+        ? [...config.reminderChannels, channel]
+        : config.reminderChannels.filter((c) => c !== channel),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Online Booking
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Accept booking requests</Label>
+              <p className="text-xs text-muted-foreground">Customers request a slot; staff confirm it on the Appointments page</p>
+            </div>
+            <Switch
+              checked={config.bookingEnabled}
+              onCheckedChange={(checked) => setConfig({ ...config, bookingEnabled: checked })}
+              disabled={!isAdmin}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Opens</Label>
+              <Input
+                type="time"
+                value={config.openingTime}
+                onChange={(e) => setConfig({ ...config, openingTime: e.target.value })}
+                disabled={!isAdmin}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Closes</Label>
+              <Input
+                type="time"
+                value={config.closingTime}
+                onChange={(e) => setConfig({ ...config, closingTime: e.target.value })}
+                disabled={!isAdmin}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Slot every (min)</Label>
+              <Input
+                type="number"
+                min="5"
+                value={config.slotMinutes}
+                onChange={(e) => setConfig({ ...config, slotMinutes: Number(e.target.value) })}
+                disabled={!isAdmin}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Bookings at once</Label>
+              <Input
+                type="number"
+                min="1"
+                value={config.bookingCapacity}
+                onChange={(e) => setConfig({ ...config, bookingCapacity: Number(e.target.value) })}
+                disabled={!isAdmin}
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label>Days ahead customers can book</Label>
+              <Input
+                type="number"
+                min="1"
+                value={config.bookingDaysAhead}
+                onChange={(e) => setConfig({ ...config, bookingDaysAhead: Number(e.target.value) })}
+                disabled={!isAdmin}
+              />
+            </div>
+          </div>
+
+          {bookingUrl ? (
+            <div className="space-y-2">
+              <Label>Booking page link</Label>
+              <div className="flex gap-2">
+                <Input value={bookingUrl} readOnly />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => {
+                    navigator.clipboard.writeText(bookingUrl);
+                    toast.success("Link copied");
+                  }}
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">Select a department to get its booking page link.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="w-5 h-5" />
+            Reminders
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label>Send appointment reminders</Label>
+            <Switch
+              checked={config.remindersEnabled}
+              onCheckedChange={(checked) => setConfig({ ...config, remindersEnabled: checked })}
+              disabled={!isAdmin}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>When</Label>
+            <Select
+              value={String(config.reminderMinutesBefore)}
+              onValueChange={(value) => setConfig({ ...config, reminderMinutesBefore: Number(value) })}
+              disabled={!isAdmin}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REMINDER_LEAD_TIMES.map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Channels</Label>
+            {(Object.keys(REMINDER_CHANNEL_LABELS) as ReminderChannel[]).map((channel) => (
+              <div key={channel} className="flex items-center gap-2">
+                <Checkbox
+                  id={`reminder-${channel}`}
+                  checked={config.reminderChannels.includes(channel)}
+                  onCheckedChange={(checked) => toggleChannel(channel, checked === true)}
+                  disabled={!isAdmin}
+                />
+                <Label htmlFor={`reminder-${channel}`} className="font-normal">
+                  {REMINDER_CHANNEL_LABELS[channel]}
+                </Label>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Email and SMS go out automatically (SMS needs a provider configured on the server). WhatsApp reminders
+              appear on the Appointments page for staff to send from the shop's phone.
+            </p>
+          </div>
+
+          {isAdmin && (
+            <Button
+              className="w-full"
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Appointment Settings"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { PasswordInput } from "@/components/ui/password-input";
+import { Loader2, Percent, Plus, X, Lock } from "lucide-react";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/useUserRole";
+import { DiscountSettings as DiscountSettingsConfig, getDiscountSettings } from "@/utils/discounts";
+
+interface DiscountSettingsProps {
+  departmentId?: string;
+}
+
+export const DiscountSettings = ({ departmentId }: DiscountSettingsProps) => {
+  const queryClient = useQueryClient();
+  const { isAdmin, role } = useUserRole();
+  const isGlobal = !departmentId || departmentId === "global";
+  const [config, setConfig] = useState<DiscountSettingsConfig>(getDiscountSettings(null));
+  const [newReason, setNewReason] = useState("");
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["discount-settings", departmentId],
+    queryFn: async () => {
+      let query = supabase.from("settings").select("*");
+      query = isGlobal ? query.is("department_id", null) : query.eq("department_id", departmentId);
+      const { data, error } = await query.maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    setConfig(getDiscountSettings(settings));
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (config.caps.cashier < 0 || config.caps.manager < 0 || config.caps.cashier > 100 || config.caps.manager > 100) {
+        throw new Error("Caps must be between 0 and 100%");
+      }
+      if (config.caps.cashier > config.caps.manager) {
+        throw new Error("Cashier cap cannot be higher than the manager cap");
+      }
+
+      const existingJson = (settings?.settings_json as Record<string, unknown>) || {};
+      const updatedSettingsJson = JSON.parse(JSON.stringify({
+        ...existingJson,
+        discounts: config,
+      }));
+
+      if (settings) {
+        const { error } = await supabase
+          .from("settings")
+          .update({ settings_json: updatedSettingsJson })
+          .eq("id", settings.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("settings")
+          .insert([{
+            department_id: isGlobal ? null : departmentId,
+            settings_json: updatedSettingsJson
+          }]);
+
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["discount-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["department-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["global-settings"] });
+      toast.success("Discount settings saved");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save discount settings");
+    },
+  });
+
+  const setPinMutation = useMutation({
+    mutationFn: async () => {
+      if (!/^\d{4,8}$/.test(pin)) {
+        throw new Error("PIN must be 4 to 8 digits");
+      }
+      if (pin !== confirmPin) {
+        throw new Error("PINs do not match");
+      }
+      const { error } = await supabase.rpc("set_override_pin", { _pin: pin });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setPin("");
+      setConfirmPin("");
+      toast.success("Override PIN updated");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to set PIN");
+    },
+  });
+
+  const addReason = () => {
+    const reason = newReason.trim();
+    if (!reason) return;
+    if (config.reasons.includes(reason)) {
+      toast.error("Reason already exists");
+      return;
+    }
+    setConfig({ ...config, reasons: [...config.reasons, reason] });
+    setNewReason("");
+  };
+
+  const removeReason = (reason: string) => {
+    setConfig({ ...config, reasons: config.reasons.filter((r) => r !== reason) });
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="w-5 h-5" />
+            Discount Limits & Reasons
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Cashier cap (%)</Label>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                value={config.caps.cashier}
+                onChange={(e) => setConfig({ ...config, caps: { ...config.caps, cashier: Number(e.target.value) } })}
+                disabled={!isAdmin}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Manager cap (%)</Label>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                value={config.caps.manager}
+                onChange={(e) => setConfig({ ...config, caps: { ...config.caps, manager: Number(e.target.value) } })}
+                disabled={!isAdmin}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Discounts above the cashier cap need a manager PIN. Above the manager cap, only an admin PIN is accepted.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Reason codes</Label>
+            <div className="flex flex-wrap gap-2">
+              {config.reasons.map((reason) => (
+                <Badge key={reason} variant="secondary" className="gap-1">
+                  {reason}
+                  {isAdmin && (
+                    <button type="button" onClick={() => removeReason(reason)}>
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </Badge>
+              ))}
+            </div>
+            {isAdmin && (
+              <div className="flex gap-2">
+                <Input
+                  placeholder="New reason"
+                  value={newReason}
+                  onChange={(e) => setNewReason(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") addReason();
+                  }}
+                />
+                <Button variant="outline" onClick={addReason}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {isAdmin && (
+            <Button
+              className="w-full"
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Discount Settings"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {(isAdmin || role === "manager") && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="w-5 h-5" />
+              My Override PIN
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Cashiers enter this PIN at the till to approve discounts above their cap.
+            </p>
+            <div className="space-y-2">
+              <Label>New PIN</Label>
+              <PasswordInput
+                inputMode="numeric"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                placeholder="4-8 digits"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Confirm PIN</Label>
+              <PasswordInput
+                inputMode="numeric"
+                value={confirmPin}
+                onChange={(e) => setConfirmPin(e.target.value)}
+              />
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => setPinMutation.mutate()}
+              disabled={setPinMutation.isPending || !pin}
+            >
+              {setPinMutation.isPending ? "Saving..." : "Set PIN"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Star } from "lucide-react";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/useUserRole";
+import { LoyaltySettings as LoyaltySettingsConfig, getLoyaltySettings } from "@/utils/loyalty";
+
+interface LoyaltySettingsProps {
+  departmentId?: string;
+}
+
+export const LoyaltySettings = ({ departmentId }: LoyaltySettingsProps) => {
+  const queryClient = useQueryClient();
+  const { isAdmin } = useUserRole();
+  const isGlobal = !departmentId || departmentId === "global";
+  const [config, setConfig] = useState<LoyaltySettingsConfig>(getLoyaltySettings());
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["loyalty-settings-edit", departmentId],
+    queryFn: async () => {
+      let query = supabase.from("settings").select("*");
+      query = isGlobal ? query.is("department_id", null) : query.eq("department_id", departmentId);
+      const { data, error } = await query.maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    setConfig(getLoyaltySettings(settings));
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (config.spendPerPoint < 0 || config.pointValue < 0 || config.minRedeemPoints < 0 || config.refillBonusPoints < 0) {
+        throw new Error("Loyalty values can't be negative");
+      }
+      if (config.punchCardEnabled && config.freeRefillEvery < 2) {
+        throw new Error("The free refill has to come after at least one paid refill");
+      }
+
+      const existingJson = (settings?.settings_json as Record<string, unknown>) || {};
+      const updatedSettingsJson = JSON.parse(JSON.stringify({
+        ...existingJson,
+        loyalty: config,
+      }));
+
+      if (settings) {
+        const { error } = await supabase
+          .from("settings")
+          .update({ settings_json: updatedSettingsJson })
+          .eq("id", settings.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("settings")
+          .insert([{
+            department_id: isGlobal ? null : departmentId,
+            settings_json: updatedSettingsJson
+          }]);
+
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["loyalty-settings-edit"] });
+      queryClient.invalidateQueries({ queryKey: ["loyalty-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["customer-loyalty"] });
+      queryClient.invalidateQueries({ queryKey: ["global-settings"] });
+      toast.success("Loyalty settings saved");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save loyalty settings");
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="max-w-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Star className="w-5 h-5" />
+          Loyalty Program
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Reward repeat customers</Label>
+            <p className="text-xs text-muted-foreground">Only sales linked to a customer earn rewards</p>
+          </div>
+          <Switch
+            checked={config.enabled}
+            onCheckedChange={(checked) => setConfig({ ...config, enabled: checked })}
+            disabled={!isAdmin}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>UGX spent per point</Label>
+            <Input
+              type="number"
+              min="0"
+              value={config.spendPerPoint}
+              onChange={(e) => setConfig({ ...config, spendPerPoint: Number(e.target.value) })}
+              disabled={!isAdmin}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Bonus points per refill</Label>
+            <Input
+              type="number"
+              min="0"
+              value={config.refillBonusPoints}
+              onChange={(e) => setConfig({ ...config, refillBonusPoints: Number(e.target.value) })}
+              disabled={!isAdmin}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>UGX value of a point</Label>
+            <Input
+              type="number"
+              min="0"
+              value={config.pointValue}
+              onChange={(e) => setConfig({ ...config, pointValue: Number(e.target.value) })}
+              disabled={!isAdmin}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Fewest points to redeem</Label>
+            <Input
+              type="number"
+              min="0"
+              value={config.minRedeemPoints}
+              onChange={(e) => setConfig({ ...config, minRedeemPoints: Number(e.target.value) })}
+              disabled={!isAdmin}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          At these rates a customer spending UGX {(config.spendPerPoint * 100).toLocaleString()} earns 100 points,
+          worth UGX {(config.pointValue * 100).toLocaleString()} at the till.
+        </p>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Refill punch-card</Label>
+            <p className="text-xs text-muted-foreground">Each paid refill is a punch towards a free one</p>
+          </div>
+          <Switch
+            checked={config.punchCardEnabled}
+            onCheckedChange={(checked) => setConfig({ ...config, punchCardEnabled: checked })}
+            disabled={!isAdmin}
+          />
+        </div>
+
+        {config.punchCardEnabled && (
+          <div className="space-y-2">
+            <Label>Every nth refill is free</Label>
+            <Input
+              type="number"
+              min="2"
+              value={config.freeRefillEvery}
+              onChange={(e) => setConfig({ ...config, freeRefillEvery: Number(e.target.value) })}
+              disabled={!isAdmin}
+            />
+          </div>
+        )}
+
+        {isAdmin && (
+          <Button className="w-full" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Loyalty Settings"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
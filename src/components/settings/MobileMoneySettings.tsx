@@ -9,143 +9,179 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, CheckCircle2, AlertCircle, Eye, EyeOff } from "lucide-react";
+import { Loader2, CheckCircle2, AlertCircle, Eye, EyeOff, PlugZap } from "lucide-react";
 import { toast } from "sonner";
+import { fetchMobileMoneyBalance } from "@/utils/mobileMoneyPayments";
 
 interface MobileMoneySettingsProps {
   departmentId?: string;
 }
 
-interface MobileMoneyConfig {
-  mtn: {
-    mtn_api_key: string;
-    mtn_api_user: string;
-    mtn_subscription_key: string;
-    environment: string;
-    is_enabled: boolean;
-  };
-  airtel: {
-    airtel_client_id: string;
-    airtel_client_secret: string;
-    environment: string;
-    is_enabled: boolean;
-  };
+type Provider = "mtn" | "airtel";
+
+interface MtnConfig {
+  environment: string;
+  is_enabled: boolean;
+  api_base_url: string;
+  mtn_api_user: string;
+  mtn_api_key: string;
+  mtn_subscription_key: string;
+  mtn_disbursement_api_user: string;
+  mtn_disbursement_api_key: string;
+  mtn_disbursement_subscription_key: string;
+}
+
+interface AirtelConfig {
+  environment: string;
+  is_enabled: boolean;
+  api_base_url: string;
+  airtel_client_id: string;
+  airtel_client_secret: string;
 }
 
+const EMPTY_MTN: MtnConfig = {
+  environment: "sandbox",
+  is_enabled: false,
+  api_base_url: "",
+  mtn_api_user: "",
+  mtn_api_key: "",
+  mtn_subscription_key: "",
+  mtn_disbursement_api_user: "",
+  mtn_disbursement_api_key: "",
+  mtn_disbursement_subscription_key: "",
+};
+
+const EMPTY_AIRTEL: AirtelConfig = {
+  environment: "sandbox",
+  is_enabled: false,
+  api_base_url: "",
+  airtel_client_id: "",
+  airtel_client_secret: "",
+};
+
+const ENVIRONMENTS = [
+  { value: "sandbox", label: "Sandbox (Testing)" },
+  { value: "production", label: "Production" },
+  { value: "simulator", label: "Simulator (Practice, no money moves)" },
+];
+
+const blankToNull = (value: string) => value.trim() || null;
+
 export const MobileMoneySettings = ({ departmentId }: MobileMoneySettingsProps) => {
   const queryClient = useQueryClient();
-  const [activeTab, setActiveTab] = useState<"mtn" | "airtel">("mtn");
+  const [activeTab, setActiveTab] = useState<Provider>("mtn");
   const [showSecrets, setShowSecrets] = useState({ mtn: false, airtel: false });
-  
-  const [mtnConfig, setMtnConfig] = useState({
-    mtn_api_key: "",
-    mtn_api_user: "",
-    mtn_subscription_key: "",
-    environment: "sandbox",
-    is_enabled: false,
-  });
+  const [mtnConfig, setMtnConfig] = useState<MtnConfig>(EMPTY_MTN);
+  const [airtelConfig, setAirtelConfig] = useState<AirtelConfig>(EMPTY_AIRTEL);
 
-  const [airtelConfig, setAirtelConfig] = useState({
-    airtel_client_id: "",
-    airtel_client_secret: "",
-    environment: "sandbox",
-    is_enabled: false,
-  });
-
-  // Fetch settings from the settings table's settings_json column
-  const { data: settings, isLoading } = useQuery({
+  // One mobile_money_settings row per provider; the edge functions read credentials from there
+  const { data: rows, isLoading } = useQuery({
     queryKey: ["mobile-money-settings", departmentId],
     queryFn: async () => {
-      if (!departmentId) return null;
-      
+      if (!departmentId) return [];
+
       const { data, error } = await supabase
-        .from("settings")
+        .from("mobile_money_settings")
         .select("*")
-        .eq("department_id", departmentId)
-        .maybeSingle();
+        .eq("department_id", departmentId);
 
       if (error) throw error;
-      return data;
+      return data || [];
     },
     enabled: !!departmentId,
   });
 
   // Update form when settings load
   useEffect(() => {
-    if (settings?.settings_json) {
-      const json = settings.settings_json as Record<string, any>;
-      const mobileMoneyConfig = json.mobile_money as MobileMoneyConfig | undefined;
-      
-      if (mobileMoneyConfig?.mtn) {
-        setMtnConfig({
-          mtn_api_key: mobileMoneyConfig.mtn.mtn_api_key || "",
-          mtn_api_user: mobileMoneyConfig.mtn.mtn_api_user || "",
-          mtn_subscription_key: mobileMoneyConfig.mtn.mtn_subscription_key || "",
-          environment: mobileMoneyConfig.mtn.environment || "sandbox",
-          is_enabled: mobileMoneyConfig.mtn.is_enabled || false,
-        });
-      }
-
-      if (mobileMoneyConfig?.airtel) {
-        setAirtelConfig({
-          airtel_client_id: mobileMoneyConfig.airtel.airtel_client_id || "",
-          airtel_client_secret: mobileMoneyConfig.airtel.airtel_client_secret || "",
-          environment: mobileMoneyConfig.airtel.environment || "sandbox",
-          is_enabled: mobileMoneyConfig.airtel.is_enabled || false,
-        });
-      }
-    }
-  }, [settings]);
+    if (!rows) return;
+    const mtn = rows.find((row) => row.provider === "mtn");
+    const airtel = rows.find((row) => row.provider === "airtel");
+
+    setMtnConfig(
+      mtn
+        ? {
+            environment: mtn.environment,
+            is_enabled: mtn.is_enabled || false,
+            api_base_url: mtn.api_base_url || "",
+            mtn_api_user: mtn.mtn_api_user || "",
+            mtn_api_key: mtn.mtn_api_key || "",
+            mtn_subscription_key: mtn.mtn_subscription_key || "",
+            mtn_disbursement_api_user: mtn.mtn_disbursement_api_user || "",
+            mtn_disbursement_api_key: mtn.mtn_disbursement_api_key || "",
+            mtn_disbursement_subscription_key: mtn.mtn_disbursement_subscription_key || "",
+          }
+        : EMPTY_MTN
+    );
+
+    setAirtelConfig(
+      airtel
+        ? {
+            environment: airtel.environment,
+            is_enabled: airtel.is_enabled || false,
+            api_base_url: airtel.api_base_url || "",
+            airtel_client_id: airtel.airtel_client_id || "",
+            airtel_client_secret: airtel.airtel_client_secret || "",
+          }
+        : EMPTY_AIRTEL
+    );
+  }, [rows]);
 
   // Save mutation
   const saveMutation = useMutation({
-    mutationFn: async (provider: "mtn" | "airtel") => {
+    mutationFn: async (provider: Provider) => {
       if (!departmentId) throw new Error("Department ID required");
 
-      const existingJson = (settings?.settings_json as Record<string, any>) || {};
-      const mobileMoneyConfig: MobileMoneyConfig = (existingJson.mobile_money as MobileMoneyConfig) || {
-        mtn: { mtn_api_key: "", mtn_api_user: "", mtn_subscription_key: "", environment: "sandbox", is_enabled: false },
-        airtel: { airtel_client_id: "", airtel_client_secret: "", environment: "sandbox", is_enabled: false }
-      };
-
-      if (provider === "mtn") {
-        mobileMoneyConfig.mtn = mtnConfig;
-      } else {
-        mobileMoneyConfig.airtel = airtelConfig;
-      }
-
-      const updatedSettingsJson = JSON.parse(JSON.stringify({
-        ...existingJson,
-        mobile_money: mobileMoneyConfig
-      }));
-
-      if (settings) {
-        const { error } = await supabase
-          .from("settings")
-          .update({ settings_json: updatedSettingsJson })
-          .eq("id", settings.id);
-
-        if (error) throw error;
-      } else {
-        const { error } = await supabase
-          .from("settings")
-          .insert([{
-            department_id: departmentId,
-            settings_json: updatedSettingsJson
-          }]);
-
-        if (error) throw error;
-      }
+      const values =
+        provider === "mtn"
+          ? {
+              environment: mtnConfig.environment,
+              is_enabled: mtnConfig.is_enabled,
+              api_base_url: blankToNull(mtnConfig.api_base_url),
+              mtn_api_user: blankToNull(mtnConfig.mtn_api_user),
+              mtn_api_key: blankToNull(mtnConfig.mtn_api_key),
+              mtn_subscription_key: blankToNull(mtnConfig.mtn_subscription_key),
+              mtn_disbursement_api_user: blankToNull(mtnConfig.mtn_disbursement_api_user),
+              mtn_disbursement_api_key: blankToNull(mtnConfig.mtn_disbursement_api_key),
+              mtn_disbursement_subscription_key: blankToNull(mtnConfig.mtn_disbursement_subscription_key),
+            }
+          : {
+              environment: airtelConfig.environment,
+              is_enabled: airtelConfig.is_enabled,
+              api_base_url: blankToNull(airtelConfig.api_base_url),
+              airtel_client_id: blankToNull(airtelConfig.airtel_client_id),
+              airtel_client_secret: blankToNull(airtelConfig.airtel_client_secret),
+            };
+
+      const { error } = await supabase
+        .from("mobile_money_settings")
+        .upsert({ department_id: departmentId, provider, ...values }, { onConflict: "department_id,provider" });
+
+      if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["mobile-money-settings"] });
       toast.success("Settings saved successfully");
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast.error(error.message || "Failed to save settings");
     },
   });
 
+  const testMutation = useMutation({
+    mutationFn: (provider: Provider) => {
+      if (!departmentId) throw new Error("Department ID required");
+      return fetchMobileMoneyBalance(departmentId, provider);
+    },
+    onSuccess: (balance) => {
+      toast.success(
+        `Connected. ${balance.currency} ${balance.available.toLocaleString()} available${balance.simulated ? " (simulated)" : ""}`
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Connection test failed");
+    },
+  });
+
   if (isLoading) {
     return (
       <Card>
@@ -156,13 +192,58 @@ export const MobileMoneySettings = ({ departmentId }: MobileMoneySettingsProps)
     );
   }
 
+  const renderActions = (provider: Provider) => (
+    <div className="flex gap-2">
+      <Button
+        variant="outline"
+        onClick={() => testMutation.mutate(provider)}
+        disabled={testMutation.isPending || !rows?.some((row) => row.provider === provider)}
+        className="flex-1"
+      >
+        {testMutation.isPending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <PlugZap className="mr-2 h-4 w-4" />
+        )}
+        Test Saved Settings
+      </Button>
+      <Button
+        onClick={() => saveMutation.mutate(provider)}
+        disabled={saveMutation.isPending}
+        className="flex-1"
+      >
+        {saveMutation.isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <CheckCircle2 className="mr-2 h-4 w-4" />
+            Save {provider === "mtn" ? "MTN" : "Airtel"} Configuration
+          </>
+        )}
+      </Button>
+    </div>
+  );
+
+  const simulatorNotice = (
+    <Alert>
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>
+        The simulator settles payments without contacting the provider, so cashiers can practise. A number
+        ending in 1 is declined, 2 never confirms and 3 pays UGX 1,000 too much; any other number pays.
+      </AlertDescription>
+    </Alert>
+  );
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>Mobile Money Configuration</CardTitle>
       </CardHeader>
       <CardContent>
-        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "mtn" | "airtel")}>
+        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as Provider)}>
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="mtn">MTN Mobile Money</TabsTrigger>
             <TabsTrigger value="airtel">Airtel Money</TabsTrigger>
@@ -173,27 +254,33 @@ export const MobileMoneySettings = ({ departmentId }: MobileMoneySettingsProps)
             <Alert>
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
-                Configure MTN MoMo API credentials. Get your API keys from MTN Developer Portal.
+                Configure MTN MoMo API credentials. Get your API keys from MTN Developer Portal. The sandbox
+                only accepts EUR amounts.
               </AlertDescription>
             </Alert>
 
             <div className="space-y-4">
               <div>
                 <Label htmlFor="mtn-env">Environment</Label>
-                <Select 
-                  value={mtnConfig.environment} 
+                <Select
+                  value={mtnConfig.environment}
                   onValueChange={(v) => setMtnConfig({ ...mtnConfig, environment: v })}
                 >
                   <SelectTrigger id="mtn-env">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="sandbox">Sandbox (Testing)</SelectItem>
-                    <SelectItem value="production">Production</SelectItem>
+                    {ENVIRONMENTS.map((env) => (
+                      <SelectItem key={env.value} value={env.value}>
+                        {env.label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
 
+              {mtnConfig.environment === "simulator" && simulatorNotice}
+
               <div>
                 <Label htmlFor="mtn-api-user">API User</Label>
                 <Input
@@ -233,7 +320,55 @@ export const MobileMoneySettings = ({ departmentId }: MobileMoneySettingsProps)
                   type={showSecrets.mtn ? "text" : "password"}
                   value={mtnConfig.mtn_subscription_key}
                   onChange={(e) => setMtnConfig({ ...mtnConfig, mtn_subscription_key: e.target.value })}
-                  placeholder="Enter Subscription Key"
+                  placeholder="Enter Collections Subscription Key"
+                />
+              </div>
+
+              <div className="space-y-4 rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">
+                  Refunds use the Disbursements product, which has its own API user and subscription key.
+                  Leave blank if you don't refund through MTN.
+                </p>
+                <div>
+                  <Label htmlFor="mtn-disb-user">Disbursements API User</Label>
+                  <Input
+                    id="mtn-disb-user"
+                    value={mtnConfig.mtn_disbursement_api_user}
+                    onChange={(e) => setMtnConfig({ ...mtnConfig, mtn_disbursement_api_user: e.target.value })}
+                    placeholder="Enter Disbursements API User"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="mtn-disb-key">Disbursements API Key</Label>
+                  <Input
+                    id="mtn-disb-key"
+                    type={showSecrets.mtn ? "text" : "password"}
+                    value={mtnConfig.mtn_disbursement_api_key}
+                    onChange={(e) => setMtnConfig({ ...mtnConfig, mtn_disbursement_api_key: e.target.value })}
+                    placeholder="Enter Disbursements API Key"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="mtn-disb-sub-key">Disbursements Subscription Key</Label>
+                  <Input
+                    id="mtn-disb-sub-key"
+                    type={showSecrets.mtn ? "text" : "password"}
+                    value={mtnConfig.mtn_disbursement_subscription_key}
+                    onChange={(e) =>
+                      setMtnConfig({ ...mtnConfig, mtn_disbursement_subscription_key: e.target.value })
+                    }
+                    placeholder="Enter Disbursements Subscription Key"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="mtn-api-base">API Host Override</Label>
+                <Input
+                  id="mtn-api-base"
+                  value={mtnConfig.api_base_url}
+                  onChange={(e) => setMtnConfig({ ...mtnConfig, api_base_url: e.target.value })}
+                  placeholder="Leave blank for MTN's host, e.g. http://localhost:4010 for the mock server"
                 />
               </div>
 
@@ -246,23 +381,7 @@ export const MobileMoneySettings = ({ departmentId }: MobileMoneySettingsProps)
                 <Label htmlFor="mtn-enabled">Enable MTN Mobile Money</Label>
               </div>
 
-              <Button
-                onClick={() => saveMutation.mutate("mtn")}
-                disabled={saveMutation.isPending}
-                className="w-full"
-              >
-                {saveMutation.isPending ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Saving...
-                  </>
-                ) : (
-                  <>
-                    <CheckCircle2 className="mr-2 h-4 w-4" />
-                    Save MTN Configuration
-                  </>
-                )}
-              </Button>
+              {renderActions("mtn")}
             </div>
           </TabsContent>
 
@@ -278,20 +397,25 @@ export const MobileMoneySettings = ({ departmentId }: MobileMoneySettingsProps)
             <div className="space-y-4">
               <div>
                 <Label htmlFor="airtel-env">Environment</Label>
-                <Select 
-                  value={airtelConfig.environment} 
+                <Select
+                  value={airtelConfig.environment}
                   onValueChange={(v) => setAirtelConfig({ ...airtelConfig, environment: v })}
                 >
                   <SelectTrigger id="airtel-env">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="sandbox">Sandbox (Testing)</SelectItem>
-                    <SelectItem value="production">Production</SelectItem>
+                    {ENVIRONMENTS.map((env) => (
+                      <SelectItem key={env.value} value={env.value}>
+                        {env.label}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
 
+              {airtelConfig.environment === "simulator" && simulatorNotice}
+
               <div>
                 <Label htmlFor="airtel-client-id">Client ID</Label>
                 <Input
@@ -324,6 +448,16 @@ export const MobileMoneySettings = ({ departmentId }: MobileMoneySettingsProps)
                 </div>
               </div>
 
+              <div>
+                <Label htmlFor="airtel-api-base">API Host Override</Label>
+                <Input
+                  id="airtel-api-base"
+                  value={airtelConfig.api_base_url}
+                  onChange={(e) => setAirtelConfig({ ...airtelConfig, api_base_url: e.target.value })}
+                  placeholder="Leave blank for Airtel's host, e.g. http://localhost:4010 for the mock server"
+                />
+              </div>
+
               <div className="flex items-center space-x-2">
                 <Switch
                   id="airtel-enabled"
@@ -333,23 +467,7 @@ export const MobileMoneySettings = ({ departmentId }: MobileMoneySettingsProps)
                 <Label htmlFor="airtel-enabled">Enable Airtel Money</Label>
               </div>
 
-              <Button
-                onClick={() => saveMutation.mutate("airtel")}
-                disabled={saveMutation.isPending}
-                className="w-full"
-              >
-                {saveMutation.isPending ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Saving...
-                  </>
-                ) : (
-                  <>
-                    <CheckCircle2 className="mr-2 h-4 w-4" />
-                    Save Airtel Configuration
-                  </>
-                )}
-              </Button>
+              {renderActions("airtel")}
             </div>
           </TabsContent>
         </Tabs>
@@ -0,0 +1,147 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Scale } from "lucide-react";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/useUserRole";
+import { StockTakeSettings as StockTakeSettingsConfig, getStockTakeSettings } from "@/utils/scentStockTake";
+
+interface StockTakeSettingsProps {
+  departmentId?: string;
+}
+
+export const StockTakeSettings = ({ departmentId }: StockTakeSettingsProps) => {
+  const queryClient = useQueryClient();
+  const { isAdmin } = useUserRole();
+  const isGlobal = !departmentId || departmentId === "global";
+  const [config, setConfig] = useState<StockTakeSettingsConfig>(getStockTakeSettings());
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["stock-take-settings-edit", departmentId],
+    queryFn: async () => {
+      let query = supabase.from("settings").select("*");
+      query = isGlobal ? query.is("department_id", null) : query.eq("department_id", departmentId);
+      const { data, error } = await query.maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    setConfig(getStockTakeSettings(settings));
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (config.varianceTolerancePercent < 0 || config.varianceToleranceMl < 0) {
+        throw new Error("Tolerances can't be negative");
+      }
+
+      const existingJson = (settings?.settings_json as Record<string, unknown>) || {};
+      const updatedSettingsJson = JSON.parse(JSON.stringify({
+        ...existingJson,
+        stockTake: config,
+      }));
+
+      if (settings) {
+        const { error } = await supabase
+          .from("settings")
+          .update({ settings_json: updatedSettingsJson })
+          .eq("id", settings.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("settings")
+          .insert([{
+            department_id: isGlobal ? null : departmentId,
+            settings_json: updatedSettingsJson
+          }]);
+
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["stock-take-settings-edit"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-take-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["global-settings"] });
+      toast.success("Stock-take settings saved");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save stock-take settings");
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="max-w-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-5 h-5" />
+          Scent Stock-Take Variance
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Tolerance (% of expected)</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.5"
+              value={config.varianceTolerancePercent}
+              onChange={(e) => setConfig({ ...config, varianceTolerancePercent: Number(e.target.value) })}
+              disabled={!isAdmin}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>At least (ml)</Label>
+            <Input
+              type="number"
+              min="0"
+              value={config.varianceToleranceMl}
+              onChange={(e) => setConfig({ ...config, varianceToleranceMl: Number(e.target.value) })}
+              disabled={!isAdmin}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          A weighed scent short by more than both is flagged as shrinkage. Evaporation and spills on the pump make
+          a little loss normal.
+        </p>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Send shrinkage to suspended revenue</Label>
+            <p className="text-xs text-muted-foreground">The UGX value at cost per ml is recorded for investigation</p>
+          </div>
+          <Switch
+            checked={config.suspendShrinkage}
+            onCheckedChange={(checked) => setConfig({ ...config, suspendShrinkage: checked })}
+            disabled={!isAdmin}
+          />
+        </div>
+
+        {isAdmin && (
+          <Button className="w-full" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Stock-Take Settings"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,440 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Percent, Plus, Pencil, Tags } from "lucide-react";
+import { toast } from "sonner";
+import { TaxProfileSelect } from "@/components/tax/TaxProfileSelect";
+import { TAX_TREATMENT_LABELS, TaxTreatment } from "@/utils/tax";
+
+interface TaxSettingsProps {
+  departmentId?: string;
+}
+
+const EMPTY_PROFILE = {
+  name: "",
+  code: "",
+  treatment: "standard" as TaxTreatment,
+  rate: 18,
+  is_inclusive: true,
+  is_default: false,
+  is_active: true,
+};
+
+const STANDARD_PROFILES = [
+  { name: "VAT 18%", code: "VAT18", treatment: "standard", rate: 18, is_inclusive: true, is_default: true },
+  { name: "Zero-rated", code: "ZERO", treatment: "zero_rated", rate: 0, is_inclusive: true, is_default: false },
+  { name: "Exempt", code: "EXEMPT", treatment: "exempt", rate: 0, is_inclusive: true, is_default: false },
+];
+
+export const TaxSettings = ({ departmentId }: TaxSettingsProps) => {
+  const queryClient = useQueryClient();
+  const isGlobal = !departmentId || departmentId === "global";
+  const scopeDepartmentId = isGlobal ? null : departmentId;
+  const [taxRate, setTaxRate] = useState(0);
+  const [editingProfile, setEditingProfile] = useState<Partial<Tables<"tax_profiles">> | null>(null);
+  const [profileForm, setProfileForm] = useState(EMPTY_PROFILE);
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["tax-settings", departmentId],
+    queryFn: async () => {
+      let query = supabase.from("settings").select("*");
+      query = isGlobal ? query.is("department_id", null) : query.eq("department_id", departmentId);
+      const { data, error } = await query.maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: profiles = [] } = useQuery({
+    queryKey: ["tax-profiles-admin", departmentId],
+    queryFn: async () => {
+      let query = supabase.from("tax_profiles").select("*");
+      query = isGlobal ? query.is("department_id", null) : query.eq("department_id", departmentId);
+      const { data, error } = await query.order("name");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ["tax-categories", departmentId],
+    queryFn: async () => {
+      let query = supabase.from("categories").select("*");
+      if (!isGlobal) {
+        query = query.or(`department_id.is.null,department_id.eq.${departmentId}`);
+      }
+      const { data, error } = await query.order("name");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  useEffect(() => {
+    setTaxRate(Number(settings?.tax_rate) || 0);
+  }, [settings]);
+
+  const invalidateTax = () => {
+    queryClient.invalidateQueries({ queryKey: ["tax-profiles-admin"] });
+    queryClient.invalidateQueries({ queryKey: ["tax-profiles"] });
+    queryClient.invalidateQueries({ queryKey: ["tax-context"] });
+  };
+
+  const saveRateMutation = useMutation({
+    mutationFn: async () => {
+      if (taxRate < 0 || taxRate > 100) {
+        throw new Error("Tax rate must be between 0 and 100%");
+      }
+
+      if (settings) {
+        const { error } = await supabase
+          .from("settings")
+          .update({ tax_rate: taxRate })
+          .eq("id", settings.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("settings")
+          .insert([{ department_id: scopeDepartmentId, tax_rate: taxRate }]);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tax-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["tax-context"] });
+      toast.success("Default tax rate saved");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save tax rate");
+    },
+  });
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async () => {
+      if (!profileForm.name.trim()) {
+        throw new Error("Profile name is required");
+      }
+      if (profileForm.treatment === "standard" && (profileForm.rate <= 0 || profileForm.rate > 100)) {
+        throw new Error("Standard profiles need a rate between 0 and 100%");
+      }
+
+      const payload = {
+        ...profileForm,
+        name: profileForm.name.trim(),
+        code: profileForm.code.trim() || null,
+        rate: profileForm.treatment === "standard" ? profileForm.rate : 0,
+        department_id: scopeDepartmentId,
+        updated_at: new Date().toISOString(),
+      };
+
+      // Only one default per scope
+      if (payload.is_default) {
+        let clearQuery = supabase.from("tax_profiles").update({ is_default: false });
+        clearQuery = isGlobal ? clearQuery.is("department_id", null) : clearQuery.eq("department_id", departmentId);
+        const { error } = await clearQuery;
+        if (error) throw error;
+      }
+
+      if (editingProfile?.id) {
+        const { error } = await supabase.from("tax_profiles").update(payload).eq("id", editingProfile.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("tax_profiles").insert([payload]);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidateTax();
+      setEditingProfile(null);
+      toast.success("Tax profile saved");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save tax profile");
+    },
+  });
+
+  const seedProfilesMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from("tax_profiles")
+        .insert(STANDARD_PROFILES.map((p) => ({ ...p, department_id: scopeDepartmentId })));
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateTax();
+      toast.success("Standard tax profiles added");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to add profiles");
+    },
+  });
+
+  const updateCategoryMutation = useMutation({
+    mutationFn: async ({ categoryId, taxProfileId }: { categoryId: string; taxProfileId: string | null }) => {
+      const { error } = await supabase
+        .from("categories")
+        .update({ tax_profile_id: taxProfileId })
+        .eq("id", categoryId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tax-categories"] });
+      queryClient.invalidateQueries({ queryKey: ["tax-context"] });
+      toast.success("Category tax profile updated");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update category");
+    },
+  });
+
+  const openProfileDialog = (profile?: Tables<"tax_profiles">) => {
+    setEditingProfile(profile || {});
+    setProfileForm(profile ? {
+      name: profile.name,
+      code: profile.code || "",
+      treatment: profile.treatment as TaxTreatment,
+      rate: Number(profile.rate) || 0,
+      is_inclusive: profile.is_inclusive,
+      is_default: profile.is_default,
+      is_active: profile.is_active,
+    } : EMPTY_PROFILE);
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="w-5 h-5" />
+            Default Tax Rate
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2 items-end max-w-sm">
+            <div className="space-y-2 flex-1">
+              <Label>Tax rate (%)</Label>
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                value={taxRate}
+                onChange={(e) => setTaxRate(Number(e.target.value))}
+              />
+            </div>
+            <Button onClick={() => saveRateMutation.mutate()} disabled={saveRateMutation.isPending}>
+              {saveRateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Applied (tax-inclusive) to items with no tax profile when no default profile is set.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="w-5 h-5" />
+            Tax Profiles {isGlobal ? "(all departments)" : ""}
+          </CardTitle>
+          <div className="flex gap-2">
+            {profiles.length === 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => seedProfilesMutation.mutate()}
+                disabled={seedProfilesMutation.isPending}
+              >
+                Add VAT / Zero-rated / Exempt
+              </Button>
+            )}
+            <Button size="sm" onClick={() => openProfileDialog()}>
+              <Plus className="w-4 h-4 mr-1" />
+              New Profile
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Treatment</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead>Pricing</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {profiles.map((profile) => (
+                <TableRow key={profile.id} className={profile.is_active ? "" : "opacity-50"}>
+                  <TableCell className="font-medium">
+                    {profile.name}
+                    {profile.code && <span className="text-xs text-muted-foreground ml-1">({profile.code})</span>}
+                    {profile.is_default && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                    {!profile.is_active && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                  </TableCell>
+                  <TableCell>{TAX_TREATMENT_LABELS[profile.treatment as TaxTreatment] || profile.treatment}</TableCell>
+                  <TableCell className="text-right">{profile.treatment === "standard" ? `${profile.rate}%` : "-"}</TableCell>
+                  <TableCell>{profile.is_inclusive ? "Tax inclusive" : "Tax exclusive"}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => openProfileDialog(profile)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {profiles.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No tax profiles yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tags className="w-5 h-5" />
+            Category Tax Profiles
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-xs text-muted-foreground">
+            Products and services without their own tax profile use their category's profile.
+          </p>
+          {categories.map((category) => (
+            <div key={category.id} className="grid grid-cols-2 gap-4 items-center">
+              <div>
+                <p className="font-medium">{category.name}</p>
+                <p className="text-xs text-muted-foreground capitalize">{category.type || "product"}</p>
+              </div>
+              <TaxProfileSelect
+                value={category.tax_profile_id}
+                onChange={(value) => updateCategoryMutation.mutate({ categoryId: category.id, taxProfileId: value })}
+                departmentId={category.department_id || scopeDepartmentId}
+                inheritLabel="Use default"
+                disabled={updateCategoryMutation.isPending}
+              />
+            </div>
+          ))}
+          {categories.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center">No categories found</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editingProfile} onOpenChange={(open) => !open && setEditingProfile(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingProfile?.id ? "Edit Tax Profile" : "New Tax Profile"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={profileForm.name}
+                  onChange={(e) => setProfileForm({ ...profileForm, name: e.target.value })}
+                  placeholder="e.g., VAT 18%"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Code (for returns)</Label>
+                <Input
+                  value={profileForm.code}
+                  onChange={(e) => setProfileForm({ ...profileForm, code: e.target.value })}
+                  placeholder="e.g., VAT18"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Treatment</Label>
+                <Select
+                  value={profileForm.treatment}
+                  onValueChange={(value) => setProfileForm({ ...profileForm, treatment: value as TaxTreatment })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TAX_TREATMENT_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Rate (%)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={profileForm.treatment === "standard" ? profileForm.rate : 0}
+                  onChange={(e) => setProfileForm({ ...profileForm, rate: Number(e.target.value) })}
+                  disabled={profileForm.treatment !== "standard"}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Prices include tax</Label>
+                <p className="text-xs text-muted-foreground">Off: tax is added on top of the selling price</p>
+              </div>
+              <Switch
+                checked={profileForm.is_inclusive}
+                onCheckedChange={(checked) => setProfileForm({ ...profileForm, is_inclusive: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Default for items without a profile</Label>
+              <Switch
+                checked={profileForm.is_default}
+                onCheckedChange={(checked) => setProfileForm({ ...profileForm, is_default: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Active</Label>
+              <Switch
+                checked={profileForm.is_active}
+                onCheckedChange={(checked) => setProfileForm({ ...profileForm, is_active: checked })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingProfile(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveProfileMutation.mutate()} disabled={saveProfileMutation.isPending}>
+              {saveProfileMutation.isPending ? "Saving..." : "Save Profile"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
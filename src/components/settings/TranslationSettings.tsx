@@ -0,0 +1,259 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Languages, Loader2, RotateCcw, Search } from "lucide-react";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/useUserRole";
+import {
+  LANGUAGES,
+  Language,
+  TRANSLATIONS,
+  TRANSLATION_SECTIONS,
+  TranslationKey,
+} from "@/constants/translations";
+import { I18nSettings, parseI18nSettings } from "@/utils/i18n";
+
+interface TranslationSettingsProps {
+  departmentId?: string;
+}
+
+const TRANSLATION_KEYS = Object.keys(TRANSLATIONS.en) as TranslationKey[];
+
+export const TranslationSettings = ({ departmentId }: TranslationSettingsProps) => {
+  const queryClient = useQueryClient();
+  const { isAdmin } = useUserRole();
+  const isGlobal = !departmentId || departmentId === "global";
+  const [config, setConfig] = useState<I18nSettings>(parseI18nSettings(null));
+  const [editLanguage, setEditLanguage] = useState<Language>("sw");
+  const [section, setSection] = useState("all");
+  const [search, setSearch] = useState("");
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["i18n-settings-edit", departmentId],
+    queryFn: async () => {
+      let query = supabase.from("settings").select("*");
+      query = isGlobal ? query.is("department_id", null) : query.eq("department_id", departmentId);
+      const { data, error } = await query.maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    const saved = (settings?.settings_json as Record<string, unknown> | null)?.i18n;
+    setConfig(parseI18nSettings(saved));
+  }, [settings]);
+
+  const overrides = config.overrides[editLanguage] || {};
+  const overrideCount = Object.values(overrides).filter(Boolean).length;
+
+  const setOverride = (key: TranslationKey, value: string) => {
+    const next = { ...overrides, [key]: value };
+    if (!value) delete next[key];
+    setConfig({ ...config, overrides: { ...config.overrides, [editLanguage]: next } });
+  };
+
+  const term = search.trim().toLowerCase();
+  const rows = TRANSLATION_KEYS.filter((key) => {
+    if (section !== "all" && !key.startsWith(`${section}.`)) return false;
+    if (!term) return true;
+    return [key, TRANSLATIONS.en[key], TRANSLATIONS[editLanguage][key], overrides[key]]
+      .some((text) => text?.toLowerCase().includes(term));
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const existingJson = (settings?.settings_json as Record<string, unknown>) || {};
+      // Drop blanks so a cleared override falls back to the catalog
+      const cleanOverrides = Object.fromEntries(
+        Object.entries(config.overrides)
+          .map(([language, strings]) => [
+            language,
+            Object.fromEntries(Object.entries(strings || {}).filter(([, value]) => value?.trim())),
+          ])
+          .filter(([, strings]) => Object.keys(strings).length > 0)
+      );
+      const updatedSettingsJson = JSON.parse(JSON.stringify({
+        ...existingJson,
+        i18n: { defaultLanguage: config.defaultLanguage, overrides: cleanOverrides },
+      }));
+
+      if (settings) {
+        const { error } = await supabase
+          .from("settings")
+          .update({ settings_json: updatedSettingsJson })
+          .eq("id", settings.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("settings")
+          .insert([{
+            department_id: isGlobal ? null : departmentId,
+            settings_json: updatedSettingsJson
+          }]);
+
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["i18n-settings-edit"] });
+      queryClient.invalidateQueries({ queryKey: ["i18n-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["global-settings"] });
+      toast.success("Language settings saved");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save language settings");
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Languages className="w-5 h-5" />
+          Customer Languages
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2 max-w-xs">
+          <Label>Default Language</Label>
+          <Select
+            value={config.defaultLanguage}
+            onValueChange={(value) => setConfig({ ...config, defaultLanguage: value as Language })}
+            disabled={!isAdmin}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(LANGUAGES).map(([code, name]) => (
+                <SelectItem key={code} value={code}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Used for receipts, invoices, WhatsApp messages and public pages unless the customer has a preferred language
+            {isGlobal ? "" : " - overrides the business-wide default for this department"}.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2">
+              <Label>Edit Strings For</Label>
+              <Select value={editLanguage} onValueChange={(value) => setEditLanguage(value as Language)}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LANGUAGES).map(([code, name]) => (
+                    <SelectItem key={code} value={code}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Section</Label>
+              <Select value={section} onValueChange={setSection}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All sections</SelectItem>
+                  {Object.entries(TRANSLATION_SECTIONS).map(([prefix, label]) => (
+                    <SelectItem key={prefix} value={prefix}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="relative flex-1 min-w-[180px]">
+              <Search className="absolute left-2 top-2.5 w-4 h-4 text-muted-foreground" />
+              <Input
+                className="pl-8"
+                placeholder="Search strings..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+            <Badge variant="secondary">{overrideCount} overridden</Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave a string blank to use the built-in text. Keep placeholders like {"{number}"} and {"{business}"} - they are
+            filled in when the message is sent.
+          </p>
+
+          <ScrollArea className="h-[480px] rounded-md border">
+            <div className="divide-y">
+              {rows.map((key) => {
+                const builtIn = TRANSLATIONS[editLanguage][key] || TRANSLATIONS.en[key];
+                const multiline = builtIn.includes("\n") || builtIn.length > 80;
+                return (
+                  <div key={key} className="grid gap-2 p-3 md:grid-cols-2">
+                    <div className="space-y-1">
+                      <p className="font-mono text-xs text-muted-foreground">{key}</p>
+                      <p className="text-sm whitespace-pre-line">{TRANSLATIONS.en[key]}</p>
+                      {editLanguage !== "en" && !TRANSLATIONS[editLanguage][key] && (
+                        <Badge variant="outline" className="text-xs">No {LANGUAGES[editLanguage]} text - English is used</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-start gap-2">
+                      {multiline ? (
+                        <Textarea
+                          rows={2}
+                          value={overrides[key] || ""}
+                          placeholder={builtIn}
+                          onChange={(e) => setOverride(key, e.target.value)}
+                          disabled={!isAdmin}
+                        />
+                      ) : (
+                        <Input
+                          value={overrides[key] || ""}
+                          placeholder={builtIn}
+                          onChange={(e) => setOverride(key, e.target.value)}
+                          disabled={!isAdmin}
+                        />
+                      )}
+                      {overrides[key] && isAdmin && (
+                        <Button size="icon" variant="ghost" title="Use built-in text" onClick={() => setOverride(key, "")}>
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+              {rows.length === 0 && (
+                <p className="p-6 text-center text-sm text-muted-foreground">No strings match your search</p>
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+
+        {isAdmin && (
+          <Button className="w-full" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Language Settings"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
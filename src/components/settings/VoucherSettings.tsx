@@ -0,0 +1,156 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Gift, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/useUserRole";
+import { VoucherSettings as VoucherSettingsConfig, getVoucherSettings } from "@/utils/giftVouchers";
+
+interface VoucherSettingsProps {
+  departmentId?: string;
+}
+
+export const VoucherSettings = ({ departmentId }: VoucherSettingsProps) => {
+  const queryClient = useQueryClient();
+  const { isAdmin } = useUserRole();
+  const isGlobal = !departmentId || departmentId === "global";
+  const [config, setConfig] = useState<VoucherSettingsConfig>(getVoucherSettings());
+  const [denominations, setDenominations] = useState("");
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["voucher-settings-edit", departmentId],
+    queryFn: async () => {
+      let query = supabase.from("settings").select("*");
+      query = isGlobal ? query.is("department_id", null) : query.eq("department_id", departmentId);
+      const { data, error } = await query.maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    const saved = getVoucherSettings(settings);
+    setConfig(saved);
+    setDenominations(saved.denominations.join(", "));
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const values = denominations
+        .split(/[,\s]+/)
+        .filter(Boolean)
+        .map(Number);
+      if (values.some((value) => !(value > 0))) {
+        throw new Error("Denominations must be amounts above zero, separated by commas");
+      }
+      if (values.length === 0 && !config.allowOpenValue) {
+        throw new Error("Add a denomination or allow other amounts");
+      }
+      if (config.expiryMonths < 0) throw new Error("Expiry can't be negative");
+
+      const existingJson = (settings?.settings_json as Record<string, unknown>) || {};
+      const updatedSettingsJson = JSON.parse(JSON.stringify({
+        ...existingJson,
+        vouchers: { ...config, denominations: [...new Set(values)].sort((a, b) => a - b) },
+      }));
+
+      if (settings) {
+        const { error } = await supabase
+          .from("settings")
+          .update({ settings_json: updatedSettingsJson })
+          .eq("id", settings.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("settings")
+          .insert([{
+            department_id: isGlobal ? null : departmentId,
+            settings_json: updatedSettingsJson
+          }]);
+
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["voucher-settings-edit"] });
+      queryClient.invalidateQueries({ queryKey: ["voucher-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["credit-note-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["global-settings"] });
+      toast.success("Voucher settings saved");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save voucher settings");
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="max-w-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gift className="w-5 h-5" />
+          Gift Vouchers
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Denominations (UGX)</Label>
+          <Input
+            value={denominations}
+            onChange={(e) => setDenominations(e.target.value)}
+            placeholder="e.g. 20000, 50000, 100000"
+            disabled={!isAdmin}
+          />
+          <p className="text-xs text-muted-foreground">Fixed values offered when issuing a voucher</p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label>Allow other amounts</Label>
+            <p className="text-xs text-muted-foreground">Staff can issue a voucher for any value</p>
+          </div>
+          <Switch
+            checked={config.allowOpenValue}
+            onCheckedChange={(checked) => setConfig({ ...config, allowOpenValue: checked })}
+            disabled={!isAdmin}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Valid for (months)</Label>
+          <Input
+            type="number"
+            min="0"
+            value={config.expiryMonths}
+            onChange={(e) => setConfig({ ...config, expiryMonths: Number(e.target.value) })}
+            disabled={!isAdmin}
+          />
+          <p className="text-xs text-muted-foreground">
+            0 = no expiry. Also used for vouchers given as return refunds.
+          </p>
+        </div>
+
+        {isAdmin && (
+          <Button className="w-full" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Voucher Settings"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TAX_TREATMENT_LABELS, TaxTreatment } from "@/utils/tax";
+
+// Radix Select does not allow an empty string value
+const INHERIT_VALUE = "inherit";
+
+interface TaxProfileSelectProps {
+  value: string | null | undefined;
+  onChange: (value: string | null) => void;
+  departmentId?: string | null;
+  inheritLabel?: string;
+  disabled?: boolean;
+}
+
+export const TaxProfileSelect = ({
+  value,
+  onChange,
+  departmentId,
+  inheritLabel = "Use category / default",
+  disabled,
+}: TaxProfileSelectProps) => {
+  const { data: profiles = [] } = useQuery({
+    queryKey: ["tax-profiles", departmentId || "global"],
+    queryFn: async () => {
+      let query = supabase.from("tax_profiles").select("*").eq("is_active", true);
+      query = departmentId
+        ? query.or(`department_id.is.null,department_id.eq.${departmentId}`)
+        : query.is("department_id", null);
+      const { data, error } = await query.order("name");
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  return (
+    <Select
+      value={value || INHERIT_VALUE}
+      onValueChange={(v) => onChange(v === INHERIT_VALUE ? null : v)}
+      disabled={disabled}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={INHERIT_VALUE}>{inheritLabel}</SelectItem>
+        {profiles.map((profile) => (
+          <SelectItem key={profile.id} value={profile.id}>
+            {profile.name}
+            {profile.treatment === "standard"
+              ? ` - ${profile.rate}% ${profile.is_inclusive ? "incl." : "excl."}`
+              : ` - ${TAX_TREATMENT_LABELS[profile.treatment as TaxTreatment] || profile.treatment}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
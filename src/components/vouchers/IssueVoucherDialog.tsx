@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/useUserRole";
+import { cn } from "@/lib/utils";
+import {
+  GiftVoucher,
+  VOUCHER_SOURCE_LABELS,
+  VoucherSettings,
+  VoucherSource,
+  getVoucherExpiry,
+  issueGiftVoucher,
+} from "@/utils/giftVouchers";
+
+interface IssueVoucherDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  departmentId: string | null;
+  settings: VoucherSettings;
+  onIssued: (voucher: GiftVoucher) => void;
+}
+
+type PaymentMethod = "cash" | "card" | "mobile_money";
+
+const PAYMENT_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  mobile_money: "Mobile Money",
+};
+
+export const IssueVoucherDialog = ({ open, onOpenChange, departmentId, settings, onIssued }: IssueVoucherDialogProps) => {
+  const queryClient = useQueryClient();
+  const { isAdmin, isModerator } = useUserRole();
+  const [amount, setAmount] = useState(0);
+  const [openValue, setOpenValue] = useState(false);
+  const [source, setSource] = useState<VoucherSource>("sold");
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
+  const [paymentReference, setPaymentReference] = useState("");
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [recipientName, setRecipientName] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setAmount(settings.denominations[0] || 0);
+    setOpenValue(settings.denominations.length === 0);
+    setSource("sold");
+    setPaymentMethod("cash");
+    setPaymentReference("");
+    setCustomerId(null);
+    setRecipientName("");
+    setExpiresAt(getVoucherExpiry(settings) || "");
+    setNotes("");
+  }, [open, settings]);
+
+  const { data: customers = [] } = useQuery({
+    queryKey: ["voucher-customers", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("customers")
+        .select("id, name, phone")
+        .eq("department_id", departmentId)
+        .order("name");
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: open && !!departmentId,
+  });
+
+  const issueMutation = useMutation({
+    mutationFn: () => {
+      if (!departmentId) throw new Error("Select a department first");
+      if (!(amount > 0)) throw new Error("Enter the voucher value");
+      return issueGiftVoucher({
+        departmentId,
+        amount,
+        valueType: openValue ? "open" : "fixed",
+        expiresAt: expiresAt || null,
+        source,
+        paymentMethod: source === "sold" ? paymentMethod : null,
+        paymentReference,
+        customerId,
+        recipientName,
+        notes,
+      });
+    },
+    onSuccess: (voucher) => {
+      toast.success(`Voucher ${voucher.code} issued`);
+      queryClient.invalidateQueries({ queryKey: ["gift-vouchers"] });
+      queryClient.invalidateQueries({ queryKey: ["voucher-liability"] });
+      queryClient.invalidateQueries({ queryKey: ["todays-cash-sales"] });
+      onIssued(voucher);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to issue voucher");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !issueMutation.isPending && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Issue Gift Voucher</DialogTitle>
+          <DialogDescription>The voucher gets a unique code to print or send to the customer</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Value</Label>
+            <div className="flex flex-wrap gap-2">
+              {settings.denominations.map((denomination) => (
+                <Button
+                  key={denomination}
+                  type="button"
+                  size="sm"
+                  variant={!openValue && amount === denomination ? "default" : "outline"}
+                  onClick={() => {
+                    setOpenValue(false);
+                    setAmount(denomination);
+                  }}
+                >
+                  UGX {denomination.toLocaleString()}
+                </Button>
+              ))}
+              {settings.allowOpenValue && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={openValue ? "default" : "outline"}
+                  onClick={() => setOpenValue(true)}
+                >
+                  Other amount
+                </Button>
+              )}
+            </div>
+            {openValue && (
+              <Input
+                type="number"
+                min="0"
+                value={amount || ""}
+                onChange={(e) => setAmount(Number(e.target.value) || 0)}
+                placeholder="Amount in UGX"
+              />
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Issued as</Label>
+              <Select value={source} onValueChange={(value) => setSource(value as VoucherSource)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sold">{VOUCHER_SOURCE_LABELS.sold}</SelectItem>
+                  <SelectItem value="complimentary" disabled={!isAdmin && !isModerator}>
+                    {VOUCHER_SOURCE_LABELS.complimentary}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {source === "sold" && (
+              <div className="space-y-2">
+                <Label>Paid by</Label>
+                <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PAYMENT_LABELS) as PaymentMethod[]).map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {PAYMENT_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {source === "sold" && paymentMethod !== "cash" && (
+            <Input
+              value={paymentReference}
+              onChange={(e) => setPaymentReference(e.target.value)}
+              placeholder={paymentMethod === "card" ? "Card approval code" : "Transaction ID"}
+            />
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Bought by</Label>
+              <Select value={customerId || "none"} onValueChange={(value) => setCustomerId(value === "none" ? null : value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Walk-in</SelectItem>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>
+                      {customer.name}
+                      {customer.phone ? ` - ${customer.phone}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>For (printed)</Label>
+              <Input value={recipientName} onChange={(e) => setRecipientName(e.target.value)} placeholder="Optional" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Valid until</Label>
+              <Input type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+              <p className={cn("text-xs text-muted-foreground", expiresAt && "invisible")}>No expiry</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Notes</Label>
+              <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional" />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={issueMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => issueMutation.mutate()} disabled={issueMutation.isPending || !(amount > 0)}>
+            {issueMutation.isPending ? "Issuing..." : `Issue UGX ${amount.toLocaleString()} Voucher`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { useUserRole } from "@/hooks/useUserRole";
+import {
+  GiftVoucher,
+  GiftVoucherTransaction,
+  VOUCHER_SOURCE_LABELS,
+  VOUCHER_STATE_LABELS,
+  VOUCHER_TRANSACTION_LABELS,
+  VoucherSource,
+  cancelGiftVoucher,
+  getVoucherState,
+} from "@/utils/giftVouchers";
+
+interface VoucherHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  voucher: GiftVoucher | null;
+}
+
+export const VoucherHistoryDialog = ({ open, onOpenChange, voucher }: VoucherHistoryDialogProps) => {
+  const queryClient = useQueryClient();
+  const { isAdmin } = useUserRole();
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  const { data: transactions = [] } = useQuery({
+    queryKey: ["gift-voucher-transactions", voucher?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("gift_voucher_transactions")
+        .select("*, sales(receipt_number)")
+        .eq("voucher_id", voucher?.id)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return (data || []) as (GiftVoucherTransaction & { sales: { receipt_number: string } | null })[];
+    },
+    enabled: open && !!voucher,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => {
+      if (!reason.trim()) throw new Error("Give a reason for cancelling the voucher");
+      return cancelGiftVoucher(voucher!.id, reason.trim());
+    },
+    onSuccess: () => {
+      toast.success("Voucher cancelled");
+      queryClient.invalidateQueries({ queryKey: ["gift-vouchers"] });
+      queryClient.invalidateQueries({ queryKey: ["gift-voucher-transactions", voucher?.id] });
+      queryClient.invalidateQueries({ queryKey: ["voucher-liability"] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to cancel voucher");
+    },
+  });
+
+  if (!voucher) return null;
+  const state = getVoucherState(voucher);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <span className="font-mono">{voucher.code}</span>
+            <Badge variant={state === "active" ? "default" : "secondary"}>{VOUCHER_STATE_LABELS[state]}</Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {VOUCHER_SOURCE_LABELS[voucher.source as VoucherSource] || voucher.source} for UGX{" "}
+            {Number(voucher.initial_value).toLocaleString()}
+            {voucher.recipient_name ? ` - for ${voucher.recipient_name}` : ""}
+            {voucher.expires_at ? `, valid until ${format(new Date(voucher.expires_at), "dd MMM yyyy")}` : ", no expiry"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="bg-primary/10 p-4 rounded-lg border border-primary/20">
+          <p className="text-sm text-muted-foreground">Balance</p>
+          <p className="text-2xl font-bold text-primary">UGX {Number(voucher.balance).toLocaleString()}</p>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {transactions.map((tx) => (
+              <TableRow key={tx.id}>
+                <TableCell className="text-xs">{format(new Date(tx.created_at), "dd MMM yyyy HH:mm")}</TableCell>
+                <TableCell>
+                  <p className="text-sm">{VOUCHER_TRANSACTION_LABELS[tx.transaction_type] || tx.transaction_type}</p>
+                  <p className="text-xs text-muted-foreground">{tx.sales?.receipt_number || tx.notes}</p>
+                </TableCell>
+                <TableCell className="text-right">
+                  {Number(tx.amount) > 0 ? "+" : ""}
+                  {Number(tx.amount).toLocaleString()}
+                </TableCell>
+                <TableCell className="text-right">{Number(tx.balance_after).toLocaleString()}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {isAdmin && voucher.status !== "cancelled" && (
+          <div className="flex gap-2 items-center border rounded-lg p-3">
+            <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason, e.g. Reported lost" />
+            <Button variant="destructive" onClick={() => cancelMutation.mutate()} disabled={cancelMutation.isPending}>
+              Cancel Voucher
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,734 +0,0 @@
-export const PERFUME_SCENTS = [
-  "1 MILLION (M)",
-  "212 (M)",
-  "212 (W)",
-  "212 HEROES FOREVER YOUNG (M)",
-  "212 MAN",
-  "212 NYC PILLS MEN",
-  "212 SEXY (W)",
-  "212 SEXY MAN",
-  "212 VIP (M)",
-  "212 VIP (W)",
-  "212 VIP BLACK",
-  "212 VIP BLACK RED MAN",
-  "212 VIP MAN",
-  "212 VIP MAN PARTY FEVER",
-  "212 VIP RED",
-  "212 VIP ROSE",
-  "212 VIP WILD PARTY",
-  "212 VIP WOMAN",
-  "5TH AVENUE",
-  "5TH AVENUE (W)",
-  "6 PLACE SAINT SULPICE",
-  "9PM",
-  "9PM REBEL",
-  "A MEN FANTASM",
-  "A THOUSAND WISHES",
-  "ACCENTO SOSPIRO",
-  "ACQUA DI GIO",
-  "ACQUA DI GIO PROFUMO",
-  "ACTIVE MAN",
-  "ACTIVE WOMAN",
-  "ADIDAS",
-  "AFRICAN VANILLA",
-  "AL HARAMAIN AMBER OUD",
-  "AL REHAB CHOCO",
-  "AL REHAB SOFT LADY",
-  "ALIEN AQUA",
-  "ALIEN MAN",
-  "ALIEN WOMAN",
-  "ALLURE SPORT CHANEL",
-  "AMBER CINNAMON",
-  "AMEER AL OUDH",
-  "AMEERAAT AL ARAB",
-  "AMO",
-  "AMOR AMOR",
-  "AMOR AMOR ELECTRIC KISS",
-  "AMOUGE GUIDANCE",
-  "AMOUGE LOVE DELIGHT",
-  "AMOUGE PURPOSE",
-  "ANA ABIYEDH",
-  "ANAIS ANAIS",
-  "ANGEL (M)",
-  "ANGEL MAN",
-  "ANGEL MASS",
-  "ANGEL WOMAN",
-  "APPLE",
-  "AQUA DI GRIO (M)",
-  "ARDEN BEAUTY (M)",
-  "ARMANI CODE (M)",
-  "ARMANI CODE (W)",
-  "ARMANI CODE BLACK",
-  "ARMANI CODE ICE",
-  "ARMANI CODE NOIR",
-  "ARMANI DIAMOND",
-  "ARMANI PRIVE",
-  "ASAD",
-  "ATTRACTIVE",
-  "AZZARO (M)",
-  "AZZARO POUR HOMME",
-  "BACCARAT ROUGE 540",
-  "BACCARAT ROUGE",
-  "BACCARAT ROUGE EXTRAIT",
-  "BAD BOY",
-  "BAD BOY DAZZLING GARDEN",
-  "BADEE AL OUD GLORY",
-  "BAMBOO",
-  "BANANA CAR FRESHNER",
-  "BE DELICIOUS",
-  "BEAUTIFUL",
-  "BEAUTIFUL (W)",
-  "BELLE DE JOUR DIOR",
-  "BENTLEY",
-  "BENTLEY INTENSE MAN",
-  "BERIES WEEKEND",
-  "BEYONCE HEAT",
-  "BEYONCE HEAT RUSH",
-  "BEYONCE MIDNIGHT HEAT",
-  "BEYONCE PULSE",
-  "BHB BOTTLE SIGNATURE",
-  "BLACK ICE",
-  "BLACK OPIUM",
-  "BLACK OPIUM (W)",
-  "BLACK ORCHID",
-  "BLACK XS (M)",
-  "BLACK XS BE LEGEND",
-  "BLACK XS FOR HER",
-  "BLACK XS L'EXCESS MAN",
-  "BLACK XS L'EXCESS WOMAN",
-  "BLACK XS LOS ANGELES MEN",
-  "BLACK XS MAN",
-  "BLACK XS WOMAN",
-  "BLOOM",
-  "BLUE FOR MEN",
-  "BLUE ICE",
-  "BLUE LADY",
-  "BLUE SEDUCTION",
-  "BLUE SULPHIRE",
-  "BLUE TIME",
-  "BLUE TURQUOISE",
-  "BLUE VERSACE MAN",
-  "BLUEBERRY",
-  "BODY",
-  "BOMB SHELL V/S",
-  "BOMBSHELL",
-  "BOMBSHELL OUD",
-  "BOMBSHELL WILD FLOWER",
-  "BOND SIGNATURE",
-  "BOSS BOTTLED INFINITE",
-  "BOSS BOTTLED UNITED",
-  "BOSS NUIT",
-  "BOSS ORANGE",
-  "BOSS SOUL",
-  "BOSS THE SCENT FOR HER",
-  "BOSS THE SCENT FOR HIM",
-  "BROWN ORCHID",
-  "BUBBLE GUM",
-  "BUBERRYS (W)",
-  "BULGARI EXTREMELY",
-  "BULGARI MAN WOOD",
-  "BURBERRY BRIT",
-  "BURBERRY GODDESS (W)",
-  "BURBERRY INTENSE",
-  "BURBERRY LONDON",
-  "BURBERRY THE BEAT",
-  "BURBERRY WEEKEND",
-  "BVLGARI (M)",
-  "BVLGARI AQUA",
-  "BVLGARI EXTREME MAN",
-  "BVLGARI GOLDEA WOMAN",
-  "BVLGARI MAN",
-  "BVLGARI MAN IN BLACK",
-  "BVLGARI MAN WOOD ESSENCE",
-  "CE NOIR BEYONCE (M)",
-  "CERRUTI 1881 (W)",
-  "CHAMPION",
-  "CHANCE (W)",
-  "CHANCE CHANEL",
-  "CHANCE CHANEL (W)",
-  "CHANEL BLUE",
-  "CHANEL COMETE",
-  "CHANEL NO. 5",
-  "CHANEL PLATINUM",
-  "CHANNEL 5 (W)",
-  "CHANNEL ALLURE (M)",
-  "CHANNEL ALLURE (W)",
-  "CHANNEL BLUE (M)",
-  "CHANNEL NO.5",
-  "CHASTITY",
-  "CHELSEA",
-  "CHLO NUIT",
-  "CHLO ROSE",
-  "CHLOE",
-  "CHLOE (W)",
-  "CHLOE NOMADE ABSOLU DE PARFUM",
-  "CHOCO MUSK",
-  "CHOCOLATE",
-  "CHOCOLATE CAR FRESHNER",
-  "CHROME AZZARO",
-  "CK 1 (W)",
-  "CK ALL (M)",
-  "CK BE",
-  "CK IN 2 U HER (W)",
-  "CK IN 2 U HIM (M)",
-  "CK OBSESSION (W)",
-  "CK ONE",
-  "CK REVEAL",
-  "CLUB DE NUIT INTENCE (M)",
-  "CLUB DE NUIT INTENSE MAN",
-  "CODE ABSOLU",
-  "COCO CHANEL",
-  "COCO MADEMOISELLE",
-  "COCONUT",
-  "COCONUT PASSION",
-  "COOL WATER (M)",
-  "COOL WATER (W)",
-  "COOL WATER MEN",
-  "COOL WATERS MAN",
-  "COOL WATERS WOMAN BLUE",
-  "COOL WATERS WOMAN CLEAR",
-  "CREED AVENTIS (M)",
-  "CREED AVENTIS (W)",
-  "CREED AVENTUS MAN",
-  "CREED AVENTUS WOMAN",
-  "CREED QUEEN OF SILK",
-  "CREED SILVER",
-  "CREED SILVER MOUNTAIN",
-  "D&G INTENSE WOMAN",
-  "D&G LIGHT BLUE FOREVER MAN",
-  "D&G LIGHT BLUE MAN",
-  "D&G LIGHT BLUE WOMAN",
-  "D&G THE ONE MAN",
-  "D&G THE ONE WOMAN",
-  "D&G THE ONLY ONE",
-  "DANGEROUS ME",
-  "DARMIN OFF POKER",
-  "DECADENCE",
-  "DECADENCE INNOCENCE",
-  "DEEP DESIRE WOMAN",
-  "DELINA EXCLUSIF",
-  "DIESEL",
-  "DIESEL BAD INTENSE",
-  "DIESEL FUEL FOR LIFE",
-  "DIESEL ONLY THE BRAVE TATOO",
-  "DIOR ADDICT",
-  "DIOR HOMME INTENSE",
-  "DIOR ROUGE",
-  "DKNY BE DELICIOUS",
-  "DOICE VITA (W)",
-  "DOLCE & GABBANA",
-  "DONNA VALENTINO",
-  "DUNE DIOR",
-  "DUNHILL DESIR RED",
-  "DUNHILL DESIRE (M)",
-  "DUNHILL DESIRE BLACK",
-  "DUNHILL DESIRE BLUE",
-  "DUNHILL DESIRE BROWN",
-  "DUNHILL DESIRE EXTREME",
-  "DUNHILL FRESH (M)",
-  "DUNHILL DESIRE RED",
-  "DYLAN BLUE VERSACE MAN",
-  "DYLAN BLUE VERSACE WOMAN",
-  "EARLY RISE PARK CAR FRESHNER",
-  "ECLAIRE",
-  "EGOISTER MAN CHANNEL",
-  "ELECTRIC CHERRY TOMFORD",
-  "ELIXIR FOR HER LACOSTE",
-  "EMOTIONS",
-  "ENCOUNTER",
-  "ENDLESS EUPHORIA",
-  "ESCADA (M)",
-  "ESCADA (W)",
-  "ESCADA CANDY",
-  "ESCADA CELEBRATE LIFE",
-  "ESCADA CHERRY IN THE AIR",
-  "ESCADA COLLECTION (W)",
-  "ESCADA ESPECIALLY",
-  "ESCADA GRAFFITY (W)",
-  "ESCADA ISLAND KISS",
-  "ESCADA ISLAND KISS (W)",
-  "ESCADA MAGNETISM",
-  "ESCADA MAGNETISM (W)",
-  "ESCADA MIAMI BLOSSOM",
-  "ESCADA MOONSPARKLE",
-  "ESCADA PACIFIC PARADISE",
-  "ESCADA SENTIMENT (M)",
-  "ESCADA SENTIMENT (W)",
-  "ESCADA SEXY (W)",
-  "ESCADA SEXY GRAFFITI",
-  "ESCADA SORBETTO ROSSO",
-  "ESCADA SUNSET HEAT",
-  "ESCADA TAJ SUNSET",
-  "ESCADA TAJ SUNSET (W)",
-  "ESCADA TROPICAL PUNCH (W)",
-  "ESCADA TURQUOISE",
-  "ESCADA VERY SEXY (W)",
-  "ESCAPE (M)",
-  "ESCAPE (W)",
-  "ETERNITY (M)",
-  "ETERNITY (W)",
-  "ETERNITY AIR FOR MAN",
-  "ETERNITY AIR FOR WOMAN",
-  "ETERNITY AQUA",
-  "ETERNITY MAN",
-  "ETERNITY MOMENT",
-  "ETERNITY WOMAN",
-  "EUPHORIA (M)",
-  "EUPHORIA (W)",
-  "EUPHORIA INTENSE",
-  "EUPHORIA LIQUID GOLD WOMAN",
-  "EUPHORIA MAN",
-  "EUPHORIA TWIST",
-  "EUPHORIA WOMAN",
-  "F FABULOUS",
-  "FAHRENHEIT",
-  "FAKAR",
-  "FAME",
-  "FANTACY (W)",
-  "FANTASY",
-  "FANTASY IN BLOOM",
-  "FASIO",
-  "FERRARI BLACK",
-  "FERRARI BLUE",
-  "FERRARI CEDAR",
-  "FERRARI CEDAR ESSENCE",
-  "FERRARI RED",
-  "FLORENCE CAVALLI",
-  "FLORA",
-  "FLORA GORGEOUS GARDEN",
-  "FLOWER BOMB",
-  "FLOWER BY KEN",
-  "FORBIDDEN EUPHORIA",
-  "FOREVER RED",
-  "GABRIEL",
-  "GIO GIO (M)",
-  "GIRL BY NIGHT",
-  "GIRL OF NOW SAAB",
-  "GIRLS CAN SAY ANYTHING",
-  "GIRLS OF NOW",
-  "GIVENCHY (W)",
-  "GIVENCHY BLUE LABEL",
-  "GIVENCHY GENTLEMEN INTENSE",
-  "GIVENCHY GENTLEMAN",
-  "GIVENCHY GENTLEMAN ONLY INTENSE",
-  "GIVENCHY PI",
-  "GIVENCHY XERYUS ROUGE",
-  "GLISTENING AMBER",
-  "GOLDEN DUST",
-  "GOLDEN DUST (W)",
-  "GOOD GIRL",
-  "GOOD GIRL DAZZLING GARDEN",
-  "GOOD GIRL LEGERE",
-  "GOOD GIRL SUPREME",
-  "GRAPE",
-  "GREEN APPLE CAR FRESHNER",
-  "GREEN TEA",
-  "GUCCI BAMBOO",
-  "GUCCI FLORA (W)",
-  "GUCCI GUILTY BLACK MAN",
-  "GUCCI GUILTY INTENSE MAN",
-  "GUCCI GUILTY LOVE EDITION MAN",
-  "GUCCI GUILTY LOVE EDITION WOMAN",
-  "GUCCI GUILTY WOMAN",
-  "GUCCI MAN",
-  "GUCCI RUSH (W)",
-  "GUCCI RUSH MAN",
-  "GUILTY BY GUCCI (W)",
-  "GUMDROP THE BEAT",
-  "GUESS 1981 WOMAN",
-  "HAKAYAT AL OUD",
-  "HAPPY CLINIQUE MAN",
-  "HAVOC (W)",
-  "HAYA",
-  "HER BURBERRY",
-  "HER GOLDEN SECRET",
-  "HERMES BARENIA",
-  "HIND AL OUD",
-  "HIS GIRLFRIEND",
-  "HOT AND SWEET",
-  "HOT WATER",
-  "HUGO BOSS ALIVE",
-  "HUGO BOSS EXTREME",
-  "HUGO BOSS INTENSE",
-  "HUGO BOSS MAN",
-  "HUGO BOSS SCENTS MAN",
-  "HUGO ENERGIZE",
-  "HUGO MAN BY HUGO BOSS (M)",
-  "HUGO SCENTS FOR HER",
-  "HYPNOSE LANCOME",
-  "HYPNOTIC POISON",
-  "IDOLE",
-  "IMITATION FOR MAN",
-  "IMITATION FOR WOMAN",
-  "IN LOVE (W)",
-  "INNOCENCE",
-  "INSTANT CRUSH MANCERA",
-  "INTENSE PINK",
-  "INTO THE NIGHT",
-  "INVICTUS",
-  "INVICTUS (M)",
-  "INVICTUS AQUA",
-  "INVICTUS LEGEND",
-  "INVICTUS MAN",
-  "INVICTUS PLATINUM",
-  "INVICTUS VICTORY",
-  "ISLAND FANTASY",
-  "ISSEY MIYAKE (M)",
-  "ISSEY MIYAKE (W)",
-  "ISSEY MIYAKE",
-  "ISSEY MIYAKE HOT SPORT",
-  "ISSEY MIYAKE SPORT",
-  "ISSEY MIYAKE WOMAN",
-  "J'ADORE",
-  "J. LO GLOW",
-  "J. LO GLOW AFTER DARK",
-  "JADORE (W)",
-  "JAGUAR CLASSIC BLACK",
-  "JAMES BOND",
-  "JAMES BOND GIRL",
-  "JAPANESE CHERRY BLOSSOM",
-  "JASMIN DES ANGES",
-  "JASMINE",
-  "JEAN PAUL",
-  "JEAN PAUL (W)",
-  "JEAN PAUL GAULTIER",
-  "JIMMY CHOO MAN BLUE",
-  "J'LO LIVE",
-  "JO JO ARMANI SI (W)",
-  "JOOP NIGHT (M)",
-  "JOY DIOR",
-  "JPG LA BELLE PARADISE GARDEN",
-  "JPG LA MALE",
-  "JUST CAVALLI",
-  "KALAN DE MARLY",
-  "KAYALI (W)",
-  "KAYALI EDEN JUICE",
-  "KAYALI EDEN JUICY APPLE 01",
-  "KAYALI VANILLA 28",
-  "KAYALI YUM PISTACHIO GELATO 33",
-  "KENZO AMOUR",
-  "KENZO AQUA",
-  "KENZO FLOWER",
-  "KENZO WORLD",
-  "KHAMRA",
-  "KHAMRAH",
-  "KILLAN LOVE AND TEARS",
-  "KIM KARDASHIAN GOLD",
-  "KIMOJI CHERRY KKW",
-  "KIMOJI PEACH",
-  "KOUROS (M)",
-  "KUOROS",
-  "L'AIR DU PARADIS",
-  "L'EAU D'ISSEY PURE PETALE DE NECTAR",
-  "L'HOMME IDEAL INTENSE",
-  "L'HOMME MENTHE",
-  "L'INTERDIT",
-  "LA NUIT DE L'HOMME BLEU ELECTRIQUE",
-  "LA NUIT TRESOR",
-  "LA NUIT TRESOR NUDE",
-  "LA PETITE ROSE ROBE",
-  "LA VIE EST BELLE",
-  "LA VIE EST BELLE INTENSE",
-  "LACOSTE (M)",
-  "LACOSTE CHALLENGE",
-  "LACOSTE FEMME",
-  "LACOSTE L'HOMME",
-  "LACOSTE NOIR",
-  "LACOSTE TOUCH OF PINK",
-  "LACOSTE WHITE",
-  "LADY EMBLEM",
-  "LADY KORLOFF",
-  "LADY MILLION",
-  "LADY MILLION (W)",
-  "LADY MILLION ROYAL",
-  "LANCOME IDEAL NECTAR",
-  "LANCOME LA NUIT",
-  "LANCOME PEUT ETRE",
-  "LATTAFA 24 CARAT PURE GOLD",
-  "LATTAFA AJWAD",
-  "LATTAFA AMEERAAT AL ARAB",
-  "LATTAFA ASAD",
-  "LATTAFA BADEE AL OUD GLORY",
-  "LATTAFA ECLAIRE",
-  "LATTAFA FAKAR",
-  "LATTAFA HAKAYAT AL OUD",
-  "LATTAFA HAYA",
-  "LATTAFA KHAMRAH",
-  "LATTAFA MAAHIR",
-  "LATTAFA MAYAR (W)",
-  "LATTAFA NOW",
-  "LATTAFA SER AL KHULOOD (W)",
-  "LATTAFA YARA (W)",
-  "LAVENDER",
-  "LAVIEW EAST BELLA (W)",
-  "LE MALE JPG",
-  "LEATHER BLEND",
-  "LEGEND (M)",
-  "LEGEND BLUE",
-  "LEGEND MONT BLANC",
-  "LEGEND NIGHT",
-  "LEGEND SPIRIT",
-  "LEMON",
-  "LET'S IMAGINE",
-  "LIBRE INTENSE",
-  "LIBRE L'ABSOLU PLATINE",
-  "LIBRE YSL WOMAN",
-  "LIGHT BLUE LADIES",
-  "LIGHT BLUE MEN",
-  "LIVE LUXES JENIFER LOPEZ",
-  "LOST CHERRY",
-  "LOVE DON'T BE SHY",
-  "LOVE SPELL",
-  "LUST FOR SUN",
-  "LUXE AROMA",
-  "MAAHIR",
-  "MAD ABOUT YOU",
-  "MAD LOVE",
-  "MANGO TEMPTATION",
-  "MANIFESTO YSL",
-  "MARRY ME",
-  "MARSH MALLOW PUMPKIN OUD FOR GREATNESS",
-  "MAYAR",
-  "MEN IN BLACK - BVLGARY (M)",
-  "MERCEDEZ BENZ",
-  "MERCEDES",
-  "METEORITES LE PARFUM",
-  "MICHAEL KORS",
-  "MIDNIGHT FANTASY",
-  "MIDNIGHT LOVE",
-  "MIDNIGHT POISON",
-  "MIDNIGHT ROSE TRESOR",
-  "MILLION PRIVE",
-  "MISSION PARFUM",
-  "MISS DIOR",
-  "MON PARIS",
-  "MONT BLANC EXPLORER",
-  "MOON SPAKEL (W)",
-  "MUSC NOIR NARCISO",
-  "MY BURBERRY",
-  "MY NECTA",
-  "MY WAY",
-  "MY WAY - ARMANI (W)",
-  "MY WAY INTENSE",
-  "MYSLF LE PARFUM YSL",
-  "NARCISO FOR HIM BLUE NOIR EXTREME",
-  "NARCISO RODRIGUEZ FOR HER",
-  "NAUTICA VOYAGE",
-  "NECTA PURPLE",
-  "NINA RICCI",
-  "NINA RICCI (W)",
-  "NOIR KAGANA",
-  "NUDE RIHANNA",
-  "OCEAN BLUE",
-  "OCEAN BREEZE",
-  "OCEAN LOUNGE",
-  "OLYMPEA",
-  "OLYMPEA BLOSSOM",
-  "OLYMPEA FLORA",
-  "OMBRE LEATHER",
-  "ONE MILLION",
-  "ONE MILLION ABSOLUTE GOLD",
-  "ONE MILLION CLEAR",
-  "ONE MILLION INTENSE",
-  "ONE MILLION LUCKY",
-  "ONE MILLION PRIVE",
-  "ONE MILLION ROYAL",
-  "ONE MAN SHOW",
-  "ORANGE",
-  "ORANGE VANILLA CAR FRESHNER",
-  "ORGANZA (W)",
-  "OUD",
-  "OUD PASSION",
-  "OUD TONKA SWISS ARABIAN",
-  "PAPAYA CAR FRESHNER",
-  "PARIS HILTON",
-  "PARIS HILTON WITH LOVE",
-  "PASSION FRUIT CAR FRESHNER",
-  "PEARL",
-  "PERFECT",
-  "PETROL ROUGE DIESEL RED",
-  "PHANTOM",
-  "PINACOLA",
-  "PINEAPPLE",
-  "PINK CHIFFON",
-  "PINK FRIDAY",
-  "PINK HARMONY",
-  "PINK SUGAR",
-  "PINK SUGER (W)",
-  "PLEASURES",
-  "PLEASURES (W)",
-  "POEM",
-  "POISON GIRL",
-  "POLO BLACK",
-  "POLO BLACK (M)",
-  "POLO BLACK (W)",
-  "POLO BLUE",
-  "POLO BLUE (M)",
-  "POLO PINK",
-  "POLO RED",
-  "POLO RED (W)",
-  "POLO RED INTENSE",
-  "POLO SPORT",
-  "POLO SPORT (M)",
-  "POLO ULTRA BLUE",
-  "POMEGRANATE BBW",
-  "POPPY BBW",
-  "PORTRAIT OF A LADY",
-  "POTPOURRI CAR FRESHNER",
-  "PRADA (W)",
-  "PRADA CANDY",
-  "PRADA L'HOMME",
-  "PRADA OCEAN",
-  "PRECIOUS PINK",
-  "PREMIER",
-  "PREROGATIVE",
-  "PURE BLACK",
-  "PURE POISON",
-  "PURE SEDUCTION",
-  "PURE SEDUCTION (W)",
-  "PURE SEDUCTION - CLEAR",
-  "PURE SEDUCTION - PURPLE",
-  "PURE XS MAN",
-  "PURE XS WOMAN",
-  "RASASI FRUITY",
-  "RAYAN BLACK",
-  "RED BERRY",
-  "RED DOOR",
-  "RED DOOR (W)",
-  "RED TOBACCO MANCERA",
-  "RED VANILLA",
-  "RED VANILLA ZARA",
-  "RESBERRY",
-  "RESPECT",
-  "RIHANNA RIRI",
-  "RIRI",
-  "ROLL IN LOVE",
-  "ROMANCE",
-  "ROMANTIC GIRL",
-  "ROSE OUD",
-  "ROSE VANILLA",
-  "ROYAL OUD CREED",
-  "ROYALE BLUE",
-  "RUSH WOMAN",
-  "SABAIK",
-  "SAFARI",
-  "SAKURA",
-  "SAMSARA",
-  "SAMSARA (W)",
-  "SAUVAGE DIOR",
-  "SAUVAGE ELIXIR",
-  "SCANDAL",
-  "SCANDAL ABSOLUTELY",
-  "SCANDAL BY NIGHT",
-  "SCANDAL POUR HOMME",
-  "SCANDAL POUR HOMME ABSOLU",
-  "SECRET FRANKINCENSE",
-  "SER AL KHULOOD",
-  "SEXY LITTLE THING",
-  "SEXY LOVE",
-  "SHALIS MAN",
-  "SHALIS WOMAN",
-  "SHALIMAR VANILLA",
-  "SI ARMANI",
-  "SI PASSIONE",
-  "SILVER MOUNTAIN WATER CREED",
-  "SO SCANDAL",
-  "SOFT",
-  "SOLARISSIMO FAVIGNANA",
-  "SOSPIRO",
-  "SPARKLING APRICOT",
-  "SPICE BOMB",
-  "SPICE BOMB EXTREME",
-  "STELLAR TIMES",
-  "STRAIGHT TO HEAVEN",
-  "STRAWBERRY",
-  "STRONG WITH YOU INTENSELY (M)",
-  "STRONGER WITH YOU",
-  "SUGAR BABY",
-  "SULTAN",
-  "SUNKISSED GODDESS",
-  "SUNRISE",
-  "SUNSET FANTASY",
-  "SUPER LOVE",
-  "SUPERMAN AL-REHAB",
-  "SUSPIRO ACCENTO",
-  "SWEET AMBER",
-  "SWEET CAMELIA",
-  "SWEET CAMELIA-ZOHOOR",
-  "SWEET NIGHT",
-  "SWEET PASSION",
-  "SWEET PASSION (W)",
-  "TAYLOR BY TAYLOR SWIFT",
-  "TERRE D HERMES (M)",
-  "TERRE D' HERMES",
-  "TERRA DI GIOIA",
-  "THE GAME",
-  "THE GOLDEN SECRET",
-  "THE MOST WANTED AZZARO",
-  "THE ONE GREY",
-  "THE ONE MYSTERIOUS NIGHT",
-  "THIRD EXTREME",
-  "TOBACCO OUD",
-  "TOBACCO VANILLA",
-  "TOBACCO VANILLA SEX",
-  "TOM FORD (M)",
-  "TOM FORD BLACK ORCHID (W)",
-  "TOM FORD BROWN ORCHID (W)",
-  "TOM FORD OUD WOOD",
-  "TOM FORD ROSE",
-  "TOM FORD VANILLA SEX",
-  "TOMFORD NOIR",
-  "TOMFORD NOIR EXTREME",
-  "TOMFORD SOLEIL BRULANT",
-  "TOMMY BOY",
-  "TOMMY GIRL",
-  "TOMMY HILFIGER (M)",
-  "TOMMY HILFIGER TWIST",
-  "TRESOR",
-  "TRESOR (W)",
-  "TUSCAN LEATHER",
-  "TWILLY HERMES",
-  "ULTRA MALE",
-  "UNFORGEABLE",
-  "UOMO SIGNATURE",
-  "URBAN JOURNEY",
-  "VALENTINA PINK",
-  "VALENTINO BORN IN ROMA",
-  "VALENTINO UOMO",
-  "VANILLA",
-  "VANILLA FLORA",
-  "VANILLA ISLAND",
-  "VERSACE (W)",
-  "VERSACE BRIGHT CRYSTAL",
-  "VERSACE CRYSTAL NOIR",
-  "VERSACE EROS",
-  "VERSACE MAN",
-  "VERY GOOD GIRL",
-  "VERY IRRESISTABLE (W)",
-  "VERY IRRESISTABLE GIVENCHY",
-  "VERY IRRESISTIBLE",
-  "VERY SEXY VICTORIA SECRET (W)",
-  "VIKING CREED",
-  "VIVA LA JUICY",
-  "WANTED AZZARO",
-  "WATERMELON",
-  "WHITE DIAMOND",
-  "WHITE DIAMOND (W)",
-  "WHITE TEA",
-  "WILD MADAGASCAR",
-  "WILD ROSE",
-  "WINTER WONDERS",
-  "WOMAN",
-  "WOMAN RALPH LAUREN",
-  "WOODY SILVER ARGENT",
-  "Y INTENSE",
-  "Y SAINT LAURENT",
-  "YARA",
-  "YARA CANDY",
-  "YES I AM BY CACHAREL",
-  "YSL LIBRE ABSOLU PLATINE (W)",
-  "YUMMY VANILLA",
-  "ZARA ORIENTAL",
-  "ZARA RED VANILLA",
-  "ZARA TABAC INTENSE",
-].sort();
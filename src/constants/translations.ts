@@ -0,0 +1,396 @@
+// Customer-facing strings for receipts, invoices, WhatsApp share texts and the public pages.
+// English is the source catalog: a key missing from another language falls back to English,
+// and staff overrides from settings_json.i18n win over both (see src/utils/i18n.ts).
+
+export const LANGUAGES = {
+  en: "English",
+  sw: "Kiswahili",
+  fr: "Français",
+} as const;
+
+export type Language = keyof typeof LANGUAGES;
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+const en = {
+  "checkIn.title": "My Scent History",
+  "checkIn.subtitle": "Find your previous perfume mixtures",
+  "checkIn.department": "Department",
+  "checkIn.welcomeTitle": "Welcome to Your Scent Memory",
+  "checkIn.welcomeDescription": "We've saved your custom perfume mixtures! Use this page to find your favorite scents from previous visits.",
+  "checkIn.step1Title": "Enter Your Details",
+  "checkIn.step1Description": "Type your name, phone number, or receipt number in the search box below",
+  "checkIn.step2Title": "View Your Scent History",
+  "checkIn.step2Description": "See your last perfume mixture, previous purchases, and saved preferences",
+  "checkIn.step3Title": "Reorder with Ease",
+  "checkIn.step3Description": "Show your scent mixture to our staff to get the exact same fragrance again",
+  "checkIn.tip": "💡 Tip: Save this page or QR code for quick access to your scent history anytime!",
+  "checkIn.invalidQr": "Invalid QR code. Please scan a valid department QR code to access scent history.",
+  "checkIn.findScents": "Find Your Scents",
+  "checkIn.searchDescription": "Enter your name, phone number, or receipt number to see your scent history",
+  "checkIn.yourName": "Your Name",
+  "checkIn.namePlaceholder": "Enter your name...",
+  "checkIn.phoneNumber": "Phone Number",
+  "checkIn.phonePlaceholder": "Enter your phone number...",
+  "checkIn.receiptNumber": "Receipt Number (Optional)",
+  "checkIn.receiptPlaceholder": "Enter receipt number...",
+  "checkIn.findMyScents": "Find My Scents",
+  "checkIn.searching": "Searching...",
+  "checkIn.lastPurchase": "Your Last Purchase",
+  "checkIn.product": "Product",
+  "checkIn.scentMixture": "Your Scent Mixture",
+  "checkIn.quantity": "Quantity",
+  "checkIn.noPurchases": "No previous perfume purchases found",
+  "checkIn.previousPurchases": "Your Previous Purchases",
+  "checkIn.earlierPurchases": "earlier purchase(s)",
+  "checkIn.yourPreferences": "Your Preferences",
+  "checkIn.preferredBottleSizes": "Preferred Bottle Sizes",
+  "checkIn.notes": "Notes",
+  "checkIn.errorEnterDetails": "Please enter your name, phone number, or receipt number",
+  "checkIn.errorInvalidQr": "Invalid QR code. Please scan a valid department QR code.",
+  "checkIn.errorNotFound": "No customer found in this department. Please check your details.",
+  "checkIn.successFound": "Found your scent history!",
+  "checkIn.infoNoPurchases": "No previous perfume purchases found",
+  "checkIn.errorFailed": "Failed to get scent history",
+
+  "receipt.receipt": "Receipt",
+  "receipt.receiptNumber": "Receipt #",
+  "receipt.date": "Date",
+  "receipt.cashier": "Cashier",
+  "receipt.staff": "Staff",
+  "receipt.department": "Dept",
+  "receipt.item": "Item",
+  "receipt.qty": "Qty",
+  "receipt.productsScent": "Products/Scent",
+  "receipt.mlQty": "ml/qty",
+  "receipt.unit": "Unit",
+  "receipt.total": "Total",
+  "receipt.discount": "Discount",
+  "receipt.scentsMixed": "Scents Mixed",
+  "receipt.scents": "Scents",
+  "receipt.subtotal": "Subtotal",
+  "receipt.reason": "Reason",
+  "receipt.tax": "Tax",
+  "receipt.taxOn": "{tax} on {amount}",
+  "receipt.totalPaid": "TOTAL PAID",
+  "receipt.grandTotal": "TOTAL",
+  "receipt.paymentMode": "Payment Mode",
+  "receipt.paidBy": "Paid by",
+  "receipt.change": "Change",
+  "receipt.servedBy": "Served by",
+  "receipt.customer": "Customer",
+  "receipt.walkIn": "Walk-in",
+  "receipt.phone": "Phone",
+  "receipt.tel": "Tel",
+  "receipt.thankYou": "THANK YOU!",
+  "receipt.visitAgain": "Visit again",
+  "receipt.thankYouForBusiness": "Thank you for your business!",
+  "receipt.visitAgainSoon": "Visit again soon!",
+  "receipt.scanToConnect": "Scan to connect",
+  "receipt.whatsapp": "WhatsApp",
+  "receipt.pointsEarned": "Points earned",
+  "receipt.pointsRedeemed": "Points redeemed",
+  "receipt.pointsBalance": "Points balance",
+  "receipt.refillCard": "Refill card: {count} of {required}",
+  "receipt.freeRefillUsed": "Free refill redeemed",
+  "receipt.freeRefillNext": "Your next refill is FREE!",
+
+  "invoice.title": "INVOICE",
+  "invoice.details": "Invoice Details",
+  "invoice.number": "Invoice #",
+  "invoice.billTo": "Bill To",
+  "invoice.walkInCustomer": "Walk-in Customer",
+  "invoice.items": "Items",
+  "invoice.productScent": "Product / Scent",
+  "invoice.quantityMl": "Quantity (ml)",
+  "invoice.unitPrice": "Unit Price",
+  "invoice.totalAmount": "TOTAL AMOUNT",
+  "invoice.paymentMethod": "Payment Method",
+  "invoice.servedBy": "Served By",
+  "invoice.connectWithUs": "Connect With Us",
+  "invoice.scanToChat": "Scan to chat on WhatsApp",
+  "invoice.visitWebsite": "Visit Our Website",
+  "invoice.thankYou": "Thank You For Your Business!",
+  "invoice.appreciation": "We appreciate your patronage and look forward to serving you again.",
+  "invoice.inquiries": "For inquiries",
+
+  "share.receipt": "Receipt #{number} from {business}. Please find the attached PDF receipt.",
+  "share.receiptImage": "Receipt {number} from {business}. Total: {total} UGX. Please find the receipt image attached.",
+  "share.receiptImageText": "Receipt from {business}\nTotal: {total} UGX",
+  "share.invoice": "Invoice #{number} from {business}. Please find the attached PDF invoice.",
+  "share.connect": "Hello! I'd like to connect.",
+  "share.enquiry": "Hi, I need your services",
+
+  "landing.signIn": "Sign In",
+  "landing.getStarted": "Get Started",
+  "landing.whatWeOffer": "What We Offer",
+  "landing.ourServices": "Our Services",
+  "landing.servicesSubtitle": "Everything you need, all in one convenient location",
+  "landing.aboutUs": "About Us",
+  "landing.getInTouch": "Get In Touch",
+  "landing.callUs": "Call Us",
+  "landing.email": "Email",
+  "landing.location": "Location",
+  "landing.services": "Services",
+  "landing.contact": "Contact",
+  "landing.footerBlurb": "Your trusted partner for all digital services in Kasangati. Fast, reliable, and always ready to serve you.",
+};
+
+export type TranslationKey = keyof typeof en;
+
+export const TRANSLATIONS: Record<Language, Partial<Record<TranslationKey, string>>> = {
+  en,
+  sw: {
+    "checkIn.title": "Historia Yangu ya Harufu",
+    "checkIn.subtitle": "Tafuta mchanganyiko wako wa zamani wa manukato",
+    "checkIn.department": "Idara",
+    "checkIn.welcomeTitle": "Karibu kwenye Kumbukumbu ya Harufu Yako",
+    "checkIn.welcomeDescription": "Tumehifadhi mchanganyiko wako maalum wa manukato! Tumia ukurasa huu kupata harufu zako unazozipenda kutoka ziara za awali.",
+    "checkIn.step1Title": "Weka Maelezo Yako",
+    "checkIn.step1Description": "Andika jina lako, nambari ya simu, au nambari ya risiti kwenye kisanduku cha utafutaji hapa chini",
+    "checkIn.step2Title": "Tazama Historia ya Harufu Yako",
+    "checkIn.step2Description": "Ona mchanganyiko wako wa manukato wa mwisho, ununuzi wa awali, na mapendeleo yaliyohifadhiwa",
+    "checkIn.step3Title": "Agiza Tena kwa Urahisi",
+    "checkIn.step3Description": "Onyesha mchanganyiko wako wa harufu kwa wafanyakazi wetu kupata harufu sawa kabisa tena",
+    "checkIn.tip": "💡 Kidokezo: Hifadhi ukurasa huu au msimbo wa QR kwa ufikiaji wa haraka wa historia ya harufu yako wakati wowote!",
+    "checkIn.invalidQr": "Msimbo wa QR si sahihi. Tafadhali scan msimbo sahihi wa QR wa idara ili kufikia historia ya harufu.",
+    "checkIn.findScents": "Tafuta Harufu Zako",
+    "checkIn.searchDescription": "Weka jina lako, nambari ya simu, au nambari ya risiti kuona historia ya harufu yako",
+    "checkIn.yourName": "Jina Lako",
+    "checkIn.namePlaceholder": "Weka jina lako...",
+    "checkIn.phoneNumber": "Nambari ya Simu",
+    "checkIn.phonePlaceholder": "Weka nambari yako ya simu...",
+    "checkIn.receiptNumber": "Nambari ya Risiti (Si Lazima)",
+    "checkIn.receiptPlaceholder": "Weka nambari ya risiti...",
+    "checkIn.findMyScents": "Tafuta Harufu Zangu",
+    "checkIn.searching": "Inatafuta...",
+    "checkIn.lastPurchase": "Ununuzi Wako wa Mwisho",
+    "checkIn.product": "Bidhaa",
+    "checkIn.scentMixture": "Mchanganyiko Wako wa Harufu",
+    "checkIn.quantity": "Kiasi",
+    "checkIn.noPurchases": "Hakuna ununuzi wa zamani wa manukato unapatikana",
+    "checkIn.previousPurchases": "Ununuzi Wako wa Awali",
+    "checkIn.earlierPurchases": "ununuzi wa awali",
+    "checkIn.yourPreferences": "Mapendeleo Yako",
+    "checkIn.preferredBottleSizes": "Ukubwa wa Chupa Unaopendelewa",
+    "checkIn.notes": "Maelezo",
+    "checkIn.errorEnterDetails": "Tafadhali weka jina lako, nambari ya simu, au nambari ya risiti",
+    "checkIn.errorInvalidQr": "Msimbo wa QR si sahihi. Tafadhali scan msimbo sahihi wa QR wa idara.",
+    "checkIn.errorNotFound": "Hakuna mteja aliyepatikana katika idara hii. Tafadhali angalia maelezo yako.",
+    "checkIn.successFound": "Historia ya harufu yako imepatikana!",
+    "checkIn.infoNoPurchases": "Hakuna ununuzi wa zamani wa manukato unapatikana",
+    "checkIn.errorFailed": "Imeshindwa kupata historia ya harufu",
+
+    "receipt.receipt": "Risiti",
+    "receipt.receiptNumber": "Risiti Na.",
+    "receipt.date": "Tarehe",
+    "receipt.cashier": "Mhudumu",
+    "receipt.staff": "Mfanyakazi",
+    "receipt.department": "Idara",
+    "receipt.item": "Bidhaa",
+    "receipt.qty": "Idadi",
+    "receipt.productsScent": "Bidhaa/Harufu",
+    "receipt.mlQty": "ml/idadi",
+    "receipt.unit": "Bei",
+    "receipt.total": "Jumla",
+    "receipt.discount": "Punguzo",
+    "receipt.scentsMixed": "Harufu Zilizochanganywa",
+    "receipt.scents": "Harufu",
+    "receipt.subtotal": "Jumla Ndogo",
+    "receipt.reason": "Sababu",
+    "receipt.tax": "Kodi",
+    "receipt.taxOn": "{tax} kwa {amount}",
+    "receipt.totalPaid": "JUMLA ILIYOLIPWA",
+    "receipt.grandTotal": "JUMLA",
+    "receipt.paymentMode": "Njia ya Malipo",
+    "receipt.paidBy": "Imelipwa kwa",
+    "receipt.change": "Chenji",
+    "receipt.servedBy": "Umehudumiwa na",
+    "receipt.customer": "Mteja",
+    "receipt.walkIn": "Mteja wa kawaida",
+    "receipt.phone": "Simu",
+    "receipt.tel": "Simu",
+    "receipt.thankYou": "ASANTE!",
+    "receipt.visitAgain": "Karibu tena",
+    "receipt.thankYouForBusiness": "Asante kwa kununua kwetu!",
+    "receipt.visitAgainSoon": "Karibu tena hivi karibuni!",
+    "receipt.scanToConnect": "Changanua ili kuwasiliana",
+    "receipt.pointsEarned": "Pointi ulizopata",
+    "receipt.pointsRedeemed": "Pointi zilizotumika",
+    "receipt.pointsBalance": "Salio la pointi",
+    "receipt.refillCard": "Kadi ya kujaza: {count} kati ya {required}",
+    "receipt.freeRefillUsed": "Kujaza bure kumetumika",
+    "receipt.freeRefillNext": "Kujaza kwako kunakofuata ni BURE!",
+
+    "invoice.title": "ANKARA",
+    "invoice.details": "Maelezo ya Ankara",
+    "invoice.number": "Ankara Na.",
+    "invoice.billTo": "Kwa",
+    "invoice.walkInCustomer": "Mteja wa kawaida",
+    "invoice.items": "Bidhaa",
+    "invoice.productScent": "Bidhaa / Harufu",
+    "invoice.quantityMl": "Kiasi (ml)",
+    "invoice.unitPrice": "Bei ya Kipimo",
+    "invoice.totalAmount": "JUMLA KUU",
+    "invoice.paymentMethod": "Njia ya Malipo",
+    "invoice.servedBy": "Umehudumiwa na",
+    "invoice.connectWithUs": "Wasiliana Nasi",
+    "invoice.scanToChat": "Changanua ili kuzungumza kwenye WhatsApp",
+    "invoice.visitWebsite": "Tembelea Tovuti Yetu",
+    "invoice.thankYou": "Asante kwa Kununua Kwetu!",
+    "invoice.appreciation": "Tunathamini ushirikiano wako na tunatarajia kukuhudumia tena.",
+    "invoice.inquiries": "Kwa maswali",
+
+    "share.receipt": "Risiti Na. {number} kutoka {business}. Tafadhali pata risiti ya PDF iliyoambatishwa.",
+    "share.receiptImage": "Risiti {number} kutoka {business}. Jumla: {total} UGX. Tafadhali pata picha ya risiti iliyoambatishwa.",
+    "share.receiptImageText": "Risiti kutoka {business}\nJumla: {total} UGX",
+    "share.invoice": "Ankara Na. {number} kutoka {business}. Tafadhali pata ankara ya PDF iliyoambatishwa.",
+    "share.connect": "Habari! Ningependa kuwasiliana.",
+    "share.enquiry": "Habari, nahitaji huduma zenu",
+
+    "landing.signIn": "Ingia",
+    "landing.getStarted": "Anza",
+    "landing.whatWeOffer": "Tunachotoa",
+    "landing.ourServices": "Huduma Zetu",
+    "landing.servicesSubtitle": "Kila unachohitaji, mahali pamoja panapofaa",
+    "landing.aboutUs": "Kuhusu Sisi",
+    "landing.getInTouch": "Wasiliana Nasi",
+    "landing.callUs": "Tupigie",
+    "landing.email": "Barua Pepe",
+    "landing.location": "Mahali",
+    "landing.services": "Huduma",
+    "landing.contact": "Mawasiliano",
+    "landing.footerBlurb": "Mshirika wako wa kuaminika kwa huduma zote za kidijitali Kasangati. Haraka, za kuaminika, na tayari kukuhudumia.",
+  },
+  fr: {
+    "checkIn.title": "Mon Historique de Parfums",
+    "checkIn.subtitle": "Retrouvez vos mélanges de parfums précédents",
+    "checkIn.department": "Département",
+    "checkIn.welcomeTitle": "Bienvenue dans Votre Mémoire Olfactive",
+    "checkIn.welcomeDescription": "Nous avons sauvegardé vos mélanges de parfums personnalisés! Utilisez cette page pour retrouver vos senteurs préférées de visites précédentes.",
+    "checkIn.step1Title": "Entrez Vos Informations",
+    "checkIn.step1Description": "Tapez votre nom, numéro de téléphone ou numéro de reçu dans la zone de recherche ci-dessous",
+    "checkIn.step2Title": "Consultez Votre Historique",
+    "checkIn.step2Description": "Voyez votre dernier mélange de parfum, achats précédents et préférences sauvegardées",
+    "checkIn.step3Title": "Recommandez Facilement",
+    "checkIn.step3Description": "Montrez votre mélange de parfum à notre personnel pour obtenir exactement la même fragrance",
+    "checkIn.tip": "💡 Astuce: Enregistrez cette page ou le code QR pour un accès rapide à votre historique de parfums!",
+    "checkIn.invalidQr": "Code QR invalide. Veuillez scanner un code QR de département valide pour accéder à l'historique.",
+    "checkIn.findScents": "Trouvez Vos Parfums",
+    "checkIn.searchDescription": "Entrez votre nom, numéro de téléphone ou numéro de reçu pour voir votre historique",
+    "checkIn.yourName": "Votre Nom",
+    "checkIn.namePlaceholder": "Entrez votre nom...",
+    "checkIn.phoneNumber": "Numéro de Téléphone",
+    "checkIn.phonePlaceholder": "Entrez votre numéro...",
+    "checkIn.receiptNumber": "Numéro de Reçu (Optionnel)",
+    "checkIn.receiptPlaceholder": "Entrez le numéro de reçu...",
+    "checkIn.findMyScents": "Trouver Mes Parfums",
+    "checkIn.searching": "Recherche...",
+    "checkIn.lastPurchase": "Votre Dernier Achat",
+    "checkIn.product": "Produit",
+    "checkIn.scentMixture": "Votre Mélange de Parfum",
+    "checkIn.quantity": "Quantité",
+    "checkIn.noPurchases": "Aucun achat de parfum précédent trouvé",
+    "checkIn.previousPurchases": "Vos Achats Précédents",
+    "checkIn.earlierPurchases": "achat(s) antérieur(s)",
+    "checkIn.yourPreferences": "Vos Préférences",
+    "checkIn.preferredBottleSizes": "Tailles de Flacons Préférées",
+    "checkIn.notes": "Notes",
+    "checkIn.errorEnterDetails": "Veuillez entrer votre nom, numéro de téléphone ou numéro de reçu",
+    "checkIn.errorInvalidQr": "Code QR invalide. Veuillez scanner un code QR de département valide.",
+    "checkIn.errorNotFound": "Aucun client trouvé dans ce département. Veuillez vérifier vos informations.",
+    "checkIn.successFound": "Historique de parfums trouvé!",
+    "checkIn.infoNoPurchases": "Aucun achat de parfum précédent trouvé",
+    "checkIn.errorFailed": "Échec de la récupération de l'historique",
+
+    "receipt.receipt": "Reçu",
+    "receipt.receiptNumber": "Reçu n°",
+    "receipt.date": "Date",
+    "receipt.cashier": "Caissier",
+    "receipt.staff": "Personnel",
+    "receipt.department": "Dépt",
+    "receipt.item": "Article",
+    "receipt.qty": "Qté",
+    "receipt.productsScent": "Produits/Parfum",
+    "receipt.mlQty": "ml/qté",
+    "receipt.unit": "P.U.",
+    "receipt.total": "Total",
+    "receipt.discount": "Remise",
+    "receipt.scentsMixed": "Parfums mélangés",
+    "receipt.scents": "Parfums",
+    "receipt.subtotal": "Sous-total",
+    "receipt.reason": "Motif",
+    "receipt.tax": "Taxe",
+    "receipt.taxOn": "{tax} sur {amount}",
+    "receipt.totalPaid": "TOTAL PAYÉ",
+    "receipt.grandTotal": "TOTAL",
+    "receipt.paymentMode": "Mode de paiement",
+    "receipt.paidBy": "Payé par",
+    "receipt.change": "Monnaie",
+    "receipt.servedBy": "Servi par",
+    "receipt.customer": "Client",
+    "receipt.walkIn": "Client de passage",
+    "receipt.phone": "Téléphone",
+    "receipt.tel": "Tél",
+    "receipt.thankYou": "MERCI !",
+    "receipt.visitAgain": "À bientôt",
+    "receipt.thankYouForBusiness": "Merci pour votre achat !",
+    "receipt.visitAgainSoon": "À très bientôt !",
+    "receipt.scanToConnect": "Scannez pour nous contacter",
+    "receipt.pointsEarned": "Points gagnés",
+    "receipt.pointsRedeemed": "Points utilisés",
+    "receipt.pointsBalance": "Solde de points",
+    "receipt.refillCard": "Carte recharge : {count} sur {required}",
+    "receipt.freeRefillUsed": "Recharge gratuite utilisée",
+    "receipt.freeRefillNext": "Votre prochaine recharge est OFFERTE !",
+
+    "invoice.title": "FACTURE",
+    "invoice.details": "Détails de la facture",
+    "invoice.number": "Facture n°",
+    "invoice.billTo": "Facturé à",
+    "invoice.walkInCustomer": "Client de passage",
+    "invoice.items": "Articles",
+    "invoice.productScent": "Produit / Parfum",
+    "invoice.quantityMl": "Quantité (ml)",
+    "invoice.unitPrice": "Prix unitaire",
+    "invoice.totalAmount": "MONTANT TOTAL",
+    "invoice.paymentMethod": "Mode de paiement",
+    "invoice.servedBy": "Servi par",
+    "invoice.connectWithUs": "Restons en contact",
+    "invoice.scanToChat": "Scannez pour discuter sur WhatsApp",
+    "invoice.visitWebsite": "Visitez notre site",
+    "invoice.thankYou": "Merci pour votre confiance !",
+    "invoice.appreciation": "Nous apprécions votre fidélité et espérons vous servir à nouveau.",
+    "invoice.inquiries": "Renseignements",
+
+    "share.receipt": "Reçu n°{number} de {business}. Veuillez trouver le reçu PDF en pièce jointe.",
+    "share.receiptImage": "Reçu {number} de {business}. Total : {total} UGX. Veuillez trouver l'image du reçu en pièce jointe.",
+    "share.receiptImageText": "Reçu de {business}\nTotal : {total} UGX",
+    "share.invoice": "Facture n°{number} de {business}. Veuillez trouver la facture PDF en pièce jointe.",
+    "share.connect": "Bonjour ! Je souhaite vous contacter.",
+    "share.enquiry": "Bonjour, j'ai besoin de vos services",
+
+    "landing.signIn": "Connexion",
+    "landing.getStarted": "Commencer",
+    "landing.whatWeOffer": "Ce que nous offrons",
+    "landing.ourServices": "Nos Services",
+    "landing.servicesSubtitle": "Tout ce dont vous avez besoin, au même endroit",
+    "landing.aboutUs": "À propos",
+    "landing.getInTouch": "Contactez-nous",
+    "landing.callUs": "Appelez-nous",
+    "landing.email": "E-mail",
+    "landing.location": "Adresse",
+    "landing.services": "Services",
+    "landing.contact": "Contact",
+    "landing.footerBlurb": "Votre partenaire de confiance pour tous les services numériques à Kasangati. Rapide, fiable et toujours prêt à vous servir.",
+  },
+};
+
+/** Catalog sections, by key prefix, for the translations editor */
+export const TRANSLATION_SECTIONS: Record<string, string> = {
+  checkIn: "Scent check-in page",
+  receipt: "Receipts",
+  invoice: "Invoices",
+  share: "WhatsApp messages",
+  landing: "Landing page",
+};
@@ -1,77 +1,102 @@
-import { useEffect, useState } from "react";
-import { offlineQueue } from "@/utils/offlineQueue";
+import { useCallback, useEffect, useState } from "react";
+import { ConflictResolution, OutboxEntry, offlineQueue } from "@/utils/offlineQueue";
 import { toast } from "sonner";
 
+// Retries also run on a timer, since the online event doesn't fire when only the server was unreachable
+const SYNC_INTERVAL_MS = 30000;
+
 export const useOfflineSync = () => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [queueCount, setQueueCount] = useState(0);
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
 
-  useEffect(() => {
-    const updateQueueCount = () => {
-      setQueueCount(offlineQueue.getAll().length);
-    };
+  const refresh = useCallback(async () => {
+    setEntries(await offlineQueue.getAll().catch((): OutboxEntry[] => []));
+  }, []);
 
-    const handleOnline = async () => {
-      setIsOnline(true);
-      const queue = offlineQueue.getAll();
-      
-      if (queue.length > 0) {
-        setIsSyncing(true);
-        toast.info(`Syncing ${queue.length} offline changes...`);
-        
-        try {
-          const results = await offlineQueue.sync();
-          if (results.success > 0) {
-            toast.success(`Synced ${results.success} offline changes successfully`);
-          }
-          if (results.failed > 0) {
-            toast.error(`Failed to sync ${results.failed} changes`);
-          }
-        } catch (error) {
-          toast.error("Failed to sync offline changes");
-        } finally {
-          setIsSyncing(false);
-          updateQueueCount();
-        }
+  const sync = useCallback(async (announce = false) => {
+    if (!navigator.onLine) return;
+    const pending = (await offlineQueue.getAll()).filter((entry) => entry.status !== "conflict");
+    if (pending.length === 0) return;
+
+    setIsSyncing(true);
+    if (announce) toast.info(`Syncing ${pending.length} offline changes...`);
+
+    try {
+      const results = await offlineQueue.sync();
+      if (results.synced > 0) {
+        toast.success(`Synced ${results.synced} offline changes successfully`);
       }
+      if (results.conflicts > 0) {
+        toast.error(`${results.conflicts} offline changes need review`);
+      }
+    } catch (error) {
+      toast.error("Failed to sync offline changes");
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync(true);
     };
 
     const handleOffline = () => {
       setIsOnline(false);
-      toast.warning("You are offline. Changes will be saved locally and synced when online.");
+      toast.warning("You are offline. Sales will be saved on this device and synced when online.");
     };
 
     window.addEventListener("online", handleOnline);
     window.addEventListener("offline", handleOffline);
-    
-    // Initial queue count
-    updateQueueCount();
-    
-    // Periodic queue count update
-    const interval = setInterval(updateQueueCount, 5000);
+    const unsubscribe = offlineQueue.subscribe(refresh);
+
+    // Sales left over from an earlier session, including any queued by the old localStorage queue
+    offlineQueue
+      .importLegacy()
+      .catch((error) => console.error("Failed to move the old offline queue into the outbox:", error))
+      .finally(() => {
+        refresh();
+        sync();
+      });
+
+    const interval = setInterval(() => sync(), SYNC_INTERVAL_MS);
 
     return () => {
       window.removeEventListener("online", handleOnline);
       window.removeEventListener("offline", handleOffline);
+      unsubscribe();
       clearInterval(interval);
     };
-  }, []);
+  }, [refresh, sync]);
 
-  const queueOperation = (
+  const queueOperation = async (
     type: "insert" | "update" | "delete",
     table: string,
-    data: any
+    data: any,
+    dependsOn: string[] = []
   ) => {
-    offlineQueue.add({ type, table, data });
-    setQueueCount(offlineQueue.getAll().length);
+    const id = await offlineQueue.add({ kind: type, table, payload: data }, { label: `${type} ${table}`, dependsOn });
     toast.info("Change saved locally. Will sync when online.");
+    return id;
+  };
+
+  const resolveConflict = async (id: string, resolution: ConflictResolution) => {
+    await offlineQueue.resolve(id, resolution);
+    if (resolution !== "discard") await sync();
   };
 
+  const conflicts = entries.filter((entry) => entry.status === "conflict");
+
   return {
     isOnline,
     isSyncing,
-    queueCount,
+    queueCount: entries.length - conflicts.length,
+    entries,
+    conflicts,
     queueOperation,
+    resolveConflict,
+    syncNow: () => sync(true),
   };
 };
@@ -0,0 +1,25 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_I18N_SETTINGS, createTranslator, fetchI18nSettings, resolveLanguage } from "@/utils/i18n";
+
+/**
+ * Customer-facing strings for a department. `language` (e.g. the customer's preferred language
+ * or a picker on the page) wins over the department default when it is supported.
+ */
+export const useTranslator = (departmentId?: string | null, language?: string | null) => {
+  const { data: settings = DEFAULT_I18N_SETTINGS, isLoading } = useQuery({
+    queryKey: ["i18n-settings", departmentId || "global"],
+    queryFn: () => fetchI18nSettings(departmentId),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const resolved = resolveLanguage(language, settings.defaultLanguage);
+  const t = useMemo(() => createTranslator(resolved, settings.overrides), [resolved, settings.overrides]);
+
+  return {
+    t,
+    language: resolved,
+    defaultLanguage: settings.defaultLanguage,
+    isLoading,
+  };
+};
@@ -14,6 +14,463 @@ export type Database = {
   }
   public: {
     Tables: {
+      agent_commission_rates: {
+        Row: {
+          created_at: string
+          department_id: string
+          fixed_commission: number
+          id: string
+          max_amount: number | null
+          min_amount: number
+          percent_commission: number
+          provider: string
+          transaction_type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          department_id: string
+          fixed_commission?: number
+          id?: string
+          max_amount?: number | null
+          min_amount?: number
+          percent_commission?: number
+          provider: string
+          transaction_type: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          department_id?: string
+          fixed_commission?: number
+          id?: string
+          max_amount?: number | null
+          min_amount?: number
+          percent_commission?: number
+          provider?: string
+          transaction_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_commission_rates_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agent_commission_statements: {
+        Row: {
+          created_at: string
+          department_id: string
+          expected_commission: number
+          id: string
+          line_id: string
+          notes: string | null
+          period_month: string
+          recorded_by: string | null
+          statement_commission: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          department_id: string
+          expected_commission?: number
+          id?: string
+          line_id: string
+          notes?: string | null
+          period_month: string
+          recorded_by?: string | null
+          statement_commission?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          department_id?: string
+          expected_commission?: number
+          id?: string
+          line_id?: string
+          notes?: string | null
+          period_month?: string
+          recorded_by?: string | null
+          statement_commission?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_commission_statements_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_commission_statements_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "agent_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agent_float_days: {
+        Row: {
+          business_date: string
+          cash_balance: number
+          closed_at: string | null
+          closed_by: string | null
+          closing_cash_counted: number | null
+          closing_floats: Json | null
+          department_id: string
+          id: string
+          low_cash_alert: number
+          notes: string | null
+          opened_at: string
+          opened_by: string | null
+          opening_cash: number
+          opening_floats: Json
+          status: string
+        }
+        Insert: {
+          business_date?: string
+          cash_balance?: number
+          closed_at?: string | null
+          closed_by?: string | null
+          closing_cash_counted?: number | null
+          closing_floats?: Json | null
+          department_id: string
+          id?: string
+          low_cash_alert?: number
+          notes?: string | null
+          opened_at?: string
+          opened_by?: string | null
+          opening_cash?: number
+          opening_floats?: Json
+          status?: string
+        }
+        Update: {
+          business_date?: string
+          cash_balance?: number
+          closed_at?: string | null
+          closed_by?: string | null
+          closing_cash_counted?: number | null
+          closing_floats?: Json | null
+          department_id?: string
+          id?: string
+          low_cash_alert?: number
+          notes?: string | null
+          opened_at?: string
+          opened_by?: string | null
+          opening_cash?: number
+          opening_floats?: Json
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_float_days_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agent_lines: {
+        Row: {
+          agent_code: string | null
+          created_at: string
+          department_id: string
+          float_balance: number
+          id: string
+          is_active: boolean
+          low_float_alert: number
+          name: string
+          phone_number: string | null
+          provider: string
+          updated_at: string
+        }
+        Insert: {
+          agent_code?: string | null
+          created_at?: string
+          department_id: string
+          float_balance?: number
+          id?: string
+          is_active?: boolean
+          low_float_alert?: number
+          name: string
+          phone_number?: string | null
+          provider: string
+          updated_at?: string
+        }
+        Update: {
+          agent_code?: string | null
+          created_at?: string
+          department_id?: string
+          float_balance?: number
+          id?: string
+          is_active?: boolean
+          low_float_alert?: number
+          name?: string
+          phone_number?: string | null
+          provider?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_lines_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agent_transactions: {
+        Row: {
+          amount: number
+          cash_after: number
+          cash_change: number
+          commission: number
+          created_at: string
+          created_by: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          day_id: string | null
+          department_id: string
+          float_after: number
+          float_change: number
+          id: string
+          line_id: string
+          notes: string | null
+          reference: string | null
+          reversal_of: string | null
+          transaction_type: string
+        }
+        Insert: {
+          amount: number
+          cash_after: number
+          cash_change: number
+          commission?: number
+          created_at?: string
+          created_by?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          day_id?: string | null
+          department_id: string
+          float_after: number
+          float_change: number
+          id?: string
+          line_id: string
+          notes?: string | null
+          reference?: string | null
+          reversal_of?: string | null
+          transaction_type: string
+        }
+        Update: {
+          amount?: number
+          cash_after?: number
+          cash_change?: number
+          commission?: number
+          created_at?: string
+          created_by?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          day_id?: string | null
+          department_id?: string
+          float_after?: number
+          float_change?: number
+          id?: string
+          line_id?: string
+          notes?: string | null
+          reference?: string | null
+          reversal_of?: string | null
+          transaction_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_transactions_day_id_fkey"
+            columns: ["day_id"]
+            isOneToOne: false
+            referencedRelation: "agent_float_days"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_transactions_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_transactions_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "agent_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_transactions_reversal_of_fkey"
+            columns: ["reversal_of"]
+            isOneToOne: false
+            referencedRelation: "agent_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointment_reminders: {
+        Row: {
+          appointment_id: string
+          channel: string
+          created_at: string | null
+          department_id: string | null
+          error: string | null
+          id: string
+          message: string
+          recipient: string | null
+          sent_at: string | null
+          sent_by: string | null
+          status: string
+        }
+        Insert: {
+          appointment_id: string
+          channel: string
+          created_at?: string | null
+          department_id?: string | null
+          error?: string | null
+          id?: string
+          message: string
+          recipient?: string | null
+          sent_at?: string | null
+          sent_by?: string | null
+          status?: string
+        }
+        Update: {
+          appointment_id?: string
+          channel?: string
+          created_at?: string | null
+          department_id?: string | null
+          error?: string | null
+          id?: string
+          message?: string
+          recipient?: string | null
+          sent_at?: string | null
+          sent_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_reminders_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_reminders_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointments: {
+        Row: {
+          appointment_date: string
+          assigned_staff: string | null
+          created_at: string | null
+          created_by: string | null
+          customer_email: string | null
+          customer_id: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          department_id: string | null
+          duration_minutes: number
+          id: string
+          notes: string | null
+          reminder_sent_at: string | null
+          sale_id: string | null
+          service_id: string | null
+          source: string
+          status: string
+          status_changed_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          appointment_date: string
+          assigned_staff?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_email?: string | null
+          customer_id?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          department_id?: string | null
+          duration_minutes?: number
+          id?: string
+          notes?: string | null
+          reminder_sent_at?: string | null
+          sale_id?: string | null
+          service_id?: string | null
+          source?: string
+          status?: string
+          status_changed_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          appointment_date?: string
+          assigned_staff?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_email?: string | null
+          customer_id?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          department_id?: string | null
+          duration_minutes?: number
+          id?: string
+          notes?: string | null
+          reminder_sent_at?: string | null
+          sale_id?: string | null
+          service_id?: string | null
+          source?: string
+          status?: string
+          status_changed_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointments_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cash_drawer_shifts: {
         Row: {
           closed_at: string | null
@@ -76,6 +533,7 @@ export type Database = {
           department_id: string | null
           id: string
           name: string
+          tax_profile_id: string | null
           type: string | null
         }
         Insert: {
@@ -83,6 +541,7 @@ export type Database = {
           department_id?: string | null
           id?: string
           name: string
+          tax_profile_id?: string | null
           type?: string | null
         }
         Update: {
@@ -90,6 +549,7 @@ export type Database = {
           department_id?: string | null
           id?: string
           name?: string
+          tax_profile_id?: string | null
           type?: string | null
         }
         Relationships: [
@@ -415,11 +875,15 @@ export type Database = {
           email: string | null
           id: string
           last_payment_reminder_sent: string | null
+          loyalty_points: number
           name: string
           notes: string | null
           outstanding_balance: number | null
           payment_reminder_count: number | null
           phone: string | null
+          preferred_language: string | null
+          refill_punches: number
+          store_credit_balance: number | null
           updated_at: string | null
         }
         Insert: {
@@ -431,11 +895,15 @@ export type Database = {
           email?: string | null
           id?: string
           last_payment_reminder_sent?: string | null
+          loyalty_points?: number
           name: string
           notes?: string | null
           outstanding_balance?: number | null
           payment_reminder_count?: number | null
           phone?: string | null
+          preferred_language?: string | null
+          refill_punches?: number
+          store_credit_balance?: number | null
           updated_at?: string | null
         }
         Update: {
@@ -447,11 +915,15 @@ export type Database = {
           email?: string | null
           id?: string
           last_payment_reminder_sent?: string | null
+          loyalty_points?: number
           name?: string
           notes?: string | null
           outstanding_balance?: number | null
           payment_reminder_count?: number | null
           phone?: string | null
+          preferred_language?: string | null
+          refill_punches?: number
+          store_credit_balance?: number | null
           updated_at?: string | null
         }
         Relationships: [
@@ -635,9 +1107,255 @@ export type Database = {
           },
         ]
       }
-      inbox: {
+      gift_voucher_transactions: {
         Row: {
-          created_at: string | null
+          amount: number
+          balance_after: number
+          created_at: string
+          created_by: string | null
+          department_id: string | null
+          id: string
+          notes: string | null
+          sale_id: string | null
+          transaction_type: string
+          voucher_id: string
+        }
+        Insert: {
+          amount: number
+          balance_after: number
+          created_at?: string
+          created_by?: string | null
+          department_id?: string | null
+          id?: string
+          notes?: string | null
+          sale_id?: string | null
+          transaction_type: string
+          voucher_id: string
+        }
+        Update: {
+          amount?: number
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          department_id?: string | null
+          id?: string
+          notes?: string | null
+          sale_id?: string | null
+          transaction_type?: string
+          voucher_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gift_voucher_transactions_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_voucher_transactions_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_voucher_transactions_voucher_id_fkey"
+            columns: ["voucher_id"]
+            isOneToOne: false
+            referencedRelation: "gift_vouchers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gift_vouchers: {
+        Row: {
+          balance: number
+          code: string
+          created_at: string
+          created_by: string | null
+          customer_id: string | null
+          department_id: string | null
+          expires_at: string | null
+          id: string
+          initial_value: number
+          notes: string | null
+          payment_method: string | null
+          payment_reference: string | null
+          recipient_name: string | null
+          sale_return_id: string | null
+          source: string
+          status: string
+          updated_at: string
+          value_type: string
+        }
+        Insert: {
+          balance: number
+          code: string
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string | null
+          department_id?: string | null
+          expires_at?: string | null
+          id?: string
+          initial_value: number
+          notes?: string | null
+          payment_method?: string | null
+          payment_reference?: string | null
+          recipient_name?: string | null
+          sale_return_id?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+          value_type?: string
+        }
+        Update: {
+          balance?: number
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string | null
+          department_id?: string | null
+          expires_at?: string | null
+          id?: string
+          initial_value?: number
+          notes?: string | null
+          payment_method?: string | null
+          payment_reference?: string | null
+          recipient_name?: string | null
+          sale_return_id?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+          value_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gift_vouchers_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_vouchers_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_vouchers_sale_return_id_fkey"
+            columns: ["sale_return_id"]
+            isOneToOne: false
+            referencedRelation: "sale_returns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goods_received_items: {
+        Row: {
+          grn_id: string
+          id: string
+          purchase_order_item_id: string
+          quantity: number
+          total: number
+          unit_cost: number
+        }
+        Insert: {
+          grn_id: string
+          id?: string
+          purchase_order_item_id: string
+          quantity: number
+          total?: number
+          unit_cost?: number
+        }
+        Update: {
+          grn_id?: string
+          id?: string
+          purchase_order_item_id?: string
+          quantity?: number
+          total?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_received_items_grn_id_fkey"
+            columns: ["grn_id"]
+            isOneToOne: false
+            referencedRelation: "goods_received_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_items_purchase_order_item_id_fkey"
+            columns: ["purchase_order_item_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goods_received_notes: {
+        Row: {
+          department_id: string | null
+          grn_number: string
+          id: string
+          notes: string | null
+          purchase_order_id: string
+          received_at: string | null
+          received_by: string | null
+          supplier_id: string
+          total_value: number
+        }
+        Insert: {
+          department_id?: string | null
+          grn_number: string
+          id?: string
+          notes?: string | null
+          purchase_order_id: string
+          received_at?: string | null
+          received_by?: string | null
+          supplier_id: string
+          total_value?: number
+        }
+        Update: {
+          department_id?: string | null
+          grn_number?: string
+          id?: string
+          notes?: string | null
+          purchase_order_id?: string
+          received_at?: string | null
+          received_by?: string | null
+          supplier_id?: string
+          total_value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_received_notes_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_notes_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_notes_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inbox: {
+        Row: {
+          created_at: string | null
           department_id: string | null
           id: string
           is_read: boolean | null
@@ -824,94 +1542,848 @@ export type Database = {
         }
         Relationships: []
       }
-      perfume_pricing_config: {
+      loyalty_transactions: {
         Row: {
-          bottle_cost_config: Json | null
+          amount: number
           created_at: string | null
+          created_by: string | null
+          customer_id: string
           department_id: string | null
           id: string
-          retail_bottle_pricing: Json | null
-          updated_at: string | null
-          wholesale_bottle_pricing: Json | null
+          notes: string | null
+          points: number
+          points_after: number
+          punches: number
+          punches_after: number
+          sale_id: string | null
+          transaction_type: string
         }
         Insert: {
-          bottle_cost_config?: Json | null
+          amount?: number
           created_at?: string | null
+          created_by?: string | null
+          customer_id: string
           department_id?: string | null
           id?: string
-          retail_bottle_pricing?: Json | null
-          updated_at?: string | null
-          wholesale_bottle_pricing?: Json | null
+          notes?: string | null
+          points?: number
+          points_after?: number
+          punches?: number
+          punches_after?: number
+          sale_id?: string | null
+          transaction_type: string
         }
         Update: {
-          bottle_cost_config?: Json | null
+          amount?: number
           created_at?: string | null
+          created_by?: string | null
+          customer_id?: string
           department_id?: string | null
           id?: string
-          retail_bottle_pricing?: Json | null
-          updated_at?: string | null
-          wholesale_bottle_pricing?: Json | null
+          notes?: string | null
+          points?: number
+          points_after?: number
+          punches?: number
+          punches_after?: number
+          sale_id?: string | null
+          transaction_type?: string
         }
         Relationships: [
           {
-            foreignKeyName: "perfume_pricing_config_department_id_fkey"
+            foreignKeyName: "loyalty_transactions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_transactions_department_id_fkey"
             columns: ["department_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "departments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "loyalty_transactions_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      perfume_scents: {
+      mobile_money_exceptions: {
         Row: {
-          created_at: string | null
-          current_weight_g: number | null
-          density: number | null
+          amount: number | null
+          created_at: string
           department_id: string | null
-          description: string | null
-          empty_bottle_weight_g: number | null
           id: string
-          is_active: boolean | null
-          name: string
-          stock_ml: number | null
+          payload: Json | null
+          payment_id: string | null
+          phone_number: string | null
+          provider: string
+          reason: string
+          reference_id: string | null
+          reported_status: string | null
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          resolved_sale_payment_id: string | null
+          status: string
+          transaction_id: string | null
         }
         Insert: {
-          created_at?: string | null
-          current_weight_g?: number | null
-          density?: number | null
+          amount?: number | null
+          created_at?: string
           department_id?: string | null
-          description?: string | null
-          empty_bottle_weight_g?: number | null
           id?: string
-          is_active?: boolean | null
-          name: string
-          stock_ml?: number | null
+          payload?: Json | null
+          payment_id?: string | null
+          phone_number?: string | null
+          provider: string
+          reason: string
+          reference_id?: string | null
+          reported_status?: string | null
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_sale_payment_id?: string | null
+          status?: string
+          transaction_id?: string | null
         }
         Update: {
-          created_at?: string | null
-          current_weight_g?: number | null
-          density?: number | null
+          amount?: number | null
+          created_at?: string
           department_id?: string | null
-          description?: string | null
-          empty_bottle_weight_g?: number | null
           id?: string
-          is_active?: boolean | null
-          name?: string
-          stock_ml?: number | null
+          payload?: Json | null
+          payment_id?: string | null
+          phone_number?: string | null
+          provider?: string
+          reason?: string
+          reference_id?: string | null
+          reported_status?: string | null
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_sale_payment_id?: string | null
+          status?: string
+          transaction_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "perfume_scents_department_id_fkey"
+            foreignKeyName: "mobile_money_exceptions_department_id_fkey"
             columns: ["department_id"]
             isOneToOne: false
             referencedRelation: "departments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "mobile_money_exceptions_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "mobile_money_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_exceptions_resolved_sale_payment_id_fkey"
+            columns: ["resolved_sale_payment_id"]
+            isOneToOne: false
+            referencedRelation: "sale_payments"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      product_variants: {
+      mobile_money_payments: {
         Row: {
-          color: string | null
+          amount: number
+          callback_payload: Json | null
+          check_attempts: number
+          created_at: string | null
+          department_id: string | null
+          id: string
+          is_simulated: boolean
+          last_checked_at: string | null
+          payment_completed_at: string | null
+          phone_number: string
+          provider: string
+          reference_id: string | null
+          response: Json | null
+          sale_id: string | null
+          sale_payment_id: string | null
+          status: string | null
+          status_message: string | null
+          transaction_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          callback_payload?: Json | null
+          check_attempts?: number
+          created_at?: string | null
+          department_id?: string | null
+          id?: string
+          is_simulated?: boolean
+          last_checked_at?: string | null
+          payment_completed_at?: string | null
+          phone_number: string
+          provider: string
+          reference_id?: string | null
+          response?: Json | null
+          sale_id?: string | null
+          sale_payment_id?: string | null
+          status?: string | null
+          status_message?: string | null
+          transaction_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          callback_payload?: Json | null
+          check_attempts?: number
+          created_at?: string | null
+          department_id?: string | null
+          id?: string
+          is_simulated?: boolean
+          last_checked_at?: string | null
+          payment_completed_at?: string | null
+          phone_number?: string
+          provider?: string
+          reference_id?: string | null
+          response?: Json | null
+          sale_id?: string | null
+          sale_payment_id?: string | null
+          status?: string | null
+          status_message?: string | null
+          transaction_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mobile_money_payments_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_payments_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_payments_sale_payment_id_fkey"
+            columns: ["sale_payment_id"]
+            isOneToOne: false
+            referencedRelation: "sale_payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mobile_money_refunds: {
+        Row: {
+          amount: number | null
+          created_at: string
+          created_by: string | null
+          department_id: string | null
+          exception_id: string | null
+          id: string
+          is_simulated: boolean
+          original_transaction_id: string | null
+          payment_id: string | null
+          phone_number: string | null
+          provider: string
+          reference_id: string
+          response: Json | null
+          status: string
+          status_message: string | null
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string
+          created_by?: string | null
+          department_id?: string | null
+          exception_id?: string | null
+          id?: string
+          is_simulated?: boolean
+          original_transaction_id?: string | null
+          payment_id?: string | null
+          phone_number?: string | null
+          provider: string
+          reference_id: string
+          response?: Json | null
+          status?: string
+          status_message?: string | null
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string
+          created_by?: string | null
+          department_id?: string | null
+          exception_id?: string | null
+          id?: string
+          is_simulated?: boolean
+          original_transaction_id?: string | null
+          payment_id?: string | null
+          phone_number?: string | null
+          provider?: string
+          reference_id?: string
+          response?: Json | null
+          status?: string
+          status_message?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mobile_money_refunds_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_refunds_exception_id_fkey"
+            columns: ["exception_id"]
+            isOneToOne: false
+            referencedRelation: "mobile_money_exceptions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "mobile_money_payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mobile_money_settings: {
+        Row: {
+          airtel_client_id: string | null
+          airtel_client_secret: string | null
+          api_base_url: string | null
+          created_at: string | null
+          department_id: string | null
+          environment: string
+          id: string
+          is_enabled: boolean | null
+          mtn_api_key: string | null
+          mtn_api_user: string | null
+          mtn_disbursement_api_key: string | null
+          mtn_disbursement_api_user: string | null
+          mtn_disbursement_subscription_key: string | null
+          mtn_subscription_key: string | null
+          provider: string
+          updated_at: string | null
+        }
+        Insert: {
+          airtel_client_id?: string | null
+          airtel_client_secret?: string | null
+          api_base_url?: string | null
+          created_at?: string | null
+          department_id?: string | null
+          environment?: string
+          id?: string
+          is_enabled?: boolean | null
+          mtn_api_key?: string | null
+          mtn_api_user?: string | null
+          mtn_disbursement_api_key?: string | null
+          mtn_disbursement_api_user?: string | null
+          mtn_disbursement_subscription_key?: string | null
+          mtn_subscription_key?: string | null
+          provider: string
+          updated_at?: string | null
+        }
+        Update: {
+          airtel_client_id?: string | null
+          airtel_client_secret?: string | null
+          api_base_url?: string | null
+          created_at?: string | null
+          department_id?: string | null
+          environment?: string
+          id?: string
+          is_enabled?: boolean | null
+          mtn_api_key?: string | null
+          mtn_api_user?: string | null
+          mtn_disbursement_api_key?: string | null
+          mtn_disbursement_api_user?: string | null
+          mtn_disbursement_subscription_key?: string | null
+          mtn_subscription_key?: string | null
+          provider?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mobile_money_settings_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mobile_money_statement_imports: {
+        Row: {
+          created_at: string
+          department_id: string
+          duplicate_count: number
+          file_name: string | null
+          id: string
+          imported_by: string | null
+          imported_count: number
+          line_id: string | null
+          provider: string
+          source: string
+        }
+        Insert: {
+          created_at?: string
+          department_id: string
+          duplicate_count?: number
+          file_name?: string | null
+          id?: string
+          imported_by?: string | null
+          imported_count?: number
+          line_id?: string | null
+          provider: string
+          source: string
+        }
+        Update: {
+          created_at?: string
+          department_id?: string
+          duplicate_count?: number
+          file_name?: string | null
+          id?: string
+          imported_by?: string | null
+          imported_count?: number
+          line_id?: string | null
+          provider?: string
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mobile_money_statement_imports_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_statement_imports_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "agent_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mobile_money_statement_lines: {
+        Row: {
+          amount: number
+          balance_after: number | null
+          counterparty_name: string | null
+          counterparty_phone: string | null
+          created_at: string
+          department_id: string
+          direction: string
+          fee: number | null
+          id: string
+          import_id: string
+          kind: string
+          line_id: string | null
+          match_method: string | null
+          matched_agent_transaction_id: string | null
+          matched_sale_payment_id: string | null
+          notes: string | null
+          occurred_at: string | null
+          occurred_on: string
+          provider: string
+          raw_text: string | null
+          reconciliation_id: string | null
+          status: string
+          transaction_id: string | null
+        }
+        Insert: {
+          amount: number
+          balance_after?: number | null
+          counterparty_name?: string | null
+          counterparty_phone?: string | null
+          created_at?: string
+          department_id: string
+          direction: string
+          fee?: number | null
+          id?: string
+          import_id: string
+          kind?: string
+          line_id?: string | null
+          match_method?: string | null
+          matched_agent_transaction_id?: string | null
+          matched_sale_payment_id?: string | null
+          notes?: string | null
+          occurred_at?: string | null
+          occurred_on: string
+          provider: string
+          raw_text?: string | null
+          reconciliation_id?: string | null
+          status?: string
+          transaction_id?: string | null
+        }
+        Update: {
+          amount?: number
+          balance_after?: number | null
+          counterparty_name?: string | null
+          counterparty_phone?: string | null
+          created_at?: string
+          department_id?: string
+          direction?: string
+          fee?: number | null
+          id?: string
+          import_id?: string
+          kind?: string
+          line_id?: string | null
+          match_method?: string | null
+          matched_agent_transaction_id?: string | null
+          matched_sale_payment_id?: string | null
+          notes?: string | null
+          occurred_at?: string | null
+          occurred_on?: string
+          provider?: string
+          raw_text?: string | null
+          reconciliation_id?: string | null
+          status?: string
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mobile_money_statement_lines_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_statement_lines_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "mobile_money_statement_imports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_statement_lines_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "agent_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_statement_lines_matched_agent_transaction_id_fkey"
+            columns: ["matched_agent_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "agent_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_statement_lines_matched_sale_payment_id_fkey"
+            columns: ["matched_sale_payment_id"]
+            isOneToOne: false
+            referencedRelation: "sale_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_statement_lines_reconciliation_id_fkey"
+            columns: ["reconciliation_id"]
+            isOneToOne: false
+            referencedRelation: "reconciliations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      override_pin_attempts: {
+        Row: {
+          approver_id: string | null
+          created_at: string
+          id: string
+          requested_by: string
+          succeeded: boolean
+        }
+        Insert: {
+          approver_id?: string | null
+          created_at?: string
+          id?: string
+          requested_by: string
+          succeeded: boolean
+        }
+        Update: {
+          approver_id?: string | null
+          created_at?: string
+          id?: string
+          requested_by?: string
+          succeeded?: boolean
+        }
+        Relationships: []
+      }
+      packaging_items: {
+        Row: {
+          bottle_size_ml: number | null
+          cost_price: number
+          created_at: string | null
+          department_id: string | null
+          id: string
+          is_active: boolean
+          kind: string
+          min_stock: number
+          name: string
+          quantity_per_refill: number
+          sku: string | null
+          stock: number
+          updated_at: string | null
+        }
+        Insert: {
+          bottle_size_ml?: number | null
+          cost_price?: number
+          created_at?: string | null
+          department_id?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          min_stock?: number
+          name: string
+          quantity_per_refill?: number
+          sku?: string | null
+          stock?: number
+          updated_at?: string | null
+        }
+        Update: {
+          bottle_size_ml?: number | null
+          cost_price?: number
+          created_at?: string | null
+          department_id?: string | null
+          id?: string
+          is_active?: boolean
+          kind?: string
+          min_stock?: number
+          name?: string
+          quantity_per_refill?: number
+          sku?: string | null
+          stock?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "packaging_items_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      perfume_pricing_config: {
+        Row: {
+          bottle_cost_config: Json | null
+          created_at: string | null
+          department_id: string | null
+          id: string
+          retail_bottle_pricing: Json | null
+          updated_at: string | null
+          wholesale_bottle_pricing: Json | null
+        }
+        Insert: {
+          bottle_cost_config?: Json | null
+          created_at?: string | null
+          department_id?: string | null
+          id?: string
+          retail_bottle_pricing?: Json | null
+          updated_at?: string | null
+          wholesale_bottle_pricing?: Json | null
+        }
+        Update: {
+          bottle_cost_config?: Json | null
+          created_at?: string | null
+          department_id?: string | null
+          id?: string
+          retail_bottle_pricing?: Json | null
+          updated_at?: string | null
+          wholesale_bottle_pricing?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "perfume_pricing_config_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: true
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      perfume_recipe_scents: {
+        Row: {
+          id: string
+          ratio: number
+          recipe_id: string
+          scent_id: string | null
+          scent_name: string
+          sort_order: number
+        }
+        Insert: {
+          id?: string
+          ratio: number
+          recipe_id: string
+          scent_id?: string | null
+          scent_name: string
+          sort_order?: number
+        }
+        Update: {
+          id?: string
+          ratio?: number
+          recipe_id?: string
+          scent_id?: string | null
+          scent_name?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "perfume_recipe_scents_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "perfume_recipes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "perfume_recipe_scents_scent_id_fkey"
+            columns: ["scent_id"]
+            isOneToOne: false
+            referencedRelation: "perfume_scents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      perfume_recipes: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          customer_id: string | null
+          default_size_ml: number | null
+          department_id: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          is_house_blend: boolean
+          name: string
+          share_code: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string | null
+          default_size_ml?: number | null
+          department_id?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_house_blend?: boolean
+          name: string
+          share_code?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string | null
+          default_size_ml?: number | null
+          department_id?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_house_blend?: boolean
+          name?: string
+          share_code?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "perfume_recipes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "perfume_recipes_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      perfume_scents: {
+        Row: {
+          catalog_id: string | null
+          cost_per_ml: number | null
+          created_at: string | null
+          current_weight_g: number | null
+          density: number | null
+          department_id: string | null
+          description: string | null
+          empty_bottle_weight_g: number | null
+          id: string
+          is_active: boolean | null
+          name: string
+          notes: string[]
+          stock_ml: number | null
+        }
+        Insert: {
+          catalog_id?: string | null
+          cost_per_ml?: number | null
+          created_at?: string | null
+          current_weight_g?: number | null
+          density?: number | null
+          department_id?: string | null
+          description?: string | null
+          empty_bottle_weight_g?: number | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          notes?: string[]
+          stock_ml?: number | null
+        }
+        Update: {
+          catalog_id?: string | null
+          cost_per_ml?: number | null
+          created_at?: string | null
+          current_weight_g?: number | null
+          density?: number | null
+          department_id?: string | null
+          description?: string | null
+          empty_bottle_weight_g?: number | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          notes?: string[]
+          stock_ml?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "perfume_scents_catalog_id_fkey"
+            columns: ["catalog_id"]
+            isOneToOne: false
+            referencedRelation: "scent_catalog"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "perfume_scents_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          color: string | null
           created_at: string | null
           id: string
           ml_size: number | null
@@ -959,6 +2431,195 @@ export type Database = {
           },
         ]
       }
+      production_batch_inputs: {
+        Row: {
+          batch_id: string
+          id: string
+          item_type: string
+          name: string
+          packaging_id: string | null
+          quantity: number
+          scent_id: string | null
+          supplier_oil_code: string | null
+          total_cost: number
+          unit_cost: number
+        }
+        Insert: {
+          batch_id: string
+          id?: string
+          item_type: string
+          name: string
+          packaging_id?: string | null
+          quantity: number
+          scent_id?: string | null
+          supplier_oil_code?: string | null
+          total_cost?: number
+          unit_cost?: number
+        }
+        Update: {
+          batch_id?: string
+          id?: string
+          item_type?: string
+          name?: string
+          packaging_id?: string | null
+          quantity?: number
+          scent_id?: string | null
+          supplier_oil_code?: string | null
+          total_cost?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "production_batch_inputs_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "production_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_batch_inputs_packaging_id_fkey"
+            columns: ["packaging_id"]
+            isOneToOne: false
+            referencedRelation: "packaging_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_batch_inputs_scent_id_fkey"
+            columns: ["scent_id"]
+            isOneToOne: false
+            referencedRelation: "perfume_scents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      production_batch_sales: {
+        Row: {
+          batch_id: string
+          created_at: string | null
+          id: string
+          quantity: number
+          sale_id: string | null
+          sale_item_id: string | null
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string | null
+          id?: string
+          quantity: number
+          sale_id?: string | null
+          sale_item_id?: string | null
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string | null
+          id?: string
+          quantity?: number
+          sale_id?: string | null
+          sale_item_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "production_batch_sales_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "production_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_batch_sales_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_batch_sales_sale_item_id_fkey"
+            columns: ["sale_item_id"]
+            isOneToOne: false
+            referencedRelation: "sale_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      production_batches: {
+        Row: {
+          batch_code: string
+          bottle_size_ml: number
+          created_at: string | null
+          created_by: string | null
+          department_id: string
+          id: string
+          notes: string | null
+          oil_cost: number
+          packaging_cost: number
+          product_id: string | null
+          product_name: string
+          quantity: number
+          recipe_id: string | null
+          recipe_name: string | null
+          remaining_quantity: number
+          unit_cost: number
+        }
+        Insert: {
+          batch_code: string
+          bottle_size_ml: number
+          created_at?: string | null
+          created_by?: string | null
+          department_id: string
+          id?: string
+          notes?: string | null
+          oil_cost?: number
+          packaging_cost?: number
+          product_id?: string | null
+          product_name: string
+          quantity: number
+          recipe_id?: string | null
+          recipe_name?: string | null
+          remaining_quantity?: number
+          unit_cost?: number
+        }
+        Update: {
+          batch_code?: string
+          bottle_size_ml?: number
+          created_at?: string | null
+          created_by?: string | null
+          department_id?: string
+          id?: string
+          notes?: string | null
+          oil_cost?: number
+          packaging_cost?: number
+          product_id?: string | null
+          product_name?: string
+          quantity?: number
+          recipe_id?: string | null
+          recipe_name?: string | null
+          remaining_quantity?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "production_batches_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_batches_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "production_batches_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "perfume_recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       products: {
         Row: {
           allow_custom_price: boolean | null
@@ -994,6 +2655,7 @@ export type Database = {
           sku: string | null
           stock: number | null
           supplier_id: string | null
+          tax_profile_id: string | null
           total_ml: number | null
           tracking_type: Database["public"]["Enums"]["tracking_type"] | null
           unit: string | null
@@ -1036,6 +2698,7 @@ export type Database = {
           sku?: string | null
           stock?: number | null
           supplier_id?: string | null
+          tax_profile_id?: string | null
           total_ml?: number | null
           tracking_type?: Database["public"]["Enums"]["tracking_type"] | null
           unit?: string | null
@@ -1078,6 +2741,7 @@ export type Database = {
           sku?: string | null
           stock?: number | null
           supplier_id?: string | null
+          tax_profile_id?: string | null
           total_ml?: number | null
           tracking_type?: Database["public"]["Enums"]["tracking_type"] | null
           unit?: string | null
@@ -1130,15 +2794,149 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
-          avatar_url?: string | null
+          avatar_url?: string | null
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          is_active?: boolean | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      purchase_order_items: {
+        Row: {
+          created_at: string | null
+          description: string
+          id: string
+          item_type: string
+          product_id: string | null
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received: number
+          scent_id: string | null
+          unit_cost: number
+          use_ml: boolean
+          variant_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description: string
+          id?: string
+          item_type: string
+          product_id?: string | null
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received?: number
+          scent_id?: string | null
+          unit_cost?: number
+          use_ml?: boolean
+          variant_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          id?: string
+          item_type?: string
+          product_id?: string | null
+          purchase_order_id?: string
+          quantity_ordered?: number
+          quantity_received?: number
+          scent_id?: string | null
+          unit_cost?: number
+          use_ml?: boolean
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_scent_id_fkey"
+            columns: ["scent_id"]
+            isOneToOne: false
+            referencedRelation: "perfume_scents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          department_id: string | null
+          expected_date: string | null
+          id: string
+          notes: string | null
+          order_date: string
+          po_number: string
+          status: string
+          supplier_id: string
+          total_cost: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          department_id?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          po_number: string
+          status?: string
+          supplier_id: string
+          total_cost?: number
+          updated_at?: string | null
+        }
+        Update: {
           created_at?: string | null
-          email?: string | null
-          full_name?: string | null
+          created_by?: string | null
+          department_id?: string | null
+          expected_date?: string | null
           id?: string
-          is_active?: boolean | null
+          notes?: string | null
+          order_date?: string
+          po_number?: string
+          status?: string
+          supplier_id?: string
+          total_cost?: number
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       reconciliations: {
         Row: {
@@ -1192,6 +2990,10 @@ export type Database = {
           bottle_cost: number | null
           created_at: string | null
           customer_type: string | null
+          discount_amount: number | null
+          discount_reason: string | null
+          discount_type: string | null
+          discount_value: number | null
           id: string
           item_name: string | null
           ml_amount: number | null
@@ -1200,8 +3002,16 @@ export type Database = {
           product_id: string | null
           quantity: number
           sale_id: string
+          scent_breakdown: Json | null
           scent_mixture: string | null
           service_id: string | null
+          tax_amount: number | null
+          tax_inclusive: boolean | null
+          tax_name: string | null
+          tax_profile_id: string | null
+          tax_rate: number | null
+          tax_treatment: string | null
+          taxable_amount: number | null
           total: number
           unit_price: number
           variant_id: string | null
@@ -1210,6 +3020,10 @@ export type Database = {
           bottle_cost?: number | null
           created_at?: string | null
           customer_type?: string | null
+          discount_amount?: number | null
+          discount_reason?: string | null
+          discount_type?: string | null
+          discount_value?: number | null
           id?: string
           item_name?: string | null
           ml_amount?: number | null
@@ -1218,8 +3032,16 @@ export type Database = {
           product_id?: string | null
           quantity?: number
           sale_id: string
+          scent_breakdown?: Json | null
           scent_mixture?: string | null
           service_id?: string | null
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_name?: string | null
+          tax_profile_id?: string | null
+          tax_rate?: number | null
+          tax_treatment?: string | null
+          taxable_amount?: number | null
           total?: number
           unit_price?: number
           variant_id?: string | null
@@ -1228,6 +3050,10 @@ export type Database = {
           bottle_cost?: number | null
           created_at?: string | null
           customer_type?: string | null
+          discount_amount?: number | null
+          discount_reason?: string | null
+          discount_type?: string | null
+          discount_value?: number | null
           id?: string
           item_name?: string | null
           ml_amount?: number | null
@@ -1236,8 +3062,16 @@ export type Database = {
           product_id?: string | null
           quantity?: number
           sale_id?: string
+          scent_breakdown?: Json | null
           scent_mixture?: string | null
           service_id?: string | null
+          tax_amount?: number | null
+          tax_inclusive?: boolean | null
+          tax_name?: string | null
+          tax_profile_id?: string | null
+          tax_rate?: number | null
+          tax_treatment?: string | null
+          taxable_amount?: number | null
           total?: number
           unit_price?: number
           variant_id?: string | null
@@ -1273,6 +3107,188 @@ export type Database = {
           },
         ]
       }
+      sale_payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          customer_id: string | null
+          department_id: string | null
+          id: string
+          method: string
+          phone_number: string | null
+          provider: string | null
+          reference: string | null
+          sale_id: string
+          status: string
+          tendered_amount: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string | null
+          department_id?: string | null
+          id?: string
+          method: string
+          phone_number?: string | null
+          provider?: string | null
+          reference?: string | null
+          sale_id: string
+          status?: string
+          tendered_amount?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string | null
+          department_id?: string | null
+          id?: string
+          method?: string
+          phone_number?: string | null
+          provider?: string | null
+          reference?: string | null
+          sale_id?: string
+          status?: string
+          tendered_amount?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_payments_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_payments_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_payments_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_return_items: {
+        Row: {
+          amount: number
+          created_at: string | null
+          disposition: string
+          id: string
+          quantity: number
+          return_id: string
+          sale_item_id: string
+        }
+        Insert: {
+          amount?: number
+          created_at?: string | null
+          disposition?: string
+          id?: string
+          quantity: number
+          return_id: string
+          sale_item_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          disposition?: string
+          id?: string
+          quantity?: number
+          return_id?: string
+          sale_item_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_return_items_return_id_fkey"
+            columns: ["return_id"]
+            isOneToOne: false
+            referencedRelation: "sale_returns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_return_items_sale_item_id_fkey"
+            columns: ["sale_item_id"]
+            isOneToOne: false
+            referencedRelation: "sale_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_returns: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          credit_note_number: string
+          customer_id: string | null
+          department_id: string | null
+          id: string
+          reason: string
+          refund_amount: number
+          refund_method: string
+          refund_reference: string | null
+          sale_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          credit_note_number: string
+          customer_id?: string | null
+          department_id?: string | null
+          id?: string
+          reason: string
+          refund_amount?: number
+          refund_method: string
+          refund_reference?: string | null
+          sale_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          credit_note_number?: string
+          customer_id?: string | null
+          department_id?: string | null
+          id?: string
+          reason?: string
+          refund_amount?: number
+          refund_method?: string
+          refund_reference?: string | null
+          sale_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_returns_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_returns_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_returns_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sales: {
         Row: {
           amount_paid: number | null
@@ -1283,7 +3299,10 @@ export type Database = {
           customer_id: string | null
           department_id: string | null
           discount: number | null
+          discount_approved_by: string | null
+          discount_reason: string | null
           id: string
+          idempotency_key: string | null
           invoice_number: string | null
           is_invoice: boolean | null
           is_loan: boolean | null
@@ -1291,6 +3310,7 @@ export type Database = {
           payment_method: Database["public"]["Enums"]["payment_method"] | null
           receipt_number: string | null
           remarks: string | null
+          returned_amount: number | null
           sale_number: string
           status: Database["public"]["Enums"]["sale_status"] | null
           subtotal: number
@@ -1309,7 +3329,10 @@ export type Database = {
           customer_id?: string | null
           department_id?: string | null
           discount?: number | null
+          discount_approved_by?: string | null
+          discount_reason?: string | null
           id?: string
+          idempotency_key?: string | null
           invoice_number?: string | null
           is_invoice?: boolean | null
           is_loan?: boolean | null
@@ -1317,6 +3340,7 @@ export type Database = {
           payment_method?: Database["public"]["Enums"]["payment_method"] | null
           receipt_number?: string | null
           remarks?: string | null
+          returned_amount?: number | null
           sale_number: string
           status?: Database["public"]["Enums"]["sale_status"] | null
           subtotal?: number
@@ -1334,34 +3358,212 @@ export type Database = {
           created_at?: string | null
           customer_id?: string | null
           department_id?: string | null
-          discount?: number | null
+          discount?: number | null
+          discount_approved_by?: string | null
+          discount_reason?: string | null
+          id?: string
+          idempotency_key?: string | null
+          invoice_number?: string | null
+          is_invoice?: boolean | null
+          is_loan?: boolean | null
+          notes?: string | null
+          payment_method?: Database["public"]["Enums"]["payment_method"] | null
+          receipt_number?: string | null
+          remarks?: string | null
+          returned_amount?: number | null
+          sale_number?: string
+          status?: Database["public"]["Enums"]["sale_status"] | null
+          subtotal?: number
+          tax?: number | null
+          total?: number
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scent_catalog: {
+        Row: {
+          aliases: string[]
+          base_notes: string[]
+          created_at: string | null
+          gender: string
+          heart_notes: string[]
+          id: string
+          inspired_by_brand: string | null
+          is_active: boolean
+          name: string
+          name_key: string
+          supplier_oil_code: string | null
+          top_notes: string[]
+          updated_at: string | null
+        }
+        Insert: {
+          aliases?: string[]
+          base_notes?: string[]
+          created_at?: string | null
+          gender?: string
+          heart_notes?: string[]
+          id?: string
+          inspired_by_brand?: string | null
+          is_active?: boolean
+          name: string
+          name_key?: never
+          supplier_oil_code?: string | null
+          top_notes?: string[]
+          updated_at?: string | null
+        }
+        Update: {
+          aliases?: string[]
+          base_notes?: string[]
+          created_at?: string | null
+          gender?: string
+          heart_notes?: string[]
+          id?: string
+          inspired_by_brand?: string | null
+          is_active?: boolean
+          name?: string
+          name_key?: never
+          supplier_oil_code?: string | null
+          top_notes?: string[]
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      scent_stock_take_lines: {
+        Row: {
+          cost_per_ml: number | null
+          counted_ml: number
+          density: number
+          empty_bottle_weight_g: number
+          expected_ml: number
+          id: string
+          over_tolerance: boolean
+          scent_id: string | null
+          scent_name: string
+          stock_movement_id: string | null
+          stock_take_id: string
+          variance_ml: number
+          variance_value: number
+          weight_g: number
+        }
+        Insert: {
+          cost_per_ml?: number | null
+          counted_ml?: number
+          density: number
+          empty_bottle_weight_g: number
+          expected_ml?: number
+          id?: string
+          over_tolerance?: boolean
+          scent_id?: string | null
+          scent_name: string
+          stock_movement_id?: string | null
+          stock_take_id: string
+          variance_ml?: number
+          variance_value?: number
+          weight_g: number
+        }
+        Update: {
+          cost_per_ml?: number | null
+          counted_ml?: number
+          density?: number
+          empty_bottle_weight_g?: number
+          expected_ml?: number
+          id?: string
+          over_tolerance?: boolean
+          scent_id?: string | null
+          scent_name?: string
+          stock_movement_id?: string | null
+          stock_take_id?: string
+          variance_ml?: number
+          variance_value?: number
+          weight_g?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scent_stock_take_lines_scent_id_fkey"
+            columns: ["scent_id"]
+            isOneToOne: false
+            referencedRelation: "perfume_scents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scent_stock_take_lines_stock_movement_id_fkey"
+            columns: ["stock_movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scent_stock_take_lines_stock_take_id_fkey"
+            columns: ["stock_take_id"]
+            isOneToOne: false
+            referencedRelation: "scent_stock_takes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scent_stock_takes: {
+        Row: {
+          counted_by: string | null
+          counted_by_name: string | null
+          created_at: string | null
+          department_id: string | null
+          id: string
+          notes: string | null
+          scent_count: number
+          suspended_revenue_id: string | null
+          total_counted_ml: number
+          total_expected_ml: number
+          total_variance_ml: number
+          total_variance_value: number
+        }
+        Insert: {
+          counted_by?: string | null
+          counted_by_name?: string | null
+          created_at?: string | null
+          department_id?: string | null
+          id?: string
+          notes?: string | null
+          scent_count?: number
+          suspended_revenue_id?: string | null
+          total_counted_ml?: number
+          total_expected_ml?: number
+          total_variance_ml?: number
+          total_variance_value?: number
+        }
+        Update: {
+          counted_by?: string | null
+          counted_by_name?: string | null
+          created_at?: string | null
+          department_id?: string | null
           id?: string
-          invoice_number?: string | null
-          is_invoice?: boolean | null
-          is_loan?: boolean | null
           notes?: string | null
-          payment_method?: Database["public"]["Enums"]["payment_method"] | null
-          receipt_number?: string | null
-          remarks?: string | null
-          sale_number?: string
-          status?: Database["public"]["Enums"]["sale_status"] | null
-          subtotal?: number
-          tax?: number | null
-          total?: number
-          void_reason?: string | null
-          voided_at?: string | null
-          voided_by?: string | null
+          scent_count?: number
+          suspended_revenue_id?: string | null
+          total_counted_ml?: number
+          total_expected_ml?: number
+          total_variance_ml?: number
+          total_variance_value?: number
         }
         Relationships: [
           {
-            foreignKeyName: "sales_customer_id_fkey"
-            columns: ["customer_id"]
-            isOneToOne: false
-            referencedRelation: "customers"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "sales_department_id_fkey"
+            foreignKeyName: "scent_stock_takes_department_id_fkey"
             columns: ["department_id"]
             isOneToOne: false
             referencedRelation: "departments"
@@ -1472,6 +3674,7 @@ export type Database = {
           material_cost: number | null
           name: string
           price: number
+          tax_profile_id: string | null
         }
         Insert: {
           base_price?: number | null
@@ -1486,6 +3689,7 @@ export type Database = {
           material_cost?: number | null
           name: string
           price?: number
+          tax_profile_id?: string | null
         }
         Update: {
           base_price?: number | null
@@ -1500,6 +3704,7 @@ export type Database = {
           material_cost?: number | null
           name?: string
           price?: number
+          tax_profile_id?: string | null
         }
         Relationships: [
           {
@@ -1604,6 +3809,164 @@ export type Database = {
           },
         ]
       }
+      staff_override_pins: {
+        Row: {
+          pin_hash: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          pin_hash: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          pin_hash?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      stock_movements: {
+        Row: {
+          balance_after: number
+          balance_before: number
+          created_at: string | null
+          created_by: string | null
+          department_id: string | null
+          id: string
+          movement_type: string
+          notes: string | null
+          packaging_id: string | null
+          product_id: string | null
+          quantity: number
+          reference_id: string | null
+          reference_type: string | null
+          scent_id: string | null
+          stock_field: string
+          variant_id: string | null
+        }
+        Insert: {
+          balance_after?: number
+          balance_before?: number
+          created_at?: string | null
+          created_by?: string | null
+          department_id?: string | null
+          id?: string
+          movement_type: string
+          notes?: string | null
+          packaging_id?: string | null
+          product_id?: string | null
+          quantity: number
+          reference_id?: string | null
+          reference_type?: string | null
+          scent_id?: string | null
+          stock_field: string
+          variant_id?: string | null
+        }
+        Update: {
+          balance_after?: number
+          balance_before?: number
+          created_at?: string | null
+          created_by?: string | null
+          department_id?: string | null
+          id?: string
+          movement_type?: string
+          notes?: string | null
+          packaging_id?: string | null
+          product_id?: string | null
+          quantity?: number
+          reference_id?: string | null
+          reference_type?: string | null
+          scent_id?: string | null
+          stock_field?: string
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_scent_id_fkey"
+            columns: ["scent_id"]
+            isOneToOne: false
+            referencedRelation: "perfume_scents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          method: string
+          notes: string | null
+          paid_at: string
+          purchase_order_id: string | null
+          reference: string | null
+          supplier_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          method?: string
+          notes?: string | null
+          paid_at?: string
+          purchase_order_id?: string | null
+          reference?: string | null
+          supplier_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          method?: string
+          notes?: string | null
+          paid_at?: string
+          purchase_order_id?: string | null
+          reference?: string | null
+          supplier_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_payments_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_payments_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       suppliers: {
         Row: {
           address: string | null
@@ -1690,6 +4053,56 @@ export type Database = {
           },
         ]
       }
+      tax_profiles: {
+        Row: {
+          code: string | null
+          created_at: string | null
+          department_id: string | null
+          id: string
+          is_active: boolean
+          is_default: boolean
+          is_inclusive: boolean
+          name: string
+          rate: number
+          treatment: string
+          updated_at: string | null
+        }
+        Insert: {
+          code?: string | null
+          created_at?: string | null
+          department_id?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          is_inclusive?: boolean
+          name: string
+          rate?: number
+          treatment?: string
+          updated_at?: string | null
+        }
+        Update: {
+          code?: string | null
+          created_at?: string | null
+          department_id?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          is_inclusive?: boolean
+          name?: string
+          rate?: number
+          treatment?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_profiles_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -1719,11 +4132,180 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      packaging_usage: {
+        Row: {
+          bottle_size_ml: number | null
+          cost: number | null
+          department_id: string | null
+          kind: string | null
+          name: string | null
+          packaging_id: string | null
+          quantity_used: number | null
+          usage_date: string | null
+        }
+        Relationships: []
+      }
+      scent_variance_history: {
+        Row: {
+          cost_per_ml: number | null
+          counted_by: string | null
+          counted_by_name: string | null
+          counted_ml: number | null
+          created_at: string | null
+          department_id: string | null
+          expected_ml: number | null
+          id: string | null
+          over_tolerance: boolean | null
+          scent_id: string | null
+          scent_name: string | null
+          stock_take_id: string | null
+          variance_ml: number | null
+          variance_value: number | null
+        }
+        Relationships: []
+      }
+      stock_movement_history: {
+        Row: {
+          balance_after: number | null
+          balance_before: number | null
+          created_at: string | null
+          created_by: string | null
+          created_by_name: string | null
+          department_id: string | null
+          id: string | null
+          item_name: string | null
+          movement_type: string | null
+          notes: string | null
+          packaging_id: string | null
+          product_id: string | null
+          product_name: string | null
+          quantity: number | null
+          reference_id: string | null
+          reference_type: string | null
+          scent_id: string | null
+          scent_name: string | null
+          stock_field: string | null
+          variant_id: string | null
+        }
+        Relationships: []
+      }
+      supplier_balances: {
+        Row: {
+          balance: number | null
+          paid: number | null
+          received_value: number | null
+          supplier_id: string | null
+          supplier_name: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      adjust_loyalty: {
+        Args: {
+          _customer_id: string
+          _notes?: string
+          _points: number
+          _punches?: number
+        }
+        Returns: Json
+      }
+      apply_mobile_money_result: {
+        Args: {
+          _amount?: number
+          _message?: string
+          _payload?: Json
+          _payment_id: string
+          _status: string
+          _transaction_id?: string
+        }
+        Returns: string
+      }
+      apply_stock_movement: {
+        Args: {
+          _item_id: string
+          _item_type: string
+          _movement_type: string
+          _new_balance?: number
+          _notes?: string
+          _quantity?: number
+          _reference_id?: string
+          _reference_type?: string
+          _use_ml?: boolean
+        }
+        Returns: Database["public"]["Tables"]["stock_movements"]["Row"]
+      }
+      apply_sale_loyalty: { Args: { _sale_id: string }; Returns: undefined }
+      cancel_gift_voucher: {
+        Args: { _reason: string; _voucher_id: string }
+        Returns: Json
+      }
+      check_sale_discount: { Args: { _sale_id: string }; Returns: undefined }
+      close_agent_day: {
+        Args: {
+          _counted_cash: number
+          _counted_floats: Json
+          _day_id: string
+          _notes?: string
+        }
+        Returns: Json
+      }
+      count_overlapping_appointments: {
+        Args: {
+          _department_id: string
+          _duration_minutes: number
+          _start: string
+        }
+        Returns: number
+      }
+      create_sale: {
+        Args: {
+          _allow_oversell?: boolean
+          _idempotency_key: string
+          _items: Json
+          _payments?: Json
+          _sale: Json
+          _stock?: Json
+        }
+        Returns: Json
+      }
+      find_department_scent: {
+        Args: { _department_id: string; _name: string }
+        Returns: string
+      }
+      find_scent_catalog_id: { Args: { _name: string }; Returns: string }
+      generate_po_number: { Args: never; Returns: string }
       generate_receipt_number: { Args: never; Returns: string }
+      generate_voucher_code: { Args: never; Returns: string }
+      get_agent_commission: {
+        Args: {
+          _amount: number
+          _department_id: string
+          _provider: string
+          _transaction_type: string
+        }
+        Returns: number
+      }
+      get_appointment_settings: { Args: { _department_id: string }; Returns: Json }
+      get_booking_options: { Args: { _department_id: string }; Returns: Json }
+      get_booking_slots: {
+        Args: { _date: string; _department_id: string; _service_id: string }
+        Returns: {
+          available: boolean
+          slot_start: string
+        }[]
+      }
+      get_customer_loyalty: { Args: { _customer_id: string }; Returns: Json }
+      get_discount_cap: {
+        Args: { _department_id: string; _user_id: string }
+        Returns: number
+      }
+      get_i18n_settings: { Args: { _department_id?: string }; Returns: Json }
+      get_loyalty_settings: { Args: { _department_id: string }; Returns: Json }
       get_or_create_master_perfume: { Args: never; Returns: string }
+      get_perfume_recipe: { Args: { _share_code: string }; Returns: Json }
+      get_sale_loyalty: { Args: { _sale_id: string }; Returns: Json }
+      get_stock_take_settings: { Args: { _department_id: string }; Returns: Json }
       get_user_department: { Args: { _user_id: string }; Returns: string }
       has_role: {
         Args: {
@@ -1732,13 +4314,167 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_mobile_money_statement: {
+        Args: {
+          _department_id: string
+          _file_name: string
+          _line_id: string
+          _lines: Json
+          _provider: string
+          _source: string
+        }
+        Returns: Json
+      }
+      issue_gift_voucher: {
+        Args: {
+          _amount: number
+          _customer_id?: string
+          _department_id: string
+          _expires_at?: string
+          _notes?: string
+          _payment_method?: string
+          _payment_reference?: string
+          _recipient_name?: string
+          _sale_return_id?: string
+          _source?: string
+          _value_type?: string
+        }
+        Returns: Json
+      }
+      match_mobile_money_statement_line: {
+        Args: { _statement_line_id: string }
+        Returns: boolean
+      }
+      open_agent_day: {
+        Args: {
+          _department_id: string
+          _floats: Json
+          _low_cash_alert?: number
+          _notes?: string
+          _opening_cash: number
+        }
+        Returns: Json
+      }
+      post_scent_stock_take: {
+        Args: { _department_id: string; _lines: Json; _notes?: string }
+        Returns: string
+      }
+      process_sale_return: {
+        Args: {
+          _customer_id?: string
+          _lines: Json
+          _reason: string
+          _refund_method: string
+          _refund_reference?: string
+          _sale_id: string
+          _voucher_expires_at?: string
+        }
+        Returns: Json
+      }
+      produce_batch: { Args: { _batch: Json; _inputs: Json }; Returns: Json }
+      raise_statement_discrepancy: {
+        Args: {
+          _cashier_name: string
+          _notes?: string
+          _statement_line_ids: string[]
+        }
+        Returns: string
+      }
+      receive_purchase_order: {
+        Args: { _lines: Json; _notes?: string; _purchase_order_id: string }
+        Returns: string
+      }
+      record_agent_commission_statement: {
+        Args: {
+          _line_id: string
+          _notes?: string
+          _period_month: string
+          _statement_commission: number
+        }
+        Returns: Json
+      }
+      record_agent_transaction: {
+        Args: {
+          _amount: number
+          _customer_name?: string
+          _customer_phone?: string
+          _line_id: string
+          _notes?: string
+          _reference?: string
+          _transaction_type: string
+        }
+        Returns: Json
+      }
+      record_statement_line_in_ledger: {
+        Args: { _statement_line_id: string }
+        Returns: Json
+      }
+      redeem_gift_voucher: {
+        Args: { _amount: number; _code: string; _sale_id: string }
+        Returns: number
+      }
+      refresh_sale_payment_status: { Args: { _sale_id: string }; Returns: undefined }
+      rematch_mobile_money_statement: { Args: { _import_id: string }; Returns: number }
+      request_booking: {
+        Args: {
+          _department_id: string
+          _email?: string
+          _name: string
+          _notes?: string
+          _phone: string
+          _service_id: string
+          _start: string
+        }
+        Returns: string
+      }
+      resolve_mobile_money_exception: {
+        Args: {
+          _exception_id: string
+          _notes?: string
+          _sale_payment_id?: string
+        }
+        Returns: Json
+      }
+      reverse_agent_transaction: {
+        Args: { _reason: string; _transaction_id: string }
+        Returns: Json
+      }
+      scent_name_gender: { Args: { _name: string }; Returns: string }
+      scent_name_key: { Args: { _name: string }; Returns: string }
+      set_override_pin: { Args: { _pin: string }; Returns: boolean }
+      set_statement_line_status: {
+        Args: {
+          _notes?: string
+          _statement_line_id: string
+          _status: string
+        }
+        Returns: undefined
+      }
+      update_sale_receipt: {
+        Args: {
+          _created_at?: string
+          _payment_method: string
+          _sale_id: string
+          _subtotal: number
+          _total: number
+        }
+        Returns: Json
+      }
+      verify_override_pin: {
+        Args: { _pin: string }
+        Returns: {
+          full_name: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "manager" | "cashier" | "staff"
       credit_status: "pending" | "approved" | "partial" | "settled" | "rejected"
       expense_status: "pending" | "approved" | "rejected"
       internal_usage_status: "pending" | "approved" | "rejected"
-      payment_method: "cash" | "card" | "mobile_money" | "credit"
+      payment_method: "cash" | "card" | "mobile_money" | "credit" | "split" | "loyalty" | "voucher" | "store_credit"
       reconciliation_status: "pending" | "completed" | "discrepancy"
       sale_status: "completed" | "voided" | "pending"
       tracking_type: "quantity" | "ml"
@@ -1873,7 +4609,7 @@ export const Constants = {
       credit_status: ["pending", "approved", "partial", "settled", "rejected"],
       expense_status: ["pending", "approved", "rejected"],
       internal_usage_status: ["pending", "approved", "rejected"],
-      payment_method: ["cash", "card", "mobile_money", "credit"],
+      payment_method: ["cash", "card", "mobile_money", "credit", "split", "loyalty", "voucher", "store_credit"],
       reconciliation_status: ["pending", "completed", "discrepancy"],
       sale_status: ["completed", "voided", "pending"],
       tracking_type: ["quantity", "ml"],
@@ -231,8 +231,9 @@ class LocalApiClient {
       queryParams.append('limit', limit.toString());
       return this.authenticatedRequest(`/api/sales-recent?${queryParams.toString()}`);
     },
-    create: (data: { sale: any; items: any[] }) => this.authenticatedRequest('/api/sales', {
+    create: (data: { sale: any; items: any[]; payments?: any[] }, idempotencyKey?: string) => this.authenticatedRequest('/api/sales', {
       method: 'POST',
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
       body: JSON.stringify(data),
     }),
     voidSale: (id: string, void_reason: string, voided_by: string) => 
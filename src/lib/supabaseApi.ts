@@ -311,39 +311,35 @@ export const salesApi = {
 
     // Update stock for each item
     for (const item of saleData.items) {
-      if (item.product_id) {
+      if (item.variant_id) {
+        const { error } = await supabase.rpc('apply_stock_movement', {
+          _item_type: 'variant',
+          _item_id: item.variant_id,
+          _movement_type: 'sale',
+          _quantity: -item.quantity,
+          _reference_type: 'sale',
+          _reference_id: sale.id,
+        });
+        if (error) throw error;
+      } else if (item.product_id) {
         const { data: product } = await supabase
           .from('products')
-          .select('stock, total_ml, tracking_type')
+          .select('tracking_type')
           .eq('id', item.product_id)
           .single();
-        
+
         if (product) {
-          if (product.tracking_type === 'ml' && item.ml_amount) {
-            await supabase
-              .from('products')
-              .update({ total_ml: (product.total_ml || 0) - item.ml_amount })
-              .eq('id', item.product_id);
-          } else {
-            await supabase
-              .from('products')
-              .update({ stock: (product.stock || 0) - item.quantity })
-              .eq('id', item.product_id);
-          }
-        }
-      }
-      if (item.variant_id) {
-        const { data: variant } = await supabase
-          .from('product_variants')
-          .select('stock')
-          .eq('id', item.variant_id)
-          .single();
-        
-        if (variant) {
-          await supabase
-            .from('product_variants')
-            .update({ stock: (variant.stock || 0) - item.quantity })
-            .eq('id', item.variant_id);
+          const useMl = product.tracking_type === 'ml' && !!item.ml_amount;
+          const { error } = await supabase.rpc('apply_stock_movement', {
+            _item_type: 'product',
+            _item_id: item.product_id,
+            _movement_type: 'sale',
+            _quantity: -(useMl ? item.ml_amount : item.quantity),
+            _use_ml: useMl,
+            _reference_type: 'sale',
+            _reference_id: sale.id,
+          });
+          if (error) throw error;
         }
       }
     }
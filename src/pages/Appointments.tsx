@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { addDays, endOfDay, format, startOfDay, startOfWeek } from "date-fns";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import Navigation from "@/components/Navigation";
@@ -11,15 +12,28 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Calendar, Clock, User, Receipt, UserPlus } from "lucide-react";
+import { Calendar, ChevronLeft, ChevronRight, Clock, MessageCircle, Phone, User, Receipt, UserPlus } from "lucide-react";
 import { toast } from "sonner";
 import { useDepartment } from "@/contexts/DepartmentContext";
 import { useUserRole } from "@/hooks/useUserRole";
 import { AppointmentCheckoutDialog } from "@/components/appointments/AppointmentCheckoutDialog";
+import { AppointmentCalendar, AppointmentCalendarView } from "@/components/appointments/AppointmentCalendar";
+import { BookingRequestsCard } from "@/components/appointments/BookingRequestsCard";
+import { PendingRemindersCard } from "@/components/appointments/PendingRemindersCard";
 import { customerSchema } from "@/lib/validation";
-
-// Note: There's no appointments table in the current schema, so we'll create a simple in-memory solution
-// or use a workaround with existing tables
+import {
+  Appointment,
+  APPOINTMENT_STATUS_LABELS,
+  APPOINTMENT_TRANSITIONS,
+  AppointmentStatus,
+  buildAppointmentReminderMessage,
+  canTransitionAppointment,
+  findAppointmentConflicts,
+  getAppointmentCustomerName,
+  getAppointmentCustomerPhone,
+  getAppointmentEnd,
+  getWhatsAppLink,
+} from "@/utils/appointments";
 
 const Appointments = () => {
   const queryClient = useQueryClient();
@@ -35,7 +49,9 @@ const Appointments = () => {
     assigned_staff: "",
   });
   const [checkoutDialogOpen, setCheckoutDialogOpen] = useState(false);
-  const [selectedAppointment, setSelectedAppointment] = useState<any>(null);
+  const [selectedAppointmentId, setSelectedAppointmentId] = useState<string | null>(null);
+  const [calendarView, setCalendarView] = useState<AppointmentCalendarView>("day");
+  const [calendarDate, setCalendarDate] = useState(new Date());
   const [customerDialogOpen, setCustomerDialogOpen] = useState(false);
   const [customerFormData, setCustomerFormData] = useState({
     name: "",
@@ -44,8 +60,36 @@ const Appointments = () => {
     address: "",
   });
 
-  // In-memory appointments store (since there's no appointments table)
-  const [localAppointments, setLocalAppointments] = useState<any[]>([]);
+  const rangeStart = calendarView === "day" ? startOfDay(calendarDate) : startOfWeek(calendarDate, { weekStartsOn: 1 });
+  const rangeEnd = endOfDay(calendarView === "day" ? calendarDate : addDays(rangeStart, 6));
+
+  const { data: appointments = [] } = useQuery({
+    queryKey: ["appointments", selectedDepartmentId, rangeStart.toISOString(), rangeEnd.toISOString()],
+    queryFn: async () => {
+      if (!selectedDepartmentId) return [];
+      const { data, error } = await supabase
+        .from("appointments")
+        .select("*, customers(name, phone), services(name, price, base_price)")
+        .eq("department_id", selectedDepartmentId)
+        .gte("appointment_date", rangeStart.toISOString())
+        .lte("appointment_date", rangeEnd.toISOString())
+        .order("appointment_date");
+      if (error) throw error;
+      return (data || []) as Appointment[];
+    },
+    enabled: !!selectedDepartmentId,
+  });
+
+  const selectedAppointment = useMemo(
+    () => appointments.find((a) => a.id === selectedAppointmentId) || null,
+    [appointments, selectedAppointmentId]
+  );
+
+  // Names already used for bookings, offered as suggestions so the same person isn't typed two ways
+  const staffSuggestions = useMemo(
+    () => Array.from(new Set(appointments.map((a) => a.assigned_staff?.trim()).filter(Boolean))).sort(),
+    [appointments]
+  );
 
   const { data: customers } = useQuery({
     queryKey: ["customers", selectedDepartmentId],
@@ -78,24 +122,55 @@ const Appointments = () => {
 
   const createAppointmentMutation = useMutation({
     mutationFn: async (data: typeof appointmentForm) => {
-      const appointmentDateTime = `${data.appointment_date}T${data.appointment_time}:00`;
-      const newAppointment = {
-        id: crypto.randomUUID(),
-        customer_id: data.customer_id || null,
-        service_id: data.service_id || null,
-        appointment_date: appointmentDateTime,
+      const start = new Date(`${data.appointment_date}T${data.appointment_time}:00`);
+      const candidate = {
+        appointment_date: start.toISOString(),
         duration_minutes: data.duration_minutes,
-        notes: data.notes,
-        assigned_staff: data.assigned_staff,
-        status: "scheduled",
-        customers: customers?.find(c => c.id === data.customer_id),
-        services: services?.find(s => s.id === data.service_id),
+        assigned_staff: data.assigned_staff.trim() || null,
       };
-      setLocalAppointments(prev => [...prev, newAppointment]);
-      return newAppointment;
+
+      // Check the staff member's day up front for a clear message; the database enforces it too
+      if (candidate.assigned_staff) {
+        const { data: sameDay, error: sameDayError } = await supabase
+          .from("appointments")
+          .select("*")
+          .eq("department_id", selectedDepartmentId)
+          .gte("appointment_date", startOfDay(start).toISOString())
+          .lte("appointment_date", endOfDay(start).toISOString());
+        if (sameDayError) throw sameDayError;
+
+        const conflict = findAppointmentConflicts(candidate, (sameDay || []) as Appointment[])[0];
+        if (conflict) {
+          throw new Error(
+            `${candidate.assigned_staff} is already booked ${format(new Date(conflict.appointment_date), "HH:mm")}-${format(
+              getAppointmentEnd(conflict),
+              "HH:mm"
+            )}`
+          );
+        }
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data: created, error } = await supabase
+        .from("appointments")
+        .insert({
+          ...candidate,
+          department_id: selectedDepartmentId,
+          customer_id: data.customer_id || null,
+          service_id: data.service_id || null,
+          notes: data.notes || null,
+          created_by: user?.id,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      return created;
     },
-    onSuccess: () => {
+    onSuccess: (created) => {
       toast.success("Appointment scheduled successfully");
+      queryClient.invalidateQueries({ queryKey: ["appointments"] });
+      setCalendarDate(new Date(created.appointment_date));
+      setSelectedAppointmentId(created.id);
       setAppointmentForm({
         customer_id: "",
         service_id: "",
@@ -106,8 +181,8 @@ const Appointments = () => {
         assigned_staff: "",
       });
     },
-    onError: () => {
-      toast.error("Failed to schedule appointment");
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to schedule appointment");
     },
   });
 
@@ -141,20 +216,32 @@ const Appointments = () => {
   });
 
   const updateAppointmentStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      setLocalAppointments(prev => 
-        prev.map(apt => apt.id === id ? { ...apt, status } : apt)
-      );
+    mutationFn: async ({ appointment, status }: { appointment: Appointment; status: AppointmentStatus }) => {
+      if (!canTransitionAppointment(appointment.status, status)) {
+        throw new Error(`Cannot mark a ${APPOINTMENT_STATUS_LABELS[appointment.status as AppointmentStatus]} appointment as ${APPOINTMENT_STATUS_LABELS[status]}`);
+      }
+      const { error } = await supabase.from("appointments").update({ status }).eq("id", appointment.id);
+      if (error) throw error;
     },
     onSuccess: () => {
       toast.success("Appointment status updated");
+      queryClient.invalidateQueries({ queryKey: ["appointments"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update appointment");
     },
   });
 
+  const moveCalendar = (direction: 1 | -1) =>
+    setCalendarDate((current) => addDays(current, direction * (calendarView === "day" ? 1 : 7)));
+
   const getStatusColor = (status: string) => {
     switch (status) {
+      case "requested":
+        return "outline";
       case "scheduled":
         return "default";
+      case "arrived":
       case "in_progress":
         return "secondary";
       case "completed":
@@ -279,7 +366,12 @@ const Appointments = () => {
                   <Select
                     value={appointmentForm.service_id}
                     onValueChange={(value) =>
-                      setAppointmentForm({ ...appointmentForm, service_id: value })
+                      setAppointmentForm({
+                        ...appointmentForm,
+                        service_id: value,
+                        duration_minutes:
+                          services?.find((s) => s.id === value)?.duration_minutes || appointmentForm.duration_minutes,
+                      })
                     }
                   >
                     <SelectTrigger>
@@ -339,7 +431,13 @@ const Appointments = () => {
                       setAppointmentForm({ ...appointmentForm, assigned_staff: e.target.value })
                     }
                     placeholder="Staff name"
+                    list="appointment-staff"
                   />
+                  <datalist id="appointment-staff">
+                    {staffSuggestions.map((name) => (
+                      <option key={name} value={name} />
+                    ))}
+                  </datalist>
                 </div>
 
                 <div className="space-y-2">
@@ -358,7 +456,10 @@ const Appointments = () => {
                   className="w-full"
                   onClick={() => createAppointmentMutation.mutate(appointmentForm)}
                   disabled={
-                    !appointmentForm.appointment_date || !appointmentForm.appointment_time
+                    !appointmentForm.appointment_date ||
+                    !appointmentForm.appointment_time ||
+                    appointmentForm.duration_minutes <= 0 ||
+                    createAppointmentMutation.isPending
                   }
                 >
                   <Calendar className="w-4 h-4 mr-2" />
@@ -368,121 +469,152 @@ const Appointments = () => {
             </Card>
           </div>
 
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
+            {selectedDepartmentId && (
+              <>
+                <BookingRequestsCard departmentId={selectedDepartmentId} />
+                <PendingRemindersCard departmentId={selectedDepartmentId} />
+              </>
+            )}
+
             <Card>
-              <CardHeader>
-                <CardTitle>Scheduled Appointments</CardTitle>
+              <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 space-y-0">
+                <CardTitle>
+                  {calendarView === "day"
+                    ? format(calendarDate, "EEEE, dd MMM yyyy")
+                    : `Week of ${format(rangeStart, "dd MMM yyyy")}`}
+                </CardTitle>
+                <div className="flex items-center gap-2">
+                  <Button size="icon" variant="outline" onClick={() => moveCalendar(-1)}>
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setCalendarDate(new Date())}>
+                    Today
+                  </Button>
+                  <Button size="icon" variant="outline" onClick={() => moveCalendar(1)}>
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                  <Select value={calendarView} onValueChange={(v) => setCalendarView(v as AppointmentCalendarView)}>
+                    <SelectTrigger className="w-[100px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="day">Day</SelectItem>
+                      <SelectItem value="week">Week</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </CardHeader>
               <CardContent>
-                <div className="space-y-3">
-                  {localAppointments.length === 0 ? (
-                    <p className="text-center text-muted-foreground py-8">
-                      No appointments scheduled
-                    </p>
-                  ) : (
-                    localAppointments.map((appointment) => (
-                      <div
-                        key={appointment.id}
-                        className="p-4 rounded-lg border bg-card space-y-3"
-                      >
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2 mb-2">
-                              <p className="font-medium">
-                                {appointment.customers?.name || "Walk-in"}
-                              </p>
-                              <Badge variant={getStatusColor(appointment.status)}>
-                                {appointment.status}
-                              </Badge>
-                            </div>
-                            <div className="space-y-1 text-sm text-muted-foreground">
-                              <p className="flex items-center gap-2">
-                                <Calendar className="w-4 h-4" />
-                                {new Date(appointment.appointment_date).toLocaleDateString()}
-                              </p>
-                              <p className="flex items-center gap-2">
-                                <Clock className="w-4 h-4" />
-                                {new Date(appointment.appointment_date).toLocaleTimeString()} (
-                                {appointment.duration_minutes} min)
-                              </p>
-                              {appointment.assigned_staff && (
-                                <p className="flex items-center gap-2">
-                                  <User className="w-4 h-4" />
-                                  {appointment.assigned_staff}
-                                </p>
-                              )}
-                              <p>Service: {appointment.services?.name || "N/A"}</p>
-                              {appointment.notes && <p>Notes: {appointment.notes}</p>}
-                            </div>
-                          </div>
-                        </div>
-                        <div className="flex gap-2">
-                          {appointment.status === "scheduled" && (
-                            <>
-                              <Button
-                                size="sm"
-                                onClick={() =>
-                                  updateAppointmentStatusMutation.mutate({
-                                    id: appointment.id,
-                                    status: "in_progress",
-                                  })
-                                }
-                              >
-                                Start
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() =>
-                                  updateAppointmentStatusMutation.mutate({
-                                    id: appointment.id,
-                                    status: "cancelled",
-                                  })
-                                }
-                              >
-                                Cancel
-                              </Button>
-                            </>
-                          )}
-                          {appointment.status === "in_progress" && (
-                            <>
-                              <Button
-                                size="sm"
-                                onClick={() => {
-                                  setSelectedAppointment(appointment);
-                                  setCheckoutDialogOpen(true);
-                                }}
-                              >
-                                <Receipt className="w-4 h-4 mr-2" />
-                                Complete & Checkout
-                              </Button>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() =>
-                                  updateAppointmentStatusMutation.mutate({
-                                    id: appointment.id,
-                                    status: "completed",
-                                  })
-                                }
-                              >
-                                Mark Complete Only
-                              </Button>
-                            </>
-                          )}
-                        </div>
-                      </div>
-                    ))
-                  )}
-                </div>
+                <AppointmentCalendar
+                  appointments={appointments}
+                  view={calendarView}
+                  date={calendarDate}
+                  selectedId={selectedAppointmentId || undefined}
+                  onSelect={(appointment) => setSelectedAppointmentId(appointment.id)}
+                />
               </CardContent>
             </Card>
+
+            {selectedAppointment && (
+              <Card>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{getAppointmentCustomerName(selectedAppointment)}</p>
+                    <Badge variant={getStatusColor(selectedAppointment.status)}>
+                      {APPOINTMENT_STATUS_LABELS[selectedAppointment.status as AppointmentStatus] || selectedAppointment.status}
+                    </Badge>
+                  </div>
+                  <div className="space-y-1 text-sm text-muted-foreground">
+                    <p className="flex items-center gap-2">
+                      <Calendar className="w-4 h-4" />
+                      {format(new Date(selectedAppointment.appointment_date), "EEE dd MMM yyyy")}
+                    </p>
+                    <p className="flex items-center gap-2">
+                      <Clock className="w-4 h-4" />
+                      {format(new Date(selectedAppointment.appointment_date), "HH:mm")}-
+                      {format(getAppointmentEnd(selectedAppointment), "HH:mm")} ({selectedAppointment.duration_minutes} min)
+                    </p>
+                    {getAppointmentCustomerPhone(selectedAppointment) && (
+                      <p className="flex items-center gap-2">
+                        <Phone className="w-4 h-4" />
+                        {getAppointmentCustomerPhone(selectedAppointment)}
+                      </p>
+                    )}
+                    {selectedAppointment.assigned_staff && (
+                      <p className="flex items-center gap-2">
+                        <User className="w-4 h-4" />
+                        {selectedAppointment.assigned_staff}
+                      </p>
+                    )}
+                    <p>Service: {selectedAppointment.services?.name || "N/A"}</p>
+                    {selectedAppointment.notes && <p>Notes: {selectedAppointment.notes}</p>}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {APPOINTMENT_TRANSITIONS[selectedAppointment.status as AppointmentStatus]?.map((status) =>
+                      status === "completed" ? (
+                        <div key={status} className="flex gap-2">
+                          <Button size="sm" onClick={() => setCheckoutDialogOpen(true)}>
+                            <Receipt className="w-4 h-4 mr-2" />
+                            Complete & Checkout
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={updateAppointmentStatusMutation.isPending}
+                            onClick={() =>
+                              updateAppointmentStatusMutation.mutate({ appointment: selectedAppointment, status })
+                            }
+                          >
+                            Mark Complete Only
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button
+                          key={status}
+                          size="sm"
+                          variant={status === "cancelled" || status === "no_show" ? "outline" : "default"}
+                          disabled={updateAppointmentStatusMutation.isPending}
+                          onClick={() => updateAppointmentStatusMutation.mutate({ appointment: selectedAppointment, status })}
+                        >
+                          {status === "in_progress"
+                            ? "Start"
+                            : selectedAppointment.status === "requested"
+                              ? status === "scheduled" ? "Confirm" : "Decline"
+                              : APPOINTMENT_STATUS_LABELS[status]}
+                        </Button>
+                      )
+                    )}
+                    {getAppointmentCustomerPhone(selectedAppointment) &&
+                      ["requested", "scheduled"].includes(selectedAppointment.status) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            window.open(
+                              getWhatsAppLink(
+                                getAppointmentCustomerPhone(selectedAppointment)!,
+                                buildAppointmentReminderMessage(selectedAppointment, selectedDepartment?.name)
+                              ),
+                              "_blank"
+                            )
+                          }
+                        >
+                          <MessageCircle className="w-4 h-4 mr-2" />
+                          WhatsApp Reminder
+                        </Button>
+                      )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         </div>
       </main>
 
       {selectedAppointment && (
         <AppointmentCheckoutDialog
+          key={selectedAppointment.id}
           open={checkoutDialogOpen}
           onOpenChange={setCheckoutDialogOpen}
           appointment={selectedAppointment}
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -17,6 +18,7 @@ interface BarcodeItem {
 }
 
 const BarcodeGenerator = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
   const [barcodes, setBarcodes] = useState<BarcodeItem[]>([]);
   const [prefix, setPrefix] = useState("PROD");
   const [productName, setProductName] = useState("");
@@ -35,6 +37,26 @@ const BarcodeGenerator = () => {
     loadExistingBarcodes();
   }, []);
 
+  // Production batches link here with ?code=&name=&qty= to queue one label per bottle
+  useEffect(() => {
+    const code = searchParams.get("code");
+    if (!code) return;
+    const name = searchParams.get("name") || "";
+    const qty = Math.min(Math.max(parseInt(searchParams.get("qty") || "1", 10) || 1, 1), 500);
+    setSearchParams({}, { replace: true });
+
+    generateQRCode(code).then((qrCodeUrl) => {
+      const queued: BarcodeItem[] = Array.from({ length: qty }, (_, i) => ({
+        id: `${Date.now()}-${i}`,
+        code,
+        productName: qty > 1 ? `${name || code} #${i + 1}` : name || code,
+        qrCodeUrl,
+      }));
+      setBarcodes((prev) => [...prev, ...queued]);
+      toast.success(`${qty} label(s) for ${code} added to print queue`);
+    });
+  }, [searchParams, setSearchParams]);
+
   const loadExistingBarcodes = async () => {
     try {
       const data = await localApi.products.getAll();
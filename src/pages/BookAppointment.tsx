@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, CalendarCheck, CalendarDays, Clock, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface BookingService {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  duration_minutes: number;
+}
+
+interface BookingOptions {
+  department_name: string;
+  booking_enabled: boolean;
+  days_ahead: number;
+  services: BookingService[];
+}
+
+// Public page: customers pick a service and a free slot, and staff confirm the request
+const BookAppointment = () => {
+  const [searchParams] = useSearchParams();
+  const departmentId = searchParams.get("dept");
+  const [serviceId, setServiceId] = useState("");
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [slot, setSlot] = useState("");
+  const [contact, setContact] = useState({ name: "", phone: "", email: "", notes: "" });
+  const [bookedAt, setBookedAt] = useState<string | null>(null);
+
+  const { data: options, isLoading, error: optionsError } = useQuery({
+    queryKey: ["booking-options", departmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_booking_options", { _department_id: departmentId! });
+      if (error) throw error;
+      return data as unknown as BookingOptions;
+    },
+    enabled: !!departmentId,
+  });
+
+  const { data: slots = [], isFetching: loadingSlots } = useQuery({
+    queryKey: ["booking-slots", departmentId, serviceId, date],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_booking_slots", {
+        _department_id: departmentId!,
+        _service_id: serviceId,
+        _date: date,
+      });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!departmentId && !!serviceId && !!date,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("request_booking", {
+        _department_id: departmentId!,
+        _service_id: serviceId,
+        _start: slot,
+        _name: contact.name,
+        _phone: contact.phone,
+        _email: contact.email || undefined,
+        _notes: contact.notes || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setBookedAt(slot);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Could not send your booking request");
+    },
+  });
+
+  const service = options?.services.find((s) => s.id === serviceId);
+  const freeSlots = slots.filter((s) => s.available);
+
+  const renderMessage = (message: string) => (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>{message}</AlertDescription>
+    </Alert>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/20 p-4">
+      <div className="container mx-auto max-w-2xl space-y-6 py-8">
+        <div className="text-center space-y-2">
+          <div className="flex items-center justify-center gap-2">
+            <CalendarDays className="h-10 w-10 text-primary" />
+            <h1 className="text-4xl font-bold">Book an Appointment</h1>
+          </div>
+          {options?.department_name && (
+            <p className="text-muted-foreground text-lg">{options.department_name}</p>
+          )}
+        </div>
+
+        {!departmentId && renderMessage("This booking link is incomplete. Please ask us for a new one.")}
+        {optionsError && renderMessage((optionsError as Error).message)}
+        {isLoading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        )}
+        {options && !options.booking_enabled && renderMessage("Online booking is not available right now. Please call us to book.")}
+
+        {bookedAt ? (
+          <Card className="border-primary/40 bg-primary/5">
+            <CardContent className="py-8 text-center space-y-3">
+              <CalendarCheck className="h-12 w-12 text-primary mx-auto" />
+              <h2 className="text-2xl font-semibold">Request received</h2>
+              <p className="text-muted-foreground">
+                {service?.name} on {format(new Date(bookedAt), "EEEE dd MMM 'at' HH:mm")}. We will contact you on{" "}
+                {contact.phone} to confirm.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          options?.booking_enabled && (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle>1. Choose a service</CardTitle>
+                </CardHeader>
+                <CardContent className="grid gap-2 sm:grid-cols-2">
+                  {options.services.map((s) => (
+                    <button
+                      key={s.id}
+                      type="button"
+                      onClick={() => {
+                        setServiceId(s.id);
+                        setSlot("");
+                      }}
+                      className={cn(
+                        "text-left p-3 rounded-lg border transition-colors",
+                        serviceId === s.id ? "border-primary bg-primary/10" : "hover:bg-muted"
+                      )}
+                    >
+                      <p className="font-medium">{s.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {s.duration_minutes} min · UGX {Number(s.price).toLocaleString()}
+                      </p>
+                      {s.description && <p className="text-xs text-muted-foreground mt-1">{s.description}</p>}
+                    </button>
+                  ))}
+                  {options.services.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No services are open for booking yet.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {serviceId && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>2. Pick a time</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <Input
+                      type="date"
+                      value={date}
+                      min={format(new Date(), "yyyy-MM-dd")}
+                      max={format(addDays(new Date(), options.days_ahead), "yyyy-MM-dd")}
+                      onChange={(e) => {
+                        setDate(e.target.value);
+                        setSlot("");
+                      }}
+                    />
+                    {loadingSlots ? (
+                      <div className="flex justify-center py-4">
+                        <Loader2 className="h-6 w-6 animate-spin" />
+                      </div>
+                    ) : freeSlots.length === 0 ? (
+                      <p className="text-sm text-muted-foreground text-center">No free times on this day. Please try another date.</p>
+                    ) : (
+                      <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                        {freeSlots.map((s) => (
+                          <Button
+                            key={s.slot_start}
+                            variant={slot === s.slot_start ? "default" : "outline"}
+                            onClick={() => setSlot(s.slot_start)}
+                          >
+                            <Clock className="w-3 h-3 mr-1" />
+                            {format(new Date(s.slot_start), "HH:mm")}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {slot && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>3. Your details</CardTitle>
+                    <CardDescription>We use these only to confirm and remind you of your appointment.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label>Name *</Label>
+                      <Input value={contact.name} onChange={(e) => setContact({ ...contact, name: e.target.value })} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Phone Number *</Label>
+                      <Input
+                        type="tel"
+                        value={contact.phone}
+                        onChange={(e) => setContact({ ...contact, phone: e.target.value })}
+                        placeholder="+256..."
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Email</Label>
+                      <Input
+                        type="email"
+                        value={contact.email}
+                        onChange={(e) => setContact({ ...contact, email: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Notes</Label>
+                      <Textarea
+                        rows={2}
+                        value={contact.notes}
+                        onChange={(e) => setContact({ ...contact, notes: e.target.value })}
+                      />
+                    </div>
+                    <Button
+                      className="w-full"
+                      onClick={() => requestMutation.mutate()}
+                      disabled={requestMutation.isPending || !contact.name.trim() || !contact.phone.trim()}
+                    >
+                      {requestMutation.isPending ? "Sending..." : `Request ${format(new Date(slot), "EEE dd MMM, HH:mm")}`}
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookAppointment;
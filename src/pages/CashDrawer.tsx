@@ -2,6 +2,9 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useDepartment } from "@/contexts/DepartmentContext";
+import { fetchCashCollected } from "@/utils/payments";
+import { fetchCashRefunds } from "@/utils/saleReturns";
+import { fetchVoucherCashSales } from "@/utils/giftVouchers";
 import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -103,16 +106,14 @@ const CashDrawer = () => {
     queryFn: async () => {
       if (!currentShift) return 0;
       
-      const { data, error } = await supabase
-        .from("sales")
-        .select("total")
-        .eq("department_id", selectedDepartmentId)
-        .eq("payment_method", "cash")
-        .eq("status", "completed")
-        .gte("created_at", currentShift.opened_at);
-
-      if (error) throw error;
-      return data?.reduce((sum, sale) => sum + (sale.total || 0), 0) || 0;
+      // Only the cash tenders - split sales also took card, mobile money or credit.
+      // Cash refunded on returns has left the drawer; cash paid for gift vouchers is in it.
+      const [collected, refunded, vouchers] = await Promise.all([
+        fetchCashCollected(selectedDepartmentId, currentShift.opened_at),
+        fetchCashRefunds(selectedDepartmentId, currentShift.opened_at),
+        fetchVoucherCashSales(selectedDepartmentId, currentShift.opened_at),
+      ]);
+      return collected - refunded + vouchers;
     },
     enabled: !!currentShift && !!selectedDepartmentId,
   });
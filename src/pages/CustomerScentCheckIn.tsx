@@ -9,138 +9,15 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-
-const translations = {
-  en: {
-    title: "My Scent History",
-    subtitle: "Find your previous perfume mixtures",
-    department: "Department",
-    welcomeTitle: "Welcome to Your Scent Memory",
-    welcomeDescription: "We've saved your custom perfume mixtures! Use this page to find your favorite scents from previous visits.",
-    step1Title: "Enter Your Details",
-    step1Description: "Type your name, phone number, or receipt number in the search box below",
-    step2Title: "View Your Scent History",
-    step2Description: "See your last perfume mixture, previous purchases, and saved preferences",
-    step3Title: "Reorder with Ease",
-    step3Description: "Show your scent mixture to our staff to get the exact same fragrance again",
-    tip: "💡 Tip: Save this page or QR code for quick access to your scent history anytime!",
-    invalidQr: "Invalid QR code. Please scan a valid department QR code to access scent history.",
-    findScents: "Find Your Scents",
-    searchDescription: "Enter your name, phone number, or receipt number to see your scent history",
-    yourName: "Your Name",
-    namePlaceholder: "Enter your name...",
-    phoneNumber: "Phone Number",
-    phonePlaceholder: "Enter your phone number...",
-    receiptNumber: "Receipt Number (Optional)",
-    receiptPlaceholder: "Enter receipt number...",
-    findMyScents: "Find My Scents",
-    searching: "Searching...",
-    lastPurchase: "Your Last Purchase",
-    product: "Product",
-    scentMixture: "Your Scent Mixture",
-    quantity: "Quantity",
-    noPurchases: "No previous perfume purchases found",
-    previousPurchases: "Your Previous Purchases",
-    earlierPurchases: "earlier purchase(s)",
-    yourPreferences: "Your Preferences",
-    preferredBottleSizes: "Preferred Bottle Sizes",
-    notes: "Notes",
-    errorEnterDetails: "Please enter your name, phone number, or receipt number",
-    errorInvalidQr: "Invalid QR code. Please scan a valid department QR code.",
-    errorNotFound: "No customer found in this department. Please check your details.",
-    successFound: "Found your scent history!",
-    infoNoPurchases: "No previous perfume purchases found",
-    errorFailed: "Failed to get scent history"
-  },
-  sw: {
-    title: "Historia Yangu ya Harufu",
-    subtitle: "Tafuta mchanganyiko wako wa zamani wa manukato",
-    department: "Idara",
-    welcomeTitle: "Karibu kwenye Kumbukumbu ya Harufu Yako",
-    welcomeDescription: "Tumehifadhi mchanganyiko wako maalum wa manukato! Tumia ukurasa huu kupata harufu zako unazozipenda kutoka ziara za awali.",
-    step1Title: "Weka Maelezo Yako",
-    step1Description: "Andika jina lako, nambari ya simu, au nambari ya risiti kwenye kisanduku cha utafutaji hapa chini",
-    step2Title: "Tazama Historia ya Harufu Yako",
-    step2Description: "Ona mchanganyiko wako wa manukato wa mwisho, ununuzi wa awali, na mapendeleo yaliyohifadhiwa",
-    step3Title: "Agiza Tena kwa Urahisi",
-    step3Description: "Onyesha mchanganyiko wako wa harufu kwa wafanyakazi wetu kupata harufu sawa kabisa tena",
-    tip: "💡 Kidokezo: Hifadhi ukurasa huu au msimbo wa QR kwa ufikiaji wa haraka wa historia ya harufu yako wakati wowote!",
-    invalidQr: "Msimbo wa QR si sahihi. Tafadhali scan msimbo sahihi wa QR wa idara ili kufikia historia ya harufu.",
-    findScents: "Tafuta Harufu Zako",
-    searchDescription: "Weka jina lako, nambari ya simu, au nambari ya risiti kuona historia ya harufu yako",
-    yourName: "Jina Lako",
-    namePlaceholder: "Weka jina lako...",
-    phoneNumber: "Nambari ya Simu",
-    phonePlaceholder: "Weka nambari yako ya simu...",
-    receiptNumber: "Nambari ya Risiti (Si Lazima)",
-    receiptPlaceholder: "Weka nambari ya risiti...",
-    findMyScents: "Tafuta Harufu Zangu",
-    searching: "Inatafuta...",
-    lastPurchase: "Ununuzi Wako wa Mwisho",
-    product: "Bidhaa",
-    scentMixture: "Mchanganyiko Wako wa Harufu",
-    quantity: "Kiasi",
-    noPurchases: "Hakuna ununuzi wa zamani wa manukato unapatikana",
-    previousPurchases: "Ununuzi Wako wa Awali",
-    earlierPurchases: "ununuzi wa awali",
-    yourPreferences: "Mapendeleo Yako",
-    preferredBottleSizes: "Ukubwa wa Chupa Unaopendelewa",
-    notes: "Maelezo",
-    errorEnterDetails: "Tafadhali weka jina lako, nambari ya simu, au nambari ya risiti",
-    errorInvalidQr: "Msimbo wa QR si sahihi. Tafadhali scan msimbo sahihi wa QR wa idara.",
-    errorNotFound: "Hakuna mteja aliyepatikana katika idara hii. Tafadhali angalia maelezo yako.",
-    successFound: "Historia ya harufu yako imepatikana!",
-    infoNoPurchases: "Hakuna ununuzi wa zamani wa manukato unapatikana",
-    errorFailed: "Imeshindwa kupata historia ya harufu"
-  },
-  fr: {
-    title: "Mon Historique de Parfums",
-    subtitle: "Retrouvez vos mélanges de parfums précédents",
-    department: "Département",
-    welcomeTitle: "Bienvenue dans Votre Mémoire Olfactive",
-    welcomeDescription: "Nous avons sauvegardé vos mélanges de parfums personnalisés! Utilisez cette page pour retrouver vos senteurs préférées de visites précédentes.",
-    step1Title: "Entrez Vos Informations",
-    step1Description: "Tapez votre nom, numéro de téléphone ou numéro de reçu dans la zone de recherche ci-dessous",
-    step2Title: "Consultez Votre Historique",
-    step2Description: "Voyez votre dernier mélange de parfum, achats précédents et préférences sauvegardées",
-    step3Title: "Recommandez Facilement",
-    step3Description: "Montrez votre mélange de parfum à notre personnel pour obtenir exactement la même fragrance",
-    tip: "💡 Astuce: Enregistrez cette page ou le code QR pour un accès rapide à votre historique de parfums!",
-    invalidQr: "Code QR invalide. Veuillez scanner un code QR de département valide pour accéder à l'historique.",
-    findScents: "Trouvez Vos Parfums",
-    searchDescription: "Entrez votre nom, numéro de téléphone ou numéro de reçu pour voir votre historique",
-    yourName: "Votre Nom",
-    namePlaceholder: "Entrez votre nom...",
-    phoneNumber: "Numéro de Téléphone",
-    phonePlaceholder: "Entrez votre numéro...",
-    receiptNumber: "Numéro de Reçu (Optionnel)",
-    receiptPlaceholder: "Entrez le numéro de reçu...",
-    findMyScents: "Trouver Mes Parfums",
-    searching: "Recherche...",
-    lastPurchase: "Votre Dernier Achat",
-    product: "Produit",
-    scentMixture: "Votre Mélange de Parfum",
-    quantity: "Quantité",
-    noPurchases: "Aucun achat de parfum précédent trouvé",
-    previousPurchases: "Vos Achats Précédents",
-    earlierPurchases: "achat(s) antérieur(s)",
-    yourPreferences: "Vos Préférences",
-    preferredBottleSizes: "Tailles de Flacons Préférées",
-    notes: "Notes",
-    errorEnterDetails: "Veuillez entrer votre nom, numéro de téléphone ou numéro de reçu",
-    errorInvalidQr: "Code QR invalide. Veuillez scanner un code QR de département valide.",
-    errorNotFound: "Aucun client trouvé dans ce département. Veuillez vérifier vos informations.",
-    successFound: "Historique de parfums trouvé!",
-    infoNoPurchases: "Aucun achat de parfum précédent trouvé",
-    errorFailed: "Échec de la récupération de l'historique"
-  }
-};
+import { useTranslator } from "@/hooks/useTranslator";
+import { LANGUAGES, Language } from "@/constants/translations";
 
 interface Customer {
   id: string;
   name: string;
   phone: string | null;
   department_id: string | null;
+  preferred_language?: string | null;
 }
 
 const CustomerScentCheckIn = () => {
@@ -158,19 +35,23 @@ const CustomerScentCheckIn = () => {
   const [data, setData] = useState<any>(null);
   const [customerInfo, setCustomerInfo] = useState<Customer | null>(null);
   const [departmentName, setDepartmentName] = useState<string>("");
-  const [language, setLanguage] = useState<"en" | "sw" | "fr">("en");
+  // Picked here, else ?lang= from a shared link, else the customer's own, else the department default
+  const [language, setLanguage] = useState<Language | null>(null);
   const [autoSearchDone, setAutoSearchDone] = useState(false);
 
-  const t = translations[language];
+  const { t, language: pageLanguage } = useTranslator(
+    departmentId,
+    language || searchParams.get("lang") || customerInfo?.preferred_language
+  );
 
   const searchScentHistory = useCallback(async (skipValidation = false) => {
     if (!skipValidation && !searchName.trim() && !searchPhone.trim() && !searchReceipt.trim()) {
-      toast.error(t.errorEnterDetails);
+      toast.error(t("checkIn.errorEnterDetails"));
       return;
     }
 
     if (!departmentId) {
-      toast.error(t.errorInvalidQr);
+      toast.error(t("checkIn.errorInvalidQr"));
       return;
     }
 
@@ -212,13 +93,13 @@ const CustomerScentCheckIn = () => {
       }
 
       if (result.lastPurchase) {
-        toast.success(t.successFound);
+        toast.success(t("checkIn.successFound"));
       } else {
-        toast.info(t.infoNoPurchases);
+        toast.info(t("checkIn.infoNoPurchases"));
       }
     } catch (error: any) {
       console.error("Error fetching scent history:", error);
-      toast.error(error.message || t.errorFailed);
+      toast.error(error.message || t("checkIn.errorFailed"));
     } finally {
       setLoading(false);
     }
@@ -239,28 +120,28 @@ const CustomerScentCheckIn = () => {
         <div className="text-center space-y-2">
           <div className="flex items-center justify-center gap-2">
             <Sparkles className="h-10 w-10 text-primary" />
-            <h1 className="text-4xl font-bold">{t.title}</h1>
+            <h1 className="text-4xl font-bold">{t("checkIn.title")}</h1>
           </div>
           <p className="text-muted-foreground text-lg">
-            {t.subtitle}
+            {t("checkIn.subtitle")}
           </p>
           {departmentName && (
             <p className="text-sm text-muted-foreground">
-              {t.department}: <span className="font-semibold text-primary">{departmentName}</span>
+              {t("checkIn.department")}: <span className="font-semibold text-primary">{departmentName}</span>
             </p>
           )}
           
           {/* Language Selector */}
           <div className="flex items-center justify-center gap-2 pt-2">
             <Languages className="h-4 w-4 text-muted-foreground" />
-            <Select value={language} onValueChange={(value: "en" | "sw" | "fr") => setLanguage(value)}>
+            <Select value={pageLanguage} onValueChange={(value) => setLanguage(value as Language)}>
               <SelectTrigger className="w-[180px]">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="en">English</SelectItem>
-                <SelectItem value="sw">Kiswahili</SelectItem>
-                <SelectItem value="fr">Français</SelectItem>
+                {Object.entries(LANGUAGES).map(([code, name]) => (
+                  <SelectItem key={code} value={code}>{name}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -271,12 +152,12 @@ const CustomerScentCheckIn = () => {
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-xl">
               <Sparkles className="h-6 w-6 text-primary" />
-              {t.welcomeTitle}
+              {t("checkIn.welcomeTitle")}
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
             <p className="text-muted-foreground">
-              {t.welcomeDescription}
+              {t("checkIn.welcomeDescription")}
             </p>
             
             <div className="space-y-3">
@@ -285,9 +166,9 @@ const CustomerScentCheckIn = () => {
                   <span className="text-primary font-bold">1</span>
                 </div>
                 <div>
-                  <h4 className="font-semibold mb-1">{t.step1Title}</h4>
+                  <h4 className="font-semibold mb-1">{t("checkIn.step1Title")}</h4>
                   <p className="text-sm text-muted-foreground">
-                    {t.step1Description}
+                    {t("checkIn.step1Description")}
                   </p>
                 </div>
               </div>
@@ -297,9 +178,9 @@ const CustomerScentCheckIn = () => {
                   <span className="text-primary font-bold">2</span>
                 </div>
                 <div>
-                  <h4 className="font-semibold mb-1">{t.step2Title}</h4>
+                  <h4 className="font-semibold mb-1">{t("checkIn.step2Title")}</h4>
                   <p className="text-sm text-muted-foreground">
-                    {t.step2Description}
+                    {t("checkIn.step2Description")}
                   </p>
                 </div>
               </div>
@@ -309,9 +190,9 @@ const CustomerScentCheckIn = () => {
                   <span className="text-primary font-bold">3</span>
                 </div>
                 <div>
-                  <h4 className="font-semibold mb-1">{t.step3Title}</h4>
+                  <h4 className="font-semibold mb-1">{t("checkIn.step3Title")}</h4>
                   <p className="text-sm text-muted-foreground">
-                    {t.step3Description}
+                    {t("checkIn.step3Description")}
                   </p>
                 </div>
               </div>
@@ -319,7 +200,7 @@ const CustomerScentCheckIn = () => {
 
             <div className="pt-2 border-t">
               <p className="text-sm text-muted-foreground italic">
-                {t.tip}
+                {t("checkIn.tip")}
               </p>
             </div>
           </CardContent>
@@ -330,7 +211,7 @@ const CustomerScentCheckIn = () => {
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
-              {t.invalidQr}
+              {t("checkIn.invalidQr")}
             </AlertDescription>
           </Alert>
         )}
@@ -340,39 +221,39 @@ const CustomerScentCheckIn = () => {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Search className="h-5 w-5" />
-              {t.findScents}
+              {t("checkIn.findScents")}
             </CardTitle>
             <CardDescription>
-              {t.searchDescription}
+              {t("checkIn.searchDescription")}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid gap-4">
               <div>
-                <Label htmlFor="name">{t.yourName}</Label>
+                <Label htmlFor="name">{t("checkIn.yourName")}</Label>
                 <Input
                   id="name"
-                  placeholder={t.namePlaceholder}
+                  placeholder={t("checkIn.namePlaceholder")}
                   value={searchName}
                   onChange={(e) => setSearchName(e.target.value)}
                   onKeyPress={(e) => e.key === "Enter" && searchScentHistory()}
                 />
               </div>
               <div>
-                <Label htmlFor="phone">{t.phoneNumber}</Label>
+                <Label htmlFor="phone">{t("checkIn.phoneNumber")}</Label>
                 <Input
                   id="phone"
-                  placeholder={t.phonePlaceholder}
+                  placeholder={t("checkIn.phonePlaceholder")}
                   value={searchPhone}
                   onChange={(e) => setSearchPhone(e.target.value)}
                   onKeyPress={(e) => e.key === "Enter" && searchScentHistory()}
                 />
               </div>
               <div>
-                <Label htmlFor="receipt">{t.receiptNumber}</Label>
+                <Label htmlFor="receipt">{t("checkIn.receiptNumber")}</Label>
                 <Input
                   id="receipt"
-                  placeholder={t.receiptPlaceholder}
+                  placeholder={t("checkIn.receiptPlaceholder")}
                   value={searchReceipt}
                   onChange={(e) => setSearchReceipt(e.target.value)}
                   onKeyPress={(e) => e.key === "Enter" && searchScentHistory()}
@@ -386,11 +267,11 @@ const CustomerScentCheckIn = () => {
               className="w-full"
             >
               {loading ? (
-                t.searching
+                t("checkIn.searching")
               ) : (
                 <>
                   <Search className="mr-2 h-5 w-5" />
-                  {t.findMyScents}
+                  {t("checkIn.findMyScents")}
                 </>
               )}
             </Button>
@@ -418,16 +299,16 @@ const CustomerScentCheckIn = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Droplet className="h-5 w-5 text-primary" />
-                    {t.lastPurchase}
+                    {t("checkIn.lastPurchase")}
                   </CardTitle>
                   <CardDescription>
-                    {new Date(data.lastPurchase.sales.created_at).toLocaleDateString()} - {t.receiptNumber.replace(' (Optional)', '')}: {data.lastPurchase.sales.receipt_number}
+                    {new Date(data.lastPurchase.sales.created_at).toLocaleDateString()} - {t("receipt.receiptNumber")}: {data.lastPurchase.sales.receipt_number}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div>
                     <div className="text-sm font-medium text-muted-foreground mb-1">
-                      {t.product}:
+                      {t("checkIn.product")}:
                     </div>
                     <div className="text-xl font-semibold">
                       {data.lastPurchase.item_name}
@@ -436,7 +317,7 @@ const CustomerScentCheckIn = () => {
                   {data.lastPurchase.scent_mixture && (
                     <div>
                       <div className="text-sm font-medium text-muted-foreground mb-2">
-                        {t.scentMixture}:
+                        {t("checkIn.scentMixture")}:
                       </div>
                       <div className="text-lg bg-background p-4 rounded-lg border-2 border-primary/30 font-medium">
                         {data.lastPurchase.scent_mixture}
@@ -445,7 +326,7 @@ const CustomerScentCheckIn = () => {
                   )}
                   {data.lastPurchase.quantity && (
                     <div className="text-sm text-muted-foreground">
-                      {t.quantity}: {data.lastPurchase.quantity}
+                      {t("checkIn.quantity")}: {data.lastPurchase.quantity}
                     </div>
                   )}
                 </CardContent>
@@ -456,7 +337,7 @@ const CustomerScentCheckIn = () => {
                   <div className="text-center space-y-2">
                     <ShoppingBag className="h-16 w-16 mx-auto text-muted-foreground" />
                     <p className="text-muted-foreground text-lg">
-                      {t.noPurchases}
+                      {t("checkIn.noPurchases")}
                     </p>
                   </div>
                 </CardContent>
@@ -469,10 +350,10 @@ const CustomerScentCheckIn = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <ShoppingBag className="h-5 w-5" />
-                    {t.previousPurchases}
+                    {t("checkIn.previousPurchases")}
                   </CardTitle>
                   <CardDescription>
-                    {data.allPurchases.length - 1} {t.earlierPurchases}
+                    {data.allPurchases.length - 1} {t("checkIn.earlierPurchases")}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-3">
@@ -493,7 +374,7 @@ const CustomerScentCheckIn = () => {
                       {purchase.scent_mixture && (
                         <div className="pl-6">
                           <div className="text-xs font-medium text-muted-foreground mb-1">
-                            {t.scentMixture}:
+                            {t("checkIn.scentMixture")}:
                           </div>
                           <div className="text-sm bg-background p-3 rounded border">
                             {purchase.scent_mixture}
@@ -512,7 +393,7 @@ const CustomerScentCheckIn = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
                     <Heart className="h-5 w-5" />
-                    {t.yourPreferences}
+                    {t("checkIn.yourPreferences")}
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-3">
@@ -520,7 +401,7 @@ const CustomerScentCheckIn = () => {
                     data.preferences.preferred_bottle_sizes.length > 0 && (
                       <div>
                         <div className="text-sm font-medium mb-2">
-                          {t.preferredBottleSizes}:
+                          {t("checkIn.preferredBottleSizes")}:
                         </div>
                         <div className="flex flex-wrap gap-2">
                           {data.preferences.preferred_bottle_sizes.map(
@@ -538,7 +419,7 @@ const CustomerScentCheckIn = () => {
                     )}
                   {data.preferences.notes && (
                     <div>
-                      <div className="text-sm font-medium mb-2">{t.notes}:</div>
+                      <div className="text-sm font-medium mb-2">{t("checkIn.notes")}:</div>
                       <p className="text-sm text-muted-foreground bg-muted/50 p-3 rounded">
                         {data.preferences.notes}
                       </p>
@@ -4,9 +4,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Sparkles, Search, Droplet, ShoppingBag, Heart } from "lucide-react";
+import { Sparkles, Search, Droplet, ShoppingBag, Heart, BookOpen } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { SharedPerfumeRecipe, fetchSharedRecipe } from "@/utils/perfumeRecipes";
+import { CustomerLoyaltyCard } from "@/components/loyalty/CustomerLoyaltyCard";
 
 interface Customer {
   id: string;
@@ -22,6 +24,7 @@ const CustomerScentMemory = () => {
   const urlPhone = searchParams.get("phone");
   const urlCustomerId = searchParams.get("customerId");
   const urlDepartmentId = searchParams.get("dept");
+  const urlRecipe = searchParams.get("recipe");
 
   const [searchTerm, setSearchTerm] = useState(urlName || "");
   const [searchPhone, setSearchPhone] = useState(urlPhone || "");
@@ -32,6 +35,7 @@ const CustomerScentMemory = () => {
   const [data, setData] = useState<any>(null);
   const [loadingAI, setLoadingAI] = useState(false);
   const [autoSearchDone, setAutoSearchDone] = useState(false);
+  const [recipe, setRecipe] = useState<SharedPerfumeRecipe | null>(null);
 
   const searchCustomers = async () => {
     if (!searchTerm.trim() && !searchPhone.trim() && !searchReceipt.trim()) {
@@ -200,6 +204,33 @@ const CustomerScentMemory = () => {
     performAutoSearch();
   }, [urlReceipt, urlName, urlPhone, urlCustomerId, urlDepartmentId, autoSearchDone, fetchLastPurchase]);
 
+  // A scanned recipe card: show the blend, and the owner's history if it is a customer's recipe
+  useEffect(() => {
+    if (!urlRecipe) return;
+
+    const resolveRecipe = async () => {
+      try {
+        const shared = await fetchSharedRecipe(urlRecipe);
+        setRecipe(shared);
+        if (shared.customer_id && !urlCustomerId) {
+          setSelectedCustomer({
+            id: shared.customer_id,
+            name: shared.customer_name || "Customer",
+            phone: null,
+            department_id: shared.department_id,
+          });
+          await fetchLastPurchase(shared.customer_id, shared.department_id || undefined);
+        }
+      } catch (error) {
+        console.error("Error resolving recipe:", error);
+        toast.error(error instanceof Error ? error.message : "Recipe not found");
+      }
+    };
+
+    resolveRecipe();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [urlRecipe]);
+
   return (
     <div className="container mx-auto p-6 max-w-6xl space-y-6">
       <div className="flex items-center gap-3">
@@ -212,6 +243,42 @@ const CustomerScentMemory = () => {
         </div>
       </div>
 
+      {/* Recipe from a scanned QR card */}
+      {recipe && (
+        <Card className="border-primary bg-primary/5">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5 text-primary" />
+              {recipe.name}
+            </CardTitle>
+            <CardDescription>
+              {recipe.is_house_blend ? "House blend" : `Recipe for ${recipe.customer_name || "customer"}`}
+              {recipe.department_name && ` · ${recipe.department_name}`}
+              {recipe.default_size_ml && ` · ${Number(recipe.default_size_ml)}ml bottle`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {recipe.description && <p className="text-sm text-muted-foreground">{recipe.description}</p>}
+            {recipe.scents.map((scent) => (
+              <div key={scent.name} className="flex items-center justify-between p-2 rounded-lg border bg-background">
+                <span className="flex items-center gap-2 font-medium">
+                  <Droplet className="h-4 w-4 text-primary" />
+                  {scent.name}
+                </span>
+                <span className="text-sm font-semibold">
+                  {scent.percent}%
+                  {recipe.default_size_ml && (
+                    <span className="text-muted-foreground font-normal ml-2">
+                      ({Math.round(Number(recipe.default_size_ml) * scent.percent) / 100}ml)
+                    </span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Customer Search Section */}
       <Card>
         <CardHeader>
@@ -314,6 +381,9 @@ const CustomerScentMemory = () => {
         </CardContent>
       </Card>
 
+      {/* Points and refill punch-card */}
+      <CustomerLoyaltyCard customerId={selectedCustomer?.id} />
+
       {/* Loading State */}
       {loadingAI && (
         <Card>
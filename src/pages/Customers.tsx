@@ -10,9 +10,13 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Plus, Pencil, User } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Pencil, Star, User } from "lucide-react";
 import { toast } from "sonner";
 import { customerSchema } from "@/lib/validation";
+import { LANGUAGES } from "@/constants/translations";
+import { isLanguage } from "@/utils/i18n";
+import { LoyaltyHistoryDialog } from "@/components/loyalty/LoyaltyHistoryDialog";
 
 const Customers = () => {
   const queryClient = useQueryClient();
@@ -20,12 +24,14 @@ const Customers = () => {
   const { selectedDepartmentId, selectedDepartment } = useDepartment();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<any>(null);
+  const [loyaltyCustomer, setLoyaltyCustomer] = useState<{ id: string; name: string } | null>(null);
 
   const [formData, setFormData] = useState({
     name: "",
     phone: "",
     email: "",
     address: "",
+    preferred_language: "",
   });
 
   const { data: customers } = useQuery({
@@ -51,6 +57,7 @@ const Customers = () => {
         email: validated.email ?? null,
         phone: validated.phone ?? null,
         address: validated.address ?? null,
+        preferred_language: isLanguage(data.preferred_language) ? data.preferred_language : null,
         department_id: selectedDepartmentId,
       };
       
@@ -71,7 +78,7 @@ const Customers = () => {
       toast.success(editingCustomer ? "Customer updated" : "Customer added");
       setIsDialogOpen(false);
       setEditingCustomer(null);
-      setFormData({ name: "", phone: "", email: "", address: "" });
+      setFormData({ name: "", phone: "", email: "", address: "", preferred_language: "" });
       queryClient.invalidateQueries({ queryKey: ["customers"] });
     },
     onError: (error: any) => {
@@ -86,6 +93,7 @@ const Customers = () => {
       phone: customer.phone || "",
       email: customer.email || "",
       address: customer.address || "",
+      preferred_language: customer.preferred_language || "",
     });
     setIsDialogOpen(true);
   };
@@ -157,6 +165,24 @@ const Customers = () => {
                       placeholder="Physical address"
                     />
                   </div>
+
+                  <div className="space-y-2">
+                    <Label>Receipt & Message Language</Label>
+                    <Select
+                      value={formData.preferred_language || "default"}
+                      onValueChange={(value) => setFormData({ ...formData, preferred_language: value === "default" ? "" : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Department default</SelectItem>
+                        {Object.entries(LANGUAGES).map(([code, name]) => (
+                          <SelectItem key={code} value={code}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
                 <Button
@@ -205,6 +231,15 @@ const Customers = () => {
                           UGX {Number(customer.balance || 0).toLocaleString()}
                         </p>
                       </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        title="Loyalty"
+                        onClick={() => setLoyaltyCustomer({ id: customer.id, name: customer.name })}
+                      >
+                        <Star className="w-4 h-4 mr-1" />
+                        {customer.loyalty_points}
+                      </Button>
                       <Button size="sm" variant="outline" onClick={() => handleEdit(customer)}>
                         <Pencil className="w-4 h-4" />
                       </Button>
@@ -215,6 +250,12 @@ const Customers = () => {
             </div>
           </CardContent>
         </Card>
+
+        <LoyaltyHistoryDialog
+          open={!!loyaltyCustomer}
+          onOpenChange={(open) => !open && setLoyaltyCustomer(null)}
+          customer={loyaltyCustomer}
+        />
       </main>
     </div>
   );
@@ -0,0 +1,239 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useDepartment } from "@/contexts/DepartmentContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Gift, History, Plus, Printer, Search } from "lucide-react";
+import { IssueVoucherDialog } from "@/components/vouchers/IssueVoucherDialog";
+import { VoucherHistoryDialog } from "@/components/vouchers/VoucherHistoryDialog";
+import {
+  GiftVoucher,
+  VOUCHER_STATE_LABELS,
+  VoucherState,
+  getVoucherSettings,
+  getVoucherState,
+  normalizeVoucherCode,
+} from "@/utils/giftVouchers";
+import { printGiftVoucher } from "@/utils/voucherPrinter";
+
+const STATE_VARIANTS: Record<VoucherState, "default" | "secondary" | "destructive" | "outline"> = {
+  active: "default",
+  used: "secondary",
+  expired: "outline",
+  cancelled: "destructive",
+};
+
+const GiftVouchers = () => {
+  const { selectedDepartmentId } = useDepartment();
+  const [search, setSearch] = useState("");
+  const [stateFilter, setStateFilter] = useState<VoucherState | "all">("active");
+  const [issueOpen, setIssueOpen] = useState(false);
+  const [historyVoucher, setHistoryVoucher] = useState<GiftVoucher | null>(null);
+
+  const { data: settingsRows } = useQuery({
+    queryKey: ["voucher-settings", selectedDepartmentId],
+    queryFn: async () => {
+      const [{ data: department }, { data: global }] = await Promise.all([
+        supabase.from("settings").select("*").eq("department_id", selectedDepartmentId).maybeSingle(),
+        supabase.from("settings").select("*").is("department_id", null).maybeSingle(),
+      ]);
+      return { department, global };
+    },
+    enabled: !!selectedDepartmentId,
+  });
+
+  const voucherSettings = useMemo(
+    () => getVoucherSettings(settingsRows?.department, settingsRows?.global),
+    [settingsRows]
+  );
+
+  const { data: vouchers = [], isLoading } = useQuery({
+    queryKey: ["gift-vouchers", selectedDepartmentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("gift_vouchers")
+        .select("*, customers(name)")
+        .eq("department_id", selectedDepartmentId)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return (data || []) as (GiftVoucher & { customers: { name: string } | null })[];
+    },
+    enabled: !!selectedDepartmentId,
+  });
+
+  const filtered = useMemo(() => {
+    const term = normalizeVoucherCode(search);
+    return vouchers.filter((voucher) => {
+      if (stateFilter !== "all" && getVoucherState(voucher) !== stateFilter) return false;
+      if (!term) return true;
+      return (
+        voucher.code.includes(term) ||
+        (voucher.recipient_name || "").toUpperCase().includes(term) ||
+        (voucher.customers?.name || "").toUpperCase().includes(term)
+      );
+    });
+  }, [vouchers, search, stateFilter]);
+
+  const outstanding = vouchers
+    .filter((voucher) => getVoucherState(voucher) === "active")
+    .reduce((sum, voucher) => sum + Number(voucher.balance), 0);
+
+  const handlePrint = (voucher: GiftVoucher) => {
+    const business = settingsRows?.department || settingsRows?.global;
+    printGiftVoucher({
+      code: voucher.code,
+      value: Number(voucher.balance),
+      expiresAt: voucher.expires_at ? format(new Date(voucher.expires_at), "dd MMM yyyy") : null,
+      recipientName: voucher.recipient_name,
+      issuedAt: format(new Date(voucher.created_at), "dd MMM yyyy"),
+      businessInfo: {
+        name: business?.business_name || "Business Name",
+        address: business?.business_address || "",
+        phone: business?.business_phone || "",
+        logo: business?.logo_url || "",
+      },
+    });
+  };
+
+  if (!selectedDepartmentId) {
+    return (
+      <div className="container mx-auto p-6">
+        <Card>
+          <CardContent className="p-6 text-center text-muted-foreground">
+            Please select a department to manage gift vouchers.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 lg:p-8">
+      <main className="max-w-7xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h2 className="text-2xl sm:text-3xl font-bold">Gift Vouchers</h2>
+            <p className="text-sm sm:text-base text-muted-foreground">
+              Sell and print vouchers; customers spend them at the till as a Gift Voucher payment
+            </p>
+          </div>
+          <Button onClick={() => setIssueOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Issue Voucher
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <Gift className="w-4 h-4 text-primary" />
+              Outstanding on active vouchers
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold text-primary">UGX {Math.round(outstanding).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Scan a code or search by name"
+              className="pl-9"
+            />
+          </div>
+          <Select value={stateFilter} onValueChange={(value) => setStateFilter(value as VoucherState | "all")}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All vouchers</SelectItem>
+              {(Object.keys(VOUCHER_STATE_LABELS) as VoucherState[]).map((state) => (
+                <SelectItem key={state} value={state}>
+                  {VOUCHER_STATE_LABELS[state]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>For</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((voucher) => {
+                  const state = getVoucherState(voucher);
+                  return (
+                    <TableRow key={voucher.id}>
+                      <TableCell className="font-mono">{voucher.code}</TableCell>
+                      <TableCell>{voucher.recipient_name || voucher.customers?.name || "-"}</TableCell>
+                      <TableCell className="text-right">{Number(voucher.initial_value).toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-medium">{Number(voucher.balance).toLocaleString()}</TableCell>
+                      <TableCell className="text-sm">
+                        {voucher.expires_at ? format(new Date(voucher.expires_at), "dd MMM yyyy") : "Never"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATE_VARIANTS[state]}>{VOUCHER_STATE_LABELS[state]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => handlePrint(voucher)} disabled={state !== "active"}>
+                          <Printer className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setHistoryVoucher(voucher)}>
+                          <History className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {!isLoading && filtered.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      No vouchers found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </main>
+
+      <IssueVoucherDialog
+        open={issueOpen}
+        onOpenChange={setIssueOpen}
+        departmentId={selectedDepartmentId}
+        settings={voucherSettings}
+        onIssued={handlePrint}
+      />
+
+      <VoucherHistoryDialog
+        open={!!historyVoucher}
+        onOpenChange={(open) => !open && setHistoryVoucher(null)}
+        voucher={historyVoucher}
+      />
+    </div>
+  );
+};
+
+export default GiftVouchers;
@@ -3,6 +3,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useDepartment } from "@/contexts/DepartmentContext";
 import { useUserRole } from "@/hooks/useUserRole";
+import { applyStockMovement } from "@/utils/stockManagement";
 import { DepartmentSelector } from "@/components/DepartmentSelector";
 import Navigation from "@/components/Navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -130,6 +131,7 @@ const InternalUsage = () => {
   // Update status mutation
   const updateStatusMutation = useMutation({
     mutationFn: async ({ id, status }: { id: string; status: string }) => {
+      const record = usageRecords?.find((r) => r.id === id);
       const { data, error } = await supabase
         .from('internal_stock_usage')
         .update({ status })
@@ -137,11 +139,27 @@ const InternalUsage = () => {
         .select()
         .single();
       if (error) throw error;
+
+      // Stock leaves on approval, and comes back if an approval is withdrawn
+      const wasApproved = record?.status === 'approved';
+      const isApproved = status === 'approved';
+      if (record?.product_id && wasApproved !== isApproved) {
+        const amount = Number(record.ml_quantity ?? record.quantity) || 0;
+        await applyStockMovement({
+          itemType: "product",
+          itemId: record.product_id,
+          movementType: "internal_use",
+          quantity: isApproved ? -amount : amount,
+          useMl: record.ml_quantity != null,
+          reference: { type: "internal_stock_usage", id, notes: record.reason || undefined },
+        });
+      }
       return data;
     },
     onSuccess: () => {
       toast.success("Status updated successfully");
       queryClient.invalidateQueries({ queryKey: ["internal-usage"] });
+      queryClient.invalidateQueries({ queryKey: ["products-for-usage"] });
     },
     onError: () => {
       toast.error("Failed to update status");
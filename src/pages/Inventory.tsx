@@ -12,6 +12,7 @@ import { useDepartment } from "@/contexts/DepartmentContext";
 import { ProductFormDialog } from "@/components/inventory/ProductFormDialog";
 import { ProductList } from "@/components/inventory/ProductList";
 import { LowStockAlerts } from "@/components/inventory/LowStockAlerts";
+import { applyStockMovement } from "@/utils/stockManagement";
 
 const Inventory = () => {
   const queryClient = useQueryClient();
@@ -52,6 +53,7 @@ const Inventory = () => {
     retail_price_per_ml: 0,
     imei: "",
     serial_number: "",
+    tax_profile_id: "",
   });
 
   // Prevent adding perfume products from regular inventory
@@ -122,11 +124,13 @@ const Inventory = () => {
       const product = products?.find((p: any) => p.id === productId);
       if (!product) throw new Error("Product not found");
       
-      const { error } = await supabase
-        .from('products')
-        .update({ stock: (product.stock || 0) + stockToAdd })
-        .eq('id', productId);
-      if (error) throw error;
+      await applyStockMovement({
+        itemType: "product",
+        itemId: productId,
+        movementType: "adjustment",
+        quantity: stockToAdd,
+        reference: { type: "manual", notes: "Stock added" },
+      });
     },
     onSuccess: () => {
       toast.success("Stock added successfully");
@@ -172,6 +176,7 @@ const Inventory = () => {
       dataToSave.supplier_id = dataToSave.supplier_id && dataToSave.supplier_id.length > 0 ? dataToSave.supplier_id : null;
       dataToSave.barcode = dataToSave.barcode && dataToSave.barcode.length > 0 ? dataToSave.barcode : null;
       dataToSave.brand = dataToSave.brand && dataToSave.brand.length > 0 ? dataToSave.brand : null;
+      dataToSave.tax_profile_id = dataToSave.tax_profile_id && dataToSave.tax_profile_id.length > 0 ? dataToSave.tax_profile_id : null;
       
       // Require department_id for new products
       if (!editingProduct && !dataToSave.department_id) {
@@ -227,6 +232,7 @@ const Inventory = () => {
         retail_price_per_ml: 0,
         imei: "",
         serial_number: "",
+        tax_profile_id: "",
       });
       queryClient.invalidateQueries({ queryKey: ["products"] });
     },
@@ -274,6 +280,7 @@ const Inventory = () => {
       retail_price_per_ml: product.retail_price_per_ml || 0,
       imei: product.imei || "",
       serial_number: product.serial_number || "",
+      tax_profile_id: product.tax_profile_id || "",
     });
     setIsDialogOpen(true);
   };
@@ -359,6 +366,7 @@ const Inventory = () => {
                   retail_price_per_ml: 0,
                   imei: "",
                   serial_number: "",
+                  tax_profile_id: "",
                 });
                 setIsDialogOpen(true);
               }}
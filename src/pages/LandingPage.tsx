@@ -1,10 +1,14 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Printer, Wifi, Smartphone, Globe, Mail, Phone, MapPin, ChevronRight, MessageCircle, Zap, Clock, Shield, Star, Users } from "lucide-react";
-import { Link } from "react-router-dom";
+import { Printer, Wifi, Smartphone, Globe, Mail, Phone, MapPin, ChevronRight, MessageCircle, Zap, Clock, Shield, Star, Users, Languages } from "lucide-react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTranslator } from "@/hooks/useTranslator";
+import { LANGUAGES, Language } from "@/constants/translations";
 import heroBanner from "@/assets/hero-banner.jpg";
 import logo from "@/assets/logo.png";
 
@@ -105,6 +109,11 @@ const defaultServices = [
 ];
 
 export default function LandingPage() {
+  const [searchParams] = useSearchParams();
+  const [language, setLanguage] = useState<Language | null>(null);
+  // The landing page is business-wide, so it follows the global default language
+  const { t, language: pageLanguage } = useTranslator(null, language || searchParams.get("lang"));
+
   // Fetch settings
   const { data: settings } = useQuery({
     queryKey: ["public-settings"],
@@ -193,12 +202,23 @@ export default function LandingPage() {
               <span className="font-bold text-xl tracking-tight">{businessName}</span>
             </div>
             <div className="flex items-center gap-3">
+              <Select value={pageLanguage} onValueChange={(value) => setLanguage(value as Language)}>
+                <SelectTrigger className="w-[130px]" aria-label="Language">
+                  <Languages className="h-4 w-4 mr-1 text-muted-foreground" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LANGUAGES).map(([code, name]) => (
+                    <SelectItem key={code} value={code}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Link to="/auth">
-                <Button variant="ghost" className="hidden sm:inline-flex">Sign In</Button>
+                <Button variant="ghost" className="hidden sm:inline-flex">{t("landing.signIn")}</Button>
               </Link>
               <Link to="/auth">
                 <Button className="shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-105">
-                  Get Started
+                  {t("landing.getStarted")}
                 </Button>
               </Link>
             </div>
@@ -299,12 +319,12 @@ export default function LandingPage() {
         <div className="absolute inset-0 bg-gradient-to-b from-transparent via-muted/30 to-transparent" />
         <div className="container mx-auto max-w-6xl relative">
           <div className="text-center space-y-4 mb-16">
-            <Badge variant="outline" className="mb-4">What We Offer</Badge>
+            <Badge variant="outline" className="mb-4">{t("landing.whatWeOffer")}</Badge>
             <h2 className="text-4xl md:text-5xl font-bold animate-fade-in">
-              Our <span className="text-primary">Services</span>
+              {t("landing.ourServices")}
             </h2>
             <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
-              Everything you need, all in one convenient location
+              {t("landing.servicesSubtitle")}
             </p>
           </div>
 
@@ -345,7 +365,7 @@ export default function LandingPage() {
         <div className="container mx-auto max-w-6xl relative">
           <div className="grid md:grid-cols-2 gap-16 items-center">
             <div className="space-y-8 animate-fade-in">
-              <Badge variant="outline">About Us</Badge>
+              <Badge variant="outline">{t("landing.aboutUs")}</Badge>
               <h2 className="text-4xl md:text-5xl font-bold leading-tight">
                 {aboutContent.title.includes("Digital Hub") ? (
                   <>
@@ -396,7 +416,7 @@ export default function LandingPage() {
       <section id="contact" className="py-24 px-4 relative">
         <div className="container mx-auto max-w-4xl">
           <div className="text-center space-y-4 mb-16">
-            <Badge variant="outline">Get In Touch</Badge>
+            <Badge variant="outline">{t("landing.getInTouch")}</Badge>
             <h2 className="text-4xl md:text-5xl font-bold animate-fade-in">
               {contactContent.title.includes("Today") ? (
                 <>Visit Us <span className="text-primary">Today</span></>
@@ -411,9 +431,9 @@ export default function LandingPage() {
 
           <div className="grid md:grid-cols-3 gap-6">
             {[
-              { icon: Phone, title: "Call Us", value: "+256 772665998", color: "from-green-500 to-emerald-500" },
-              { icon: Mail, title: "Email", value: settings?.business_email || contactContent?.email || "info@dotcombrothers.com", color: "from-blue-500 to-cyan-500" },
-              { icon: MapPin, title: "Location", value: contactContent?.address || "Opp. Kasangati Police Station", color: "from-orange-500 to-amber-500" },
+              { icon: Phone, title: t("landing.callUs"), value: "+256 772665998", color: "from-green-500 to-emerald-500" },
+              { icon: Mail, title: t("landing.email"), value: settings?.business_email || contactContent?.email || "info@dotcombrothers.com", color: "from-blue-500 to-cyan-500" },
+              { icon: MapPin, title: t("landing.location"), value: contactContent?.address || "Opp. Kasangati Police Station", color: "from-orange-500 to-amber-500" },
             ].map((contact, index) => (
               <Card
                 key={contact.title}
@@ -441,7 +461,7 @@ export default function LandingPage() {
               </Button>
             </Link>
             <div>
-              <a href={`https://wa.me/${contactContent.whatsapp_number}?text=Hi%2C%20I%20need%20your%20services`} target="_blank" rel="noopener noreferrer">
+              <a href={`https://wa.me/${contactContent.whatsapp_number}?text=${encodeURIComponent(t("share.enquiry"))}`} target="_blank" rel="noopener noreferrer">
                 <Button
                   variant="outline"
                   size="lg"
@@ -466,12 +486,12 @@ export default function LandingPage() {
                 <span className="font-bold text-xl">{businessName}</span>
               </div>
               <p className="text-muted-foreground max-w-md">
-                Your trusted partner for all digital services in Kasangati. Fast, reliable, and always ready to serve you.
+                {t("landing.footerBlurb")}
               </p>
             </div>
 
             <div>
-              <h4 className="font-bold mb-6 text-lg">Services</h4>
+              <h4 className="font-bold mb-6 text-lg">{t("landing.services")}</h4>
               <ul className="space-y-3 text-muted-foreground">
                 <li className="hover:text-primary transition-colors cursor-pointer">Printing</li>
                 <li className="hover:text-primary transition-colors cursor-pointer">Cyber Cafe</li>
@@ -481,7 +501,7 @@ export default function LandingPage() {
             </div>
 
             <div>
-              <h4 className="font-bold mb-6 text-lg">Contact</h4>
+              <h4 className="font-bold mb-6 text-lg">{t("landing.contact")}</h4>
               <ul className="space-y-3 text-muted-foreground">
                 <li>+256 772665998</li>
                 <li>{settings?.business_email || contactContent?.email || "info@dotcombrothers.com"}</li>
@@ -17,13 +17,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { printReceipt } from "@/utils/receiptPrinter";
 import { ReceiptActionsDialog } from "@/components/ReceiptActionsDialog";
 import { MobileMoneyDialog } from "@/components/pos/MobileMoneyDialog";
-import { reduceStock, checkStockAvailability } from "@/utils/stockManagement";
+import { buildSaleStockLines, checkStockAvailability } from "@/utils/stockManagement";
+import { createSaleOrQueue, newCheckoutKey } from "@/utils/checkout";
+import { TenderMethod, buildSalePaymentRows, createTender } from "@/utils/payments";
 import { CustomerRegistration } from "@/components/mobilemoney/CustomerRegistrationNew";
 import { MobileMoneyHistory } from "@/components/mobilemoney/MobileMoneyHistoryNew";
 import { SimCardSettings } from "@/components/mobilemoney/SimCardSettingsNew";
 import { DataPackages } from "@/components/mobilemoney/DataPackages";
 import { DataPackageAnalytics } from "@/components/mobilemoney/DataPackageAnalytics";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { calculateCartTax, fetchTaxContext, formatTaxLabel, toSaleItemTaxColumns } from "@/utils/tax";
 
 const MobileMoney = () => {
   const queryClient = useQueryClient();
@@ -82,6 +85,9 @@ const MobileMoney = () => {
   const [currentReceiptData, setCurrentReceiptData] = useState<any>(null);
   const [showMobileMoneyDialog, setShowMobileMoneyDialog] = useState(false);
   const [completedSaleId, setCompletedSaleId] = useState<string | null>(null);
+  const [pendingPaymentId, setPendingPaymentId] = useState<string | null>(null);
+  // Reused when a failed checkout is retried, so the sale is only recorded once
+  const [checkoutKey, setCheckoutKey] = useState(newCheckoutKey);
   const [barcodeInput, setBarcodeInput] = useState("");
   const [saleDate, setSaleDate] = useState<string>(new Date().toISOString().split('T')[0]);
   const [customPriceDialog, setCustomPriceDialog] = useState<{ open: boolean; index: number; currentPrice: number }>({ open: false, index: -1, currentPrice: 0 });
@@ -141,6 +147,12 @@ const MobileMoney = () => {
 
   const mobileMoneyDept = mobileMoneyDepts?.find(d => d.id === selectedDeptId);
 
+  const { data: taxContext } = useQuery({
+    queryKey: ["tax-context", selectedDeptId],
+    queryFn: () => fetchTaxContext(selectedDeptId),
+    enabled: !!selectedDeptId,
+  });
+
   // Fetch department settings for receipt using Supabase
   const { data: deptSettings } = useQuery({
     queryKey: ["department-settings-supabase", selectedDeptId],
@@ -387,22 +399,7 @@ const MobileMoney = () => {
     }
 
     try {
-      // Check stock availability for all products
-      for (const cartItem of posCart) {
-        if (cartItem.itemType === 'product') {
-          const stockCheck = await checkStockAvailability(
-            cartItem.item.id,
-            cartItem.quantity
-          );
-          
-          if (!stockCheck.available) {
-            toast.error(stockCheck.message || "Insufficient stock for " + cartItem.item.name);
-            return;
-          }
-        }
-      }
-
-      const total = posCart.reduce((sum, item) => {
+      const subtotal = posCart.reduce((sum, item) => {
         const price = item.customPrice || (item.itemType === 'service' 
           ? item.item.base_price 
           : item.itemType === 'data_package'
@@ -410,10 +407,7 @@ const MobileMoney = () => {
           : item.item.selling_price || item.item.price || 0);
         return sum + (price * item.quantity);
       }, 0);
-
-      // Generate receipt number using Supabase function
-      const { data: receiptNumber, error: rcpError } = await supabase.rpc('generate_receipt_number');
-      const finalReceiptNumber = rcpError ? `RCP${Date.now()}` : receiptNumber;
+      const total = subtotal + cartTax.exclusiveTax;
 
       // Use selected sale date with current time if it's a past date
       const selectedDate = new Date(saleDate);
@@ -423,29 +417,7 @@ const MobileMoney = () => {
         ? now.toISOString() 
         : new Date(selectedDate.setHours(now.getHours(), now.getMinutes(), now.getSeconds())).toISOString();
 
-      // Create sale record
-      const { data: sale, error: saleError } = await supabase
-        .from("sales")
-        .insert({
-          department_id: selectedDeptId,
-          subtotal: total,
-          total: total,
-          amount_paid: total,
-          payment_method: paymentMethod as "cash" | "card" | "mobile_money" | "credit",
-          receipt_number: finalReceiptNumber,
-          sale_number: finalReceiptNumber,
-          customer_id: null,
-          cashier_name: cashierName,
-          remarks: posCustomerPhone || null,
-          created_at: saleTimestamp,
-        })
-        .select()
-        .single();
-
-      if (saleError) throw saleError;
-
-      // Insert sale items
-      const saleItems = posCart.map(cartItem => {
+      const saleItems = posCart.map((cartItem, index) => {
         const unitPrice = cartItem.customPrice || (cartItem.itemType === 'service' 
           ? cartItem.item.base_price 
           : cartItem.itemType === 'data_package'
@@ -455,7 +427,6 @@ const MobileMoney = () => {
         const itemName = cartItem.item.name || 'Unnamed Item';
         
         return {
-          sale_id: sale.id,
           name: itemName,
           item_name: itemName,
           service_id: cartItem.itemType === 'service' ? cartItem.item.id : null,
@@ -463,33 +434,43 @@ const MobileMoney = () => {
           quantity: cartItem.quantity,
           unit_price: unitPrice || 0,
           total: (unitPrice || 0) * cartItem.quantity,
+          ...toSaleItemTaxColumns(cartTax.lines[index]),
         };
       });
 
-      const { error: itemsError } = await supabase.from("sale_items").insert(saleItems);
-      if (itemsError) {
-        console.error("Failed to insert sale items:", itemsError);
-        toast.error("Warning: Sale items failed to save - " + itemsError.message);
-      }
-
-      // Prepare stock reduction for products
-      const cartForStock: any[] = posCart
-        .filter(cartItem => cartItem.itemType === 'product')
-        .map(cartItem => ({
-          id: cartItem.item.id,
-          productId: cartItem.item.id,
-          name: cartItem.item.name,
-          quantity: cartItem.quantity,
-          trackingType: cartItem.item.tracking_type || 'unit',
-        }));
-
-      // Reduce stock from main products table
-      if (cartForStock.length > 0) {
-        const stockResult = await reduceStock(cartForStock, selectedDeptId || "");
-        if (!stockResult.success) {
-          toast.warning("Sale completed but stock reduction failed: " + stockResult.error);
-        }
-      }
+      // Header, items, payment and stock are saved together, as at the main till
+      const { sale, payments, queued } = await createSaleOrQueue(
+        {
+          idempotencyKey: checkoutKey,
+          sale: {
+            department_id: selectedDeptId,
+            subtotal: subtotal,
+            tax: cartTax.totalTax,
+            total: total,
+            amount_paid: total,
+            payment_method: paymentMethod,
+            customer_id: null,
+            cashier_name: cashierName,
+            remarks: posCustomerPhone || null,
+            created_at: saleTimestamp,
+          },
+          items: saleItems,
+          payments: buildSalePaymentRows([createTender(paymentMethod as TenderMethod, total)], total),
+          stock: buildSaleStockLines(
+            posCart
+              .filter((cartItem) => cartItem.itemType === 'product')
+              .map((cartItem) => ({
+                id: cartItem.item.id,
+                productId: cartItem.item.id,
+                name: cartItem.item.name,
+                quantity: cartItem.quantity,
+                trackingType: cartItem.item.tracking_type,
+              }))
+          ),
+        },
+        `Mobile money shop sale UGX ${total.toLocaleString()}`
+      );
+      const finalReceiptNumber = sale.receipt_number;
 
       // Prepare receipt data matching receiptPrinter interface
       const receiptData = {
@@ -507,8 +488,9 @@ const MobileMoney = () => {
             subtotal: price * item.quantity,
           };
         }),
-        subtotal: total,
-        tax: 0,
+        subtotal: subtotal,
+        tax: cartTax.totalTax,
+        taxBreakdown: cartTax.breakdown,
         total: total,
         paymentMethod: paymentMethod,
         date: new Date().toISOString(),
@@ -527,9 +509,11 @@ const MobileMoney = () => {
         showBackPage: (deptSettings as any)?.show_back_page === true,
       };
 
-      // Handle mobile money payment
-      if (paymentMethod === "mobile_money") {
+      // Mobile money without a transaction ID - send the payment request before showing the receipt
+      const pendingMobile = payments.find((p) => p.method === "mobile_money" && p.status === "pending");
+      if (pendingMobile) {
         setCompletedSaleId(sale.id);
+        setPendingPaymentId(pendingMobile.id);
         setCurrentReceiptData(receiptData);
         setShowMobileMoneyDialog(true);
       } else {
@@ -538,7 +522,12 @@ const MobileMoney = () => {
         setShowReceiptDialog(true);
       }
 
-      toast.success("Sale completed successfully");
+      if (queued) {
+        toast.warning("You're offline - sale saved on this device and will sync when the connection is back");
+      } else {
+        toast.success("Sale completed successfully");
+      }
+      setCheckoutKey(newCheckoutKey());
       setPosCart([]);
       setPosCustomerPhone("");
       setPaymentMethod("cash");
@@ -546,7 +535,7 @@ const MobileMoney = () => {
       queryClient.invalidateQueries({ queryKey: ["products"] });
     } catch (error) {
       console.error("Sale error:", error);
-      toast.error("Failed to process sale");
+      toast.error(error instanceof Error ? error.message : "Failed to process sale");
     }
   };
 
@@ -647,6 +636,24 @@ const MobileMoney = () => {
     return sum + (price * item.quantity);
   }, 0);
 
+  const cartTax = calculateCartTax(
+    posCart.map((item) => {
+      const price = item.customPrice || (item.itemType === 'service'
+        ? item.item.base_price
+        : item.itemType === 'data_package'
+        ? item.item.price
+        : item.item.selling_price || item.item.price || 0);
+      return {
+        price,
+        quantity: item.quantity,
+        productId: item.itemType === 'product' ? item.item.id : null,
+        serviceId: item.itemType === 'service' ? item.item.id : null,
+      };
+    }),
+    0,
+    taxContext
+  );
+
   // Barcode scanning handler
   const handleBarcodeSearch = async () => {
     if (!barcodeInput.trim()) return;
@@ -992,10 +999,16 @@ const MobileMoney = () => {
                         </Select>
                       </div>
 
-                      <div className="pt-4 border-t">
+                      <div className="pt-4 border-t space-y-1">
+                        {cartTax.breakdown.filter((row) => row.taxAmount > 0).map((row) => (
+                          <div key={`${row.name}-${row.rate}-${row.inclusive}`} className="flex justify-between text-sm text-muted-foreground">
+                            <span>{formatTaxLabel(row)}:</span>
+                            <span>{row.inclusive ? "" : "+"}UGX {row.taxAmount.toLocaleString()}</span>
+                          </div>
+                        ))}
                         <div className="flex justify-between text-lg font-bold">
                           <span>Total:</span>
-                          <span>UGX {cartTotal.toLocaleString()}</span>
+                          <span>UGX {(cartTotal + cartTax.exclusiveTax).toLocaleString()}</span>
                         </div>
                       </div>
                       <Button
@@ -1755,6 +1768,7 @@ const MobileMoney = () => {
         isOpen={showReceiptDialog}
         onClose={() => setShowReceiptDialog(false)}
         receiptData={currentReceiptData}
+        departmentId={selectedDeptId}
       />
 
       {/* Mobile Money Dialog */}
@@ -1764,10 +1778,12 @@ const MobileMoney = () => {
         amount={currentReceiptData?.total || 0}
         departmentId={selectedDeptId || ""}
         saleId={completedSaleId}
+        salePaymentId={pendingPaymentId}
         onSuccess={() => {
           setShowMobileMoneyDialog(false);
           setCurrentReceiptData(null);
           setCompletedSaleId(null);
+          setPendingPaymentId(null);
         }}
       />
 
@@ -5,6 +5,9 @@ import { DollarSign, TrendingUp, Users, ShoppingCart, Package } from "lucide-rea
 import { useDepartment } from "@/contexts/DepartmentContext";
 import { format } from "date-fns";
 import { useDashboardRealtime } from "@/hooks/useRealtimeUpdates";
+import { AgentFloatPanel } from "@/components/mobilemoney/AgentFloatPanel";
+import { AgentCommissionReport } from "@/components/mobilemoney/AgentCommissionReport";
+import { StatementReconciliationPanel } from "@/components/mobilemoney/StatementReconciliationPanel";
 
 const MobileMoneyDashboard = () => {
   const { selectedDepartmentId } = useDepartment();
@@ -68,6 +71,10 @@ const MobileMoneyDashboard = () => {
         <h1 className="text-3xl font-bold text-foreground">Mobile Money Dashboard</h1>
       </div>
 
+      {selectedDepartmentId && <AgentFloatPanel departmentId={selectedDepartmentId} />}
+      {selectedDepartmentId && <AgentCommissionReport departmentId={selectedDepartmentId} />}
+      {selectedDepartmentId && <StatementReconciliationPanel departmentId={selectedDepartmentId} />}
+
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -21,6 +21,7 @@ import { useUserRole } from "@/hooks/useUserRole";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useState } from "react";
 import { useSalesRealtime, useInventoryRealtime } from "@/hooks/useRealtimeUpdates";
+import { PackagingUsageReport } from "@/components/perfume/PackagingUsageReport";
 
 const PerfumeDepartmentReport = () => {
   const [selectedDate, setSelectedDate] = useState(format(new Date(), "yyyy-MM-dd"));
@@ -283,6 +284,7 @@ const PerfumeDepartmentReport = () => {
             <TabsTrigger value="breakdown">Sales Breakdown</TabsTrigger>
             <TabsTrigger value="scents">Scent Analytics</TabsTrigger>
             <TabsTrigger value="internal">Internal Usage</TabsTrigger>
+            <TabsTrigger value="packaging">Bottle Usage</TabsTrigger>
           </TabsList>
 
           <TabsContent value="breakdown" className="space-y-4">
@@ -433,6 +435,10 @@ const PerfumeDepartmentReport = () => {
               </Card>
             </div>
           </TabsContent>
+
+          <TabsContent value="packaging" className="space-y-4">
+            <PackagingUsageReport departmentId={deptId} fromDate={selectedDate} toDate={selectedDate} />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
@@ -20,6 +20,11 @@ import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
 import { ScentStockManager } from "@/components/inventory/ScentStockManager";
 import { StockReconciliation } from "@/components/inventory/StockReconciliation";
+import { PackagingManager } from "@/components/inventory/PackagingManager";
+import { PackagingLowStockAlerts } from "@/components/inventory/PackagingLowStockAlerts";
+import { RecipeManager } from "@/components/perfume/RecipeManager";
+import { ScentVarianceReport } from "@/components/perfume/ScentVarianceReport";
+import { ProductionManager } from "@/components/perfume/ProductionManager";
 
 interface PerfumeProduct {
   id: string;
@@ -479,7 +484,7 @@ export default function PerfumeInventory() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="scent-stock" className="flex items-center gap-1">
               <Droplet className="w-4 h-4" />
               Scent Stock
@@ -492,6 +497,10 @@ export default function PerfumeInventory() {
                 </Badge>
               )}
             </TabsTrigger>
+            <TabsTrigger value="packaging">Packaging</TabsTrigger>
+            <TabsTrigger value="recipes">Recipes</TabsTrigger>
+            <TabsTrigger value="production">Production</TabsTrigger>
+            <TabsTrigger value="variance">Variance</TabsTrigger>
             <TabsTrigger value="shop-products">Shop Products</TabsTrigger>
           </TabsList>
 
@@ -516,6 +525,65 @@ export default function PerfumeInventory() {
             )}
           </TabsContent>
 
+          {/* Packaging Tab */}
+          <TabsContent value="packaging" className="space-y-6">
+            {selectedDepartmentId ? (
+              <>
+                <PackagingLowStockAlerts departmentId={selectedDepartmentId} />
+                <PackagingManager departmentId={selectedDepartmentId} />
+              </>
+            ) : (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <Package className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-muted-foreground">Please select a perfume department</p>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          {/* Recipes Tab */}
+          <TabsContent value="recipes" className="space-y-6">
+            {selectedDepartmentId ? (
+              <RecipeManager departmentId={selectedDepartmentId} />
+            ) : (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <Sparkles className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-muted-foreground">Please select a perfume department</p>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          {/* Production Tab */}
+          <TabsContent value="production" className="space-y-6">
+            {selectedDepartmentId ? (
+              <ProductionManager departmentId={selectedDepartmentId} />
+            ) : (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <Package className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-muted-foreground">Please select a perfume department</p>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          {/* Variance Tab */}
+          <TabsContent value="variance" className="space-y-6">
+            {selectedDepartmentId ? (
+              <ScentVarianceReport departmentId={selectedDepartmentId} />
+            ) : (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <Droplet className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+                  <p className="text-muted-foreground">Please select a perfume department</p>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
           {/* Oil Perfume Tab */}
           <TabsContent value="oil-perfume" className="space-y-6">
             {!masterPerfume ? (
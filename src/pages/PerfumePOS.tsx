@@ -1,8 +1,10 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { printReceipt } from "@/utils/receiptPrinter";
-import { reduceStock } from "@/utils/stockManagement";
+import { buildSaleStockLines } from "@/utils/stockManagement";
+import { createSaleOrQueue, newCheckoutKey, offlineReceiptNumber } from "@/utils/checkout";
+import { cachedQuery, cachedValue, isNetworkError } from "@/utils/offlineStore";
 import Navigation from "@/components/Navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -22,7 +24,13 @@ import { useDepartment } from "@/contexts/DepartmentContext";
 import { useDemoMode } from "@/contexts/DemoModeContext";
 import { CustomerPurchaseHistory } from "@/components/perfume/CustomerPurchaseHistory";
 import { ScentMemoryCard } from "@/components/perfume/ScentMemoryCard";
+import { CustomerLoyaltyCard } from "@/components/loyalty/CustomerLoyaltyCard";
 import { ParkedCartsPanel } from "@/components/pos/ParkedCartsPanel";
+import { calculateCartTax, fetchTaxContext, formatTaxLabel, toSaleItemTaxColumns } from "@/utils/tax";
+import { Tender, TenderMethod, buildSalePaymentRows, createTender, getSalePaymentMethod, getTenderCustomerId, summarizeTenders } from "@/utils/payments";
+import type { SaleLoyalty } from "@/utils/loyalty";
+import { SplitTenderDialog } from "@/components/pos/SplitTenderDialog";
+import { MobileMoneyDialog } from "@/components/pos/MobileMoneyDialog";
 
 interface CartItem {
   id: string;
@@ -48,6 +56,15 @@ const PerfumePOS = () => {
   const { isDemoMode, showDemoWarning } = useDemoMode();
   const [cart, setCart] = useState<CartItem[]>([]);
   const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [showSplitTenderDialog, setShowSplitTenderDialog] = useState(false);
+  // Mobile money tender waiting for the payment request; the receipt opens once it is sent
+  const [pendingMobilePayment, setPendingMobilePayment] = useState<{
+    saleId: string;
+    paymentId: string;
+    amount: number;
+    phoneNumber?: string;
+    provider?: "mtn" | "airtel";
+  } | null>(null);
   const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
   const [cashierName, setCashierName] = useState("");
   const [selectedCustomer, setSelectedCustomer] = useState<string>("");
@@ -57,6 +74,7 @@ const PerfumePOS = () => {
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [currentReceiptData, setCurrentReceiptData] = useState<any>(null);
   const [showPerfumeRefillDialog, setShowPerfumeRefillDialog] = useState(false);
+  const [refillRecipeId, setRefillRecipeId] = useState<string | null>(null);
   const [barcode, setBarcode] = useState("");
   const [showNewCustomerDialog, setShowNewCustomerDialog] = useState(false);
   const [newCustomerData, setNewCustomerData] = useState({
@@ -171,12 +189,16 @@ const PerfumePOS = () => {
   const { data: perfumeProducts = [] } = useQuery({
     queryKey: ["perfume-products", selectedDepartmentId],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from("products")
-        .select("*")
-        .eq("department_id", selectedDepartmentId)
-        .eq("is_archived", false)
-        .neq("name", "Oil Perfume"); // Exclude master stock - it's capital, not a product
+      // Cached on this device so the till can keep selling offline
+      const { data, error } = await cachedQuery(
+        `perfume-products:${selectedDepartmentId}`,
+        supabase
+          .from("products")
+          .select("*")
+          .eq("department_id", selectedDepartmentId)
+          .eq("is_archived", false)
+          .neq("name", "Oil Perfume") // Exclude master stock - it's capital, not a product
+      );
 
       if (error) throw error;
       return data || [];
@@ -282,26 +304,30 @@ const PerfumePOS = () => {
   const { data: customers = [] } = useQuery({
     queryKey: ["customers", selectedDepartmentId],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from("customers")
-        .select("*")
-        .eq("department_id", selectedDepartmentId)
-        .order("name");
+      const { data, error } = await cachedQuery(
+        `customers:${selectedDepartmentId}`,
+        supabase.from("customers").select("*").eq("department_id", selectedDepartmentId).order("name")
+      );
       if (error) throw error;
       return data || [];
     },
     enabled: !!selectedDepartmentId,
   });
 
+  const { data: taxContext } = useQuery({
+    queryKey: ["tax-context", selectedDepartmentId],
+    queryFn: () => cachedValue(`tax-context:${selectedDepartmentId}`, () => fetchTaxContext(selectedDepartmentId)),
+    enabled: !!selectedDepartmentId,
+  });
+
   // Fetch department settings
   const { data: departmentSettings } = useQuery({
     queryKey: ["department-settings", selectedDepartmentId],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from("department_settings")
-        .select("*")
-        .eq("department_id", selectedDepartmentId)
-        .maybeSingle();
+      const { data, error } = await cachedQuery(
+        `department_settings:${selectedDepartmentId}`,
+        supabase.from("department_settings").select("*").eq("department_id", selectedDepartmentId).maybeSingle()
+      );
       if (error && error.code !== 'PGRST116') throw error;
       return data;
     },
@@ -312,10 +338,7 @@ const PerfumePOS = () => {
   const { data: globalSettings } = useQuery({
     queryKey: ["settings"],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from("settings")
-        .select("*")
-        .maybeSingle();
+      const { data, error } = await cachedQuery("settings", supabase.from("settings").select("*").maybeSingle());
       if (error) throw error;
       return data;
     },
@@ -415,7 +438,8 @@ const PerfumePOS = () => {
   };
 
   const subtotal = cart.reduce((sum, item) => sum + item.subtotal, 0);
-  const total = subtotal;
+  const cartTax = calculateCartTax(cart, 0, taxContext);
+  const total = subtotal + cartTax.exclusiveTax;
 
   // Handler to check if customer is selected before completing sale
   const handleCompleteSale = () => {
@@ -423,15 +447,33 @@ const PerfumePOS = () => {
       setShowNoCustomerWarning(true);
       return;
     }
-    completeSaleMutation.mutate();
+    startPayment();
   };
 
+  const startPayment = () => {
+    if (paymentMethod === "split") {
+      setShowSplitTenderDialog(true);
+      return;
+    }
+    completeSaleMutation.mutate(undefined);
+  };
+
+  // Idempotency key for the current cart, kept across retries until the sale goes through
+  const checkoutKeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    checkoutKeyRef.current = null;
+  }, [cart]);
+
   const completeSaleMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (splitTenders: Tender[] | undefined) => {
       if (cart.length === 0) {
         throw new Error("Cart is empty");
       }
 
+      // A single payment method is one tender for the full total
+      const tenders = splitTenders?.length ? splitTenders : [createTender(paymentMethod as TenderMethod, total)];
+      const tenderSummary = summarizeTenders(tenders, total);
+
       // Use globalSettings for business info (department_settings doesn't have those fields)
       const settings = globalSettings;
 
@@ -447,10 +489,15 @@ const PerfumePOS = () => {
         }
       }
 
-      // Generate proper sequential receipt/invoice number
-      const { data: receiptNumber, error: receiptError } = await supabase.rpc('generate_receipt_number');
+      const checkoutKey = checkoutKeyRef.current || (checkoutKeyRef.current = newCheckoutKey());
 
-      if (receiptError) {
+      // Generate proper sequential receipt/invoice number; offline the sale gets a provisional one
+      const { data: generatedReceiptNumber, error: receiptError } = await supabase.rpc('generate_receipt_number');
+      let receiptNumber = generatedReceiptNumber;
+
+      if (receiptError && isNetworkError(receiptError)) {
+        receiptNumber = offlineReceiptNumber(checkoutKey);
+      } else if (receiptError) {
         throw new Error("Failed to generate receipt number: " + receiptError.message);
       }
 
@@ -487,12 +534,17 @@ const PerfumePOS = () => {
         invoiceNumber: invoiceNumber,
         items: receiptItems,
         subtotal: subtotal,
-        tax: 0,
+        tax: cartTax.totalTax,
+        taxBreakdown: cartTax.breakdown,
         total: total,
-        paymentMethod: paymentMethod.toUpperCase(),
+        paymentMethod: getSalePaymentMethod(tenders).toUpperCase(),
+        payments: tenderSummary.tenders.map((t) => ({ method: t.method, amount: t.applied })),
+        change: tenderSummary.change,
         date: new Date(saleTimestamp).toLocaleString(),
         cashierName: cashierName,
         customerName: customerName,
+        customerId: selectedCustomerId || undefined,
+        loyalty: null as SaleLoyalty | null,
         businessInfo: {
           name: settings?.business_name || "Business Name",
           address: settings?.business_address || "Kasangati opp Kasangati Police Station",
@@ -512,24 +564,21 @@ const PerfumePOS = () => {
         id: `sale_${Date.now()}`,
         department_id: selectedDepartmentId,
         cashier_name: cashierName,
-        customer_id: selectedCustomerId || null,
+        customer_id: selectedCustomerId || getTenderCustomerId(tenders),
         customer_name: customerName,
-        payment_method: paymentMethod,
+        payment_method: getSalePaymentMethod(tenders),
         subtotal: subtotal,
         total: total,
-        amount_paid: subtotal,
-        change: 0,
+        amount_paid: tenderSummary.tendered,
+        change: tenderSummary.change,
+        awaitingMobileMoney: false,
+        queued: false,
         notes: "",
         items: cart,
         created_at: saleTimestamp,
         receiptData: receiptData,
       };
 
-      const stockResult = await reduceStock(cart, selectedDepartmentId, isDemoMode);
-      if (!stockResult.success) {
-        throw new Error("Failed to reduce stock: " + stockResult.error);
-      }
-
       if (isDemoMode) {
         showDemoWarning();
 
@@ -543,42 +592,18 @@ const PerfumePOS = () => {
         return mockSaleData;
       }
 
-      const { data: insertedSale, error: saleError } = await supabase
-        .from("sales")
-        .insert([{
-          department_id: mockSaleData.department_id,
-          cashier_name: mockSaleData.cashier_name,
-          customer_id: mockSaleData.customer_id,
-          payment_method: mockSaleData.payment_method as "cash" | "card" | "mobile_money" | "credit",
-          subtotal: mockSaleData.subtotal,
-          total: mockSaleData.total,
-          amount_paid: mockSaleData.amount_paid,
-          change_amount: mockSaleData.change,
-          receipt_number: receiptNumber,
-          invoice_number: invoiceNumber,
-          is_invoice: hasWholesaleItems,
-          remarks: mockSaleData.notes,
-          sale_number: receiptNumber,
-          created_at: saleTimestamp,
-        }])
-        .select()
-        .single();
-
-      if (saleError) {
-        console.error("Failed to insert sale:", saleError);
-        throw new Error("Failed to save sale: " + saleError.message);
-      }
-
       // Get master perfume product ID for scent mixtures
-      const { data: masterPerfumeId, error: masterError } = await supabase
-        .rpc('get_or_create_master_perfume');
+      const { data: masterPerfumeId, error: masterError } = await cachedQuery(
+        "master-perfume",
+        supabase.rpc('get_or_create_master_perfume')
+      );
 
       if (masterError) {
         console.error("Failed to get master perfume product:", masterError);
         throw new Error("Failed to get master perfume product: " + masterError.message);
       }
 
-      const saleItemsData = cart.map((item) => {
+      const saleItemsData = cart.map((item, index) => {
         // Extract ML from name if totalMl is not set (e.g., "SCENT NAME (10ml)" -> 10)
         let mlAmount = (item as any).totalMl || (item as any).bottleSize || null;
         if (!mlAmount && item.name) {
@@ -589,33 +614,72 @@ const PerfumePOS = () => {
         }
 
         return {
-          sale_id: insertedSale.id,
           product_id: item.scentMixture ? masterPerfumeId : (item.productId || null),
           service_id: null,
           item_name: item.name,
           name: item.name,
-          quantity: item.type === "perfume" && mlAmount ? mlAmount : item.quantity,
+          // Refills are counted in ml, priced per bottle of ml_amount ml
+          quantity: item.type === "perfume" && mlAmount ? mlAmount * item.quantity : item.quantity,
           unit_price: item.price,
           total: item.subtotal,
           customer_type: item.customerType || null,
           scent_mixture: item.scentMixture || null,
+          scent_breakdown: item.scentMixture && item.selectedScents?.length
+            ? item.selectedScents.map((s) => ({ ...s, ml: s.ml * item.quantity }))
+            : null,
           bottle_cost: item.scentMixture ? (item.bottleCost || null) : null,
           ml_amount: item.scentMixture ? mlAmount : null,
           price_per_ml: item.pricePerMl || null,
+          ...toSaleItemTaxColumns(cartTax.lines[index]),
         };
       });
 
-      const { error: itemsError } = await supabase
-        .from("sale_items")
-        .insert(saleItemsData);
-
-      if (itemsError) {
-        console.error("Failed to insert sale items:", itemsError);
-        throw new Error("Failed to save sale items: " + itemsError.message);
+      // Header, items, payments and stock are saved together - a dropped connection can't leave half a sale.
+      // Offline, the sale waits in the outbox under the same key.
+      const { sale: insertedSale, payments, loyalty, queued } = await createSaleOrQueue(
+        {
+          idempotencyKey: checkoutKey,
+          sale: {
+            department_id: mockSaleData.department_id,
+            cashier_name: mockSaleData.cashier_name,
+            customer_id: mockSaleData.customer_id,
+            payment_method: mockSaleData.payment_method,
+            subtotal: mockSaleData.subtotal,
+            tax: cartTax.totalTax,
+            total: mockSaleData.total,
+            amount_paid: mockSaleData.amount_paid,
+            change_amount: mockSaleData.change,
+            receipt_number: receiptNumber,
+            invoice_number: invoiceNumber,
+            is_invoice: hasWholesaleItems,
+            remarks: mockSaleData.notes,
+            sale_number: receiptNumber,
+            created_at: saleTimestamp,
+          },
+          items: saleItemsData,
+          payments: buildSalePaymentRows(tenders, total),
+          stock: buildSaleStockLines(cart),
+        },
+        `Perfume sale UGX ${total.toLocaleString()}${customerName ? ` - ${customerName}` : ""}`
+      );
+      mockSaleData.queued = queued;
+
+      // Mobile money without a transaction ID - send the payment request before showing the receipt
+      const pendingMobile = payments.find((p) => p.method === "mobile_money" && p.status === "pending");
+      if (pendingMobile) {
+        const tender = tenders.find((t) => t.method === "mobile_money" && !t.reference?.trim());
+        mockSaleData.awaitingMobileMoney = true;
+        setPendingMobilePayment({
+          saleId: insertedSale.id,
+          paymentId: pendingMobile.id,
+          amount: Number(pendingMobile.amount),
+          phoneNumber: tender?.phoneNumber,
+          provider: tender?.provider,
+        });
       }
 
-      // Auto-save customer scent preferences
-      if (mockSaleData.customer_id) {
+      // Auto-save customer scent preferences (needs the server, so skipped for offline sales)
+      if (mockSaleData.customer_id && !queued) {
         try {
           // Extract unique scents from cart items
           const newScents: string[] = [];
@@ -686,16 +750,18 @@ const PerfumePOS = () => {
       mockSaleData.receiptData.invoiceNumber = insertedSale.invoice_number;
       mockSaleData.receiptData.id = insertedSale.id;
       mockSaleData.receiptData.created_at = insertedSale.created_at;
+      mockSaleData.receiptData.loyalty = loyalty;
 
       // Send invoice email if wholesale and email is provided
-      if (hasWholesaleItems && customerEmail) {
+      if (hasWholesaleItems && customerEmail && !queued) {
         try {
           const { generateInvoiceHTML } = await import("@/utils/invoicePrinter");
           const invoiceData = {
             invoiceNumber: insertedSale.invoice_number || insertedSale.receipt_number,
             items: receiptItems,
             subtotal: subtotal,
-            tax: 0,
+            tax: cartTax.totalTax,
+            taxBreakdown: cartTax.breakdown,
             total: total,
             paymentMethod: paymentMethod.toUpperCase(),
             date: new Date().toLocaleString(),
@@ -741,7 +807,7 @@ const PerfumePOS = () => {
 
       return mockSaleData;
     },
-    onSuccess: async () => {
+    onSuccess: async (sale) => {
       // Invalidate all relevant queries to refresh stock display
       queryClient.invalidateQueries({ queryKey: ["perfume-today-revenue"] });
       queryClient.invalidateQueries({ queryKey: ["perfume-today-sales-count"] });
@@ -756,9 +822,20 @@ const PerfumePOS = () => {
       queryClient.invalidateQueries({ queryKey: ["products"] });
       queryClient.invalidateQueries({ queryKey: ["perfume-scents"] });
       queryClient.invalidateQueries({ queryKey: ["total-scent-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["customer-loyalty"] });
+      queryClient.invalidateQueries({ queryKey: ["tender-customers"] });
+      queryClient.invalidateQueries({ queryKey: ["gift-vouchers"] });
 
-      toast.success("Sale completed successfully!");
-      setShowReceiptDialog(true);
+      if (sale.queued) {
+        toast.warning("You're offline - sale saved on this device and will sync when the connection is back");
+      } else {
+        toast.success("Sale completed successfully!");
+      }
+      setShowSplitTenderDialog(false);
+      checkoutKeyRef.current = null;
+      if (!sale.awaitingMobileMoney) {
+        setShowReceiptDialog(true);
+      }
       setCart([]);
       setPaymentMethod("cash");
     },
@@ -1087,9 +1164,16 @@ const PerfumePOS = () => {
                       customerId={selectedCustomer}
                       departmentId={selectedDepartmentId}
                       onQuickReorder={handleReorder}
+                      onUseRecipe={(recipeId) => {
+                        setSelectedCustomerId(selectedCustomer);
+                        setRefillRecipeId(recipeId);
+                        setShowPerfumeRefillDialog(true);
+                      }}
                     />
                   )}
 
+                  {selectedCustomer && <CustomerLoyaltyCard customerId={selectedCustomer} />}
+
                   {/* Customer Purchase History - Full history with details */}
                   {selectedCustomer && selectedDepartmentId && (
                     <CustomerPurchaseHistory
@@ -1109,11 +1193,18 @@ const PerfumePOS = () => {
                         <SelectItem value="cash">Cash</SelectItem>
                         <SelectItem value="mobile_money">Mobile Money</SelectItem>
                         <SelectItem value="card">Card</SelectItem>
+                        <SelectItem value="split">Split Payment</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
 
                   <div className="pt-4 border-t space-y-2">
+                    {cartTax.breakdown.filter((row) => row.taxAmount > 0).map((row) => (
+                      <div key={`${row.name}-${row.rate}-${row.inclusive}`} className="flex justify-between text-sm text-muted-foreground">
+                        <span>{formatTaxLabel(row)}:</span>
+                        <span>{row.inclusive ? "" : "+"}UGX {row.taxAmount.toLocaleString()}</span>
+                      </div>
+                    ))}
                     <div className="flex justify-between text-lg font-bold">
                       <span>Total:</span>
                       <span>UGX {total.toLocaleString()}</span>
@@ -1155,18 +1246,56 @@ const PerfumePOS = () => {
 
       <PerfumeRefillDialog
         open={showPerfumeRefillDialog}
-        onOpenChange={setShowPerfumeRefillDialog}
+        onOpenChange={(open) => {
+          setShowPerfumeRefillDialog(open);
+          if (!open) setRefillRecipeId(null);
+        }}
         perfumeProducts={perfumeProducts}
         customerId={selectedCustomerId}
+        recipeId={refillRecipeId}
         onAddToCart={addToCart}
       />
 
+      <SplitTenderDialog
+        open={showSplitTenderDialog}
+        onOpenChange={setShowSplitTenderDialog}
+        total={total}
+        departmentId={selectedDepartmentId}
+        customerId={selectedCustomerId}
+        isProcessing={completeSaleMutation.isPending}
+        freeRefillValue={Math.max(0, ...cart.filter((item) => item.scentMixture).map((item) => item.subtotal))}
+        onConfirm={(tenders) => completeSaleMutation.mutate(tenders)}
+      />
+
+      <MobileMoneyDialog
+        open={!!pendingMobilePayment}
+        onOpenChange={(open) => {
+          // Closing without sending leaves the tender pending; the sale is already saved
+          if (!open) {
+            setPendingMobilePayment(null);
+            setShowReceiptDialog(true);
+          }
+        }}
+        amount={pendingMobilePayment?.amount || 0}
+        departmentId={selectedDepartmentId}
+        saleId={pendingMobilePayment?.saleId || null}
+        salePaymentId={pendingMobilePayment?.paymentId}
+        initialPhone={pendingMobilePayment?.phoneNumber}
+        initialProvider={pendingMobilePayment?.provider}
+        onSuccess={() => {
+          setPendingMobilePayment(null);
+          setShowReceiptDialog(true);
+        }}
+      />
+
       <ReceiptActionsDialog
         isOpen={showReceiptDialog}
         onClose={() => setShowReceiptDialog(false)}
         receiptData={currentReceiptData}
         isInvoice={currentReceiptData?.isInvoice}
         onEdit={() => setShowEditDialog(true)}
+        departmentId={selectedDepartmentId}
+        customerId={currentReceiptData?.customerId}
       />
 
       <ReceiptEditDialog
@@ -1258,7 +1387,7 @@ const PerfumePOS = () => {
             <AlertDialogCancel>Go Back & Select Customer</AlertDialogCancel>
             <AlertDialogAction onClick={() => {
               setShowNoCustomerWarning(false);
-              completeSaleMutation.mutate();
+              startPayment();
             }}>
               Continue Without Customer
             </AlertDialogAction>
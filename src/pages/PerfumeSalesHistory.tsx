@@ -5,12 +5,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Search, Eye, Printer, Calendar, Ban, Droplet, Edit } from "lucide-react";
+import { Search, Eye, Printer, Calendar, Ban, Droplet, Edit, Undo2 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { printReceipt, generateReceiptHTML } from "@/utils/receiptPrinter";
+import { fetchTranslator } from "@/utils/i18n";
 import { voidSale } from "@/utils/voidSale";
 import { toast } from "sonner";
 import { useUserRole } from "@/hooks/useUserRole";
@@ -19,6 +20,8 @@ import { PerfumeDepartmentSelector } from "@/components/PerfumeDepartmentSelecto
 import { PrintPreviewDialog } from "@/components/PrintPreviewDialog";
 import { MobilePrintDialog } from "@/components/MobilePrintDialog";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { getSaleTaxBreakdown } from "@/utils/tax";
+import { ReturnSaleDialog } from "@/components/pos/ReturnSaleDialog";
 
 const PerfumeSalesHistory = () => {
   const queryClient = useQueryClient();
@@ -33,6 +36,7 @@ const PerfumeSalesHistory = () => {
   const [showVoidDialog, setShowVoidDialog] = useState(false);
   const [voidReason, setVoidReason] = useState("");
   const [saleToVoid, setSaleToVoid] = useState<any>(null);
+  const [saleToReturn, setSaleToReturn] = useState<any>(null);
   const [showPrintPreview, setShowPrintPreview] = useState(false);
   const [printPreviewHtml, setPrintPreviewHtml] = useState("");
   const [showMobilePrint, setShowMobilePrint] = useState(false);
@@ -107,6 +111,10 @@ const PerfumeSalesHistory = () => {
       toast.error("This sale has already been voided");
       return;
     }
+    if (Number(sale.returned_amount) > 0) {
+      toast.error("This sale has returns - return the remaining items instead");
+      return;
+    }
     setSaleToVoid(sale);
     setShowVoidDialog(true);
   };
@@ -186,17 +194,19 @@ const PerfumeSalesHistory = () => {
 
     // Fetch customer data if available
     let customerName = "Walk-in Customer";
+    let customerLanguage: string | null = null;
     let customerPhone = undefined;
     if (sale.customer_id) {
       const { data: customer } = await supabase
         .from("customers")
-        .select("name, phone")
+        .select("name, phone, preferred_language")
         .eq("id", sale.customer_id)
         .maybeSingle();
 
       if (customer) {
         customerName = customer.name;
         customerPhone = customer.phone;
+        customerLanguage = customer.preferred_language;
       }
     }
 
@@ -210,7 +220,9 @@ const PerfumeSalesHistory = () => {
         scentMixture: item.scent_mixture,
       })),
       subtotal: sale.subtotal,
-      tax: 0,
+      tax: sale.tax || 0,
+      taxBreakdown: getSaleTaxBreakdown(sale.sale_items),
+      discount: sale.discount || undefined,
       total: sale.total,
       paymentMethod: sale.payment_method,
       date: new Date(sale.created_at).toLocaleString("en-GB", {
@@ -231,6 +243,7 @@ const PerfumeSalesHistory = () => {
       },
       seasonalRemark: settings?.seasonal_remark,
       showBackPage: settings?.show_back_page === true,
+      translate: await fetchTranslator({ departmentId: sale.department_id, language: customerLanguage }),
     };
   };
 
@@ -351,6 +364,12 @@ const PerfumeSalesHistory = () => {
                             VOIDED
                           </Badge>
                         )}
+                        {Number(sale.returned_amount) > 0 && (
+                          <Badge variant="outline" className="gap-1">
+                            <Undo2 className="h-3 w-3" />
+                            {Number(sale.returned_amount) >= Number(sale.total) ? "RETURNED" : "PART RETURNED"}
+                          </Badge>
+                        )}
                         {sale.sale_items?.some((item: any) => item.scent_mixture) && (
                           <Badge variant="secondary" className="gap-1">
                             <Droplet className="h-3 w-3" />
@@ -413,6 +432,14 @@ const PerfumeSalesHistory = () => {
                             <Printer className="h-4 w-4 mr-1" />
                             Reprint
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setSaleToReturn(sale)}
+                          >
+                            <Undo2 className="h-4 w-4 mr-1" />
+                            Return
+                          </Button>
                           <Button
                             variant="destructive"
                             size="sm"
@@ -529,6 +556,12 @@ const PerfumeSalesHistory = () => {
         </DialogContent>
       </Dialog>
 
+      <ReturnSaleDialog
+        open={!!saleToReturn}
+        onOpenChange={(open) => !open && setSaleToReturn(null)}
+        sale={saleToReturn}
+      />
+
       {/* Void Sale Dialog */}
       <Dialog open={showVoidDialog} onOpenChange={setShowVoidDialog}>
         <DialogContent>
@@ -13,6 +13,8 @@ import { useState } from "react";
 import { format } from "date-fns";
 import { Calculator } from "lucide-react";
 import { useDepartment } from "@/contexts/DepartmentContext";
+import { fetchCashCollected } from "@/utils/payments";
+import { fetchCashRefunds } from "@/utils/saleReturns";
 
 const Reconcile = () => {
   const queryClient = useQueryClient();
@@ -33,8 +35,11 @@ const Reconcile = () => {
       if (!departmentId) return { total: 0 };
       const startOfDay = `${formData.date}T00:00:00`;
       const endOfDay = `${formData.date}T23:59:59`;
-      const { data } = await supabase.from("sales").select("total").eq("department_id", departmentId).eq("status", "completed").eq("payment_method", "cash").gte("created_at", startOfDay).lte("created_at", endOfDay);
-      const total = (data || []).reduce((sum, s) => sum + Number(s.total || 0), 0);
+      const [collected, refunded] = await Promise.all([
+        fetchCashCollected(departmentId, startOfDay, endOfDay),
+        fetchCashRefunds(departmentId, startOfDay, endOfDay),
+      ]);
+      const total = collected - refunded;
       return { total };
     },
     enabled: !!departmentId && !!formData.date,
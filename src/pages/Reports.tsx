@@ -7,6 +7,11 @@ import Navigation from "@/components/Navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PaymentTransactionsReport } from "@/components/admin/PaymentTransactionsReport";
+import { MobileMoneyReconciliation } from "@/components/admin/MobileMoneyReconciliation";
+import { TaxSummaryReport } from "@/components/admin/TaxSummaryReport";
+import { ReturnsVoidsReport } from "@/components/admin/ReturnsVoidsReport";
+import { GiftVoucherLiabilityReport } from "@/components/admin/GiftVoucherLiabilityReport";
+import { restoreStock } from "@/utils/stockManagement";
 import { FileText, Download, TrendingUp, AlertTriangle, Package, RefreshCw, Undo2, Info } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -219,8 +224,10 @@ const Reports = () => {
         throw new Error("No sale items found");
       }
 
-      // Note: Stock restoration requires backend implementation
-      toast.info("Stock restoration is not yet implemented in local backend");
+      for (const sale of salesData) {
+        const result = await restoreStock(sale.id, "adjustment", "Restored from sales report");
+        if (!result.success) throw new Error(result.error);
+      }
       return { success: true };
     },
     onSuccess: () => {
@@ -236,7 +243,22 @@ const Reports = () => {
   });
 
   // Calculate metrics
+  // Gross = before discounts, net (totalSales) = what was actually charged
+  const grossSales = salesData?.reduce((sum, sale) => sum + Number(sale.subtotal ?? sale.total), 0) || 0;
+  const totalDiscounts = salesData?.reduce((sum, sale) => sum + Number(sale.discount || 0), 0) || 0;
   const totalSales = salesData?.reduce((sum, sale) => sum + Number(sale.total), 0) || 0;
+
+  // Discounts grouped by reason code
+  const discountsByReason: Record<string, { count: number; amount: number }> = {};
+  salesData?.forEach((sale) => {
+    if (!Number(sale.discount)) return;
+    const reason = sale.discount_reason || "Unspecified";
+    if (!discountsByReason[reason]) {
+      discountsByReason[reason] = { count: 0, amount: 0 };
+    }
+    discountsByReason[reason].count += 1;
+    discountsByReason[reason].amount += Number(sale.discount);
+  });
   const totalTransactions = salesData?.length || 0;
 
   // Calculate credits impact
@@ -413,7 +435,15 @@ const Reports = () => {
             <h3 style="border-bottom: 2px solid #333; padding-bottom: 10px; font-weight: bold;">Summary Metrics</h3>
             <table style="width: 100%; border-collapse: collapse; margin-top: 15px;">
               <tr style="background: #f5f5f5;">
-                <td style="padding: 10px; border: 1px solid #ddd; font-weight: bold;"><strong>Total Sales</strong></td>
+                <td style="padding: 10px; border: 1px solid #ddd; font-weight: bold;"><strong>Gross Sales</strong></td>
+                <td style="padding: 10px; border: 1px solid #ddd; font-weight: bold;">UGX ${grossSales.toLocaleString()}</td>
+              </tr>
+              <tr>
+                <td style="padding: 10px; border: 1px solid #ddd; font-weight: bold;"><strong>Discounts</strong></td>
+                <td style="padding: 10px; border: 1px solid #ddd; font-weight: bold;">- UGX ${totalDiscounts.toLocaleString()}</td>
+              </tr>
+              <tr style="background: #f5f5f5;">
+                <td style="padding: 10px; border: 1px solid #ddd; font-weight: bold;"><strong>Net Sales</strong></td>
                 <td style="padding: 10px; border: 1px solid #ddd; font-weight: bold;">UGX ${totalSales.toLocaleString()}</td>
               </tr>
               <tr>
@@ -572,7 +602,9 @@ const Reports = () => {
     csv += "Generated," + new Date().toLocaleString() + "\n\n";
     csv += "SUMMARY\n";
     csv += "Metric,Value\n";
-    csv += `Total Sales,${totalSales}\n`;
+    csv += `Gross Sales,${grossSales}\n`;
+    csv += `Discounts,${totalDiscounts}\n`;
+    csv += `Net Sales,${totalSales}\n`;
     csv += `Total Transactions,${totalTransactions}\n`;
     csv += `Total Items Sold,${totalItemsSold}\n`;
     csv += `Products Sold,${totalProductsSold}\n`;
@@ -585,6 +617,13 @@ const Reports = () => {
     csv += `Gross Profit,${grossProfit}\n`;
     csv += `Avg Basket Size,${avgBasketSize}\n\n`;
 
+    csv += "DISCOUNTS BY REASON\n";
+    csv += "Reason,Sales,Amount\n";
+    Object.entries(discountsByReason).forEach(([reason, stats]) => {
+      csv += `${reason},${stats.count},${stats.amount}\n`;
+    });
+    csv += "\n";
+
     csv += "TOP SELLING PRODUCTS\n";
     csv += "Product,Sold,Revenue\n";
     topProducts.forEach(([name, stats]) => {
@@ -674,8 +713,9 @@ const Reports = () => {
         <Alert>
           <Info className="h-4 w-4" />
           <AlertDescription>
-            <strong>Report Explanation:</strong> Gross Sales = Total sales revenue for selected period (excluding mobile money/card/bank).
-            Adjusted Net Sales = Gross Sales + Credits IN - Credits OUT - Settled Credits IN + Settled Credits OUT - Expenses + Reconciliation Adjustments - Suspended Revenue.
+            <strong>Report Explanation:</strong> Gross Sales = Total sales before discounts for selected period (excluding mobile money/card/bank).
+            Net Sales = Gross Sales - Discounts.
+            Adjusted Net Sales = Net Sales + Credits IN - Credits OUT - Settled Credits IN + Settled Credits OUT - Expenses + Reconciliation Adjustments - Suspended Revenue.
             COGS = Cost of Goods Sold (products). COSO = Cost of Service Offered (services). Net Revenue = Revenue after deducting costs.
           </AlertDescription>
         </Alert>
@@ -692,6 +732,14 @@ const Reports = () => {
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
               <div>
                 <p className="text-sm text-muted-foreground">Gross Sales</p>
+                <p className="text-xl font-bold">{grossSales.toLocaleString()} UGX</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Discounts</p>
+                <p className="text-xl font-bold text-destructive">-{totalDiscounts.toLocaleString()} UGX</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Net Sales</p>
                 <p className="text-xl font-bold">{totalSales.toLocaleString()} UGX</p>
               </div>
               <div>
@@ -776,6 +824,36 @@ const Reports = () => {
           </CardContent>
         </Card>
 
+        {Object.keys(discountsByReason).length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>🏷️ Discounts by Reason</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Sales</TableHead>
+                    <TableHead className="text-right">Amount (UGX)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {Object.entries(discountsByReason)
+                    .sort(([, a], [, b]) => b.amount - a.amount)
+                    .map(([reason, stats]) => (
+                      <TableRow key={reason}>
+                        <TableCell className="font-medium">{reason}</TableCell>
+                        <TableCell className="text-right">{stats.count}</TableCell>
+                        <TableCell className="text-right">{stats.amount.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
           {/* Top Selling Products */}
           <Card>
@@ -982,6 +1060,33 @@ const Reports = () => {
           <h3 className="text-xl font-bold mb-4">💳 Card & Mobile Money Transactions</h3>
           <PaymentTransactionsReport departmentId={selectedDepartmentId || undefined} />
         </div>
+
+        {/* Mobile Money Reconciliation Section */}
+        <div className="mt-6">
+          <h3 className="text-xl font-bold mb-4">📲 Mobile Money Reconciliation</h3>
+          <MobileMoneyReconciliation departmentId={selectedDepartmentId || undefined} />
+        </div>
+
+        {/* Tax Summary Section */}
+        <div className="mt-6">
+          <h3 className="text-xl font-bold mb-4">🏛️ Tax Summary</h3>
+          <TaxSummaryReport
+            departmentId={selectedDepartmentId || undefined}
+            departmentName={selectedDepartment?.name}
+          />
+        </div>
+
+        {/* Returns & Voids Section */}
+        <div className="mt-6">
+          <h3 className="text-xl font-bold mb-4">↩️ Returns & Voids</h3>
+          <ReturnsVoidsReport departmentId={selectedDepartmentId || undefined} />
+        </div>
+
+        {/* Gift Vouchers & Store Credit Section */}
+        <div className="mt-6">
+          <h3 className="text-xl font-bold mb-4">🎁 Gift Vouchers & Store Credit</h3>
+          <GiftVoucherLiabilityReport departmentId={selectedDepartmentId || undefined} />
+        </div>
       </main>
 
       <AlertDialog open={showRestoreDialog} onOpenChange={setShowRestoreDialog}>
@@ -1,9 +1,25 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { printReceipt } from "@/utils/receiptPrinter";
 import { printInvoice } from "@/utils/invoicePrinter";
-import { reduceStock, checkStockAvailability, checkVariantStockAvailability } from "@/utils/stockManagement";
+import { buildSaleStockLines, checkStockAvailability, checkVariantStockAvailability } from "@/utils/stockManagement";
+import { createSaleOrQueue, newCheckoutKey } from "@/utils/checkout";
+import { cachedQuery, cachedValue } from "@/utils/offlineStore";
+import { calculateCartTax, fetchTaxContext, formatTaxLabel, toSaleItemTaxColumns } from "@/utils/tax";
+import { Tender, TenderMethod, buildSalePaymentRows, createTender, getSalePaymentMethod, getTenderCustomerId, summarizeTenders } from "@/utils/payments";
+import type { SaleLoyalty } from "@/utils/loyalty";
+import {
+  Discount,
+  assertSaleDiscountWithinCap,
+  calculateCartTotals,
+  calculateDiscountAmount,
+  formatDiscount,
+  getDiscountSettings,
+  getLineGross,
+  getLineNet,
+  getSaleDiscountApproval,
+} from "@/utils/discounts";
 import Navigation from "@/components/Navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -12,7 +28,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Search, Barcode, Plus, Trash2, ShoppingCart, AlertTriangle, CalendarIcon, PauseCircle, Play } from "lucide-react";
+import { Search, Barcode, Plus, Trash2, ShoppingCart, AlertTriangle, CalendarIcon, PauseCircle, Play, Percent } from "lucide-react";
 import { toast } from "sonner";
 import { useUserRole } from "@/hooks/useUserRole";
 import { ReceiptActionsDialog } from "@/components/ReceiptActionsDialog";
@@ -20,6 +36,9 @@ import { MobileMoneyDialog } from "@/components/pos/MobileMoneyDialog";
 import { VariantSelectorDialog } from "@/components/pos/VariantSelectorDialog";
 import { CartTabs } from "@/components/pos/CartTabs";
 import { ParkedCartsPanel } from "@/components/pos/ParkedCartsPanel";
+import { DiscountDialog } from "@/components/pos/DiscountDialog";
+import { SplitTenderDialog } from "@/components/pos/SplitTenderDialog";
+import { CustomerLoyaltyCard } from "@/components/loyalty/CustomerLoyaltyCard";
 import { useDepartment } from "@/contexts/DepartmentContext";
 import { useDemoMode } from "@/contexts/DemoModeContext";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
@@ -57,12 +76,13 @@ interface CartItem {
   pricePerMl?: number; // For perfume refills
   totalMl?: number; // Total milliliters for perfume refills
   isPerfumeRefill?: boolean; // Flag for perfume refill items
+  discount?: Discount | null; // Line discount (subtotal stays gross)
   subtotal: number;
 }
 
 const Sales = () => {
   const queryClient = useQueryClient();
-  const { isAdmin } = useUserRole();
+  const { isAdmin, role } = useUserRole();
   const { selectedDepartmentId, isPerfumeDepartment } = useDepartment();
   const { isDemoMode, showDemoWarning } = useDemoMode();
   const [cart, setCart] = useState<CartItem[]>([]);
@@ -78,10 +98,22 @@ const Sales = () => {
   const [currentReceiptData, setCurrentReceiptData] = useState<any>(null);
   const [showMobileMoneyDialog, setShowMobileMoneyDialog] = useState(false);
   const [completedSaleId, setCompletedSaleId] = useState<string | null>(null);
+  const [showSplitTenderDialog, setShowSplitTenderDialog] = useState(false);
+  // Mobile money tender waiting for the payment request, with the receipt to show once it is sent
+  const [pendingMobilePayment, setPendingMobilePayment] = useState<{
+    paymentId: string;
+    amount: number;
+    phoneNumber?: string;
+    provider?: "mtn" | "airtel";
+    receipt: any;
+  } | null>(null);
   const [showVariantSelector, setShowVariantSelector] = useState(false);
   const [selectedProductForVariant, setSelectedProductForVariant] = useState<any>(null);
   const [isAddingToCart, setIsAddingToCart] = useState(false);
   const [saleDate, setSaleDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [cartDiscount, setCartDiscount] = useState<Discount | null>(null);
+  // Which discount the dialog is editing: a cart item id, "cart" for the whole cart, or null when closed
+  const [discountTarget, setDiscountTarget] = useState<string | null>(null);
 
   // ============ MULTI-CART STATE ============
   // Cart tabs for managing multiple orders simultaneously
@@ -91,6 +123,7 @@ const Sales = () => {
     items: CartItem[];
     customerName: string;
     paymentMethod: string;
+    cartDiscount?: Discount | null;
   }
 
   const CART_TABS_KEY = "sales-pos-cart-tabs";
@@ -129,6 +162,7 @@ const Sales = () => {
     parkedAt: Date;
     reason?: string;
     paymentMethod: string;
+    cartDiscount?: Discount | null;
   }>>(() => {
     const saved = localStorage.getItem(PARKED_CARTS_KEY);
     if (saved) {
@@ -161,6 +195,7 @@ const Sales = () => {
       setCart(activeTab.items);
       setCustomerName(activeTab.customerName);
       setPaymentMethod(activeTab.paymentMethod);
+      setCartDiscount(activeTab.cartDiscount || null);
     }
   }, [activeCartId]);
 
@@ -168,10 +203,10 @@ const Sales = () => {
   useEffect(() => {
     setCartTabs(prev => prev.map(tab =>
       tab.id === activeCartId
-        ? { ...tab, items: cart, customerName, paymentMethod }
+        ? { ...tab, items: cart, customerName, paymentMethod, cartDiscount }
         : tab
     ));
-  }, [cart, customerName, paymentMethod, activeCartId]);
+  }, [cart, customerName, paymentMethod, cartDiscount, activeCartId]);
 
   // Cart Tab Management Functions
   const createNewCart = () => {
@@ -193,7 +228,7 @@ const Sales = () => {
     // Save current cart first
     setCartTabs(prev => prev.map(tab =>
       tab.id === activeCartId
-        ? { ...tab, items: cart, customerName, paymentMethod }
+        ? { ...tab, items: cart, customerName, paymentMethod, cartDiscount }
         : tab
     ));
     setActiveCartId(cartId);
@@ -236,6 +271,7 @@ const Sales = () => {
       parkedAt: new Date(),
       reason: parkReason,
       paymentMethod: paymentMethod,
+      cartDiscount,
     };
 
     setParkedCarts(prev => [...prev, parkedCart]);
@@ -244,13 +280,14 @@ const Sales = () => {
     setCart([]);
     setCustomerName("");
     setSelectedCustomerId(null);
+    setCartDiscount(null);
     setParkReason("");
     setShowParkDialog(false);
 
     // Update the tab
     setCartTabs(prev => prev.map(tab =>
       tab.id === activeCartId
-        ? { ...tab, items: [], customerName: '', paymentMethod: 'cash' }
+        ? { ...tab, items: [], customerName: '', paymentMethod: 'cash', cartDiscount: null }
         : tab
     ));
 
@@ -270,7 +307,8 @@ const Sales = () => {
         name: parked.name || `Order ${cartTabs.length + 1}`,
         items: parked.items,
         customerName: parked.customerName,
-        paymentMethod: parked.paymentMethod || 'cash'
+        paymentMethod: parked.paymentMethod || 'cash',
+        cartDiscount: parked.cartDiscount || null,
       };
       setCartTabs(prev => [...prev, newTab]);
       setActiveCartId(newId);
@@ -282,6 +320,7 @@ const Sales = () => {
         setSelectedCustomerId(parked.customerId);
       }
       setPaymentMethod(parked.paymentMethod || 'cash');
+      setCartDiscount(parked.cartDiscount || null);
     }
 
     // Remove from parked
@@ -300,11 +339,10 @@ const Sales = () => {
     queryKey: ["department-settings", selectedDepartmentId],
     queryFn: async () => {
       if (!selectedDepartmentId) return null;
-      const { data } = await supabase
-        .from("settings")
-        .select("*")
-        .eq("department_id", selectedDepartmentId)
-        .maybeSingle();
+      const { data } = await cachedQuery(
+        `settings:${selectedDepartmentId}`,
+        supabase.from("settings").select("*").eq("department_id", selectedDepartmentId).maybeSingle()
+      );
       return data;
     },
     enabled: !!selectedDepartmentId,
@@ -314,20 +352,30 @@ const Sales = () => {
   const { data: globalSettings } = useQuery({
     queryKey: ["global-settings"],
     queryFn: async () => {
-      const { data } = await supabase.from("settings").select("*").is("department_id", null).maybeSingle();
+      const { data } = await cachedQuery(
+        "settings:global",
+        supabase.from("settings").select("*").is("department_id", null).maybeSingle()
+      );
       return data;
     },
   });
 
+  // Products, prices, customers and settings are cached on this device so the till can keep selling offline
+  const { data: taxContext } = useQuery({
+    queryKey: ["tax-context", selectedDepartmentId],
+    queryFn: () => cachedValue(`tax-context:${selectedDepartmentId}`, () => fetchTaxContext(selectedDepartmentId)),
+    enabled: !!selectedDepartmentId,
+  });
+
   const { data: products } = useQuery({
     queryKey: ["products", searchQuery, barcode, selectedDepartmentId],
     queryFn: async () => {
       if (!selectedDepartmentId) return [];
 
-      const { data: allProducts } = await supabase
-        .from("products")
-        .select("*")
-        .eq("department_id", selectedDepartmentId);
+      const { data: allProducts } = await cachedQuery(
+        `products:${selectedDepartmentId}`,
+        supabase.from("products").select("*").eq("department_id", selectedDepartmentId)
+      );
 
       if (!allProducts) return [];
 
@@ -350,7 +398,7 @@ const Sales = () => {
 
       // Get variants for products
       const productIds = filteredProducts.map((p: any) => p.id);
-      const { data: allVariants } = await supabase.from("product_variants").select("*");
+      const { data: allVariants } = await cachedQuery("product_variants", supabase.from("product_variants").select("*"));
       const variantsForProducts = (allVariants || []).filter((v: any) => productIds.includes(v.product_id));
 
       const productsWithVariants = new Set(
@@ -385,7 +433,7 @@ const Sales = () => {
       if (!products || products.length === 0) return {};
 
       const productIds = products.map((p: any) => p.id);
-      const { data: allVariants } = await supabase.from("product_variants").select("*");
+      const { data: allVariants } = await cachedQuery("product_variants", supabase.from("product_variants").select("*"));
       const relevantVariants = (allVariants || []).filter((v: any) => productIds.includes(v.product_id));
 
       const counts: Record<string, number> = {};
@@ -404,10 +452,10 @@ const Sales = () => {
     queryFn: async () => {
       if (!selectedProductForVariant?.id) return [];
 
-      const { data: variants } = await supabase
-        .from("product_variants")
-        .select("*")
-        .eq("product_id", selectedProductForVariant.id);
+      const { data: variants } = await cachedQuery(
+        `product_variants:${selectedProductForVariant.id}`,
+        supabase.from("product_variants").select("*").eq("product_id", selectedProductForVariant.id)
+      );
 
       const mappedVariants = (variants || []).map((v: any) => {
         const basePrice = selectedProductForVariant?.price || selectedProductForVariant?.selling_price || 0;
@@ -429,10 +477,10 @@ const Sales = () => {
     queryFn: async () => {
       if (!selectedDepartmentId) return [];
 
-      const { data: allCustomers } = await supabase
-        .from("customers")
-        .select("*")
-        .eq("department_id", selectedDepartmentId);
+      const { data: allCustomers } = await cachedQuery(
+        `customers:${selectedDepartmentId}`,
+        supabase.from("customers").select("*").eq("department_id", selectedDepartmentId)
+      );
       return (allCustomers || []).sort((a: any, b: any) => a.name.localeCompare(b.name));
     },
     enabled: !!selectedDepartmentId,
@@ -472,11 +520,10 @@ const Sales = () => {
       if (!selectedDepartmentId) return [];
 
       // Show services from the current department
-      const { data: allServices } = await supabase
-        .from("services")
-        .select("*")
-        .eq("department_id", selectedDepartmentId)
-        .eq("is_active", true);
+      const { data: allServices } = await cachedQuery(
+        `services:${selectedDepartmentId}`,
+        supabase.from("services").select("*").eq("department_id", selectedDepartmentId).eq("is_active", true)
+      );
 
       let filtered = allServices || [];
       if (searchQuery) {
@@ -673,15 +720,15 @@ const Sales = () => {
     console.log('Scanning barcode:', scannedBarcode);
 
     // First, check if barcode matches a variant
-    const { data: allVariants } = await supabase.from("product_variants").select("*");
+    const { data: allVariants } = await cachedQuery("product_variants", supabase.from("product_variants").select("*"));
     const matchingVariants = (allVariants || []).filter((v: any) => v.barcode === scannedBarcode);
 
     if (matchingVariants.length > 0) {
       const variant = matchingVariants[0];
-      const { data: allProducts } = await supabase
-        .from("products")
-        .select("*")
-        .eq("department_id", selectedDepartmentId);
+      const { data: allProducts } = await cachedQuery(
+        `products:${selectedDepartmentId}`,
+        supabase.from("products").select("*").eq("department_id", selectedDepartmentId)
+      );
       const product = (allProducts || []).find((p: any) => p.id === variant.product_id);
 
       if (product) {
@@ -695,10 +742,10 @@ const Sales = () => {
     }
 
     // If no variant found, search for product by barcode or internal_barcode
-    const { data: allProducts } = await supabase
-      .from("products")
-      .select("*")
-      .eq("department_id", selectedDepartmentId);
+    const { data: allProducts } = await cachedQuery(
+      `products:${selectedDepartmentId}`,
+      supabase.from("products").select("*").eq("department_id", selectedDepartmentId)
+    );
     const matchedProducts = (allProducts || []).filter((p: any) =>
       p.barcode === scannedBarcode || p.internal_barcode === scannedBarcode
     ).slice(0, 1);
@@ -724,6 +771,22 @@ const Sales = () => {
       toast.success(`${product.name} found!`);
       setBarcode('');
     } else {
+      // Pre-filled perfume bottles carry their production batch code rather than a product barcode
+      const { data: batch } = await supabase
+        .from("production_batches")
+        .select("product_id, batch_code")
+        .eq("batch_code", scannedBarcode.trim().toUpperCase())
+        .eq("department_id", selectedDepartmentId)
+        .maybeSingle();
+      const batchProduct = batch && (allProducts || []).find((p: { id: string }) => p.id === batch.product_id);
+
+      if (batchProduct) {
+        addToCart(batchProduct, "product");
+        toast.success(`${batchProduct.name} found (batch ${batch.batch_code})`);
+        setBarcode('');
+        return;
+      }
+
       toast.error('Product not found');
       console.log('No product found with barcode:', scannedBarcode);
     }
@@ -777,11 +840,66 @@ const Sales = () => {
     setCart(cart.map((i) => (i.id === id ? { ...i, price: newPrice, selectedTier: tier, subtotal: newPrice * i.quantity } : i)));
   };
 
-  const subtotal = cart.reduce((sum, item) => sum + (item.subtotal || item.price * item.quantity), 0);
-  const total = subtotal; // Total equals subtotal (no taxes/discounts)
+  const discountSettings = getDiscountSettings(departmentSettings, globalSettings);
+  const { subtotal, lineDiscounts, cartDiscountAmount, totalDiscount, total: discountedTotal } = calculateCartTotals(cart, cartDiscount);
+  const cartTax = calculateCartTax(cart, cartDiscountAmount, taxContext);
+  // Inclusive tax is already in the prices; only exclusive tax is added on top
+  const total = discountedTotal + cartTax.exclusiveTax;
+
+  // Reason and approver stored on the sale header: cart discount first, then any line discount.
+  // The approver is the one whose cap covers the most, which is what create_sale checks against.
+  const getSaleDiscountMeta = (items: CartItem[], saleCartDiscount?: Discount | null) => {
+    const discounts = [saleCartDiscount, ...items.map((i) => i.discount)].filter(Boolean) as Discount[];
+    return {
+      discount_reason: discounts.length > 0 ? Array.from(new Set(discounts.map((d) => d.reason))).join(", ") : null,
+      discount_approved_by: getSaleDiscountApproval(discounts, discountSettings)?.approvedBy || null,
+    };
+  };
+
+  const checkSaleDiscount = (items: CartItem[], saleCartDiscount: Discount | null | undefined) => {
+    const totals = calculateCartTotals(items, saleCartDiscount);
+    assertSaleDiscountWithinCap(
+      totals.subtotal,
+      totals.totalDiscount,
+      role || "cashier",
+      [saleCartDiscount, ...items.map((i) => i.discount)],
+      discountSettings
+    );
+  };
+
+  const applyDiscount = (discount: Discount | null) => {
+    if (discountTarget === "cart") {
+      setCartDiscount(discount);
+    } else if (discountTarget) {
+      setCart(cart.map((i) => (i.id === discountTarget ? { ...i, discount } : i)));
+    }
+  };
+
+  const discountTargetItem = discountTarget && discountTarget !== "cart"
+    ? cart.find((i) => i.id === discountTarget)
+    : null;
+
+  // One idempotency key per cart tab, kept across retries until the sale goes through or the cart changes
+  const checkoutKeysRef = useRef<Record<string, string>>({});
+  const getCheckoutKey = (tabId: string) => {
+    if (!checkoutKeysRef.current[tabId]) checkoutKeysRef.current[tabId] = newCheckoutKey();
+    return checkoutKeysRef.current[tabId];
+  };
+
+  useEffect(() => {
+    delete checkoutKeysRef.current[activeCartId];
+  }, [cart, activeCartId]);
+
+  const handleCompleteSale = () => {
+    if (paymentMethod === "split") {
+      setShowSplitTenderDialog(true);
+      return;
+    }
+    completeSaleMutation.mutate(undefined);
+  };
 
   const completeSaleMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (splitTenders: Tender[] | undefined) => {
       if (cart.length === 0) {
         throw new Error("Cart is empty");
       }
@@ -790,32 +908,11 @@ const Sales = () => {
         throw new Error("Please select a payment method");
       }
 
-      // Check stock availability first
-      for (const item of cart) {
-        if (item.productId) {
-          // Check variant stock if item has a variantId
-          if (item.variantId) {
-            const stockCheck = await checkVariantStockAvailability(
-              item.variantId,
-              item.quantity
-            );
-            if (!stockCheck.available) {
-              throw new Error(stockCheck.message || "Insufficient stock");
-            }
-          } else {
-            // Check product stock for non-variant items
-            const stockCheck = await checkStockAvailability(
-              item.productId,
-              item.quantity,
-              item.trackingType,
-              item.totalMl
-            );
-            if (!stockCheck.available) {
-              throw new Error(stockCheck.message || "Insufficient stock");
-            }
-          }
-        }
-      }
+      checkSaleDiscount(cart, cartDiscount);
+
+      // A single payment method is one tender for the full total
+      const tenders = splitTenders?.length ? splitTenders : [createTender(paymentMethod as TenderMethod, total)];
+      const tenderSummary = summarizeTenders(tenders, total);
 
       // Use department settings or fallback to global settings
       const settings = departmentSettings || globalSettings;
@@ -846,14 +943,29 @@ const Sales = () => {
         id: `sale_${Date.now()}`, // Generate a temporary ID
         department_id: selectedDepartmentId,
         cashier_name: cashierName,
-        customer_id: selectedCustomerId || null,
-        payment_method: paymentMethod,
+        customer_id: selectedCustomerId || getTenderCustomerId(tenders),
+        payment_method: getSalePaymentMethod(tenders),
+        payments: tenderSummary.tenders.map((t) => ({ method: t.method, amount: t.applied })),
         subtotal: subtotal,
+        discount: totalDiscount,
+        discountReason: getSaleDiscountMeta(cart, cartDiscount).discount_reason,
+        tax: cartTax.totalTax,
+        taxBreakdown: cartTax.breakdown,
         total: total,
-        amount_paid: subtotal,
-        change: 0,
+        amount_paid: tenderSummary.tendered,
+        change: tenderSummary.change,
+        awaitingMobileMoney: false,
+        queued: false,
+        loyalty: null as SaleLoyalty | null,
         notes: "",
-        items: cart,
+        items: cart.map((item) => {
+          const lineDiscount = calculateDiscountAmount(getLineGross(item), item.discount);
+          return {
+            ...item,
+            discountAmount: lineDiscount,
+            discountLabel: item.discount ? `${formatDiscount(item.discount)} ${item.discount.reason}` : undefined,
+          };
+        }),
         created_at: saleTimestamp,
         receiptNumber: `REC-${Date.now()}`,
         businessInfo: {
@@ -871,12 +983,6 @@ const Sales = () => {
         showBackPage: (settings as any)?.show_back_page === true,
       };
 
-      // Reduce stock for all items
-      const stockResult = await reduceStock(cart, selectedDepartmentId, isDemoMode);
-      if (!stockResult.success) {
-        throw new Error("Failed to reduce stock: " + stockResult.error);
-      }
-
       // In demo mode, skip database operations
       if (isDemoMode) {
         // Generate a mock receipt for demo purposes
@@ -900,44 +1006,38 @@ const Sales = () => {
           department_id: mockSaleData.department_id,
           cashier_name: mockSaleData.cashier_name,
           customer_id: mockSaleData.customer_id,
-          payment_method: mockSaleData.payment_method as "cash" | "card" | "mobile_money" | "credit",
+          payment_method: mockSaleData.payment_method as "cash" | "card" | "mobile_money" | "credit" | "split" | "loyalty" | "voucher" | "store_credit",
           subtotal: mockSaleData.subtotal,
+          discount: mockSaleData.discount,
+          ...getSaleDiscountMeta(cart, cartDiscount),
+          tax: mockSaleData.tax,
           total: mockSaleData.total,
           amount_paid: mockSaleData.amount_paid,
           change_amount: mockSaleData.change,
-          receipt_number: `RCP${String(Date.now()).slice(-6)}`,
-          sale_number: `SALE${String(Date.now()).slice(-8)}`,
           status: 'completed' as const,
           created_at: saleTimestamp,
         },
-        items: cart.map((item) => ({
+        items: cart.map((item, index) => ({
           product_id: item.productId || null,
           service_id: item.serviceId || null,
           variant_id: item.variantId || null,
           item_name: item.variantName ? `${item.name} - ${item.variantName}` : item.name,
           quantity: item.quantity,
           unit_price: item.price,
-          subtotal: item.subtotal || item.price * item.quantity,
+          subtotal: getLineNet(item),
+          discount_type: item.discount?.type || null,
+          discount_value: item.discount?.value || 0,
+          discount_amount: calculateDiscountAmount(getLineGross(item), item.discount),
+          discount_reason: item.discount?.reason || null,
+          ...toSaleItemTaxColumns(cartTax.lines[index]),
           customer_type: item.customerType || null,
           scent_mixture: item.scentMixture || null,
           bottle_cost: item.bottleCost || null,
         }))
       };
 
-      // Insert sale
-      const { data: insertedSale, error: saleError } = await supabase
-        .from("sales")
-        .insert([salePayload.sale])
-        .select()
-        .single();
-
-      if (saleError || !insertedSale) {
-        throw new Error("Failed to save sale");
-      }
-
-      // Insert sale items - only include valid database columns
-      const itemsWithSaleId = salePayload.items.map((item: any) => ({
-        sale_id: insertedSale.id,
+      // Sale items - only include valid database columns
+      const saleItems = salePayload.items.map((item: any) => ({
         product_id: item.product_id || null,
         service_id: item.service_id || null,
         variant_id: item.variant_id || null,
@@ -945,7 +1045,18 @@ const Sales = () => {
         item_name: item.item_name || 'Unnamed Item',
         quantity: item.quantity || 1,
         unit_price: item.unit_price || 0,
-        total: item.subtotal || (item.unit_price * item.quantity) || 0,
+        total: item.subtotal ?? ((item.unit_price * item.quantity) || 0),
+        discount_type: item.discount_type,
+        discount_value: item.discount_value,
+        discount_amount: item.discount_amount,
+        discount_reason: item.discount_reason,
+        tax_profile_id: item.tax_profile_id,
+        tax_name: item.tax_name,
+        tax_treatment: item.tax_treatment,
+        tax_rate: item.tax_rate,
+        tax_inclusive: item.tax_inclusive,
+        taxable_amount: item.taxable_amount,
+        tax_amount: item.tax_amount,
         customer_type: item.customer_type || null,
         scent_mixture: item.scent_mixture || null,
         bottle_cost: item.bottle_cost || null,
@@ -953,27 +1064,40 @@ const Sales = () => {
         price_per_ml: item.price_per_ml || null,
       }));
 
-      console.log("Inserting sale items:", itemsWithSaleId);
-
-      const { error: itemsError } = await supabase.from("sale_items").insert(itemsWithSaleId);
-      if (itemsError) {
-        console.error("Failed to insert sale items:", itemsError);
-        toast.error("Warning: Sale items failed to save - " + itemsError.message);
-      } else {
-        console.log("Sale items inserted successfully");
-      }
+      // Header, items, payments and stock are saved together - a dropped connection can't leave half a sale.
+      // Offline, the sale waits in the outbox under the same key.
+      const { sale: insertedSale, payments, loyalty, queued } = await createSaleOrQueue(
+        {
+          idempotencyKey: getCheckoutKey(activeCartId),
+          sale: salePayload.sale,
+          items: saleItems,
+          payments: buildSalePaymentRows(tenders, total),
+          stock: buildSaleStockLines(cart),
+        },
+        `Sale UGX ${total.toLocaleString()}${customerName ? ` - ${customerName}` : ""}`
+      );
+      mockSaleData.queued = queued;
 
       // Update mock sale data with actual sale ID, receipt number and timestamp
       mockSaleData.id = insertedSale.id;
       mockSaleData.receiptNumber = insertedSale.receipt_number;
       mockSaleData.created_at = insertedSale.created_at;
-
-      // Check if payment method is mobile money - pause completion
-      if (paymentMethod === "mobile_money") {
-        // Store the sale ID to use in mobile money dialog
+      mockSaleData.loyalty = loyalty;
+
+      // Mobile money without a transaction ID - send the payment request before showing the receipt
+      const pendingMobile = payments.find((p) => p.method === "mobile_money" && p.status === "pending");
+      if (pendingMobile) {
+        const tender = tenders.find((t) => t.method === "mobile_money" && !t.reference?.trim());
+        mockSaleData.awaitingMobileMoney = true;
+        setPendingMobilePayment({
+          paymentId: pendingMobile.id,
+          amount: Number(pendingMobile.amount),
+          phoneNumber: tender?.phoneNumber,
+          provider: tender?.provider,
+          receipt: mockSaleData,
+        });
         setCompletedSaleId(mockSaleData.id);
         setShowMobileMoneyDialog(true);
-        return mockSaleData;
       }
 
       return mockSaleData;
@@ -984,21 +1108,31 @@ const Sales = () => {
       await queryClient.invalidateQueries({ queryKey: ["product-variant-counts"] });
       await queryClient.invalidateQueries({ queryKey: ["sales"] });
       await queryClient.invalidateQueries({ queryKey: ["dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["customer-loyalty"] });
+      queryClient.invalidateQueries({ queryKey: ["tender-customers"] });
+      queryClient.invalidateQueries({ queryKey: ["gift-vouchers"] });
 
-      toast.success("Sale completed successfully!");
+      if (sale.queued) {
+        toast.warning("You're offline - sale saved on this device and will sync when the connection is back");
+      } else {
+        toast.success("Sale completed successfully!");
+      }
+      setShowSplitTenderDialog(false);
+      delete checkoutKeysRef.current[activeCartId];
 
-      // Only show receipt if NOT mobile money
-      if (paymentMethod !== "mobile_money") {
+      // Receipt for mobile money is shown once the payment request has been sent
+      if (!sale.awaitingMobileMoney) {
         setCurrentReceiptData(sale);
         setShowReceiptDialog(true);
         setCart([]);
         setCustomerName("");
         setPaymentMethod("cash");
+        setCartDiscount(null);
 
         // Reset the active cart tab
         setCartTabs(prev => prev.map(tab =>
           tab.id === activeCartId
-            ? { ...tab, items: [], customerName: '', paymentMethod: 'cash' }
+            ? { ...tab, items: [], customerName: '', paymentMethod: 'cash', cartDiscount: null }
             : tab
         ));
       }
@@ -1015,6 +1149,10 @@ const Sales = () => {
       if (cartsWithItems.length === 0) {
         throw new Error("No carts have items to complete");
       }
+      if (cartsWithItems.some(tab => tab.paymentMethod === "split")) {
+        throw new Error("Complete split payment orders one at a time");
+      }
+      cartsWithItems.forEach((tab) => checkSaleDiscount(tab.items, tab.cartDiscount));
 
       toast.loading("Processing multiple orders...", { id: "batch-processing" });
 
@@ -1023,7 +1161,8 @@ const Sales = () => {
         // Note: For simplicity, we use the same payment method and date for all
         // In a real scenario, each tab might have its own settings
 
-        const tabSubtotal = tab.items.reduce((sum, item) => sum + (item.subtotal || item.price * item.quantity), 0);
+        const tabTotals = calculateCartTotals(tab.items, tab.cartDiscount);
+        const tabTax = calculateCartTax(tab.items, tabTotals.cartDiscountAmount, taxContext);
 
         // Use selected sale date with current time if it's a past date
         const selectedDate = new Date(saleDate);
@@ -1038,26 +1177,18 @@ const Sales = () => {
           cashier_name: cashierName || "System",
           customer_id: null,
           payment_method: (tab.paymentMethod || "cash") as any,
-          subtotal: tabSubtotal,
-          total: tabSubtotal,
-          amount_paid: tabSubtotal,
+          subtotal: tabTotals.subtotal,
+          discount: tabTotals.totalDiscount,
+          ...getSaleDiscountMeta(tab.items, tab.cartDiscount),
+          tax: tabTax.totalTax,
+          total: tabTotals.total + tabTax.exclusiveTax,
+          amount_paid: tabTotals.total + tabTax.exclusiveTax,
           change_amount: 0,
-          receipt_number: `RCP${String(Date.now()).slice(-6)}${Math.floor(Math.random() * 100)}`,
-          sale_number: `SALE${String(Date.now()).slice(-8)}${Math.floor(Math.random() * 100)}`,
           status: 'completed' as const,
           created_at: saleTimestamp,
         };
 
-        const { data: insertedSale, error: saleError } = await supabase
-          .from("sales")
-          .insert([salePayload])
-          .select()
-          .single();
-
-        if (saleError || !insertedSale) continue;
-
-        const itemsWithSaleId = tab.items.map((item: any) => ({
-          sale_id: insertedSale.id,
+        const itemsForSale = tab.items.map((item: any, index) => ({
           product_id: item.productId || null,
           service_id: item.serviceId || null,
           variant_id: item.variantId || null,
@@ -1065,16 +1196,34 @@ const Sales = () => {
           item_name: item.variantName ? `${item.name} - ${item.variantName}` : item.name,
           quantity: item.quantity || 1,
           unit_price: item.price || 0,
-          total: item.subtotal || (item.price * item.quantity) || 0,
+          total: getLineNet(item),
+          discount_type: item.discount?.type || null,
+          discount_value: item.discount?.value || 0,
+          discount_amount: calculateDiscountAmount(getLineGross(item), item.discount),
+          discount_reason: item.discount?.reason || null,
+          ...toSaleItemTaxColumns(tabTax.lines[index]),
         }));
 
-        await supabase.from("sale_items").insert(itemsWithSaleId);
-        await reduceStock(tab.items, selectedDepartmentId, isDemoMode);
+        // A retried batch skips the orders that already went through
+        await createSaleOrQueue(
+          {
+            idempotencyKey: getCheckoutKey(tab.id),
+            sale: salePayload,
+            items: itemsForSale,
+            payments: buildSalePaymentRows(
+              [createTender((tab.paymentMethod || "cash") as TenderMethod, salePayload.total)],
+              salePayload.total
+            ),
+            stock: buildSaleStockLines(tab.items),
+          },
+          `${tab.name} - UGX ${salePayload.total.toLocaleString()}`
+        );
       }
     },
     onSuccess: () => {
       toast.dismiss("batch-processing");
       toast.success("All active orders completed successfully!");
+      checkoutKeysRef.current = {};
       setCartTabs([{ id: 'cart-1', name: 'Order 1', items: [], customerName: '', paymentMethod: 'cash' }]);
       setActiveCartId('cart-1');
       setCart([]);
@@ -1404,15 +1553,43 @@ const Sales = () => {
                           </div>
                         </div>
                         <div className="flex items-center justify-between">
-                          <p className="text-sm font-bold">
-                            UGX {(item.subtotal || 0).toLocaleString()}
-                          </p>
+                          <div>
+                            {item.discount ? (
+                              <>
+                                <p className="text-xs text-muted-foreground line-through">
+                                  UGX {(item.subtotal || 0).toLocaleString()}
+                                </p>
+                                <p className="text-sm font-bold">
+                                  UGX {getLineNet(item).toLocaleString()}
+                                </p>
+                              </>
+                            ) : (
+                              <p className="text-sm font-bold">
+                                UGX {(item.subtotal || 0).toLocaleString()}
+                              </p>
+                            )}
+                          </div>
                           {item.minPrice && item.maxPrice && (
                             <p className="text-xs text-muted-foreground">
                               Range: {item.minPrice}-{item.maxPrice}
                             </p>
                           )}
+                          <Button
+                            variant={item.discount ? "secondary" : "ghost"}
+                            size="sm"
+                            className="h-7 gap-1 text-xs"
+                            onClick={() => setDiscountTarget(item.id)}
+                          >
+                            <Percent className="w-3 h-3" />
+                            {item.discount ? formatDiscount(item.discount) : "Discount"}
+                          </Button>
                         </div>
+                        {item.discount && (
+                          <p className="text-xs text-muted-foreground">
+                            {item.discount.reason}
+                            {item.discount.approvedByName && ` • approved by ${item.discount.approvedByName}`}
+                          </p>
+                        )}
                       </div>
                     ))}
                     {cart.length === 0 && (
@@ -1437,10 +1614,47 @@ const Sales = () => {
                   )}
 
                   <div className="border-t pt-4 space-y-3">
+                    {totalDiscount > 0 && (
+                      <div className="space-y-1 text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Subtotal:</span>
+                          <span>UGX {subtotal.toLocaleString()}</span>
+                        </div>
+                        {lineDiscounts > 0 && (
+                          <div className="flex justify-between text-green-600">
+                            <span>Item discounts:</span>
+                            <span>-UGX {lineDiscounts.toLocaleString()}</span>
+                          </div>
+                        )}
+                        {cartDiscountAmount > 0 && (
+                          <div className="flex justify-between text-green-600">
+                            <span>Cart discount ({formatDiscount(cartDiscount)} {cartDiscount?.reason}):</span>
+                            <span>-UGX {cartDiscountAmount.toLocaleString()}</span>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {cartTax.breakdown.filter((row) => row.taxAmount > 0).map((row) => (
+                      <div key={`${row.name}-${row.rate}-${row.inclusive}`} className="flex justify-between text-sm text-muted-foreground">
+                        <span>{formatTaxLabel(row)}:</span>
+                        <span>{row.inclusive ? "" : "+"}UGX {row.taxAmount.toLocaleString()}</span>
+                      </div>
+                    ))}
                     <div className="flex justify-between text-base sm:text-lg font-bold">
                       <span>Total:</span>
-                      <span>UGX {subtotal.toLocaleString()}</span>
+                      <span>UGX {total.toLocaleString()}</span>
                     </div>
+                    {cart.length > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full gap-2"
+                        onClick={() => setDiscountTarget("cart")}
+                      >
+                        <Percent className="w-4 h-4" />
+                        {cartDiscount ? `Cart Discount: ${formatDiscount(cartDiscount)}` : "Discount Whole Cart"}
+                      </Button>
+                    )}
 
                     <div className="space-y-2">
                       <Label>Customer Name (Optional)</Label>
@@ -1455,6 +1669,8 @@ const Sales = () => {
                       </p>
                     </div>
 
+                    {selectedCustomerId && <CustomerLoyaltyCard customerId={selectedCustomerId} />}
+
                     <div className="space-y-2">
                       <Label className="flex items-center gap-2">
                         <CalendarIcon className="w-4 h-4" />
@@ -1484,6 +1700,7 @@ const Sales = () => {
                           <SelectItem value="card">Card</SelectItem>
                           <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
                           <SelectItem value="mobile_money">Mobile Money</SelectItem>
+                          <SelectItem value="split">Split Payment</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
@@ -1500,7 +1717,7 @@ const Sales = () => {
                     <Button
                       className="w-full"
                       size="lg"
-                      onClick={() => completeSaleMutation.mutate()}
+                      onClick={handleCompleteSale}
                       disabled={cart.length === 0 || !paymentMethod || completeSaleMutation.isPending}
                     >
                       {completeSaleMutation.isPending ? "Processing..." : "Complete Sale"}
@@ -1518,33 +1735,41 @@ const Sales = () => {
           receiptData={currentReceiptData}
           customerPhone={null}
           isInvoice={currentReceiptData?.invoiceNumber ? true : false}
+          departmentId={selectedDepartmentId}
+          customerId={currentReceiptData?.customer_id}
         />
 
         <MobileMoneyDialog
           open={showMobileMoneyDialog}
           onOpenChange={setShowMobileMoneyDialog}
-          amount={subtotal}
+          amount={pendingMobilePayment?.amount ?? total}
           departmentId={selectedDepartmentId}
           saleId={completedSaleId}
+          salePaymentId={pendingMobilePayment?.paymentId}
+          initialPhone={pendingMobilePayment?.phoneNumber}
+          initialProvider={pendingMobilePayment?.provider}
           onSuccess={() => {
             // After successful payment
-            setCurrentReceiptData({
+            setCurrentReceiptData(pendingMobilePayment?.receipt || {
               id: completedSaleId,
               subtotal: subtotal,
+              discount: totalDiscount,
               total: total,
               payment_method: "mobile_money",
             });
+            setPendingMobilePayment(null);
             setShowReceiptDialog(true);
             setCart([]);
             setCustomerName("");
             setPaymentMethod("cash");
+            setCartDiscount(null);
             setShowMobileMoneyDialog(false);
             setCompletedSaleId(null);
 
             // Reset the active cart tab
             setCartTabs(prev => prev.map(tab =>
               tab.id === activeCartId
-                ? { ...tab, items: [], customerName: '', paymentMethod: 'cash' }
+                ? { ...tab, items: [], customerName: '', paymentMethod: 'cash', cartDiscount: null }
                 : tab
             ));
 
@@ -1552,6 +1777,28 @@ const Sales = () => {
           }}
         />
 
+        <SplitTenderDialog
+          open={showSplitTenderDialog}
+          onOpenChange={setShowSplitTenderDialog}
+          total={total}
+          departmentId={selectedDepartmentId}
+          customerId={selectedCustomerId}
+          isProcessing={completeSaleMutation.isPending}
+          onConfirm={(tenders) => completeSaleMutation.mutate(tenders)}
+        />
+
+        <DiscountDialog
+          open={discountTarget !== null}
+          onOpenChange={(open) => !open && setDiscountTarget(null)}
+          title={discountTargetItem ? `Discount: ${discountTargetItem.name}` : "Cart Discount"}
+          baseAmount={discountTargetItem ? getLineGross(discountTargetItem) : subtotal - lineDiscounts}
+          priorDiscount={discountTargetItem ? 0 : lineDiscounts}
+          currentDiscount={discountTargetItem ? discountTargetItem.discount : cartDiscount}
+          discountSettings={discountSettings}
+          role={role || "cashier"}
+          onApply={applyDiscount}
+        />
+
         <VariantSelectorDialog
           open={showVariantSelector}
           onOpenChange={setShowVariantSelector}
@@ -1585,7 +1832,7 @@ const Sales = () => {
               <div className="bg-muted/50 p-3 rounded-lg">
                 <p className="text-sm font-medium">Order Summary:</p>
                 <p className="text-sm text-muted-foreground">
-                  {cart.length} items • UGX {subtotal.toLocaleString()}
+                  {cart.length} items • UGX {total.toLocaleString()}
                 </p>
                 <p className="text-sm text-muted-foreground">
                   Customer: {customerName || "Walk-in"}
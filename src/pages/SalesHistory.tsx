@@ -5,12 +5,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Search, Eye, Printer, Calendar, Ban, Smartphone, Edit, AlertTriangle } from "lucide-react";
+import { Search, Eye, Printer, Calendar, Ban, Smartphone, Edit, AlertTriangle, Undo2 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { printReceipt, generateReceiptHTML } from "@/utils/receiptPrinter";
+import { fetchTranslator } from "@/utils/i18n";
 import { PrintPreviewDialog } from "@/components/PrintPreviewDialog";
 import { MobilePrintDialog } from "@/components/MobilePrintDialog";
 import { ReceiptEditDialog } from "@/components/ReceiptEditDialog";
@@ -19,6 +20,8 @@ import { toast } from "sonner";
 import { useDepartment } from "@/contexts/DepartmentContext";
 import { useUserRole } from "@/hooks/useUserRole";
 import { useAuth } from "@/contexts/AuthContext";
+import { getSaleTaxBreakdown } from "@/utils/tax";
+import { ReturnSaleDialog } from "@/components/pos/ReturnSaleDialog";
 const SalesHistory = () => {
   const queryClient = useQueryClient();
   const { selectedDepartmentId } = useDepartment();
@@ -32,6 +35,7 @@ const SalesHistory = () => {
   const [showVoidDialog, setShowVoidDialog] = useState(false);
   const [voidReason, setVoidReason] = useState("");
   const [saleToVoid, setSaleToVoid] = useState<any>(null);
+  const [saleToReturn, setSaleToReturn] = useState<any>(null);
   const [showPrintPreview, setShowPrintPreview] = useState(false);
   const [printPreviewHtml, setPrintPreviewHtml] = useState("");
   const [printPreviewSale, setPrintPreviewSale] = useState<any>(null);
@@ -163,6 +167,10 @@ const SalesHistory = () => {
       toast.error("This sale has already been voided");
       return;
     }
+    if (Number(sale.returned_amount) > 0) {
+      toast.error("This sale has returns - return the remaining items instead");
+      return;
+    }
     setSaleToVoid(sale);
     setShowVoidDialog(true);
   };
@@ -244,9 +252,14 @@ const SalesHistory = () => {
         price: item.unit_price,
         subtotal: item.subtotal,
         scentMixture: item.scent_mixture,
+        discountAmount: item.discount_amount || 0,
+        discountLabel: item.discount_reason || undefined,
       })),
       subtotal: sale.subtotal,
-      tax: 0,
+      tax: sale.tax || 0,
+      taxBreakdown: getSaleTaxBreakdown(sale.sale_items),
+      discount: sale.discount || undefined,
+      discountReason: sale.discount_reason || undefined,
       total: sale.total,
       paymentMethod: sale.payment_method,
       date: new Date(sale.created_at).toLocaleString("en-GB", {
@@ -266,6 +279,7 @@ const SalesHistory = () => {
       },
       seasonalRemark: settings?.seasonal_remark,
       showBackPage: settings?.show_back_page === true,
+      translate: await fetchTranslator({ departmentId: sale.department_id, customerId: sale.customer_id }),
     };
 
     // Check if on mobile - use mobile print dialog
@@ -380,6 +394,12 @@ const SalesHistory = () => {
                             VOIDED
                           </Badge>
                         )}
+                        {Number(sale.returned_amount) > 0 && (
+                          <Badge variant="outline" className="gap-1">
+                            <Undo2 className="h-3 w-3" />
+                            {Number(sale.returned_amount) >= Number(sale.total) ? "RETURNED" : "PART RETURNED"}
+                          </Badge>
+                        )}
                         <span className="text-sm text-muted-foreground">
                           <Calendar className="inline h-3 w-3 mr-1" />
                           {new Date(sale.created_at).toLocaleString("en-GB", {
@@ -440,6 +460,14 @@ const SalesHistory = () => {
                             )}
                             {isMobile() ? "Print" : "Reprint"}
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setSaleToReturn(sale)}
+                          >
+                            <Undo2 className="h-4 w-4 mr-1" />
+                            Return
+                          </Button>
                           <Button
                             variant="destructive"
                             size="sm"
@@ -543,6 +571,12 @@ const SalesHistory = () => {
         </DialogContent>
       </Dialog>
 
+      <ReturnSaleDialog
+        open={!!saleToReturn}
+        onOpenChange={(open) => !open && setSaleToReturn(null)}
+        sale={saleToReturn}
+      />
+
       {/* Void Sale Dialog */}
       <Dialog open={showVoidDialog} onOpenChange={setShowVoidDialog}>
         <DialogContent>
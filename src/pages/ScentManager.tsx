@@ -1,97 +1,68 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Sparkles, Plus, Trash2, Search, AlertCircle, CheckCircle2 } from "lucide-react";
 import { toast } from "sonner";
-import { PERFUME_SCENTS } from "@/constants/perfumeScents";
-import { useAuth } from "@/contexts/AuthContext";
+import { ScentCatalogDialog } from "@/components/perfume/ScentCatalogDialog";
+import { ScentCatalogEntry, fetchScentCatalog, searchScentCatalog } from "@/utils/scentCatalog";
 
 export default function ScentManager() {
   const queryClient = useQueryClient();
-  const { user } = useAuth();
-  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [newScentName, setNewScentName] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<ScentCatalogEntry | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
 
-  // Fetch custom scents from database
-  const { data: customScents } = useQuery({
-    queryKey: ["custom-scents"],
-    queryFn: async () => {
-      const { data } = await supabase.from("perfume_scents").select("*").order("name");
-      return data || [];
-    },
-  });
-
-  const addScentMutation = useMutation({
-    mutationFn: async (scentName: string) => {
-      const trimmedName = scentName.trim().toUpperCase();
-      
-      if (!trimmedName) throw new Error("Scent name cannot be empty");
-      if (PERFUME_SCENTS.includes(trimmedName)) throw new Error("This scent already exists in the default list");
-      const exists = customScents?.some(s => s.name.toUpperCase() === trimmedName);
-      if (exists) throw new Error("This scent already exists in custom scents");
-
-      const { error } = await supabase.from("perfume_scents").insert({ name: trimmedName });
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      toast.success("Scent added successfully");
-      setNewScentName("");
-      setIsAddDialogOpen(false);
-      queryClient.invalidateQueries({ queryKey: ["custom-scents"] });
-    },
-    onError: (error: any) => {
-      toast.error(error.message || "Failed to add scent");
-    },
+  // The whole catalog, including scents marked unavailable
+  const { data: catalog = [] } = useQuery({
+    queryKey: ["scent-catalog", "all"],
+    queryFn: () => fetchScentCatalog(true),
   });
 
   const deleteScentMutation = useMutation({
     mutationFn: async (id: string) => {
-      const { error } = await supabase.from("perfume_scents").delete().eq("id", id);
+      const { error } = await supabase.from("scent_catalog").delete().eq("id", id);
       if (error) throw error;
     },
     onSuccess: () => {
       toast.success("Scent deleted successfully");
-      queryClient.invalidateQueries({ queryKey: ["custom-scents"] });
+      queryClient.invalidateQueries({ queryKey: ["scent-catalog"] });
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast.error(error.message || "Failed to delete scent");
     },
   });
 
   const toggleStockStatusMutation = useMutation({
-    mutationFn: async ({ scentName, isOutOfStock, existingId }: { scentName: string; isOutOfStock: boolean; existingId?: string }) => {
-      if (existingId) {
-        const { error } = await supabase.from("perfume_scents").update({ is_active: !isOutOfStock }).eq("id", existingId);
-        if (error) throw error;
-      } else {
-        const { error } = await supabase.from("perfume_scents").insert({ name: scentName, is_active: !isOutOfStock });
-        if (error) throw error;
-      }
+    mutationFn: async ({ id, isOutOfStock }: { id: string; isOutOfStock: boolean }) => {
+      const { error } = await supabase
+        .from("scent_catalog")
+        .update({ is_active: !isOutOfStock, updated_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
     },
     onSuccess: (_, { isOutOfStock }) => {
       toast.success(isOutOfStock ? "Scent marked as out of stock" : "Scent marked as available");
-      queryClient.invalidateQueries({ queryKey: ["custom-scents"] });
+      queryClient.invalidateQueries({ queryKey: ["scent-catalog"] });
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast.error(error.message || "Failed to update scent status");
     },
   });
 
-  const allScents = [
-    ...PERFUME_SCENTS,
-    ...(customScents?.map(s => s.name) || [])
-  ].sort();
+  const filteredScents = useMemo(
+    () => (searchQuery.trim() ? searchScentCatalog(catalog, searchQuery, 100).map((m) => m.entry) : catalog),
+    [catalog, searchQuery]
+  );
+  const unavailableCount = catalog.filter((entry) => !entry.is_active).length;
 
-  const filteredScents = searchQuery
-    ? allScents.filter(scent => scent.toLowerCase().includes(searchQuery.toLowerCase()))
-    : allScents;
+  const openDialog = (entry: ScentCatalogEntry | null) => {
+    setEditingEntry(entry);
+    setDialogOpen(true);
+  };
 
   return (
     <div className="min-h-screen bg-background p-4 lg:p-8">
@@ -102,24 +73,25 @@ export default function ScentManager() {
             Scent Manager
           </h2>
           <p className="text-sm sm:text-base text-muted-foreground">
-            Manage perfume scent names and mark scents that are out of stock with red flags
+            The scent catalog shared by every department - brands, notes, aliases and supplier oil codes.
+            Scents that are out of stock are flagged red.
           </p>
         </div>
 
         <div className="grid gap-6">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
-              <CardTitle>All Scents ({allScents.length})</CardTitle>
-              <Button onClick={() => setIsAddDialogOpen(true)}>
+              <CardTitle>All Scents ({catalog.length})</CardTitle>
+              <Button onClick={() => openDialog(null)}>
                 <Plus className="w-4 h-4 mr-2" />
-                Add Custom Scent
+                Add Scent
               </Button>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="flex items-center gap-2">
                 <Search className="w-4 h-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search scents..."
+                  placeholder="Search by name, alias, brand or oil code..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="flex-1"
@@ -127,29 +99,30 @@ export default function ScentManager() {
               </div>
 
               <div className="flex flex-wrap gap-2 max-h-[600px] overflow-y-auto p-4 border rounded-lg bg-muted/20">
-                {filteredScents.map((scent) => {
-                  const customScent = customScents?.find(s => s.name === scent);
-                  const isCustom = !!customScent;
-                  const isOutOfStock = customScent ? !customScent.is_active : false;
-                  
+                {filteredScents.map((entry) => {
+                  const isOutOfStock = !entry.is_active;
+
                   return (
                     <Badge
-                      key={scent}
-                      variant={isOutOfStock ? "destructive" : (isCustom ? "default" : "secondary")}
+                      key={entry.id}
+                      variant={isOutOfStock ? "destructive" : entry.supplier_oil_code ? "default" : "secondary"}
                       className="text-xs py-1.5 px-3 flex items-center gap-2"
                     >
                       {isOutOfStock && <AlertCircle className="w-3 h-3" />}
-                      {scent}
+                      <button
+                        onClick={() => openDialog(entry)}
+                        className="hover:underline text-left"
+                        title={[entry.inspired_by_brand, ...(entry.aliases || [])].filter(Boolean).join(" · ") || "Edit"}
+                      >
+                        {entry.name}
+                        {entry.supplier_oil_code && (
+                          <span className="ml-1 opacity-70">#{entry.supplier_oil_code}</span>
+                        )}
+                      </button>
                       <div className="flex items-center gap-1 ml-1">
                         {isOutOfStock ? (
                           <button
-                            onClick={() => {
-                              toggleStockStatusMutation.mutate({
-                                scentName: scent,
-                                isOutOfStock: false,
-                                existingId: customScent?.id,
-                              });
-                            }}
+                            onClick={() => toggleStockStatusMutation.mutate({ id: entry.id, isOutOfStock: false })}
                             className="hover:opacity-70 text-green-400"
                             title="Mark as In Stock"
                           >
@@ -157,35 +130,30 @@ export default function ScentManager() {
                           </button>
                         ) : (
                           <button
-                            onClick={() => {
-                              toggleStockStatusMutation.mutate({
-                                scentName: scent,
-                                isOutOfStock: true,
-                                existingId: customScent?.id,
-                              });
-                            }}
+                            onClick={() => toggleStockStatusMutation.mutate({ id: entry.id, isOutOfStock: true })}
                             className="hover:opacity-70 text-muted-foreground"
                             title="Mark as Out of Stock"
                           >
                             <AlertCircle className="w-3 h-3" />
                           </button>
                         )}
-                        {isCustom && customScent && (
-                          <button
-                            onClick={() => {
-                              if (confirm(`Delete "${scent}"?`)) {
-                                deleteScentMutation.mutate(customScent.id);
-                              }
-                            }}
-                            className="hover:text-destructive"
-                          >
-                            <Trash2 className="w-3 h-3" />
-                          </button>
-                        )}
+                        <button
+                          onClick={() => {
+                            if (confirm(`Delete "${entry.name}" from the catalog?`)) {
+                              deleteScentMutation.mutate(entry.id);
+                            }
+                          }}
+                          className="hover:text-destructive"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
                       </div>
                     </Badge>
                   );
                 })}
+                {filteredScents.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No scents match your search</p>
+                )}
               </div>
 
               <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
@@ -193,17 +161,17 @@ export default function ScentManager() {
                   <Badge variant="destructive" className="h-5 px-2 flex items-center gap-1">
                     <AlertCircle className="w-3 h-3" />
                   </Badge>
-                  <span>Out of Stock</span>
+                  <span>Out of Stock ({unavailableCount})</span>
                   <CheckCircle2 className="w-3.5 h-3.5 text-green-500 ml-1" />
                   <span className="text-green-600">= Click to restore</span>
                 </div>
                 <div className="flex items-center gap-1">
                   <Badge variant="default" className="h-5 w-5" />
-                  <span>Custom ({customScents?.length || 0})</span>
+                  <span>Has supplier oil code</span>
                 </div>
                 <div className="flex items-center gap-1">
                   <Badge variant="secondary" className="h-5 w-5" />
-                  <span>Default ({PERFUME_SCENTS.length})</span>
+                  <span>No oil code yet</span>
                 </div>
               </div>
             </CardContent>
@@ -211,38 +179,12 @@ export default function ScentManager() {
         </div>
       </main>
 
-      <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Add Custom Scent</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <Label>Scent Name</Label>
-              <Input
-                value={newScentName}
-                onChange={(e) => setNewScentName(e.target.value)}
-                placeholder="Enter scent name (e.g., JASMINE ROSE)"
-                onKeyDown={(e) => {
-                  if (e.key === "Enter") {
-                    addScentMutation.mutate(newScentName);
-                  }
-                }}
-              />
-              <p className="text-xs text-muted-foreground">
-                Name will be automatically converted to uppercase
-              </p>
-            </div>
-            <Button
-              className="w-full"
-              onClick={() => addScentMutation.mutate(newScentName)}
-              disabled={!newScentName.trim() || addScentMutation.isPending}
-            >
-              {addScentMutation.isPending ? "Adding..." : "Add Scent"}
-            </Button>
-          </div>
-        </DialogContent>
-      </Dialog>
+      <ScentCatalogDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        entry={editingEntry}
+        catalog={catalog}
+      />
     </div>
   );
 }
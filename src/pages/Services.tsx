@@ -15,6 +15,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { Plus, Pencil } from "lucide-react";
 import { toast } from "sonner";
+import { TaxProfileSelect } from "@/components/tax/TaxProfileSelect";
 
 const Services = () => {
   const queryClient = useQueryClient();
@@ -31,6 +32,7 @@ const Services = () => {
     is_negotiable: true,
     description: "",
     department_id: selectedDepartmentId,
+    tax_profile_id: "",
   });
 
   const { data: services } = useQuery({
@@ -73,6 +75,7 @@ const Services = () => {
         department_id: selectedDepartmentId,
         // Convert empty string to null for UUID field
         category_id: data.category_id && data.category_id.length > 0 ? data.category_id : null,
+        tax_profile_id: data.tax_profile_id && data.tax_profile_id.length > 0 ? data.tax_profile_id : null,
         price: data.base_price, // Ensure price field is set
       };
 
@@ -107,6 +110,7 @@ const Services = () => {
         is_negotiable: true,
         description: "",
         department_id: selectedDepartmentId || "",
+        tax_profile_id: "",
       });
       queryClient.invalidateQueries({ queryKey: ["services"] });
     },
@@ -125,6 +129,7 @@ const Services = () => {
       is_negotiable: service.is_negotiable,
       description: service.description || "",
       department_id: service.department_id || selectedDepartmentId,
+      tax_profile_id: service.tax_profile_id || "",
     });
     setIsDialogOpen(true);
   };
@@ -164,6 +169,7 @@ const Services = () => {
                       is_negotiable: true,
                       description: "",
                       department_id: selectedDepartmentId,
+                      tax_profile_id: "",
                     });
                   }}
                 >
@@ -207,6 +213,15 @@ const Services = () => {
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Tax Profile</Label>
+                  <TaxProfileSelect
+                    value={formData.tax_profile_id}
+                    onChange={(value) => setFormData({ ...formData, tax_profile_id: value || "" })}
+                    departmentId={selectedDepartmentId}
+                  />
+                </div>
+
                 <div className="space-y-2">
                   <Label>Base Price (UGX) *</Label>
                   <Input
@@ -4,6 +4,13 @@ import Navigation from "@/components/Navigation";
 import { DepartmentManager } from "@/components/DepartmentManager";
 import { DataBackup } from "@/components/DataBackup";
 import { MobileMoneySettings } from "@/components/settings/MobileMoneySettings";
+import { DiscountSettings } from "@/components/settings/DiscountSettings";
+import { TaxSettings } from "@/components/settings/TaxSettings";
+import { AppointmentSettings } from "@/components/settings/AppointmentSettings";
+import { StockTakeSettings } from "@/components/settings/StockTakeSettings";
+import { LoyaltySettings } from "@/components/settings/LoyaltySettings";
+import { VoucherSettings } from "@/components/settings/VoucherSettings";
+import { TranslationSettings } from "@/components/settings/TranslationSettings";
 import { ReceiptPreview } from "@/components/settings/ReceiptPreview";
 import { DemoModeToggle } from "@/components/DemoModeToggle";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -248,6 +255,13 @@ const Settings = () => {
           <TabsList>
             <TabsTrigger value="business">Business Info</TabsTrigger>
             <TabsTrigger value="mobile-money">Mobile Money</TabsTrigger>
+            <TabsTrigger value="discounts">Discounts</TabsTrigger>
+            <TabsTrigger value="tax">Tax</TabsTrigger>
+            <TabsTrigger value="appointments">Appointments</TabsTrigger>
+            <TabsTrigger value="stock-take">Stock-Take</TabsTrigger>
+            <TabsTrigger value="loyalty">Loyalty</TabsTrigger>
+            <TabsTrigger value="vouchers">Vouchers</TabsTrigger>
+            <TabsTrigger value="languages">Languages</TabsTrigger>
             <TabsTrigger value="departments">Departments</TabsTrigger>
             <TabsTrigger value="backup">Backup</TabsTrigger>
           </TabsList>
@@ -757,6 +771,34 @@ const Settings = () => {
             <MobileMoneySettings departmentId={selectedDepartmentId || departmentId} />
           </TabsContent>
 
+          <TabsContent value="discounts">
+            <DiscountSettings departmentId={selectedDepartmentId || departmentId} />
+          </TabsContent>
+
+          <TabsContent value="tax">
+            <TaxSettings departmentId={selectedDepartmentId || departmentId} />
+          </TabsContent>
+
+          <TabsContent value="appointments">
+            <AppointmentSettings departmentId={selectedDepartmentId || departmentId} />
+          </TabsContent>
+
+          <TabsContent value="stock-take">
+            <StockTakeSettings departmentId={selectedDepartmentId || departmentId} />
+          </TabsContent>
+
+          <TabsContent value="loyalty">
+            <LoyaltySettings departmentId={selectedDepartmentId || departmentId} />
+          </TabsContent>
+
+          <TabsContent value="vouchers">
+            <VoucherSettings departmentId={selectedDepartmentId || departmentId} />
+          </TabsContent>
+
+          <TabsContent value="languages">
+            <TranslationSettings departmentId={selectedDepartmentId || departmentId} />
+          </TabsContent>
+
           <TabsContent value="departments">
             <DepartmentManager />
           </TabsContent>
@@ -28,6 +28,7 @@ const availableNavItems = [
   { path: "/customers", label: "Customers" },
   { path: "/appointments", label: "Appointments" },
   { path: "/credits", label: "Credits" },
+  { path: "/gift-vouchers", label: "Gift Vouchers" },
   { path: "/inbox", label: "Inbox" },
   { path: "/reconcile", label: "Reconciliation" },
   { path: "/internal-usage", label: "Internal Usage" },
@@ -8,14 +8,20 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
-import { Plus, Pencil, Trash2, Building2, Phone, Mail, MapPin } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Pencil, Trash2, Building2, Phone, Mail, MapPin, Wallet } from "lucide-react";
 import { toast } from "sonner";
 import { useUserRole } from "@/hooks/useUserRole";
+import { useDepartment } from "@/contexts/DepartmentContext";
+import { PurchaseOrdersPanel } from "@/components/purchasing/PurchaseOrdersPanel";
+import { SupplierPaymentDialog } from "@/components/purchasing/SupplierPaymentDialog";
 
 const Suppliers = () => {
   const queryClient = useQueryClient();
   const { isAdmin } = useUserRole();
+  const { selectedDepartmentId } = useDepartment();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [payingSupplier, setPayingSupplier] = useState<{ id: string; name: string; balance: number } | null>(null);
   const [editingSupplier, setEditingSupplier] = useState<any>(null);
   const [formData, setFormData] = useState({
     name: "",
@@ -38,6 +44,18 @@ const Suppliers = () => {
     },
   });
 
+  // Payables: goods received less payments made
+  const { data: balances = {} } = useQuery({
+    queryKey: ["supplier-balances"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("supplier_balances").select("*");
+      if (error) throw error;
+      return Object.fromEntries((data || []).map((row) => [row.supplier_id, Number(row.balance || 0)])) as Record<string, number>;
+    },
+  });
+
+  const totalPayable = Object.values(balances).reduce((sum, balance) => sum + Math.max(0, balance), 0);
+
   const saveSupplierMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
       if (editingSupplier) {
@@ -128,6 +146,9 @@ const Suppliers = () => {
           <div>
             <h1 className="text-3xl font-bold mb-2">Suppliers</h1>
             <p className="text-muted-foreground">Manage your product suppliers and vendors</p>
+            {totalPayable > 0 && (
+              <p className="text-sm font-medium mt-1">Owed to suppliers: {totalPayable.toLocaleString()} UGX</p>
+            )}
           </div>
           {isAdmin && (
             <Button onClick={handleAddNew}>
@@ -137,82 +158,120 @@ const Suppliers = () => {
           )}
         </div>
 
-        {isLoading ? (
-          <Card>
-            <CardContent className="p-8 text-center text-muted-foreground">
-              Loading suppliers...
-            </CardContent>
-          </Card>
-        ) : suppliers && suppliers.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {suppliers.map((supplier: any) => (
-              <Card key={supplier.id}>
-                <CardHeader>
-                  <CardTitle className="flex items-start justify-between">
-                    <div className="flex items-center gap-2">
-                      <Building2 className="w-5 h-5 text-primary" />
-                      <span>{supplier.name}</span>
-                    </div>
-                    {isAdmin && (
-                      <div className="flex gap-1">
-                        <Button size="icon" variant="ghost" onClick={() => handleEdit(supplier)}>
-                          <Pencil className="w-4 h-4" />
-                        </Button>
-                        <Button size="icon" variant="ghost" onClick={() => handleDelete(supplier.id)}>
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
+        <Tabs defaultValue="suppliers">
+          <TabsList className="mb-4">
+            <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+            <TabsTrigger value="purchase-orders">Purchase Orders</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="purchase-orders">
+            {selectedDepartmentId ? (
+              <PurchaseOrdersPanel departmentId={selectedDepartmentId} suppliers={suppliers || []} />
+            ) : (
+              <Card>
+                <CardContent className="p-8 text-center text-muted-foreground">
+                  Select a department to manage its purchase orders.
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="suppliers">
+          {isLoading ? (
+            <Card>
+              <CardContent className="p-8 text-center text-muted-foreground">
+                Loading suppliers...
+              </CardContent>
+            </Card>
+          ) : suppliers && suppliers.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {suppliers.map((supplier: any) => (
+                <Card key={supplier.id}>
+                  <CardHeader>
+                    <CardTitle className="flex items-start justify-between">
+                      <div className="flex items-center gap-2">
+                        <Building2 className="w-5 h-5 text-primary" />
+                        <span>{supplier.name}</span>
+                      </div>
+                      {isAdmin && (
+                        <div className="flex gap-1">
+                          <Button size="icon" variant="ghost" onClick={() => handleEdit(supplier)}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" onClick={() => handleDelete(supplier.id)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {supplier.contact_person && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="font-medium">Contact:</span>
+                        <span className="text-muted-foreground">{supplier.contact_person}</span>
                       </div>
                     )}
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  {supplier.contact_person && (
-                    <div className="flex items-center gap-2 text-sm">
-                      <span className="font-medium">Contact:</span>
-                      <span className="text-muted-foreground">{supplier.contact_person}</span>
-                    </div>
-                  )}
-                  {supplier.phone && (
-                    <div className="flex items-center gap-2 text-sm">
-                      <Phone className="w-4 h-4 text-muted-foreground" />
-                      <span className="text-muted-foreground">{supplier.phone}</span>
-                    </div>
-                  )}
-                  {supplier.email && (
-                    <div className="flex items-center gap-2 text-sm">
-                      <Mail className="w-4 h-4 text-muted-foreground" />
-                      <span className="text-muted-foreground">{supplier.email}</span>
-                    </div>
-                  )}
-                  {supplier.address && (
-                    <div className="flex items-start gap-2 text-sm">
-                      <MapPin className="w-4 h-4 text-muted-foreground mt-0.5" />
-                      <span className="text-muted-foreground">{supplier.address}</span>
-                    </div>
-                  )}
-                  {supplier.notes && (
-                    <div className="pt-2 border-t">
-                      <p className="text-sm text-muted-foreground">{supplier.notes}</p>
+                    {supplier.phone && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <Phone className="w-4 h-4 text-muted-foreground" />
+                        <span className="text-muted-foreground">{supplier.phone}</span>
+                      </div>
+                    )}
+                    {supplier.email && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <Mail className="w-4 h-4 text-muted-foreground" />
+                        <span className="text-muted-foreground">{supplier.email}</span>
+                      </div>
+                    )}
+                    {supplier.address && (
+                      <div className="flex items-start gap-2 text-sm">
+                        <MapPin className="w-4 h-4 text-muted-foreground mt-0.5" />
+                        <span className="text-muted-foreground">{supplier.address}</span>
+                      </div>
+                    )}
+                    {supplier.notes && (
+                      <div className="pt-2 border-t">
+                        <p className="text-sm text-muted-foreground">{supplier.notes}</p>
+                      </div>
+                    )}
+                    <div className="pt-2 border-t flex items-center justify-between">
+                      <span className="text-sm">
+                        Balance: <span className="font-semibold">{(balances[supplier.id] || 0).toLocaleString()} UGX</span>
+                      </span>
+                      {isAdmin && (balances[supplier.id] || 0) > 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setPayingSupplier({ id: supplier.id, name: supplier.name, balance: balances[supplier.id] })}
+                        >
+                          <Wallet className="w-4 h-4 mr-2" />
+                          Pay
+                        </Button>
+                      )}
                     </div>
-                  )}
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        ) : (
-          <Card>
-            <CardContent className="p-8 text-center">
-              <Building2 className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-              <p className="text-muted-foreground mb-4">No suppliers found</p>
-              {isAdmin && (
-                <Button onClick={handleAddNew}>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Your First Supplier
-                </Button>
-              )}
-            </CardContent>
-          </Card>
-        )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <Building2 className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                <p className="text-muted-foreground mb-4">No suppliers found</p>
+                {isAdmin && (
+                  <Button onClick={handleAddNew}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Your First Supplier
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+          </TabsContent>
+        </Tabs>
+
+        <SupplierPaymentDialog supplier={payingSupplier} onOpenChange={(open) => !open && setPayingSupplier(null)} />
 
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
           <DialogContent className="max-w-2xl">
@@ -0,0 +1,136 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { AgentProvider, AgentTransaction } from "@/utils/agentFloat";
+
+export type AgentCommissionRate = Tables<"agent_commission_rates">;
+export type AgentCommissionStatement = Tables<"agent_commission_statements">;
+
+/** Entries that earn the agent a commission, as allowed by agent_commission_rates */
+export type CommissionTransactionType = "deposit" | "withdrawal";
+export const COMMISSION_TRANSACTION_TYPES: CommissionTransactionType[] = ["deposit", "withdrawal"];
+
+export interface CommissionBand {
+  min_amount: number;
+  max_amount: number | null;
+  fixed_commission: number;
+  percent_commission: number;
+}
+
+/**
+ * Commission for one entry, matching get_agent_commission: the band the amount falls in, or 0
+ */
+export const getCommissionForAmount = (
+  rates: AgentCommissionRate[],
+  provider: AgentProvider | string,
+  type: string,
+  amount: number
+) => {
+  const band = rates
+    .filter(
+      (rate) =>
+        rate.provider === provider &&
+        rate.transaction_type === type &&
+        amount >= Number(rate.min_amount) &&
+        (rate.max_amount === null || amount <= Number(rate.max_amount))
+    )
+    .sort((a, b) => Number(b.min_amount) - Number(a.min_amount))[0];
+
+  if (!band) return 0;
+  return Math.round(Number(band.fixed_commission) + (amount * Number(band.percent_commission)) / 100);
+};
+
+export const formatBand = (band: Pick<CommissionBand, "min_amount" | "max_amount">) =>
+  band.max_amount === null
+    ? `${Number(band.min_amount).toLocaleString()}+`
+    : `${Number(band.min_amount).toLocaleString()} – ${Number(band.max_amount).toLocaleString()}`;
+
+/**
+ * Why a provider's band table can't be saved, or null. Bands of one type must not overlap,
+ * otherwise an amount could fall in two of them.
+ */
+export const getBandError = (bands: CommissionBand[]): string | null => {
+  for (const band of bands) {
+    if (!(band.min_amount >= 0)) return "Band amounts can't be negative";
+    if (band.max_amount !== null && band.max_amount < band.min_amount) {
+      return `Band ${formatBand(band)} ends before it starts`;
+    }
+    if (band.fixed_commission < 0 || band.percent_commission < 0) return "Commission can't be negative";
+  }
+
+  const sorted = [...bands].sort((a, b) => a.min_amount - b.min_amount);
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    if (previous.max_amount === null || previous.max_amount >= sorted[i].min_amount) {
+      return `Bands ${formatBand(previous)} and ${formatBand(sorted[i])} overlap`;
+    }
+  }
+  return null;
+};
+
+export interface CommissionTotals {
+  count: number;
+  amount: number;
+  commission: number;
+}
+
+/**
+ * Totals of the ledger grouped by keyOf. Reversals count against the entry they undo,
+ * so they take the amount and commission back without adding to the count.
+ */
+export const groupCommission = (
+  transactions: AgentTransaction[],
+  keyOf: (transaction: AgentTransaction) => string
+): Map<string, CommissionTotals> => {
+  const groups = new Map<string, CommissionTotals>();
+  for (const transaction of transactions) {
+    const key = keyOf(transaction);
+    const totals = groups.get(key) || { count: 0, amount: 0, commission: 0 };
+    const reversal = transaction.transaction_type === "reversal";
+    totals.count += reversal ? -1 : 1;
+    totals.amount += reversal ? -Number(transaction.amount) : Number(transaction.amount);
+    totals.commission += Number(transaction.commission);
+    groups.set(key, totals);
+  }
+  return groups;
+};
+
+/**
+ * Replaces a provider's commission table with the given bands per transaction type
+ */
+export const saveCommissionRates = async (
+  departmentId: string,
+  provider: AgentProvider,
+  bands: Record<CommissionTransactionType, CommissionBand[]>
+) => {
+  for (const type of COMMISSION_TRANSACTION_TYPES) {
+    const error = getBandError(bands[type]);
+    if (error) throw new Error(error);
+  }
+
+  const { error: deleteError } = await supabase
+    .from("agent_commission_rates")
+    .delete()
+    .eq("department_id", departmentId)
+    .eq("provider", provider);
+  if (deleteError) throw deleteError;
+
+  const rows = COMMISSION_TRANSACTION_TYPES.flatMap((type) =>
+    bands[type].map((band) => ({ ...band, department_id: departmentId, provider, transaction_type: type }))
+  );
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from("agent_commission_rates").insert(rows);
+  if (error) throw error;
+};
+
+/** Saves the commission from the provider's statement for a line and month; month is yyyy-MM */
+export const recordCommissionStatement = async (lineId: string, month: string, statementCommission: number, notes?: string) => {
+  const { data, error } = await supabase.rpc("record_agent_commission_statement", {
+    _line_id: lineId,
+    _period_month: `${month}-01`,
+    _statement_commission: statementCommission,
+    _notes: notes || null,
+  });
+  if (error) throw error;
+  return data as unknown as AgentCommissionStatement;
+};
@@ -0,0 +1,152 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AgentLine = Tables<"agent_lines">;
+export type AgentFloatDay = Tables<"agent_float_days">;
+export type AgentTransaction = Tables<"agent_transactions">;
+
+export type AgentProvider = "mtn" | "airtel";
+export type AgentTransactionType =
+  | "deposit"
+  | "withdrawal"
+  | "float_purchase"
+  | "bank_transfer_in"
+  | "bank_transfer_out"
+  | "reversal";
+
+export const AGENT_PROVIDER_LABELS: Record<AgentProvider, string> = {
+  mtn: "MTN Mobile Money",
+  airtel: "Airtel Money",
+};
+
+export const AGENT_TRANSACTION_LABELS: Record<AgentTransactionType, string> = {
+  deposit: "Deposit (cash in)",
+  withdrawal: "Withdrawal (cash out)",
+  float_purchase: "Float purchase",
+  bank_transfer_in: "Bank to float",
+  bank_transfer_out: "Float to bank",
+  reversal: "Reversal",
+};
+
+/**
+ * Which way each entry moves the SIM's e-float and the till's cash, as in record_agent_transaction
+ */
+export const AGENT_TRANSACTION_EFFECTS: Record<Exclude<AgentTransactionType, "reversal">, { float: -1 | 0 | 1; cash: -1 | 0 | 1 }> = {
+  deposit: { float: -1, cash: 1 },
+  withdrawal: { float: 1, cash: -1 },
+  float_purchase: { float: 1, cash: -1 },
+  bank_transfer_in: { float: 1, cash: 0 },
+  bank_transfer_out: { float: -1, cash: 0 },
+};
+
+/** Entries that involve a customer, so their phone number is asked for */
+export const CUSTOMER_TRANSACTION_TYPES: AgentTransactionType[] = ["deposit", "withdrawal"];
+
+export type FloatCounts = Record<string, number>; // line id -> amount
+
+export interface ClosingFloat {
+  expected: number;
+  counted: number;
+}
+
+export interface BalanceWarning {
+  lineId: string | null; // null for the till cash
+  message: string;
+}
+
+/**
+ * Lines running low on e-float, and the till running low on cash for withdrawals
+ */
+export const getBalanceWarnings = (lines: AgentLine[], day: AgentFloatDay | null | undefined): BalanceWarning[] => {
+  const warnings: BalanceWarning[] = lines
+    .filter((line) => line.is_active && line.low_float_alert > 0 && line.float_balance < line.low_float_alert)
+    .map((line) => ({
+      lineId: line.id,
+      message: `${line.name} float is UGX ${Number(line.float_balance).toLocaleString()}, below UGX ${Number(line.low_float_alert).toLocaleString()}`,
+    }));
+
+  if (day && day.low_cash_alert > 0 && day.cash_balance < day.low_cash_alert) {
+    warnings.push({
+      lineId: null,
+      message: `Cash is UGX ${Number(day.cash_balance).toLocaleString()}, below UGX ${Number(day.low_cash_alert).toLocaleString()}`,
+    });
+  }
+  return warnings;
+};
+
+/** Counted minus expected; negative is a shortage */
+export const getVariance = (expected: number, counted: number | null | undefined) =>
+  counted === null || counted === undefined ? 0 : Number(counted) - Number(expected);
+
+export const fetchOpenAgentDay = async (departmentId: string): Promise<AgentFloatDay | null> => {
+  const { data, error } = await supabase
+    .from("agent_float_days")
+    .select("*")
+    .eq("department_id", departmentId)
+    .eq("status", "open")
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+export const openAgentDay = async (
+  departmentId: string,
+  openingCash: number,
+  floats: FloatCounts,
+  lowCashAlert: number,
+  notes?: string
+) => {
+  const { data, error } = await supabase.rpc("open_agent_day", {
+    _department_id: departmentId,
+    _opening_cash: openingCash,
+    _floats: floats,
+    _low_cash_alert: lowCashAlert,
+    _notes: notes || null,
+  });
+  if (error) throw error;
+  return data as unknown as AgentFloatDay;
+};
+
+export const closeAgentDay = async (dayId: string, countedCash: number, countedFloats: FloatCounts, notes?: string) => {
+  const { data, error } = await supabase.rpc("close_agent_day", {
+    _day_id: dayId,
+    _counted_cash: countedCash,
+    _counted_floats: countedFloats,
+    _notes: notes || null,
+  });
+  if (error) throw error;
+  return data as unknown as AgentFloatDay;
+};
+
+export interface AgentTransactionInput {
+  lineId: string;
+  type: Exclude<AgentTransactionType, "reversal">;
+  amount: number;
+  customerPhone?: string;
+  customerName?: string;
+  reference?: string;
+  notes?: string;
+}
+
+export const recordAgentTransaction = async (input: AgentTransactionInput) => {
+  const { data, error } = await supabase.rpc("record_agent_transaction", {
+    _line_id: input.lineId,
+    _transaction_type: input.type,
+    _amount: input.amount,
+    _customer_phone: input.customerPhone || null,
+    _customer_name: input.customerName || null,
+    _reference: input.reference || null,
+    _notes: input.notes || null,
+  });
+  if (error) throw error;
+  return data as unknown as AgentTransaction;
+};
+
+export const reverseAgentTransaction = async (transactionId: string, reason: string) => {
+  const { data, error } = await supabase.rpc("reverse_agent_transaction", {
+    _transaction_id: transactionId,
+    _reason: reason,
+  });
+  if (error) throw error;
+  return data as unknown as AgentTransaction;
+};
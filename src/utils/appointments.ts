@@ -0,0 +1,141 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AppointmentStatus = "requested" | "scheduled" | "arrived" | "in_progress" | "completed" | "no_show" | "cancelled";
+
+export type Appointment = Tables<"appointments"> & {
+  customers?: { name: string; phone: string | null; email?: string | null } | null;
+  services?: { name: string; price: number; base_price: number | null } | null;
+};
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  requested: "Requested",
+  scheduled: "Scheduled",
+  arrived: "Arrived",
+  in_progress: "In Progress",
+  completed: "Completed",
+  no_show: "No-show",
+  cancelled: "Cancelled",
+};
+
+// Same rules as the validate_appointment trigger
+export const APPOINTMENT_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  requested: ["scheduled", "cancelled"],
+  scheduled: ["arrived", "in_progress", "no_show", "cancelled"],
+  arrived: ["in_progress", "cancelled"],
+  in_progress: ["completed"],
+  completed: [],
+  no_show: [],
+  cancelled: [],
+};
+
+export const canTransitionAppointment = (from: string, to: AppointmentStatus): boolean =>
+  (APPOINTMENT_TRANSITIONS[from as AppointmentStatus] || []).includes(to);
+
+/** Cancelled and no-show appointments no longer hold the staff member's time. */
+export const isAppointmentActive = (status: string): boolean => status !== "cancelled" && status !== "no_show";
+
+export const getAppointmentEnd = (appointment: Pick<Appointment, "appointment_date" | "duration_minutes">): Date =>
+  new Date(new Date(appointment.appointment_date).getTime() + (appointment.duration_minutes || 0) * 60000);
+
+const sameStaff = (a: string | null, b: string | null) =>
+  !!a?.trim() && !!b?.trim() && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Active appointments of the same staff member that overlap the candidate slot.
+ */
+export const findAppointmentConflicts = (
+  candidate: Pick<Appointment, "appointment_date" | "duration_minutes" | "assigned_staff"> & { id?: string },
+  appointments: Appointment[]
+): Appointment[] => {
+  const start = new Date(candidate.appointment_date).getTime();
+  const end = getAppointmentEnd(candidate).getTime();
+
+  return appointments.filter(
+    (a) =>
+      a.id !== candidate.id &&
+      isAppointmentActive(a.status) &&
+      sameStaff(a.assigned_staff, candidate.assigned_staff) &&
+      new Date(a.appointment_date).getTime() < end &&
+      start < getAppointmentEnd(a).getTime()
+  );
+};
+
+/** Customer record name, or the name given on the booking page. */
+export const getAppointmentCustomerName = (appointment: Appointment): string =>
+  appointment.customers?.name || appointment.customer_name || "Walk-in";
+
+export const getAppointmentCustomerPhone = (appointment: Appointment): string | null =>
+  appointment.customers?.phone || appointment.customer_phone || null;
+
+export type ReminderChannel = "email" | "sms" | "whatsapp";
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  email: "Email",
+  sms: "SMS",
+  whatsapp: "WhatsApp",
+};
+
+export interface AppointmentSettings {
+  bookingEnabled: boolean;
+  openingTime: string; // "HH:mm", in the department's timezone
+  closingTime: string;
+  slotMinutes: number;
+  bookingCapacity: number; // Bookings allowed at the same time
+  bookingDaysAhead: number;
+  timezone: string;
+  remindersEnabled: boolean;
+  reminderMinutesBefore: number;
+  reminderChannels: ReminderChannel[];
+}
+
+// Same defaults as the get_appointment_settings database function
+export const DEFAULT_APPOINTMENT_SETTINGS: AppointmentSettings = {
+  bookingEnabled: false,
+  openingTime: "08:00",
+  closingTime: "18:00",
+  slotMinutes: 30,
+  bookingCapacity: 1,
+  bookingDaysAhead: 14,
+  timezone: "Africa/Kampala",
+  remindersEnabled: false,
+  reminderMinutesBefore: 1440,
+  reminderChannels: ["whatsapp"],
+};
+
+/**
+ * Read settings_json.appointments, e.g. getAppointmentSettings(departmentSettings, globalSettings).
+ * Earlier rows win key by key, like the database function.
+ */
+export const getAppointmentSettings = (...settingsRows: { settings_json?: unknown }[]): AppointmentSettings => {
+  const saved = settingsRows
+    .map((row) => (row?.settings_json as Record<string, Partial<AppointmentSettings>> | undefined)?.appointments)
+    .filter(Boolean)
+    .reverse();
+  return Object.assign({}, DEFAULT_APPOINTMENT_SETTINGS, ...saved);
+};
+
+/**
+ * Reminder text, matching what send-appointment-reminders sends by email and SMS.
+ */
+export const buildAppointmentReminderMessage = (appointment: Appointment, businessName?: string): string => {
+  const when = new Date(appointment.appointment_date).toLocaleString("en-GB", {
+    weekday: "short",
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  const name = appointment.customers?.name || appointment.customer_name || "there";
+  return `Hi ${name}, this is a reminder of your ${appointment.services?.name || "appointment"} at ${
+    businessName || "us"
+  } on ${when}. Reply or call us if you need to reschedule.`;
+};
+
+/**
+ * wa.me link that opens WhatsApp with the message ready to send. Local 07... numbers get the 256 prefix.
+ */
+export const getWhatsAppLink = (phone: string, message: string): string => {
+  const digits = phone.replace(/\D/g, "");
+  const international = digits.startsWith("0") ? `256${digits.slice(1)}` : digits;
+  return `https://wa.me/${international}?text=${encodeURIComponent(message)}`;
+};
@@ -0,0 +1,105 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { SaleStockLine } from "@/utils/stockManagement";
+import { offlineQueue } from "@/utils/offlineQueue";
+import { isNetworkError } from "@/utils/offlineStore";
+import type { SaleLoyalty } from "@/utils/loyalty";
+
+export interface CreateSaleResult {
+  sale: Tables<"sales">;
+  payments: Tables<"sale_payments">[];
+  loyalty: SaleLoyalty | null; // Points earned and redeemed, null when the customer isn't in a loyalty program
+  duplicate: boolean; // The key was used before - this is the sale from the first attempt
+}
+
+export interface CreateSaleInput {
+  idempotencyKey: string;
+  sale: Record<string, unknown>;
+  items: Record<string, unknown>[];
+  payments: Record<string, unknown>[];
+  stock: SaleStockLine[];
+  allowOversell?: boolean; // Record the sale even if stock has run out (an offline sale a manager accepted)
+}
+
+/**
+ * Key for one checkout attempt. Reuse it when retrying the same cart so the sale is only created once.
+ */
+export const newCheckoutKey = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `sale-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Create a sale through the create_sale database function: receipt number, header, items,
+ * payments and stock deductions are written in one transaction, or the whole sale fails.
+ */
+export const createSale = async ({
+  idempotencyKey,
+  sale,
+  items,
+  payments,
+  stock,
+  allowOversell = false,
+}: CreateSaleInput): Promise<CreateSaleResult> => {
+  const { data, error } = await supabase.rpc("create_sale", {
+    _idempotency_key: idempotencyKey,
+    _sale: sale as Json,
+    _items: items as Json,
+    _payments: payments as Json,
+    _stock: stock as unknown as Json,
+    _allow_oversell: allowOversell,
+  });
+
+  if (error) throw new Error(error.message);
+  return data as unknown as CreateSaleResult;
+};
+
+/**
+ * Receipt number for a sale made offline. It is printed on the customer's receipt and kept when the
+ * sale syncs; the OFF- prefix keeps it out of the RCP- sequence.
+ */
+export const offlineReceiptNumber = (idempotencyKey: string, date = new Date()): string => {
+  const stamp = date.toISOString().replace(/\D/g, "").slice(2, 14);
+  return `OFF-${stamp}-${idempotencyKey.replace(/\W/g, "").slice(0, 4).toUpperCase()}`;
+};
+
+/**
+ * createSale, or when the server can't be reached, put the sale in the offline outbox under the same
+ * key and return a provisional sale so the till can print a receipt and carry on.
+ */
+export const createSaleOrQueue = async (
+  input: CreateSaleInput,
+  label: string
+): Promise<CreateSaleResult & { queued: boolean }> => {
+  if (navigator.onLine) {
+    try {
+      return { ...(await createSale(input)), queued: false };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  // A voucher or store credit balance can't be checked offline, and could be spent twice
+  if (input.payments.some((p) => p.method === "voucher" || p.method === "store_credit")) {
+    throw new Error("Gift vouchers and store credit can only be taken while online");
+  }
+
+  const receiptNumber = (input.sale.receipt_number as string) || offlineReceiptNumber(input.idempotencyKey);
+  const sale = {
+    ...input.sale,
+    receipt_number: receiptNumber,
+    sale_number: input.sale.sale_number || receiptNumber,
+    created_at: input.sale.created_at || new Date().toISOString(),
+  };
+  await offlineQueue.add({ kind: "create_sale", payload: { ...input, sale } }, { id: input.idempotencyKey, label });
+
+  return {
+    sale: { ...sale, id: input.idempotencyKey } as unknown as Tables<"sales">,
+    // Tenders are only recorded once the sale syncs, so nothing is waiting on a payment request yet
+    payments: [],
+    // Loyalty is worked out when the sale syncs
+    loyalty: null,
+    duplicate: false,
+    queued: true,
+  };
+};
@@ -0,0 +1,129 @@
+import { REFUND_METHOD_LABELS, RefundMethod } from "@/utils/saleReturns";
+
+export interface CreditNoteData {
+  creditNoteNumber: string;
+  receiptNumber: string; // Original sale
+  date: string;
+  reason: string;
+  refundMethod: RefundMethod;
+  refundReference?: string | null;
+  customerName?: string;
+  cashierName?: string;
+  items: Array<{
+    name: string;
+    quantity: number;
+    unit: "ml" | "units";
+    amount: number;
+    disposition: "restock" | "write_off";
+  }>;
+  total: number;
+  businessInfo: {
+    name: string;
+    address?: string;
+    phone?: string;
+    logo?: string;
+  };
+}
+
+export const generateCreditNoteHTML = (data: CreditNoteData): string => `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <meta charset="UTF-8">
+    <title>Credit Note ${data.creditNoteNumber}</title>
+    <style>
+      @media print {
+        body { margin: 0; padding: 10px; }
+        @page { margin: 0; size: auto; }
+      }
+      body {
+        font-family: 'Inter', 'Segoe UI', -apple-system, BlinkMacSystemFont, sans-serif;
+        font-size: 11px;
+        max-width: 300px;
+        margin: 0 auto;
+        line-height: 1.4;
+      }
+      .center { text-align: center; }
+      .business-name { font-weight: bold; font-size: 13px; text-transform: uppercase; }
+      .title { font-weight: bold; font-size: 14px; margin: 8px 0; letter-spacing: 1px; }
+      .info { border-top: 1px solid #000; border-bottom: 1px solid #000; padding: 6px 0; margin-bottom: 8px; font-size: 10px; }
+      table { width: 100%; border-collapse: collapse; font-size: 10px; }
+      th { text-align: left; border-bottom: 1px solid #000; padding: 4px 2px; }
+      td { padding: 4px 2px; vertical-align: top; }
+      th:last-child, td:last-child { text-align: right; }
+      .note { font-size: 9px; color: #555; }
+      .total { display: flex; justify-content: space-between; font-weight: bold; font-size: 12px; border-top: 1px dashed #000; margin-top: 8px; padding-top: 6px; }
+      .footer { margin-top: 12px; font-size: 9px; text-align: center; }
+    </style>
+  </head>
+  <body>
+    <div class="center">
+      ${data.businessInfo.logo ? `<img src="${data.businessInfo.logo}" style="width: 50px; height: 50px; object-fit: contain;" />` : ''}
+      <div class="business-name">${data.businessInfo.name}</div>
+      ${data.businessInfo.address ? `<div>${data.businessInfo.address}</div>` : ''}
+      ${data.businessInfo.phone ? `<div>Tel: ${data.businessInfo.phone}</div>` : ''}
+      <div class="title">CREDIT NOTE</div>
+    </div>
+
+    <div class="info">
+      <div>Credit Note #: <strong>${data.creditNoteNumber}</strong></div>
+      <div>Original Receipt #: ${data.receiptNumber}</div>
+      <div>Date: ${data.date}</div>
+      <div>Customer: ${data.customerName || 'Walk-in'}</div>
+      ${data.cashierName ? `<div>Processed by: ${data.cashierName}</div>` : ''}
+    </div>
+
+    <table>
+      <thead>
+        <tr><th>Item</th><th>Qty</th><th>Amount</th></tr>
+      </thead>
+      <tbody>
+        ${data.items.map((item) => `
+          <tr>
+            <td>
+              ${item.name}
+              ${item.disposition === 'write_off' ? '<div class="note">Written off</div>' : ''}
+            </td>
+            <td>${item.quantity}${item.unit === 'ml' ? 'ml' : ''}</td>
+            <td>${Math.round(item.amount).toLocaleString()}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+
+    <div class="total">
+      <span>TOTAL REFUND:</span>
+      <span>${Math.round(data.total).toLocaleString()} UGX</span>
+    </div>
+
+    <div style="margin-top: 6px;">
+      <div>Refunded as: <strong>${REFUND_METHOD_LABELS[data.refundMethod].toUpperCase()}</strong></div>
+      ${data.refundReference ? `<div>Reference: ${data.refundReference}</div>` : ''}
+      <div>Reason: ${data.reason}</div>
+    </div>
+
+    <div class="footer">
+      ${data.refundMethod === 'store_credit' ? 'This credit can be used on your next purchase.<br/>' : ''}
+      ${data.refundMethod === 'voucher' ? 'The voucher code above can be spent on your next purchase.<br/>' : ''}
+      Customer signature: ____________________
+    </div>
+  </body>
+  </html>
+`;
+
+export const printCreditNote = (data: CreditNoteData): boolean => {
+  const printWindow = window.open('', '_blank', 'width=350,height=700');
+  if (!printWindow) {
+    console.error('Could not open print window');
+    return false;
+  }
+
+  printWindow.document.write(generateCreditNoteHTML(data));
+  printWindow.document.close();
+
+  setTimeout(() => {
+    printWindow.print();
+    printWindow.onafterprint = () => printWindow.close();
+  }, 500);
+  return true;
+};
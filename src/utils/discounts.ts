@@ -0,0 +1,207 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type DiscountType = "percentage" | "fixed";
+
+export interface Discount {
+  type: DiscountType;
+  value: number; // Percent (0-100) for percentage, UGX for fixed
+  reason: string;
+  approvedBy?: string | null; // User id of the manager who overrode the cap
+  approvedByName?: string | null;
+  approvedByRole?: string | null;
+}
+
+export interface DiscountSettings {
+  reasons: string[];
+  caps: {
+    cashier: number; // Max discount in percent without override
+    manager: number;
+  };
+}
+
+export const DEFAULT_DISCOUNT_SETTINGS: DiscountSettings = {
+  reasons: [
+    "Loyal customer",
+    "Bulk purchase",
+    "Damaged / display item",
+    "Price match",
+    "Staff purchase",
+    "Promotion",
+  ],
+  caps: {
+    cashier: 5,
+    manager: 20,
+  },
+};
+
+/**
+ * Read discount settings (settings_json.discounts) from the first settings row that has them,
+ * e.g. getDiscountSettings(departmentSettings, globalSettings). Falls back to defaults.
+ */
+export const getDiscountSettings = (...settingsRows: { settings_json?: unknown }[]): DiscountSettings => {
+  const saved = settingsRows
+    .map((row) => (row?.settings_json as Record<string, Partial<DiscountSettings>> | undefined)?.discounts)
+    .find(Boolean) as Partial<DiscountSettings> | undefined;
+
+  return {
+    reasons: saved?.reasons?.length ? saved.reasons : DEFAULT_DISCOUNT_SETTINGS.reasons,
+    caps: {
+      cashier: Number(saved?.caps?.cashier ?? DEFAULT_DISCOUNT_SETTINGS.caps.cashier),
+      manager: Number(saved?.caps?.manager ?? DEFAULT_DISCOUNT_SETTINGS.caps.manager),
+    },
+  };
+};
+
+/**
+ * Get the discount cap (in percent) for a role. Admins are never capped.
+ */
+export const getDiscountCap = (role: string | undefined, discountSettings: DiscountSettings): number => {
+  if (role === "admin") return 100;
+  if (role === "manager" || role === "moderator") return discountSettings.caps.manager;
+  return discountSettings.caps.cashier;
+};
+
+/**
+ * Calculate the UGX amount of a discount applied to a base amount
+ */
+export const calculateDiscountAmount = (baseAmount: number, discount?: Discount | null): number => {
+  if (!discount || !discount.value || baseAmount <= 0) return 0;
+
+  const amount = discount.type === "percentage"
+    ? (baseAmount * Math.min(discount.value, 100)) / 100
+    : discount.value;
+
+  return Math.round(Math.min(Math.max(amount, 0), baseAmount));
+};
+
+/**
+ * Express a discount as a percentage of the base amount (used for cap checks)
+ */
+export const getDiscountPercent = (baseAmount: number, discount?: Discount | null): number => {
+  if (!discount || baseAmount <= 0) return 0;
+  return (calculateDiscountAmount(baseAmount, discount) / baseAmount) * 100;
+};
+
+/**
+ * The approval that covers a sale: the one with the highest cap among its discounts.
+ * create_sale checks the sale's combined discount against this approver's cap.
+ */
+export const getSaleDiscountApproval = (
+  discounts: (Discount | null | undefined)[],
+  discountSettings: DiscountSettings
+): Discount | null => {
+  const approved = discounts.filter((d): d is Discount => !!d?.approvedBy);
+  if (approved.length === 0) return null;
+  return approved.reduce((best, d) =>
+    getDiscountCap(d.approvedByRole || undefined, discountSettings) >
+    getDiscountCap(best.approvedByRole || undefined, discountSettings)
+      ? d
+      : best
+  );
+};
+
+/**
+ * Throw when the whole sale (line discounts plus the cart discount) is over the cashier's cap,
+ * or the approver's when one approved a discount on it. Line discounts are each checked as they
+ * are given, but together, or after a quantity change, they can still go over.
+ */
+export const assertSaleDiscountWithinCap = (
+  subtotal: number,
+  totalDiscount: number,
+  role: string | undefined,
+  discounts: (Discount | null | undefined)[],
+  discountSettings: DiscountSettings
+) => {
+  if (totalDiscount <= 0 || subtotal <= 0) return;
+
+  const approval = getSaleDiscountApproval(discounts, discountSettings);
+  const cap = Math.max(
+    getDiscountCap(role, discountSettings),
+    approval ? getDiscountCap(approval.approvedByRole || undefined, discountSettings) : 0
+  );
+  const percent = (totalDiscount / subtotal) * 100;
+
+  if (percent > cap + 0.01) {
+    throw new Error(
+      `Total discount of ${percent.toFixed(1)}% is over the ${cap}% limit. Have a manager approve the cart discount.`
+    );
+  }
+};
+
+/**
+ * Human readable label, e.g. "10%" or "UGX 2,000"
+ */
+export const formatDiscount = (discount?: Discount | null): string => {
+  if (!discount) return "";
+  return discount.type === "percentage"
+    ? `${discount.value}%`
+    : `UGX ${Number(discount.value).toLocaleString()}`;
+};
+
+interface DiscountableItem {
+  price: number;
+  quantity: number;
+  subtotal?: number;
+  discount?: Discount | null;
+}
+
+/**
+ * Gross line amount before any discount
+ */
+export const getLineGross = (item: DiscountableItem): number => {
+  return item.subtotal || item.price * item.quantity;
+};
+
+/**
+ * Line amount after its own discount (cart discount not included)
+ */
+export const getLineNet = (item: DiscountableItem): number => {
+  const gross = getLineGross(item);
+  return gross - calculateDiscountAmount(gross, item.discount);
+};
+
+/**
+ * Totals for a cart: gross subtotal, line discounts, cart discount and net total
+ */
+export const calculateCartTotals = (items: DiscountableItem[], cartDiscount?: Discount | null) => {
+  const subtotal = items.reduce((sum, item) => sum + getLineGross(item), 0);
+  const lineDiscounts = items.reduce(
+    (sum, item) => sum + calculateDiscountAmount(getLineGross(item), item.discount),
+    0
+  );
+  const afterLineDiscounts = subtotal - lineDiscounts;
+  const cartDiscountAmount = calculateDiscountAmount(afterLineDiscounts, cartDiscount);
+  const totalDiscount = lineDiscounts + cartDiscountAmount;
+
+  return {
+    subtotal,
+    lineDiscounts,
+    cartDiscountAmount,
+    totalDiscount,
+    total: subtotal - totalDiscount,
+  };
+};
+
+/**
+ * Verify a manager/admin override PIN. Returns the approver or null if the PIN is wrong.
+ */
+export const verifyOverridePin = async (
+  pin: string
+): Promise<{ userId: string; fullName: string; role: string } | null> => {
+  const { data, error } = await supabase.rpc("verify_override_pin", { _pin: pin });
+
+  if (error) {
+    console.error("Override PIN verification failed:", error);
+    // Lockouts after repeated wrong PINs come back as errors worth showing
+    throw new Error(error.message || "Could not verify PIN");
+  }
+
+  const approver = Array.isArray(data) ? data[0] : data;
+  if (!approver) return null;
+
+  return {
+    userId: approver.user_id,
+    fullName: approver.full_name || "Manager",
+    role: approver.role,
+  };
+};
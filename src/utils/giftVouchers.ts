@@ -0,0 +1,151 @@
+import { addMonths, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type GiftVoucher = Tables<"gift_vouchers">;
+export type GiftVoucherTransaction = Tables<"gift_voucher_transactions">;
+
+export type VoucherState = "active" | "used" | "expired" | "cancelled";
+export type VoucherSource = "sold" | "complimentary" | "refund";
+
+export interface VoucherSettings {
+  denominations: number[]; // Fixed values offered at the counter
+  allowOpenValue: boolean; // Any amount as well as the denominations
+  expiryMonths: number; // 0 = vouchers don't expire
+}
+
+export const DEFAULT_VOUCHER_SETTINGS: VoucherSettings = {
+  denominations: [20000, 50000, 100000],
+  allowOpenValue: true,
+  expiryMonths: 12,
+};
+
+/**
+ * Read settings_json.vouchers, e.g. getVoucherSettings(departmentSettings, globalSettings).
+ * Earlier rows win key by key.
+ */
+export const getVoucherSettings = (...settingsRows: { settings_json?: unknown }[]): VoucherSettings => {
+  const saved = settingsRows
+    .map((row) => (row?.settings_json as Record<string, Partial<VoucherSettings>> | undefined)?.vouchers)
+    .filter(Boolean)
+    .reverse();
+  return Object.assign({}, DEFAULT_VOUCHER_SETTINGS, ...saved);
+};
+
+export const VOUCHER_STATE_LABELS: Record<VoucherState, string> = {
+  active: "Active",
+  used: "Used up",
+  expired: "Expired",
+  cancelled: "Cancelled",
+};
+
+export const VOUCHER_SOURCE_LABELS: Record<VoucherSource, string> = {
+  sold: "Sold",
+  complimentary: "Complimentary",
+  refund: "Return refund",
+};
+
+export const VOUCHER_TRANSACTION_LABELS: Record<string, string> = {
+  issue: "Issued",
+  redeem: "Redeemed",
+  reversal: "Voided sale",
+  cancel: "Cancelled",
+};
+
+/** Codes are stored upper-case; scanners and staff type them any way */
+export const normalizeVoucherCode = (code: string | null | undefined) => (code || "").trim().toUpperCase();
+
+/** Expiry date for a voucher issued today, as yyyy-MM-dd, or null when vouchers don't expire */
+export const getVoucherExpiry = (settings: Pick<VoucherSettings, "expiryMonths">, from = new Date()) =>
+  settings.expiryMonths > 0 ? format(addMonths(from, settings.expiryMonths), "yyyy-MM-dd") : null;
+
+export const isVoucherExpired = (voucher: Pick<GiftVoucher, "expires_at">, today = format(new Date(), "yyyy-MM-dd")) =>
+  !!voucher.expires_at && voucher.expires_at < today;
+
+export const getVoucherState = (voucher: GiftVoucher): VoucherState => {
+  if (voucher.status === "cancelled") return "cancelled";
+  if (Number(voucher.balance) <= 0) return "used";
+  if (isVoucherExpired(voucher)) return "expired";
+  return "active";
+};
+
+/**
+ * Why a voucher can't pay `amount` of a sale in `departmentId`, or null when it can.
+ * create_sale checks the same things again when the sale is saved.
+ */
+export const getVoucherTenderError = (voucher: GiftVoucher | null | undefined, amount: number, departmentId: string | null) => {
+  if (!voucher) return "Voucher not found";
+  const state = getVoucherState(voucher);
+  if (state !== "active") return `Voucher is ${VOUCHER_STATE_LABELS[state].toLowerCase()}`;
+  if (voucher.department_id !== departmentId) return "Voucher belongs to another department";
+  if (amount > Number(voucher.balance)) return `Only UGX ${Number(voucher.balance).toLocaleString()} left on the voucher`;
+  return null;
+};
+
+export const fetchGiftVoucher = async (code: string): Promise<GiftVoucher | null> => {
+  const { data, error } = await supabase
+    .from("gift_vouchers")
+    .select("*")
+    .eq("code", normalizeVoucherCode(code))
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+export interface IssueVoucherInput {
+  departmentId: string;
+  amount: number;
+  valueType: "fixed" | "open";
+  expiresAt: string | null;
+  source: VoucherSource;
+  paymentMethod?: "cash" | "card" | "mobile_money" | null;
+  paymentReference?: string;
+  customerId?: string | null;
+  recipientName?: string;
+  notes?: string;
+  saleReturnId?: string | null;
+}
+
+export const issueGiftVoucher = async (input: IssueVoucherInput): Promise<GiftVoucher> => {
+  const { data, error } = await supabase.rpc("issue_gift_voucher", {
+    _department_id: input.departmentId,
+    _amount: input.amount,
+    _value_type: input.valueType,
+    _expires_at: input.expiresAt,
+    _source: input.source,
+    _payment_method: input.paymentMethod || null,
+    _payment_reference: input.paymentReference || null,
+    _customer_id: input.customerId || null,
+    _recipient_name: input.recipientName || null,
+    _notes: input.notes || null,
+    _sale_return_id: input.saleReturnId || null,
+  });
+  if (error) throw error;
+  return data as unknown as GiftVoucher;
+};
+
+export const cancelGiftVoucher = async (voucherId: string, reason: string) => {
+  const { data, error } = await supabase.rpc("cancel_gift_voucher", { _voucher_id: voucherId, _reason: reason });
+  if (error) throw error;
+  return data as unknown as GiftVoucher;
+};
+
+/**
+ * Cash taken for vouchers sold in a department since `from` (and up to `to`); it goes into the drawer
+ * like a sale would, but isn't revenue until the voucher is spent.
+ */
+export const fetchVoucherCashSales = async (departmentId: string, from: string, to?: string): Promise<number> => {
+  let query = supabase
+    .from("gift_vouchers")
+    .select("initial_value")
+    .eq("department_id", departmentId)
+    .eq("source", "sold")
+    .eq("payment_method", "cash")
+    .gte("created_at", from);
+
+  if (to) query = query.lte("created_at", to);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).reduce((sum, v) => sum + Number(v.initial_value || 0), 0);
+};
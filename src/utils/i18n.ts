@@ -0,0 +1,105 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGES,
+  Language,
+  TRANSLATIONS,
+  TranslationKey,
+} from "@/constants/translations";
+
+export type Translator = (key: TranslationKey, vars?: Record<string, string | number>) => string;
+
+export type TranslationOverrides = Partial<Record<Language, Partial<Record<TranslationKey, string>>>>;
+
+export interface I18nSettings {
+  defaultLanguage: Language;
+  overrides: TranslationOverrides;
+}
+
+export const DEFAULT_I18N_SETTINGS: I18nSettings = {
+  defaultLanguage: DEFAULT_LANGUAGE,
+  overrides: {},
+};
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+
+/** First supported language code, e.g. resolveLanguage(customer.preferred_language, settings.defaultLanguage) */
+export const resolveLanguage = (...candidates: unknown[]): Language =>
+  (candidates.find(isLanguage) as Language | undefined) || DEFAULT_LANGUAGE;
+
+/** Normalize a settings_json.i18n value or a get_i18n_settings result */
+export const parseI18nSettings = (value: unknown): I18nSettings => {
+  const saved = (value || {}) as { defaultLanguage?: unknown; overrides?: Record<string, unknown> };
+  const overrides: TranslationOverrides = {};
+  for (const [language, strings] of Object.entries(saved.overrides || {})) {
+    if (isLanguage(language) && strings && typeof strings === "object") {
+      overrides[language] = strings as Partial<Record<TranslationKey, string>>;
+    }
+  }
+  return {
+    defaultLanguage: resolveLanguage(saved.defaultLanguage),
+    overrides,
+  };
+};
+
+/**
+ * Look up strings in `language`, falling back to English key by key.
+ * Staff overrides win over the catalog; {name} placeholders are filled from `vars`.
+ */
+export const createTranslator = (
+  language: Language = DEFAULT_LANGUAGE,
+  overrides: TranslationOverrides = {}
+): Translator => (key, vars) => {
+  const text =
+    overrides[language]?.[key] ||
+    TRANSLATIONS[language]?.[key] ||
+    overrides[DEFAULT_LANGUAGE]?.[key] ||
+    TRANSLATIONS[DEFAULT_LANGUAGE][key] ||
+    key;
+  if (!vars) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in vars ? String(vars[name]) : match));
+};
+
+/** English with no overrides - what printers use when no translator is passed */
+export const defaultTranslator = createTranslator();
+
+/** Department settings over global, merged by get_i18n_settings. Safe to call from public pages. */
+export const fetchI18nSettings = async (departmentId?: string | null): Promise<I18nSettings> => {
+  const { data, error } = await supabase.rpc("get_i18n_settings", {
+    _department_id: departmentId || undefined,
+  });
+  if (error) {
+    console.error("Failed to load translations:", error);
+    return DEFAULT_I18N_SETTINGS;
+  }
+  return parseI18nSettings(data);
+};
+
+/**
+ * Translator for a customer-facing document. The language is the first of: `language`,
+ * the customer's preferred language, the department default.
+ */
+export const fetchTranslator = async ({
+  departmentId,
+  customerId,
+  language,
+}: {
+  departmentId?: string | null;
+  customerId?: string | null;
+  language?: string | null;
+}): Promise<Translator> => {
+  const settings = await fetchI18nSettings(departmentId);
+
+  let preferred: string | null = null;
+  if (!isLanguage(language) && customerId) {
+    const { data } = await supabase
+      .from("customers")
+      .select("preferred_language")
+      .eq("id", customerId)
+      .maybeSingle();
+    preferred = data?.preferred_language ?? null;
+  }
+
+  return createTranslator(resolveLanguage(language, preferred, settings.defaultLanguage), settings.overrides);
+};
@@ -1,3 +1,6 @@
+import { TaxBreakdownRow, formatTaxLabel, getAddedTax } from "@/utils/tax";
+import { Translator, defaultTranslator } from "@/utils/i18n";
+
 interface InvoiceData {
   invoiceNumber: string;
   items: Array<{
@@ -15,6 +18,8 @@ interface InvoiceData {
   }>;
   subtotal: number;
   tax: number;
+  taxBreakdown?: TaxBreakdownRow[];
+  discount?: number;
   total: number;
   paymentMethod: string;
   date: string;
@@ -33,18 +38,47 @@ interface InvoiceData {
   };
   paymentTerms?: string;
   qrCodeUrl?: string;
+  translate?: Translator; // Customer-facing labels, English when omitted
 }
 
-export const generateInvoiceHTML = (data: InvoiceData): string => {
-  const discount = data.subtotal - data.total + (data.tax || 0);
-  
-  return `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-      <meta charset="UTF-8">
-      <title>Invoice - ${data.businessInfo.name}</title>
-      <style>
+export interface PurchaseOrderPrintData {
+  poNumber: string;
+  status: string;
+  orderDate: string;
+  expectedDate?: string;
+  supplier: {
+    name: string;
+    contactPerson?: string;
+    phone?: string;
+    email?: string;
+    address?: string;
+  };
+  items: Array<{
+    description: string;
+    quantity: number;
+    unit: string;
+    unitCost: number;
+    received?: number;
+  }>;
+  total: number;
+  notes?: string;
+  preparedBy?: string;
+  businessInfo: InvoiceData["businessInfo"];
+}
+
+export interface RecipeCardPrintData {
+  name: string;
+  owner: string; // Customer name or "House blend"
+  description?: string;
+  defaultSizeMl?: number;
+  scents: Array<{ name: string; percent: number }>;
+  shareCode: string;
+  qrDataUrl: string;
+  businessInfo: Pick<InvoiceData["businessInfo"], "name" | "phone">;
+}
+
+// A4 layout shared by invoices and purchase orders
+const DOCUMENT_STYLES = `
         @page {
           size: A4;
           margin: 20mm;
@@ -296,6 +330,20 @@ export const generateInvoiceHTML = (data: InvoiceData): string => {
           font-size: 13px;
           color: #666;
         }
+`;
+
+export const generateInvoiceHTML = (data: InvoiceData): string => {
+  const t = data.translate || defaultTranslator;
+  const discount = data.discount ?? (data.subtotal - data.total + getAddedTax(data.tax, data.taxBreakdown));
+  
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <title>Invoice - ${data.businessInfo.name}</title>
+      <style>
+${DOCUMENT_STYLES}
       </style>
     </head>
 
@@ -314,34 +362,34 @@ export const generateInvoiceHTML = (data: InvoiceData): string => {
           </div>
         </div>
         <div class="invoice-badge">
-          <h2>INVOICE</h2>
+          <h2>${t('invoice.title')}</h2>
         </div>
       </div>
 
       <!-- INFO GRID -->
       <div class="info-grid">
         <div class="info-box">
-          <h3>Invoice Details</h3>
-          <p><strong>Invoice #:</strong> ${data.invoiceNumber}</p>
-          <p><strong>Date:</strong> ${data.date}</p>
-          <p><strong>Cashier:</strong> ${data.cashierName || 'Staff'}</p>
+          <h3>${t('invoice.details')}</h3>
+          <p><strong>${t('invoice.number')}:</strong> ${data.invoiceNumber}</p>
+          <p><strong>${t('receipt.date')}:</strong> ${data.date}</p>
+          <p><strong>${t('receipt.cashier')}:</strong> ${data.cashierName || t('receipt.staff')}</p>
         </div>
         <div class="info-box">
-          <h3>Bill To</h3>
-          <p><strong>${data.customerName || 'Walk-in Customer'}</strong></p>
+          <h3>${t('invoice.billTo')}</h3>
+          <p><strong>${data.customerName || t('invoice.walkInCustomer')}</strong></p>
           ${data.customerPhone ? `<p>📞 ${data.customerPhone}</p>` : ''}
         </div>
       </div>
 
       <!-- ITEMS -->
-      <h3 class="section-title">Items</h3>
+      <h3 class="section-title">${t('invoice.items')}</h3>
       <table>
         <thead>
           <tr>
-            <th>Product / Scent</th>
-            <th style="text-align: center;">Quantity (ml)</th>
-            <th style="text-align: right;">Unit Price</th>
-            <th style="text-align: right;">Total</th>
+            <th>${t('invoice.productScent')}</th>
+            <th style="text-align: center;">${t('invoice.quantityMl')}</th>
+            <th style="text-align: right;">${t('invoice.unitPrice')}</th>
+            <th style="text-align: right;">${t('receipt.total')}</th>
           </tr>
         </thead>
         <tbody>
@@ -362,7 +410,7 @@ export const generateInvoiceHTML = (data: InvoiceData): string => {
                 </tr>
               `).join('') + `
                 <tr style="background-color: #f8f8f8; border-top: 2px solid #333;">
-                  <td style="text-align: right; font-weight: 600; padding-right: 20px;">Total</td>
+                  <td style="text-align: right; font-weight: 600; padding-right: 20px;">${t('receipt.total')}</td>
                   <td style="text-align: center; font-weight: 600;">${totalMl} ml</td>
                   <td style="text-align: right; font-weight: 600;">${pricePerMl.toLocaleString()} UGX/ml</td>
                   <td style="text-align: right; font-weight: 600;">${item.subtotal.toLocaleString()} UGX</td>
@@ -391,26 +439,38 @@ export const generateInvoiceHTML = (data: InvoiceData): string => {
       <div class="totals-section">
         <div class="totals">
           <div class="totals-row">
-            <span class="label">Subtotal:</span>
+            <span class="label">${t('receipt.subtotal')}:</span>
             <span>${data.subtotal.toLocaleString()} UGX</span>
           </div>
           ${discount > 0 ? `
             <div class="totals-row">
-              <span class="label">Discount:</span>
+              <span class="label">${t('receipt.discount')}:</span>
               <span>${discount.toLocaleString()} UGX</span>
             </div>
           ` : ''}
+          ${(data.taxBreakdown || []).map(row => `
+            <div class="totals-row">
+              <span class="label">${t('receipt.taxOn', { tax: formatTaxLabel(row), amount: Math.round(row.taxableAmount).toLocaleString() })}:</span>
+              <span>${row.taxAmount.toLocaleString()} UGX</span>
+            </div>
+          `).join('')}
+          ${!data.taxBreakdown && data.tax ? `
+            <div class="totals-row">
+              <span class="label">${t('receipt.tax')}:</span>
+              <span>${data.tax.toLocaleString()} UGX</span>
+            </div>
+          ` : ''}
           <div class="totals-row grand">
-            <span>TOTAL AMOUNT</span>
+            <span>${t('invoice.totalAmount')}</span>
             <span>${data.total.toLocaleString()} UGX</span>
           </div>
           <div class="totals-row">
-            <span class="label">Payment Method:</span>
+            <span class="label">${t('invoice.paymentMethod')}:</span>
             <span>${data.paymentMethod}</span>
           </div>
           <div class="totals-row">
-            <span class="label">Served By:</span>
-            <span>${data.cashierName || 'Staff'}</span>
+            <span class="label">${t('invoice.servedBy')}:</span>
+            <span>${data.cashierName || t('receipt.staff')}</span>
           </div>
         </div>
       </div>
@@ -418,19 +478,19 @@ export const generateInvoiceHTML = (data: InvoiceData): string => {
       ${data.qrCodeUrl ? `
         <!-- QR SECTION -->
         <div class="qr-section">
-          <h3>Connect With Us</h3>
-          <p style="font-size: 15px; color: #555;">Scan to chat on WhatsApp</p>
+          <h3>${t('invoice.connectWithUs')}</h3>
+          <p style="font-size: 15px; color: #555;">${t('invoice.scanToChat')}</p>
           <img src="${data.qrCodeUrl}" alt="WhatsApp QR Code" />
-          <p style="font-weight: 600; color: #333;">WhatsApp: ${data.businessInfo.whatsapp || data.businessInfo.phone}</p>
-          ${data.businessInfo.website ? `<a href="${data.businessInfo.website}" class="cta">Visit Our Website</a>` : ''}
+          <p style="font-weight: 600; color: #333;">${t('receipt.whatsapp')}: ${data.businessInfo.whatsapp || data.businessInfo.phone}</p>
+          ${data.businessInfo.website ? `<a href="${data.businessInfo.website}" class="cta">${t('invoice.visitWebsite')}</a>` : ''}
         </div>
       ` : ''}
 
       <!-- FOOTER -->
       <div class="footer">
-        <h3>🎉 Thank You For Your Business! 🎉</h3>
-        <p>We appreciate your patronage and look forward to serving you again.</p>
-        <p style="margin-top: 15px;">For inquiries: ${data.businessInfo.phone}${data.businessInfo.email ? ` | ${data.businessInfo.email}` : ''}</p>
+        <h3>🎉 ${t('invoice.thankYou')} 🎉</h3>
+        <p>${t('invoice.appreciation')}</p>
+        <p style="margin-top: 15px;">${t('invoice.inquiries')}: ${data.businessInfo.phone}${data.businessInfo.email ? ` | ${data.businessInfo.email}` : ''}</p>
       </div>
 
     </div>
@@ -471,7 +531,150 @@ export const generateInvoiceHTML = (data: InvoiceData): string => {
   `;
 };
 
-export const printInvoice = async (invoiceData: InvoiceData, previewOnly: boolean = false): Promise<boolean> => {
+export const generatePurchaseOrderHTML = (data: PurchaseOrderPrintData): string => {
+  const showReceived = data.items.some((item) => (item.received || 0) > 0);
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <title>Purchase Order ${data.poNumber} - ${data.businessInfo.name}</title>
+      <style>
+${DOCUMENT_STYLES}
+      </style>
+    </head>
+
+    <body>
+    <div class="invoice-container">
+
+      <div class="header">
+        <div class="header-left">
+          ${data.businessInfo.logo ? `<img src="${data.businessInfo.logo}" alt="Logo" class="logo" />` : ''}
+          <div class="company-info">
+            <h1>${data.businessInfo.name}</h1>
+            <p>📍 ${data.businessInfo.address}</p>
+            <p>☎ ${data.businessInfo.phone}${data.businessInfo.email ? ` | ✉ ${data.businessInfo.email}` : ''}</p>
+          </div>
+        </div>
+        <div class="invoice-badge">
+          <h2>PURCHASE ORDER</h2>
+        </div>
+      </div>
+
+      <div class="info-grid">
+        <div class="info-box">
+          <h3>Order Details</h3>
+          <p><strong>PO #:</strong> ${data.poNumber}</p>
+          <p><strong>Date:</strong> ${data.orderDate}</p>
+          ${data.expectedDate ? `<p><strong>Deliver by:</strong> ${data.expectedDate}</p>` : ''}
+          <p><strong>Status:</strong> ${data.status}</p>
+        </div>
+        <div class="info-box">
+          <h3>Supplier</h3>
+          <p><strong>${data.supplier.name}</strong></p>
+          ${data.supplier.contactPerson ? `<p>Attn: ${data.supplier.contactPerson}</p>` : ''}
+          ${data.supplier.phone ? `<p>📞 ${data.supplier.phone}</p>` : ''}
+          ${data.supplier.email ? `<p>✉ ${data.supplier.email}</p>` : ''}
+          ${data.supplier.address ? `<p>📍 ${data.supplier.address}</p>` : ''}
+        </div>
+      </div>
+
+      <h3 class="section-title">Items</h3>
+      <table>
+        <thead>
+          <tr>
+            <th>Item</th>
+            <th style="text-align: center;">Quantity</th>
+            ${showReceived ? '<th style="text-align: center;">Received</th>' : ''}
+            <th style="text-align: right;">Unit Cost</th>
+            <th style="text-align: right;">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${data.items.map(item => `
+            <tr>
+              <td><div class="scent-name">${item.description}</div></td>
+              <td style="text-align: center; font-weight: 600;">${item.quantity.toLocaleString()} ${item.unit}</td>
+              ${showReceived ? `<td style="text-align: center;">${(item.received || 0).toLocaleString()} ${item.unit}</td>` : ''}
+              <td style="text-align: right;">${item.unitCost.toLocaleString()} UGX</td>
+              <td style="text-align: right; font-weight: 600;">${(item.quantity * item.unitCost).toLocaleString()} UGX</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+
+      <div class="totals-section">
+        <div class="totals">
+          <div class="totals-row grand">
+            <span>ORDER TOTAL</span>
+            <span>${data.total.toLocaleString()} UGX</span>
+          </div>
+          <div class="totals-row">
+            <span class="label">Prepared By:</span>
+            <span>${data.preparedBy || 'Staff'}</span>
+          </div>
+        </div>
+      </div>
+
+      ${data.notes ? `
+        <h3 class="section-title">Notes</h3>
+        <p style="font-size: 14px; color: #333;">${data.notes}</p>
+      ` : ''}
+
+      <div class="footer">
+        <p>Please quote PO # ${data.poNumber} on your delivery note and invoice.</p>
+        <p style="margin-top: 15px;">For inquiries: ${data.businessInfo.phone}${data.businessInfo.email ? ` | ${data.businessInfo.email}` : ''}</p>
+      </div>
+
+    </div>
+    </body>
+    </html>
+  `;
+};
+
+// Card-sized: fits in a gift box or stuck to the customer's loyalty folder
+export const generateRecipeCardHTML = (data: RecipeCardPrintData): string => `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <title>Recipe ${data.name} - ${data.businessInfo.name}</title>
+      <style>
+        @page { size: A6; margin: 8mm; }
+        body { font-family: Arial, sans-serif; color: #111; margin: 0; }
+        .card { border: 2px solid #111; border-radius: 12px; padding: 16px; text-align: center; }
+        .business { font-size: 12px; text-transform: uppercase; letter-spacing: 1px; color: #555; }
+        h1 { font-size: 22px; margin: 6px 0 2px; }
+        .owner { font-size: 13px; color: #555; margin-bottom: 10px; }
+        table { width: 100%; border-collapse: collapse; margin: 10px 0; font-size: 13px; }
+        td { padding: 4px 0; border-bottom: 1px dashed #ccc; text-align: left; }
+        td.percent { text-align: right; font-weight: bold; }
+        img { width: 150px; height: 150px; }
+        .code { font-family: monospace; font-size: 16px; font-weight: bold; letter-spacing: 2px; }
+        .hint { font-size: 11px; color: #555; margin-top: 6px; }
+      </style>
+    </head>
+    <body>
+      <div class="card">
+        <div class="business">${data.businessInfo.name}</div>
+        <h1>${data.name}</h1>
+        <div class="owner">${data.owner}${data.defaultSizeMl ? ` · ${data.defaultSizeMl}ml` : ''}</div>
+        ${data.description ? `<p style="font-size: 12px; margin: 0 0 8px;">${data.description}</p>` : ''}
+        <table>
+          ${data.scents.map(scent => `
+            <tr><td>${scent.name}</td><td class="percent">${scent.percent}%</td></tr>
+          `).join('')}
+        </table>
+        <img src="${data.qrDataUrl}" alt="Recipe QR" />
+        <div class="code">${data.shareCode}</div>
+        <div class="hint">Scan or show this card to refill the same blend${data.businessInfo.phone ? ` · ☎ ${data.businessInfo.phone}` : ''}</div>
+      </div>
+    </body>
+    </html>
+  `;
+
+const printDocument = (html: string, previewOnly: boolean): Promise<boolean> => {
   return new Promise((resolve) => {
     const printWindow = window.open('', '_blank', 'width=800,height=900');
     
@@ -481,7 +684,7 @@ export const printInvoice = async (invoiceData: InvoiceData, previewOnly: boolea
       return;
     }
 
-    printWindow.document.write(generateInvoiceHTML(invoiceData));
+    printWindow.document.write(html);
     printWindow.document.close();
 
     if (previewOnly) {
@@ -506,6 +709,15 @@ export const printInvoice = async (invoiceData: InvoiceData, previewOnly: boolea
   });
 };
 
+export const printInvoice = async (invoiceData: InvoiceData, previewOnly: boolean = false): Promise<boolean> =>
+  printDocument(generateInvoiceHTML(invoiceData), previewOnly);
+
+export const printPurchaseOrder = async (data: PurchaseOrderPrintData, previewOnly: boolean = false): Promise<boolean> =>
+  printDocument(generatePurchaseOrderHTML(data), previewOnly);
+
+export const printRecipeCard = async (data: RecipeCardPrintData, previewOnly: boolean = false): Promise<boolean> =>
+  printDocument(generateRecipeCardHTML(data), previewOnly);
+
 export const shareInvoiceViaWhatsApp = async (invoiceData: InvoiceData, phoneNumber?: string): Promise<void> => {
   try {
     // Dynamically import html2pdf
@@ -539,7 +751,10 @@ export const shareInvoiceViaWhatsApp = async (invoiceData: InvoiceData, phoneNum
     document.body.removeChild(container);
     
     // Open WhatsApp with a message prompting to share the downloaded PDF
-    const message = `Invoice #${invoiceData.invoiceNumber} from ${invoiceData.businessInfo.name}. Please find the attached PDF invoice.`;
+    const message = (invoiceData.translate || defaultTranslator)('share.invoice', {
+      number: invoiceData.invoiceNumber,
+      business: invoiceData.businessInfo.name,
+    });
     const encodedMessage = encodeURIComponent(message);
     const url = phoneNumber 
       ? `https://wa.me/${phoneNumber.replace(/[^0-9]/g, '')}?text=${encodedMessage}`
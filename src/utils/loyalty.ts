@@ -0,0 +1,121 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Translator, defaultTranslator } from "@/utils/i18n";
+
+export interface LoyaltySettings {
+  enabled: boolean;
+  spendPerPoint: number; // UGX paid for one point
+  pointValue: number; // UGX one point takes off a sale
+  minRedeemPoints: number;
+  refillBonusPoints: number; // On top of spend points, per refill line
+  punchCardEnabled: boolean;
+  freeRefillEvery: number; // 10 = nine paid refills, the tenth is free
+}
+
+export const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+  enabled: false,
+  spendPerPoint: 1000,
+  pointValue: 10,
+  minRedeemPoints: 100,
+  refillBonusPoints: 5,
+  punchCardEnabled: true,
+  freeRefillEvery: 10,
+};
+
+/**
+ * Read settings_json.loyalty, e.g. getLoyaltySettings(departmentSettings, globalSettings).
+ * Earlier rows win key by key, like get_loyalty_settings.
+ */
+export const getLoyaltySettings = (...settingsRows: { settings_json?: unknown }[]): LoyaltySettings => {
+  const saved = settingsRows
+    .map((row) => (row?.settings_json as Record<string, Partial<LoyaltySettings>> | undefined)?.loyalty)
+    .filter(Boolean)
+    .reverse();
+  return Object.assign({}, DEFAULT_LOYALTY_SETTINGS, ...saved);
+};
+
+/** Paid refills that fill the card; 0 when there is no punch-card */
+export const getPunchesRequired = (settings: Pick<LoyaltySettings, "punchCardEnabled" | "freeRefillEvery">) =>
+  settings.punchCardEnabled ? Math.max(Number(settings.freeRefillEvery) - 1, 0) : 0;
+
+/** Points a loyalty tender of `amount` UGX takes, rounded up like apply_sale_loyalty */
+export const getPointsForAmount = (amount: number, pointValue: number) =>
+  pointValue > 0 ? Math.ceil(amount / pointValue) : 0;
+
+/** Balances and the department's rules for one customer, from get_customer_loyalty */
+export type CustomerLoyalty = LoyaltySettings & {
+  customerId: string;
+  points: number;
+  punches: number;
+};
+
+export const fetchCustomerLoyalty = async (customerId: string): Promise<CustomerLoyalty | null> => {
+  const { data, error } = await supabase.rpc("get_customer_loyalty", { _customer_id: customerId });
+  if (error) throw error;
+  return data ? { ...DEFAULT_LOYALTY_SETTINGS, ...(data as unknown as CustomerLoyalty) } : null;
+};
+
+/** UGX the customer's points can cover right now, in whole points */
+export const getRedeemableValue = (loyalty: CustomerLoyalty) =>
+  loyalty.points >= loyalty.minRedeemPoints ? loyalty.points * loyalty.pointValue : 0;
+
+export const isFreeRefillReady = (loyalty: CustomerLoyalty) => {
+  const required = getPunchesRequired(loyalty);
+  return required > 0 && loyalty.punches >= required;
+};
+
+/** What a sale did to the customer's loyalty, as printed on the receipt (get_sale_loyalty) */
+export interface SaleLoyalty {
+  earned: number;
+  redeemed: number;
+  freeRefill: boolean;
+  points: number;
+  punches: number;
+  punchesRequired: number;
+}
+
+/** Receipt lines for a sale's loyalty, in the customer's language */
+export const getLoyaltyReceiptLines = (loyalty: SaleLoyalty | null | undefined, t: Translator = defaultTranslator) => {
+  if (!loyalty) return [];
+  const lines: string[] = [];
+  if (loyalty.earned > 0) lines.push(`${t("receipt.pointsEarned")}: +${loyalty.earned}`);
+  if (loyalty.redeemed > 0) lines.push(`${t("receipt.pointsRedeemed")}: -${loyalty.redeemed}`);
+  if (loyalty.freeRefill) lines.push(t("receipt.freeRefillUsed"));
+  lines.push(`${t("receipt.pointsBalance")}: ${loyalty.points}`);
+  if (loyalty.punchesRequired > 0) {
+    lines.push(
+      loyalty.punches >= loyalty.punchesRequired
+        ? t("receipt.freeRefillNext")
+        : t("receipt.refillCard", { count: loyalty.punches, required: loyalty.punchesRequired })
+    );
+  }
+  return lines;
+};
+
+export const fetchSaleLoyalty = async (saleId: string): Promise<SaleLoyalty | null> => {
+  const { data, error } = await supabase.rpc("get_sale_loyalty", { _sale_id: saleId });
+  if (error) throw error;
+  return (data as unknown as SaleLoyalty) || null;
+};
+
+export type LoyaltyTransaction = Tables<"loyalty_transactions">;
+
+export const LOYALTY_TRANSACTION_LABELS: Record<string, string> = {
+  earn: "Earned",
+  redeem: "Redeemed",
+  free_refill: "Free refill",
+  adjustment: "Adjustment",
+  reversal: "Voided sale",
+  return: "Returned items",
+};
+
+export const adjustLoyalty = async (customerId: string, points: number, punches: number, notes?: string) => {
+  const { data, error } = await supabase.rpc("adjust_loyalty", {
+    _customer_id: customerId,
+    _points: points,
+    _punches: punches,
+    _notes: notes || null,
+  });
+  if (error) throw error;
+  return data as unknown as CustomerLoyalty;
+};
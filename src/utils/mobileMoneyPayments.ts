@@ -0,0 +1,66 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type MobileMoneyPayment = Tables<"mobile_money_payments">;
+export type MobileMoneyException = Tables<"mobile_money_exceptions">;
+
+export type MobileMoneyExceptionReason = "unmatched" | "amount_mismatch" | "late_result";
+
+export const EXCEPTION_REASON_LABELS: Record<MobileMoneyExceptionReason, string> = {
+  unmatched: "No matching payment",
+  amount_mismatch: "Amount differs",
+  late_result: "Result after settlement",
+};
+
+/** How often the payment dialog asks the provider directly when no callback has come in */
+export const STATUS_CHECK_INTERVAL_MS = 15000;
+
+/** Practice payments settle after a few seconds, but only when a status check asks */
+export const SIMULATED_CHECK_INTERVAL_MS = 3000;
+
+export const fetchMobileMoneyPayment = async (paymentId: string): Promise<MobileMoneyPayment | null> => {
+  const { data, error } = await supabase.from("mobile_money_payments").select("*").eq("id", paymentId).maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Polling fallback: asks the provider for the status of one payment, or of every payment of a
+ * department that has been pending for a while, and settles those that have a result
+ */
+export const checkMobilePayments = async (target: { paymentId: string } | { departmentId: string }) => {
+  const { data, error } = await supabase.functions.invoke("check-mobile-payment", { body: target });
+  if (error) throw error;
+  return (data?.results || []) as { paymentId: string; status: string; outcome: string }[];
+};
+
+/** Applies an exception to an unpaid mobile money tender, or dismisses it when no tender is given */
+export const resolveMobileMoneyException = async (exceptionId: string, salePaymentId: string | null, notes?: string) => {
+  const { data, error } = await supabase.rpc("resolve_mobile_money_exception", {
+    _exception_id: exceptionId,
+    _sale_payment_id: salePaymentId,
+    _notes: notes || null,
+  });
+  if (error) throw error;
+  return data as unknown as MobileMoneyException;
+};
+
+/** Asks the provider for the collection account balance, which also proves the credentials work */
+export const fetchMobileMoneyBalance = async (departmentId: string, provider: "mtn" | "airtel") => {
+  const { data, error } = await supabase.functions.invoke("mobile-money-account", {
+    body: { action: "balance", departmentId, provider },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.message || "Balance check failed");
+  return data as { available: number; currency: string; simulated: boolean };
+};
+
+/** Sends a collection that matched no sale back to the payer and closes the exception */
+export const refundMobileMoneyException = async (exceptionId: string, departmentId: string, notes?: string) => {
+  const { data, error } = await supabase.functions.invoke("mobile-money-account", {
+    body: { action: "refund", exceptionId, departmentId, notes },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.message || "Refund failed");
+  return data as { refundId: string };
+};
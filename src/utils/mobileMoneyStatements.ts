@@ -0,0 +1,383 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { format, isValid } from "date-fns";
+import type { AgentProvider } from "@/utils/agentFloat";
+
+export type MobileMoneyStatementImport = Tables<"mobile_money_statement_imports">;
+export type MobileMoneyStatementLine = Tables<"mobile_money_statement_lines">;
+
+export type StatementDirection = "in" | "out";
+export type StatementKind = "cash_in" | "cash_out" | "received" | "sent" | "other";
+export type StatementLineStatus = "unmatched" | "matched" | "created" | "ignored" | "raised";
+
+export const STATEMENT_KIND_LABELS: Record<StatementKind, string> = {
+  cash_in: "Cash in (deposit)",
+  cash_out: "Cash out (withdrawal)",
+  received: "Received",
+  sent: "Sent",
+  other: "Other",
+};
+
+export const STATEMENT_STATUS_LABELS: Record<StatementLineStatus, string> = {
+  unmatched: "Unmatched",
+  matched: "Matched",
+  created: "Added to ledger",
+  ignored: "Ignored",
+  raised: "Discrepancy raised",
+};
+
+/** One statement transaction, as import_mobile_money_statement takes it */
+export interface ParsedStatementLine {
+  transaction_id: string | null;
+  occurred_on: string; // yyyy-MM-dd
+  occurred_at: string | null; // ISO, when the statement gives a time
+  direction: StatementDirection;
+  kind: StatementKind;
+  amount: number;
+  fee: number | null;
+  balance_after: number | null;
+  counterparty_phone: string | null;
+  counterparty_name: string | null;
+  raw_text: string;
+}
+
+export interface StatementParseResult {
+  lines: ParsedStatementLine[];
+  skipped: { text: string; reason: string }[];
+}
+
+const CURRENCY = "(?:UGX|Ush|Shs|USh)\\.?\\s*";
+const AMOUNT_PATTERN = new RegExp(`${CURRENCY}(-?[\\d,]+(?:\\.\\d+)?)`, "i");
+const BALANCE_PATTERN = new RegExp(`(?:new\\s+balance|bal(?:ance)?)\\s*(?:is)?\\s*:?\\s*${CURRENCY}([\\d,]+(?:\\.\\d+)?)`, "i");
+const FEE_PATTERN = new RegExp(`(?:fee|charge)s?\\s*(?:was|is|of)?\\s*:?\\s*${CURRENCY}([\\d,]+(?:\\.\\d+)?)`, "i");
+const COMMISSION_PATTERN = new RegExp(`commission\\s*(?:earned|of)?\\s*:?\\s*${CURRENCY}[\\d,]+(?:\\.\\d+)?`, "i");
+const TRANSACTION_ID_PATTERN =
+  /(?:financial\s+transaction\s+id|transaction\s+id|trans(?:action)?\.?\s*id|txn\s*id|tid|ref(?:erence)?(?:\s+no)?)\s*[:.]?\s*([A-Z0-9][A-Z0-9.]{4,}[A-Z0-9])/i;
+const PHONE_PATTERN = /(?:\+?256|\b0)7\d{8}\b/;
+
+export const parseStatementAmount = (value: string): number | null => {
+  const negative = /^\s*\(.*\)\s*$/.test(value) || /^\s*-/.test(value.replace(/[A-Za-z.\s]+/, ""));
+  const digits = value.replace(/[^\d.]/g, "");
+  if (!digits) return null;
+  const amount = Number(digits);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+/** 256772123456 / +256 772 123456 / 772123456 -> 0772123456 */
+export const normalizeStatementPhone = (value: string | null | undefined): string | null => {
+  const digits = (value || "").replace(/\D/g, "");
+  if (digits.length === 12 && digits.startsWith("256")) return `0${digits.slice(3)}`;
+  if (digits.length === 9 && digits.startsWith("7")) return `0${digits}`;
+  if (digits.length === 10 && digits.startsWith("0")) return digits;
+  return null;
+};
+
+/**
+ * Dates as statements and SMS print them: 2024-01-15 10:23:45, 15/01/2024 10:23 or 15-01-24 10:23 PM.
+ * Slashed dates are day-first, as in Uganda.
+ */
+export const parseStatementDate = (text: string): { occurred_on: string; occurred_at: string | null } | null => {
+  let year: number, month: number, day: number;
+  let time: RegExpMatchArray | null = null;
+
+  const iso = text.match(/(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  const dayFirst = text.match(/(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})(?:[ ,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]M)?)?/i);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    if (iso[4]) time = iso;
+  } else if (dayFirst) {
+    year = Number(dayFirst[3]) < 100 ? 2000 + Number(dayFirst[3]) : Number(dayFirst[3]);
+    [month, day] = [Number(dayFirst[2]), Number(dayFirst[1])];
+    if (dayFirst[4]) time = dayFirst;
+  } else {
+    return null;
+  }
+
+  let hours = time ? Number(time[4]) : 0;
+  if (time?.[7]) {
+    const pm = time[7].toUpperCase() === "PM";
+    hours = (hours % 12) + (pm ? 12 : 0);
+  }
+  const date = new Date(year, month - 1, day, hours, time ? Number(time[5]) : 0, time?.[6] ? Number(time[6]) : 0);
+  if (!isValid(date) || date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+
+  return { occurred_on: format(date, "yyyy-MM-dd"), occurred_at: time ? date.toISOString() : null };
+};
+
+/** What a message or statement row describes, from the wording providers use */
+export const classifyStatementText = (text: string): { kind: StatementKind; direction: StatementDirection } | null => {
+  const lower = text.toLowerCase();
+  if (/cash[\s_-]?in\b|\bdeposit(?:ed)?\b/.test(lower)) return { kind: "cash_in", direction: "out" };
+  if (/cash[\s_-]?out\b|withdraw/.test(lower)) return { kind: "cash_out", direction: "in" };
+  if (/\breceived\b|\bcredited\b|\breceive\b|\bcredit\b/.test(lower)) return { kind: "received", direction: "in" };
+  if (/\bsent\b|\bpaid\b|\bpayment\b|\btransfer(?:red)?\b|\bdebited\b|\bdebit\b/.test(lower)) return { kind: "sent", direction: "out" };
+  return null;
+};
+
+const toNumber = (match: RegExpMatchArray | null) => (match ? parseStatementAmount(match[1]) : null);
+
+/**
+ * Confirmation SMS as MTN MoMo and Airtel Money send them, one message per paragraph (or per line
+ * when there are no blank lines). Messages that aren't transactions are skipped with a reason.
+ */
+export const parseSmsStatement = (text: string, fallbackDate: string): StatementParseResult => {
+  const messages = (/\n\s*\n/.test(text) ? text.split(/\n\s*\n/) : text.split(/\n/))
+    .map((message) => message.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const result: StatementParseResult = { lines: [], skipped: [] };
+  for (const message of messages) {
+    const classification = classifyStatementText(message);
+    if (!classification) {
+      result.skipped.push({ text: message, reason: "Not a transaction message" });
+      continue;
+    }
+
+    // The first amount that isn't the balance, fee or commission is the transaction amount
+    const withoutExtras = message.replace(BALANCE_PATTERN, "").replace(FEE_PATTERN, "").replace(COMMISSION_PATTERN, "");
+    const amount = toNumber(withoutExtras.match(AMOUNT_PATTERN));
+    if (!amount || amount <= 0) {
+      result.skipped.push({ text: message, reason: "No amount found" });
+      continue;
+    }
+
+    const phoneMatch = withoutExtras.match(PHONE_PATTERN);
+    const nameMatch =
+      withoutExtras.match(/(?:from|to)\s+([A-Z][A-Za-z.'-]+(?:\s+[A-Z][A-Za-z.'-]+){0,3})\s*[,(]?\s*(?:\+?256|0)7\d{8}/) ||
+      withoutExtras.match(/(?:\+?256|\b0)7\d{8}\)?\s*[,-]?\s*([A-Z][A-Z.'-]+(?:\s+[A-Z][A-Z.'-]+){0,3})\b/);
+    const date = parseStatementDate(message);
+
+    result.lines.push({
+      transaction_id: message.match(TRANSACTION_ID_PATTERN)?.[1] || null,
+      occurred_on: date?.occurred_on || fallbackDate,
+      occurred_at: date?.occurred_at || null,
+      direction: classification.direction,
+      kind: classification.kind,
+      amount,
+      fee: toNumber(message.match(FEE_PATTERN)),
+      balance_after: toNumber(message.match(BALANCE_PATTERN)),
+      counterparty_phone: normalizeStatementPhone(phoneMatch?.[0]),
+      counterparty_name: nameMatch?.[1]?.trim() || null,
+      raw_text: message,
+    });
+  }
+  return result;
+};
+
+/** Rows of a comma, semicolon or tab separated file, with quoted fields */
+export const parseCsvRows = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const delimiter = [",", ";", "\t"].sort((a, b) => firstLine.split(b).length - firstLine.split(a).length)[0];
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field.trim());
+      if (row.some(Boolean)) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field.trim());
+  if (row.some(Boolean)) rows.push(row);
+  return rows;
+};
+
+// Column names seen in MTN and Airtel statement exports, most specific first
+const CSV_COLUMNS = {
+  id: ["financial transaction id", "transaction id", "txn id", "tid", "id", "reference", "ref", "receipt no"],
+  date: ["transaction date", "date time", "datetime", "date", "time", "timestamp"],
+  type: ["transaction type", "type", "description", "details", "narration", "information"],
+  amount: ["transaction amount", "amount"],
+  credit: ["credit", "credit amount", "money in"],
+  debit: ["debit", "debit amount", "money out"],
+  from: ["from", "sender msisdn", "from msisdn", "sender", "payer"],
+  fromName: ["from name", "sender name", "payer name"],
+  to: ["to", "receiver msisdn", "to msisdn", "receiver", "payee"],
+  toName: ["to name", "receiver name", "payee name"],
+  phone: ["msisdn", "phone number", "phone", "mobile number", "customer number"],
+  balance: ["post balance", "balance after", "closing balance", "balance"],
+  fee: ["fee", "charges", "charge"],
+  status: ["status", "transaction status"],
+};
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const mapCsvColumns = (headers: string[]) => {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<CsvColumn, number>> = {};
+  const used = new Set<number>();
+  for (const [column, names] of Object.entries(CSV_COLUMNS) as [CsvColumn, string[]][]) {
+    for (const name of names) {
+      const index = normalized.findIndex((header, i) => header === name && !used.has(i));
+      if (index >= 0) {
+        columns[column] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+  return columns;
+};
+
+/**
+ * MTN and Airtel statement CSVs. The header row is found among the first rows (exports often start
+ * with account details). Money in or out comes from credit / debit columns, a signed amount, the
+ * transaction type, or which side the line's own number is on.
+ */
+export const parseCsvStatement = (text: string, fallbackDate: string, linePhone?: string | null): StatementParseResult => {
+  const rows = parseCsvRows(text);
+  const result: StatementParseResult = { lines: [], skipped: [] };
+
+  const headerIndex = rows.slice(0, 15).findIndex((row) => {
+    const columns = mapCsvColumns(row);
+    return columns.amount !== undefined || (columns.credit !== undefined && columns.debit !== undefined);
+  });
+  if (headerIndex < 0) {
+    result.skipped.push({ text: rows[0]?.join(", ") || "", reason: "No amount column found" });
+    return result;
+  }
+
+  const columns = mapCsvColumns(rows[headerIndex]);
+  const ownPhone = normalizeStatementPhone(linePhone);
+  const cell = (row: string[], column: CsvColumn) => (columns[column] !== undefined ? row[columns[column]!] || "" : "");
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const rawText = row.join(", ");
+    const status = cell(row, "status");
+    if (/fail|reject|cancel|revers|declin/i.test(status)) {
+      result.skipped.push({ text: rawText, reason: `Status ${status}` });
+      continue;
+    }
+
+    const credit = parseStatementAmount(cell(row, "credit")) || 0;
+    const debit = parseStatementAmount(cell(row, "debit")) || 0;
+    const signed = credit || debit ? credit - Math.abs(debit) : parseStatementAmount(cell(row, "amount"));
+    if (!signed) {
+      result.skipped.push({ text: rawText, reason: "No amount" });
+      continue;
+    }
+
+    const from = normalizeStatementPhone(cell(row, "from"));
+    const to = normalizeStatementPhone(cell(row, "to"));
+    const classification = classifyStatementText(cell(row, "type"));
+
+    let direction: StatementDirection | null = null;
+    if (credit || debit || signed < 0) direction = signed < 0 ? "out" : "in";
+    else if (ownPhone && from === ownPhone) direction = "out";
+    else if (ownPhone && to === ownPhone) direction = "in";
+    else if (classification) direction = classification.direction;
+    if (!direction) {
+      result.skipped.push({ text: rawText, reason: "Can't tell if money came in or went out" });
+      continue;
+    }
+
+    const kind =
+      classification && classification.direction === direction
+        ? classification.kind
+        : direction === "in"
+        ? "received"
+        : "sent";
+    const counterpartyPhone =
+      (direction === "in" ? from : to) || normalizeStatementPhone(cell(row, "phone")) || null;
+    const date = parseStatementDate(cell(row, "date"));
+
+    result.lines.push({
+      transaction_id: cell(row, "id") || null,
+      occurred_on: date?.occurred_on || fallbackDate,
+      occurred_at: date?.occurred_at || null,
+      direction,
+      kind,
+      amount: Math.abs(signed),
+      fee: parseStatementAmount(cell(row, "fee")),
+      balance_after: parseStatementAmount(cell(row, "balance")),
+      counterparty_phone: counterpartyPhone === ownPhone ? null : counterpartyPhone,
+      counterparty_name: cell(row, direction === "in" ? "fromName" : "toName") || null,
+      raw_text: rawText,
+    });
+  }
+  return result;
+};
+
+export interface StatementImportResult {
+  import_id: string;
+  imported: number;
+  duplicates: number;
+  matched: number;
+  unmatched: number;
+}
+
+export const importStatement = async (input: {
+  departmentId: string;
+  lineId: string | null;
+  provider: AgentProvider;
+  source: "csv" | "sms";
+  fileName: string | null;
+  lines: ParsedStatementLine[];
+}) => {
+  const { data, error } = await supabase.rpc("import_mobile_money_statement", {
+    _department_id: input.departmentId,
+    _line_id: input.lineId,
+    _provider: input.provider,
+    _source: input.source,
+    _file_name: input.fileName,
+    _lines: input.lines as unknown as Json,
+  });
+  if (error) throw error;
+  return data as unknown as StatementImportResult;
+};
+
+export const rematchStatement = async (importId: string) => {
+  const { data, error } = await supabase.rpc("rematch_mobile_money_statement", { _import_id: importId });
+  if (error) throw error;
+  return data as number;
+};
+
+export const recordStatementLineInLedger = async (statementLineId: string) => {
+  const { error } = await supabase.rpc("record_statement_line_in_ledger", { _statement_line_id: statementLineId });
+  if (error) throw error;
+};
+
+export const setStatementLineStatus = async (statementLineId: string, status: "ignored" | "unmatched", notes?: string) => {
+  const { error } = await supabase.rpc("set_statement_line_status", {
+    _statement_line_id: statementLineId,
+    _status: status,
+    _notes: notes || null,
+  });
+  if (error) throw error;
+};
+
+/** Raises unmatched lines as one discrepancy on the Reconcile page; returns the reconciliation ID */
+export const raiseStatementDiscrepancy = async (statementLineIds: string[], cashierName: string, notes?: string) => {
+  const { data, error } = await supabase.rpc("raise_statement_discrepancy", {
+    _statement_line_ids: statementLineIds,
+    _cashier_name: cashierName,
+    _notes: notes || null,
+  });
+  if (error) throw error;
+  return data as string;
+};
@@ -1,4 +1,6 @@
 // Mobile-optimized printing utilities for Android with RawBT support
+import { Translator, defaultTranslator } from "@/utils/i18n";
+import { SaleLoyalty, getLoyaltyReceiptLines } from "@/utils/loyalty";
 
 interface ReceiptData {
   receiptNumber: string;
@@ -21,6 +23,7 @@ interface ReceiptData {
   customerName?: string;
   customerPhone?: string;
   departmentName?: string;
+  loyalty?: SaleLoyalty | null;
   businessInfo: {
     name: string;
     address: string;
@@ -29,6 +32,7 @@ interface ReceiptData {
     whatsapp?: string;
   };
   seasonalRemark?: string;
+  translate?: Translator; // Customer-facing labels, English when omitted
 }
 
 // Detect if running on Android
@@ -43,6 +47,7 @@ export const isMobile = (): boolean => {
 
 // Generate plain text receipt for RawBT thermal printers
 export const generatePlainTextReceipt = (data: ReceiptData): string => {
+  const t = data.translate || defaultTranslator;
   const width = 32; // Standard 58mm thermal printer width in characters
   const separator = '='.repeat(width);
   const dottedLine = '-'.repeat(width);
@@ -62,17 +67,17 @@ export const generatePlainTextReceipt = (data: ReceiptData): string => {
   // Header
   receipt += centerText(data.businessInfo.name) + '\n';
   receipt += centerText(data.businessInfo.address) + '\n';
-  receipt += centerText(`Tel: ${data.businessInfo.phone}`) + '\n';
+  receipt += centerText(`${t('receipt.tel')}: ${data.businessInfo.phone}`) + '\n';
   receipt += separator + '\n';
   
   // Receipt info
-  receipt += `Receipt: ${data.receiptNumber}\n`;
-  receipt += `Date: ${data.date}\n`;
+  receipt += `${t('receipt.receipt')}: ${data.receiptNumber}\n`;
+  receipt += `${t('receipt.date')}: ${data.date}\n`;
   if (data.cashierName) {
-    receipt += `Cashier: ${data.cashierName}\n`;
+    receipt += `${t('receipt.cashier')}: ${data.cashierName}\n`;
   }
   if (data.departmentName) {
-    receipt += `Dept: ${data.departmentName}\n`;
+    receipt += `${t('receipt.department')}: ${data.departmentName}\n`;
   }
   receipt += dottedLine + '\n';
   
@@ -97,35 +102,38 @@ export const generatePlainTextReceipt = (data: ReceiptData): string => {
   
   // Totals
   const discount = data.subtotal - data.total + (data.tax || 0);
-  receipt += formatLine('Subtotal:', `${data.subtotal.toLocaleString()} UGX`) + '\n';
+  receipt += formatLine(`${t('receipt.subtotal')}:`, `${data.subtotal.toLocaleString()} UGX`) + '\n';
   if (discount > 0) {
-    receipt += formatLine('Discount:', `-${discount.toLocaleString()} UGX`) + '\n';
+    receipt += formatLine(`${t('receipt.discount')}:`, `-${discount.toLocaleString()} UGX`) + '\n';
   }
   receipt += separator + '\n';
-  receipt += formatLine('TOTAL:', `${data.total.toLocaleString()} UGX`) + '\n';
+  receipt += formatLine(`${t('receipt.grandTotal')}:`, `${data.total.toLocaleString()} UGX`) + '\n';
   receipt += separator + '\n';
   
   // Payment
-  receipt += centerText(`Paid by: ${(data.paymentMethod || 'N/A').toUpperCase()}`) + '\n';
+  receipt += centerText(`${t('receipt.paidBy')}: ${(data.paymentMethod || 'N/A').toUpperCase()}`) + '\n';
   
   // Customer
   if (data.customerName) {
     receipt += dottedLine + '\n';
-    receipt += `Customer: ${data.customerName}\n`;
+    receipt += `${t('receipt.customer')}: ${data.customerName}\n`;
     if (data.customerPhone) {
-      receipt += `Phone: ${data.customerPhone}\n`;
+      receipt += `${t('receipt.phone')}: ${data.customerPhone}\n`;
     }
   }
+  getLoyaltyReceiptLines(data.loyalty, t).forEach((line) => {
+    receipt += `${line}\n`;
+  });
   
   // Footer
   receipt += dottedLine + '\n';
-  receipt += centerText('THANK YOU!') + '\n';
-  receipt += centerText('Visit again') + '\n';
+  receipt += centerText(t('receipt.thankYou')) + '\n';
+  receipt += centerText(t('receipt.visitAgain')) + '\n';
   if (data.seasonalRemark) {
     receipt += centerText(data.seasonalRemark) + '\n';
   }
   if (data.businessInfo.whatsapp) {
-    receipt += centerText(`WhatsApp: ${data.businessInfo.whatsapp}`) + '\n';
+    receipt += centerText(`${t('receipt.whatsapp')}: ${data.businessInfo.whatsapp}`) + '\n';
   }
   receipt += '\n\n\n'; // Feed paper
   
@@ -145,7 +153,7 @@ export const shareReceiptText = async (data: ReceiptData): Promise<boolean> => {
   if (navigator.share) {
     try {
       await navigator.share({
-        title: `Receipt ${data.receiptNumber}`,
+        title: `${(data.translate || defaultTranslator)('receipt.receipt')} ${data.receiptNumber}`,
         text: text,
       });
       return true;
@@ -206,6 +214,7 @@ export const generateReceiptImage = async (data: ReceiptData): Promise<Blob | nu
 
 // Optimized HTML for image generation (cleaner, faster rendering)
 const generateImageOptimizedReceiptHTML = (data: ReceiptData): string => {
+  const t = data.translate || defaultTranslator;
   const discount = data.subtotal - data.total + (data.tax || 0);
   
   return `
@@ -213,13 +222,13 @@ const generateImageOptimizedReceiptHTML = (data: ReceiptData): string => {
       <div style="text-align: center; border-bottom: 2px solid #000; padding-bottom: 10px; margin-bottom: 10px;">
         <div style="font-weight: bold; font-size: 14px;">${data.businessInfo.name}</div>
         <div style="font-size: 11px;">${data.businessInfo.address}</div>
-        <div style="font-size: 11px;">Tel: ${data.businessInfo.phone}</div>
+        <div style="font-size: 11px;">${t('receipt.tel')}: ${data.businessInfo.phone}</div>
       </div>
       
       <div style="margin-bottom: 10px; font-size: 11px;">
-        <div><strong>Receipt:</strong> ${data.receiptNumber}</div>
-        <div><strong>Date:</strong> ${data.date}</div>
-        ${data.cashierName ? `<div><strong>Cashier:</strong> ${data.cashierName}</div>` : ''}
+        <div><strong>${t('receipt.receipt')}:</strong> ${data.receiptNumber}</div>
+        <div><strong>${t('receipt.date')}:</strong> ${data.date}</div>
+        ${data.cashierName ? `<div><strong>${t('receipt.cashier')}:</strong> ${data.cashierName}</div>` : ''}
       </div>
       
       <div style="border-top: 1px dashed #000; border-bottom: 1px dashed #000; padding: 8px 0; margin: 8px 0;">
@@ -230,44 +239,45 @@ const generateImageOptimizedReceiptHTML = (data: ReceiptData): string => {
               <span>x${item.quantity} @ ${item.price.toLocaleString()}</span>
               <span>${item.subtotal.toLocaleString()}</span>
             </div>
-            ${item.scentMixture ? `<div style="font-size: 10px; color: #666; padding-left: 8px;">Scents: ${item.scentMixture}</div>` : ''}
+            ${item.scentMixture ? `<div style="font-size: 10px; color: #666; padding-left: 8px;">${t('receipt.scents')}: ${item.scentMixture}</div>` : ''}
           </div>
         `).join('')}
       </div>
       
       <div style="margin: 10px 0;">
         <div style="display: flex; justify-content: space-between;">
-          <span>Subtotal:</span>
+          <span>${t('receipt.subtotal')}:</span>
           <span>${data.subtotal.toLocaleString()} UGX</span>
         </div>
         ${discount > 0 ? `
           <div style="display: flex; justify-content: space-between;">
-            <span>Discount:</span>
+            <span>${t('receipt.discount')}:</span>
             <span>-${discount.toLocaleString()} UGX</span>
           </div>
         ` : ''}
         <div style="display: flex; justify-content: space-between; font-weight: bold; font-size: 14px; border-top: 2px solid #000; padding-top: 5px; margin-top: 5px;">
-          <span>TOTAL:</span>
+          <span>${t('receipt.grandTotal')}:</span>
           <span>${data.total.toLocaleString()} UGX</span>
         </div>
       </div>
       
       <div style="text-align: center; margin: 10px 0; font-size: 11px;">
-        Paid by: <strong>${(data.paymentMethod || 'N/A').toUpperCase()}</strong>
+        ${t('receipt.paidBy')}: <strong>${(data.paymentMethod || 'N/A').toUpperCase()}</strong>
       </div>
       
       ${data.customerName ? `
         <div style="border-top: 1px dashed #000; padding-top: 8px; font-size: 11px;">
-          Customer: ${data.customerName}
-          ${data.customerPhone ? `<br>Phone: ${data.customerPhone}` : ''}
+          ${t('receipt.customer')}: ${data.customerName}
+          ${data.customerPhone ? `<br>${t('receipt.phone')}: ${data.customerPhone}` : ''}
         </div>
       ` : ''}
+      ${getLoyaltyReceiptLines(data.loyalty, t).map((line) => `<div style="font-size: 11px;">${line}</div>`).join('')}
       
       <div style="text-align: center; border-top: 1px dashed #000; padding-top: 10px; margin-top: 10px;">
-        <div style="font-weight: bold;">THANK YOU!</div>
-        <div style="font-size: 10px;">Visit again</div>
+        <div style="font-weight: bold;">${t('receipt.thankYou')}</div>
+        <div style="font-size: 10px;">${t('receipt.visitAgain')}</div>
         ${data.seasonalRemark ? `<div style="font-size: 10px; margin-top: 5px;">${data.seasonalRemark}</div>` : ''}
-        ${data.businessInfo.whatsapp ? `<div style="font-size: 10px; margin-top: 5px;">WhatsApp: ${data.businessInfo.whatsapp}</div>` : ''}
+        ${data.businessInfo.whatsapp ? `<div style="font-size: 10px; margin-top: 5px;">${t('receipt.whatsapp')}: ${data.businessInfo.whatsapp}</div>` : ''}
       </div>
     </div>
   `;
@@ -275,6 +285,7 @@ const generateImageOptimizedReceiptHTML = (data: ReceiptData): string => {
 
 // Share receipt as image via WhatsApp
 export const shareReceiptAsImage = async (data: ReceiptData, phoneNumber?: string): Promise<boolean> => {
+  const t = data.translate || defaultTranslator;
   try {
     const imageBlob = await generateReceiptImage(data);
     
@@ -287,8 +298,8 @@ export const shareReceiptAsImage = async (data: ReceiptData, phoneNumber?: strin
     // Check if Web Share API supports files
     if (navigator.canShare && navigator.canShare({ files: [file] })) {
       const shareData: ShareData = {
-        title: `Receipt ${data.receiptNumber}`,
-        text: `Receipt from ${data.businessInfo.name}\nTotal: ${data.total.toLocaleString()} UGX`,
+        title: `${t('receipt.receipt')} ${data.receiptNumber}`,
+        text: t('share.receiptImageText', { business: data.businessInfo.name, total: data.total.toLocaleString() }),
         files: [file],
       };
       
@@ -305,7 +316,11 @@ export const shareReceiptAsImage = async (data: ReceiptData, phoneNumber?: strin
     URL.revokeObjectURL(url);
     
     // Open WhatsApp with message
-    const message = `Receipt ${data.receiptNumber} from ${data.businessInfo.name}. Total: ${data.total.toLocaleString()} UGX. Please find the receipt image attached.`;
+    const message = t('share.receiptImage', {
+      number: data.receiptNumber,
+      business: data.businessInfo.name,
+      total: data.total.toLocaleString(),
+    });
     const whatsappUrl = phoneNumber 
       ? `https://wa.me/${phoneNumber.replace(/[^0-9]/g, '')}?text=${encodeURIComponent(message)}`
       : `https://wa.me/?text=${encodeURIComponent(message)}`;
@@ -322,6 +337,7 @@ export const shareReceiptAsImage = async (data: ReceiptData, phoneNumber?: strin
 
 // Generate lightweight HTML receipt (faster than full styled version)
 export const generateLightweightReceiptHTML = (data: ReceiptData): string => {
+  const t = data.translate || defaultTranslator;
   const discount = data.subtotal - data.total + (data.tax || 0);
   
   return `<!DOCTYPE html>
@@ -343,28 +359,29 @@ body { font-family: monospace; font-size: 12px; width: 80mm; padding: 5mm; }
 <body>
 <div class="center bold">${data.businessInfo.name}</div>
 <div class="center">${data.businessInfo.address}</div>
-<div class="center">Tel: ${data.businessInfo.phone}</div>
+<div class="center">${t('receipt.tel')}: ${data.businessInfo.phone}</div>
 <div class="line"></div>
-<div>Receipt: ${data.receiptNumber}</div>
-<div>Date: ${data.date}</div>
-${data.cashierName ? `<div>Cashier: ${data.cashierName}</div>` : ''}
+<div>${t('receipt.receipt')}: ${data.receiptNumber}</div>
+<div>${t('receipt.date')}: ${data.date}</div>
+${data.cashierName ? `<div>${t('receipt.cashier')}: ${data.cashierName}</div>` : ''}
 <div class="line"></div>
 ${data.items.map(item => `
 <div>${item.name}</div>
 <div class="row"><span>x${item.quantity} @ ${item.price.toLocaleString()}</span><span>${item.subtotal.toLocaleString()}</span></div>
-${item.scentMixture ? `<div style="font-size:10px;color:#666;padding-left:5px;">Scents: ${item.scentMixture}</div>` : ''}
+${item.scentMixture ? `<div style="font-size:10px;color:#666;padding-left:5px;">${t('receipt.scents')}: ${item.scentMixture}</div>` : ''}
 `).join('')}
 <div class="line"></div>
-<div class="row"><span>Subtotal:</span><span>${data.subtotal.toLocaleString()} UGX</span></div>
-${discount > 0 ? `<div class="row"><span>Discount:</span><span>-${discount.toLocaleString()} UGX</span></div>` : ''}
+<div class="row"><span>${t('receipt.subtotal')}:</span><span>${data.subtotal.toLocaleString()} UGX</span></div>
+${discount > 0 ? `<div class="row"><span>${t('receipt.discount')}:</span><span>-${discount.toLocaleString()} UGX</span></div>` : ''}
 <div class="line"></div>
-<div class="row total"><span>TOTAL:</span><span>${data.total.toLocaleString()} UGX</span></div>
+<div class="row total"><span>${t('receipt.grandTotal')}:</span><span>${data.total.toLocaleString()} UGX</span></div>
 <div class="line"></div>
-<div class="center">Paid by: ${(data.paymentMethod || 'N/A').toUpperCase()}</div>
-${data.customerName ? `<div class="line"></div><div>Customer: ${data.customerName}</div>` : ''}
+<div class="center">${t('receipt.paidBy')}: ${(data.paymentMethod || 'N/A').toUpperCase()}</div>
+${data.customerName ? `<div class="line"></div><div>${t('receipt.customer')}: ${data.customerName}</div>` : ''}
+${getLoyaltyReceiptLines(data.loyalty, t).map((line) => `<div>${line}</div>`).join('')}
 <div class="line"></div>
-<div class="center bold">THANK YOU!</div>
-${data.businessInfo.whatsapp ? `<div class="center">WhatsApp: ${data.businessInfo.whatsapp}</div>` : ''}
+<div class="center bold">${t('receipt.thankYou')}</div>
+${data.businessInfo.whatsapp ? `<div class="center">${t('receipt.whatsapp')}: ${data.businessInfo.whatsapp}</div>` : ''}
 </body>
 </html>`;
 };
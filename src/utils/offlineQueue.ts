@@ -1,70 +1,217 @@
 import { supabase } from "@/integrations/supabase/client";
+import { createSale, CreateSaleInput } from "@/utils/checkout";
+import { isNetworkError, offlineStore } from "@/utils/offlineStore";
 
-interface QueuedOperation {
+// pending:  waiting to be sent (possibly backing off after a network failure)
+// syncing:  being sent right now
+// conflict: the server refused it (e.g. stock ran out meanwhile) - needs a person to decide
+export type OutboxStatus = "pending" | "syncing" | "conflict";
+
+export type OutboxOperation =
+  | { kind: "create_sale"; payload: CreateSaleInput }
+  | { kind: "insert" | "update" | "delete"; table: string; payload: Record<string, unknown> };
+
+export type OutboxEntry = OutboxOperation & {
+  id: string;
+  label: string;
+  dependsOn: string[]; // Outbox ids that must sync first, e.g. the customer a sale belongs to
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  createdAt: number;
+};
+
+export type ConflictResolution = "retry" | "record_anyway" | "discard";
+
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+// Where the queue lived before the IndexedDB outbox
+const LEGACY_QUEUE_KEY = "offline_sync_queue";
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const backoffMs = (attempts: number) => Math.min(5000 * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+const save = async (entry: OutboxEntry) => {
+  await offlineStore.put("outbox", entry);
+  notify();
+};
+
+const send = async (entry: OutboxEntry) => {
+  if (entry.kind === "create_sale") {
+    await createSale(entry.payload);
+    return;
+  }
+
+  // Use type assertion to bypass strict typing for dynamic table names
+  const table = (supabase as any).from(entry.table);
+  const { error } =
+    entry.kind === "insert"
+      ? await table.insert(entry.payload)
+      : entry.kind === "update"
+        ? await table.update(entry.payload).eq("id", entry.payload.id)
+        : await table.delete().eq("id", entry.payload.id);
+  if (error) throw new Error(error.message);
+};
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number; // New conflicts from this run
+  remaining: number; // Still waiting to be sent
+}
+
+let running: Promise<SyncResult> | null = null;
+let legacyImport: Promise<number> | null = null;
+
+interface LegacyOperation {
   id: string;
   type: "insert" | "update" | "delete";
   table: string;
-  data: any;
+  data: Record<string, unknown>;
   timestamp: number;
 }
 
-const QUEUE_KEY = "offline_sync_queue";
+const importLegacyQueue = async (): Promise<number> => {
+  const stored = localStorage.getItem(LEGACY_QUEUE_KEY);
+  if (!stored) return 0;
+
+  let operations: LegacyOperation[] = [];
+  try {
+    operations = JSON.parse(stored);
+  } catch {
+    console.error("Unreadable offline queue left by an older version:", stored);
+  }
 
+  for (const operation of Array.isArray(operations) ? operations : []) {
+    if (await offlineStore.get<OutboxEntry>("outbox", operation.id)) continue;
+    await offlineStore.put("outbox", {
+      kind: operation.type,
+      table: operation.table,
+      payload: operation.data,
+      id: operation.id,
+      label: `${operation.type} ${operation.table}`,
+      dependsOn: [],
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: 0,
+      lastError: null,
+      createdAt: operation.timestamp || Date.now(),
+    } satisfies OutboxEntry);
+  }
+
+  // Only once everything is in the outbox, so a failure part way through is picked up next start
+  localStorage.removeItem(LEGACY_QUEUE_KEY);
+  notify();
+  return operations.length;
+};
+
+const replay = async (): Promise<SyncResult> => {
+  let synced = 0;
+  let conflicts = 0;
+  const entries = await offlineQueue.getAll();
+  const unsynced = new Set(entries.map((entry) => entry.id));
+
+  for (const entry of entries) {
+    if (entry.status === "conflict") continue;
+    // Dependencies still in the outbox (waiting, backing off or in conflict) hold this one back
+    if (entry.nextAttemptAt > Date.now() || entry.dependsOn.some((id) => unsynced.has(id))) continue;
+
+    await save({ ...entry, status: "syncing" });
+    try {
+      await send(entry);
+      await offlineStore.delete("outbox", entry.id);
+      unsynced.delete(entry.id);
+      synced++;
+      notify();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const attempts = entry.attempts + 1;
+      if (isNetworkError(error)) {
+        await save({ ...entry, status: "pending", attempts, nextAttemptAt: Date.now() + backoffMs(attempts), lastError: message });
+        // Still unreachable - the rest would fail the same way
+        break;
+      }
+      await save({ ...entry, status: "conflict", attempts, lastError: message });
+      conflicts++;
+    }
+  }
+
+  const remaining = (await offlineQueue.getAll()).filter((entry) => entry.status !== "conflict").length;
+  return { synced, conflicts, remaining };
+};
+
+/**
+ * Outbox of changes made while offline, kept in IndexedDB until the server accepts them.
+ * Entries replay oldest first; network failures back off and retry, refusals become conflicts.
+ */
 export const offlineQueue = {
-  add: (operation: Omit<QueuedOperation, "id" | "timestamp">) => {
-    const queue = offlineQueue.getAll();
-    const newOperation: QueuedOperation = {
+  add: async (
+    operation: OutboxOperation,
+    { id = crypto.randomUUID(), label, dependsOn = [] }: { id?: string; label: string; dependsOn?: string[] }
+  ) => {
+    await save({
       ...operation,
-      id: crypto.randomUUID(),
-      timestamp: Date.now(),
-    };
-    queue.push(newOperation);
-    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
-    return newOperation.id;
+      id,
+      label,
+      dependsOn,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: 0,
+      lastError: null,
+      createdAt: Date.now(),
+    });
+    return id;
   },
 
-  getAll: (): QueuedOperation[] => {
-    const stored = localStorage.getItem(QUEUE_KEY);
-    return stored ? JSON.parse(stored) : [];
+  getAll: async (): Promise<OutboxEntry[]> => {
+    const entries = await offlineStore.getAll<OutboxEntry>("outbox");
+    return entries.sort((a, b) => a.createdAt - b.createdAt);
   },
 
-  remove: (id: string) => {
-    const queue = offlineQueue.getAll().filter((op) => op.id !== id);
-    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  remove: async (id: string) => {
+    await offlineStore.delete("outbox", id);
+    notify();
   },
 
-  clear: () => {
-    localStorage.removeItem(QUEUE_KEY);
+  resolve: async (id: string, resolution: ConflictResolution) => {
+    const entry = await offlineStore.get<OutboxEntry>("outbox", id);
+    if (!entry) return;
+    if (resolution === "discard") {
+      await offlineQueue.remove(id);
+      return;
+    }
+    await save({
+      ...entry,
+      ...(resolution === "record_anyway" && entry.kind === "create_sale"
+        ? { payload: { ...entry.payload, allowOversell: true } }
+        : {}),
+      status: "pending",
+      nextAttemptAt: 0,
+      lastError: null,
+    } as OutboxEntry);
   },
 
-  sync: async () => {
-    const queue = offlineQueue.getAll();
-    const results = { success: 0, failed: 0 };
-
-    for (const operation of queue) {
-      try {
-        // Use type assertion to bypass strict typing for dynamic table names
-        const table = (supabase as any).from(operation.table);
-        
-        switch (operation.type) {
-          case "insert":
-            await table.insert(operation.data);
-            break;
-          case "update":
-            await table.update(operation.data).eq("id", operation.data.id);
-            break;
-          case "delete":
-            await table.delete().eq("id", operation.data.id);
-            break;
-        }
-        offlineQueue.remove(operation.id);
-        results.success++;
-      } catch (error) {
-        console.error(`Failed to sync operation ${operation.id}:`, error);
-        results.failed++;
-      }
+  // Moves changes queued by an older version in localStorage into the outbox; runs once per page load
+  importLegacy: () => {
+    if (!legacyImport) legacyImport = importLegacyQueue();
+    return legacyImport;
+  },
+
+  // Only one replay at a time, so two triggers can't send the same entry twice
+  sync: () => {
+    if (!running) {
+      running = replay().finally(() => {
+        running = null;
+      });
     }
+    return running;
+  },
 
-    return results;
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
   },
 };
@@ -0,0 +1,122 @@
+// IndexedDB storage for offline mode: the outbox of changes waiting to sync, and a cached copy of
+// the catalog (products, prices, customers, settings) so the tills can keep selling offline.
+const DB_NAME = "pos-offline";
+const DB_VERSION = 1;
+
+export type OfflineStoreName = "outbox" | "catalog";
+
+interface CatalogEntry<T> {
+  key: string;
+  data: T;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains("outbox")) {
+          db.createObjectStore("outbox", { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains("catalog")) {
+          db.createObjectStore("catalog", { keyPath: "key" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const offlineStore = {
+  get: <T>(storeName: OfflineStoreName, key: string) =>
+    withStore<T | undefined>(storeName, "readonly", (store) => store.get(key)),
+
+  getAll: <T>(storeName: OfflineStoreName) =>
+    withStore<T[]>(storeName, "readonly", (store) => store.getAll()),
+
+  put: <T>(storeName: OfflineStoreName, value: T) =>
+    withStore(storeName, "readwrite", (store) => store.put(value)),
+
+  delete: (storeName: OfflineStoreName, key: string) =>
+    withStore(storeName, "readwrite", (store) => store.delete(key)),
+};
+
+/**
+ * True when a request failed because the server couldn't be reached, as opposed to being refused.
+ * supabase-js reports a failed fetch as an error whose message is the TypeError's.
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : (error as { message?: string })?.message || "";
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+};
+
+interface QueryResult<T> {
+  data: T | null;
+  error: { message: string; code?: string } | null;
+}
+
+/**
+ * Run a Supabase query and keep its result under `key`. When the server can't be reached the last
+ * good result is returned instead, so lists and prices still load offline.
+ */
+export const cachedQuery = async <T>(
+  key: string,
+  query: PromiseLike<QueryResult<T>>
+): Promise<QueryResult<T> & { fromCache: boolean }> => {
+  // Query builders only send the request once awaited, so offline nothing goes out at all
+  if (navigator.onLine) {
+    const result = await query;
+    if (!result.error) {
+      await offlineStore.put<CatalogEntry<T>>("catalog", { key, data: result.data, updatedAt: Date.now() }).catch(() => {});
+      return { data: result.data, error: null, fromCache: false };
+    }
+    if (!isNetworkError(result.error)) {
+      return { data: result.data, error: result.error, fromCache: false };
+    }
+  }
+
+  const cached = await offlineStore.get<CatalogEntry<T>>("catalog", key).catch((): undefined => undefined);
+  if (cached) {
+    return { data: cached.data, error: null, fromCache: true };
+  }
+  return { data: null, error: { message: "You are offline and this hasn't been loaded on this device yet" }, fromCache: false };
+};
+
+/**
+ * Like cachedQuery, for loaders that return a value and throw on failure.
+ */
+export const cachedValue = async <T>(key: string, load: () => Promise<T>): Promise<T> => {
+  const { data, error } = await cachedQuery<T>(key, {
+    then: (onFulfilled, onRejected) =>
+      load()
+        .then((value) => ({ data: value, error: null }), (loadError: Error) => ({ data: null, error: loadError }))
+        .then(onFulfilled, onRejected),
+  });
+  if (error) throw new Error(error.message);
+  return data as T;
+};
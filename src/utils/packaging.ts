@@ -0,0 +1,38 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type PackagingItem = Tables<"packaging_items">;
+
+export type PackagingKind = "bottle" | "atomizer" | "box" | "other";
+
+export const PACKAGING_KIND_LABELS: Record<PackagingKind, string> = {
+  bottle: "Bottle",
+  atomizer: "Atomizer",
+  box: "Box",
+  other: "Other",
+};
+
+export const isPackagingLow = (item: Pick<PackagingItem, "stock" | "min_stock">) =>
+  Number(item.stock || 0) <= Number(item.min_stock || 0);
+
+/** Which refills take this item, e.g. "30ml refills" or "Every refill" */
+export const describePackagingUse = (item: Pick<PackagingItem, "bottle_size_ml" | "quantity_per_refill">) => {
+  const per = item.quantity_per_refill > 1 ? ` (${item.quantity_per_refill} each)` : "";
+  return item.bottle_size_ml ? `${Number(item.bottle_size_ml)}ml refills${per}` : `Every refill${per}`;
+};
+
+/**
+ * Refill sizes configured for the department in perfume_pricing_config.retail_bottle_pricing,
+ * smallest first - the sizes packaging can be linked to.
+ */
+export const fetchRefillSizes = async (departmentId: string): Promise<number[]> => {
+  const { data, error } = await supabase
+    .from("perfume_pricing_config")
+    .select("retail_bottle_pricing")
+    .eq("department_id", departmentId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const sizes = (data?.retail_bottle_pricing as { sizes?: { ml: number }[] } | null)?.sizes || [];
+  return [...new Set(sizes.map((size) => Number(size.ml)).filter((ml) => ml > 0))].sort((a, b) => a - b);
+};
@@ -0,0 +1,166 @@
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeVoucherCode } from "@/utils/giftVouchers";
+
+export type TenderMethod = "cash" | "card" | "mobile_money" | "credit" | "loyalty" | "voucher" | "store_credit";
+
+export interface Tender {
+  id: string;
+  method: TenderMethod;
+  amount: number; // For cash this is what the customer handed over, change included
+  reference?: string; // For vouchers, the voucher code
+  phoneNumber?: string;
+  provider?: "mtn" | "airtel";
+  customerId?: string | null; // Required for credit, loyalty and store credit tenders
+  loyaltyReward?: "points" | "free_refill";
+}
+
+export interface AppliedTender extends Tender {
+  applied: number; // Amount that goes to the sale
+}
+
+export interface TenderSummary {
+  tenders: AppliedTender[];
+  tendered: number;
+  applied: number;
+  remaining: number;
+  change: number;
+  cashApplied: number;
+}
+
+export const TENDER_METHOD_LABELS: Record<TenderMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  mobile_money: "Mobile Money",
+  credit: "Customer Credit",
+  loyalty: "Loyalty Rewards",
+  voucher: "Gift Voucher",
+  store_credit: "Store Credit",
+};
+
+export const createTender = (method: TenderMethod, amount = 0): Tender => ({
+  id: `tender-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  method,
+  amount,
+});
+
+/**
+ * Apply tenders to a sale total. Only cash can exceed what is owed; the excess is change.
+ */
+export const summarizeTenders = (tenders: Tender[], total: number): TenderSummary => {
+  const nonCash = tenders
+    .filter((t) => t.method !== "cash")
+    .reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
+  let cashOwed = Math.max(0, total - nonCash);
+
+  const applied = tenders.map((tender) => {
+    const amount = Number(tender.amount) || 0;
+    if (tender.method !== "cash") return { ...tender, applied: amount };
+    const cash = Math.min(amount, cashOwed);
+    cashOwed -= cash;
+    return { ...tender, applied: cash };
+  });
+
+  const tendered = tenders.reduce((sum, t) => sum + (Number(t.amount) || 0), 0);
+  const appliedTotal = applied.reduce((sum, t) => sum + t.applied, 0);
+  const cashApplied = applied.filter((t) => t.method === "cash").reduce((sum, t) => sum + t.applied, 0);
+
+  return {
+    tenders: applied,
+    tendered,
+    applied: appliedTotal,
+    remaining: Math.max(0, total - appliedTotal),
+    change: Math.max(0, tendered - appliedTotal),
+    cashApplied,
+  };
+};
+
+/**
+ * Returns an error message, or null when the tenders settle the total
+ */
+export const validateTenders = (tenders: Tender[], total: number): string | null => {
+  if (tenders.length === 0) return "Add at least one payment";
+  if (tenders.some((t) => !(Number(t.amount) > 0))) return "Every payment needs an amount";
+
+  const nonCash = tenders.filter((t) => t.method !== "cash").reduce((sum, t) => sum + Number(t.amount), 0);
+  if (nonCash > total) return "Card, mobile money and credit cannot exceed the total";
+
+  const summary = summarizeTenders(tenders, total);
+  if (summary.remaining > 0) return `UGX ${summary.remaining.toLocaleString()} still to pay`;
+
+  if (tenders.some((t) => t.method === "mobile_money" && !t.reference?.trim() && !t.phoneNumber?.trim())) {
+    return "Mobile money needs a phone number or transaction reference";
+  }
+  if (tenders.some((t) => t.method === "credit" && !t.customerId)) {
+    return "Select the customer for the credit payment";
+  }
+  if (tenders.some((t) => t.method === "loyalty" && !t.customerId)) {
+    return "Select the customer redeeming loyalty rewards";
+  }
+  if (tenders.some((t) => t.method === "store_credit" && !t.customerId)) {
+    return "Select the customer using store credit";
+  }
+  if (tenders.some((t) => t.method === "voucher" && !normalizeVoucherCode(t.reference))) {
+    return "Enter or scan the gift voucher code";
+  }
+  return null;
+};
+
+/**
+ * sales.payment_method for a set of tenders
+ */
+export const getSalePaymentMethod = (tenders: Tender[]): TenderMethod | "split" => {
+  const methods = new Set(tenders.map((t) => t.method));
+  if (methods.size === 1) return tenders[0].method;
+  return "split";
+};
+
+/**
+ * The customer a credit, loyalty or store credit tender was taken from, for a sale with no customer picked
+ */
+export const getTenderCustomerId = (tenders: Tender[]): string | null =>
+  tenders.find((t) => (t.method === "credit" || t.method === "loyalty" || t.method === "store_credit") && t.customerId)
+    ?.customerId || null;
+
+/**
+ * sale_payments rows for a set of tenders, without sale_id. Mobile money with no reference
+ * stays pending until the payment request goes through.
+ */
+export const buildSalePaymentRows = (tenders: Tender[], total: number) =>
+  summarizeTenders(tenders, total).tenders
+    .filter((t) => t.applied > 0)
+    .map((t) => ({
+      method: t.method,
+      amount: t.applied,
+      tendered_amount: t.method === "cash" ? Number(t.amount) : null,
+      reference:
+        t.method === "loyalty"
+          ? t.loyaltyReward || "points"
+          : t.method === "voucher"
+            ? normalizeVoucherCode(t.reference)
+            : t.reference?.trim() || null,
+      phone_number: t.phoneNumber?.trim() || null,
+      provider: t.provider || null,
+      customer_id: t.customerId || null,
+      status: t.method === "mobile_money" && !t.reference?.trim() ? "pending" : "completed",
+    }));
+
+/**
+ * Cash taken on completed sales for a department since `from` (and up to `to`).
+ * Uses the payments ledger so split sales only count their cash portion.
+ */
+export const fetchCashCollected = async (departmentId: string, from: string, to?: string): Promise<number> => {
+  let query = supabase
+    .from("sale_payments")
+    .select("amount, sales!inner(department_id, status, created_at)")
+    .eq("method", "cash")
+    .eq("status", "completed")
+    .eq("sales.department_id", departmentId)
+    .eq("sales.status", "completed")
+    .gte("sales.created_at", from);
+
+  if (to) query = query.lte("sales.created_at", to);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).reduce((sum, p) => sum + Number(p.amount || 0), 0);
+};
@@ -0,0 +1,150 @@
+import QRCode from "qrcode";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type PerfumeRecipe = Tables<"perfume_recipes"> & {
+  perfume_recipe_scents?: Tables<"perfume_recipe_scents">[];
+  customers?: Pick<Tables<"customers">, "name"> | null;
+};
+
+/** A recipe as the public QR lookup returns it */
+export interface SharedPerfumeRecipe {
+  id: string;
+  name: string;
+  description: string | null;
+  default_size_ml: number | null;
+  is_house_blend: boolean;
+  customer_id: string | null;
+  customer_name: string | null;
+  department_id: string | null;
+  department_name: string | null;
+  scents: { scent_id: string | null; name: string; ratio: number; percent: number }[];
+}
+
+export interface RecipeScentInput {
+  scentId: string | null;
+  scent: string;
+  ratio: number;
+}
+
+export const RECIPE_SELECT = "*, perfume_recipe_scents(*), customers(name)";
+
+/** Recipe scents in their saved order */
+export const getRecipeScents = (recipe: PerfumeRecipe): RecipeScentInput[] =>
+  [...(recipe.perfume_recipe_scents || [])]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((s) => ({ scentId: s.scent_id, scent: s.scent_name, ratio: Number(s.ratio) }));
+
+/**
+ * Split `totalMl` across the scents by ratio, to 0.1ml. The last scent takes the rounding
+ * difference so the pour always adds up to the bottle size.
+ */
+export const scaleRecipe = <T extends { ratio: number }>(scents: T[], totalMl: number): (T & { ml: number })[] => {
+  const totalRatio = scents.reduce((sum, s) => sum + (s.ratio > 0 ? s.ratio : 0), 0);
+  if (totalRatio <= 0 || totalMl <= 0) return scents.map((s) => ({ ...s, ml: 0 }));
+
+  let allocated = 0;
+  return scents.map((s, index) => {
+    const ml =
+      index === scents.length - 1
+        ? Math.round((totalMl - allocated) * 10) / 10
+        : Math.round(((totalMl * Math.max(0, s.ratio)) / totalRatio) * 10) / 10;
+    allocated += ml;
+    return { ...s, ml };
+  });
+};
+
+export const getRecipePercent = (ratio: number, scents: { ratio: number }[]) => {
+  const total = scents.reduce((sum, s) => sum + s.ratio, 0);
+  return total > 0 ? Math.round((ratio * 1000) / total) / 10 : 0;
+};
+
+/** Scents a scaled pour would run out of, as "Oud (need 12ml, have 8ml)" */
+export const findRecipeShortages = (
+  scaled: { scentId: string | null; scent: string; ml: number }[],
+  stockByScentId: Map<string, number>
+): string[] =>
+  scaled
+    .filter((s) => s.ml > 0)
+    .filter((s) => !s.scentId || s.ml > (stockByScentId.get(s.scentId) ?? 0))
+    .map((s) =>
+      s.scentId && stockByScentId.has(s.scentId)
+        ? `${s.scent} (need ${s.ml}ml, have ${stockByScentId.get(s.scentId)}ml)`
+        : `${s.scent} (not in stock)`
+    );
+
+/** Save a recipe and its scents. Editing replaces the scent lines. */
+export const saveRecipe = async (
+  recipe: {
+    id?: string;
+    departmentId: string;
+    customerId: string | null;
+    isHouseBlend: boolean;
+    name: string;
+    description?: string | null;
+    defaultSizeMl?: number | null;
+    createdBy?: string | null;
+  },
+  scents: RecipeScentInput[]
+): Promise<Tables<"perfume_recipes">> => {
+  if (!recipe.name.trim()) throw new Error("Give the recipe a name");
+  if (!recipe.isHouseBlend && !recipe.customerId) throw new Error("Choose a customer or make it a house blend");
+  if (scents.length === 0 || scents.some((s) => !(s.ratio > 0))) throw new Error("Every scent needs a ratio above zero");
+
+  const values = {
+    department_id: recipe.departmentId,
+    customer_id: recipe.isHouseBlend ? null : recipe.customerId,
+    is_house_blend: recipe.isHouseBlend,
+    name: recipe.name.trim(),
+    description: recipe.description?.trim() || null,
+    default_size_ml: recipe.defaultSizeMl || null,
+  };
+
+  const { data: saved, error } = recipe.id
+    ? await supabase
+        .from("perfume_recipes")
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq("id", recipe.id)
+        .select()
+        .single()
+    : await supabase
+        .from("perfume_recipes")
+        .insert({ ...values, created_by: recipe.createdBy || null })
+        .select()
+        .single();
+  if (error) throw error;
+
+  if (recipe.id) {
+    const { error: deleteError } = await supabase.from("perfume_recipe_scents").delete().eq("recipe_id", saved.id);
+    if (deleteError) throw deleteError;
+  }
+
+  const { error: scentsError } = await supabase.from("perfume_recipe_scents").insert(
+    scents.map((s, index) => ({
+      recipe_id: saved.id,
+      scent_id: s.scentId,
+      scent_name: s.scent,
+      ratio: s.ratio,
+      sort_order: index,
+    }))
+  );
+  if (scentsError) {
+    // A new recipe without scents is useless - don't leave it behind
+    if (!recipe.id) await supabase.from("perfume_recipes").delete().eq("id", saved.id);
+    throw scentsError;
+  }
+
+  return saved;
+};
+
+export const getRecipeUrl = (shareCode: string) =>
+  `${window.location.origin}/customer-scent-memory?recipe=${encodeURIComponent(shareCode)}`;
+
+export const getRecipeQrDataUrl = (shareCode: string) =>
+  QRCode.toDataURL(getRecipeUrl(shareCode), { width: 300, margin: 2 });
+
+export const fetchSharedRecipe = async (shareCode: string): Promise<SharedPerfumeRecipe> => {
+  const { data, error } = await supabase.rpc("get_perfume_recipe", { _share_code: shareCode });
+  if (error) throw new Error(error.message);
+  return data as unknown as SharedPerfumeRecipe;
+};
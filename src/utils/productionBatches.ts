@@ -0,0 +1,151 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { PackagingItem } from "@/utils/packaging";
+import { PerfumeRecipe, getRecipeScents, scaleRecipe } from "@/utils/perfumeRecipes";
+
+export type ProductionBatch = Tables<"production_batches"> & {
+  production_batch_inputs?: Tables<"production_batch_inputs">[];
+};
+
+export const BATCH_SELECT = "*, production_batch_inputs(*)";
+
+export type BatchScent = Pick<Tables<"perfume_scents">, "id" | "name" | "stock_ml" | "cost_per_ml">;
+
+/** One oil or packaging item a batch takes, with what is on hand */
+export interface BatchInput {
+  item_type: "scent" | "packaging";
+  item_id: string;
+  name: string;
+  quantity: number; // ml for scents, units for packaging
+  unitCost: number;
+  available: number;
+}
+
+/**
+ * What `quantity` bottles of `sizeMl` take: the recipe's oils split by ratio across the whole
+ * batch, plus the packaging a refill of that size uses. `missing` lists recipe scents the
+ * department does not stock.
+ */
+export const buildBatchInputs = ({
+  recipe,
+  sizeMl,
+  quantity,
+  scents,
+  packaging,
+}: {
+  recipe: PerfumeRecipe | null | undefined;
+  sizeMl: number;
+  quantity: number;
+  scents: BatchScent[];
+  packaging: PackagingItem[];
+}): { inputs: BatchInput[]; missing: string[] } => {
+  if (!recipe || sizeMl <= 0 || quantity <= 0) return { inputs: [], missing: [] };
+
+  const inputs: BatchInput[] = [];
+  const missing: string[] = [];
+
+  for (const line of scaleRecipe(getRecipeScents(recipe), sizeMl * quantity)) {
+    if (line.ml <= 0) continue;
+    const scent =
+      scents.find((s) => s.id === line.scentId) ||
+      scents.find((s) => s.name.toLowerCase() === line.scent.toLowerCase());
+    if (!scent) {
+      missing.push(line.scent);
+      continue;
+    }
+    inputs.push({
+      item_type: "scent",
+      item_id: scent.id,
+      name: scent.name,
+      quantity: line.ml,
+      unitCost: Number(scent.cost_per_ml || 0),
+      available: Number(scent.stock_ml || 0),
+    });
+  }
+
+  // Same packaging rule as a refill sale: items for this size plus items for every size
+  for (const item of packaging) {
+    if (!item.is_active) continue;
+    if (item.bottle_size_ml && Number(item.bottle_size_ml) !== sizeMl) continue;
+    inputs.push({
+      item_type: "packaging",
+      item_id: item.id,
+      name: item.name,
+      quantity: item.quantity_per_refill * quantity,
+      unitCost: Number(item.cost_price || 0),
+      available: Number(item.stock || 0),
+    });
+  }
+
+  return { inputs, missing };
+};
+
+export const getBatchCost = (inputs: BatchInput[], quantity: number) => {
+  const oil = inputs.filter((i) => i.item_type === "scent").reduce((sum, i) => sum + i.quantity * i.unitCost, 0);
+  const packaging = inputs.filter((i) => i.item_type === "packaging").reduce((sum, i) => sum + i.quantity * i.unitCost, 0);
+  return { oil, packaging, total: oil + packaging, unit: quantity > 0 ? (oil + packaging) / quantity : 0 };
+};
+
+/** Take the inputs and add the finished units in one transaction. Fails if any input is short. */
+export const produceBatch = async (
+  batch: {
+    departmentId: string;
+    recipe: PerfumeRecipe;
+    productId: string;
+    sizeMl: number;
+    quantity: number;
+    notes?: string;
+  },
+  inputs: BatchInput[]
+): Promise<ProductionBatch> => {
+  const { data, error } = await supabase.rpc("produce_batch", {
+    _batch: {
+      department_id: batch.departmentId,
+      recipe_id: batch.recipe.id,
+      recipe_name: batch.recipe.name,
+      product_id: batch.productId,
+      bottle_size_ml: batch.sizeMl,
+      quantity: batch.quantity,
+      notes: batch.notes || null,
+    },
+    _inputs: inputs.map(({ item_type, item_id, name, quantity }) => ({ item_type, item_id, name, quantity })),
+  });
+  if (error) throw error;
+  return data as unknown as ProductionBatch;
+};
+
+/** Barcode Generator with one label per unit queued under the batch code */
+export const getBatchLabelsPath = (batch: Pick<ProductionBatch, "batch_code" | "product_name" | "bottle_size_ml" | "quantity">) =>
+  `/barcode-generator?${new URLSearchParams({
+    code: batch.batch_code,
+    name: `${batch.product_name} ${Number(batch.bottle_size_ml)}ml`,
+    qty: String(batch.quantity),
+  })}`;
+
+export type TracedBatch = ProductionBatch & {
+  production_batch_sales?: (Tables<"production_batch_sales"> & {
+    sales: Pick<Tables<"sales">, "receipt_number" | "created_at"> | null;
+  })[];
+};
+
+export const TRACE_SELECT = "*, production_batch_inputs(*), production_batch_sales(*, sales(receipt_number, created_at))";
+
+/** Batches behind a batch code (from a bottle label) or a receipt number (from a sold bottle) */
+export const findBatchIds = async (term: string): Promise<string[]> => {
+  const code = term.trim();
+  if (!code) return [];
+
+  const { data: batch } = await supabase
+    .from("production_batches")
+    .select("id")
+    .eq("batch_code", code.toUpperCase())
+    .maybeSingle();
+  if (batch) return [batch.id];
+
+  const { data: sale } = await supabase.from("sales").select("id").eq("receipt_number", code).maybeSingle();
+  if (!sale) return [];
+
+  const { data: links, error } = await supabase.from("production_batch_sales").select("batch_id").eq("sale_id", sale.id);
+  if (error) throw error;
+  return [...new Set((links || []).map((link) => link.batch_id))];
+};
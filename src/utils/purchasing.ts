@@ -0,0 +1,147 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { StockItemType } from "@/utils/stockManagement";
+
+export type PurchaseOrderStatus = "draft" | "sent" | "partially_received" | "received" | "cancelled";
+
+export type PurchaseOrder = Tables<"purchase_orders"> & {
+  suppliers?: Pick<Tables<"suppliers">, "name" | "phone" | "email" | "address" | "contact_person"> | null;
+  purchase_order_items?: Tables<"purchase_order_items">[];
+};
+
+export type SupplierPaymentMethod = "cash" | "bank" | "mobile_money" | "cheque";
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+export const SUPPLIER_PAYMENT_METHOD_LABELS: Record<SupplierPaymentMethod, string> = {
+  cash: "Cash",
+  bank: "Bank transfer",
+  mobile_money: "Mobile money",
+  cheque: "Cheque",
+};
+
+/** An item that can go on a purchase order, with the cost it is currently carried at */
+export interface PurchasableItem {
+  key: string;
+  itemType: StockItemType;
+  productId: string | null;
+  variantId: string | null;
+  scentId: string | null;
+  description: string;
+  useMl: boolean;
+  unitCost: number;
+}
+
+export interface PurchaseOrderLineInput {
+  item: PurchasableItem;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface ReceiveLineInput {
+  purchaseOrderItemId: string;
+  quantity: number;
+  unitCost: number;
+}
+
+/**
+ * Products, variants and scents of a department as purchase order options.
+ * Products tracked in ml and scents are ordered in ml.
+ */
+export const buildPurchasableItems = (
+  products: Tables<"products">[],
+  variants: Tables<"product_variants">[],
+  scents: Tables<"perfume_scents">[]
+): PurchasableItem[] => {
+  const productNames = new Map(products.map((p) => [p.id, p]));
+  return [
+    ...products.map((p) => {
+      const useMl = p.tracking_type === "ml";
+      return {
+        key: `product:${p.id}`,
+        itemType: "product" as const,
+        productId: p.id,
+        variantId: null,
+        scentId: null,
+        description: useMl ? `${p.name} (ml)` : p.name,
+        useMl,
+        unitCost: Number((useMl ? p.cost_per_ml : p.cost_price) || 0),
+      };
+    }),
+    ...variants
+      .filter((v) => productNames.has(v.product_id))
+      .map((v) => {
+        const product = productNames.get(v.product_id)!;
+        return {
+          key: `variant:${v.id}`,
+          itemType: "variant" as const,
+          productId: v.product_id,
+          variantId: v.id,
+          scentId: null,
+          description: `${product.name} - ${v.variant_name || v.name}`,
+          useMl: false,
+          unitCost: Number(product.cost_price || 0),
+        };
+      }),
+    ...scents.map((s) => ({
+      key: `scent:${s.id}`,
+      itemType: "scent" as const,
+      productId: null,
+      variantId: null,
+      scentId: s.id,
+      description: `${s.name} (scent, ml)`,
+      useMl: true,
+      unitCost: Number(s.cost_per_ml || 0),
+    })),
+  ];
+};
+
+export const toPurchaseOrderItemRows = (purchaseOrderId: string, lines: PurchaseOrderLineInput[]) =>
+  lines.map(({ item, quantity, unitCost }) => ({
+    purchase_order_id: purchaseOrderId,
+    item_type: item.itemType,
+    product_id: item.productId,
+    variant_id: item.variantId,
+    scent_id: item.scentId,
+    description: item.description,
+    use_ml: item.useMl,
+    quantity_ordered: quantity,
+    unit_cost: unitCost,
+  }));
+
+export const getOutstandingQuantity = (item: Pick<Tables<"purchase_order_items">, "quantity_ordered" | "quantity_received">) =>
+  Math.max(0, Number(item.quantity_ordered) - Number(item.quantity_received || 0));
+
+export const canReceivePurchaseOrder = (status: string) =>
+  status === "draft" || status === "sent" || status === "partially_received";
+
+/**
+ * Post a goods-received note. The database adds the stock through the ledger, moves each item's
+ * cost to the weighted average and marks the order partially or fully received, in one transaction.
+ */
+export const receivePurchaseOrder = async (
+  purchaseOrderId: string,
+  lines: ReceiveLineInput[],
+  notes?: string
+): Promise<string> => {
+  const { data, error } = await supabase.rpc("receive_purchase_order", {
+    _purchase_order_id: purchaseOrderId,
+    _lines: lines
+      .filter((line) => line.quantity > 0)
+      .map((line) => ({
+        purchase_order_item_id: line.purchaseOrderItemId,
+        quantity: line.quantity,
+        unit_cost: line.unitCost,
+      })) as unknown as Json,
+    _notes: notes || undefined,
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+};
@@ -1,3 +1,8 @@
+import { TaxBreakdownRow, formatTaxLabel, getAddedTax, getSaleTaxBreakdown } from "@/utils/tax";
+import { TENDER_METHOD_LABELS, TenderMethod } from "@/utils/payments";
+import { Translator, defaultTranslator, fetchTranslator } from "@/utils/i18n";
+import { SaleLoyalty, getLoyaltyReceiptLines } from "@/utils/loyalty";
+
 interface ReceiptData {
   receiptNumber: string;
   items: Array<{
@@ -10,16 +15,24 @@ interface ReceiptData {
     scentMixture?: string; // Actual scent mixture names
     packingCost?: number; // Packing material cost for perfumes
     isPerfumeRefill?: boolean;
+    discountAmount?: number; // Line discount in UGX (subtotal is before discount)
+    discountLabel?: string; // e.g. "10% Loyal customer"
   }>;
   subtotal: number;
   tax: number;
+  taxBreakdown?: TaxBreakdownRow[];
+  discount?: number;
+  discountReason?: string;
   total: number;
   paymentMethod: string;
+  payments?: Array<{ method: string; amount: number }>; // Tenders of a split payment
+  change?: number;
   date: string;
   cashierName?: string;
   customerName?: string;
   customerPhone?: string;
   departmentName?: string;
+  loyalty?: SaleLoyalty | null; // Points and punch-card after this sale
   businessInfo: {
     name: string;
     address: string;
@@ -32,10 +45,12 @@ interface ReceiptData {
   seasonalRemark?: string;
   qrCodeUrl?: string;
   showBackPage?: boolean;
+  translate?: Translator; // Customer-facing labels, English when omitted
 }
 
 export const generateReceiptHTML = (data: ReceiptData): string => {
-  const discount = data.subtotal - data.total + (data.tax || 0);
+  const t = data.translate || defaultTranslator;
+  const discount = data.discount ?? (data.subtotal - data.total + getAddedTax(data.tax, data.taxBreakdown));
   return `
     <!DOCTYPE html>
     <html>
@@ -224,17 +239,17 @@ export const generateReceiptHTML = (data: ReceiptData): string => {
       </div>
       
       <div class="receipt-info">
-        <div>🧾 Receipt #: ${data.receiptNumber}</div>
-        <div>🕓 Date: ${data.date} | Cashier: ${data.cashierName || 'Staff'}</div>
+        <div>🧾 ${t('receipt.receiptNumber')}: ${data.receiptNumber}</div>
+        <div>🕓 ${t('receipt.date')}: ${data.date} | ${t('receipt.cashier')}: ${data.cashierName || t('receipt.staff')}</div>
       </div>
 
       <table class="items-table">
         <thead>
           <tr>
-            <th style="width: 45%;">Products/Scent</th>
-            <th style="width: 15%;">ml/qty</th>
-            <th style="width: 18%;">Unit</th>
-            <th style="width: 22%;">Total</th>
+            <th style="width: 45%;">${t('receipt.productsScent')}</th>
+            <th style="width: 15%;">${t('receipt.mlQty')}</th>
+            <th style="width: 18%;">${t('receipt.unit')}</th>
+            <th style="width: 22%;">${t('receipt.total')}</th>
           </tr>
         </thead>
         <tbody>
@@ -245,10 +260,16 @@ export const generateReceiptHTML = (data: ReceiptData): string => {
               <td>${(item.price || 0).toLocaleString()}</td>
               <td>${(item.subtotal || 0).toLocaleString()}</td>
             </tr>
+            ${item.discountAmount ? `
+              <tr class="scent-row">
+                <td colspan="3">${t('receipt.discount')}${item.discountLabel ? ` (${item.discountLabel})` : ''}</td>
+                <td>-${item.discountAmount.toLocaleString()}</td>
+              </tr>
+            ` : ''}
             ${item.scentMixture ? `
               <tr class="scent-row">
                 <td colspan="4">
-                  <div class="scent-label">Scents Mixed:</div>
+                  <div class="scent-label">${t('receipt.scentsMixed')}:</div>
                   ${item.scentMixture.split(' + ').map(scent => `
                     <div class="scent-item">+ ${scent.trim()}</div>
                   `).join('')}
@@ -263,39 +284,57 @@ export const generateReceiptHTML = (data: ReceiptData): string => {
       
       <div class="totals">
         <div class="total-row">
-          <span>Subtotal:</span>
+          <span>${t('receipt.subtotal')}:</span>
           <span>${(data.subtotal || 0).toLocaleString()} UGX</span>
         </div>
         <div class="total-row">
-          <span>Discount:</span>
+          <span>${t('receipt.discount')}:</span>
           <span>${(discount || 0).toLocaleString()} UGX</span>
         </div>
+        ${discount > 0 && data.discountReason ? `<div class="total-row" style="font-size: 10px;">${t('receipt.reason')}: ${data.discountReason}</div>` : ''}
+        ${(data.taxBreakdown || []).map(row => `
+          <div class="total-row" style="font-size: 10px;">
+            <span>${t('receipt.taxOn', { tax: formatTaxLabel(row), amount: Math.round(row.taxableAmount).toLocaleString() })}:</span>
+            <span>${row.taxAmount.toLocaleString()} UGX</span>
+          </div>
+        `).join('')}
+        ${!data.taxBreakdown && data.tax ? `
+          <div class="total-row">
+            <span>${t('receipt.tax')}:</span>
+            <span>${data.tax.toLocaleString()} UGX</span>
+          </div>
+        ` : ''}
         <div class="total-row grand">
-          <span>TOTAL PAID:</span>
+          <span>${t('receipt.totalPaid')}:</span>
           <span>${(data.total || 0).toLocaleString()} UGX</span>
         </div>
       </div>
 
       <div class="payment-section">
-        <div class="payment-line">Payment Mode: <strong>${(data.paymentMethod || 'N/A').toUpperCase()}</strong></div>
-        ${data.cashierName ? `<div class="payment-line">Served by: <strong>${data.cashierName}</strong></div>` : ''}
-        <div class="payment-line">Customer: <strong>${data.customerName || 'Walk-in'}</strong></div>
+        <div class="payment-line">${t('receipt.paymentMode')}: <strong>${(data.paymentMethod || 'N/A').toUpperCase()}</strong></div>
+        ${data.payments && data.payments.length > 1 ? data.payments.map((p) => `
+          <div class="payment-line">${(TENDER_METHOD_LABELS[p.method as TenderMethod] || p.method).toUpperCase()}: <strong>${Math.round(p.amount).toLocaleString()} UGX</strong></div>
+        `).join('') : ''}
+        ${data.change ? `<div class="payment-line">${t('receipt.change')}: <strong>${Math.round(data.change).toLocaleString()} UGX</strong></div>` : ''}
+        ${data.cashierName ? `<div class="payment-line">${t('receipt.servedBy')}: <strong>${data.cashierName}</strong></div>` : ''}
+        <div class="payment-line">${t('receipt.customer')}: <strong>${data.customerName || t('receipt.walkIn')}</strong></div>
+        ${getLoyaltyReceiptLines(data.loyalty, t).map((line) => `<div class="payment-line">${line}</div>`).join('')}
       </div>
       
       <div class="footer">
-        <div class="footer-thank">THANK YOU! Visit again.</div>
+        <div class="footer-thank">${t('receipt.thankYou')} ${t('receipt.visitAgain')}.</div>
         ${data.seasonalRemark ? `<div style="margin: 5px 0; font-weight: bold;">🎉 ${data.seasonalRemark} 🎉</div>` : ''}
         ${data.qrCodeUrl ? `
           <div class="qr-section">
-            <div class="qr-label">Scan to connect:</div>
+            <div class="qr-label">${t('receipt.scanToConnect')}:</div>
             <img src="${data.qrCodeUrl}" alt="QR Code" class="qr-code" />
             <div class="contact-info">
-              ${data.businessInfo.whatsapp ? `<div>WhatsApp: ${data.businessInfo.whatsapp}</div>` : ''}
+              ${data.businessInfo.whatsapp ? `<div>${t('receipt.whatsapp')}: ${data.businessInfo.whatsapp}</div>` : ''}
               ${data.businessInfo.website ? `<div>${data.businessInfo.website}</div>` : ''}
             </div>
           </div>
         ` : `
-          ${data.businessInfo.whatsapp ? `<div style="margin-top: 5px;">WhatsApp: ${data.businessInfo.whatsapp}</div>` : ''}
+          ${data.businessInfo.whatsapp ? `<div style="margin-top: 5px;">${t('receipt.whatsapp')}: ${data.businessInfo.whatsapp}</div>` : ''}
         `}
       </div>
       
@@ -451,7 +490,10 @@ export const shareViaWhatsApp = async (receiptData: ReceiptData, phoneNumber?: s
     document.body.removeChild(container);
 
     // Open WhatsApp with a message prompting to share the downloaded PDF
-    const message = `Receipt #${receiptData.receiptNumber} from ${receiptData.businessInfo.name}. Please find the attached PDF receipt.`;
+    const message = (receiptData.translate || defaultTranslator)('share.receipt', {
+      number: receiptData.receiptNumber,
+      business: receiptData.businessInfo.name,
+    });
     const encodedMessage = encodeURIComponent(message);
     const url = phoneNumber
       ? `https://wa.me/${phoneNumber.replace(/[^0-9]/g, '')}?text=${encodedMessage}`
@@ -469,7 +511,7 @@ export const autoPrintReceipt = async (saleId: string, supabase: any): Promise<v
     // Fetch sale details
     const { data: sale, error: saleError } = await supabase
       .from('sales')
-      .select('*, sale_items(*)')
+      .select('*, sale_items(*), sale_payments(*)')
       .eq('id', saleId)
       .single();
 
@@ -509,26 +551,32 @@ export const autoPrintReceipt = async (saleId: string, supabase: any): Promise<v
     }
 
     // Fetch customer info if available
-    let customerName, customerPhone;
+    let customerName, customerPhone, customerLanguage;
     if (sale.customer_id) {
       const { data: customer } = await supabase
         .from('customers')
-        .select('name, phone')
+        .select('name, phone, preferred_language')
         .eq('id', sale.customer_id)
         .single();
 
       if (customer) {
         customerName = customer.name;
         customerPhone = customer.phone;
+        customerLanguage = customer.preferred_language;
       }
     }
 
+    // Customer's language, else the department default
+    const translate = await fetchTranslator({ departmentId: sale.department_id, language: customerLanguage });
+
+    const { data: loyalty } = await supabase.rpc('get_sale_loyalty', { _sale_id: saleId });
+
     // Generate QR code if WhatsApp number is available
     let qrCodeUrl;
     if (settings?.whatsapp_number) {
       try {
         const QRCode = (await import('qrcode')).default;
-        const message = "Hello! I'd like to connect.";
+        const message = translate('share.connect');
         const whatsappUrl = `https://wa.me/${settings.whatsapp_number.replace(/\D/g, "")}?text=${encodeURIComponent(message)}`;
         qrCodeUrl = await QRCode.toDataURL(whatsappUrl, { width: 200, margin: 1 });
       } catch (err) {
@@ -542,13 +590,20 @@ export const autoPrintReceipt = async (saleId: string, supabase: any): Promise<v
         name: item.item_name || item.name,
         quantity: item.quantity,
         price: item.unit_price,
-        subtotal: item.total || item.subtotal,
+        subtotal: (item.total || item.subtotal || 0) + (item.discount_amount || 0),
         scentMixture: item.scent_mixture,
+        discountAmount: item.discount_amount || 0,
+        discountLabel: item.discount_reason || undefined,
       })),
       subtotal: sale.subtotal,
       tax: sale.tax || 0,
+      taxBreakdown: getSaleTaxBreakdown(sale.sale_items),
+      discount: sale.discount || undefined,
+      discountReason: sale.discount_reason || undefined,
       total: sale.total,
       paymentMethod: sale.payment_method,
+      payments: sale.sale_payments,
+      change: sale.change_amount || 0,
       date: new Date(sale.created_at).toLocaleString('en-GB', {
         year: 'numeric',
         month: '2-digit',
@@ -559,6 +614,7 @@ export const autoPrintReceipt = async (saleId: string, supabase: any): Promise<v
       cashierName: sale.cashier_name,
       customerName,
       customerPhone,
+      loyalty,
       businessInfo: {
         name: settings?.business_name || 'DOTCOM BROTHERS LTD',
         address: settings?.business_address || 'Kasangati opp Kasangati Police Station',
@@ -571,6 +627,7 @@ export const autoPrintReceipt = async (saleId: string, supabase: any): Promise<v
       seasonalRemark: settings?.seasonal_remark,
       qrCodeUrl,
       showBackPage: settings?.show_back_page === true,
+      translate,
     };
 
     const printed = await printReceipt(receiptData, false);
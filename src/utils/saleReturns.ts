@@ -0,0 +1,163 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { GiftVoucher } from "@/utils/giftVouchers";
+
+export type ReturnDisposition = "restock" | "write_off";
+export type RefundMethod = "cash" | "card" | "mobile_money" | "credit" | "store_credit" | "voucher";
+
+export interface ReturnLine {
+  saleItemId: string;
+  quantity: number; // In the unit of sale_items.quantity (ml for refills)
+  disposition: ReturnDisposition;
+}
+
+export type ReturnableSale = Tables<"sales"> & { sale_items?: Tables<"sale_items">[] | null };
+
+export interface ReturnableItem {
+  item: Tables<"sale_items">;
+  soldQuantity: number;
+  returnedQuantity: number;
+  remainingQuantity: number;
+  unit: "ml" | "units";
+  paidAmount: number; // What the customer paid for the whole line
+}
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  mobile_money: "Mobile Money",
+  credit: "Reduce customer debt",
+  store_credit: "Store credit",
+  voucher: "Gift voucher",
+};
+
+/**
+ * What the customer actually paid for a line: after line and cart discounts, with added tax.
+ * Sales from before tax snapshots spread the sale total over the line totals.
+ */
+export const getLinePaidAmount = (item: Tables<"sale_items">, sale: ReturnableSale): number => {
+  if (item.tax_treatment) {
+    return (Number(item.taxable_amount) || 0) + (Number(item.tax_amount) || 0);
+  }
+  const lineTotals = (sale.sale_items || []).reduce((sum, i) => sum + (Number(i.total) || 0), 0);
+  const ratio = lineTotals > 0 ? Number(sale.total) / lineTotals : 1;
+  return (Number(item.total) || 0) * ratio;
+};
+
+/**
+ * Lines of a sale with what is left to return after earlier returns
+ */
+export const fetchReturnableItems = async (sale: ReturnableSale): Promise<ReturnableItem[]> => {
+  const items = sale.sale_items || [];
+  const { data: returned } = await supabase
+    .from("sale_return_items")
+    .select("sale_item_id, quantity")
+    .in("sale_item_id", items.map((i) => i.id));
+
+  return items.map((item) => {
+    const returnedQuantity = (returned || [])
+      .filter((r) => r.sale_item_id === item.id)
+      .reduce((sum, r) => sum + Number(r.quantity), 0);
+    const soldQuantity = Number(item.quantity) || 0;
+    return {
+      item,
+      soldQuantity,
+      returnedQuantity,
+      remainingQuantity: Math.max(0, soldQuantity - returnedQuantity),
+      unit: item.scent_mixture || item.ml_amount ? "ml" : "units",
+      paidAmount: getLinePaidAmount(item, sale),
+    };
+  });
+};
+
+/**
+ * Refund for returning `quantity` of a line, pro rata to what was paid
+ */
+export const calculateLineRefund = (returnable: ReturnableItem, quantity: number): number => {
+  if (returnable.soldQuantity <= 0) return 0;
+  return Math.round((returnable.paidAmount * quantity) / returnable.soldQuantity);
+};
+
+/**
+ * Record a return through process_sale_return, which restocks or writes off each line, refunds through a
+ * tender, store credit or a new gift voucher, takes back loyalty earned on the lines and updates the
+ * sale's refund total in one transaction. Returns the saved return for the credit note.
+ */
+export const processSaleReturn = async ({
+  sale,
+  returnables,
+  lines,
+  reason,
+  refundMethod,
+  refundReference,
+  customerId,
+  voucherExpiresAt,
+}: {
+  sale: ReturnableSale;
+  returnables: ReturnableItem[];
+  lines: ReturnLine[];
+  reason: string;
+  refundMethod: RefundMethod;
+  refundReference?: string;
+  customerId?: string | null;
+  voucherExpiresAt?: string | null; // For refunds onto a gift voucher
+}) => {
+  const selected = lines.filter((line) => line.quantity > 0);
+  if (selected.length === 0) throw new Error("Select at least one item to return");
+
+  const { data, error } = await supabase.rpc("process_sale_return", {
+    _sale_id: sale.id,
+    _lines: selected.map((line) => ({
+      sale_item_id: line.saleItemId,
+      quantity: line.quantity,
+      disposition: line.disposition,
+    })),
+    _reason: reason,
+    _refund_method: refundMethod,
+    _refund_reference: refundReference?.trim() || null,
+    _customer_id: customerId || null,
+    _voucher_expires_at: voucherExpiresAt ?? null,
+  });
+  if (error) throw error;
+
+  const result = data as unknown as {
+    sale_return: Tables<"sale_returns">;
+    lines: { sale_item_id: string; quantity: number; amount: number; disposition: ReturnDisposition }[];
+    refund_amount: number;
+    voucher: GiftVoucher | null;
+  };
+
+  return {
+    saleReturn: result.sale_return,
+    lines: result.lines.map((line) => {
+      const returnable = returnables.find((r) => r.item.id === line.sale_item_id);
+      return {
+        name: returnable?.item.item_name || returnable?.item.name || "Item",
+        quantity: Number(line.quantity),
+        unit: returnable?.unit || "units",
+        amount: Number(line.amount),
+        disposition: line.disposition,
+      };
+    }),
+    refundAmount: Number(result.refund_amount),
+    voucher: result.voucher,
+  };
+};
+
+/**
+ * Cash paid out for returns in a department and period (taken out of the drawer)
+ */
+export const fetchCashRefunds = async (departmentId: string, from: string, to?: string): Promise<number> => {
+  let query = supabase
+    .from("sale_returns")
+    .select("refund_amount")
+    .eq("department_id", departmentId)
+    .eq("refund_method", "cash")
+    .gte("created_at", from);
+
+  if (to) query = query.lte("created_at", to);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).reduce((sum, r) => sum + Number(r.refund_amount || 0), 0);
+};
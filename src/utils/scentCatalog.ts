@@ -0,0 +1,136 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ScentCatalogEntry = Tables<"scent_catalog">;
+
+export type ScentGender = "men" | "women" | "unisex";
+
+export const SCENT_GENDERS: Record<ScentGender, string> = {
+  men: "Men",
+  women: "Women",
+  unisex: "Unisex",
+};
+
+const GENDER_SUFFIX = /\b(FOR MEN|FOR WOMEN|POUR HOMME|POUR FEMME|MAN|MEN|WOMAN|WOMEN|HOMME|FEMME)$/;
+
+/** Same as scent_name_gender in the database: "212 VIP (M)" and "212 VIP MAN" are for men */
+export const scentNameGender = (name: string): ScentGender => {
+  const upper = name.trim().toUpperCase();
+  if (/\((M|MAN|MEN|H)\)$/.test(upper) || /\b(MAN|MEN|HOMME|FOR MEN|POUR HOMME)$/.test(upper)) return "men";
+  if (/\((W|F|WOMAN|WOMEN)\)$/.test(upper) || /\b(WOMAN|WOMEN|FEMME|FOR WOMEN|POUR FEMME)$/.test(upper)) return "women";
+  return "unisex";
+};
+
+/** Upper case, "&" as AND, punctuation as spaces - for comparing names typed different ways */
+export const normalizeScentSearch = (text: string) =>
+  text.toUpperCase().replace(/&/g, " AND ").replace(/[^A-Z0-9]+/g, " ").trim();
+
+/** Same as scent_name_key in the database: the name without its gender marker */
+export const scentNameKey = (name: string) => {
+  const key = normalizeScentSearch(name.toUpperCase().replace(/\([^)]*\)/g, " "));
+  const stripped = key.replace(GENDER_SUFFIX, "").trim();
+  return stripped.length >= 3 ? stripped : key;
+};
+
+export const fetchScentCatalog = async (includeInactive = false): Promise<ScentCatalogEntry[]> => {
+  let query = supabase.from("scent_catalog").select("*");
+  if (!includeInactive) query = query.eq("is_active", true);
+  const { data, error } = await query.order("name");
+  if (error) throw error;
+  return data || [];
+};
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * 0-1 for how well a normalized query matches a normalized name: whole name, prefix, substring,
+ * then word by word allowing a typo in words of 4+ letters (two in words of 7+).
+ */
+const scoreName = (query: string, name: string): number => {
+  if (!query || !name) return 0;
+  if (name === query) return 1;
+  if (name.startsWith(query)) return 0.9;
+  if (name.includes(query)) return 0.8;
+
+  const nameWords = name.split(" ");
+  const queryWords = query.split(" ");
+  let total = 0;
+  for (const word of queryWords) {
+    const allowed = word.length >= 7 ? 2 : word.length >= 4 ? 1 : 0;
+    let best = 0;
+    for (const candidate of nameWords) {
+      if (candidate === word) {
+        best = 1;
+        break;
+      }
+      if (candidate.startsWith(word)) {
+        best = Math.max(best, 0.9);
+      } else if (allowed) {
+        // Compare against the same length so a half-typed word with a typo still matches
+        const distance = Math.min(levenshtein(word, candidate), levenshtein(word, candidate.slice(0, word.length)));
+        if (distance <= allowed) best = Math.max(best, 0.75 - distance * 0.1);
+      }
+    }
+    if (best === 0) return 0;
+    total += best;
+  }
+  return (total / queryWords.length) * 0.7;
+};
+
+export interface ScentCatalogMatch {
+  entry: ScentCatalogEntry;
+  score: number;
+  /** The alias that matched, when it was not the catalog name */
+  matchedAlias: string | null;
+}
+
+/** Fuzzy search by name, aliases and misspellings, supplier oil code and brand */
+export const searchScentCatalog = (
+  entries: ScentCatalogEntry[],
+  query: string,
+  limit = 20
+): ScentCatalogMatch[] => {
+  const wanted = normalizeScentSearch(query);
+  if (!wanted) return [];
+
+  const matches: ScentCatalogMatch[] = [];
+  for (const entry of entries) {
+    if (entry.supplier_oil_code && normalizeScentSearch(entry.supplier_oil_code) === wanted) {
+      matches.push({ entry, score: 1, matchedAlias: null });
+      continue;
+    }
+
+    let score = scoreName(wanted, normalizeScentSearch(entry.name));
+    let matchedAlias: string | null = null;
+    for (const alias of entry.aliases || []) {
+      const aliasScore = scoreName(wanted, normalizeScentSearch(alias)) * 0.95;
+      if (aliasScore > score) {
+        score = aliasScore;
+        matchedAlias = alias;
+      }
+    }
+    if (entry.inspired_by_brand) {
+      score = Math.max(score, scoreName(wanted, normalizeScentSearch(entry.inspired_by_brand)) * 0.6);
+    }
+
+    if (score > 0) matches.push({ entry, score, matchedAlias });
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, limit);
+};
+
+/** "Bergamot, Pepper" -> ["BERGAMOT", "PEPPER"] for the note pyramid and alias inputs */
+export const parseCatalogList = (text: string): string[] =>
+  Array.from(new Set(text.split(",").map((item) => item.trim().toUpperCase()).filter(Boolean)));
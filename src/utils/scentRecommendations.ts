@@ -0,0 +1,304 @@
+/**
+ * Rule-based scent recommendations, computed locally from the department's own data:
+ * which scents are mixed together in past sales, the customer's favourites, what is in
+ * stock, and the fragrance notes tagged on each scent.
+ */
+
+export interface RecommendableScent {
+  id: string;
+  name: string;
+  stock_ml: number | null;
+  notes?: string[] | null;
+}
+
+/** Fragrance families and the name keywords used to guess them for untagged scents */
+export const SCENT_NOTE_KEYWORDS: Record<string, string[]> = {
+  woody: ["OUD", "SANDALWOOD", "CEDAR", "VETIVER", "WOOD", "WOODY", "PATCHOULI"],
+  floral: ["ROSE", "JASMINE", "LILY", "TUBEROSE", "PEONY", "ORCHID", "FLOWER", "FLORAL", "VIOLET", "IRIS", "NEROLI", "LAVENDER"],
+  citrus: ["LEMON", "LIME", "ORANGE", "BERGAMOT", "GRAPEFRUIT", "CITRUS", "MANDARIN"],
+  fresh: ["AQUA", "OCEAN", "MARINE", "SEA", "FRESH", "COOL", "ICE", "SPORT", "BREEZE"],
+  sweet: ["VANILLA", "CANDY", "CARAMEL", "HONEY", "SUGAR", "CHOCOLATE", "SWEET", "COTTON"],
+  amber: ["AMBER", "INCENSE", "BAKHOOR", "ARABIAN", "OUD", "ORIENTAL"],
+  spicy: ["SPICE", "SPICY", "PEPPER", "CINNAMON", "SAFFRON", "CARDAMOM", "GINGER", "CLOVE"],
+  fruity: ["APPLE", "BERRY", "PEACH", "MANGO", "PEAR", "CHERRY", "FRUIT", "COCONUT", "STRAWBERRY", "PINEAPPLE", "MELON"],
+  green: ["TEA", "GRASS", "MINT", "HERB", "LEAF", "BAMBOO", "GREEN", "BASIL"],
+  musky: ["MUSK", "POWDER", "CLEAN", "SOAP", "BABY"],
+  leather: ["LEATHER", "TOBACCO", "SMOKE", "SMOKY"],
+};
+
+export const SCENT_NOTES = Object.keys(SCENT_NOTE_KEYWORDS);
+
+/** Scents with less than this are never suggested */
+export const MIN_RECOMMEND_STOCK_ML = 5;
+
+export const normalizeScentName = (name: string) => name.trim().toUpperCase().replace(/\s+/g, " ");
+
+/** Notes implied by a scent's name, e.g. "ROSE OUD" -> floral, woody, amber */
+export const guessScentNotes = (name: string): string[] => {
+  const words = new Set(normalizeScentName(name).split(/[^A-Z]+/).filter(Boolean));
+  return SCENT_NOTES.filter((note) => SCENT_NOTE_KEYWORDS[note].some((keyword) => words.has(keyword)));
+};
+
+/** Tagged notes, or notes guessed from the name when the scent has not been tagged yet */
+export const getScentNotes = (scent: Pick<RecommendableScent, "name" | "notes">): string[] =>
+  scent.notes && scent.notes.length > 0 ? scent.notes : guessScentNotes(scent.name);
+
+/** "ROSE (10ml) + OUD (5ml)" -> ["ROSE", "OUD"] */
+export const parseScentMixture = (mixture: string | null | undefined): string[] =>
+  (mixture || "")
+    .split(" + ")
+    .map((part) => part.replace(/\s*\(\d+(\.\d+)?ml\)/i, "").trim())
+    .filter(Boolean);
+
+export interface ScentSalesStats {
+  /** Mixtures each scent appeared in, keyed by normalized name */
+  counts: Map<string, number>;
+  /** Mixtures containing both scents */
+  pairs: Map<string, Map<string, number>>;
+  /** Distinct blends (same scents in any order) with how often they were sold */
+  blends: { scents: string[]; count: number }[];
+  maxCount: number;
+}
+
+export const buildScentSalesStats = (mixtures: (string | null)[]): ScentSalesStats => {
+  const counts = new Map<string, number>();
+  const pairs = new Map<string, Map<string, number>>();
+  const blends = new Map<string, { scents: string[]; count: number }>();
+
+  for (const mixture of mixtures) {
+    const names = Array.from(new Set(parseScentMixture(mixture).map(normalizeScentName)));
+    if (names.length === 0) continue;
+
+    for (const name of names) {
+      counts.set(name, (counts.get(name) || 0) + 1);
+      for (const other of names) {
+        if (other === name) continue;
+        const row = pairs.get(name) || new Map<string, number>();
+        row.set(other, (row.get(other) || 0) + 1);
+        pairs.set(name, row);
+      }
+    }
+
+    if (names.length > 1) {
+      const key = [...names].sort().join("|");
+      const blend = blends.get(key) || { scents: names, count: 0 };
+      blend.count += 1;
+      blends.set(key, blend);
+    }
+  }
+
+  return {
+    counts,
+    pairs,
+    blends: Array.from(blends.values()).sort((a, b) => b.count - a.count),
+    maxCount: Math.max(0, ...counts.values()),
+  };
+};
+
+export interface ScentQuery {
+  /** Scents named in "similar to X" / "like X" - these may be out of stock */
+  anchors: RecommendableScent[];
+  /** Note words in the query, e.g. "woody floral" */
+  notes: string[];
+  /** Anything else, matched against scent names */
+  text: string;
+}
+
+const findScentByName = (scents: RecommendableScent[], text: string): RecommendableScent | undefined => {
+  const wanted = normalizeScentName(text);
+  if (!wanted) return undefined;
+  const words = wanted.split(" ");
+  return (
+    scents.find((s) => normalizeScentName(s.name) === wanted) ||
+    scents.find((s) => normalizeScentName(s.name).includes(wanted)) ||
+    scents.find((s) => words.every((word) => normalizeScentName(s.name).includes(word)))
+  );
+};
+
+const matchNote = (word: string) =>
+  word.length >= 4 ? SCENT_NOTES.find((note) => note.startsWith(word.slice(0, 4))) : undefined;
+
+export const parseScentQuery = (query: string, scents: RecommendableScent[]): ScentQuery => {
+  const lower = query.trim().toLowerCase();
+  const similar = lower.match(/(?:similar to|same as|like)\s+(.+)$/);
+  if (similar) {
+    const anchor = findScentByName(scents, similar[1]);
+    if (anchor) return { anchors: [anchor], notes: [], text: "" };
+  }
+
+  const notes: string[] = [];
+  const rest: string[] = [];
+  for (const word of lower.replace(/^(?:something|anything)\s+/, "").split(/[\s,&+]+/).filter(Boolean)) {
+    const note = matchNote(word);
+    if (note) {
+      if (!notes.includes(note)) notes.push(note);
+    } else if (!["and", "with", "a", "bit", "more", "scent", "smell"].includes(word)) {
+      rest.push(word);
+    }
+  }
+  // A lone scent name is treated as "similar to" it
+  const anchor = notes.length === 0 && rest.length > 0 ? findScentByName(scents, rest.join(" ")) : undefined;
+  if (anchor) return { anchors: [anchor], notes: [], text: "" };
+
+  return { anchors: [], notes, text: rest.join(" ") };
+};
+
+export interface ScentRecommendation {
+  scent: RecommendableScent;
+  score: number;
+  reasons: string[];
+}
+
+export interface RecommendScentsOptions {
+  /** Every active scent in the department - out-of-stock ones can still be "similar to" anchors */
+  scents: RecommendableScent[];
+  stats: ScentSalesStats;
+  /** Scents already in the bottle */
+  selected?: string[];
+  /** The customer's preferred scents */
+  preferred?: string[];
+  query?: string;
+  minStockMl?: number;
+  limit?: number;
+}
+
+const titleCase = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export const recommendScents = ({
+  scents,
+  stats,
+  selected = [],
+  preferred = [],
+  query = "",
+  minStockMl = MIN_RECOMMEND_STOCK_ML,
+  limit = 8,
+}: RecommendScentsOptions): ScentRecommendation[] => {
+  const parsed = parseScentQuery(query, scents);
+  const byName = new Map(scents.map((s) => [normalizeScentName(s.name), s]));
+  const selectedKeys = selected.map(normalizeScentName);
+  const preferredKeys = preferred.map(normalizeScentName);
+  const anchorKeys = parsed.anchors.map((s) => normalizeScentName(s.name));
+  const companions = Array.from(new Set([...selectedKeys, ...anchorKeys]));
+
+  const notesOf = (key: string) => {
+    const scent = byName.get(key);
+    return scent ? getScentNotes(scent) : guessScentNotes(key);
+  };
+  const targetNotes = new Set([...parsed.notes, ...companions.flatMap(notesOf)]);
+  const preferredNotes = new Set(preferredKeys.flatMap(notesOf));
+  const text = normalizeScentName(parsed.text);
+
+  const recommendations: ScentRecommendation[] = [];
+  for (const scent of scents) {
+    const key = normalizeScentName(scent.name);
+    if ((scent.stock_ml || 0) < minStockMl) continue;
+    if (companions.includes(key)) continue;
+    if (text && !key.includes(text)) continue;
+
+    const notes = getScentNotes(scent);
+    const reasons: string[] = [];
+    let score = 0;
+
+    // How often this scent goes into the same bottle as the ones chosen
+    let bestPair: { name: string; count: number } | null = null;
+    for (const companion of companions) {
+      const together = stats.pairs.get(companion)?.get(key) || 0;
+      if (!together) continue;
+      score += (together / (stats.counts.get(companion) || 1)) * 3;
+      if (!bestPair || together > bestPair.count) bestPair = { name: companion, count: together };
+    }
+    if (bestPair) reasons.push(`Mixed with ${bestPair.name} ${bestPair.count}×`);
+
+    if (targetNotes.size > 0 && notes.length > 0) {
+      const shared = notes.filter((note) => targetNotes.has(note));
+      if (shared.length > 0) {
+        const union = new Set([...notes, ...targetNotes]).size;
+        score += (shared.length / union) * 2;
+        reasons.push(
+          parsed.anchors.length > 0
+            ? `${shared.map(titleCase).join(", ")} like ${parsed.anchors[0].name}`
+            : `${shared.map(titleCase).join(", ")}`
+        );
+      }
+    }
+
+    if (preferredKeys.includes(key)) {
+      score += 2;
+      reasons.push("Customer favourite");
+    } else {
+      let withFavourite = 0;
+      for (const favourite of preferredKeys) {
+        withFavourite += (stats.pairs.get(favourite)?.get(key) || 0) / (stats.counts.get(favourite) || 1);
+      }
+      if (withFavourite > 0) {
+        score += withFavourite;
+        reasons.push("Goes with customer's favourites");
+      } else if (notes.some((note) => preferredNotes.has(note))) {
+        score += 0.5;
+        reasons.push("Customer's style");
+      }
+    }
+
+    // Asked for notes or a similar scent but this one shares nothing - skip it
+    if ((parsed.notes.length > 0 || parsed.anchors.length > 0) && reasons.length === 0) continue;
+
+    const sold = stats.counts.get(key) || 0;
+    if (sold > 0 && stats.maxCount > 0) {
+      score += (sold / stats.maxCount) * 0.5;
+      if (reasons.length === 0) reasons.push(`Popular - in ${sold} mixes`);
+    }
+
+    if (score > 0 || text) {
+      recommendations.push({ scent, score, reasons });
+    }
+  }
+
+  return recommendations
+    .sort((a, b) => b.score - a.score || a.scent.name.localeCompare(b.scent.name))
+    .slice(0, limit);
+};
+
+export interface ScentCombination {
+  name: string;
+  scents: string[];
+  count: number;
+}
+
+/** Best-selling real blends where every scent is in stock, favouring the customer's favourites */
+export const suggestCombinations = ({
+  scents,
+  stats,
+  preferred = [],
+  minStockMl = MIN_RECOMMEND_STOCK_ML,
+  limit = 4,
+}: Pick<RecommendScentsOptions, "scents" | "stats" | "preferred" | "minStockMl" | "limit">): ScentCombination[] => {
+  const inStock = new Map(
+    scents
+      .filter((s) => (s.stock_ml || 0) >= minStockMl)
+      .map((s) => [normalizeScentName(s.name), s])
+  );
+  const preferredKeys = new Set(preferred.map(normalizeScentName));
+
+  return stats.blends
+    .filter((blend) => blend.scents.every((name) => inStock.has(name)))
+    .map((blend) => ({
+      blend,
+      rank: blend.count * (blend.scents.some((name) => preferredKeys.has(name)) ? 2 : 1),
+    }))
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, limit)
+    .map(({ blend }) => {
+      const members = blend.scents.map((name) => inStock.get(name) as RecommendableScent);
+      const noteCounts = new Map<string, number>();
+      members.flatMap(getScentNotes).forEach((note) => noteCounts.set(note, (noteCounts.get(note) || 0) + 1));
+      const topNotes = Array.from(noteCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 2)
+        .map(([note]) => titleCase(note));
+      return {
+        name: topNotes.length > 0 ? topNotes.join(" & ") : "Best seller",
+        scents: members.map((s) => s.name),
+        count: blend.count,
+      };
+    });
+};
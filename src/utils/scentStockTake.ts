@@ -0,0 +1,114 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export interface StockTakeLine {
+  scentId: string;
+  scentName: string;
+  emptyWeight: number;
+  weight: number;
+  density: number;
+  expectedMl: number;
+  countedMl: number;
+}
+
+export interface StockTakeSettings {
+  varianceTolerancePercent: number; // Of the expected stock
+  varianceToleranceMl: number; // Floor, so nearly-empty bottles don't trip the percentage
+  suspendShrinkage: boolean; // Send shrinkage over tolerance to suspended revenue
+}
+
+export const DEFAULT_STOCK_TAKE_SETTINGS: StockTakeSettings = {
+  varianceTolerancePercent: 2,
+  varianceToleranceMl: 5,
+  suspendShrinkage: true,
+};
+
+/**
+ * Read settings_json.stockTake, e.g. getStockTakeSettings(departmentSettings, globalSettings).
+ * Earlier rows win key by key, like get_stock_take_settings.
+ */
+export const getStockTakeSettings = (...settingsRows: { settings_json?: unknown }[]): StockTakeSettings => {
+  const saved = settingsRows
+    .map((row) => (row?.settings_json as Record<string, Partial<StockTakeSettings>> | undefined)?.stockTake)
+    .filter(Boolean)
+    .reverse();
+  return Object.assign({}, DEFAULT_STOCK_TAKE_SETTINGS, ...saved);
+};
+
+export type ScentVarianceRow = Tables<"scent_variance_history">;
+
+export interface RepeatShrinkage {
+  key: string;
+  name: string;
+  counts: number; // Stock-takes with shrinkage over tolerance
+  shrinkageMl: number;
+  shrinkageValue: number;
+}
+
+/**
+ * Scents or counters whose shrinkage went over tolerance on at least `minCount` stock-takes.
+ * Worst value first.
+ */
+export const findRepeatShrinkage = (
+  rows: ScentVarianceRow[],
+  by: "scent" | "staff",
+  minCount: number = 2
+): RepeatShrinkage[] => {
+  const groups = new Map<string, RepeatShrinkage & { takes: Set<string> }>();
+  for (const row of rows) {
+    if (!row.over_tolerance) continue;
+    const key = by === "scent" ? row.scent_id || row.scent_name : row.counted_by;
+    if (!key) continue;
+    const group = groups.get(key) || {
+      key,
+      name: (by === "scent" ? row.scent_name : row.counted_by_name) || "Unknown",
+      counts: 0,
+      shrinkageMl: 0,
+      shrinkageValue: 0,
+      takes: new Set<string>(),
+    };
+    group.takes.add(row.stock_take_id || "");
+    group.counts = group.takes.size;
+    group.shrinkageMl += -(Number(row.variance_ml) || 0);
+    group.shrinkageValue += -(Number(row.variance_value) || 0);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .filter((group) => group.counts >= minCount)
+    .map(({ key, name, counts, shrinkageMl, shrinkageValue }) => ({
+      key,
+      name,
+      counts,
+      shrinkageMl: Math.round(shrinkageMl * 10) / 10,
+      shrinkageValue,
+    }))
+    .sort((a, b) => b.shrinkageValue - a.shrinkageValue);
+};
+
+/** Grams of oil over density, to 0.1ml. post_scent_stock_take rounds the same way. */
+export const calculateScentMl = (emptyWeight: number, currentWeight: number, density: number) => {
+  if (!(density > 0) || currentWeight <= emptyWeight) return 0;
+  return Math.round(((currentWeight - emptyWeight) / density) * 10) / 10;
+};
+
+export const getStockTakeVariance = (line: Pick<StockTakeLine, "expectedMl" | "countedMl">) =>
+  Math.round((line.countedMl - line.expectedMl) * 10) / 10;
+
+/** Post every weighed scent as one stock-take. Returns the stock-take id. */
+export const postScentStockTake = async (departmentId: string, lines: StockTakeLine[], notes?: string) => {
+  if (lines.length === 0) throw new Error("Weigh at least one scent");
+
+  const { data, error } = await supabase.rpc("post_scent_stock_take", {
+    _department_id: departmentId,
+    _lines: lines.map((line) => ({
+      scent_id: line.scentId,
+      empty_bottle_weight_g: line.emptyWeight,
+      weight_g: line.weight,
+      density: line.density,
+    })),
+    _notes: notes?.trim() || undefined,
+  });
+  if (error) throw new Error(error.message);
+  return data;
+};
@@ -63,7 +63,103 @@ interface ScentUsage {
   ml: number;
 }
 
-interface CartItem {
+export type StockItemType = "product" | "variant" | "scent" | "packaging";
+
+export type StockMovementType =
+  | "sale"
+  | "void"
+  | "return"
+  | "receipt_edit"
+  | "adjustment"
+  | "internal_use"
+  | "transfer"
+  | "purchase_receipt"
+  | "opening"
+  | "production";
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  sale: "Sale",
+  void: "Void",
+  return: "Return",
+  receipt_edit: "Receipt edit",
+  adjustment: "Adjustment",
+  internal_use: "Internal use",
+  transfer: "Transfer",
+  purchase_receipt: "Purchase receipt",
+  opening: "Opening balance",
+  production: "Production",
+};
+
+/** What caused a movement, e.g. { type: "sale", id: sale.id } */
+export interface StockReference {
+  type: string;
+  id?: string | null;
+  notes?: string;
+}
+
+export interface StockMovementInput {
+  itemType: StockItemType;
+  itemId: string;
+  movementType: StockMovementType;
+  quantity?: number; // Signed: negative takes stock out
+  newBalance?: number; // Set a counted balance instead of applying a quantity
+  useMl?: boolean; // Products: change total_ml instead of stock
+  reference?: StockReference;
+}
+
+/**
+ * Change a stock balance through the stock_movements ledger. The database locks the row,
+ * applies the change and records the movement in one transaction.
+ */
+export const applyStockMovement = async ({
+  itemType,
+  itemId,
+  movementType,
+  quantity,
+  newBalance,
+  useMl = false,
+  reference,
+}: StockMovementInput) => {
+  const { data, error } = await supabase.rpc("apply_stock_movement", {
+    _item_type: itemType,
+    _item_id: itemId,
+    _movement_type: movementType,
+    _quantity: quantity,
+    _new_balance: newBalance,
+    _use_ml: useMl,
+    _reference_type: reference?.type,
+    _reference_id: reference?.id || undefined,
+    _notes: reference?.notes,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Find a scent by id, or by name within the department (each department keeps its own scents)
+ */
+const findScentId = async (scent: ScentUsage, departmentId: string | null): Promise<string | null> => {
+  if (scent.scentId) {
+    const { data } = await supabase.from("perfume_scents").select("id").eq("id", scent.scentId).maybeSingle();
+    if (data) return data.id;
+  }
+
+  if (!departmentId || departmentId === "null" || departmentId === "undefined") {
+    console.error(`❌ Cannot find scent "${scent.scent}": No valid department ID provided`);
+    return null;
+  }
+
+  // Exact name first, then aliases and near-identical spellings through the scent catalog
+  const { data: scentByName } = await supabase.rpc("find_department_scent", {
+    _department_id: departmentId,
+    _name: scent.scent,
+  });
+
+  return scentByName || null;
+};
+
+export interface CartItem {
   id: string;
   name?: string;
   productId?: string;
@@ -84,7 +180,8 @@ interface CartItem {
 export const reduceStock = async (
   cartItems: CartItem[],
   departmentId: string,
-  isDemoMode: boolean = false
+  isDemoMode: boolean = false,
+  reference: StockReference = { type: "sale" }
 ): Promise<{ success: boolean; error?: string }> => {
   try {
     if (isDemoMode) {
@@ -95,17 +192,6 @@ export const reduceStock = async (
     console.log("Starting stock reduction for", cartItems.length, "items");
 
     for (const item of cartItems) {
-      console.log("Processing cart item:", {
-        id: item.id,
-        name: item.name,
-        productId: item.productId,
-        variantId: item.variantId,
-        quantity: item.quantity,
-        trackingType: item.trackingType,
-        totalMl: item.totalMl,
-        isPerfumeRefill: item.isPerfumeRefill
-      });
-
       // Skip services (no stock to deduct)
       if (!item.productId && !item.variantId && !item.isPerfumeRefill) {
         console.log("Skipping item (service or no productId):", item.name);
@@ -113,95 +199,39 @@ export const reduceStock = async (
       }
 
       if (item.variantId) {
-        console.log(`Deducting variant stock for: ${item.name}, quantity: ${item.quantity}`);
-        await reduceVariantStock(item.variantId, item.quantity);
+        await applyStockMovement({
+          itemType: "variant",
+          itemId: item.variantId,
+          movementType: "sale",
+          quantity: -item.quantity,
+          reference,
+        });
       } else if ((item.isPerfumeRefill || item.type === "perfume") && item.totalMl) {
         // Deduct from individual scent stock_ml values
-        console.log(`🧴 Deducting perfume refill stock: ${item.totalMl}ml total from ${item.selectedScents?.length || 0} scents`);
-        console.log("Selected scents:", JSON.stringify(item.selectedScents));
-        
-        if (item.selectedScents && item.selectedScents.length > 0) {
-          // Deduct from each selected scent
-          for (const scent of item.selectedScents) {
-            console.log(`Processing scent: ${scent.scent}, scentId: ${scent.scentId}, ml: ${scent.ml}`);
-            
-            if (scent.scentId && scent.ml > 0) {
-              const { data: scentData, error: fetchError } = await supabase
-                .from("perfume_scents")
-                .select("id, name, stock_ml")
-                .eq("id", scent.scentId)
-                .single();
-              
-              if (fetchError) {
-                console.error(`❌ Error fetching scent by ID ${scent.scentId}:`, fetchError);
-                // Fallback to name search
-                console.log(`Trying fallback search by name: ${scent.scent}`);
-              }
-              
-              if (scentData) {
-                const currentMl = scentData.stock_ml ?? 0;
-                const newMl = Math.max(0, currentMl - scent.ml);
-                console.log(`✅ Scent ${scentData.name}: Current=${currentMl}ml, Deducting=${scent.ml}ml, New=${newMl}ml`);
-                
-                const { error: updateError } = await supabase
-                  .from("perfume_scents")
-                  .update({ stock_ml: newMl })
-                  .eq("id", scent.scentId);
-                
-                if (updateError) {
-                  console.error(`❌ Error updating scent ${scentData.name}:`, updateError);
-                } else {
-                  console.log(`✅ Scent ${scentData.name} stock updated to ${newMl}ml`);
-                }
-                continue; // Move to next scent
-              }
-            }
-            
-            // Fallback: Try to find scent by name (case-insensitive) - ONLY in current department
-            if (scent.ml > 0 && departmentId && departmentId !== 'null' && departmentId !== 'undefined') {
-              console.log(`🔍 Searching for scent by name: "${scent.scent}" in department ${departmentId}`);
-              
-              // ONLY search in the department - each department is independent
-              const { data: scentByName, error: nameError } = await supabase
-                .from("perfume_scents")
-                .select("id, name, stock_ml, department_id")
-                .ilike("name", scent.scent)
-                .eq("department_id", departmentId)
-                .limit(1)
-                .maybeSingle();
-              
-              if (nameError) {
-                console.error(`❌ Error searching scent by name:`, nameError);
-              }
-              
-              if (scentByName) {
-                const currentMl = scentByName.stock_ml ?? 0;
-                const newMl = Math.max(0, currentMl - scent.ml);
-                console.log(`✅ Found scent by name "${scentByName.name}": Current=${currentMl}ml, Deducting=${scent.ml}ml, New=${newMl}ml`);
-                
-                const { error: updateError } = await supabase
-                  .from("perfume_scents")
-                  .update({ stock_ml: newMl })
-                  .eq("id", scentByName.id);
-                  
-                if (updateError) {
-                  console.error(`❌ Error updating scent:`, updateError);
-                } else {
-                  console.log(`✅ Scent ${scentByName.name} stock updated to ${newMl}ml`);
-                }
-              } else {
-                console.warn(`⚠️ Scent "${scent.scent}" not found in department - stock not deducted`);
-              }
-            } else if (!departmentId || departmentId === 'null' || departmentId === 'undefined') {
-              console.error(`❌ Cannot deduct stock: No valid department ID provided`);
-            }
-          }
-        } else {
+        if (!item.selectedScents || item.selectedScents.length === 0) {
           console.warn("⚠️ No selectedScents provided for perfume refill, cannot deduct individual scent stock");
+          continue;
+        }
+
+        for (const scent of item.selectedScents) {
+          if (scent.ml <= 0) continue;
+
+          const scentId = await findScentId(scent, departmentId);
+          if (!scentId) {
+            console.warn(`⚠️ Scent "${scent.scent}" not found in department - stock not deducted`);
+            continue;
+          }
+
+          await applyStockMovement({
+            itemType: "scent",
+            itemId: scentId,
+            movementType: "sale",
+            quantity: -scent.ml,
+            reference,
+          });
         }
       } else if (item.productId) {
-        console.log(`Deducting product stock for: ${item.name}, quantity: ${item.quantity}`);
-        await reduceProductStock(item.productId, item.quantity, item.trackingType, item.totalMl);
+        await reduceProductStock(item.productId, item.quantity, reference, item.trackingType, item.totalMl);
       }
     }
 
@@ -216,41 +246,45 @@ export const reduceStock = async (
   }
 };
 
+/** A stock deduction in the shape the create_sale database function takes */
+export interface SaleStockLine {
+  item_type: StockItemType;
+  item_id: string | null; // Scents without an id are matched by name in the department
+  name: string;
+  quantity: number;
+  use_ml: boolean;
+}
+
 /**
- * Reduce stock for a specific product variant
+ * The stock a cart takes, line by line - the same rules as reduceStock, for create_sale
  */
-const reduceVariantStock = async (variantId: string, quantity: number): Promise<void> => {
-  console.log(`Reducing variant stock: variantId=${variantId}, quantity=${quantity}`);
-  
-  const { data: variant, error: fetchError } = await supabase
-    .from("product_variants")
-    .select("stock, name")
-    .eq("id", variantId)
-    .single();
+export const buildSaleStockLines = (cartItems: CartItem[]): SaleStockLine[] =>
+  cartItems.flatMap((item): SaleStockLine[] => {
+    const name = item.name || "item";
 
-  if (fetchError) {
-    console.error("Error fetching variant:", fetchError);
-    throw fetchError;
-  }
-  if (!variant) throw new Error("Variant not found");
+    if (item.variantId) {
+      return [{ item_type: "variant", item_id: item.variantId, name, quantity: item.quantity, use_ml: false }];
+    }
 
-  const currentStock = variant.stock ?? 0;
-  const newStock = Math.max(0, currentStock - quantity);
-  
-  console.log(`Variant ${variant.name}: Current stock=${currentStock}, Deducting=${quantity}, New stock=${newStock}`);
+    if ((item.isPerfumeRefill || item.type === "perfume") && item.totalMl) {
+      return (item.selectedScents || [])
+        .filter((scent) => scent.ml > 0)
+        .map((scent) => ({
+          item_type: "scent",
+          item_id: scent.scentId || null,
+          name: scent.scent,
+          quantity: scent.ml * (item.quantity || 1), // selectedScents is one bottle
+          use_ml: true,
+        }));
+    }
 
-  const { error: updateError } = await supabase
-    .from("product_variants")
-    .update({ stock: newStock })
-    .eq("id", variantId);
+    if (item.productId) {
+      const useMl = (item.trackingType === "ml" || item.trackingType === "milliliter") && !!item.totalMl;
+      return [{ item_type: "product", item_id: item.productId, name, quantity: useMl ? item.totalMl : item.quantity, use_ml: useMl }];
+    }
 
-  if (updateError) {
-    console.error("Error updating variant stock:", updateError);
-    throw updateError;
-  }
-  
-  console.log(`Variant stock updated successfully: ${variant.name} now has ${newStock} units`);
-};
+    return []; // Services
+  });
 
 /**
  * Reduce stock for a specific product
@@ -258,14 +292,13 @@ const reduceVariantStock = async (variantId: string, quantity: number): Promise<
 const reduceProductStock = async (
   productId: string,
   quantity: number,
+  reference: StockReference,
   trackingType?: string,
   totalMl?: number
 ): Promise<void> => {
-  console.log(`🔄 STOCK REDUCTION: productId=${productId}, quantity=${quantity}, trackingType=${trackingType}, totalMl=${totalMl}`);
-  
   const { data: product, error: fetchError } = await supabase
     .from("products")
-    .select("stock, total_ml, tracking_type, name")
+    .select("tracking_type, name")
     .eq("id", productId)
     .single();
 
@@ -273,86 +306,99 @@ const reduceProductStock = async (
     console.error("❌ Error fetching product for stock reduction:", fetchError);
     throw fetchError;
   }
-  if (!product) {
-    console.error("❌ Product not found for stock reduction:", productId);
-    throw new Error("Product not found");
-  }
-
-  console.log(`📦 Found product: ${product.name}, current stock=${product.stock}, tracking_type=${product.tracking_type}`);
+  if (!product) throw new Error("Product not found");
 
   const isMlTracking = product.tracking_type === "ml" || trackingType === "ml" || trackingType === "milliliter";
-  
-  if (isMlTracking && totalMl) {
-    const currentMl = product.total_ml ?? 0;
-    const newMl = Math.max(0, currentMl - totalMl);
-    console.log(`📦 Product ${product.name} (ml): Current=${currentMl}ml, Deducting=${totalMl}ml, New=${newMl}ml`);
-    
-    const { data: updateData, error: updateError } = await supabase
-      .from("products")
-      .update({ total_ml: newMl })
-      .eq("id", productId)
-      .select();
-      
-    if (updateError) {
-      console.error("❌ Error updating product ml:", updateError);
-      throw updateError;
-    }
-    console.log(`✅ ML update result:`, updateData);
-  } else {
-    const currentStock = product.stock ?? 0;
-    const newStock = Math.max(0, currentStock - quantity);
-    console.log(`📦 Product ${product.name}: Current stock=${currentStock}, Deducting=${quantity}, New stock=${newStock}`);
-    
-    const { data: updateData, error: updateError } = await supabase
-      .from("products")
-      .update({ stock: newStock })
-      .eq("id", productId)
-      .select();
-      
-    if (updateError) {
-      console.error("❌ Error updating product stock:", updateError);
-      throw updateError;
-    }
-    console.log(`✅ Stock update result:`, updateData);
+  const useMl = isMlTracking && !!totalMl;
+
+  await applyStockMovement({
+    itemType: "product",
+    itemId: productId,
+    movementType: "sale",
+    quantity: -(useMl ? totalMl : quantity),
+    useMl,
+    reference,
+  });
+};
+
+/**
+ * Put back the bottles, atomizers and boxes a refill line took. The database deducts them when
+ * the sale item is saved, referencing the item, so this restores whatever is still out -
+ * calling it twice for the same line changes nothing.
+ */
+export const restoreRefillPackaging = async (
+  saleItemId: string,
+  movementType: StockMovementType,
+  notes?: string
+): Promise<void> => {
+  const { data: movements, error } = await supabase
+    .from("stock_movements")
+    .select("packaging_id, quantity")
+    .eq("reference_type", "sale_item")
+    .eq("reference_id", saleItemId)
+    .not("packaging_id", "is", null);
+  if (error) throw error;
+
+  const outstanding = new Map<string, number>();
+  for (const movement of movements || []) {
+    outstanding.set(movement.packaging_id, (outstanding.get(movement.packaging_id) || 0) + Number(movement.quantity));
+  }
+
+  for (const [packagingId, net] of outstanding) {
+    if (net >= 0) continue;
+    await applyStockMovement({
+      itemType: "packaging",
+      itemId: packagingId,
+      movementType,
+      quantity: -net,
+      reference: { type: "sale_item", id: saleItemId, notes },
+    });
   }
-  
-  console.log(`✅ Product stock updated successfully for: ${product.name}`);
 };
 
 /**
- * Restore stock when voiding a sale
+ * Restore stock when voiding a sale. Perfume mixtures are not restocked on void,
+ * but their packaging goes back on the shelf.
  */
 export const restoreStock = async (
-  saleId: string
+  saleId: string,
+  movementType: StockMovementType = "void",
+  notes?: string
 ): Promise<{ success: boolean; error?: string }> => {
   try {
     const { data: saleItems } = await supabase
       .from("sale_items")
-      .select("*, products(id, stock, total_ml, tracking_type), product_variants(id, stock)")
+      .select("*, products(id, tracking_type)")
       .eq("sale_id", saleId);
 
     if (!saleItems) return { success: true };
 
+    const reference: StockReference = { type: "sale", id: saleId, notes };
+
     for (const item of saleItems as any[]) {
-      if (item.variant_id && item.product_variants) {
-        const variant = item.product_variants;
-        await supabase
-          .from("product_variants")
-          .update({ stock: (variant.stock || 0) + item.quantity } as any)
-          .eq("id", item.variant_id);
+      if (item.scent_mixture) {
+        await restoreRefillPackaging(item.id, movementType, notes);
+        continue;
+      }
+
+      if (item.variant_id) {
+        await applyStockMovement({
+          itemType: "variant",
+          itemId: item.variant_id,
+          movementType,
+          quantity: Number(item.quantity) || 0,
+          reference,
+        });
       } else if (item.product_id && item.products) {
-        const product = item.products;
-        if (product.tracking_type === "ml") {
-          await supabase
-            .from("products")
-            .update({ total_ml: (product.total_ml || 0) + (item.ml_amount || item.quantity) } as any)
-            .eq("id", item.product_id);
-        } else {
-          await supabase
-            .from("products")
-            .update({ stock: (product.stock || 0) + item.quantity } as any)
-            .eq("id", item.product_id);
-        }
+        const useMl = item.products.tracking_type === "ml";
+        await applyStockMovement({
+          itemType: "product",
+          itemId: item.product_id,
+          movementType,
+          quantity: useMl ? Number(item.ml_amount || item.quantity) : Number(item.quantity) || 0,
+          useMl,
+          reference,
+        });
       }
     }
 
@@ -0,0 +1,309 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Discount, getLineNet } from "@/utils/discounts";
+
+export type TaxTreatment = "standard" | "zero_rated" | "exempt";
+
+export interface TaxProfile {
+  id: string | null; // null for the fallback built from settings.tax_rate
+  name: string;
+  code?: string | null;
+  treatment: TaxTreatment;
+  rate: number;
+  is_inclusive: boolean;
+  is_default?: boolean;
+  department_id?: string | null;
+}
+
+export interface TaxContext {
+  profiles: Record<string, TaxProfile>;
+  productProfiles: Record<string, string>; // product id -> profile id
+  serviceProfiles: Record<string, string>;
+  categoryProfiles: Record<string, string>;
+  productCategories: Record<string, string>; // product id -> category id
+  serviceCategories: Record<string, string>;
+  defaultProfile: TaxProfile | null;
+}
+
+export interface LineTax {
+  taxProfileId: string | null;
+  taxName: string | null;
+  treatment: TaxTreatment | null;
+  rate: number;
+  inclusive: boolean;
+  taxableAmount: number; // Excluding tax, after discounts
+  taxAmount: number;
+}
+
+export interface TaxBreakdownRow {
+  name: string;
+  treatment: TaxTreatment;
+  rate: number;
+  inclusive: boolean;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export const TAX_TREATMENT_LABELS: Record<TaxTreatment, string> = {
+  standard: "Standard",
+  zero_rated: "Zero-rated",
+  exempt: "Exempt",
+};
+
+/**
+ * Effective rate for a profile. Zero-rated and exempt items never carry tax.
+ */
+export const getEffectiveRate = (profile?: TaxProfile | null): number => {
+  if (!profile || profile.treatment !== "standard") return 0;
+  return Number(profile.rate) || 0;
+};
+
+/**
+ * Load tax profiles and their product/service/category assignments for a department.
+ * Falls back to settings.tax_rate (prices treated as tax-inclusive) when no default profile exists.
+ */
+export const fetchTaxContext = async (departmentId: string | null): Promise<TaxContext> => {
+  let profilesQuery = supabase.from("tax_profiles").select("*").eq("is_active", true);
+  profilesQuery = departmentId
+    ? profilesQuery.or(`department_id.is.null,department_id.eq.${departmentId}`)
+    : profilesQuery.is("department_id", null);
+
+  const [
+    { data: profileRows },
+    { data: productRows },
+    { data: serviceRows },
+    { data: categoryRows },
+    { data: settingsRows },
+  ] = await Promise.all([
+    profilesQuery,
+    departmentId
+      ? supabase.from("products").select("id, category_id, tax_profile_id").eq("department_id", departmentId)
+      : Promise.resolve({ data: [] as { id: string; category_id: string | null; tax_profile_id: string | null }[] }),
+    departmentId
+      ? supabase.from("services").select("id, category_id, tax_profile_id").eq("department_id", departmentId)
+      : Promise.resolve({ data: [] as { id: string; category_id: string | null; tax_profile_id: string | null }[] }),
+    supabase.from("categories").select("id, tax_profile_id").not("tax_profile_id", "is", null),
+    supabase.from("settings").select("department_id, tax_rate"),
+  ]);
+
+  const profiles: Record<string, TaxProfile> = {};
+  (profileRows || []).forEach((p) => {
+    profiles[p.id] = {
+      id: p.id,
+      name: p.name,
+      code: p.code,
+      treatment: (p.treatment || "standard") as TaxTreatment,
+      rate: Number(p.rate) || 0,
+      is_inclusive: p.is_inclusive !== false,
+      is_default: p.is_default,
+      department_id: p.department_id,
+    };
+  });
+
+  const context: TaxContext = {
+    profiles,
+    productProfiles: {},
+    serviceProfiles: {},
+    categoryProfiles: {},
+    productCategories: {},
+    serviceCategories: {},
+    defaultProfile: null,
+  };
+
+  (productRows || []).forEach((p) => {
+    if (p.tax_profile_id) context.productProfiles[p.id] = p.tax_profile_id;
+    if (p.category_id) context.productCategories[p.id] = p.category_id;
+  });
+  (serviceRows || []).forEach((s) => {
+    if (s.tax_profile_id) context.serviceProfiles[s.id] = s.tax_profile_id;
+    if (s.category_id) context.serviceCategories[s.id] = s.category_id;
+  });
+  (categoryRows || []).forEach((c) => {
+    context.categoryProfiles[c.id] = c.tax_profile_id;
+  });
+
+  // Department default wins over a global default
+  const defaults = Object.values(profiles).filter((p) => p.is_default);
+  context.defaultProfile =
+    defaults.find((p) => p.department_id === departmentId) ||
+    defaults.find((p) => !p.department_id) ||
+    null;
+
+  if (!context.defaultProfile) {
+    const deptSettings = (settingsRows || []).find((s) => departmentId && s.department_id === departmentId);
+    const globalSettings = (settingsRows || []).find((s) => !s.department_id);
+    const rate = Number(deptSettings?.tax_rate ?? globalSettings?.tax_rate) || 0;
+    if (rate > 0) {
+      context.defaultProfile = {
+        id: null,
+        name: `Tax ${rate}%`,
+        treatment: "standard",
+        rate,
+        is_inclusive: true,
+      };
+    }
+  }
+
+  return context;
+};
+
+/**
+ * Resolve the profile for a cart item: product/service, then its category, then the default
+ */
+export const resolveTaxProfile = (
+  item: { productId?: string | null; serviceId?: string | null },
+  context?: TaxContext | null
+): TaxProfile | null => {
+  if (!context) return null;
+
+  const profileId =
+    (item.productId && context.productProfiles[item.productId]) ||
+    (item.serviceId && context.serviceProfiles[item.serviceId]) ||
+    (item.productId && context.categoryProfiles[context.productCategories[item.productId]]) ||
+    (item.serviceId && context.categoryProfiles[context.serviceCategories[item.serviceId]]) ||
+    null;
+
+  return (profileId && context.profiles[profileId]) || context.defaultProfile;
+};
+
+/**
+ * Tax on an amount. Inclusive amounts already contain the tax, exclusive amounts get it added.
+ */
+export const calculateLineTax = (lineAmount: number, profile?: TaxProfile | null): LineTax => {
+  const amount = Math.round(lineAmount);
+  const rate = getEffectiveRate(profile);
+  const inclusive = profile ? profile.is_inclusive : true;
+  const taxAmount = rate > 0
+    ? Math.round(inclusive ? (amount * rate) / (100 + rate) : (amount * rate) / 100)
+    : 0;
+
+  return {
+    taxProfileId: profile?.id || null,
+    taxName: profile?.name || null,
+    treatment: profile?.treatment || null,
+    rate,
+    inclusive,
+    taxableAmount: inclusive ? amount - taxAmount : amount,
+    taxAmount,
+  };
+};
+
+interface TaxableItem {
+  price: number;
+  quantity: number;
+  subtotal?: number;
+  discount?: Discount | null;
+  productId?: string | null;
+  serviceId?: string | null;
+}
+
+/**
+ * Per-line tax for a cart. The cart discount is spread across lines in proportion to their value.
+ */
+export const calculateCartTax = (
+  items: TaxableItem[],
+  cartDiscountAmount: number,
+  context?: TaxContext | null
+) => {
+  const netTotal = items.reduce((sum, item) => sum + getLineNet(item), 0);
+
+  const lines = items.map((item) => {
+    const net = getLineNet(item);
+    const cartShare = netTotal > 0 ? (cartDiscountAmount * net) / netTotal : 0;
+    return calculateLineTax(net - cartShare, resolveTaxProfile(item, context));
+  });
+
+  const exclusiveTax = lines.filter((l) => !l.inclusive).reduce((sum, l) => sum + l.taxAmount, 0);
+  const totalTax = lines.reduce((sum, l) => sum + l.taxAmount, 0);
+
+  return {
+    lines,
+    totalTax,
+    exclusiveTax, // Added on top of the discounted subtotal
+    breakdown: getTaxBreakdown(lines),
+  };
+};
+
+/**
+ * Group line taxes by profile for receipts, invoices and reports
+ */
+export const getTaxBreakdown = (lines: LineTax[]): TaxBreakdownRow[] => {
+  const rows: Record<string, TaxBreakdownRow> = {};
+
+  lines.forEach((line) => {
+    if (!line.treatment) return;
+    const key = `${line.taxName}|${line.rate}|${line.inclusive}`;
+    if (!rows[key]) {
+      rows[key] = {
+        name: line.taxName || TAX_TREATMENT_LABELS[line.treatment],
+        treatment: line.treatment,
+        rate: line.rate,
+        inclusive: line.inclusive,
+        taxableAmount: 0,
+        taxAmount: 0,
+      };
+    }
+    rows[key].taxableAmount += line.taxableAmount;
+    rows[key].taxAmount += line.taxAmount;
+  });
+
+  return Object.values(rows);
+};
+
+type SaleItemTaxColumns = Partial<
+  Pick<
+    Tables<"sale_items">,
+    "tax_profile_id" | "tax_name" | "tax_treatment" | "tax_rate" | "tax_inclusive" | "taxable_amount" | "tax_amount"
+  >
+>;
+
+/**
+ * Rebuild line taxes from saved sale_items rows (for reprints and reports)
+ */
+export const lineTaxFromSaleItem = (item: SaleItemTaxColumns): LineTax => ({
+  taxProfileId: item.tax_profile_id || null,
+  taxName: item.tax_name || null,
+  treatment: (item.tax_treatment || null) as TaxTreatment | null,
+  rate: Number(item.tax_rate) || 0,
+  inclusive: item.tax_inclusive !== false,
+  taxableAmount: Number(item.taxable_amount) || 0,
+  taxAmount: Number(item.tax_amount) || 0,
+});
+
+/**
+ * sale_items columns for a line tax
+ */
+export const toSaleItemTaxColumns = (line: LineTax) => ({
+  tax_profile_id: line.taxProfileId,
+  tax_name: line.taxName,
+  tax_treatment: line.treatment,
+  tax_rate: line.rate,
+  tax_inclusive: line.inclusive,
+  taxable_amount: line.taxableAmount,
+  tax_amount: line.taxAmount,
+});
+
+/**
+ * Tax added on top of the discounted subtotal. Older sales without a breakdown treated all tax as added.
+ */
+export const getAddedTax = (tax: number | null | undefined, breakdown?: TaxBreakdownRow[]): number => {
+  if (!breakdown) return Number(tax) || 0;
+  return breakdown.filter((row) => !row.inclusive).reduce((sum, row) => sum + row.taxAmount, 0);
+};
+
+/**
+ * Label for a breakdown row, e.g. "VAT 18% (incl.)" or "Exempt"
+ */
+export const formatTaxLabel = (row: TaxBreakdownRow): string => {
+  if (row.treatment !== "standard") return row.name;
+  return `${row.name} (${row.inclusive ? "incl." : "excl."})`;
+};
+
+/**
+ * Breakdown for a saved sale, or undefined for sales recorded before tax profiles existed
+ */
+export const getSaleTaxBreakdown = (saleItems: SaleItemTaxColumns[] | null | undefined): TaxBreakdownRow[] | undefined => {
+  const taxedItems = (saleItems || []).filter((item) => item.tax_treatment);
+  if (taxedItems.length === 0) return undefined;
+  return getTaxBreakdown(taxedItems.map(lineTaxFromSaleItem));
+};
@@ -5,6 +5,7 @@
  */
 
 import type { USBDevice, USBEndpoint } from "../types/webusb.d";
+import { Translator, defaultTranslator } from "@/utils/i18n";
 
 // ESC/POS Command Constants
 const ESC = 0x1b;
@@ -261,14 +262,19 @@ export const printReceiptThermal = async (data: {
     quantity: number;
     price: number;
     subtotal: number;
+    discount?: number;
+    discountLabel?: string;
   }>;
   subtotal: number;
   discount?: number;
+  discountReason?: string;
   total: number;
   paymentMethod: string;
   customerName?: string;
   footer?: string;
+  translate?: Translator;
 }): Promise<boolean> => {
+  const t = data.translate || defaultTranslator;
   const builder = new ESCPOSBuilder();
   const lineWidth = 32; // Standard 80mm thermal printer width
 
@@ -290,14 +296,14 @@ export const printReceiptThermal = async (data: {
     // Receipt info
     .align("left")
     .horizontalLine("=", lineWidth)
-    .twoColumns("Receipt #:", data.receiptNumber, lineWidth)
-    .twoColumns("Date:", data.date, lineWidth)
-    .twoColumns("Cashier:", data.cashier || "Staff", lineWidth)
+    .twoColumns(`${t("receipt.receiptNumber")}:`, data.receiptNumber, lineWidth)
+    .twoColumns(`${t("receipt.date")}:`, data.date, lineWidth)
+    .twoColumns(`${t("receipt.cashier")}:`, data.cashier || t("receipt.staff"), lineWidth)
     .horizontalLine("=", lineWidth)
     .newLine()
     // Items header
     .bold(true)
-    .text("Item                 Qty   Total")
+    .text(`${t("receipt.item").padEnd(20)} ${t("receipt.qty").padStart(3)} ${t("receipt.total").padStart(8)}`)
     .newLine()
     .bold(false)
     .horizontalLine("-", lineWidth);
@@ -308,39 +314,45 @@ export const printReceiptThermal = async (data: {
     const qty = item.quantity.toString().padStart(3);
     const total = (item.subtotal || 0).toLocaleString().padStart(8);
     builder.text(`${name.padEnd(20)} ${qty} ${total}`).newLine();
+    if (item.discount && item.discount > 0) {
+      builder.twoColumns(`  ${t("receipt.discount")} ${item.discountLabel || ""}`.substring(0, 22), `-${item.discount.toLocaleString()}`, lineWidth);
+    }
   }
 
   builder
     .horizontalLine("-", lineWidth)
     // Totals
-    .twoColumns("Subtotal:", `${(data.subtotal || 0).toLocaleString()} UGX`, lineWidth);
+    .twoColumns(`${t("receipt.subtotal")}:`, `${(data.subtotal || 0).toLocaleString()} UGX`, lineWidth);
 
   if (data.discount && data.discount > 0) {
-    builder.twoColumns("Discount:", `-${(data.discount || 0).toLocaleString()} UGX`, lineWidth);
+    builder.twoColumns(`${t("receipt.discount")}:`, `-${(data.discount || 0).toLocaleString()} UGX`, lineWidth);
+    if (data.discountReason) {
+      builder.text(`${t("receipt.reason")}: ${data.discountReason}`).newLine();
+    }
   }
 
   builder
     .horizontalLine("=", lineWidth)
     .bold(true)
     .textSize(1, 2)
-    .twoColumns("TOTAL:", `${(data.total || 0).toLocaleString()} UGX`, lineWidth)
+    .twoColumns(`${t("receipt.grandTotal")}:`, `${(data.total || 0).toLocaleString()} UGX`, lineWidth)
     .textSize(1, 1)
     .bold(false)
     .horizontalLine("=", lineWidth)
     .newLine()
     .align("center")
-    .text(`Payment: ${data.paymentMethod.toUpperCase()}`)
+    .text(`${t("receipt.paymentMode")}: ${data.paymentMethod.toUpperCase()}`)
     .newLine();
 
   if (data.customerName) {
-    builder.text(`Customer: ${data.customerName}`).newLine();
+    builder.text(`${t("receipt.customer")}: ${data.customerName}`).newLine();
   }
 
   builder
     .newLine()
-    .text(data.footer || "Thank you for your business!")
+    .text(data.footer || t("receipt.thankYouForBusiness"))
     .newLine()
-    .text("Visit again soon!")
+    .text(t("receipt.visitAgainSoon"))
     .newLine()
     .feed(3)
     .cut();
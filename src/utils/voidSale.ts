@@ -1,5 +1,6 @@
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { restoreStock } from "@/utils/stockManagement";
 
 interface VoidSaleParams {
   saleId: string;
@@ -9,17 +10,10 @@ interface VoidSaleParams {
 
 export const voidSale = async ({ saleId, reason, userId }: VoidSaleParams) => {
   try {
-    // 1. Fetch the sale with all items
+    // 1. Fetch the sale
     const { data: sale, error: fetchError } = await supabase
       .from("sales")
-      .select(`
-        *,
-        sale_items(
-          *,
-          products(id, stock, total_ml, tracking_type),
-          product_variants(id, stock)
-        )
-      `)
+      .select("*")
       .eq("id", saleId)
       .single();
 
@@ -32,56 +26,15 @@ export const voidSale = async ({ saleId, reason, userId }: VoidSaleParams) => {
       return false;
     }
 
-    // 2. Restore stock for each item
-    const stockRestorePromises = (sale.sale_items as any[]).map(async (item: any) => {
-      // Skip stock restoration for perfume mixtures
-      if (item.scent_mixture) {
-        console.log(`Skipping stock restoration for perfume mixture: ${item.name}`);
-        return;
-      }
-
-      // Restore product stock
-      if (item.product_id && item.products) {
-        const product = item.products;
-        
-        if (product.tracking_type === "ml" && product.total_ml !== null) {
-          // Restore ml stock
-          const { error } = await supabase
-            .from("products")
-            .update({
-              total_ml: (product.total_ml || 0) + (item.ml_amount || item.quantity),
-            } as any)
-            .eq("id", item.product_id);
-
-          if (error) throw error;
-        } else if (product.stock !== null) {
-          // Restore unit stock
-          const { error } = await supabase
-            .from("products")
-            .update({
-              stock: (product.stock || 0) + item.quantity,
-            } as any)
-            .eq("id", item.product_id);
-
-          if (error) throw error;
-        }
-      }
-
-      // Restore variant stock
-      if (item.variant_id && item.product_variants) {
-        const variant = item.product_variants;
-        const { error } = await supabase
-          .from("product_variants")
-          .update({
-            stock: (variant.stock || 0) + item.quantity,
-          } as any)
-          .eq("id", item.variant_id);
-
-        if (error) throw error;
-      }
-    });
+    // Voiding would restock lines that already came back through a return
+    if (Number(sale.returned_amount) > 0) {
+      toast.error("This sale has returns - return the remaining items instead");
+      return false;
+    }
 
-    await Promise.all(stockRestorePromises);
+    // 2. Restore stock for each item (perfume mixtures are not restocked on void)
+    const stockResult = await restoreStock(saleId, "void", reason);
+    if (!stockResult.success) throw new Error(stockResult.error);
 
     // 3. Mark the sale as voided
     const { error: voidError } = await supabase
@@ -0,0 +1,84 @@
+import QRCode from "qrcode";
+
+export interface GiftVoucherPrintData {
+  code: string;
+  value: number; // Balance left, which is the face value on a new voucher
+  expiresAt?: string | null;
+  recipientName?: string | null;
+  issuedAt: string;
+  businessInfo: {
+    name: string;
+    address?: string;
+    phone?: string;
+    logo?: string;
+  };
+}
+
+export const generateGiftVoucherHTML = (data: GiftVoucherPrintData, qrCodeUrl: string): string => `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <meta charset="UTF-8">
+    <title>Gift Voucher ${data.code}</title>
+    <style>
+      @media print {
+        body { margin: 0; padding: 10px; }
+        @page { margin: 0; size: auto; }
+      }
+      body {
+        font-family: 'Inter', 'Segoe UI', -apple-system, BlinkMacSystemFont, sans-serif;
+        font-size: 11px;
+        max-width: 300px;
+        margin: 0 auto;
+        line-height: 1.4;
+        text-align: center;
+      }
+      .business-name { font-weight: bold; font-size: 13px; text-transform: uppercase; }
+      .title { font-weight: bold; font-size: 16px; margin: 10px 0 4px; letter-spacing: 2px; }
+      .value { font-weight: bold; font-size: 22px; margin: 6px 0; }
+      .code { font-family: monospace; font-size: 15px; font-weight: bold; letter-spacing: 1px; margin-top: 4px; }
+      .box { border: 2px dashed #000; padding: 10px; margin: 8px 0; }
+      .note { font-size: 9px; color: #555; }
+    </style>
+  </head>
+  <body>
+    ${data.businessInfo.logo ? `<img src="${data.businessInfo.logo}" style="width: 50px; height: 50px; object-fit: contain;" />` : ''}
+    <div class="business-name">${data.businessInfo.name}</div>
+    ${data.businessInfo.address ? `<div>${data.businessInfo.address}</div>` : ''}
+    ${data.businessInfo.phone ? `<div>Tel: ${data.businessInfo.phone}</div>` : ''}
+
+    <div class="box">
+      <div class="title">GIFT VOUCHER</div>
+      ${data.recipientName ? `<div>For: <strong>${data.recipientName}</strong></div>` : ''}
+      <div class="value">UGX ${Math.round(data.value).toLocaleString()}</div>
+      <img src="${qrCodeUrl}" style="width: 120px; height: 120px;" />
+      <div class="code">${data.code}</div>
+    </div>
+
+    <div>Issued: ${data.issuedAt}</div>
+    <div>${data.expiresAt ? `Valid until: <strong>${data.expiresAt}</strong>` : 'No expiry date'}</div>
+    <div class="note" style="margin-top: 8px;">
+      Can be spent in parts until the balance is used up. Not exchangeable for cash.
+    </div>
+  </body>
+  </html>
+`;
+
+export const printGiftVoucher = async (data: GiftVoucherPrintData): Promise<boolean> => {
+  // Open the window before awaiting the QR code so pop-up blockers still see a click
+  const printWindow = window.open('', '_blank', 'width=350,height=700');
+  if (!printWindow) {
+    console.error('Could not open print window');
+    return false;
+  }
+
+  const qrCodeUrl = await QRCode.toDataURL(data.code, { width: 240, margin: 1 });
+  printWindow.document.write(generateGiftVoucherHTML(data, qrCodeUrl));
+  printWindow.document.close();
+
+  setTimeout(() => {
+    printWindow.print();
+    printWindow.onafterprint = () => printWindow.close();
+  }, 500);
+  return true;
+};
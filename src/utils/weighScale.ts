@@ -0,0 +1,404 @@
+/**
+ * Weigh Scale Utility for reading bottle weights straight into stock-taking
+ * Talks to the scale over Web Serial (RS-232 / USB-serial) or WebUSB, with the
+ * keyboard-wedge mode for scales that type the weight into the focused field
+ */
+
+import type { USBDevice, USBEndpoint } from "../types/webusb.d";
+import type { SerialPort } from "../types/webserial.d";
+
+export type ScaleTransport = "serial" | "usb" | "keyboard";
+
+/**
+ * continuous - the scale streams a reading every few ms ("ST,GS,+  850.2 g"), as CAS and
+ *              most generic indicators do
+ * sics       - Mettler Toledo MT-SICS: we send "SI" and the scale answers "S S     850.2 g"
+ * nci        - NCI / Avery Weigh-Tronix standard: we send "W" and get a weight line plus a status line
+ */
+export type ScaleProtocol = "continuous" | "sics" | "nci";
+
+export const SCALE_PROTOCOL_LABELS: Record<ScaleProtocol, string> = {
+  continuous: "Continuous output (CAS, generic)",
+  sics: "Mettler Toledo MT-SICS",
+  nci: "NCI / Avery Weigh-Tronix",
+};
+
+export interface ScaleSettings {
+  transport: ScaleTransport;
+  protocol: ScaleProtocol;
+  baudRate: number;
+}
+
+export interface ScaleReading {
+  grams: number;
+  stable: boolean;
+  raw: string;
+  receivedAt: number;
+}
+
+// USB-serial bridges and scale makers seen on POS scales
+const SCALE_VENDORS = [
+  0x0eb8, // Mettler Toledo
+  0x0922, // Dymo
+  0x0403, // FTDI
+  0x067b, // Prolific (USB-Serial)
+  0x1a86, // QinHeng Electronics (CH340)
+  0x10c4, // Silicon Labs
+];
+
+const POLL_COMMANDS: Record<ScaleProtocol, string | null> = {
+  continuous: null,
+  sics: "SI\r\n",
+  nci: "W\r",
+};
+
+const DEFAULT_SETTINGS: ScaleSettings = { transport: "serial", protocol: "continuous", baudRate: 9600 };
+const SETTINGS_KEY = "weigh-scale-settings";
+
+// NCI ends each answer with ETX
+const ETX = String.fromCharCode(0x03);
+
+const GRAMS_PER_UNIT: Record<string, number> = { g: 1, kg: 1000, lb: 453.59237, oz: 28.349523 };
+
+interface ScaleConnection {
+  transport: "serial" | "usb";
+  protocol: ScaleProtocol;
+  name: string;
+  port?: SerialPort;
+  reader?: ReadableStreamDefaultReader<Uint8Array>;
+  device?: USBDevice;
+  endpointIn?: USBEndpoint;
+  endpointOut?: USBEndpoint | null;
+}
+
+let connectedScale: ScaleConnection | null = null;
+let lastReading: ScaleReading | null = null;
+const listeners = new Set<(reading: ScaleReading) => void>();
+
+/**
+ * Check if Web Serial is supported
+ */
+export const isWebSerialSupported = (): boolean => {
+  return typeof navigator !== "undefined" && "serial" in navigator;
+};
+
+/**
+ * Check if WebUSB is supported
+ */
+export const isWebUSBSupported = (): boolean => {
+  return typeof navigator !== "undefined" && "usb" in navigator;
+};
+
+export const getScaleSettings = (): ScaleSettings => {
+  try {
+    const saved = window.localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveScaleSettings = (settings: ScaleSettings) => {
+  window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Read a weight out of one line of scale output, or what a keyboard-wedge scale typed.
+ * Accepts "ST,GS,+  850.2 g", "S S     850.2 g", "0.850kg" and a bare "850.2" (grams).
+ */
+export const parseScaleLine = (line: string): Omit<ScaleReading, "receivedAt"> | null => {
+  const text = line.trim();
+  if (!text) return null;
+
+  const match = text.match(/([-+])?\s*(\d+(?:[.,]\d+)?)\s*(kg|g|lb|oz)?\s*$/i);
+  if (!match) return null;
+
+  // Overload and underload frames still carry a number, but not a weight
+  if (/^(OL|UL)\b/i.test(text)) return null;
+
+  const value = parseFloat(match[2].replace(",", "."));
+  const grams = value * GRAMS_PER_UNIT[(match[3] || "g").toLowerCase()] * (match[1] === "-" ? -1 : 1);
+  const unstable = /^US\b|^S\s+D\b|\?/i.test(text);
+
+  return { grams: Math.round(grams * 10) / 10, stable: !unstable, raw: text };
+};
+
+const emitReading = (reading: Omit<ScaleReading, "receivedAt">) => {
+  lastReading = { ...reading, receivedAt: Date.now() };
+  listeners.forEach((listener) => listener(lastReading!));
+};
+
+/**
+ * Split the byte stream into lines. NCI answers with the weight line first and a status
+ * line ("S" + status bytes) after it, where bit 0 of the first status byte means in motion.
+ */
+const createLineHandler = (protocol: ScaleProtocol) => {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let pendingNci: Omit<ScaleReading, "receivedAt"> | null = null;
+
+  return (chunk: Uint8Array) => {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split(ETX).join("\n").split(/[\r\n]+/);
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (protocol === "nci") {
+        const status = line.match(/^S(.)/);
+        if (status) {
+          if (pendingNci) emitReading({ ...pendingNci, stable: (status[1].charCodeAt(0) & 1) === 0 });
+          pendingNci = null;
+          continue;
+        }
+        pendingNci = parseScaleLine(line);
+        continue;
+      }
+
+      const reading = parseScaleLine(line);
+      if (reading) emitReading(reading);
+    }
+  };
+};
+
+const runSerialReadLoop = async (connection: ScaleConnection) => {
+  const handleChunk = createLineHandler(connection.protocol);
+  while (connectedScale === connection && connection.port?.readable) {
+    connection.reader = connection.port.readable.getReader();
+    try {
+      for (;;) {
+        const { value, done } = await connection.reader.read();
+        if (done) break;
+        if (value) handleChunk(value);
+      }
+    } catch (error) {
+      // A framing or buffer error drops this reader; the port stays open and we take a new one
+      console.error("Scale read error:", error);
+    } finally {
+      connection.reader.releaseLock();
+    }
+  }
+};
+
+const runUsbReadLoop = async (connection: ScaleConnection) => {
+  const handleChunk = createLineHandler(connection.protocol);
+  const { device, endpointIn } = connection;
+  while (connectedScale === connection && device?.opened && endpointIn) {
+    try {
+      const result = await device.transferIn(endpointIn.endpointNumber, endpointIn.packetSize || 64);
+      if (result.data?.byteLength) {
+        handleChunk(new Uint8Array(result.data.buffer, result.data.byteOffset, result.data.byteLength));
+      }
+    } catch (error) {
+      console.error("Scale read error:", error);
+      break;
+    }
+  }
+};
+
+/**
+ * Ask the browser for a scale on the chosen transport
+ */
+export const requestScale = async (transport: "serial" | "usb"): Promise<SerialPort | USBDevice | null> => {
+  try {
+    if (transport === "serial") {
+      if (!isWebSerialSupported()) {
+        throw new Error("Web Serial is not supported in this browser. Please use Chrome or Edge.");
+      }
+      return await navigator.serial.requestPort();
+    }
+
+    if (!isWebUSBSupported()) {
+      throw new Error("WebUSB is not supported in this browser. Please use Chrome on Android.");
+    }
+    return await navigator.usb.requestDevice({
+      filters: SCALE_VENDORS.map((vendorId) => ({ vendorId })),
+    });
+  } catch (error) {
+    if ((error as Error).name === "NotFoundError") {
+      // User cancelled the picker
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Scales the browser already has permission for, so the last one reconnects without a picker
+ */
+export const getPairedScales = async (transport: "serial" | "usb"): Promise<(SerialPort | USBDevice)[]> => {
+  if (transport === "serial") return isWebSerialSupported() ? navigator.serial.getPorts() : [];
+  return isWebUSBSupported() ? navigator.usb.getDevices() : [];
+};
+
+/**
+ * Open the scale and start listening for readings
+ */
+export const connectScale = async (target: SerialPort | USBDevice, settings: ScaleSettings): Promise<boolean> => {
+  await disconnectScale();
+
+  try {
+    if ("getInfo" in target) {
+      await target.open({ baudRate: settings.baudRate });
+      const info = target.getInfo();
+      connectedScale = {
+        transport: "serial",
+        protocol: settings.protocol,
+        name: info.usbVendorId ? `Serial scale (${info.usbVendorId.toString(16)})` : "Serial scale",
+        port: target,
+      };
+      void runSerialReadLoop(connectedScale);
+      return true;
+    }
+
+    await target.open();
+    if (target.configuration === null || target.configuration === undefined) {
+      await target.selectConfiguration(1);
+    }
+
+    // A CDC / vendor interface with an IN endpoint to read from, and an OUT endpoint for poll commands
+    let endpointIn: USBEndpoint | undefined;
+    let endpointOut: USBEndpoint | null = null;
+    for (const iface of target.configuration?.interfaces || []) {
+      const alternate = iface.alternates[0];
+      const input = alternate?.endpoints.find((e) => e.direction === "in" && e.type !== "isochronous");
+      if (!input) continue;
+      await target.claimInterface(iface.interfaceNumber);
+      endpointIn = input;
+      endpointOut = alternate.endpoints.find((e) => e.direction === "out") || null;
+      break;
+    }
+
+    if (!endpointIn) {
+      // HID scales land here - the browser keeps those for itself, so use keyboard mode
+      await target.close();
+      throw new Error("USB device has no readable interface");
+    }
+
+    connectedScale = {
+      transport: "usb",
+      protocol: settings.protocol,
+      name: target.productName || "USB scale",
+      device: target,
+      endpointIn,
+      endpointOut,
+    };
+    void runUsbReadLoop(connectedScale);
+    return true;
+  } catch (error) {
+    console.error("Failed to connect to scale:", error);
+    connectedScale = null;
+    return false;
+  }
+};
+
+/**
+ * Disconnect from the current scale
+ */
+export const disconnectScale = async (): Promise<void> => {
+  const connection = connectedScale;
+  if (!connection) return;
+  connectedScale = null;
+  lastReading = null;
+
+  try {
+    if (connection.transport === "serial") {
+      await connection.reader?.cancel();
+      await connection.port?.close();
+    } else {
+      await connection.device?.close();
+    }
+  } catch (error) {
+    console.error("Error disconnecting scale:", error);
+  }
+};
+
+/**
+ * Get current scale status
+ */
+export const getScaleStatus = (): {
+  connected: boolean;
+  deviceName?: string;
+  protocol?: ScaleProtocol;
+} => {
+  if (!connectedScale) {
+    return { connected: false };
+  }
+  return { connected: true, deviceName: connectedScale.name, protocol: connectedScale.protocol };
+};
+
+/**
+ * Listen to every reading the scale sends. Returns the unsubscribe function.
+ */
+export const subscribeToScale = (listener: (reading: ScaleReading) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const sendPollCommand = async () => {
+  const command = connectedScale ? POLL_COMMANDS[connectedScale.protocol] : null;
+  if (!command || !connectedScale) return;
+
+  const data = new TextEncoder().encode(command);
+  if (connectedScale.transport === "serial") {
+    const writer = connectedScale.port?.writable?.getWriter();
+    if (!writer) return;
+    try {
+      await writer.write(data);
+    } finally {
+      writer.releaseLock();
+    }
+  } else if (connectedScale.device && connectedScale.endpointOut) {
+    await connectedScale.device.transferOut(
+      connectedScale.endpointOut.endpointNumber,
+      data as unknown as ArrayBuffer
+    );
+  }
+};
+
+/**
+ * Read the weight on the pan. Waits for a steady reading, polling the scale when its
+ * protocol only answers on request.
+ */
+export const readScaleWeight = (timeoutMs: number = 5000): Promise<ScaleReading> => {
+  if (!connectedScale) {
+    return Promise.reject(new Error("No scale connected"));
+  }
+
+  const requestedAt = Date.now();
+  if (lastReading?.stable && requestedAt - lastReading.receivedAt < 500 && !POLL_COMMANDS[connectedScale.protocol]) {
+    return Promise.resolve(lastReading);
+  }
+
+  return new Promise((resolve, reject) => {
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+
+    const finish = () => {
+      unsubscribe();
+      clearTimeout(timeout);
+      if (pollTimer) clearInterval(pollTimer);
+    };
+
+    const unsubscribe = subscribeToScale((reading) => {
+      if (!reading.stable) return;
+      finish();
+      resolve(reading);
+    });
+
+    const timeout = setTimeout(() => {
+      finish();
+      reject(new Error("The scale didn't settle on a weight. Let the bottle rest and try again."));
+    }, timeoutMs);
+
+    if (POLL_COMMANDS[connectedScale!.protocol]) {
+      const poll = () =>
+        sendPollCommand().catch((error) => {
+          finish();
+          reject(error);
+        });
+      void poll();
+      pollTimer = setInterval(poll, 400);
+    }
+  });
+};
@@ -0,0 +1,37 @@
+// Mobile money providers behind one interface, shared by process-mobile-payment, check-mobile-payment,
+// mobile-money-callback and mobile-money-account. The adapters live in ./mobileMoney/; the mock
+// provider server in backend/scripts emulates the MTN and Airtel HTTP APIs they call.
+import { createAirtelAdapter, parseAirtelCallback } from "./mobileMoney/airtel.ts";
+import { createMtnAdapter, parseMtnCallback } from "./mobileMoney/mtn.ts";
+import { createSimulatorAdapter } from "./mobileMoney/simulator.ts";
+import { CallbackMatch, MobileMoneyAdapter, MobileMoneyProvider, ProviderSettings } from "./mobileMoney/types.ts";
+
+export * from "./mobileMoney/types.ts";
+
+export const isMobileMoneyProvider = (value: unknown): value is MobileMoneyProvider =>
+  value === "mtn" || value === "airtel";
+
+/** The adapter for a department's provider settings; the simulator when the environment says so */
+export const getAdapter = (settings: ProviderSettings): MobileMoneyAdapter => {
+  if (settings.environment === "simulator") return createSimulatorAdapter();
+  return settings.provider === "mtn" ? createMtnAdapter(settings) : createAirtelAdapter(settings);
+};
+
+/** Simulated payments stay with the simulator even if the department has since gone live */
+export const getPaymentAdapter = (payment: { is_simulated: boolean }, settings: ProviderSettings | null) => {
+  if (payment.is_simulated) return createSimulatorAdapter();
+  return settings ? getAdapter(settings) : null;
+};
+
+export const parseCallback = (provider: MobileMoneyProvider, body: unknown, headers: Headers): CallbackMatch =>
+  provider === "mtn"
+    ? parseMtnCallback((body || {}) as Parameters<typeof parseMtnCallback>[0], headers)
+    : parseAirtelCallback((body || {}) as Parameters<typeof parseAirtelCallback>[0]);
+
+export const getCallbackUrl = (provider: MobileMoneyProvider) =>
+  `${Deno.env.get("SUPABASE_URL")}/functions/v1/mobile-money-callback?provider=${provider}&secret=${encodeURIComponent(
+    Deno.env.get("MOBILE_MONEY_CALLBACK_SECRET") || ""
+  )}`;
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
@@ -0,0 +1,133 @@
+// Airtel Money Open API (Uganda). One client ID and secret cover collections, refunds and balance.
+import {
+  CallbackMatch,
+  MobileMoneyAdapter,
+  MobileMoneyError,
+  PaymentResult,
+  ProviderSettings,
+  clearCachedToken,
+  digitsOnly,
+  getApiBase,
+  getCachedToken,
+  readProviderError,
+} from "./types.ts";
+
+const AIRTEL_HOSTS = {
+  sandbox: "https://openapiuat.airtel.africa",
+  production: "https://openapi.airtel.africa",
+};
+
+// GET standard/v1/payments/{id} returns data.transaction, the callback sends transaction
+export interface AirtelTransaction {
+  id?: string;
+  airtel_money_id?: string;
+  message?: string;
+  status?: string; // TS = success, TF = failed, TIP / TA = in progress
+  status_code?: string;
+}
+
+export const parseAirtelResult = (transaction: AirtelTransaction): PaymentResult => {
+  const status = (transaction.status_code || transaction.status || "").toUpperCase();
+  return {
+    status: status === "TS" ? "completed" : status === "TF" ? "failed" : "pending",
+    transactionId: transaction.airtel_money_id || undefined,
+    message: transaction.message || undefined,
+  };
+};
+
+export const parseAirtelCallback = (body: { transaction?: AirtelTransaction }): CallbackMatch => ({
+  result: parseAirtelResult(body.transaction || {}),
+  referenceId: body.transaction?.id,
+});
+
+export const createAirtelAdapter = (settings: ProviderSettings): MobileMoneyAdapter => {
+  const base = getApiBase(settings, AIRTEL_HOSTS);
+  const tokenKey = `airtel:${base}:${settings.airtel_client_id}`;
+
+  const getToken = () => {
+    if (!settings.airtel_client_id || !settings.airtel_client_secret) {
+      throw new MobileMoneyError("Airtel client ID and client secret are required");
+    }
+    return getCachedToken(tokenKey, async () => {
+      const response = await fetch(`${base}/auth/oauth2/token`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "*/*" },
+        body: JSON.stringify({
+          client_id: settings.airtel_client_id,
+          client_secret: settings.airtel_client_secret,
+          grant_type: "client_credentials",
+        }),
+      });
+      if (!response.ok) throw new MobileMoneyError(await readProviderError(response, "Airtel sign-in failed"));
+      const data = await response.json();
+      return { token: data.access_token, expiresIn: Number(data.expires_in) || 180 };
+    });
+  };
+
+  const call = async (path: string, init: RequestInit = {}, retry = true): Promise<Response> => {
+    const token = await getToken();
+    const response = await fetch(`${base}${path}`, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "*/*",
+        "X-Country": "UG",
+        "X-Currency": "UGX",
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    // A token revoked before its expiry: sign in again once
+    if (response.status === 401 && retry) {
+      clearCachedToken(tokenKey);
+      return call(path, init, false);
+    }
+    return response;
+  };
+
+  // Airtel answers 200 with status.success = false for most refusals
+  const readBody = async (response: Response, failure: string) => {
+    if (!response.ok) throw new MobileMoneyError(await readProviderError(response, failure));
+    const data = await response.json();
+    if (data?.status?.success === false) {
+      throw new MobileMoneyError(`${failure}: ${data.status.message || data.status.code || "declined"}`);
+    }
+    return data;
+  };
+
+  return {
+    simulated: false,
+
+    async requestToPay({ referenceId, phoneNumber, amount }) {
+      const response = await call("/merchant/v1/payments/", {
+        method: "POST",
+        body: JSON.stringify({
+          reference: "Sale Payment",
+          subscriber: { country: "UG", currency: "UGX", msisdn: digitsOnly(phoneNumber).replace(/^(256|0)/, "") },
+          transaction: { amount: Math.round(amount), country: "UG", currency: "UGX", id: referenceId },
+        }),
+      });
+      await readBody(response, "Airtel refused the request");
+    },
+
+    async getStatus({ referenceId }) {
+      const response = await call(`/standard/v1/payments/${referenceId}`);
+      const data = await readBody(response, "Airtel status check failed");
+      return parseAirtelResult((data?.data?.transaction || {}) as AirtelTransaction);
+    },
+
+    async refund({ transactionId }) {
+      if (!transactionId) throw new MobileMoneyError("Airtel refunds need the Airtel Money transaction ID");
+      const response = await call("/standard/v1/payments/refund", {
+        method: "POST",
+        body: JSON.stringify({ transaction: { airtel_money_id: transactionId } }),
+      });
+      await readBody(response, "Airtel refused the refund");
+    },
+
+    async getBalance() {
+      const response = await call("/standard/v1/users/balance");
+      const data = await readBody(response, "Airtel balance check failed");
+      return { available: Number(data?.data?.balance) || 0, currency: data?.data?.currency || "UGX" };
+    },
+  };
+};
@@ -0,0 +1,167 @@
+// MTN MoMo Open API. Collections requests payments and reports the balance; refunds go through the
+// Disbursements product, which has its own API user and subscription key.
+import {
+  CallbackMatch,
+  MobileMoneyAdapter,
+  MobileMoneyError,
+  PaymentResult,
+  ProviderSettings,
+  clearCachedToken,
+  digitsOnly,
+  getApiBase,
+  getCachedToken,
+  readProviderError,
+} from "./types.ts";
+
+const MTN_HOSTS = {
+  sandbox: "https://sandbox.momodeveloper.mtn.com",
+  production: "https://proxy.momoapi.mtn.com",
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type MtnProduct = "collection" | "disbursement";
+
+// GET requesttopay/{referenceId} and the callback share this body
+export interface MtnRequestToPay {
+  amount?: string;
+  currency?: string;
+  financialTransactionId?: string;
+  externalId?: string;
+  payer?: { partyIdType?: string; partyId?: string };
+  status?: string; // PENDING | SUCCESSFUL | FAILED
+  reason?: string | { code?: string; message?: string };
+}
+
+export const parseMtnResult = (body: MtnRequestToPay): PaymentResult => {
+  const reason = typeof body.reason === "string" ? body.reason : body.reason?.message || body.reason?.code;
+  const status = (body.status || "").toUpperCase();
+  return {
+    status: status === "SUCCESSFUL" ? "completed" : status === "FAILED" ? "failed" : "pending",
+    transactionId: body.financialTransactionId || undefined,
+    amount: body.amount !== undefined ? Number(body.amount) : undefined,
+    message: reason || undefined,
+  };
+};
+
+export const parseMtnCallback = (body: MtnRequestToPay & { referenceId?: string }, headers: Headers): CallbackMatch => ({
+  result: parseMtnResult(body),
+  referenceId: body.referenceId || headers.get("X-Reference-Id") || undefined,
+  paymentId: body.externalId && UUID_PATTERN.test(body.externalId) ? body.externalId : undefined,
+  phoneNumber: body.payer?.partyId,
+});
+
+export const createMtnAdapter = (settings: ProviderSettings): MobileMoneyAdapter => {
+  const base = getApiBase(settings, MTN_HOSTS);
+  const production = settings.environment === "production";
+  // The sandbox only accepts EUR
+  const currency = production ? "UGX" : "EUR";
+  const targetEnvironment = production ? "mtnuganda" : "sandbox";
+
+  const credentials = (product: MtnProduct) => {
+    const [apiUser, apiKey, subscriptionKey] =
+      product === "collection"
+        ? [settings.mtn_api_user, settings.mtn_api_key, settings.mtn_subscription_key]
+        : [settings.mtn_disbursement_api_user, settings.mtn_disbursement_api_key, settings.mtn_disbursement_subscription_key];
+    if (!apiUser || !apiKey || !subscriptionKey) {
+      throw new MobileMoneyError(
+        product === "collection"
+          ? "MTN API user, API key and subscription key are required"
+          : "MTN Disbursements credentials are required for refunds"
+      );
+    }
+    return { apiUser, apiKey, subscriptionKey, tokenKey: `mtn:${base}:${product}:${apiUser}` };
+  };
+
+  const getToken = (product: MtnProduct) => {
+    const { apiUser, apiKey, subscriptionKey, tokenKey } = credentials(product);
+    return getCachedToken(tokenKey, async () => {
+      const response = await fetch(`${base}/${product}/token/`, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${btoa(`${apiUser}:${apiKey}`)}`,
+          "Ocp-Apim-Subscription-Key": subscriptionKey,
+        },
+      });
+      if (!response.ok) throw new MobileMoneyError(await readProviderError(response, "MTN sign-in failed"));
+      const data = await response.json();
+      return { token: data.access_token, expiresIn: Number(data.expires_in) || 3600 };
+    });
+  };
+
+  const call = async (product: MtnProduct, path: string, init: RequestInit = {}, retry = true): Promise<Response> => {
+    const { subscriptionKey, tokenKey } = credentials(product);
+    const token = await getToken(product);
+    const response = await fetch(`${base}/${product}${path}`, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        ...init.headers,
+        Authorization: `Bearer ${token}`,
+        "Ocp-Apim-Subscription-Key": subscriptionKey,
+        "X-Target-Environment": targetEnvironment,
+      },
+    });
+    // A token revoked before its expiry: sign in again once
+    if (response.status === 401 && retry) {
+      clearCachedToken(tokenKey);
+      return call(product, path, init, false);
+    }
+    return response;
+  };
+
+  return {
+    simulated: false,
+
+    async requestToPay({ referenceId, paymentId, phoneNumber, amount, callbackUrl }) {
+      const response = await call("collection", "/v1_0/requesttopay", {
+        method: "POST",
+        headers: {
+          "X-Reference-Id": referenceId,
+          ...(callbackUrl ? { "X-Callback-Url": callbackUrl } : {}),
+        },
+        body: JSON.stringify({
+          amount: String(Math.round(amount)),
+          currency,
+          externalId: paymentId,
+          payer: { partyIdType: "MSISDN", partyId: digitsOnly(phoneNumber) },
+          payerMessage: "Sale Payment",
+          payeeNote: "Sale Payment",
+        }),
+      });
+      if (!response.ok) throw new MobileMoneyError(await readProviderError(response, "MTN refused the request"));
+    },
+
+    async getStatus({ referenceId }) {
+      const response = await call("collection", `/v1_0/requesttopay/${referenceId}`);
+      if (!response.ok) throw new MobileMoneyError(await readProviderError(response, "MTN status check failed"));
+      return parseMtnResult((await response.json()) as MtnRequestToPay);
+    },
+
+    async refund({ referenceId, originalReferenceId, amount }) {
+      if (!originalReferenceId || !amount) {
+        throw new MobileMoneyError("MTN refunds need the original request ID and amount");
+      }
+      const response = await call("disbursement", "/v1_0/refund", {
+        method: "POST",
+        headers: { "X-Reference-Id": referenceId },
+        body: JSON.stringify({
+          amount: String(Math.round(amount)),
+          currency,
+          externalId: referenceId,
+          payerMessage: "Refund",
+          payeeNote: "Refund",
+          referenceIdToRefund: originalReferenceId,
+        }),
+      });
+      if (!response.ok) throw new MobileMoneyError(await readProviderError(response, "MTN refused the refund"));
+    },
+
+    async getBalance() {
+      const response = await call("collection", "/v1_0/account/balance");
+      if (!response.ok) throw new MobileMoneyError(await readProviderError(response, "MTN balance check failed"));
+      const data = await response.json();
+      return { available: Number(data.availableBalance) || 0, currency: data.currency || currency };
+    },
+  };
+};
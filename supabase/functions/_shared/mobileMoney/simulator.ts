@@ -0,0 +1,50 @@
+// Built-in practice provider: nothing leaves the edge function and no money moves. Requests settle a
+// few seconds after they're made, when the next status check asks. The payer number's last digit
+// picks the outcome, as with the mock provider server in backend/scripts:
+//   1 = payer declines
+//   2 = never settles, until the request expires
+//   3 = paid, but UGX 1,000 more than asked (lands in the exceptions queue)
+//   anything else = paid
+import { MobileMoneyAdapter, MobileMoneyError, PaymentReference, PaymentResult, digitsOnly } from "./types.ts";
+
+const SETTLE_AFTER_MS = 5000;
+const SIMULATED_BALANCE = 10000000;
+
+export const simulatePaymentResult = (payment: PaymentReference, now = Date.now()): PaymentResult => {
+  if (now - new Date(payment.createdAt).getTime() < SETTLE_AFTER_MS) {
+    return { status: "pending" };
+  }
+
+  const transactionId = `SIM${payment.referenceId.replace(/-/g, "").slice(0, 10).toUpperCase()}`;
+  switch (digitsOnly(payment.phoneNumber).slice(-1)) {
+    case "1":
+      return { status: "failed", message: "Simulated: payer declined" };
+    case "2":
+      return { status: "pending" };
+    case "3":
+      return { status: "completed", transactionId, amount: payment.amount + 1000 };
+    default:
+      return { status: "completed", transactionId, amount: payment.amount };
+  }
+};
+
+export const createSimulatorAdapter = (): MobileMoneyAdapter => ({
+  simulated: true,
+
+  async requestToPay({ phoneNumber, amount }) {
+    if (digitsOnly(phoneNumber).length < 9) throw new MobileMoneyError("Simulated: invalid phone number");
+    if (!(amount > 0)) throw new MobileMoneyError("Simulated: invalid amount");
+  },
+
+  async getStatus(payment) {
+    return simulatePaymentResult(payment);
+  },
+
+  async refund({ amount, transactionId }) {
+    if (!transactionId && !amount) throw new MobileMoneyError("Simulated: nothing to refund");
+  },
+
+  async getBalance() {
+    return { available: SIMULATED_BALANCE, currency: "UGX" };
+  },
+});
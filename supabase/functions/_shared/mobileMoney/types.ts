@@ -0,0 +1,118 @@
+// The provider interface every mobile money integration implements, and helpers the adapters share.
+
+export type MobileMoneyProvider = "mtn" | "airtel";
+
+export type MobileMoneyEnvironment = "sandbox" | "production" | "simulator";
+
+export interface PaymentResult {
+  status: "pending" | "completed" | "failed";
+  transactionId?: string;
+  amount?: number;
+  message?: string;
+}
+
+// A mobile_money_settings row
+export interface ProviderSettings {
+  provider: MobileMoneyProvider;
+  environment: MobileMoneyEnvironment;
+  is_enabled: boolean | null;
+  api_base_url: string | null;
+  mtn_api_user: string | null;
+  mtn_api_key: string | null;
+  mtn_subscription_key: string | null;
+  mtn_disbursement_api_user: string | null;
+  mtn_disbursement_api_key: string | null;
+  mtn_disbursement_subscription_key: string | null;
+  airtel_client_id: string | null;
+  airtel_client_secret: string | null;
+}
+
+export interface RequestToPay {
+  referenceId: string; // Our request ID, echoed back in status checks and callbacks
+  paymentId: string; // mobile_money_payments row
+  phoneNumber: string;
+  amount: number;
+  callbackUrl?: string;
+}
+
+// What a status check needs to know about an earlier request
+export interface PaymentReference {
+  referenceId: string;
+  phoneNumber: string;
+  amount: number;
+  createdAt: string;
+}
+
+export interface RefundRequest {
+  referenceId: string; // Our refund request ID
+  originalReferenceId?: string | null; // Our ID for the collection being refunded
+  transactionId?: string | null; // The provider's ID for the collection being refunded
+  phoneNumber?: string | null;
+  amount?: number | null;
+}
+
+export interface AccountBalance {
+  available: number;
+  currency: string;
+}
+
+export interface CallbackMatch {
+  result: PaymentResult;
+  referenceId?: string; // Our request ID, when the provider echoes it
+  paymentId?: string; // Our payment ID, when the provider echoes it
+  phoneNumber?: string;
+}
+
+export interface MobileMoneyAdapter {
+  simulated: boolean;
+  /** Asks the payer to approve a collection; resolves once the provider has accepted the request */
+  requestToPay(request: RequestToPay): Promise<void>;
+  getStatus(payment: PaymentReference): Promise<PaymentResult>;
+  /** Sends a collected amount back to the payer; resolves once the provider has accepted the request */
+  refund(request: RefundRequest): Promise<void>;
+  getBalance(): Promise<AccountBalance>;
+}
+
+/** A provider refused a request or the settings are incomplete; the message is safe to show staff */
+export class MobileMoneyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MobileMoneyError";
+  }
+}
+
+export const getApiBase = (settings: ProviderSettings, hosts: Record<"sandbox" | "production", string>) =>
+  (settings.api_base_url || (settings.environment === "production" ? hosts.production : hosts.sandbox)).replace(/\/+$/, "");
+
+export const digitsOnly = (phoneNumber: string) => phoneNumber.replace(/\D/g, "");
+
+export const readProviderError = async (response: Response, fallback: string) => {
+  try {
+    const body = await response.json();
+    const message = body?.message || body?.status?.message || body?.error_description || body?.error;
+    if (typeof message === "string" && message) return `${fallback}: ${message}`;
+  } catch {
+    // Not JSON, fall through to the status text
+  }
+  return `${fallback}: ${response.status} ${response.statusText}`.trim();
+};
+
+// Access tokens live as long as the function instance, so warm instances skip the sign-in call
+const tokens = new Map<string, { token: string; expiresAt: number }>();
+
+export const getCachedToken = async (
+  key: string,
+  fetchToken: () => Promise<{ token: string; expiresIn: number }>
+): Promise<string> => {
+  const cached = tokens.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.token;
+
+  const { token, expiresIn } = await fetchToken();
+  // Renew a minute early so a token doesn't expire between the check and the request
+  tokens.set(key, { token, expiresAt: Date.now() + Math.max(expiresIn - 60, 0) * 1000 });
+  return token;
+};
+
+export const clearCachedToken = (key: string) => {
+  tokens.delete(key);
+};
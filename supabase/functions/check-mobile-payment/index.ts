@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { PaymentResult, ProviderSettings, getPaymentAdapter, jsonResponse } from "../_shared/mobileMoney.ts";
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") || "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+);
+
+// A request the provider still hasn't settled after this long is treated as failed
+const EXPIRE_AFTER_MS = 30 * 60 * 1000;
+// Department sweeps leave fresh requests to their callback
+const SWEEP_AFTER_MS = 30 * 1000;
+
+interface CheckMobilePaymentRequest {
+  paymentId?: string; // Check one payment, e.g. while the cashier waits
+  departmentId?: string; // Or every pending payment of a department
+}
+
+// Polling fallback for when a provider callback doesn't arrive
+serve(async (req: Request) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { paymentId, departmentId }: CheckMobilePaymentRequest = await req.json();
+    if (!paymentId && !departmentId) {
+      return jsonResponse({ error: "A payment ID or department ID is required" }, 400);
+    }
+
+    let query = supabase.from("mobile_money_payments").select("*").eq("status", "pending");
+    query = paymentId
+      ? query.eq("id", paymentId)
+      : query
+          .eq("department_id", departmentId)
+          .lt("created_at", new Date(Date.now() - SWEEP_AFTER_MS).toISOString())
+          .order("created_at")
+          .limit(20);
+    const { data: payments, error } = await query;
+    if (error) throw error;
+
+    const results = [];
+    for (const payment of payments || []) {
+      const { data: settings } = await supabase
+        .from("mobile_money_settings")
+        .select("*")
+        .eq("department_id", payment.department_id)
+        .eq("provider", payment.provider)
+        .maybeSingle();
+
+      let result: PaymentResult = { status: "pending" };
+      const adapter = getPaymentAdapter(payment, settings as ProviderSettings | null);
+      if (adapter && payment.reference_id) {
+        try {
+          result = await adapter.getStatus({
+            referenceId: payment.reference_id,
+            phoneNumber: payment.phone_number,
+            amount: Number(payment.amount),
+            createdAt: payment.created_at,
+          });
+        } catch (checkError) {
+          console.error(`Status check failed for payment ${payment.id}:`, checkError);
+        }
+      }
+
+      await supabase
+        .from("mobile_money_payments")
+        .update({ last_checked_at: new Date().toISOString(), check_attempts: (payment.check_attempts || 0) + 1 })
+        .eq("id", payment.id);
+
+      if (result.status === "pending" && Date.now() - new Date(payment.created_at).getTime() > EXPIRE_AFTER_MS) {
+        result = { status: "failed", message: "No confirmation from the provider" };
+      }
+
+      let outcome = "pending";
+      if (result.status !== "pending") {
+        const { data, error: applyError } = await supabase.rpc("apply_mobile_money_result", {
+          _payment_id: payment.id,
+          _status: result.status,
+          _transaction_id: result.transactionId || null,
+          _amount: result.amount ?? null,
+          _message: result.message || null,
+        });
+        if (applyError) throw applyError;
+        outcome = data;
+      }
+      results.push({ paymentId: payment.id, status: result.status, outcome });
+    }
+
+    return jsonResponse({ results });
+  } catch (error) {
+    console.error("Error checking mobile payments:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
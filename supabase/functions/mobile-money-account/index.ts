@@ -0,0 +1,168 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  MobileMoneyError,
+  ProviderSettings,
+  getAdapter,
+  getPaymentAdapter,
+  isMobileMoneyProvider,
+  jsonResponse,
+} from "../_shared/mobileMoney.ts";
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") || "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+);
+
+type MobileMoneyAccountRequest =
+  | { action: "balance"; departmentId: string; provider: string }
+  | { action: "refund"; departmentId: string; exceptionId: string; notes?: string };
+
+const getSettings = async (departmentId: string, provider: string): Promise<ProviderSettings | null> => {
+  const { data, error } = await supabase
+    .from("mobile_money_settings")
+    .select("*")
+    .eq("department_id", departmentId)
+    .eq("provider", provider)
+    .maybeSingle();
+  if (error) throw error;
+  return data as ProviderSettings | null;
+};
+
+// Balance checks (admins testing their credentials) and refunds of collections that match no sale
+serve(async (req: Request) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { global: { headers: { Authorization: authHeader } } }
+    );
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: roles } = await supabase.from("user_roles").select("role").eq("user_id", user.id);
+    const roleNames = (roles || []).map((r) => r.role);
+
+    const body: MobileMoneyAccountRequest = await req.json();
+    if (!body.departmentId) {
+      return jsonResponse({ error: "Valid department ID is required" }, 400);
+    }
+
+    if (body.action === "balance") {
+      if (!roleNames.includes("admin")) {
+        return jsonResponse({ error: "Only admins can check provider balances" }, 403);
+      }
+      if (!isMobileMoneyProvider(body.provider)) {
+        return jsonResponse({ error: "Provider must be either mtn or airtel" }, 400);
+      }
+      const settings = await getSettings(body.departmentId, body.provider);
+      if (!settings) {
+        return jsonResponse({ error: "Payment provider not configured" }, 400);
+      }
+
+      try {
+        const balance = await getAdapter(settings).getBalance();
+        return jsonResponse({ success: true, ...balance, simulated: settings.environment === "simulator" });
+      } catch (balanceError) {
+        if (!(balanceError instanceof MobileMoneyError)) throw balanceError;
+        return jsonResponse({ success: false, message: balanceError.message });
+      }
+    }
+
+    if (body.action === "refund") {
+      if (!roleNames.includes("admin") && !roleNames.includes("manager")) {
+        return jsonResponse({ error: "Only admins and managers can send refunds" }, 403);
+      }
+
+      const { data: exception, error: exceptionError } = await supabase
+        .from("mobile_money_exceptions")
+        .select("*, mobile_money_payments(is_simulated)")
+        .eq("id", body.exceptionId)
+        .maybeSingle();
+      if (exceptionError) throw exceptionError;
+      if (!exception || exception.status !== "open") {
+        return jsonResponse({ error: "This exception is not open" }, 400);
+      }
+      if (exception.reported_status !== "completed") {
+        return jsonResponse({ error: "Only collected payments can be refunded" }, 400);
+      }
+
+      const settings = await getSettings(exception.department_id || body.departmentId, exception.provider);
+      const adapter = getPaymentAdapter(
+        { is_simulated: exception.mobile_money_payments?.is_simulated === true },
+        settings
+      );
+      if (!adapter) {
+        return jsonResponse({ error: "Payment provider not configured" }, 400);
+      }
+
+      const referenceId = crypto.randomUUID();
+      let message = "Refund requested";
+      let accepted = true;
+      try {
+        await adapter.refund({
+          referenceId,
+          originalReferenceId: exception.reference_id,
+          transactionId: exception.transaction_id,
+          phoneNumber: exception.phone_number,
+          amount: exception.amount !== null ? Number(exception.amount) : null,
+        });
+      } catch (refundError) {
+        if (!(refundError instanceof MobileMoneyError)) throw refundError;
+        accepted = false;
+        message = refundError.message;
+      }
+
+      const { data: refund, error: refundInsertError } = await supabase
+        .from("mobile_money_refunds")
+        .insert({
+          department_id: exception.department_id || body.departmentId,
+          provider: exception.provider,
+          exception_id: exception.id,
+          payment_id: exception.payment_id,
+          reference_id: referenceId,
+          original_transaction_id: exception.transaction_id,
+          phone_number: exception.phone_number,
+          amount: exception.amount,
+          status: accepted ? "requested" : "failed",
+          status_message: message,
+          is_simulated: adapter.simulated,
+          created_by: user.id,
+        })
+        .select()
+        .single();
+      if (refundInsertError) throw refundInsertError;
+
+      if (accepted) {
+        const notes = body.notes?.trim();
+        await supabase
+          .from("mobile_money_exceptions")
+          .update({
+            status: "dismissed",
+            resolution_notes: `Refunded to payer (${referenceId})${notes ? `: ${notes}` : ""}`,
+            resolved_by: user.id,
+            resolved_at: new Date().toISOString(),
+          })
+          .eq("id", exception.id);
+      }
+
+      return jsonResponse({ success: accepted, message, refundId: refund.id });
+    }
+
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error) {
+    console.error("Error handling mobile money account request:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,78 @@
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { isMobileMoneyProvider, jsonResponse, parseCallback } from "../_shared/mobileMoney.ts";
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL") || "",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+);
+
+// Providers post collection results here. The URL carries a shared secret since providers can't sign in.
+serve(async (req: Request) => {
+  if (req.method !== "POST" && req.method !== "PUT") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const url = new URL(req.url);
+  const provider = url.searchParams.get("provider");
+  const secret = Deno.env.get("MOBILE_MONEY_CALLBACK_SECRET");
+
+  if (!secret || url.searchParams.get("secret") !== secret) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+  if (!isMobileMoneyProvider(provider)) {
+    return jsonResponse({ error: "Provider must be either mtn or airtel" }, 400);
+  }
+
+  try {
+    const body = await req.json();
+    const match = parseCallback(provider, body, req.headers);
+
+    let payment = null;
+    if (match.paymentId || match.referenceId) {
+      const { data, error } = await supabase
+        .from("mobile_money_payments")
+        .select("*")
+        .eq("provider", provider)
+        .eq(match.paymentId ? "id" : "reference_id", match.paymentId || match.referenceId)
+        .maybeSingle();
+      if (error) throw error;
+      payment = data;
+    }
+
+    if (!payment) {
+      await supabase.from("mobile_money_exceptions").insert({
+        provider,
+        reason: "unmatched",
+        reported_status: match.result.status,
+        reference_id: match.referenceId || match.paymentId || null,
+        transaction_id: match.result.transactionId || null,
+        phone_number: match.phoneNumber || null,
+        amount: match.result.amount ?? null,
+        payload: body,
+      });
+      console.warn(`Unmatched ${provider} callback`, match.referenceId || match.paymentId);
+      return jsonResponse({ received: true });
+    }
+
+    // Progress updates don't settle anything
+    if (match.result.status === "pending") {
+      return jsonResponse({ received: true });
+    }
+
+    const { data: outcome, error: applyError } = await supabase.rpc("apply_mobile_money_result", {
+      _payment_id: payment.id,
+      _status: match.result.status,
+      _transaction_id: match.result.transactionId || null,
+      _amount: match.result.amount ?? null,
+      _message: match.result.message || null,
+      _payload: body,
+    });
+    if (applyError) throw applyError;
+
+    return jsonResponse({ received: true, outcome });
+  } catch (error) {
+    console.error("Error handling mobile money callback:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
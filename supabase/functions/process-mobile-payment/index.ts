@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { MobileMoneyError, ProviderSettings, getAdapter, getCallbackUrl } from "../_shared/mobileMoney.ts";
 
 const supabase = createClient(
   Deno.env.get("SUPABASE_URL") || "",
@@ -11,110 +12,10 @@ interface ProcessMobilePaymentRequest {
   provider: "mtn" | "airtel";
   amount: number;
   saleId: string;
+  salePaymentId?: string; // sale_payments tender this request pays
   departmentId: string;
 }
 
-interface MTNPaymentResponse {
-  status: string;
-  message?: string;
-  transactionId?: string;
-  referenceId?: string;
-}
-
-interface AirtelPaymentResponse {
-  status: string;
-  message?: string;
-  transactionId?: string;
-  referenceId?: string;
-}
-
-// MTN Mobile Money API handler
-async function processMTNPayment(
-  phoneNumber: string,
-  amount: number,
-  merchantId: string,
-  apiKey: string
-): Promise<MTNPaymentResponse> {
-  try {
-    const response = await fetch("https://api.mtn.co.ug/api/v1/payment", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-        "X-Merchant-Id": merchantId,
-      },
-      body: JSON.stringify({
-        phoneNumber: phoneNumber.replace(/\D/g, ""),
-        amount: Math.round(amount),
-        currency: "UGX",
-        description: "Sale Payment",
-      }),
-    });
-
-    if (!response.ok) {
-      return {
-        status: "error",
-        message: `MTN API error: ${response.statusText}`,
-      };
-    }
-
-    const data = await response.json();
-    return {
-      status: "success",
-      transactionId: data.transactionId,
-      referenceId: data.referenceId,
-    };
-  } catch (error) {
-    return {
-      status: "error",
-      message: `MTN payment error: ${error instanceof Error ? error.message : "Unknown error"}`,
-    };
-  }
-}
-
-// Airtel Money API handler
-async function processAirtelPayment(
-  phoneNumber: string,
-  amount: number,
-  merchantId: string,
-  apiKey: string
-): Promise<AirtelPaymentResponse> {
-  try {
-    const response = await fetch("https://api.airtel.co.ug/api/v1/payment", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-        "X-Merchant-Id": merchantId,
-      },
-      body: JSON.stringify({
-        phoneNumber: phoneNumber.replace(/\D/g, ""),
-        amount: Math.round(amount),
-        currency: "UGX",
-        description: "Sale Payment",
-      }),
-    });
-
-    if (!response.ok) {
-      return {
-        status: "error",
-        message: `Airtel API error: ${response.statusText}`,
-      };
-    }
-
-    const data = await response.json();
-    return {
-      status: "success",
-      transactionId: data.transactionId,
-    };
-  } catch (error) {
-    return {
-      status: "error",
-      message: `Airtel payment error: ${error instanceof Error ? error.message : "Unknown error"}`,
-    };
-  }
-}
-
 serve(async (req: Request) => {
   if (req.method !== "POST") {
     return new Response("Method not allowed", { status: 405 });
@@ -146,7 +47,7 @@ serve(async (req: Request) => {
     }
 
     const body: ProcessMobilePaymentRequest = await req.json();
-    const { phoneNumber, provider, amount, saleId, departmentId } = body;
+    const { phoneNumber, provider, amount, saleId, salePaymentId, departmentId } = body;
 
     // Validate inputs
     if (!phoneNumber || typeof phoneNumber !== 'string' || phoneNumber.trim().length === 0) {
@@ -220,53 +121,77 @@ serve(async (req: Request) => {
       );
     }
 
-    // Process payment based on provider
-    let paymentResult;
-    if (provider === "mtn") {
-      paymentResult = await processMTNPayment(
-        phoneNumber,
-        amount,
-        settings.merchant_id,
-        settings.api_key
-      );
-    } else {
-      paymentResult = await processAirtelPayment(
-        phoneNumber,
-        amount,
-        settings.merchant_id,
-        settings.api_key
+    if (!settings.is_enabled) {
+      return new Response(
+        JSON.stringify({ error: "Payment provider not enabled" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
       );
     }
 
-    // Store payment record
+    const adapter = getAdapter(settings as ProviderSettings);
+
+    // Record the request first so a callback arriving straight away finds it
+    const referenceId = crypto.randomUUID();
     const { data: paymentRecord, error: insertError } = await supabase
       .from("mobile_money_payments")
       .insert({
         sale_id: saleId,
+        sale_payment_id: salePaymentId || null,
         department_id: departmentId,
         provider,
         phone_number: phoneNumber,
         amount,
-        status: paymentResult.status === "success" ? "pending" : "failed",
-        transaction_id: paymentResult.transactionId,
-        reference_id: paymentResult.referenceId,
-        response: paymentResult,
+        status: "pending",
+        reference_id: referenceId,
+        is_simulated: adapter.simulated,
       })
-      .select();
+      .select()
+      .single();
 
-    if (insertError) {
+    if (insertError || !paymentRecord) {
       return new Response(
         JSON.stringify({ error: "Failed to record payment" }),
         { status: 500, headers: { "Content-Type": "application/json" } }
       );
     }
 
+    let message = adapter.simulated ? "Practice payment started" : "Payment initiated successfully";
+    let accepted = true;
+    try {
+      await adapter.requestToPay({
+        referenceId,
+        paymentId: paymentRecord.id,
+        phoneNumber,
+        amount,
+        callbackUrl: getCallbackUrl(provider),
+      });
+    } catch (requestError) {
+      if (!(requestError instanceof MobileMoneyError)) console.error("Payment request failed:", requestError);
+      accepted = false;
+      message = requestError instanceof Error ? requestError.message : "Payment request failed";
+    }
+
+    await supabase
+      .from("mobile_money_payments")
+      .update({ response: { accepted, message } })
+      .eq("id", paymentRecord.id);
+
+    // A request the provider refused will never be confirmed, so the tender fails now
+    if (!accepted) {
+      await supabase.rpc("apply_mobile_money_result", {
+        _payment_id: paymentRecord.id,
+        _status: "failed",
+        _message: message,
+      });
+    }
+
     return new Response(
       JSON.stringify({
-        success: paymentResult.status === "success",
-        message: paymentResult.message || "Payment initiated successfully",
-        paymentId: paymentRecord?.[0]?.id,
-        transactionId: paymentResult.transactionId,
+        success: accepted,
+        message,
+        paymentId: paymentRecord.id,
+        referenceId,
+        simulated: adapter.simulated,
       }),
       { status: 200, headers: { "Content-Type": "application/json" } }
     );
@@ -0,0 +1,224 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type ChannelName = "email" | "sms" | "whatsapp";
+
+interface Reminder {
+  recipient: string;
+  subject: string;
+  message: string;
+}
+
+interface ReminderAppointment {
+  customer_phone: string | null;
+  customer_email: string | null;
+  customers: { phone: string | null; email: string | null } | null;
+}
+
+interface ReminderSettings {
+  remindersEnabled?: boolean;
+  reminderMinutesBefore?: number;
+  reminderChannels?: ChannelName[];
+  timezone?: string;
+}
+
+interface ChannelResult {
+  status: "pending" | "sent" | "failed";
+  error?: string;
+}
+
+// A way of reaching the customer. Add a provider by adding an entry to `channels`.
+interface ReminderChannel {
+  recipientFor: (appointment: ReminderAppointment) => string | null;
+  send: (reminder: Reminder) => Promise<ChannelResult>;
+}
+
+const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, "");
+  return digits.startsWith("0") ? `256${digits.slice(1)}` : digits;
+};
+
+const contactPhone = (appointment: ReminderAppointment): string | null =>
+  appointment.customers?.phone || appointment.customer_phone || null;
+
+// SMS goes through whichever provider SMS_PROVIDER names
+const smsProviders: Record<string, (to: string, message: string) => Promise<void>> = {
+  africastalking: async (to, message) => {
+    const response = await fetch("https://api.africastalking.com/version1/messaging", {
+      method: "POST",
+      headers: {
+        apiKey: Deno.env.get("AFRICASTALKING_API_KEY") ?? "",
+        Accept: "application/json",
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        username: Deno.env.get("AFRICASTALKING_USERNAME") ?? "",
+        to: `+${to}`,
+        message,
+        ...(Deno.env.get("SMS_SENDER_ID") ? { from: Deno.env.get("SMS_SENDER_ID")! } : {}),
+      }),
+    });
+    if (!response.ok) throw new Error(`Africa's Talking error: ${await response.text()}`);
+  },
+  twilio: async (to, message) => {
+    const sid = Deno.env.get("TWILIO_ACCOUNT_SID");
+    const token = Deno.env.get("TWILIO_AUTH_TOKEN");
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${sid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${btoa(`${sid}:${token}`)}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ From: Deno.env.get("TWILIO_SMS_FROM") ?? "", To: `+${to}`, Body: message }),
+    });
+    if (!response.ok) throw new Error(`Twilio API error: ${await response.text()}`);
+  },
+};
+
+const channels: Record<ChannelName, ReminderChannel> = {
+  email: {
+    recipientFor: (appointment) => appointment.customers?.email || appointment.customer_email || null,
+    send: async ({ recipient, subject, message }) => {
+      const { Resend } = await import("https://esm.sh/resend@2.0.0");
+      const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+      const { error } = await resend.emails.send({
+        from: "Appointments <onboarding@resend.dev>",
+        to: [recipient],
+        subject,
+        text: message,
+      });
+      return error ? { status: "failed", error: error.message } : { status: "sent" };
+    },
+  },
+  sms: {
+    recipientFor: (appointment) => (contactPhone(appointment) ? normalizePhone(contactPhone(appointment)!) : null),
+    send: async ({ recipient, message }) => {
+      const provider = smsProviders[Deno.env.get("SMS_PROVIDER") ?? ""];
+      if (!provider) return { status: "failed", error: "No SMS provider configured" };
+      await provider(recipient, message);
+      return { status: "sent" };
+    },
+  },
+  // WhatsApp reminders go out from the shop's own phone: staff open the wa.me link from the
+  // Appointments page, so here they are only queued.
+  whatsapp: {
+    recipientFor: (appointment) => (contactPhone(appointment) ? normalizePhone(contactPhone(appointment)!) : null),
+    send: async () => ({ status: "pending" }),
+  },
+};
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+    // Reminders are at most a week ahead, so that is as far as we need to look
+    const horizon = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+    const { data: appointments, error } = await supabase
+      .from("appointments")
+      .select("*, customers(name, phone, email), services(name), departments(name)")
+      .eq("status", "scheduled")
+      .is("reminder_sent_at", null)
+      .gt("appointment_date", now.toISOString())
+      .lte("appointment_date", horizon.toISOString());
+
+    if (error) throw error;
+
+    const settingsByDepartment = new Map<string, ReminderSettings>();
+    let queued = 0;
+
+    for (const appointment of appointments || []) {
+      if (!settingsByDepartment.has(appointment.department_id)) {
+        const { data: settings } = await supabase.rpc("get_appointment_settings", {
+          _department_id: appointment.department_id,
+        });
+        settingsByDepartment.set(appointment.department_id, settings || {});
+      }
+      const settings = settingsByDepartment.get(appointment.department_id)!;
+      if (!settings.remindersEnabled) continue;
+
+      const start = new Date(appointment.appointment_date);
+      const dueAt = start.getTime() - Number(settings.reminderMinutesBefore || 1440) * 60000;
+      if (dueAt > now.getTime()) continue;
+
+      const when = start.toLocaleString("en-GB", {
+        timeZone: settings.timezone || "Africa/Kampala",
+        weekday: "short",
+        day: "2-digit",
+        month: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+      });
+      const name = appointment.customers?.name || appointment.customer_name || "there";
+      const shop = appointment.departments?.name || "us";
+      const message = `Hi ${name}, this is a reminder of your ${appointment.services?.name || "appointment"} at ${shop} on ${when}. Reply or call us if you need to reschedule.`;
+
+      // Claim the appointment before sending, so an overlapping run can't remind the customer twice.
+      // Claimed even without a usable contact, so the appointment isn't retried every run.
+      const { data: claimed, error: claimError } = await supabase
+        .from("appointments")
+        .update({ reminder_sent_at: new Date().toISOString() })
+        .eq("id", appointment.id)
+        .is("reminder_sent_at", null)
+        .select("id");
+      if (claimError) throw claimError;
+      if (!claimed || claimed.length === 0) continue;
+
+      const rows = [];
+      for (const channelName of (settings.reminderChannels || []) as ChannelName[]) {
+        const channel = channels[channelName];
+        const recipient = channel?.recipientFor(appointment);
+        if (!channel || !recipient) continue;
+
+        let result: ChannelResult;
+        try {
+          result = await channel.send({ recipient, subject: `Appointment reminder - ${when}`, message });
+        } catch (sendError) {
+          result = { status: "failed", error: sendError instanceof Error ? sendError.message : String(sendError) };
+        }
+
+        rows.push({
+          appointment_id: appointment.id,
+          department_id: appointment.department_id,
+          channel: channelName,
+          recipient,
+          message,
+          status: result.status,
+          error: result.error ?? null,
+          sent_at: result.status === "sent" ? new Date().toISOString() : null,
+        });
+      }
+
+      if (rows.length > 0) {
+        const { error: insertError } = await supabase.from("appointment_reminders").insert(rows);
+        if (insertError) throw insertError;
+        queued += rows.length;
+      }
+    }
+
+    console.log(`Processed ${appointments?.length || 0} appointments, ${queued} reminders created`);
+
+    return new Response(
+      JSON.stringify({ success: true, reminders: queued }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 }
+    );
+  } catch (error) {
+    console.error("Error sending appointment reminders:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 }
+    );
+  }
+});
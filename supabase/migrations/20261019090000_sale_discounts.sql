@@ -0,0 +1,66 @@
+-- Line-item and cart-level discounts for the POS
+ALTER TABLE public.sale_items
+ADD COLUMN IF NOT EXISTS discount_type text,
+ADD COLUMN IF NOT EXISTS discount_value numeric DEFAULT 0,
+ADD COLUMN IF NOT EXISTS discount_amount numeric DEFAULT 0,
+ADD COLUMN IF NOT EXISTS discount_reason text;
+
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS discount_reason text,
+ADD COLUMN IF NOT EXISTS discount_approved_by uuid;
+
+COMMENT ON COLUMN public.sale_items.discount_amount IS 'UGX discount on this line. total is net of this amount';
+COMMENT ON COLUMN public.sales.discount IS 'Total UGX discount (line discounts + cart discount). total = subtotal - discount + tax';
+COMMENT ON COLUMN public.sales.discount_approved_by IS 'Manager/admin who approved a discount above the cashier cap';
+
+-- Manager override PINs (hashed, never readable from the client)
+CREATE TABLE IF NOT EXISTS public.staff_override_pins (
+  user_id uuid PRIMARY KEY,
+  pin_hash text NOT NULL,
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+ALTER TABLE public.staff_override_pins ENABLE ROW LEVEL SECURITY;
+
+-- Set the override PIN for the current user (managers and admins only)
+CREATE OR REPLACE FUNCTION public.set_override_pin(_pin text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+    IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+        RAISE EXCEPTION 'Only managers and admins can set an override PIN';
+    END IF;
+
+    IF _pin IS NULL OR length(_pin) < 4 THEN
+        RAISE EXCEPTION 'PIN must be at least 4 digits';
+    END IF;
+
+    INSERT INTO public.staff_override_pins (user_id, pin_hash, updated_at)
+    VALUES (auth.uid(), crypt(_pin, gen_salt('bf')), now())
+    ON CONFLICT (user_id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash, updated_at = now();
+
+    RETURN true;
+END;
+$$;
+
+-- Check an override PIN and return the approving manager/admin
+CREATE OR REPLACE FUNCTION public.verify_override_pin(_pin text)
+RETURNS TABLE (user_id uuid, full_name text, role public.app_role)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT p.user_id, pr.full_name, ur.role
+  FROM public.staff_override_pins p
+  JOIN public.user_roles ur ON ur.user_id = p.user_id
+  LEFT JOIN public.profiles pr ON pr.id = p.user_id
+  WHERE p.pin_hash = crypt(_pin, p.pin_hash)
+    AND ur.role IN ('admin', 'manager')
+  ORDER BY CASE WHEN ur.role = 'admin' THEN 0 ELSE 1 END
+  LIMIT 1
+$$;
@@ -0,0 +1,55 @@
+-- Tax profiles (VAT 18%, exempt, zero-rated, ...) assignable per product, service and category
+CREATE TABLE IF NOT EXISTS public.tax_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid REFERENCES public.departments(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  code text,
+  treatment text NOT NULL DEFAULT 'standard' CHECK (treatment IN ('standard', 'zero_rated', 'exempt')),
+  rate numeric NOT NULL DEFAULT 0,
+  is_inclusive boolean NOT NULL DEFAULT true,
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+COMMENT ON TABLE public.tax_profiles IS 'Tax profiles. department_id NULL = available to all departments';
+COMMENT ON COLUMN public.tax_profiles.is_inclusive IS 'true: prices already include the tax. false: tax is added on top of the price';
+COMMENT ON COLUMN public.tax_profiles.is_default IS 'Used for items with no profile on the product/service or its category';
+
+ALTER TABLE public.tax_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tax profiles viewable by authenticated"
+ON public.tax_profiles
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage tax profiles"
+ON public.tax_profiles
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Profile assignment: product/service first, then its category, then the default
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS tax_profile_id uuid REFERENCES public.tax_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.services
+ADD COLUMN IF NOT EXISTS tax_profile_id uuid REFERENCES public.tax_profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.categories
+ADD COLUMN IF NOT EXISTS tax_profile_id uuid REFERENCES public.tax_profiles(id) ON DELETE SET NULL;
+
+-- Per-line tax snapshot so reports don't change when a profile is edited later
+ALTER TABLE public.sale_items
+ADD COLUMN IF NOT EXISTS tax_profile_id uuid,
+ADD COLUMN IF NOT EXISTS tax_name text,
+ADD COLUMN IF NOT EXISTS tax_treatment text,
+ADD COLUMN IF NOT EXISTS tax_rate numeric DEFAULT 0,
+ADD COLUMN IF NOT EXISTS tax_inclusive boolean DEFAULT true,
+ADD COLUMN IF NOT EXISTS taxable_amount numeric DEFAULT 0,
+ADD COLUMN IF NOT EXISTS tax_amount numeric DEFAULT 0;
+
+COMMENT ON COLUMN public.sale_items.taxable_amount IS 'Line value excluding tax, after line and cart discounts';
+COMMENT ON COLUMN public.sales.tax IS 'Total tax on the sale (inclusive + exclusive). Only exclusive tax is added on top of subtotal - discount';
+
+CREATE INDEX IF NOT EXISTS idx_sale_items_tax_profile ON public.sale_items(tax_profile_id);
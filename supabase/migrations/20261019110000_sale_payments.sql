@@ -0,0 +1,48 @@
+-- Payments sub-ledger: one row per tender so a sale can be split across cash, mobile money, card and credit
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'split';
+
+CREATE TABLE IF NOT EXISTS public.sale_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+  department_id uuid REFERENCES public.departments(id) ON DELETE SET NULL,
+  method text NOT NULL CHECK (method IN ('cash', 'card', 'mobile_money', 'credit', 'bank_transfer')),
+  amount numeric NOT NULL CHECK (amount >= 0),
+  tendered_amount numeric,
+  reference text,
+  phone_number text,
+  provider text,
+  customer_id uuid REFERENCES public.customers(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'failed', 'reversed')),
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+COMMENT ON TABLE public.sale_payments IS 'Tenders applied to a sale. The amounts of a sale add up to sales.total';
+COMMENT ON COLUMN public.sale_payments.amount IS 'Amount applied to the sale. For cash this excludes change given back';
+COMMENT ON COLUMN public.sale_payments.tendered_amount IS 'Cash handed over by the customer, before change';
+COMMENT ON COLUMN public.sale_payments.status IS 'Mobile money tenders stay pending until the provider confirms';
+COMMENT ON COLUMN public.sales.payment_method IS 'Single tender method, or split when sale_payments holds several tenders';
+
+ALTER TABLE public.sale_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sale payments viewable by authenticated"
+ON public.sale_payments
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Staff can manage sale payments"
+ON public.sale_payments
+FOR ALL
+USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_sale_payments_sale ON public.sale_payments(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_payments_department_method ON public.sale_payments(department_id, method, created_at);
+
+-- Existing sales get a single tender for their full total
+INSERT INTO public.sale_payments (sale_id, department_id, method, amount, customer_id, created_at)
+SELECT s.id, s.department_id, s.payment_method::text, s.total, s.customer_id, s.created_at
+FROM public.sales s
+WHERE s.payment_method IS NOT NULL
+  AND s.payment_method::text <> 'split'
+  AND NOT EXISTS (SELECT 1 FROM public.sale_payments sp WHERE sp.sale_id = s.id);
@@ -0,0 +1,69 @@
+-- Partial and full returns. A return picks sale lines and quantities (or ml for refills),
+-- restocks or writes off each line, and refunds through a tender or as store credit.
+CREATE TABLE IF NOT EXISTS public.sale_returns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+  department_id uuid REFERENCES public.departments(id) ON DELETE SET NULL,
+  credit_note_number text NOT NULL,
+  reason text NOT NULL,
+  refund_method text NOT NULL CHECK (refund_method IN ('cash', 'card', 'mobile_money', 'credit', 'store_credit')),
+  refund_amount numeric NOT NULL DEFAULT 0,
+  refund_reference text,
+  customer_id uuid REFERENCES public.customers(id) ON DELETE SET NULL,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+COMMENT ON COLUMN public.sale_returns.refund_method IS 'credit = reduces what the customer owes, store_credit = adds to customers.store_credit_balance';
+
+CREATE TABLE IF NOT EXISTS public.sale_return_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_id uuid NOT NULL REFERENCES public.sale_returns(id) ON DELETE CASCADE,
+  sale_item_id uuid NOT NULL REFERENCES public.sale_items(id) ON DELETE CASCADE,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  amount numeric NOT NULL DEFAULT 0,
+  disposition text NOT NULL DEFAULT 'restock' CHECK (disposition IN ('restock', 'write_off')),
+  created_at timestamp with time zone DEFAULT now()
+);
+
+COMMENT ON COLUMN public.sale_return_items.quantity IS 'Same unit as sale_items.quantity - ml for perfume refills';
+
+ALTER TABLE public.sale_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sale_return_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sale returns viewable by authenticated"
+ON public.sale_returns
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Staff can manage sale returns"
+ON public.sale_returns
+FOR ALL
+USING (true);
+
+CREATE POLICY "Sale return items viewable by authenticated"
+ON public.sale_return_items
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Staff can manage sale return items"
+ON public.sale_return_items
+FOR ALL
+USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_sale_returns_sale ON public.sale_returns(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_returns_department_date ON public.sale_returns(department_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_sale_return_items_sale_item ON public.sale_return_items(sale_item_id);
+
+-- Running total of refunds so lists and reports don't need to join returns
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS returned_amount numeric DEFAULT 0;
+
+-- Per-scent ml of a mixture, so returns can put it back into perfume_scents.stock_ml
+ALTER TABLE public.sale_items
+ADD COLUMN IF NOT EXISTS scent_breakdown jsonb;
+
+COMMENT ON COLUMN public.sale_items.scent_breakdown IS '[{ "scent": "Oud", "scentId": "...", "ml": 15 }]';
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS store_credit_balance numeric DEFAULT 0;
@@ -0,0 +1,231 @@
+-- Stock movement ledger. Every change to products.stock / products.total_ml,
+-- product_variants.stock and perfume_scents.stock_ml leaves one immutable row here.
+CREATE TABLE IF NOT EXISTS public.stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid REFERENCES public.departments(id) ON DELETE SET NULL,
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  variant_id uuid REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  scent_id uuid REFERENCES public.perfume_scents(id) ON DELETE SET NULL,
+  stock_field text NOT NULL CHECK (stock_field IN ('stock', 'total_ml', 'stock_ml')),
+  movement_type text NOT NULL CHECK (movement_type IN (
+    'sale', 'void', 'return', 'receipt_edit', 'adjustment', 'internal_use', 'transfer', 'purchase_receipt', 'opening'
+  )),
+  quantity numeric NOT NULL,
+  balance_before numeric NOT NULL DEFAULT 0,
+  balance_after numeric NOT NULL DEFAULT 0,
+  reference_type text,
+  reference_id uuid,
+  notes text,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+COMMENT ON COLUMN public.stock_movements.quantity IS 'Signed change actually applied: negative = out of stock, positive = into stock';
+COMMENT ON COLUMN public.stock_movements.reference_type IS 'sale, sale_return, internal_stock_usage, purchase_order...; reference_id points at that row';
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Read-only to clients: rows are only written by apply_stock_movement and the audit triggers below
+CREATE POLICY "Stock movements viewable by authenticated"
+ON public.stock_movements
+FOR SELECT
+USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product ON public.stock_movements(product_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_variant ON public.stock_movements(variant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_scent ON public.stock_movements(scent_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_reference ON public.stock_movements(reference_type, reference_id);
+
+CREATE OR REPLACE FUNCTION public.prevent_stock_movement_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION 'Stock movements cannot be changed or deleted';
+END;
+$$;
+
+CREATE TRIGGER stock_movements_immutable
+BEFORE UPDATE OR DELETE ON public.stock_movements
+FOR EACH ROW EXECUTE FUNCTION public.prevent_stock_movement_changes();
+
+-- Change one stock balance and record it in the same transaction. The row is locked, so two
+-- tills selling the same item queue up instead of overwriting each other.
+-- _item_type: product | variant | scent. Products use total_ml when _use_ml, stock otherwise.
+-- Pass _new_balance instead of _quantity to set a counted balance (adjustments, stock takes).
+-- Outgoing movements stop at zero, like the app always has; the movement records what was applied.
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+    _item_type text,
+    _item_id uuid,
+    _movement_type text,
+    _quantity numeric DEFAULT NULL,
+    _new_balance numeric DEFAULT NULL,
+    _use_ml boolean DEFAULT false,
+    _reference_type text DEFAULT NULL,
+    _reference_id uuid DEFAULT NULL,
+    _notes text DEFAULT NULL
+)
+RETURNS public.stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _department_id uuid;
+    _product_id uuid;
+    _field text;
+    _before numeric;
+    _after numeric;
+    _movement public.stock_movements;
+BEGIN
+    IF _quantity IS NULL AND _new_balance IS NULL THEN
+        RAISE EXCEPTION 'Either a quantity or a new balance is required';
+    END IF;
+
+    IF _item_type = 'product' THEN
+        _field := CASE WHEN _use_ml THEN 'total_ml' ELSE 'stock' END;
+        SELECT department_id, CASE WHEN _use_ml THEN COALESCE(total_ml, 0) ELSE COALESCE(stock, 0) END
+        INTO _department_id, _before
+        FROM public.products WHERE id = _item_id FOR UPDATE;
+        _product_id := _item_id;
+    ELSIF _item_type = 'variant' THEN
+        _field := 'stock';
+        SELECT p.department_id, COALESCE(v.stock, 0), v.product_id
+        INTO _department_id, _before, _product_id
+        FROM public.product_variants v
+        LEFT JOIN public.products p ON p.id = v.product_id
+        WHERE v.id = _item_id FOR UPDATE OF v;
+    ELSIF _item_type = 'scent' THEN
+        _field := 'stock_ml';
+        SELECT department_id, COALESCE(stock_ml, 0)
+        INTO _department_id, _before
+        FROM public.perfume_scents WHERE id = _item_id FOR UPDATE;
+    ELSE
+        RAISE EXCEPTION 'Unknown stock item type: %', _item_type;
+    END IF;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Stock item % not found', _item_id;
+    END IF;
+
+    _after := GREATEST(0, COALESCE(_new_balance, _before + _quantity));
+
+    PERFORM set_config('app.stock_movement', 'on', true);
+
+    IF _item_type = 'product' AND _use_ml THEN
+        UPDATE public.products SET total_ml = _after WHERE id = _item_id;
+    ELSIF _item_type = 'product' THEN
+        UPDATE public.products SET stock = _after WHERE id = _item_id;
+    ELSIF _item_type = 'variant' THEN
+        UPDATE public.product_variants SET stock = _after WHERE id = _item_id;
+    ELSE
+        UPDATE public.perfume_scents SET stock_ml = _after WHERE id = _item_id;
+    END IF;
+
+    PERFORM set_config('app.stock_movement', 'off', true);
+
+    INSERT INTO public.stock_movements (
+        department_id, product_id, variant_id, scent_id, stock_field, movement_type,
+        quantity, balance_before, balance_after, reference_type, reference_id, notes, created_by
+    )
+    VALUES (
+        _department_id,
+        _product_id,
+        CASE WHEN _item_type = 'variant' THEN _item_id END,
+        CASE WHEN _item_type = 'scent' THEN _item_id END,
+        _field,
+        _movement_type,
+        _after - _before,
+        _before,
+        _after,
+        _reference_type,
+        _reference_id,
+        _notes,
+        auth.uid()
+    )
+    RETURNING * INTO _movement;
+
+    RETURN _movement;
+END;
+$$;
+
+-- Direct writes that bypass apply_stock_movement (product forms, imports) are still recorded,
+-- as opening balances on insert and adjustments on update.
+CREATE OR REPLACE FUNCTION public.log_direct_stock_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _old_value numeric;
+    _new_value numeric;
+    _field text;
+    _department_id uuid;
+BEGIN
+    IF current_setting('app.stock_movement', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    FOREACH _field IN ARRAY TG_ARGV LOOP
+        _old_value := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE COALESCE((to_jsonb(OLD) ->> _field)::numeric, 0) END;
+        _new_value := COALESCE((to_jsonb(NEW) ->> _field)::numeric, 0);
+
+        IF _new_value <> _old_value THEN
+            IF TG_TABLE_NAME = 'product_variants' THEN
+                SELECT department_id INTO _department_id FROM public.products WHERE id = NEW.product_id;
+            ELSE
+                _department_id := (to_jsonb(NEW) ->> 'department_id')::uuid;
+            END IF;
+
+            INSERT INTO public.stock_movements (
+                department_id, product_id, variant_id, scent_id, stock_field, movement_type,
+                quantity, balance_before, balance_after, notes, created_by
+            )
+            VALUES (
+                _department_id,
+                CASE TG_TABLE_NAME WHEN 'products' THEN NEW.id WHEN 'product_variants' THEN (to_jsonb(NEW) ->> 'product_id')::uuid END,
+                CASE WHEN TG_TABLE_NAME = 'product_variants' THEN NEW.id END,
+                CASE WHEN TG_TABLE_NAME = 'perfume_scents' THEN NEW.id END,
+                _field,
+                CASE WHEN TG_OP = 'INSERT' THEN 'opening' ELSE 'adjustment' END,
+                _new_value - _old_value,
+                _old_value,
+                _new_value,
+                CASE WHEN TG_OP = 'INSERT' THEN 'Opening balance' ELSE 'Edited directly' END,
+                auth.uid()
+            );
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER products_stock_audit
+AFTER INSERT OR UPDATE OF stock, total_ml ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.log_direct_stock_change('stock', 'total_ml');
+
+CREATE TRIGGER product_variants_stock_audit
+AFTER INSERT OR UPDATE OF stock ON public.product_variants
+FOR EACH ROW EXECUTE FUNCTION public.log_direct_stock_change('stock');
+
+CREATE TRIGGER perfume_scents_stock_audit
+AFTER INSERT OR UPDATE OF stock_ml ON public.perfume_scents
+FOR EACH ROW EXECUTE FUNCTION public.log_direct_stock_change('stock_ml');
+
+-- Movement history with item names, newest first per item
+CREATE OR REPLACE VIEW public.stock_movement_history
+WITH (security_invoker = true)
+AS
+SELECT
+  m.*,
+  COALESCE(v.name, s.name, p.name) AS item_name,
+  p.name AS product_name,
+  s.name AS scent_name,
+  pr.full_name AS created_by_name
+FROM public.stock_movements m
+LEFT JOIN public.products p ON p.id = m.product_id
+LEFT JOIN public.product_variants v ON v.id = m.variant_id
+LEFT JOIN public.perfume_scents s ON s.id = m.scent_id
+LEFT JOIN public.profiles pr ON pr.id = m.created_by;
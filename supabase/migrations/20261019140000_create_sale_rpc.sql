@@ -0,0 +1,171 @@
+-- Checkout in one transaction: header, items, tenders and stock deductions are written together
+-- or not at all. Clients send an idempotency key so a retried checkout returns the first sale.
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS idempotency_key text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_idempotency_key
+ON public.sales(idempotency_key)
+WHERE idempotency_key IS NOT NULL;
+
+-- _sale:     sales columns (receipt_number is generated when missing)
+-- _items:    sale_items columns, without sale_id
+-- _payments: sale_payments columns, without sale_id; credit tenders are added to the customer's balance
+-- _stock:    [{ "item_type": "product|variant|scent", "item_id": uuid, "name": text, "quantity": n, "use_ml": bool }]
+--            scents without an id are looked up by name in the sale's department
+CREATE OR REPLACE FUNCTION public.create_sale(
+    _idempotency_key text,
+    _sale jsonb,
+    _items jsonb,
+    _payments jsonb DEFAULT '[]'::jsonb,
+    _stock jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _existing public.sales;
+    _new_sale public.sales;
+    _receipt_number text;
+    _line jsonb;
+    _item_id uuid;
+    _quantity numeric;
+    _available numeric;
+    _payment public.sale_payments;
+    _balance_after numeric;
+BEGIN
+    IF _idempotency_key IS NOT NULL THEN
+        -- Serialise retries of the same checkout
+        PERFORM pg_advisory_xact_lock(hashtext('create_sale:' || _idempotency_key));
+
+        SELECT * INTO _existing FROM public.sales WHERE idempotency_key = _idempotency_key;
+        IF FOUND THEN
+            RETURN jsonb_build_object(
+                'sale', to_jsonb(_existing),
+                'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM public.sale_payments p WHERE p.sale_id = _existing.id), '[]'::jsonb),
+                'duplicate', true
+            );
+        END IF;
+    END IF;
+
+    IF jsonb_array_length(COALESCE(_items, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'A sale needs at least one item';
+    END IF;
+
+    _receipt_number := NULLIF(_sale ->> 'receipt_number', '');
+    IF _receipt_number IS NULL THEN
+        -- generate_receipt_number reads MAX(receipt_number), so only one checkout may use it at a time
+        PERFORM pg_advisory_xact_lock(hashtext('create_sale:receipt_number'));
+        _receipt_number := public.generate_receipt_number();
+    END IF;
+
+    INSERT INTO public.sales (
+        department_id, cashier_id, cashier_name, customer_id, payment_method,
+        subtotal, discount, discount_reason, discount_approved_by, tax, total,
+        amount_paid, change_amount, receipt_number, sale_number, invoice_number,
+        is_invoice, is_loan, notes, remarks, status, created_at, idempotency_key
+    )
+    SELECT
+        s.department_id, COALESCE(s.cashier_id, auth.uid()), s.cashier_name, s.customer_id, s.payment_method,
+        s.subtotal, COALESCE(s.discount, 0), s.discount_reason, s.discount_approved_by, COALESCE(s.tax, 0), s.total,
+        s.amount_paid, COALESCE(s.change_amount, 0), _receipt_number, COALESCE(s.sale_number, _receipt_number), s.invoice_number,
+        COALESCE(s.is_invoice, false), COALESCE(s.is_loan, false), s.notes, s.remarks, COALESCE(s.status, 'completed'),
+        COALESCE(s.created_at, now()), _idempotency_key
+    FROM jsonb_populate_record(NULL::public.sales, _sale) s
+    RETURNING * INTO _new_sale;
+
+    INSERT INTO public.sale_items (
+        sale_id, product_id, service_id, variant_id, name, item_name, quantity, unit_price, total,
+        discount_type, discount_value, discount_amount, discount_reason,
+        tax_profile_id, tax_name, tax_treatment, tax_rate, tax_inclusive, taxable_amount, tax_amount,
+        customer_type, scent_mixture, scent_breakdown, bottle_cost, ml_amount, price_per_ml
+    )
+    SELECT
+        _new_sale.id, i.product_id, i.service_id, i.variant_id, COALESCE(i.name, i.item_name, 'Unnamed Item'),
+        COALESCE(i.item_name, i.name), COALESCE(i.quantity, 1), COALESCE(i.unit_price, 0), COALESCE(i.total, 0),
+        i.discount_type, COALESCE(i.discount_value, 0), COALESCE(i.discount_amount, 0), i.discount_reason,
+        i.tax_profile_id, i.tax_name, i.tax_treatment, i.tax_rate, i.tax_inclusive, i.taxable_amount, i.tax_amount,
+        i.customer_type, i.scent_mixture, i.scent_breakdown, i.bottle_cost, i.ml_amount, i.price_per_ml
+    FROM jsonb_populate_recordset(NULL::public.sale_items, _items) i;
+
+    -- Check every line before taking anything, holding the rows so another till can't sell them meanwhile
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_stock, '[]'::jsonb)) LOOP
+        _item_id := NULLIF(_line ->> 'item_id', '')::uuid;
+        _quantity := COALESCE((_line ->> 'quantity')::numeric, 0);
+        CONTINUE WHEN _quantity <= 0;
+
+        IF _line ->> 'item_type' = 'scent' THEN
+            IF _item_id IS NULL THEN
+                SELECT id INTO _item_id
+                FROM public.perfume_scents
+                WHERE name ILIKE _line ->> 'name' AND department_id = _new_sale.department_id
+                LIMIT 1;
+                -- Untracked scents have never blocked a sale
+                CONTINUE WHEN _item_id IS NULL;
+            END IF;
+            SELECT COALESCE(stock_ml, 0) INTO _available FROM public.perfume_scents WHERE id = _item_id FOR UPDATE;
+        ELSIF _line ->> 'item_type' = 'variant' THEN
+            SELECT COALESCE(stock, 0) INTO _available FROM public.product_variants WHERE id = _item_id FOR UPDATE;
+        ELSIF COALESCE((_line ->> 'use_ml')::boolean, false) THEN
+            SELECT COALESCE(total_ml, 0) INTO _available FROM public.products WHERE id = _item_id FOR UPDATE;
+        ELSE
+            SELECT COALESCE(stock, 0) INTO _available FROM public.products WHERE id = _item_id FOR UPDATE;
+        END IF;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Stock item for % not found', COALESCE(_line ->> 'name', _item_id::text);
+        END IF;
+
+        IF _available < _quantity THEN
+            RAISE EXCEPTION 'Insufficient stock for %. Available: %', COALESCE(_line ->> 'name', 'item'), _available;
+        END IF;
+
+        PERFORM public.apply_stock_movement(
+            _line ->> 'item_type',
+            _item_id,
+            'sale',
+            -_quantity,
+            NULL,
+            COALESCE((_line ->> 'use_ml')::boolean, false),
+            'sale',
+            _new_sale.id,
+            'Receipt ' || _receipt_number
+        );
+    END LOOP;
+
+    FOR _payment IN
+        INSERT INTO public.sale_payments (
+            sale_id, department_id, method, amount, tendered_amount, reference,
+            phone_number, provider, customer_id, status, created_by
+        )
+        SELECT
+            _new_sale.id, _new_sale.department_id, p.method, p.amount, p.tendered_amount, p.reference,
+            p.phone_number, p.provider, p.customer_id, COALESCE(p.status, 'completed'), auth.uid()
+        FROM jsonb_populate_recordset(NULL::public.sale_payments, COALESCE(_payments, '[]'::jsonb)) p
+        WHERE COALESCE(p.amount, 0) > 0
+        RETURNING *
+    LOOP
+        IF _payment.method = 'credit' AND _payment.customer_id IS NOT NULL THEN
+            UPDATE public.customers
+            SET outstanding_balance = COALESCE(outstanding_balance, 0) + _payment.amount
+            WHERE id = _payment.customer_id
+            RETURNING outstanding_balance INTO _balance_after;
+
+            INSERT INTO public.customer_credit_transactions (
+                customer_id, department_id, sale_id, amount, balance_after, transaction_type, notes, created_by
+            )
+            VALUES (
+                _payment.customer_id, _new_sale.department_id, _new_sale.id, _payment.amount,
+                _balance_after, 'credit', 'Sale on credit', auth.uid()
+            );
+        END IF;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'sale', to_jsonb(_new_sale),
+        'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM public.sale_payments p WHERE p.sale_id = _new_sale.id), '[]'::jsonb),
+        'duplicate', false
+    );
+END;
+$$;
@@ -0,0 +1,84 @@
+-- Service appointments. A member of staff can only be booked once at a time, and status
+-- moves forward through scheduled -> arrived -> in_progress -> completed (or no_show / cancelled).
+CREATE TABLE IF NOT EXISTS public.appointments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid REFERENCES public.departments(id) ON DELETE CASCADE,
+  customer_id uuid REFERENCES public.customers(id) ON DELETE SET NULL,
+  service_id uuid REFERENCES public.services(id) ON DELETE SET NULL,
+  appointment_date timestamp with time zone NOT NULL,
+  duration_minutes integer NOT NULL DEFAULT 60 CHECK (duration_minutes > 0),
+  assigned_staff text,
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN (
+    'scheduled', 'arrived', 'in_progress', 'completed', 'no_show', 'cancelled'
+  )),
+  notes text,
+  sale_id uuid REFERENCES public.sales(id) ON DELETE SET NULL,
+  status_changed_at timestamp with time zone,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+COMMENT ON COLUMN public.appointments.sale_id IS 'Sale created when the appointment was checked out';
+
+ALTER TABLE public.appointments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Appointments viewable by authenticated"
+ON public.appointments
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Staff can manage appointments"
+ON public.appointments
+FOR ALL
+USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_appointments_department_date ON public.appointments(department_id, appointment_date);
+CREATE INDEX IF NOT EXISTS idx_appointments_staff_date ON public.appointments(assigned_staff, appointment_date);
+
+-- Reject moves the front desk can't make (e.g. reopening a completed appointment) and
+-- double bookings of the same staff member. Cancelled and no-show slots are free again.
+CREATE OR REPLACE FUNCTION public.validate_appointment()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _conflict public.appointments;
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+        IF NOT (
+            (OLD.status = 'scheduled' AND NEW.status IN ('arrived', 'in_progress', 'no_show', 'cancelled')) OR
+            (OLD.status = 'arrived' AND NEW.status IN ('in_progress', 'cancelled')) OR
+            (OLD.status = 'in_progress' AND NEW.status = 'completed')
+        ) THEN
+            RAISE EXCEPTION 'Appointment cannot go from % to %', OLD.status, NEW.status;
+        END IF;
+        NEW.status_changed_at := now();
+    END IF;
+
+    IF NULLIF(trim(NEW.assigned_staff), '') IS NOT NULL AND NEW.status NOT IN ('cancelled', 'no_show') THEN
+        SELECT * INTO _conflict
+        FROM public.appointments a
+        WHERE a.id <> NEW.id
+          AND a.department_id IS NOT DISTINCT FROM NEW.department_id
+          AND lower(trim(a.assigned_staff)) = lower(trim(NEW.assigned_staff))
+          AND a.status NOT IN ('cancelled', 'no_show')
+          AND a.appointment_date < NEW.appointment_date + make_interval(mins => NEW.duration_minutes)
+          AND NEW.appointment_date < a.appointment_date + make_interval(mins => a.duration_minutes)
+        LIMIT 1;
+
+        IF FOUND THEN
+            RAISE EXCEPTION '% is already booked from % for % minutes',
+                NEW.assigned_staff, to_char(_conflict.appointment_date, 'YYYY-MM-DD HH24:MI'), _conflict.duration_minutes;
+        END IF;
+    END IF;
+
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_appointment
+BEFORE INSERT OR UPDATE ON public.appointments
+FOR EACH ROW EXECUTE FUNCTION public.validate_appointment();
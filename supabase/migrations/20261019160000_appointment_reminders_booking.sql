@@ -0,0 +1,304 @@
+-- Online booking requests and appointment reminders. Both are configured per department in
+-- settings.settings_json.appointments (global settings row as fallback).
+ALTER TABLE public.appointments
+ADD COLUMN IF NOT EXISTS customer_name text,
+ADD COLUMN IF NOT EXISTS customer_phone text,
+ADD COLUMN IF NOT EXISTS customer_email text,
+ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'staff' CHECK (source IN ('staff', 'online')),
+ADD COLUMN IF NOT EXISTS reminder_sent_at timestamp with time zone;
+
+COMMENT ON COLUMN public.appointments.customer_name IS 'Contact details given on the booking page when there is no customer record yet';
+
+-- Online bookings start as requests until staff confirm them
+ALTER TABLE public.appointments DROP CONSTRAINT IF EXISTS appointments_status_check;
+ALTER TABLE public.appointments ADD CONSTRAINT appointments_status_check CHECK (status IN (
+  'requested', 'scheduled', 'arrived', 'in_progress', 'completed', 'no_show', 'cancelled'
+));
+
+CREATE OR REPLACE FUNCTION public.validate_appointment()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _conflict public.appointments;
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+        IF NOT (
+            (OLD.status = 'requested' AND NEW.status IN ('scheduled', 'cancelled')) OR
+            (OLD.status = 'scheduled' AND NEW.status IN ('arrived', 'in_progress', 'no_show', 'cancelled')) OR
+            (OLD.status = 'arrived' AND NEW.status IN ('in_progress', 'cancelled')) OR
+            (OLD.status = 'in_progress' AND NEW.status = 'completed')
+        ) THEN
+            RAISE EXCEPTION 'Appointment cannot go from % to %', OLD.status, NEW.status;
+        END IF;
+        NEW.status_changed_at := now();
+    END IF;
+
+    IF NULLIF(trim(NEW.assigned_staff), '') IS NOT NULL AND NEW.status NOT IN ('cancelled', 'no_show') THEN
+        SELECT * INTO _conflict
+        FROM public.appointments a
+        WHERE a.id <> NEW.id
+          AND a.department_id IS NOT DISTINCT FROM NEW.department_id
+          AND lower(trim(a.assigned_staff)) = lower(trim(NEW.assigned_staff))
+          AND a.status NOT IN ('cancelled', 'no_show')
+          AND a.appointment_date < NEW.appointment_date + make_interval(mins => NEW.duration_minutes)
+          AND NEW.appointment_date < a.appointment_date + make_interval(mins => a.duration_minutes)
+        LIMIT 1;
+
+        IF FOUND THEN
+            RAISE EXCEPTION '% is already booked from % for % minutes',
+                NEW.assigned_staff, to_char(_conflict.appointment_date, 'YYYY-MM-DD HH24:MI'), _conflict.duration_minutes;
+        END IF;
+    END IF;
+
+    -- A moved appointment needs a fresh reminder
+    IF TG_OP = 'UPDATE' AND NEW.appointment_date IS DISTINCT FROM OLD.appointment_date THEN
+        NEW.reminder_sent_at := NULL;
+    END IF;
+
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$$;
+
+-- One row per reminder and channel. Email and SMS are sent by the send-appointment-reminders
+-- function; WhatsApp reminders wait as 'pending' until staff open the link and send them.
+CREATE TABLE IF NOT EXISTS public.appointment_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+  department_id uuid REFERENCES public.departments(id) ON DELETE CASCADE,
+  channel text NOT NULL CHECK (channel IN ('email', 'sms', 'whatsapp')),
+  recipient text,
+  message text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  error text,
+  sent_at timestamp with time zone,
+  sent_by uuid,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+ALTER TABLE public.appointment_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Appointment reminders viewable by authenticated"
+ON public.appointment_reminders
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Staff can manage appointment reminders"
+ON public.appointment_reminders
+FOR ALL
+USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_appointment ON public.appointment_reminders(appointment_id);
+CREATE INDEX IF NOT EXISTS idx_appointment_reminders_pending ON public.appointment_reminders(department_id, status);
+
+-- Department settings over global settings over defaults
+CREATE OR REPLACE FUNCTION public.get_appointment_settings(_department_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'bookingEnabled', false,
+        'openingTime', '08:00',
+        'closingTime', '18:00',
+        'slotMinutes', 30,
+        'bookingCapacity', 1,
+        'bookingDaysAhead', 14,
+        'timezone', 'Africa/Kampala',
+        'remindersEnabled', false,
+        'reminderMinutesBefore', 1440,
+        'reminderChannels', jsonb_build_array('whatsapp')
+    )
+    || COALESCE((SELECT settings_json -> 'appointments' FROM public.settings WHERE department_id IS NULL LIMIT 1), '{}'::jsonb)
+    || COALESCE((SELECT settings_json -> 'appointments' FROM public.settings WHERE department_id = _department_id LIMIT 1), '{}'::jsonb);
+$$;
+
+-- Active appointments overlapping a slot, whoever they are assigned to
+CREATE OR REPLACE FUNCTION public.count_overlapping_appointments(_department_id uuid, _start timestamptz, _duration_minutes integer)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT count(*)::integer
+    FROM public.appointments a
+    WHERE a.department_id = _department_id
+      AND a.status NOT IN ('cancelled', 'no_show')
+      AND a.appointment_date < _start + make_interval(mins => _duration_minutes)
+      AND _start < a.appointment_date + make_interval(mins => a.duration_minutes);
+$$;
+
+-- What the public booking page shows before a customer picks a slot
+CREATE OR REPLACE FUNCTION public.get_booking_options(_department_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _settings jsonb := public.get_appointment_settings(_department_id);
+    _department_name text;
+BEGIN
+    SELECT name INTO _department_name FROM public.departments WHERE id = _department_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Department not found';
+    END IF;
+
+    RETURN jsonb_build_object(
+        'department_name', _department_name,
+        'booking_enabled', COALESCE((_settings ->> 'bookingEnabled')::boolean, false),
+        'days_ahead', COALESCE((_settings ->> 'bookingDaysAhead')::integer, 14),
+        'services', CASE WHEN COALESCE((_settings ->> 'bookingEnabled')::boolean, false) THEN COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', s.id, 'name', s.name, 'description', s.description,
+                'price', s.price, 'duration_minutes', COALESCE(s.duration_minutes, 60)
+            ) ORDER BY s.name)
+            FROM public.services s
+            WHERE s.department_id = _department_id AND s.is_active IS NOT FALSE
+        ), '[]'::jsonb) ELSE '[]'::jsonb END
+    );
+END;
+$$;
+
+-- Bookable start times for a service on a day, in the department's opening hours
+CREATE OR REPLACE FUNCTION public.get_booking_slots(_department_id uuid, _service_id uuid, _date date)
+RETURNS TABLE (slot_start timestamptz, available boolean)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _settings jsonb := public.get_appointment_settings(_department_id);
+    _timezone text := COALESCE(_settings ->> 'timezone', 'Africa/Kampala');
+    _duration integer;
+    _step integer := GREATEST(5, COALESCE((_settings ->> 'slotMinutes')::integer, 30));
+    _capacity integer := GREATEST(1, COALESCE((_settings ->> 'bookingCapacity')::integer, 1));
+    _close timestamptz;
+    _start timestamptz;
+BEGIN
+    IF NOT COALESCE((_settings ->> 'bookingEnabled')::boolean, false) THEN
+        RAISE EXCEPTION 'Online booking is not available';
+    END IF;
+
+    SELECT COALESCE(duration_minutes, 60) INTO _duration
+    FROM public.services
+    WHERE id = _service_id AND department_id = _department_id AND is_active IS NOT FALSE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Service not found';
+    END IF;
+
+    IF _date > (now() AT TIME ZONE _timezone)::date + COALESCE((_settings ->> 'bookingDaysAhead')::integer, 14) THEN
+        RETURN;
+    END IF;
+
+    _start := (_date + (_settings ->> 'openingTime')::time) AT TIME ZONE _timezone;
+    _close := (_date + (_settings ->> 'closingTime')::time) AT TIME ZONE _timezone;
+
+    WHILE _start + make_interval(mins => _duration) <= _close LOOP
+        slot_start := _start;
+        available := _start > now()
+            AND public.count_overlapping_appointments(_department_id, _start, _duration) < _capacity;
+        RETURN NEXT;
+        _start := _start + make_interval(mins => _step);
+    END LOOP;
+END;
+$$;
+
+-- Public booking request. It holds the slot as 'requested' until staff confirm or decline it.
+CREATE OR REPLACE FUNCTION public.request_booking(
+    _department_id uuid,
+    _service_id uuid,
+    _start timestamptz,
+    _name text,
+    _phone text,
+    _email text DEFAULT NULL,
+    _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _settings jsonb := public.get_appointment_settings(_department_id);
+    _timezone text := COALESCE(_settings ->> 'timezone', 'Africa/Kampala');
+    _duration integer;
+    _local_start timestamp;
+    _customer_id uuid;
+    _appointment_id uuid;
+BEGIN
+    IF NOT COALESCE((_settings ->> 'bookingEnabled')::boolean, false) THEN
+        RAISE EXCEPTION 'Online booking is not available';
+    END IF;
+
+    IF NULLIF(trim(_name), '') IS NULL OR length(regexp_replace(COALESCE(_phone, ''), '\D', '', 'g')) < 9 THEN
+        RAISE EXCEPTION 'Please enter your name and a valid phone number';
+    END IF;
+
+    SELECT COALESCE(duration_minutes, 60) INTO _duration
+    FROM public.services
+    WHERE id = _service_id AND department_id = _department_id AND is_active IS NOT FALSE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Service not found';
+    END IF;
+
+    _local_start := _start AT TIME ZONE _timezone;
+    IF _start <= now()
+       OR _local_start::date > (now() AT TIME ZONE _timezone)::date + COALESCE((_settings ->> 'bookingDaysAhead')::integer, 14)
+       OR _local_start::time < (_settings ->> 'openingTime')::time
+       OR (_local_start + make_interval(mins => _duration))::time > (_settings ->> 'closingTime')::time THEN
+        RAISE EXCEPTION 'That time is outside booking hours';
+    END IF;
+
+    -- Two customers picking the same slot at once: the second one sees it as taken
+    PERFORM pg_advisory_xact_lock(hashtext('request_booking:' || _department_id::text));
+
+    IF public.count_overlapping_appointments(_department_id, _start, _duration)
+       >= GREATEST(1, COALESCE((_settings ->> 'bookingCapacity')::integer, 1)) THEN
+        RAISE EXCEPTION 'Sorry, that time was just taken. Please pick another slot';
+    END IF;
+
+    SELECT id INTO _customer_id
+    FROM public.customers
+    WHERE department_id = _department_id
+      AND right(regexp_replace(COALESCE(phone, ''), '\D', '', 'g'), 9) = right(regexp_replace(_phone, '\D', '', 'g'), 9)
+    LIMIT 1;
+
+    INSERT INTO public.appointments (
+        department_id, customer_id, service_id, appointment_date, duration_minutes, status, source,
+        customer_name, customer_phone, customer_email, notes
+    )
+    VALUES (
+        _department_id, _customer_id, _service_id, _start, _duration, 'requested', 'online',
+        trim(_name), trim(_phone), NULLIF(trim(COALESCE(_email, '')), ''), NULLIF(trim(COALESCE(_notes, '')), '')
+    )
+    RETURNING id INTO _appointment_id;
+
+    RETURN _appointment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_booking_options(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_booking_slots(uuid, uuid, date) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.request_booking(uuid, uuid, timestamptz, text, text, text, text) TO anon, authenticated;
+
+-- Look for due reminders every 15 minutes
+SELECT cron.schedule(
+  'send-appointment-reminders',
+  '*/15 * * * *',
+  $$
+  SELECT
+    net.http_post(
+      url := 'https://ojofufyjehayzozefqca.supabase.co/functions/v1/send-appointment-reminders',
+      headers := '{"Content-Type": "application/json"}'::jsonb,
+      body := '{"scheduledMode": true}'::jsonb
+    ) as request_id;
+  $$
+);
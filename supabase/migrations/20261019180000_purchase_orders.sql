@@ -0,0 +1,311 @@
+-- Purchasing: orders to suppliers, goods-received notes that put the stock on the shelf,
+-- and supplier payments so each supplier's payable balance is known.
+ALTER TABLE public.perfume_scents
+ADD COLUMN IF NOT EXISTS cost_per_ml numeric;
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number text NOT NULL UNIQUE,
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  department_id uuid REFERENCES public.departments(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  order_date date NOT NULL DEFAULT CURRENT_DATE,
+  expected_date date,
+  total_cost numeric NOT NULL DEFAULT 0,
+  notes text,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+COMMENT ON COLUMN public.purchase_orders.total_cost IS 'Expected cost: sum of ordered quantity x unit cost';
+
+-- One line per item ordered. Products tracked in ml, and scents, are ordered in ml (use_ml).
+CREATE TABLE IF NOT EXISTS public.purchase_order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id uuid NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  item_type text NOT NULL CHECK (item_type IN ('product', 'variant', 'scent')),
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  variant_id uuid REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  scent_id uuid REFERENCES public.perfume_scents(id) ON DELETE SET NULL,
+  description text NOT NULL,
+  use_ml boolean NOT NULL DEFAULT false,
+  quantity_ordered numeric NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received numeric NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost numeric NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.goods_received_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  grn_number text NOT NULL UNIQUE,
+  purchase_order_id uuid NOT NULL REFERENCES public.purchase_orders(id) ON DELETE RESTRICT,
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  department_id uuid REFERENCES public.departments(id) ON DELETE SET NULL,
+  total_value numeric NOT NULL DEFAULT 0,
+  notes text,
+  received_by uuid,
+  received_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.goods_received_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  grn_id uuid NOT NULL REFERENCES public.goods_received_notes(id) ON DELETE CASCADE,
+  purchase_order_item_id uuid NOT NULL REFERENCES public.purchase_order_items(id) ON DELETE RESTRICT,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  unit_cost numeric NOT NULL DEFAULT 0,
+  total numeric NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS public.supplier_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  purchase_order_id uuid REFERENCES public.purchase_orders(id) ON DELETE SET NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  method text NOT NULL DEFAULT 'cash' CHECK (method IN ('cash', 'bank', 'mobile_money', 'cheque')),
+  reference text,
+  notes text,
+  paid_at date NOT NULL DEFAULT CURRENT_DATE,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goods_received_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goods_received_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.supplier_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Purchase orders viewable by authenticated"
+ON public.purchase_orders FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage purchase orders"
+ON public.purchase_orders FOR ALL USING (true);
+
+CREATE POLICY "Purchase order items viewable by authenticated"
+ON public.purchase_order_items FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage purchase order items"
+ON public.purchase_order_items FOR ALL USING (true);
+
+-- Goods received notes are only written by receive_purchase_order
+CREATE POLICY "Goods received notes viewable by authenticated"
+ON public.goods_received_notes FOR SELECT USING (true);
+
+CREATE POLICY "Goods received items viewable by authenticated"
+ON public.goods_received_items FOR SELECT USING (true);
+
+CREATE POLICY "Supplier payments viewable by authenticated"
+ON public.supplier_payments FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage supplier payments"
+ON public.supplier_payments FOR ALL USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON public.purchase_orders(supplier_id, order_date);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_department ON public.purchase_orders(department_id, status);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order ON public.purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_goods_received_notes_order ON public.goods_received_notes(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_payments_supplier ON public.supplier_payments(supplier_id, paid_at);
+
+CREATE OR REPLACE FUNCTION public.generate_po_number()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    next_number integer;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('generate_po_number'));
+
+    SELECT COALESCE(MAX(
+        CASE
+            WHEN po_number ~ '^PO-[0-9]+$'
+            THEN CAST(SUBSTRING(po_number FROM 4) AS integer)
+            ELSE 0
+        END
+    ), 0) + 1
+    INTO next_number
+    FROM public.purchase_orders;
+
+    RETURN 'PO-' || LPAD(next_number::text, 5, '0');
+END;
+$$;
+
+-- Keep the expected total in step with the lines
+CREATE OR REPLACE FUNCTION public.update_purchase_order_total()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _order_id uuid := COALESCE(NEW.purchase_order_id, OLD.purchase_order_id);
+BEGIN
+    UPDATE public.purchase_orders
+    SET total_cost = COALESCE((
+            SELECT SUM(quantity_ordered * unit_cost)
+            FROM public.purchase_order_items
+            WHERE purchase_order_id = _order_id
+        ), 0),
+        updated_at = now()
+    WHERE id = _order_id;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER purchase_order_items_total
+AFTER INSERT OR UPDATE OR DELETE ON public.purchase_order_items
+FOR EACH ROW EXECUTE FUNCTION public.update_purchase_order_total();
+
+-- Post a goods-received note against an order. Each line goes through apply_stock_movement as a
+-- purchase_receipt, and the item's cost becomes the weighted average of the stock on hand and the
+-- goods received.
+-- _lines: [{ "purchase_order_item_id": uuid, "quantity": n, "unit_cost": n }] (unit_cost defaults to the order line's)
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+    _purchase_order_id uuid,
+    _lines jsonb,
+    _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _order public.purchase_orders;
+    _grn_id uuid;
+    _grn_number text;
+    _line jsonb;
+    _item public.purchase_order_items;
+    _quantity numeric;
+    _unit_cost numeric;
+    _movement public.stock_movements;
+    _total numeric := 0;
+    _received_lines integer := 0;
+BEGIN
+    SELECT * INTO _order FROM public.purchase_orders WHERE id = _purchase_order_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+    IF _order.status IN ('received', 'cancelled') THEN
+        RAISE EXCEPTION 'Purchase order % is already %', _order.po_number, _order.status;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('receive_purchase_order:grn_number'));
+    SELECT 'GRN-' || LPAD((COALESCE(MAX(
+        CASE WHEN grn_number ~ '^GRN-[0-9]+$' THEN CAST(SUBSTRING(grn_number FROM 5) AS integer) ELSE 0 END
+    ), 0) + 1)::text, 5, '0')
+    INTO _grn_number
+    FROM public.goods_received_notes;
+
+    INSERT INTO public.goods_received_notes (grn_number, purchase_order_id, supplier_id, department_id, notes, received_by)
+    VALUES (_grn_number, _order.id, _order.supplier_id, _order.department_id, _notes, auth.uid())
+    RETURNING id INTO _grn_id;
+
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_lines, '[]'::jsonb)) LOOP
+        _quantity := COALESCE((_line ->> 'quantity')::numeric, 0);
+        CONTINUE WHEN _quantity <= 0;
+
+        SELECT * INTO _item
+        FROM public.purchase_order_items
+        WHERE id = (_line ->> 'purchase_order_item_id')::uuid AND purchase_order_id = _order.id
+        FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Line is not on purchase order %', _order.po_number;
+        END IF;
+        IF _item.quantity_received + _quantity > _item.quantity_ordered THEN
+            RAISE EXCEPTION 'Receiving % of % would exceed the % ordered', _quantity, _item.description, _item.quantity_ordered;
+        END IF;
+
+        _unit_cost := COALESCE((_line ->> 'unit_cost')::numeric, _item.unit_cost);
+
+        _movement := public.apply_stock_movement(
+            _item.item_type,
+            CASE _item.item_type WHEN 'variant' THEN _item.variant_id WHEN 'scent' THEN _item.scent_id ELSE _item.product_id END,
+            'purchase_receipt',
+            _quantity,
+            NULL,
+            _item.use_ml,
+            'goods_received_note',
+            _grn_id,
+            _grn_number || ' (' || _order.po_number || ')'
+        );
+
+        -- Variants are costed on their product, so only products and scents carry a cost here
+        IF _item.item_type = 'product' AND _item.use_ml THEN
+            UPDATE public.products
+            SET cost_per_ml = CASE
+                WHEN _movement.balance_before <= 0 OR cost_per_ml IS NULL THEN _unit_cost
+                ELSE (_movement.balance_before * cost_per_ml + _quantity * _unit_cost) / (_movement.balance_before + _quantity)
+            END
+            WHERE id = _item.product_id;
+        ELSIF _item.item_type = 'product' THEN
+            UPDATE public.products
+            SET cost_price = CASE
+                WHEN _movement.balance_before <= 0 OR cost_price IS NULL THEN _unit_cost
+                ELSE (_movement.balance_before * cost_price + _quantity * _unit_cost) / (_movement.balance_before + _quantity)
+            END
+            WHERE id = _item.product_id;
+        ELSIF _item.item_type = 'scent' THEN
+            UPDATE public.perfume_scents
+            SET cost_per_ml = CASE
+                WHEN _movement.balance_before <= 0 OR cost_per_ml IS NULL THEN _unit_cost
+                ELSE (_movement.balance_before * cost_per_ml + _quantity * _unit_cost) / (_movement.balance_before + _quantity)
+            END
+            WHERE id = _item.scent_id;
+        END IF;
+
+        UPDATE public.purchase_order_items
+        SET quantity_received = quantity_received + _quantity
+        WHERE id = _item.id;
+
+        INSERT INTO public.goods_received_items (grn_id, purchase_order_item_id, quantity, unit_cost, total)
+        VALUES (_grn_id, _item.id, _quantity, _unit_cost, _quantity * _unit_cost);
+
+        _total := _total + _quantity * _unit_cost;
+        _received_lines := _received_lines + 1;
+    END LOOP;
+
+    IF _received_lines = 0 THEN
+        RAISE EXCEPTION 'Enter a quantity for at least one line';
+    END IF;
+
+    UPDATE public.goods_received_notes SET total_value = _total WHERE id = _grn_id;
+
+    UPDATE public.purchase_orders
+    SET status = CASE
+            WHEN NOT EXISTS (
+                SELECT 1 FROM public.purchase_order_items
+                WHERE purchase_order_id = _order.id AND quantity_received < quantity_ordered
+            ) THEN 'received'
+            ELSE 'partially_received'
+        END,
+        updated_at = now()
+    WHERE id = _order.id;
+
+    RETURN _grn_id;
+END;
+$$;
+
+-- What we owe each supplier: goods received less payments made
+CREATE OR REPLACE VIEW public.supplier_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  s.id AS supplier_id,
+  s.name AS supplier_name,
+  COALESCE(r.received_value, 0) AS received_value,
+  COALESCE(p.paid, 0) AS paid,
+  COALESCE(r.received_value, 0) - COALESCE(p.paid, 0) AS balance
+FROM public.suppliers s
+LEFT JOIN (
+  SELECT supplier_id, SUM(total_value) AS received_value
+  FROM public.goods_received_notes
+  GROUP BY supplier_id
+) r ON r.supplier_id = s.id
+LEFT JOIN (
+  SELECT supplier_id, SUM(amount) AS paid
+  FROM public.supplier_payments
+  GROUP BY supplier_id
+) p ON p.supplier_id = s.id;
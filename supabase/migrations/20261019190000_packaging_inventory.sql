@@ -0,0 +1,272 @@
+-- Packaging stock: the bottles, atomizers and boxes handed over with every perfume refill.
+-- Items tied to a bottle size are used by refills of that size; items without a size by every refill.
+CREATE TABLE IF NOT EXISTS public.packaging_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid REFERENCES public.departments(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  sku text,
+  kind text NOT NULL DEFAULT 'bottle' CHECK (kind IN ('bottle', 'atomizer', 'box', 'other')),
+  bottle_size_ml numeric CHECK (bottle_size_ml IS NULL OR bottle_size_ml > 0),
+  quantity_per_refill integer NOT NULL DEFAULT 1 CHECK (quantity_per_refill > 0),
+  stock integer NOT NULL DEFAULT 0,
+  min_stock integer NOT NULL DEFAULT 10,
+  cost_price numeric NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+COMMENT ON COLUMN public.packaging_items.bottle_size_ml IS 'Refill size from perfume_pricing_config.retail_bottle_pricing this item goes with; NULL = every refill';
+
+ALTER TABLE public.packaging_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Packaging items viewable by authenticated"
+ON public.packaging_items FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage packaging items"
+ON public.packaging_items FOR ALL USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_packaging_items_department ON public.packaging_items(department_id, bottle_size_ml);
+
+ALTER TABLE public.stock_movements
+ADD COLUMN IF NOT EXISTS packaging_id uuid REFERENCES public.packaging_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_packaging ON public.stock_movements(packaging_id, created_at);
+
+-- Same as before, plus _item_type 'packaging'
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+    _item_type text,
+    _item_id uuid,
+    _movement_type text,
+    _quantity numeric DEFAULT NULL,
+    _new_balance numeric DEFAULT NULL,
+    _use_ml boolean DEFAULT false,
+    _reference_type text DEFAULT NULL,
+    _reference_id uuid DEFAULT NULL,
+    _notes text DEFAULT NULL
+)
+RETURNS public.stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _department_id uuid;
+    _product_id uuid;
+    _field text;
+    _before numeric;
+    _after numeric;
+    _movement public.stock_movements;
+BEGIN
+    IF _quantity IS NULL AND _new_balance IS NULL THEN
+        RAISE EXCEPTION 'Either a quantity or a new balance is required';
+    END IF;
+
+    IF _item_type = 'product' THEN
+        _field := CASE WHEN _use_ml THEN 'total_ml' ELSE 'stock' END;
+        SELECT department_id, CASE WHEN _use_ml THEN COALESCE(total_ml, 0) ELSE COALESCE(stock, 0) END
+        INTO _department_id, _before
+        FROM public.products WHERE id = _item_id FOR UPDATE;
+        _product_id := _item_id;
+    ELSIF _item_type = 'variant' THEN
+        _field := 'stock';
+        SELECT p.department_id, COALESCE(v.stock, 0), v.product_id
+        INTO _department_id, _before, _product_id
+        FROM public.product_variants v
+        LEFT JOIN public.products p ON p.id = v.product_id
+        WHERE v.id = _item_id FOR UPDATE OF v;
+    ELSIF _item_type = 'scent' THEN
+        _field := 'stock_ml';
+        SELECT department_id, COALESCE(stock_ml, 0)
+        INTO _department_id, _before
+        FROM public.perfume_scents WHERE id = _item_id FOR UPDATE;
+    ELSIF _item_type = 'packaging' THEN
+        _field := 'stock';
+        SELECT department_id, COALESCE(stock, 0)
+        INTO _department_id, _before
+        FROM public.packaging_items WHERE id = _item_id FOR UPDATE;
+    ELSE
+        RAISE EXCEPTION 'Unknown stock item type: %', _item_type;
+    END IF;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Stock item % not found', _item_id;
+    END IF;
+
+    _after := GREATEST(0, COALESCE(_new_balance, _before + _quantity));
+
+    PERFORM set_config('app.stock_movement', 'on', true);
+
+    IF _item_type = 'product' AND _use_ml THEN
+        UPDATE public.products SET total_ml = _after WHERE id = _item_id;
+    ELSIF _item_type = 'product' THEN
+        UPDATE public.products SET stock = _after WHERE id = _item_id;
+    ELSIF _item_type = 'variant' THEN
+        UPDATE public.product_variants SET stock = _after WHERE id = _item_id;
+    ELSIF _item_type = 'packaging' THEN
+        UPDATE public.packaging_items SET stock = _after, updated_at = now() WHERE id = _item_id;
+    ELSE
+        UPDATE public.perfume_scents SET stock_ml = _after WHERE id = _item_id;
+    END IF;
+
+    PERFORM set_config('app.stock_movement', 'off', true);
+
+    INSERT INTO public.stock_movements (
+        department_id, product_id, variant_id, scent_id, packaging_id, stock_field, movement_type,
+        quantity, balance_before, balance_after, reference_type, reference_id, notes, created_by
+    )
+    VALUES (
+        _department_id,
+        _product_id,
+        CASE WHEN _item_type = 'variant' THEN _item_id END,
+        CASE WHEN _item_type = 'scent' THEN _item_id END,
+        CASE WHEN _item_type = 'packaging' THEN _item_id END,
+        _field,
+        _movement_type,
+        _after - _before,
+        _before,
+        _after,
+        _reference_type,
+        _reference_id,
+        _notes,
+        auth.uid()
+    )
+    RETURNING * INTO _movement;
+
+    RETURN _movement;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_direct_stock_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _old_value numeric;
+    _new_value numeric;
+    _field text;
+    _department_id uuid;
+BEGIN
+    IF current_setting('app.stock_movement', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    FOREACH _field IN ARRAY TG_ARGV LOOP
+        _old_value := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE COALESCE((to_jsonb(OLD) ->> _field)::numeric, 0) END;
+        _new_value := COALESCE((to_jsonb(NEW) ->> _field)::numeric, 0);
+
+        IF _new_value <> _old_value THEN
+            IF TG_TABLE_NAME = 'product_variants' THEN
+                SELECT department_id INTO _department_id FROM public.products WHERE id = NEW.product_id;
+            ELSE
+                _department_id := (to_jsonb(NEW) ->> 'department_id')::uuid;
+            END IF;
+
+            INSERT INTO public.stock_movements (
+                department_id, product_id, variant_id, scent_id, packaging_id, stock_field, movement_type,
+                quantity, balance_before, balance_after, notes, created_by
+            )
+            VALUES (
+                _department_id,
+                CASE TG_TABLE_NAME WHEN 'products' THEN NEW.id WHEN 'product_variants' THEN (to_jsonb(NEW) ->> 'product_id')::uuid END,
+                CASE WHEN TG_TABLE_NAME = 'product_variants' THEN NEW.id END,
+                CASE WHEN TG_TABLE_NAME = 'perfume_scents' THEN NEW.id END,
+                CASE WHEN TG_TABLE_NAME = 'packaging_items' THEN NEW.id END,
+                _field,
+                CASE WHEN TG_OP = 'INSERT' THEN 'opening' ELSE 'adjustment' END,
+                _new_value - _old_value,
+                _old_value,
+                _new_value,
+                CASE WHEN TG_OP = 'INSERT' THEN 'Opening balance' ELSE 'Edited directly' END,
+                auth.uid()
+            );
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER packaging_items_stock_audit
+AFTER INSERT OR UPDATE OF stock ON public.packaging_items
+FOR EACH ROW EXECUTE FUNCTION public.log_direct_stock_change('stock');
+
+-- Every refill line (a sale item with a scent mixture) takes its packaging. This runs for
+-- create_sale, older clients and replayed offline sales alike. Packaging never blocks a sale:
+-- a shortage stops at zero like other outgoing movements and shows up in the low-stock alerts.
+-- Movements reference the sale item so a void or return can put back exactly what was taken.
+CREATE OR REPLACE FUNCTION public.deduct_refill_packaging()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _department_id uuid;
+    _item record;
+BEGIN
+    IF NEW.scent_mixture IS NULL OR COALESCE(NEW.ml_amount, 0) <= 0 THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT department_id INTO _department_id FROM public.sales WHERE id = NEW.sale_id;
+
+    FOR _item IN
+        SELECT id, quantity_per_refill
+        FROM public.packaging_items
+        WHERE department_id = _department_id
+          AND is_active
+          AND (bottle_size_ml IS NULL OR bottle_size_ml = NEW.ml_amount)
+    LOOP
+        PERFORM public.apply_stock_movement(
+            'packaging', _item.id, 'sale', -_item.quantity_per_refill, NULL, false,
+            'sale_item', NEW.id, 'Refill ' || NEW.ml_amount || 'ml'
+        );
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sale_items_refill_packaging
+AFTER INSERT ON public.sale_items
+FOR EACH ROW EXECUTE FUNCTION public.deduct_refill_packaging();
+
+-- m.* gains packaging_id, so the view is rebuilt rather than replaced
+DROP VIEW IF EXISTS public.stock_movement_history;
+
+CREATE VIEW public.stock_movement_history
+WITH (security_invoker = true)
+AS
+SELECT
+  m.*,
+  COALESCE(v.name, s.name, pk.name, p.name) AS item_name,
+  p.name AS product_name,
+  s.name AS scent_name,
+  pr.full_name AS created_by_name
+FROM public.stock_movements m
+LEFT JOIN public.products p ON p.id = m.product_id
+LEFT JOIN public.product_variants v ON v.id = m.variant_id
+LEFT JOIN public.perfume_scents s ON s.id = m.scent_id
+LEFT JOIN public.packaging_items pk ON pk.id = m.packaging_id
+LEFT JOIN public.profiles pr ON pr.id = m.created_by;
+
+-- Packaging used per item and day, net of voids and returns, for the bottle usage report
+CREATE VIEW public.packaging_usage
+WITH (security_invoker = true)
+AS
+SELECT
+  m.packaging_id,
+  pk.department_id,
+  pk.name,
+  pk.kind,
+  pk.bottle_size_ml,
+  (m.created_at AT TIME ZONE 'UTC')::date AS usage_date,
+  -SUM(m.quantity) AS quantity_used,
+  -SUM(m.quantity) * COALESCE(pk.cost_price, 0) AS cost
+FROM public.stock_movements m
+JOIN public.packaging_items pk ON pk.id = m.packaging_id
+WHERE m.reference_type = 'sale_item'
+GROUP BY m.packaging_id, pk.department_id, pk.name, pk.kind, pk.bottle_size_ml, pk.cost_price, (m.created_at AT TIME ZONE 'UTC')::date;
@@ -0,0 +1,99 @@
+-- Saved perfume recipes: named mixes of scents in fixed ratios, owned by a customer or
+-- published by the shop as a house blend. Ratios are parts, scaled to whatever size is poured.
+CREATE TABLE IF NOT EXISTS public.perfume_recipes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid REFERENCES public.departments(id) ON DELETE CASCADE,
+  customer_id uuid REFERENCES public.customers(id) ON DELETE CASCADE,
+  is_house_blend boolean NOT NULL DEFAULT false,
+  name text NOT NULL,
+  description text,
+  default_size_ml numeric CHECK (default_size_ml IS NULL OR default_size_ml > 0),
+  share_code text NOT NULL UNIQUE DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 8)),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT perfume_recipes_owner CHECK (customer_id IS NOT NULL OR is_house_blend)
+);
+
+COMMENT ON COLUMN public.perfume_recipes.share_code IS 'Printed as a QR code; resolved on /customer-scent-memory?recipe=<code>';
+
+CREATE TABLE IF NOT EXISTS public.perfume_recipe_scents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipe_id uuid NOT NULL REFERENCES public.perfume_recipes(id) ON DELETE CASCADE,
+  scent_id uuid REFERENCES public.perfume_scents(id) ON DELETE SET NULL,
+  scent_name text NOT NULL,
+  ratio numeric NOT NULL CHECK (ratio > 0),
+  sort_order integer NOT NULL DEFAULT 0
+);
+
+COMMENT ON COLUMN public.perfume_recipe_scents.scent_name IS 'Name when saved, so the recipe still reads if the scent is removed';
+
+ALTER TABLE public.perfume_recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.perfume_recipe_scents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Perfume recipes viewable by authenticated"
+ON public.perfume_recipes FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage perfume recipes"
+ON public.perfume_recipes FOR ALL USING (true);
+
+CREATE POLICY "Perfume recipe scents viewable by authenticated"
+ON public.perfume_recipe_scents FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage perfume recipe scents"
+ON public.perfume_recipe_scents FOR ALL USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_perfume_recipes_department ON public.perfume_recipes(department_id, is_house_blend);
+CREATE INDEX IF NOT EXISTS idx_perfume_recipes_customer ON public.perfume_recipes(customer_id);
+CREATE INDEX IF NOT EXISTS idx_perfume_recipe_scents_recipe ON public.perfume_recipe_scents(recipe_id, sort_order);
+
+-- What a scanned recipe QR shows. Public, so only the recipe itself and the owner's name go out.
+CREATE OR REPLACE FUNCTION public.get_perfume_recipe(_share_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _recipe public.perfume_recipes;
+    _total_ratio numeric;
+BEGIN
+    SELECT * INTO _recipe
+    FROM public.perfume_recipes
+    WHERE share_code = upper(trim(_share_code)) AND is_active;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Recipe not found';
+    END IF;
+
+    SELECT COALESCE(SUM(ratio), 0) INTO _total_ratio
+    FROM public.perfume_recipe_scents WHERE recipe_id = _recipe.id;
+
+    RETURN jsonb_build_object(
+        'id', _recipe.id,
+        'name', _recipe.name,
+        'description', _recipe.description,
+        'default_size_ml', _recipe.default_size_ml,
+        'is_house_blend', _recipe.is_house_blend,
+        'customer_id', _recipe.customer_id,
+        'customer_name', (SELECT name FROM public.customers WHERE id = _recipe.customer_id),
+        'department_id', _recipe.department_id,
+        'department_name', (SELECT name FROM public.departments WHERE id = _recipe.department_id),
+        'scents', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'scent_id', rs.scent_id,
+                'name', COALESCE(s.name, rs.scent_name),
+                'ratio', rs.ratio,
+                'percent', CASE WHEN _total_ratio > 0 THEN round(rs.ratio * 100 / _total_ratio, 1) ELSE 0 END
+            ) ORDER BY rs.sort_order, rs.scent_name)
+            FROM public.perfume_recipe_scents rs
+            LEFT JOIN public.perfume_scents s ON s.id = rs.scent_id
+            WHERE rs.recipe_id = _recipe.id
+        ), '[]'::jsonb)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_perfume_recipe(text) TO anon, authenticated;
@@ -0,0 +1,136 @@
+-- Scent stock-takes: every scent bottle in a department weighed in one session. Each line keeps
+-- the weights, what the ledger expected and what the scale says, and the difference is posted
+-- as an adjustment so stock_ml matches the shelf.
+CREATE TABLE IF NOT EXISTS public.scent_stock_takes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid REFERENCES public.departments(id) ON DELETE SET NULL,
+  scent_count integer NOT NULL DEFAULT 0,
+  total_expected_ml numeric NOT NULL DEFAULT 0,
+  total_counted_ml numeric NOT NULL DEFAULT 0,
+  total_variance_ml numeric NOT NULL DEFAULT 0,
+  notes text,
+  counted_by uuid,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.scent_stock_take_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_take_id uuid NOT NULL REFERENCES public.scent_stock_takes(id) ON DELETE CASCADE,
+  scent_id uuid REFERENCES public.perfume_scents(id) ON DELETE SET NULL,
+  scent_name text NOT NULL,
+  empty_bottle_weight_g numeric NOT NULL,
+  weight_g numeric NOT NULL,
+  density numeric NOT NULL CHECK (density > 0),
+  expected_ml numeric NOT NULL DEFAULT 0,
+  counted_ml numeric NOT NULL DEFAULT 0,
+  variance_ml numeric NOT NULL DEFAULT 0,
+  stock_movement_id uuid REFERENCES public.stock_movements(id) ON DELETE SET NULL
+);
+
+COMMENT ON COLUMN public.scent_stock_take_lines.variance_ml IS 'counted_ml - expected_ml: negative is shrinkage';
+
+ALTER TABLE public.scent_stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scent_stock_take_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Scent stock takes viewable by authenticated"
+ON public.scent_stock_takes FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage scent stock takes"
+ON public.scent_stock_takes FOR ALL USING (true);
+
+CREATE POLICY "Scent stock take lines viewable by authenticated"
+ON public.scent_stock_take_lines FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage scent stock take lines"
+ON public.scent_stock_take_lines FOR ALL USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_scent_stock_takes_department ON public.scent_stock_takes(department_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scent_stock_take_lines_take ON public.scent_stock_take_lines(stock_take_id);
+CREATE INDEX IF NOT EXISTS idx_scent_stock_take_lines_scent ON public.scent_stock_take_lines(scent_id);
+
+-- Post a stock-take in one transaction. Each weighed scent gets its new weights and an
+-- adjustment to the weighed balance; scents that weren't weighed are left alone.
+-- _lines: [{ "scent_id": uuid, "empty_bottle_weight_g": n, "weight_g": n, "density": n }]
+CREATE OR REPLACE FUNCTION public.post_scent_stock_take(
+    _department_id uuid,
+    _lines jsonb,
+    _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _stock_take_id uuid;
+    _line jsonb;
+    _scent public.perfume_scents;
+    _empty numeric;
+    _weight numeric;
+    _density numeric;
+    _counted numeric;
+    _movement public.stock_movements;
+    _count integer := 0;
+    _expected_total numeric := 0;
+    _counted_total numeric := 0;
+BEGIN
+    INSERT INTO public.scent_stock_takes (department_id, notes, counted_by)
+    VALUES (_department_id, _notes, auth.uid())
+    RETURNING id INTO _stock_take_id;
+
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_lines, '[]'::jsonb)) LOOP
+        SELECT * INTO _scent FROM public.perfume_scents WHERE id = (_line ->> 'scent_id')::uuid;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Scent not found';
+        END IF;
+
+        _empty := COALESCE((_line ->> 'empty_bottle_weight_g')::numeric, 0);
+        _weight := COALESCE((_line ->> 'weight_g')::numeric, 0);
+        _density := COALESCE(NULLIF((_line ->> 'density')::numeric, 0), 0.9);
+        IF _empty <= 0 THEN
+            RAISE EXCEPTION 'Enter the empty bottle weight for %', _scent.name;
+        END IF;
+        IF _weight < _empty THEN
+            RAISE EXCEPTION '% weighs less than its empty bottle', _scent.name;
+        END IF;
+
+        -- Same rounding as the weigh-in form: grams of oil over density, to 0.1ml
+        _counted := round((_weight - _empty) / _density, 1);
+
+        UPDATE public.perfume_scents
+        SET empty_bottle_weight_g = _empty, current_weight_g = _weight, density = _density
+        WHERE id = _scent.id;
+
+        _movement := public.apply_stock_movement(
+            'scent', _scent.id, 'adjustment', NULL, _counted, false,
+            'stock_take', _stock_take_id, 'Stock-take: weighed ' || _weight || 'g'
+        );
+
+        INSERT INTO public.scent_stock_take_lines (
+            stock_take_id, scent_id, scent_name, empty_bottle_weight_g, weight_g, density,
+            expected_ml, counted_ml, variance_ml, stock_movement_id
+        )
+        VALUES (
+            _stock_take_id, _scent.id, _scent.name, _empty, _weight, _density,
+            _movement.balance_before, _counted, _counted - _movement.balance_before, _movement.id
+        );
+
+        _count := _count + 1;
+        _expected_total := _expected_total + _movement.balance_before;
+        _counted_total := _counted_total + _counted;
+    END LOOP;
+
+    IF _count = 0 THEN
+        RAISE EXCEPTION 'Weigh at least one scent';
+    END IF;
+
+    UPDATE public.scent_stock_takes
+    SET scent_count = _count,
+        total_expected_ml = _expected_total,
+        total_counted_ml = _counted_total,
+        total_variance_ml = _counted_total - _expected_total
+    WHERE id = _stock_take_id;
+
+    RETURN _stock_take_id;
+END;
+$$;
@@ -0,0 +1,177 @@
+-- Scent variance: every weighing is kept as a stock-take, valued at the scent's cost_per_ml.
+-- Shrinkage beyond the tolerance in settings_json.stockTake (department over global) is sent
+-- to suspended_revenue for investigation.
+ALTER TABLE public.scent_stock_takes
+ADD COLUMN IF NOT EXISTS total_variance_value numeric NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS counted_by_name text,
+ADD COLUMN IF NOT EXISTS suspended_revenue_id uuid REFERENCES public.suspended_revenue(id) ON DELETE SET NULL;
+
+ALTER TABLE public.scent_stock_take_lines
+ADD COLUMN IF NOT EXISTS cost_per_ml numeric,
+ADD COLUMN IF NOT EXISTS variance_value numeric NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS over_tolerance boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.scent_stock_take_lines.variance_value IS 'variance_ml x cost_per_ml at the time of the count, in UGX';
+COMMENT ON COLUMN public.scent_stock_take_lines.over_tolerance IS 'Shrinkage larger than the stock-take tolerance';
+
+CREATE OR REPLACE FUNCTION public.get_stock_take_settings(_department_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'varianceTolerancePercent', 2,
+        'varianceToleranceMl', 5,
+        'suspendShrinkage', true
+    )
+    || COALESCE((SELECT settings_json -> 'stockTake' FROM public.settings WHERE department_id IS NULL LIMIT 1), '{}'::jsonb)
+    || COALESCE((SELECT settings_json -> 'stockTake' FROM public.settings WHERE department_id = _department_id LIMIT 1), '{}'::jsonb);
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_scent_stock_take(
+    _department_id uuid,
+    _lines jsonb,
+    _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _settings jsonb := public.get_stock_take_settings(_department_id);
+    _tolerance_percent numeric := COALESCE((_settings ->> 'varianceTolerancePercent')::numeric, 0);
+    _tolerance_ml numeric := COALESCE((_settings ->> 'varianceToleranceMl')::numeric, 0);
+    _stock_take_id uuid;
+    _counted_by_name text;
+    _line jsonb;
+    _scent public.perfume_scents;
+    _empty numeric;
+    _weight numeric;
+    _density numeric;
+    _counted numeric;
+    _variance numeric;
+    _over boolean;
+    _movement public.stock_movements;
+    _count integer := 0;
+    _expected_total numeric := 0;
+    _counted_total numeric := 0;
+    _value_total numeric := 0;
+    _shrinkage_value numeric := 0;
+    _shrinkage_scents text[] := '{}';
+    _suspended_id uuid;
+BEGIN
+    SELECT COALESCE(full_name, email) INTO _counted_by_name FROM public.profiles WHERE id = auth.uid();
+
+    INSERT INTO public.scent_stock_takes (department_id, notes, counted_by, counted_by_name)
+    VALUES (_department_id, _notes, auth.uid(), _counted_by_name)
+    RETURNING id INTO _stock_take_id;
+
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_lines, '[]'::jsonb)) LOOP
+        SELECT * INTO _scent FROM public.perfume_scents WHERE id = (_line ->> 'scent_id')::uuid;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Scent not found';
+        END IF;
+
+        _empty := COALESCE((_line ->> 'empty_bottle_weight_g')::numeric, 0);
+        _weight := COALESCE((_line ->> 'weight_g')::numeric, 0);
+        _density := COALESCE(NULLIF((_line ->> 'density')::numeric, 0), 0.9);
+        IF _empty <= 0 THEN
+            RAISE EXCEPTION 'Enter the empty bottle weight for %', _scent.name;
+        END IF;
+        IF _weight < _empty THEN
+            RAISE EXCEPTION '% weighs less than its empty bottle', _scent.name;
+        END IF;
+
+        -- Same rounding as the weigh-in form: grams of oil over density, to 0.1ml
+        _counted := round((_weight - _empty) / _density, 1);
+
+        UPDATE public.perfume_scents
+        SET empty_bottle_weight_g = _empty, current_weight_g = _weight, density = _density
+        WHERE id = _scent.id;
+
+        _movement := public.apply_stock_movement(
+            'scent', _scent.id, 'adjustment', NULL, _counted, false,
+            'stock_take', _stock_take_id, 'Stock-take: weighed ' || _weight || 'g'
+        );
+
+        _variance := _counted - _movement.balance_before;
+        -- Shrinkage counts once it passes both the ml floor and the percentage of expected stock
+        _over := _variance < 0
+            AND -_variance > GREATEST(_tolerance_ml, _movement.balance_before * _tolerance_percent / 100);
+
+        INSERT INTO public.scent_stock_take_lines (
+            stock_take_id, scent_id, scent_name, empty_bottle_weight_g, weight_g, density,
+            expected_ml, counted_ml, variance_ml, stock_movement_id,
+            cost_per_ml, variance_value, over_tolerance
+        )
+        VALUES (
+            _stock_take_id, _scent.id, _scent.name, _empty, _weight, _density,
+            _movement.balance_before, _counted, _variance, _movement.id,
+            _scent.cost_per_ml, round(_variance * COALESCE(_scent.cost_per_ml, 0)), _over
+        );
+
+        IF _over THEN
+            _shrinkage_value := _shrinkage_value - round(_variance * COALESCE(_scent.cost_per_ml, 0));
+            _shrinkage_scents := _shrinkage_scents || (_scent.name || ' ' || _variance || 'ml');
+        END IF;
+
+        _count := _count + 1;
+        _expected_total := _expected_total + _movement.balance_before;
+        _counted_total := _counted_total + _counted;
+        _value_total := _value_total + round(_variance * COALESCE(_scent.cost_per_ml, 0));
+    END LOOP;
+
+    IF _count = 0 THEN
+        RAISE EXCEPTION 'Weigh at least one scent';
+    END IF;
+
+    IF _shrinkage_value > 0 AND COALESCE((_settings ->> 'suspendShrinkage')::boolean, true) THEN
+        INSERT INTO public.suspended_revenue (department_id, cashier_name, date, amount, reason, status)
+        VALUES (
+            _department_id,
+            COALESCE(_counted_by_name, 'Stock-take'),
+            CURRENT_DATE,
+            _shrinkage_value,
+            'Scent shrinkage on stock-take: ' || array_to_string(_shrinkage_scents, ', '),
+            'pending'
+        )
+        RETURNING id INTO _suspended_id;
+    END IF;
+
+    UPDATE public.scent_stock_takes
+    SET scent_count = _count,
+        total_expected_ml = _expected_total,
+        total_counted_ml = _counted_total,
+        total_variance_ml = _counted_total - _expected_total,
+        total_variance_value = _value_total,
+        suspended_revenue_id = _suspended_id
+    WHERE id = _stock_take_id;
+
+    RETURN _stock_take_id;
+END;
+$$;
+
+-- One row per scent per stock-take, for the variance trend and repeat-shrinkage flags
+CREATE OR REPLACE VIEW public.scent_variance_history
+WITH (security_invoker = true)
+AS
+SELECT
+    l.id,
+    l.stock_take_id,
+    t.department_id,
+    t.created_at,
+    t.counted_by,
+    t.counted_by_name,
+    l.scent_id,
+    l.scent_name,
+    l.expected_ml,
+    l.counted_ml,
+    l.variance_ml,
+    l.cost_per_ml,
+    l.variance_value,
+    l.over_tolerance
+FROM public.scent_stock_take_lines l
+JOIN public.scent_stock_takes t ON t.id = l.stock_take_id;
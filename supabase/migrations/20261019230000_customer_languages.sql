@@ -0,0 +1,42 @@
+-- Customer-facing languages: receipts, invoices, WhatsApp texts and the public pages read the
+-- string catalog in the app. settings_json.i18n holds the default language and staff overrides,
+-- department row over global: { "defaultLanguage": "sw", "overrides": { "sw": { "receipt.total": "Jumla" } } }
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS preferred_language text;
+
+COMMENT ON COLUMN public.customers.preferred_language IS 'Language code for receipts and messages (en, sw, fr); NULL uses the department default';
+
+-- Public pages call this before anyone signs in. Overrides merge key by key within each language.
+CREATE OR REPLACE FUNCTION public.get_i18n_settings(_department_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _global jsonb := COALESCE((SELECT settings_json -> 'i18n' FROM public.settings WHERE department_id IS NULL LIMIT 1), '{}'::jsonb);
+    _department jsonb := COALESCE((SELECT settings_json -> 'i18n' FROM public.settings WHERE department_id = _department_id LIMIT 1), '{}'::jsonb);
+    _global_overrides jsonb;
+    _department_overrides jsonb;
+    _overrides jsonb := '{}'::jsonb;
+    _language text;
+BEGIN
+    _global_overrides := CASE WHEN jsonb_typeof(_global -> 'overrides') = 'object' THEN _global -> 'overrides' ELSE '{}'::jsonb END;
+    _department_overrides := CASE WHEN jsonb_typeof(_department -> 'overrides') = 'object' THEN _department -> 'overrides' ELSE '{}'::jsonb END;
+
+    FOR _language IN SELECT jsonb_object_keys(_global_overrides || _department_overrides) LOOP
+        _overrides := _overrides || jsonb_build_object(
+            _language,
+            COALESCE(_global_overrides -> _language, '{}'::jsonb) || COALESCE(_department_overrides -> _language, '{}'::jsonb)
+        );
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'defaultLanguage', COALESCE(_department ->> 'defaultLanguage', _global ->> 'defaultLanguage', 'en'),
+        'overrides', _overrides
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_i18n_settings(uuid) TO anon, authenticated;
@@ -0,0 +1,8 @@
+-- Scent notes: fragrance-family tags (woody, floral, citrus...) used by the Scent Assistant
+-- to answer "similar to X" and to match scents that are in stock with the same character.
+ALTER TABLE public.perfume_scents
+ADD COLUMN IF NOT EXISTS notes text[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.perfume_scents.notes IS 'Fragrance families, e.g. {woody,amber}. Empty means guessed from the name.';
+
+CREATE INDEX IF NOT EXISTS idx_perfume_scents_notes ON public.perfume_scents USING gin (notes);
@@ -0,0 +1,557 @@
+-- Scent catalog: one row per fragrance, shared by every department, replacing the hard-coded
+-- PERFUME_SCENTS list. Department stock rows (perfume_scents) link to it through catalog_id, so a
+-- sale that names a scent by an alias or a slightly different spelling still finds its stock.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS fuzzystrmatch;
+
+-- "212 VIP (M)" and "212 VIP MAN" are the same oil: gender markers come off the name into `gender`
+CREATE OR REPLACE FUNCTION public.scent_name_gender(_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN upper(btrim(_name)) ~ '\((M|MAN|MEN|H)\)$'
+          OR upper(btrim(_name)) ~ '\m(MAN|MEN|HOMME|FOR MEN|POUR HOMME)$' THEN 'men'
+        WHEN upper(btrim(_name)) ~ '\((W|F|WOMAN|WOMEN)\)$'
+          OR upper(btrim(_name)) ~ '\m(WOMAN|WOMEN|FEMME|FOR WOMEN|POUR FEMME)$' THEN 'women'
+        ELSE 'unisex'
+    END;
+$$;
+
+-- Name with case, punctuation and the gender marker removed - duplicates share a key and gender
+CREATE OR REPLACE FUNCTION public.scent_name_key(_name text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    _key text;
+    _stripped text;
+BEGIN
+    _key := regexp_replace(upper(COALESCE(_name, '')), '&', ' AND ', 'g');
+    _key := regexp_replace(_key, '\([^)]*\)', ' ', 'g');
+    _key := btrim(regexp_replace(_key, '[^A-Z0-9]+', ' ', 'g'));
+    _stripped := btrim(regexp_replace(_key, '\m(FOR MEN|FOR WOMEN|POUR HOMME|POUR FEMME|MAN|MEN|WOMAN|WOMEN|HOMME|FEMME)$', ''));
+    -- "L'HOMME" stays "L HOMME" rather than "L"
+    RETURN CASE WHEN length(_stripped) >= 3 THEN _stripped ELSE _key END;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.scent_catalog (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  name_key text GENERATED ALWAYS AS (public.scent_name_key(name)) STORED,
+  inspired_by_brand text,
+  gender text NOT NULL DEFAULT 'unisex' CHECK (gender IN ('men', 'women', 'unisex')),
+  top_notes text[] NOT NULL DEFAULT '{}',
+  heart_notes text[] NOT NULL DEFAULT '{}',
+  base_notes text[] NOT NULL DEFAULT '{}',
+  aliases text[] NOT NULL DEFAULT '{}',
+  supplier_oil_code text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+COMMENT ON COLUMN public.scent_catalog.inspired_by_brand IS 'House of the designer fragrance this oil is inspired by, e.g. Carolina Herrera';
+COMMENT ON COLUMN public.scent_catalog.aliases IS 'Other names and misspellings staff and customers use, upper case';
+COMMENT ON COLUMN public.scent_catalog.supplier_oil_code IS 'The supplier''s code for the oil, as printed on their price list';
+
+ALTER TABLE public.scent_catalog ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Scent catalog viewable by authenticated"
+ON public.scent_catalog FOR SELECT USING (true);
+
+CREATE POLICY "Staff can manage scent catalog"
+ON public.scent_catalog FOR ALL USING (true);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scent_catalog_key ON public.scent_catalog(name_key, gender);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scent_catalog_oil_code ON public.scent_catalog(upper(supplier_oil_code)) WHERE supplier_oil_code IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_scent_catalog_aliases ON public.scent_catalog USING gin (aliases);
+CREATE INDEX IF NOT EXISTS idx_scent_catalog_name_trgm ON public.scent_catalog USING gin (name_key gin_trgm_ops);
+
+ALTER TABLE public.perfume_scents
+ADD COLUMN IF NOT EXISTS catalog_id uuid REFERENCES public.scent_catalog(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_perfume_scents_catalog ON public.perfume_scents(catalog_id, department_id);
+
+-- The old constant plus every name already in stock, grouped by key and gender. The spelling
+-- most departments stock becomes the catalog name; the others become aliases.
+WITH seed(name) AS (
+  VALUES
+    ('1 MILLION (M)'), ('212 (M)'), ('212 (W)'), ('212 HEROES FOREVER YOUNG (M)'), ('212 MAN'), ('212 NYC PILLS MEN'),
+    ('212 SEXY (W)'), ('212 SEXY MAN'), ('212 VIP (M)'), ('212 VIP (W)'), ('212 VIP BLACK'), ('212 VIP BLACK RED MAN'),
+    ('212 VIP MAN'), ('212 VIP MAN PARTY FEVER'), ('212 VIP RED'), ('212 VIP ROSE'), ('212 VIP WILD PARTY'), ('212 VIP WOMAN'),
+    ('5TH AVENUE'), ('5TH AVENUE (W)'), ('6 PLACE SAINT SULPICE'), ('9PM'), ('9PM REBEL'), ('A MEN FANTASM'),
+    ('A THOUSAND WISHES'), ('ACCENTO SOSPIRO'), ('ACQUA DI GIO'), ('ACQUA DI GIO PROFUMO'), ('ACTIVE MAN'), ('ACTIVE WOMAN'),
+    ('ADIDAS'), ('AFRICAN VANILLA'), ('AL HARAMAIN AMBER OUD'), ('AL REHAB CHOCO'), ('AL REHAB SOFT LADY'), ('ALIEN AQUA'),
+    ('ALIEN MAN'), ('ALIEN WOMAN'), ('ALLURE SPORT CHANEL'), ('AMBER CINNAMON'), ('AMEER AL OUDH'), ('AMEERAAT AL ARAB'),
+    ('AMO'), ('AMOR AMOR'), ('AMOR AMOR ELECTRIC KISS'), ('AMOUGE GUIDANCE'), ('AMOUGE LOVE DELIGHT'), ('AMOUGE PURPOSE'),
+    ('ANA ABIYEDH'), ('ANAIS ANAIS'), ('ANGEL (M)'), ('ANGEL MAN'), ('ANGEL MASS'), ('ANGEL WOMAN'),
+    ('APPLE'), ('AQUA DI GRIO (M)'), ('ARDEN BEAUTY (M)'), ('ARMANI CODE (M)'), ('ARMANI CODE (W)'), ('ARMANI CODE BLACK'),
+    ('ARMANI CODE ICE'), ('ARMANI CODE NOIR'), ('ARMANI DIAMOND'), ('ARMANI PRIVE'), ('ASAD'), ('ATTRACTIVE'),
+    ('AZZARO (M)'), ('AZZARO POUR HOMME'), ('BACCARAT ROUGE 540'), ('BACCARAT ROUGE'), ('BACCARAT ROUGE EXTRAIT'), ('BAD BOY'),
+    ('BAD BOY DAZZLING GARDEN'), ('BADEE AL OUD GLORY'), ('BAMBOO'), ('BANANA CAR FRESHNER'), ('BE DELICIOUS'), ('BEAUTIFUL'),
+    ('BEAUTIFUL (W)'), ('BELLE DE JOUR DIOR'), ('BENTLEY'), ('BENTLEY INTENSE MAN'), ('BERIES WEEKEND'), ('BEYONCE HEAT'),
+    ('BEYONCE HEAT RUSH'), ('BEYONCE MIDNIGHT HEAT'), ('BEYONCE PULSE'), ('BHB BOTTLE SIGNATURE'), ('BLACK ICE'), ('BLACK OPIUM'),
+    ('BLACK OPIUM (W)'), ('BLACK ORCHID'), ('BLACK XS (M)'), ('BLACK XS BE LEGEND'), ('BLACK XS FOR HER'), ('BLACK XS L''EXCESS MAN'),
+    ('BLACK XS L''EXCESS WOMAN'), ('BLACK XS LOS ANGELES MEN'), ('BLACK XS MAN'), ('BLACK XS WOMAN'), ('BLOOM'), ('BLUE FOR MEN'),
+    ('BLUE ICE'), ('BLUE LADY'), ('BLUE SEDUCTION'), ('BLUE SULPHIRE'), ('BLUE TIME'), ('BLUE TURQUOISE'),
+    ('BLUE VERSACE MAN'), ('BLUEBERRY'), ('BODY'), ('BOMB SHELL V/S'), ('BOMBSHELL'), ('BOMBSHELL OUD'),
+    ('BOMBSHELL WILD FLOWER'), ('BOND SIGNATURE'), ('BOSS BOTTLED INFINITE'), ('BOSS BOTTLED UNITED'), ('BOSS NUIT'), ('BOSS ORANGE'),
+    ('BOSS SOUL'), ('BOSS THE SCENT FOR HER'), ('BOSS THE SCENT FOR HIM'), ('BROWN ORCHID'), ('BUBBLE GUM'), ('BUBERRYS (W)'),
+    ('BULGARI EXTREMELY'), ('BULGARI MAN WOOD'), ('BURBERRY BRIT'), ('BURBERRY GODDESS (W)'), ('BURBERRY INTENSE'), ('BURBERRY LONDON'),
+    ('BURBERRY THE BEAT'), ('BURBERRY WEEKEND'), ('BVLGARI (M)'), ('BVLGARI AQUA'), ('BVLGARI EXTREME MAN'), ('BVLGARI GOLDEA WOMAN'),
+    ('BVLGARI MAN'), ('BVLGARI MAN IN BLACK'), ('BVLGARI MAN WOOD ESSENCE'), ('CE NOIR BEYONCE (M)'), ('CERRUTI 1881 (W)'), ('CHAMPION'),
+    ('CHANCE (W)'), ('CHANCE CHANEL'), ('CHANCE CHANEL (W)'), ('CHANEL BLUE'), ('CHANEL COMETE'), ('CHANEL NO. 5'),
+    ('CHANEL PLATINUM'), ('CHANNEL 5 (W)'), ('CHANNEL ALLURE (M)'), ('CHANNEL ALLURE (W)'), ('CHANNEL BLUE (M)'), ('CHANNEL NO.5'),
+    ('CHASTITY'), ('CHELSEA'), ('CHLO NUIT'), ('CHLO ROSE'), ('CHLOE'), ('CHLOE (W)'),
+    ('CHLOE NOMADE ABSOLU DE PARFUM'), ('CHOCO MUSK'), ('CHOCOLATE'), ('CHOCOLATE CAR FRESHNER'), ('CHROME AZZARO'), ('CK 1 (W)'),
+    ('CK ALL (M)'), ('CK BE'), ('CK IN 2 U HER (W)'), ('CK IN 2 U HIM (M)'), ('CK OBSESSION (W)'), ('CK ONE'),
+    ('CK REVEAL'), ('CLUB DE NUIT INTENCE (M)'), ('CLUB DE NUIT INTENSE MAN'), ('CODE ABSOLU'), ('COCO CHANEL'), ('COCO MADEMOISELLE'),
+    ('COCONUT'), ('COCONUT PASSION'), ('COOL WATER (M)'), ('COOL WATER (W)'), ('COOL WATER MEN'), ('COOL WATERS MAN'),
+    ('COOL WATERS WOMAN BLUE'), ('COOL WATERS WOMAN CLEAR'), ('CREED AVENTIS (M)'), ('CREED AVENTIS (W)'), ('CREED AVENTUS MAN'), ('CREED AVENTUS WOMAN'),
+    ('CREED QUEEN OF SILK'), ('CREED SILVER'), ('CREED SILVER MOUNTAIN'), ('D&G INTENSE WOMAN'), ('D&G LIGHT BLUE FOREVER MAN'), ('D&G LIGHT BLUE MAN'),
+    ('D&G LIGHT BLUE WOMAN'), ('D&G THE ONE MAN'), ('D&G THE ONE WOMAN'), ('D&G THE ONLY ONE'), ('DANGEROUS ME'), ('DARMIN OFF POKER'),
+    ('DECADENCE'), ('DECADENCE INNOCENCE'), ('DEEP DESIRE WOMAN'), ('DELINA EXCLUSIF'), ('DIESEL'), ('DIESEL BAD INTENSE'),
+    ('DIESEL FUEL FOR LIFE'), ('DIESEL ONLY THE BRAVE TATOO'), ('DIOR ADDICT'), ('DIOR HOMME INTENSE'), ('DIOR ROUGE'), ('DKNY BE DELICIOUS'),
+    ('DOICE VITA (W)'), ('DOLCE & GABBANA'), ('DONNA VALENTINO'), ('DUNE DIOR'), ('DUNHILL DESIR RED'), ('DUNHILL DESIRE (M)'),
+    ('DUNHILL DESIRE BLACK'), ('DUNHILL DESIRE BLUE'), ('DUNHILL DESIRE BROWN'), ('DUNHILL DESIRE EXTREME'), ('DUNHILL FRESH (M)'), ('DUNHILL DESIRE RED'),
+    ('DYLAN BLUE VERSACE MAN'), ('DYLAN BLUE VERSACE WOMAN'), ('EARLY RISE PARK CAR FRESHNER'), ('ECLAIRE'), ('EGOISTER MAN CHANNEL'), ('ELECTRIC CHERRY TOMFORD'),
+    ('ELIXIR FOR HER LACOSTE'), ('EMOTIONS'), ('ENCOUNTER'), ('ENDLESS EUPHORIA'), ('ESCADA (M)'), ('ESCADA (W)'),
+    ('ESCADA CANDY'), ('ESCADA CELEBRATE LIFE'), ('ESCADA CHERRY IN THE AIR'), ('ESCADA COLLECTION (W)'), ('ESCADA ESPECIALLY'), ('ESCADA GRAFFITY (W)'),
+    ('ESCADA ISLAND KISS'), ('ESCADA ISLAND KISS (W)'), ('ESCADA MAGNETISM'), ('ESCADA MAGNETISM (W)'), ('ESCADA MIAMI BLOSSOM'), ('ESCADA MOONSPARKLE'),
+    ('ESCADA PACIFIC PARADISE'), ('ESCADA SENTIMENT (M)'), ('ESCADA SENTIMENT (W)'), ('ESCADA SEXY (W)'), ('ESCADA SEXY GRAFFITI'), ('ESCADA SORBETTO ROSSO'),
+    ('ESCADA SUNSET HEAT'), ('ESCADA TAJ SUNSET'), ('ESCADA TAJ SUNSET (W)'), ('ESCADA TROPICAL PUNCH (W)'), ('ESCADA TURQUOISE'), ('ESCADA VERY SEXY (W)'),
+    ('ESCAPE (M)'), ('ESCAPE (W)'), ('ETERNITY (M)'), ('ETERNITY (W)'), ('ETERNITY AIR FOR MAN'), ('ETERNITY AIR FOR WOMAN'),
+    ('ETERNITY AQUA'), ('ETERNITY MAN'), ('ETERNITY MOMENT'), ('ETERNITY WOMAN'), ('EUPHORIA (M)'), ('EUPHORIA (W)'),
+    ('EUPHORIA INTENSE'), ('EUPHORIA LIQUID GOLD WOMAN'), ('EUPHORIA MAN'), ('EUPHORIA TWIST'), ('EUPHORIA WOMAN'), ('F FABULOUS'),
+    ('FAHRENHEIT'), ('FAKAR'), ('FAME'), ('FANTACY (W)'), ('FANTASY'), ('FANTASY IN BLOOM'),
+    ('FASIO'), ('FERRARI BLACK'), ('FERRARI BLUE'), ('FERRARI CEDAR'), ('FERRARI CEDAR ESSENCE'), ('FERRARI RED'),
+    ('FLORENCE CAVALLI'), ('FLORA'), ('FLORA GORGEOUS GARDEN'), ('FLOWER BOMB'), ('FLOWER BY KEN'), ('FORBIDDEN EUPHORIA'),
+    ('FOREVER RED'), ('GABRIEL'), ('GIO GIO (M)'), ('GIRL BY NIGHT'), ('GIRL OF NOW SAAB'), ('GIRLS CAN SAY ANYTHING'),
+    ('GIRLS OF NOW'), ('GIVENCHY (W)'), ('GIVENCHY BLUE LABEL'), ('GIVENCHY GENTLEMEN INTENSE'), ('GIVENCHY GENTLEMAN'), ('GIVENCHY GENTLEMAN ONLY INTENSE'),
+    ('GIVENCHY PI'), ('GIVENCHY XERYUS ROUGE'), ('GLISTENING AMBER'), ('GOLDEN DUST'), ('GOLDEN DUST (W)'), ('GOOD GIRL'),
+    ('GOOD GIRL DAZZLING GARDEN'), ('GOOD GIRL LEGERE'), ('GOOD GIRL SUPREME'), ('GRAPE'), ('GREEN APPLE CAR FRESHNER'), ('GREEN TEA'),
+    ('GUCCI BAMBOO'), ('GUCCI FLORA (W)'), ('GUCCI GUILTY BLACK MAN'), ('GUCCI GUILTY INTENSE MAN'), ('GUCCI GUILTY LOVE EDITION MAN'), ('GUCCI GUILTY LOVE EDITION WOMAN'),
+    ('GUCCI GUILTY WOMAN'), ('GUCCI MAN'), ('GUCCI RUSH (W)'), ('GUCCI RUSH MAN'), ('GUILTY BY GUCCI (W)'), ('GUMDROP THE BEAT'),
+    ('GUESS 1981 WOMAN'), ('HAKAYAT AL OUD'), ('HAPPY CLINIQUE MAN'), ('HAVOC (W)'), ('HAYA'), ('HER BURBERRY'),
+    ('HER GOLDEN SECRET'), ('HERMES BARENIA'), ('HIND AL OUD'), ('HIS GIRLFRIEND'), ('HOT AND SWEET'), ('HOT WATER'),
+    ('HUGO BOSS ALIVE'), ('HUGO BOSS EXTREME'), ('HUGO BOSS INTENSE'), ('HUGO BOSS MAN'), ('HUGO BOSS SCENTS MAN'), ('HUGO ENERGIZE'),
+    ('HUGO MAN BY HUGO BOSS (M)'), ('HUGO SCENTS FOR HER'), ('HYPNOSE LANCOME'), ('HYPNOTIC POISON'), ('IDOLE'), ('IMITATION FOR MAN'),
+    ('IMITATION FOR WOMAN'), ('IN LOVE (W)'), ('INNOCENCE'), ('INSTANT CRUSH MANCERA'), ('INTENSE PINK'), ('INTO THE NIGHT'),
+    ('INVICTUS'), ('INVICTUS (M)'), ('INVICTUS AQUA'), ('INVICTUS LEGEND'), ('INVICTUS MAN'), ('INVICTUS PLATINUM'),
+    ('INVICTUS VICTORY'), ('ISLAND FANTASY'), ('ISSEY MIYAKE (M)'), ('ISSEY MIYAKE (W)'), ('ISSEY MIYAKE'), ('ISSEY MIYAKE HOT SPORT'),
+    ('ISSEY MIYAKE SPORT'), ('ISSEY MIYAKE WOMAN'), ('J''ADORE'), ('J. LO GLOW'), ('J. LO GLOW AFTER DARK'), ('JADORE (W)'),
+    ('JAGUAR CLASSIC BLACK'), ('JAMES BOND'), ('JAMES BOND GIRL'), ('JAPANESE CHERRY BLOSSOM'), ('JASMIN DES ANGES'), ('JASMINE'),
+    ('JEAN PAUL'), ('JEAN PAUL (W)'), ('JEAN PAUL GAULTIER'), ('JIMMY CHOO MAN BLUE'), ('J''LO LIVE'), ('JO JO ARMANI SI (W)'),
+    ('JOOP NIGHT (M)'), ('JOY DIOR'), ('JPG LA BELLE PARADISE GARDEN'), ('JPG LA MALE'), ('JUST CAVALLI'), ('KALAN DE MARLY'),
+    ('KAYALI (W)'), ('KAYALI EDEN JUICE'), ('KAYALI EDEN JUICY APPLE 01'), ('KAYALI VANILLA 28'), ('KAYALI YUM PISTACHIO GELATO 33'), ('KENZO AMOUR'),
+    ('KENZO AQUA'), ('KENZO FLOWER'), ('KENZO WORLD'), ('KHAMRA'), ('KHAMRAH'), ('KILLAN LOVE AND TEARS'),
+    ('KIM KARDASHIAN GOLD'), ('KIMOJI CHERRY KKW'), ('KIMOJI PEACH'), ('KOUROS (M)'), ('KUOROS'), ('L''AIR DU PARADIS'),
+    ('L''EAU D''ISSEY PURE PETALE DE NECTAR'), ('L''HOMME IDEAL INTENSE'), ('L''HOMME MENTHE'), ('L''INTERDIT'), ('LA NUIT DE L''HOMME BLEU ELECTRIQUE'), ('LA NUIT TRESOR'),
+    ('LA NUIT TRESOR NUDE'), ('LA PETITE ROSE ROBE'), ('LA VIE EST BELLE'), ('LA VIE EST BELLE INTENSE'), ('LACOSTE (M)'), ('LACOSTE CHALLENGE'),
+    ('LACOSTE FEMME'), ('LACOSTE L''HOMME'), ('LACOSTE NOIR'), ('LACOSTE TOUCH OF PINK'), ('LACOSTE WHITE'), ('LADY EMBLEM'),
+    ('LADY KORLOFF'), ('LADY MILLION'), ('LADY MILLION (W)'), ('LADY MILLION ROYAL'), ('LANCOME IDEAL NECTAR'), ('LANCOME LA NUIT'),
+    ('LANCOME PEUT ETRE'), ('LATTAFA 24 CARAT PURE GOLD'), ('LATTAFA AJWAD'), ('LATTAFA AMEERAAT AL ARAB'), ('LATTAFA ASAD'), ('LATTAFA BADEE AL OUD GLORY'),
+    ('LATTAFA ECLAIRE'), ('LATTAFA FAKAR'), ('LATTAFA HAKAYAT AL OUD'), ('LATTAFA HAYA'), ('LATTAFA KHAMRAH'), ('LATTAFA MAAHIR'),
+    ('LATTAFA MAYAR (W)'), ('LATTAFA NOW'), ('LATTAFA SER AL KHULOOD (W)'), ('LATTAFA YARA (W)'), ('LAVENDER'), ('LAVIEW EAST BELLA (W)'),
+    ('LE MALE JPG'), ('LEATHER BLEND'), ('LEGEND (M)'), ('LEGEND BLUE'), ('LEGEND MONT BLANC'), ('LEGEND NIGHT'),
+    ('LEGEND SPIRIT'), ('LEMON'), ('LET''S IMAGINE'), ('LIBRE INTENSE'), ('LIBRE L''ABSOLU PLATINE'), ('LIBRE YSL WOMAN'),
+    ('LIGHT BLUE LADIES'), ('LIGHT BLUE MEN'), ('LIVE LUXES JENIFER LOPEZ'), ('LOST CHERRY'), ('LOVE DON''T BE SHY'), ('LOVE SPELL'),
+    ('LUST FOR SUN'), ('LUXE AROMA'), ('MAAHIR'), ('MAD ABOUT YOU'), ('MAD LOVE'), ('MANGO TEMPTATION'),
+    ('MANIFESTO YSL'), ('MARRY ME'), ('MARSH MALLOW PUMPKIN OUD FOR GREATNESS'), ('MAYAR'), ('MEN IN BLACK - BVLGARY (M)'), ('MERCEDEZ BENZ'),
+    ('MERCEDES'), ('METEORITES LE PARFUM'), ('MICHAEL KORS'), ('MIDNIGHT FANTASY'), ('MIDNIGHT LOVE'), ('MIDNIGHT POISON'),
+    ('MIDNIGHT ROSE TRESOR'), ('MILLION PRIVE'), ('MISSION PARFUM'), ('MISS DIOR'), ('MON PARIS'), ('MONT BLANC EXPLORER'),
+    ('MOON SPAKEL (W)'), ('MUSC NOIR NARCISO'), ('MY BURBERRY'), ('MY NECTA'), ('MY WAY'), ('MY WAY - ARMANI (W)'),
+    ('MY WAY INTENSE'), ('MYSLF LE PARFUM YSL'), ('NARCISO FOR HIM BLUE NOIR EXTREME'), ('NARCISO RODRIGUEZ FOR HER'), ('NAUTICA VOYAGE'), ('NECTA PURPLE'),
+    ('NINA RICCI'), ('NINA RICCI (W)'), ('NOIR KAGANA'), ('NUDE RIHANNA'), ('OCEAN BLUE'), ('OCEAN BREEZE'),
+    ('OCEAN LOUNGE'), ('OLYMPEA'), ('OLYMPEA BLOSSOM'), ('OLYMPEA FLORA'), ('OMBRE LEATHER'), ('ONE MILLION'),
+    ('ONE MILLION ABSOLUTE GOLD'), ('ONE MILLION CLEAR'), ('ONE MILLION INTENSE'), ('ONE MILLION LUCKY'), ('ONE MILLION PRIVE'), ('ONE MILLION ROYAL'),
+    ('ONE MAN SHOW'), ('ORANGE'), ('ORANGE VANILLA CAR FRESHNER'), ('ORGANZA (W)'), ('OUD'), ('OUD PASSION'),
+    ('OUD TONKA SWISS ARABIAN'), ('PAPAYA CAR FRESHNER'), ('PARIS HILTON'), ('PARIS HILTON WITH LOVE'), ('PASSION FRUIT CAR FRESHNER'), ('PEARL'),
+    ('PERFECT'), ('PETROL ROUGE DIESEL RED'), ('PHANTOM'), ('PINACOLA'), ('PINEAPPLE'), ('PINK CHIFFON'),
+    ('PINK FRIDAY'), ('PINK HARMONY'), ('PINK SUGAR'), ('PINK SUGER (W)'), ('PLEASURES'), ('PLEASURES (W)'),
+    ('POEM'), ('POISON GIRL'), ('POLO BLACK'), ('POLO BLACK (M)'), ('POLO BLACK (W)'), ('POLO BLUE'),
+    ('POLO BLUE (M)'), ('POLO PINK'), ('POLO RED'), ('POLO RED (W)'), ('POLO RED INTENSE'), ('POLO SPORT'),
+    ('POLO SPORT (M)'), ('POLO ULTRA BLUE'), ('POMEGRANATE BBW'), ('POPPY BBW'), ('PORTRAIT OF A LADY'), ('POTPOURRI CAR FRESHNER'),
+    ('PRADA (W)'), ('PRADA CANDY'), ('PRADA L''HOMME'), ('PRADA OCEAN'), ('PRECIOUS PINK'), ('PREMIER'),
+    ('PREROGATIVE'), ('PURE BLACK'), ('PURE POISON'), ('PURE SEDUCTION'), ('PURE SEDUCTION (W)'), ('PURE SEDUCTION - CLEAR'),
+    ('PURE SEDUCTION - PURPLE'), ('PURE XS MAN'), ('PURE XS WOMAN'), ('RASASI FRUITY'), ('RAYAN BLACK'), ('RED BERRY'),
+    ('RED DOOR'), ('RED DOOR (W)'), ('RED TOBACCO MANCERA'), ('RED VANILLA'), ('RED VANILLA ZARA'), ('RESBERRY'),
+    ('RESPECT'), ('RIHANNA RIRI'), ('RIRI'), ('ROLL IN LOVE'), ('ROMANCE'), ('ROMANTIC GIRL'),
+    ('ROSE OUD'), ('ROSE VANILLA'), ('ROYAL OUD CREED'), ('ROYALE BLUE'), ('RUSH WOMAN'), ('SABAIK'),
+    ('SAFARI'), ('SAKURA'), ('SAMSARA'), ('SAMSARA (W)'), ('SAUVAGE DIOR'), ('SAUVAGE ELIXIR'),
+    ('SCANDAL'), ('SCANDAL ABSOLUTELY'), ('SCANDAL BY NIGHT'), ('SCANDAL POUR HOMME'), ('SCANDAL POUR HOMME ABSOLU'), ('SECRET FRANKINCENSE'),
+    ('SER AL KHULOOD'), ('SEXY LITTLE THING'), ('SEXY LOVE'), ('SHALIS MAN'), ('SHALIS WOMAN'), ('SHALIMAR VANILLA'),
+    ('SI ARMANI'), ('SI PASSIONE'), ('SILVER MOUNTAIN WATER CREED'), ('SO SCANDAL'), ('SOFT'), ('SOLARISSIMO FAVIGNANA'),
+    ('SOSPIRO'), ('SPARKLING APRICOT'), ('SPICE BOMB'), ('SPICE BOMB EXTREME'), ('STELLAR TIMES'), ('STRAIGHT TO HEAVEN'),
+    ('STRAWBERRY'), ('STRONG WITH YOU INTENSELY (M)'), ('STRONGER WITH YOU'), ('SUGAR BABY'), ('SULTAN'), ('SUNKISSED GODDESS'),
+    ('SUNRISE'), ('SUNSET FANTASY'), ('SUPER LOVE'), ('SUPERMAN AL-REHAB'), ('SUSPIRO ACCENTO'), ('SWEET AMBER'),
+    ('SWEET CAMELIA'), ('SWEET CAMELIA-ZOHOOR'), ('SWEET NIGHT'), ('SWEET PASSION'), ('SWEET PASSION (W)'), ('TAYLOR BY TAYLOR SWIFT'),
+    ('TERRE D HERMES (M)'), ('TERRE D'' HERMES'), ('TERRA DI GIOIA'), ('THE GAME'), ('THE GOLDEN SECRET'), ('THE MOST WANTED AZZARO'),
+    ('THE ONE GREY'), ('THE ONE MYSTERIOUS NIGHT'), ('THIRD EXTREME'), ('TOBACCO OUD'), ('TOBACCO VANILLA'), ('TOBACCO VANILLA SEX'),
+    ('TOM FORD (M)'), ('TOM FORD BLACK ORCHID (W)'), ('TOM FORD BROWN ORCHID (W)'), ('TOM FORD OUD WOOD'), ('TOM FORD ROSE'), ('TOM FORD VANILLA SEX'),
+    ('TOMFORD NOIR'), ('TOMFORD NOIR EXTREME'), ('TOMFORD SOLEIL BRULANT'), ('TOMMY BOY'), ('TOMMY GIRL'), ('TOMMY HILFIGER (M)'),
+    ('TOMMY HILFIGER TWIST'), ('TRESOR'), ('TRESOR (W)'), ('TUSCAN LEATHER'), ('TWILLY HERMES'), ('ULTRA MALE'),
+    ('UNFORGEABLE'), ('UOMO SIGNATURE'), ('URBAN JOURNEY'), ('VALENTINA PINK'), ('VALENTINO BORN IN ROMA'), ('VALENTINO UOMO'),
+    ('VANILLA'), ('VANILLA FLORA'), ('VANILLA ISLAND'), ('VERSACE (W)'), ('VERSACE BRIGHT CRYSTAL'), ('VERSACE CRYSTAL NOIR'),
+    ('VERSACE EROS'), ('VERSACE MAN'), ('VERY GOOD GIRL'), ('VERY IRRESISTABLE (W)'), ('VERY IRRESISTABLE GIVENCHY'), ('VERY IRRESISTIBLE'),
+    ('VERY SEXY VICTORIA SECRET (W)'), ('VIKING CREED'), ('VIVA LA JUICY'), ('WANTED AZZARO'), ('WATERMELON'), ('WHITE DIAMOND'),
+    ('WHITE DIAMOND (W)'), ('WHITE TEA'), ('WILD MADAGASCAR'), ('WILD ROSE'), ('WINTER WONDERS'), ('WOMAN'),
+    ('WOMAN RALPH LAUREN'), ('WOODY SILVER ARGENT'), ('Y INTENSE'), ('Y SAINT LAURENT'), ('YARA'), ('YARA CANDY'),
+    ('YES I AM BY CACHAREL'), ('YSL LIBRE ABSOLU PLATINE (W)'), ('YUMMY VANILLA'), ('ZARA ORIENTAL'), ('ZARA RED VANILLA'), ('ZARA TABAC INTENSE')
+),
+names AS (
+    SELECT upper(btrim(name)) AS name, 0 AS stocked FROM seed
+    UNION ALL
+    SELECT upper(btrim(name)), 1 FROM public.perfume_scents WHERE btrim(COALESCE(name, '')) <> ''
+),
+ranked AS (
+    SELECT
+        name,
+        public.scent_name_key(name) AS name_key,
+        public.scent_name_gender(name) AS gender,
+        sum(stocked) AS stocked
+    FROM names
+    GROUP BY name
+),
+grouped AS (
+    SELECT
+        name_key,
+        gender,
+        array_agg(name ORDER BY stocked DESC, length(name), name) AS spellings
+    FROM ranked
+    WHERE name_key <> ''
+    GROUP BY name_key, gender
+)
+INSERT INTO public.scent_catalog (name, gender, aliases)
+SELECT spellings[1], gender, spellings[2:]
+FROM grouped
+ON CONFLICT DO NOTHING;
+
+-- Brands for the well-known lines, by the longest matching name prefix
+WITH brands(prefix, brand) AS (
+  VALUES
+    ('1 MILLION', 'Paco Rabanne'),
+    ('212', 'Carolina Herrera'),
+    ('9PM', 'Afnan'),
+    ('ACQUA DI GIO', 'Giorgio Armani'),
+    ('ARMANI', 'Giorgio Armani'),
+    ('BLACK OPIUM', 'Yves Saint Laurent'),
+    ('BOSS', 'Hugo Boss'),
+    ('BURBERRY', 'Burberry'),
+    ('BVLGARI', 'Bvlgari'),
+    ('CHANEL', 'Chanel'),
+    ('CHANNEL', 'Chanel'),
+    ('CK', 'Calvin Klein'),
+    ('COOL WATER', 'Davidoff'),
+    ('CREED', 'Creed'),
+    ('D AND G', 'Dolce & Gabbana'),
+    ('DIOR', 'Dior'),
+    ('DUNHILL', 'Dunhill'),
+    ('ESCADA', 'Escada'),
+    ('ETERNITY', 'Calvin Klein'),
+    ('EUPHORIA', 'Calvin Klein'),
+    ('FERRARI', 'Ferrari'),
+    ('GIVENCHY', 'Givenchy'),
+    ('GOOD GIRL', 'Carolina Herrera'),
+    ('GUCCI', 'Gucci'),
+    ('HUGO', 'Hugo Boss'),
+    ('INVICTUS', 'Paco Rabanne'),
+    ('ISSEY', 'Issey Miyake'),
+    ('KAYALI', 'Kayali'),
+    ('LA VIE EST BELLE', 'Lancome'),
+    ('LACOSTE', 'Lacoste'),
+    ('LADY MILLION', 'Paco Rabanne'),
+    ('LATTAFA', 'Lattafa'),
+    ('POLO', 'Ralph Lauren'),
+    ('SAUVAGE', 'Dior'),
+    ('SCANDAL', 'Jean Paul Gaultier'),
+    ('TOM FORD', 'Tom Ford'),
+    ('VERSACE', 'Versace'),
+    ('Y SAINT LAURENT', 'Yves Saint Laurent'),
+    ('YARA', 'Lattafa'),
+    ('YSL', 'Yves Saint Laurent'),
+    ('ZARA', 'Zara')
+)
+UPDATE public.scent_catalog c
+SET inspired_by_brand = (
+    SELECT b.brand FROM brands b
+    WHERE c.name_key = b.prefix OR c.name_key LIKE b.prefix || ' %'
+    ORDER BY length(b.prefix) DESC
+    LIMIT 1
+)
+WHERE c.inspired_by_brand IS NULL;
+
+-- Catalog entry for a name, by key and gender or by alias
+CREATE OR REPLACE FUNCTION public.find_scent_catalog_id(_name text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT id
+    FROM public.scent_catalog
+    WHERE (name_key = public.scent_name_key(_name) AND gender = public.scent_name_gender(_name))
+       OR upper(btrim(_name)) = ANY(aliases)
+    ORDER BY (upper(btrim(name)) = upper(btrim(_name))) DESC, is_active DESC
+    LIMIT 1;
+$$;
+
+UPDATE public.perfume_scents
+SET catalog_id = public.find_scent_catalog_id(name)
+WHERE catalog_id IS NULL;
+
+-- Near-identical names (typos like CHANNEL/CHANEL, or the same words reordered) of the same gender,
+-- word count and numbers are merged into the entry with more department stock rows; the other
+-- spelling is kept as an alias.
+DO $$
+DECLARE
+    _pair record;
+    _keep uuid;
+    _drop uuid;
+BEGIN
+    FOR _pair IN
+        SELECT a.id AS a_id, b.id AS b_id,
+               (SELECT count(*) FROM public.perfume_scents s WHERE s.catalog_id = a.id) AS a_rows,
+               (SELECT count(*) FROM public.perfume_scents s WHERE s.catalog_id = b.id) AS b_rows
+        FROM public.scent_catalog a
+        JOIN public.scent_catalog b
+          ON a.id < b.id
+         AND a.gender = b.gender
+         AND regexp_replace(a.name_key, '\D', '', 'g') = regexp_replace(b.name_key, '\D', '', 'g')
+         AND array_length(string_to_array(a.name_key, ' '), 1) = array_length(string_to_array(b.name_key, ' '), 1)
+        WHERE similarity(a.name_key, b.name_key) >= 0.85
+           OR (least(length(a.name_key), length(b.name_key)) >= 6 AND levenshtein(a.name_key, b.name_key) <= 1)
+        ORDER BY similarity(a.name_key, b.name_key) DESC
+    LOOP
+        CONTINUE WHEN NOT EXISTS (SELECT 1 FROM public.scent_catalog WHERE id = _pair.a_id)
+                   OR NOT EXISTS (SELECT 1 FROM public.scent_catalog WHERE id = _pair.b_id);
+
+        IF _pair.b_rows > _pair.a_rows THEN
+            _keep := _pair.b_id; _drop := _pair.a_id;
+        ELSE
+            _keep := _pair.a_id; _drop := _pair.b_id;
+        END IF;
+
+        UPDATE public.scent_catalog k
+        SET aliases = ARRAY(
+                SELECT DISTINCT unnest(k.aliases || d.aliases || ARRAY[upper(d.name)])
+            ),
+            inspired_by_brand = COALESCE(k.inspired_by_brand, d.inspired_by_brand),
+            updated_at = now()
+        FROM public.scent_catalog d
+        WHERE k.id = _keep AND d.id = _drop;
+
+        UPDATE public.perfume_scents SET catalog_id = _keep WHERE catalog_id = _drop;
+        DELETE FROM public.scent_catalog WHERE id = _drop;
+    END LOOP;
+END;
+$$;
+
+-- New department scents join the catalog automatically
+CREATE OR REPLACE FUNCTION public.link_perfume_scent_catalog()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.catalog_id IS NULL AND btrim(COALESCE(NEW.name, '')) <> '' THEN
+        NEW.catalog_id := public.find_scent_catalog_id(NEW.name);
+        IF NEW.catalog_id IS NULL THEN
+            INSERT INTO public.scent_catalog (name, gender)
+            VALUES (upper(btrim(NEW.name)), public.scent_name_gender(NEW.name))
+            ON CONFLICT DO NOTHING
+            RETURNING id INTO NEW.catalog_id;
+            -- Another till added the same name meanwhile
+            NEW.catalog_id := COALESCE(NEW.catalog_id, public.find_scent_catalog_id(NEW.name));
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_perfume_scent_catalog ON public.perfume_scents;
+CREATE TRIGGER link_perfume_scent_catalog
+BEFORE INSERT OR UPDATE OF name, catalog_id ON public.perfume_scents
+FOR EACH ROW EXECUTE FUNCTION public.link_perfume_scent_catalog();
+
+-- A department's stock row for a scent named on a sale: exact name first, then through the catalog
+CREATE OR REPLACE FUNCTION public.find_department_scent(_department_id uuid, _name text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT id
+    FROM public.perfume_scents
+    WHERE department_id = _department_id
+      AND (name ILIKE _name OR catalog_id = public.find_scent_catalog_id(_name))
+    ORDER BY (name ILIKE _name) DESC, is_active DESC NULLS LAST
+    LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.find_department_scent(uuid, text) TO authenticated;
+
+-- Same as before, but scents sent without an id are found through the catalog
+CREATE OR REPLACE FUNCTION public.create_sale(
+    _idempotency_key text,
+    _sale jsonb,
+    _items jsonb,
+    _payments jsonb DEFAULT '[]'::jsonb,
+    _stock jsonb DEFAULT '[]'::jsonb,
+    _allow_oversell boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _existing public.sales;
+    _new_sale public.sales;
+    _receipt_number text;
+    _line jsonb;
+    _item_id uuid;
+    _quantity numeric;
+    _available numeric;
+    _payment public.sale_payments;
+    _balance_after numeric;
+BEGIN
+    IF _idempotency_key IS NOT NULL THEN
+        -- Serialise retries of the same checkout
+        PERFORM pg_advisory_xact_lock(hashtext('create_sale:' || _idempotency_key));
+
+        SELECT * INTO _existing FROM public.sales WHERE idempotency_key = _idempotency_key;
+        IF FOUND THEN
+            RETURN jsonb_build_object(
+                'sale', to_jsonb(_existing),
+                'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM public.sale_payments p WHERE p.sale_id = _existing.id), '[]'::jsonb),
+                'duplicate', true
+            );
+        END IF;
+    END IF;
+
+    IF jsonb_array_length(COALESCE(_items, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'A sale needs at least one item';
+    END IF;
+
+    _receipt_number := NULLIF(_sale ->> 'receipt_number', '');
+    IF _receipt_number IS NULL THEN
+        -- generate_receipt_number reads MAX(receipt_number), so only one checkout may use it at a time
+        PERFORM pg_advisory_xact_lock(hashtext('create_sale:receipt_number'));
+        _receipt_number := public.generate_receipt_number();
+    END IF;
+
+    INSERT INTO public.sales (
+        department_id, cashier_id, cashier_name, customer_id, payment_method,
+        subtotal, discount, discount_reason, discount_approved_by, tax, total,
+        amount_paid, change_amount, receipt_number, sale_number, invoice_number,
+        is_invoice, is_loan, notes, remarks, status, created_at, idempotency_key
+    )
+    SELECT
+        s.department_id, COALESCE(s.cashier_id, auth.uid()), s.cashier_name, s.customer_id, s.payment_method,
+        s.subtotal, COALESCE(s.discount, 0), s.discount_reason, s.discount_approved_by, COALESCE(s.tax, 0), s.total,
+        s.amount_paid, COALESCE(s.change_amount, 0), _receipt_number, COALESCE(s.sale_number, _receipt_number), s.invoice_number,
+        COALESCE(s.is_invoice, false), COALESCE(s.is_loan, false), s.notes, s.remarks, COALESCE(s.status, 'completed'),
+        COALESCE(s.created_at, now()), _idempotency_key
+    FROM jsonb_populate_record(NULL::public.sales, _sale) s
+    RETURNING * INTO _new_sale;
+
+    INSERT INTO public.sale_items (
+        sale_id, product_id, service_id, variant_id, name, item_name, quantity, unit_price, total,
+        discount_type, discount_value, discount_amount, discount_reason,
+        tax_profile_id, tax_name, tax_treatment, tax_rate, tax_inclusive, taxable_amount, tax_amount,
+        customer_type, scent_mixture, scent_breakdown, bottle_cost, ml_amount, price_per_ml
+    )
+    SELECT
+        _new_sale.id, i.product_id, i.service_id, i.variant_id, COALESCE(i.name, i.item_name, 'Unnamed Item'),
+        COALESCE(i.item_name, i.name), COALESCE(i.quantity, 1), COALESCE(i.unit_price, 0), COALESCE(i.total, 0),
+        i.discount_type, COALESCE(i.discount_value, 0), COALESCE(i.discount_amount, 0), i.discount_reason,
+        i.tax_profile_id, i.tax_name, i.tax_treatment, i.tax_rate, i.tax_inclusive, i.taxable_amount, i.tax_amount,
+        i.customer_type, i.scent_mixture, i.scent_breakdown, i.bottle_cost, i.ml_amount, i.price_per_ml
+    FROM jsonb_populate_recordset(NULL::public.sale_items, _items) i;
+
+    -- Check every line before taking anything, holding the rows so another till can't sell them meanwhile
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_stock, '[]'::jsonb)) LOOP
+        _item_id := NULLIF(_line ->> 'item_id', '')::uuid;
+        _quantity := COALESCE((_line ->> 'quantity')::numeric, 0);
+        CONTINUE WHEN _quantity <= 0;
+
+        IF _line ->> 'item_type' = 'scent' THEN
+            IF _item_id IS NULL THEN
+                _item_id := public.find_department_scent(_new_sale.department_id, _line ->> 'name');
+                -- Untracked scents have never blocked a sale
+                CONTINUE WHEN _item_id IS NULL;
+            END IF;
+            SELECT COALESCE(stock_ml, 0) INTO _available FROM public.perfume_scents WHERE id = _item_id FOR UPDATE;
+        ELSIF _line ->> 'item_type' = 'variant' THEN
+            SELECT COALESCE(stock, 0) INTO _available FROM public.product_variants WHERE id = _item_id FOR UPDATE;
+        ELSIF COALESCE((_line ->> 'use_ml')::boolean, false) THEN
+            SELECT COALESCE(total_ml, 0) INTO _available FROM public.products WHERE id = _item_id FOR UPDATE;
+        ELSE
+            SELECT COALESCE(stock, 0) INTO _available FROM public.products WHERE id = _item_id FOR UPDATE;
+        END IF;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Stock item for % not found', COALESCE(_line ->> 'name', _item_id::text);
+        END IF;
+
+        -- An offline sale has already left the shop; recording it anyway takes stock to zero
+        IF _available < _quantity AND NOT _allow_oversell THEN
+            RAISE EXCEPTION 'Insufficient stock for %. Available: %', COALESCE(_line ->> 'name', 'item'), _available;
+        END IF;
+
+        PERFORM public.apply_stock_movement(
+            _line ->> 'item_type',
+            _item_id,
+            'sale',
+            -_quantity,
+            NULL,
+            COALESCE((_line ->> 'use_ml')::boolean, false),
+            'sale',
+            _new_sale.id,
+            'Receipt ' || _receipt_number
+        );
+    END LOOP;
+
+    FOR _payment IN
+        INSERT INTO public.sale_payments (
+            sale_id, department_id, method, amount, tendered_amount, reference,
+            phone_number, provider, customer_id, status, created_by
+        )
+        SELECT
+            _new_sale.id, _new_sale.department_id, p.method, p.amount, p.tendered_amount, p.reference,
+            p.phone_number, p.provider, p.customer_id, COALESCE(p.status, 'completed'), auth.uid()
+        FROM jsonb_populate_recordset(NULL::public.sale_payments, COALESCE(_payments, '[]'::jsonb)) p
+        WHERE COALESCE(p.amount, 0) > 0
+        RETURNING *
+    LOOP
+        IF _payment.method = 'credit' AND _payment.customer_id IS NOT NULL THEN
+            UPDATE public.customers
+            SET outstanding_balance = COALESCE(outstanding_balance, 0) + _payment.amount
+            WHERE id = _payment.customer_id
+            RETURNING outstanding_balance INTO _balance_after;
+
+            INSERT INTO public.customer_credit_transactions (
+                customer_id, department_id, sale_id, amount, balance_after, transaction_type, notes, created_by
+            )
+            VALUES (
+                _payment.customer_id, _new_sale.department_id, _new_sale.id, _payment.amount,
+                _balance_after, 'credit', 'Sale on credit', auth.uid()
+            );
+        END IF;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'sale', to_jsonb(_new_sale),
+        'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM public.sale_payments p WHERE p.sale_id = _new_sale.id), '[]'::jsonb),
+        'duplicate', false
+    );
+END;
+$$;
@@ -0,0 +1,253 @@
+-- Production batches: pre-mixed, pre-filled bottles sold off the shelf. A batch takes scent
+-- stock_ml and packaging and adds finished units to a product, costed from cost_per_ml and
+-- packaging cost_price. Sold units are traced back to their batch first in, first out.
+ALTER TABLE public.stock_movements DROP CONSTRAINT IF EXISTS stock_movements_movement_type_check;
+ALTER TABLE public.stock_movements ADD CONSTRAINT stock_movements_movement_type_check CHECK (movement_type IN (
+    'sale', 'void', 'return', 'receipt_edit', 'adjustment', 'internal_use', 'transfer', 'purchase_receipt', 'opening',
+    'production'
+));
+
+CREATE TABLE IF NOT EXISTS public.production_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  batch_code text NOT NULL UNIQUE,
+  recipe_id uuid REFERENCES public.perfume_recipes(id) ON DELETE SET NULL,
+  recipe_name text,
+  product_id uuid REFERENCES public.products(id) ON DELETE SET NULL,
+  product_name text NOT NULL,
+  bottle_size_ml numeric NOT NULL CHECK (bottle_size_ml > 0),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  remaining_quantity integer NOT NULL DEFAULT 0,
+  oil_cost numeric NOT NULL DEFAULT 0,
+  packaging_cost numeric NOT NULL DEFAULT 0,
+  unit_cost numeric NOT NULL DEFAULT 0,
+  notes text,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+COMMENT ON COLUMN public.production_batches.remaining_quantity IS 'Units not yet matched to a sale, first in first out';
+COMMENT ON COLUMN public.production_batches.unit_cost IS '(oil_cost + packaging_cost) / quantity, in UGX';
+
+CREATE TABLE IF NOT EXISTS public.production_batch_inputs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL REFERENCES public.production_batches(id) ON DELETE CASCADE,
+  item_type text NOT NULL CHECK (item_type IN ('scent', 'packaging')),
+  scent_id uuid REFERENCES public.perfume_scents(id) ON DELETE SET NULL,
+  packaging_id uuid REFERENCES public.packaging_items(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  supplier_oil_code text,
+  quantity numeric NOT NULL CHECK (quantity > 0),
+  unit_cost numeric NOT NULL DEFAULT 0,
+  total_cost numeric NOT NULL DEFAULT 0
+);
+
+COMMENT ON COLUMN public.production_batch_inputs.quantity IS 'ml for scents, units for packaging';
+COMMENT ON COLUMN public.production_batch_inputs.supplier_oil_code IS 'From the scent catalog when the batch was made, so the oil can be traced to the supplier';
+
+-- Which batch each sold unit came from
+CREATE TABLE IF NOT EXISTS public.production_batch_sales (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL REFERENCES public.production_batches(id) ON DELETE CASCADE,
+  sale_id uuid REFERENCES public.sales(id) ON DELETE CASCADE,
+  sale_item_id uuid REFERENCES public.sale_items(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  created_at timestamp with time zone DEFAULT now()
+);
+
+ALTER TABLE public.production_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.production_batch_inputs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.production_batch_sales ENABLE ROW LEVEL SECURITY;
+
+-- Written only by produce_batch and the sale trigger below
+CREATE POLICY "Production batches viewable by authenticated"
+ON public.production_batches FOR SELECT USING (true);
+
+CREATE POLICY "Production batch inputs viewable by authenticated"
+ON public.production_batch_inputs FOR SELECT USING (true);
+
+CREATE POLICY "Production batch sales viewable by authenticated"
+ON public.production_batch_sales FOR SELECT USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_production_batches_department ON public.production_batches(department_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_production_batches_product ON public.production_batches(product_id, created_at) WHERE remaining_quantity > 0;
+CREATE INDEX IF NOT EXISTS idx_production_batch_inputs_batch ON public.production_batch_inputs(batch_id);
+CREATE INDEX IF NOT EXISTS idx_production_batch_inputs_scent ON public.production_batch_inputs(scent_id);
+CREATE INDEX IF NOT EXISTS idx_production_batch_sales_batch ON public.production_batch_sales(batch_id);
+CREATE INDEX IF NOT EXISTS idx_production_batch_sales_sale ON public.production_batch_sales(sale_id);
+
+-- _batch: { department_id, recipe_id, recipe_name, product_id, bottle_size_ml, quantity, notes }
+-- _inputs: [{ item_type: 'scent' | 'packaging', item_id, name, quantity }] - ml for scents, units for packaging
+-- Everything is taken or nothing is: a short input fails the whole batch.
+CREATE OR REPLACE FUNCTION public.produce_batch(_batch jsonb, _inputs jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _department_id uuid := (_batch ->> 'department_id')::uuid;
+    _product_id uuid := NULLIF(_batch ->> 'product_id', '')::uuid;
+    _quantity integer := COALESCE((_batch ->> 'quantity')::integer, 0);
+    _product public.products;
+    _new_batch public.production_batches;
+    _line jsonb;
+    _item_id uuid;
+    _amount numeric;
+    _available numeric;
+    _unit_cost numeric;
+    _oil_code text;
+    _name text;
+    _oil_cost numeric := 0;
+    _packaging_cost numeric := 0;
+    _code text;
+    _sequence integer;
+BEGIN
+    IF _quantity <= 0 THEN
+        RAISE EXCEPTION 'Batch quantity must be at least 1';
+    END IF;
+
+    SELECT * INTO _product FROM public.products WHERE id = _product_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Finished product not found';
+    END IF;
+
+    -- B<yymmdd>-<n>: the nth batch of the day in this department
+    SELECT count(*) + 1 INTO _sequence
+    FROM public.production_batches
+    WHERE department_id = _department_id AND created_at::date = now()::date;
+    _code := 'B' || to_char(now(), 'YYMMDD') || '-' || lpad(_sequence::text, 2, '0');
+    WHILE EXISTS (SELECT 1 FROM public.production_batches WHERE batch_code = _code) LOOP
+        _sequence := _sequence + 1;
+        _code := 'B' || to_char(now(), 'YYMMDD') || '-' || lpad(_sequence::text, 2, '0');
+    END LOOP;
+
+    INSERT INTO public.production_batches (
+        department_id, batch_code, recipe_id, recipe_name, product_id, product_name,
+        bottle_size_ml, quantity, remaining_quantity, notes, created_by
+    )
+    VALUES (
+        _department_id, _code, NULLIF(_batch ->> 'recipe_id', '')::uuid, _batch ->> 'recipe_name', _product.id, _product.name,
+        COALESCE((_batch ->> 'bottle_size_ml')::numeric, 0), _quantity, _quantity, NULLIF(_batch ->> 'notes', ''), auth.uid()
+    )
+    RETURNING * INTO _new_batch;
+
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_inputs, '[]'::jsonb)) LOOP
+        _item_id := (_line ->> 'item_id')::uuid;
+        _amount := COALESCE((_line ->> 'quantity')::numeric, 0);
+        CONTINUE WHEN _amount <= 0;
+
+        IF _line ->> 'item_type' = 'scent' THEN
+            SELECT COALESCE(s.stock_ml, 0), COALESCE(s.cost_per_ml, 0), s.name, c.supplier_oil_code
+            INTO _available, _unit_cost, _name, _oil_code
+            FROM public.perfume_scents s
+            LEFT JOIN public.scent_catalog c ON c.id = s.catalog_id
+            WHERE s.id = _item_id
+            FOR UPDATE OF s;
+        ELSIF _line ->> 'item_type' = 'packaging' THEN
+            SELECT COALESCE(stock, 0), COALESCE(cost_price, 0), name, NULL
+            INTO _available, _unit_cost, _name, _oil_code
+            FROM public.packaging_items
+            WHERE id = _item_id
+            FOR UPDATE;
+        ELSE
+            RAISE EXCEPTION 'Unknown batch input type: %', _line ->> 'item_type';
+        END IF;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Batch input % not found', COALESCE(_line ->> 'name', _item_id::text);
+        END IF;
+
+        IF _available < _amount THEN
+            RAISE EXCEPTION 'Insufficient stock for %. Available: %', _name, _available;
+        END IF;
+
+        INSERT INTO public.production_batch_inputs (
+            batch_id, item_type, scent_id, packaging_id, name, supplier_oil_code, quantity, unit_cost, total_cost
+        )
+        VALUES (
+            _new_batch.id, _line ->> 'item_type',
+            CASE WHEN _line ->> 'item_type' = 'scent' THEN _item_id END,
+            CASE WHEN _line ->> 'item_type' = 'packaging' THEN _item_id END,
+            _name, _oil_code, _amount, _unit_cost, round(_amount * _unit_cost, 2)
+        );
+
+        IF _line ->> 'item_type' = 'scent' THEN
+            _oil_cost := _oil_cost + _amount * _unit_cost;
+        ELSE
+            _packaging_cost := _packaging_cost + _amount * _unit_cost;
+        END IF;
+
+        PERFORM public.apply_stock_movement(
+            _line ->> 'item_type', _item_id, 'production', -_amount, NULL, false,
+            'production_batch', _new_batch.id, 'Batch ' || _code
+        );
+    END LOOP;
+
+    UPDATE public.production_batches
+    SET oil_cost = round(_oil_cost, 2),
+        packaging_cost = round(_packaging_cost, 2),
+        unit_cost = round((_oil_cost + _packaging_cost) / _quantity, 2)
+    WHERE id = _new_batch.id
+    RETURNING * INTO _new_batch;
+
+    -- Finished units in at their batch cost, averaged with what is already on the shelf
+    UPDATE public.products
+    SET cost_price = round(
+        (GREATEST(COALESCE(stock, 0), 0) * COALESCE(cost_price, 0) + _quantity * _new_batch.unit_cost)
+        / NULLIF(GREATEST(COALESCE(stock, 0), 0) + _quantity, 0), 2)
+    WHERE id = _product.id;
+
+    PERFORM public.apply_stock_movement(
+        'product', _product.id, 'production', _quantity, NULL, false,
+        'production_batch', _new_batch.id, 'Batch ' || _code
+    );
+
+    RETURN to_jsonb(_new_batch);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.produce_batch(jsonb, jsonb) TO authenticated;
+
+-- Sold units of a batch-made product come out of its oldest open batch first
+CREATE OR REPLACE FUNCTION public.allocate_batch_sale()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _left integer;
+    _batch record;
+    _take integer;
+BEGIN
+    IF NEW.product_id IS NULL OR NEW.variant_id IS NOT NULL OR NEW.scent_mixture IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    _left := floor(COALESCE(NEW.quantity, 0));
+
+    FOR _batch IN
+        SELECT id, remaining_quantity
+        FROM public.production_batches
+        WHERE product_id = NEW.product_id AND remaining_quantity > 0
+        ORDER BY created_at
+        FOR UPDATE
+    LOOP
+        EXIT WHEN _left <= 0;
+        _take := LEAST(_left, _batch.remaining_quantity);
+
+        UPDATE public.production_batches SET remaining_quantity = remaining_quantity - _take WHERE id = _batch.id;
+        INSERT INTO public.production_batch_sales (batch_id, sale_id, sale_item_id, quantity)
+        VALUES (_batch.id, NEW.sale_id, NEW.id, _take);
+
+        _left := _left - _take;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sale_items_allocate_batch
+AFTER INSERT ON public.sale_items
+FOR EACH ROW EXECUTE FUNCTION public.allocate_batch_sale();
@@ -0,0 +1,524 @@
+-- Loyalty: customers earn points on what they spend, bonus points on refills and a punch per refill
+-- towards a free one. Points and a full punch-card are redeemed as a 'loyalty' tender. Rules live in
+-- settings_json.loyalty (department over global); every change to a balance is kept in loyalty_transactions.
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'loyalty';
+
+ALTER TABLE public.sale_payments DROP CONSTRAINT IF EXISTS sale_payments_method_check;
+ALTER TABLE public.sale_payments ADD CONSTRAINT sale_payments_method_check CHECK (
+    method IN ('cash', 'card', 'mobile_money', 'credit', 'bank_transfer', 'loyalty')
+);
+
+COMMENT ON COLUMN public.sale_payments.reference IS 'Card approval code or mobile money transaction ID. For loyalty tenders: points or free_refill';
+
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS loyalty_points integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS refill_punches integer NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.customers.refill_punches IS 'Paid refills since the last free one';
+
+CREATE TABLE IF NOT EXISTS public.loyalty_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  department_id uuid REFERENCES public.departments(id) ON DELETE SET NULL,
+  sale_id uuid REFERENCES public.sales(id) ON DELETE SET NULL,
+  transaction_type text NOT NULL CHECK (transaction_type IN ('earn', 'redeem', 'free_refill', 'adjustment', 'reversal')),
+  points integer NOT NULL DEFAULT 0,
+  punches integer NOT NULL DEFAULT 0,
+  amount numeric NOT NULL DEFAULT 0,
+  points_after integer NOT NULL DEFAULT 0,
+  punches_after integer NOT NULL DEFAULT 0,
+  notes text,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+COMMENT ON COLUMN public.loyalty_transactions.points IS 'Change to loyalty_points: positive when earned, negative when redeemed';
+COMMENT ON COLUMN public.loyalty_transactions.amount IS 'UGX spent (earn) or taken off the sale (redeem, free_refill)';
+
+ALTER TABLE public.loyalty_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Loyalty transactions viewable by authenticated"
+ON public.loyalty_transactions
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Staff can manage loyalty transactions"
+ON public.loyalty_transactions
+FOR ALL
+USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_customer ON public.loyalty_transactions(customer_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_sale ON public.loyalty_transactions(sale_id);
+
+CREATE OR REPLACE FUNCTION public.get_loyalty_settings(_department_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'enabled', false,
+        'spendPerPoint', 1000,
+        'pointValue', 10,
+        'minRedeemPoints', 100,
+        'refillBonusPoints', 5,
+        'punchCardEnabled', true,
+        'freeRefillEvery', 10
+    )
+    || COALESCE((SELECT settings_json -> 'loyalty' FROM public.settings WHERE department_id IS NULL LIMIT 1), '{}'::jsonb)
+    || COALESCE((SELECT settings_json -> 'loyalty' FROM public.settings WHERE department_id = _department_id LIMIT 1), '{}'::jsonb);
+$$;
+
+-- Take loyalty tenders off the customer's balance, then credit what the sale earns.
+-- Called by create_sale once the payments are in; raising rolls the whole sale back.
+CREATE OR REPLACE FUNCTION public.apply_sale_loyalty(_sale_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _sale public.sales;
+    _settings jsonb;
+    _enabled boolean;
+    _punch_card boolean;
+    _point_value numeric;
+    _min_points integer;
+    _punches_required integer;
+    _payment public.sale_payments;
+    _customer public.customers;
+    _points integer;
+    _refill_total numeric;
+    _redeemed numeric := 0;
+    _free_refill boolean := false;
+    _refills integer;
+    _earned integer;
+    _punches integer;
+BEGIN
+    SELECT * INTO _sale FROM public.sales WHERE id = _sale_id;
+    _settings := public.get_loyalty_settings(_sale.department_id);
+    _enabled := COALESCE((_settings ->> 'enabled')::boolean, false);
+    _punch_card := COALESCE((_settings ->> 'punchCardEnabled')::boolean, false);
+    _point_value := COALESCE((_settings ->> 'pointValue')::numeric, 0);
+    _min_points := COALESCE((_settings ->> 'minRedeemPoints')::integer, 0);
+    -- "Every 10th refill free" means nine paid refills fill the card
+    _punches_required := GREATEST(COALESCE((_settings ->> 'freeRefillEvery')::integer, 0) - 1, 0);
+
+    FOR _payment IN
+        SELECT * FROM public.sale_payments WHERE sale_id = _sale_id AND method = 'loyalty' ORDER BY created_at
+    LOOP
+        IF NOT _enabled THEN
+            RAISE EXCEPTION 'Loyalty rewards are not enabled for this department';
+        END IF;
+        IF _payment.customer_id IS NULL THEN
+            RAISE EXCEPTION 'Select the customer redeeming loyalty rewards';
+        END IF;
+
+        SELECT * INTO _customer FROM public.customers WHERE id = _payment.customer_id FOR UPDATE;
+
+        IF _payment.reference = 'free_refill' THEN
+            IF NOT _punch_card OR _punches_required = 0 THEN
+                RAISE EXCEPTION 'Refill punch-cards are not enabled for this department';
+            END IF;
+            IF _customer.refill_punches < _punches_required THEN
+                RAISE EXCEPTION '% has % of % refills for a free one', _customer.name, _customer.refill_punches, _punches_required;
+            END IF;
+
+            SELECT COALESCE(MAX(total), 0) INTO _refill_total
+            FROM public.sale_items
+            WHERE sale_id = _sale_id AND scent_mixture IS NOT NULL;
+            IF _payment.amount > _refill_total THEN
+                RAISE EXCEPTION 'A free refill covers one refill on the sale (UGX %)', _refill_total;
+            END IF;
+
+            UPDATE public.customers
+            SET refill_punches = refill_punches - _punches_required
+            WHERE id = _customer.id
+            RETURNING * INTO _customer;
+
+            INSERT INTO public.loyalty_transactions (
+                customer_id, department_id, sale_id, transaction_type, punches, amount,
+                points_after, punches_after, notes, created_by
+            )
+            VALUES (
+                _customer.id, _sale.department_id, _sale_id, 'free_refill', -_punches_required, _payment.amount,
+                _customer.loyalty_points, _customer.refill_punches, 'Free refill on receipt ' || _sale.receipt_number, auth.uid()
+            );
+
+            _free_refill := _free_refill OR _customer.id = _sale.customer_id;
+        ELSE
+            IF _point_value <= 0 THEN
+                RAISE EXCEPTION 'Points have no redemption value set for this department';
+            END IF;
+
+            _points := ceil(_payment.amount / _point_value);
+            IF _points < _min_points THEN
+                RAISE EXCEPTION 'At least % points must be redeemed at a time', _min_points;
+            END IF;
+            IF _customer.loyalty_points < _points THEN
+                RAISE EXCEPTION '% has % points, % needed', _customer.name, _customer.loyalty_points, _points;
+            END IF;
+
+            UPDATE public.customers
+            SET loyalty_points = loyalty_points - _points
+            WHERE id = _customer.id
+            RETURNING * INTO _customer;
+
+            INSERT INTO public.loyalty_transactions (
+                customer_id, department_id, sale_id, transaction_type, points, amount,
+                points_after, punches_after, notes, created_by
+            )
+            VALUES (
+                _customer.id, _sale.department_id, _sale_id, 'redeem', -_points, _payment.amount,
+                _customer.loyalty_points, _customer.refill_punches, 'Redeemed on receipt ' || _sale.receipt_number, auth.uid()
+            );
+        END IF;
+
+        _redeemed := _redeemed + _payment.amount;
+    END LOOP;
+
+    IF NOT _enabled OR _sale.customer_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    -- Rewards are earned on what the customer paid, not on what loyalty covered
+    _earned := CASE
+        WHEN COALESCE((_settings ->> 'spendPerPoint')::numeric, 0) > 0
+        THEN floor(GREATEST(_sale.total - _redeemed, 0) / (_settings ->> 'spendPerPoint')::numeric)
+        ELSE 0
+    END;
+
+    SELECT count(*) INTO _refills FROM public.sale_items WHERE sale_id = _sale_id AND scent_mixture IS NOT NULL;
+    _earned := _earned + _refills * COALESCE((_settings ->> 'refillBonusPoints')::integer, 0);
+    -- The free refill itself doesn't count towards the next card
+    _punches := CASE WHEN _punch_card THEN GREATEST(_refills - CASE WHEN _free_refill THEN 1 ELSE 0 END, 0) ELSE 0 END;
+
+    IF _earned <= 0 AND _punches <= 0 THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.customers
+    SET loyalty_points = loyalty_points + _earned,
+        refill_punches = refill_punches + _punches
+    WHERE id = _sale.customer_id
+    RETURNING * INTO _customer;
+
+    INSERT INTO public.loyalty_transactions (
+        customer_id, department_id, sale_id, transaction_type, points, punches, amount,
+        points_after, punches_after, notes, created_by
+    )
+    VALUES (
+        _customer.id, _sale.department_id, _sale_id, 'earn', _earned, _punches, GREATEST(_sale.total - _redeemed, 0),
+        _customer.loyalty_points, _customer.refill_punches, 'Receipt ' || _sale.receipt_number, auth.uid()
+    );
+END;
+$$;
+
+-- What a sale did to the customer's loyalty, for the receipt
+CREATE OR REPLACE FUNCTION public.get_sale_loyalty(_sale_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH sale AS (
+        SELECT s.department_id,
+               COALESCE(s.customer_id, (SELECT customer_id FROM public.loyalty_transactions WHERE sale_id = s.id LIMIT 1)) AS customer_id
+        FROM public.sales s
+        WHERE s.id = _sale_id
+    ),
+    settings AS (
+        SELECT public.get_loyalty_settings(sale.department_id) AS value FROM sale
+    )
+    SELECT jsonb_build_object(
+        'earned', COALESCE((SELECT SUM(points) FROM public.loyalty_transactions WHERE sale_id = _sale_id AND transaction_type = 'earn'), 0),
+        'redeemed', COALESCE((SELECT -SUM(points) FROM public.loyalty_transactions WHERE sale_id = _sale_id AND transaction_type = 'redeem'), 0),
+        'freeRefill', EXISTS (SELECT 1 FROM public.loyalty_transactions WHERE sale_id = _sale_id AND transaction_type = 'free_refill'),
+        'points', c.loyalty_points,
+        'punches', c.refill_punches,
+        'punchesRequired', CASE
+            WHEN COALESCE((settings.value ->> 'punchCardEnabled')::boolean, false)
+            THEN GREATEST(COALESCE((settings.value ->> 'freeRefillEvery')::integer, 0) - 1, 0)
+            ELSE 0
+        END
+    )
+    FROM sale
+    JOIN public.customers c ON c.id = sale.customer_id
+    CROSS JOIN settings
+    WHERE COALESCE((settings.value ->> 'enabled')::boolean, false)
+       OR EXISTS (SELECT 1 FROM public.loyalty_transactions WHERE sale_id = _sale_id);
+$$;
+
+-- Balances and the department's rules for one customer. Public so the scent memory page can show them.
+CREATE OR REPLACE FUNCTION public.get_customer_loyalty(_customer_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.get_loyalty_settings(c.department_id) || jsonb_build_object(
+        'customerId', c.id,
+        'points', c.loyalty_points,
+        'punches', c.refill_punches
+    )
+    FROM public.customers c
+    WHERE c.id = _customer_id;
+$$;
+
+-- Voiding a sale gives back redeemed rewards and takes back what it earned
+CREATE OR REPLACE FUNCTION public.reverse_sale_loyalty()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _tx public.loyalty_transactions;
+    _customer public.customers;
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.loyalty_transactions WHERE sale_id = NEW.id AND transaction_type = 'reversal') THEN
+        RETURN NEW;
+    END IF;
+
+    FOR _tx IN
+        SELECT * FROM public.loyalty_transactions WHERE sale_id = NEW.id ORDER BY created_at
+    LOOP
+        UPDATE public.customers
+        SET loyalty_points = loyalty_points - _tx.points,
+            refill_punches = refill_punches - _tx.punches
+        WHERE id = _tx.customer_id
+        RETURNING * INTO _customer;
+
+        INSERT INTO public.loyalty_transactions (
+            customer_id, department_id, sale_id, transaction_type, points, punches, amount,
+            points_after, punches_after, notes, created_by
+        )
+        VALUES (
+            _tx.customer_id, _tx.department_id, NEW.id, 'reversal', -_tx.points, -_tx.punches, _tx.amount,
+            _customer.loyalty_points, _customer.refill_punches, 'Voided receipt ' || NEW.receipt_number, auth.uid()
+        );
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sales_reverse_loyalty
+AFTER UPDATE OF status ON public.sales
+FOR EACH ROW
+WHEN (NEW.status = 'voided' AND OLD.status IS DISTINCT FROM 'voided')
+EXECUTE FUNCTION public.reverse_sale_loyalty();
+
+-- Manual corrections from the customer screen
+CREATE OR REPLACE FUNCTION public.adjust_loyalty(
+    _customer_id uuid,
+    _points integer,
+    _punches integer DEFAULT 0,
+    _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _customer public.customers;
+BEGIN
+    IF COALESCE(_points, 0) = 0 AND COALESCE(_punches, 0) = 0 THEN
+        RAISE EXCEPTION 'Nothing to adjust';
+    END IF;
+
+    UPDATE public.customers
+    SET loyalty_points = loyalty_points + COALESCE(_points, 0),
+        refill_punches = refill_punches + COALESCE(_punches, 0)
+    WHERE id = _customer_id
+    RETURNING * INTO _customer;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer not found';
+    END IF;
+    IF _customer.loyalty_points < 0 OR _customer.refill_punches < 0 THEN
+        RAISE EXCEPTION 'Points and punches can''t go below zero';
+    END IF;
+
+    INSERT INTO public.loyalty_transactions (
+        customer_id, department_id, transaction_type, points, punches,
+        points_after, punches_after, notes, created_by
+    )
+    VALUES (
+        _customer.id, _customer.department_id, 'adjustment', COALESCE(_points, 0), COALESCE(_punches, 0),
+        _customer.loyalty_points, _customer.refill_punches, _notes, auth.uid()
+    );
+
+    RETURN public.get_customer_loyalty(_customer.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_customer_loyalty(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sale_loyalty(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.adjust_loyalty(uuid, integer, integer, text) TO authenticated;
+
+-- Same as before, plus loyalty redemption and earning once the payments are in
+CREATE OR REPLACE FUNCTION public.create_sale(
+    _idempotency_key text,
+    _sale jsonb,
+    _items jsonb,
+    _payments jsonb DEFAULT '[]'::jsonb,
+    _stock jsonb DEFAULT '[]'::jsonb,
+    _allow_oversell boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _existing public.sales;
+    _new_sale public.sales;
+    _receipt_number text;
+    _line jsonb;
+    _item_id uuid;
+    _quantity numeric;
+    _available numeric;
+    _payment public.sale_payments;
+    _balance_after numeric;
+BEGIN
+    IF _idempotency_key IS NOT NULL THEN
+        -- Serialise retries of the same checkout
+        PERFORM pg_advisory_xact_lock(hashtext('create_sale:' || _idempotency_key));
+
+        SELECT * INTO _existing FROM public.sales WHERE idempotency_key = _idempotency_key;
+        IF FOUND THEN
+            RETURN jsonb_build_object(
+                'sale', to_jsonb(_existing),
+                'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM public.sale_payments p WHERE p.sale_id = _existing.id), '[]'::jsonb),
+                'loyalty', public.get_sale_loyalty(_existing.id),
+                'duplicate', true
+            );
+        END IF;
+    END IF;
+
+    IF jsonb_array_length(COALESCE(_items, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'A sale needs at least one item';
+    END IF;
+
+    _receipt_number := NULLIF(_sale ->> 'receipt_number', '');
+    IF _receipt_number IS NULL THEN
+        -- generate_receipt_number reads MAX(receipt_number), so only one checkout may use it at a time
+        PERFORM pg_advisory_xact_lock(hashtext('create_sale:receipt_number'));
+        _receipt_number := public.generate_receipt_number();
+    END IF;
+
+    INSERT INTO public.sales (
+        department_id, cashier_id, cashier_name, customer_id, payment_method,
+        subtotal, discount, discount_reason, discount_approved_by, tax, total,
+        amount_paid, change_amount, receipt_number, sale_number, invoice_number,
+        is_invoice, is_loan, notes, remarks, status, created_at, idempotency_key
+    )
+    SELECT
+        s.department_id, COALESCE(s.cashier_id, auth.uid()), s.cashier_name, s.customer_id, s.payment_method,
+        s.subtotal, COALESCE(s.discount, 0), s.discount_reason, s.discount_approved_by, COALESCE(s.tax, 0), s.total,
+        s.amount_paid, COALESCE(s.change_amount, 0), _receipt_number, COALESCE(s.sale_number, _receipt_number), s.invoice_number,
+        COALESCE(s.is_invoice, false), COALESCE(s.is_loan, false), s.notes, s.remarks, COALESCE(s.status, 'completed'),
+        COALESCE(s.created_at, now()), _idempotency_key
+    FROM jsonb_populate_record(NULL::public.sales, _sale) s
+    RETURNING * INTO _new_sale;
+
+    INSERT INTO public.sale_items (
+        sale_id, product_id, service_id, variant_id, name, item_name, quantity, unit_price, total,
+        discount_type, discount_value, discount_amount, discount_reason,
+        tax_profile_id, tax_name, tax_treatment, tax_rate, tax_inclusive, taxable_amount, tax_amount,
+        customer_type, scent_mixture, scent_breakdown, bottle_cost, ml_amount, price_per_ml
+    )
+    SELECT
+        _new_sale.id, i.product_id, i.service_id, i.variant_id, COALESCE(i.name, i.item_name, 'Unnamed Item'),
+        COALESCE(i.item_name, i.name), COALESCE(i.quantity, 1), COALESCE(i.unit_price, 0), COALESCE(i.total, 0),
+        i.discount_type, COALESCE(i.discount_value, 0), COALESCE(i.discount_amount, 0), i.discount_reason,
+        i.tax_profile_id, i.tax_name, i.tax_treatment, i.tax_rate, i.tax_inclusive, i.taxable_amount, i.tax_amount,
+        i.customer_type, i.scent_mixture, i.scent_breakdown, i.bottle_cost, i.ml_amount, i.price_per_ml
+    FROM jsonb_populate_recordset(NULL::public.sale_items, _items) i;
+
+    -- Check every line before taking anything, holding the rows so another till can't sell them meanwhile
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_stock, '[]'::jsonb)) LOOP
+        _item_id := NULLIF(_line ->> 'item_id', '')::uuid;
+        _quantity := COALESCE((_line ->> 'quantity')::numeric, 0);
+        CONTINUE WHEN _quantity <= 0;
+
+        IF _line ->> 'item_type' = 'scent' THEN
+            IF _item_id IS NULL THEN
+                _item_id := public.find_department_scent(_new_sale.department_id, _line ->> 'name');
+                -- Untracked scents have never blocked a sale
+                CONTINUE WHEN _item_id IS NULL;
+            END IF;
+            SELECT COALESCE(stock_ml, 0) INTO _available FROM public.perfume_scents WHERE id = _item_id FOR UPDATE;
+        ELSIF _line ->> 'item_type' = 'variant' THEN
+            SELECT COALESCE(stock, 0) INTO _available FROM public.product_variants WHERE id = _item_id FOR UPDATE;
+        ELSIF COALESCE((_line ->> 'use_ml')::boolean, false) THEN
+            SELECT COALESCE(total_ml, 0) INTO _available FROM public.products WHERE id = _item_id FOR UPDATE;
+        ELSE
+            SELECT COALESCE(stock, 0) INTO _available FROM public.products WHERE id = _item_id FOR UPDATE;
+        END IF;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Stock item for % not found', COALESCE(_line ->> 'name', _item_id::text);
+        END IF;
+
+        -- An offline sale has already left the shop; recording it anyway takes stock to zero
+        IF _available < _quantity AND NOT _allow_oversell THEN
+            RAISE EXCEPTION 'Insufficient stock for %. Available: %', COALESCE(_line ->> 'name', 'item'), _available;
+        END IF;
+
+        PERFORM public.apply_stock_movement(
+            _line ->> 'item_type',
+            _item_id,
+            'sale',
+            -_quantity,
+            NULL,
+            COALESCE((_line ->> 'use_ml')::boolean, false),
+            'sale',
+            _new_sale.id,
+            'Receipt ' || _receipt_number
+        );
+    END LOOP;
+
+    FOR _payment IN
+        INSERT INTO public.sale_payments (
+            sale_id, department_id, method, amount, tendered_amount, reference,
+            phone_number, provider, customer_id, status, created_by
+        )
+        SELECT
+            _new_sale.id, _new_sale.department_id, p.method, p.amount, p.tendered_amount, p.reference,
+            p.phone_number, p.provider, p.customer_id, COALESCE(p.status, 'completed'), auth.uid()
+        FROM jsonb_populate_recordset(NULL::public.sale_payments, COALESCE(_payments, '[]'::jsonb)) p
+        WHERE COALESCE(p.amount, 0) > 0
+        RETURNING *
+    LOOP
+        IF _payment.method = 'credit' AND _payment.customer_id IS NOT NULL THEN
+            UPDATE public.customers
+            SET outstanding_balance = COALESCE(outstanding_balance, 0) + _payment.amount
+            WHERE id = _payment.customer_id
+            RETURNING outstanding_balance INTO _balance_after;
+
+            INSERT INTO public.customer_credit_transactions (
+                customer_id, department_id, sale_id, amount, balance_after, transaction_type, notes, created_by
+            )
+            VALUES (
+                _payment.customer_id, _new_sale.department_id, _new_sale.id, _payment.amount,
+                _balance_after, 'credit', 'Sale on credit', auth.uid()
+            );
+        END IF;
+    END LOOP;
+
+    PERFORM public.apply_sale_loyalty(_new_sale.id);
+
+    RETURN jsonb_build_object(
+        'sale', to_jsonb(_new_sale),
+        'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM public.sale_payments p WHERE p.sale_id = _new_sale.id), '[]'::jsonb),
+        'loyalty', public.get_sale_loyalty(_new_sale.id),
+        'duplicate', false
+    );
+END;
+$$;
@@ -0,0 +1,499 @@
+-- Gift vouchers and store credit as tenders. A voucher has a unique code (printed as a QR code), a
+-- fixed or open value and an optional expiry, and is spent in parts through 'voucher' tenders until
+-- its balance runs out. Store credit (customers.store_credit_balance, topped up by returns) is spent
+-- through 'store_credit' tenders. create_sale checks and draws down both in the sale's transaction.
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'voucher';
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'store_credit';
+
+ALTER TABLE public.sale_payments DROP CONSTRAINT IF EXISTS sale_payments_method_check;
+ALTER TABLE public.sale_payments ADD CONSTRAINT sale_payments_method_check CHECK (
+    method IN ('cash', 'card', 'mobile_money', 'credit', 'bank_transfer', 'loyalty', 'voucher', 'store_credit')
+);
+
+COMMENT ON COLUMN public.sale_payments.reference IS 'Card approval code or mobile money transaction ID. For loyalty tenders: points or free_refill. For voucher tenders: the voucher code';
+
+-- A return can also be refunded onto a new voucher, for customers without an account
+ALTER TABLE public.sale_returns DROP CONSTRAINT IF EXISTS sale_returns_refund_method_check;
+ALTER TABLE public.sale_returns ADD CONSTRAINT sale_returns_refund_method_check CHECK (
+    refund_method IN ('cash', 'card', 'mobile_money', 'credit', 'store_credit', 'voucher')
+);
+
+CREATE TABLE IF NOT EXISTS public.gift_vouchers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid REFERENCES public.departments(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE,
+  value_type text NOT NULL DEFAULT 'fixed' CHECK (value_type IN ('fixed', 'open')),
+  initial_value numeric NOT NULL CHECK (initial_value > 0),
+  balance numeric NOT NULL CHECK (balance >= 0),
+  expires_at date,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+  source text NOT NULL DEFAULT 'sold' CHECK (source IN ('sold', 'complimentary', 'refund')),
+  payment_method text CHECK (payment_method IN ('cash', 'card', 'mobile_money')),
+  payment_reference text,
+  customer_id uuid REFERENCES public.customers(id) ON DELETE SET NULL,
+  recipient_name text,
+  sale_return_id uuid REFERENCES public.sale_returns(id) ON DELETE SET NULL,
+  notes text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.gift_vouchers.value_type IS 'fixed = one of the preset denominations, open = any amount';
+COMMENT ON COLUMN public.gift_vouchers.payment_method IS 'How a sold voucher was paid for; cash goes into the drawer';
+
+CREATE INDEX IF NOT EXISTS idx_gift_vouchers_department ON public.gift_vouchers(department_id, status);
+
+CREATE TABLE IF NOT EXISTS public.gift_voucher_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  voucher_id uuid NOT NULL REFERENCES public.gift_vouchers(id) ON DELETE CASCADE,
+  department_id uuid REFERENCES public.departments(id) ON DELETE CASCADE,
+  sale_id uuid REFERENCES public.sales(id) ON DELETE SET NULL,
+  transaction_type text NOT NULL CHECK (transaction_type IN ('issue', 'redeem', 'reversal', 'cancel')),
+  amount numeric NOT NULL, -- Signed: issuing adds to the balance, redeeming takes from it
+  balance_after numeric NOT NULL,
+  notes text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_voucher_transactions_voucher ON public.gift_voucher_transactions(voucher_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_gift_voucher_transactions_sale ON public.gift_voucher_transactions(sale_id);
+
+ALTER TABLE public.gift_vouchers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gift_voucher_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Gift vouchers viewable by authenticated" ON public.gift_vouchers
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Staff can manage gift vouchers" ON public.gift_vouchers
+FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Gift voucher transactions viewable by authenticated" ON public.gift_voucher_transactions
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Staff can manage gift voucher transactions" ON public.gift_voucher_transactions
+FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_gift_vouchers_updated_at
+BEFORE UPDATE ON public.gift_vouchers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at();
+
+-- Unambiguous characters only, since codes get typed in when the QR code won't scan
+CREATE OR REPLACE FUNCTION public.generate_voucher_code()
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    _code text;
+BEGIN
+    LOOP
+        _code := 'GV-';
+        FOR i IN 1..8 LOOP
+            _code := _code || substr(_alphabet, 1 + floor(random() * length(_alphabet))::int, 1);
+        END LOOP;
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM public.gift_vouchers WHERE code = _code);
+    END LOOP;
+    RETURN _code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.issue_gift_voucher(
+    _department_id uuid,
+    _amount numeric,
+    _value_type text DEFAULT 'fixed',
+    _expires_at date DEFAULT NULL,
+    _source text DEFAULT 'sold',
+    _payment_method text DEFAULT NULL,
+    _payment_reference text DEFAULT NULL,
+    _customer_id uuid DEFAULT NULL,
+    _recipient_name text DEFAULT NULL,
+    _notes text DEFAULT NULL,
+    _sale_return_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _voucher public.gift_vouchers;
+BEGIN
+    IF COALESCE(_amount, 0) <= 0 THEN
+        RAISE EXCEPTION 'A voucher needs a value';
+    END IF;
+    IF _source = 'sold' AND _payment_method IS NULL THEN
+        RAISE EXCEPTION 'Choose how the voucher was paid for';
+    END IF;
+
+    INSERT INTO public.gift_vouchers (
+        department_id, code, value_type, initial_value, balance, expires_at, source,
+        payment_method, payment_reference, customer_id, recipient_name, sale_return_id, notes, created_by
+    )
+    VALUES (
+        _department_id, public.generate_voucher_code(), COALESCE(_value_type, 'fixed'), _amount, _amount, _expires_at,
+        COALESCE(_source, 'sold'), CASE WHEN _source = 'sold' THEN _payment_method END, NULLIF(trim(_payment_reference), ''),
+        _customer_id, NULLIF(trim(_recipient_name), ''), _sale_return_id, _notes, auth.uid()
+    )
+    RETURNING * INTO _voucher;
+
+    INSERT INTO public.gift_voucher_transactions (
+        voucher_id, department_id, transaction_type, amount, balance_after, notes, created_by
+    )
+    VALUES (_voucher.id, _department_id, 'issue', _amount, _amount, _notes, auth.uid());
+
+    RETURN to_jsonb(_voucher);
+END;
+$$;
+
+-- Takes a voucher tender off the voucher's balance; called by create_sale
+CREATE OR REPLACE FUNCTION public.redeem_gift_voucher(
+    _code text,
+    _amount numeric,
+    _sale_id uuid
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _voucher public.gift_vouchers;
+    _sale public.sales;
+BEGIN
+    SELECT * INTO _sale FROM public.sales WHERE id = _sale_id;
+
+    SELECT * INTO _voucher FROM public.gift_vouchers
+    WHERE code = upper(trim(_code))
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Gift voucher % not found', _code;
+    END IF;
+    IF _voucher.status = 'cancelled' THEN
+        RAISE EXCEPTION 'Gift voucher % has been cancelled', _voucher.code;
+    END IF;
+    IF _voucher.expires_at IS NOT NULL AND _voucher.expires_at < current_date THEN
+        RAISE EXCEPTION 'Gift voucher % expired on %', _voucher.code, _voucher.expires_at;
+    END IF;
+    IF _voucher.department_id IS DISTINCT FROM _sale.department_id THEN
+        RAISE EXCEPTION 'Gift voucher % belongs to another department', _voucher.code;
+    END IF;
+    IF _voucher.balance < _amount THEN
+        RAISE EXCEPTION 'Gift voucher % only has UGX % left', _voucher.code, _voucher.balance;
+    END IF;
+
+    UPDATE public.gift_vouchers
+    SET balance = balance - _amount
+    WHERE id = _voucher.id
+    RETURNING * INTO _voucher;
+
+    INSERT INTO public.gift_voucher_transactions (
+        voucher_id, department_id, sale_id, transaction_type, amount, balance_after, notes, created_by
+    )
+    VALUES (
+        _voucher.id, _sale.department_id, _sale_id, 'redeem', -_amount, _voucher.balance,
+        'Receipt ' || _sale.receipt_number, auth.uid()
+    );
+
+    RETURN _voucher.balance;
+END;
+$$;
+
+-- Writes off what is left on a voucher, e.g. a lost or wrongly issued one
+CREATE OR REPLACE FUNCTION public.cancel_gift_voucher(
+    _voucher_id uuid,
+    _reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _voucher public.gift_vouchers;
+    _remaining numeric;
+BEGIN
+    IF NULLIF(trim(_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'Give a reason for cancelling the voucher';
+    END IF;
+
+    SELECT * INTO _voucher FROM public.gift_vouchers WHERE id = _voucher_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Gift voucher not found';
+    END IF;
+    IF _voucher.status = 'cancelled' THEN
+        RAISE EXCEPTION 'Gift voucher % is already cancelled', _voucher.code;
+    END IF;
+
+    _remaining := _voucher.balance;
+
+    UPDATE public.gift_vouchers
+    SET status = 'cancelled', balance = 0
+    WHERE id = _voucher.id
+    RETURNING * INTO _voucher;
+
+    INSERT INTO public.gift_voucher_transactions (
+        voucher_id, department_id, transaction_type, amount, balance_after, notes, created_by
+    )
+    VALUES (_voucher.id, _voucher.department_id, 'cancel', -_remaining, 0, _reason, auth.uid());
+
+    RETURN to_jsonb(_voucher);
+END;
+$$;
+
+-- Voiding a sale puts voucher and store credit tenders back where they came from
+CREATE OR REPLACE FUNCTION public.reverse_sale_vouchers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _tx public.gift_voucher_transactions;
+    _credit public.customer_credit_transactions;
+    _balance_after numeric;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.gift_voucher_transactions WHERE sale_id = NEW.id AND transaction_type = 'reversal') THEN
+        FOR _tx IN
+            SELECT * FROM public.gift_voucher_transactions
+            WHERE sale_id = NEW.id AND transaction_type = 'redeem'
+        LOOP
+            UPDATE public.gift_vouchers
+            SET balance = balance - _tx.amount
+            WHERE id = _tx.voucher_id AND status = 'active'
+            RETURNING balance INTO _balance_after;
+
+            -- A voucher cancelled since the sale stays cancelled
+            CONTINUE WHEN NOT FOUND;
+
+            INSERT INTO public.gift_voucher_transactions (
+                voucher_id, department_id, sale_id, transaction_type, amount, balance_after, notes, created_by
+            )
+            VALUES (
+                _tx.voucher_id, _tx.department_id, NEW.id, 'reversal', -_tx.amount, _balance_after,
+                'Voided receipt ' || NEW.receipt_number, auth.uid()
+            );
+        END LOOP;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.customer_credit_transactions WHERE sale_id = NEW.id AND transaction_type = 'store_credit_reversal') THEN
+        FOR _credit IN
+            SELECT * FROM public.customer_credit_transactions
+            WHERE sale_id = NEW.id AND transaction_type = 'store_credit_used'
+        LOOP
+            UPDATE public.customers
+            SET store_credit_balance = COALESCE(store_credit_balance, 0) + _credit.amount
+            WHERE id = _credit.customer_id
+            RETURNING store_credit_balance INTO _balance_after;
+
+            INSERT INTO public.customer_credit_transactions (
+                customer_id, department_id, sale_id, amount, balance_after, transaction_type, notes, created_by
+            )
+            VALUES (
+                _credit.customer_id, _credit.department_id, NEW.id, _credit.amount, _balance_after,
+                'store_credit_reversal', 'Voided receipt ' || NEW.receipt_number, auth.uid()
+            );
+        END LOOP;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sales_reverse_vouchers
+AFTER UPDATE OF status ON public.sales
+FOR EACH ROW
+WHEN (NEW.status = 'voided' AND OLD.status IS DISTINCT FROM 'voided')
+EXECUTE FUNCTION public.reverse_sale_vouchers();
+
+GRANT EXECUTE ON FUNCTION public.issue_gift_voucher(uuid, numeric, text, date, text, text, text, uuid, text, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_gift_voucher(uuid, text) TO authenticated;
+
+-- Same as before, plus drawing down gift voucher and store credit tenders
+CREATE OR REPLACE FUNCTION public.create_sale(
+    _idempotency_key text,
+    _sale jsonb,
+    _items jsonb,
+    _payments jsonb DEFAULT '[]'::jsonb,
+    _stock jsonb DEFAULT '[]'::jsonb,
+    _allow_oversell boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _existing public.sales;
+    _new_sale public.sales;
+    _receipt_number text;
+    _line jsonb;
+    _item_id uuid;
+    _quantity numeric;
+    _available numeric;
+    _payment public.sale_payments;
+    _balance_after numeric;
+BEGIN
+    IF _idempotency_key IS NOT NULL THEN
+        -- Serialise retries of the same checkout
+        PERFORM pg_advisory_xact_lock(hashtext('create_sale:' || _idempotency_key));
+
+        SELECT * INTO _existing FROM public.sales WHERE idempotency_key = _idempotency_key;
+        IF FOUND THEN
+            RETURN jsonb_build_object(
+                'sale', to_jsonb(_existing),
+                'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM public.sale_payments p WHERE p.sale_id = _existing.id), '[]'::jsonb),
+                'loyalty', public.get_sale_loyalty(_existing.id),
+                'duplicate', true
+            );
+        END IF;
+    END IF;
+
+    IF jsonb_array_length(COALESCE(_items, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'A sale needs at least one item';
+    END IF;
+
+    _receipt_number := NULLIF(_sale ->> 'receipt_number', '');
+    IF _receipt_number IS NULL THEN
+        -- generate_receipt_number reads MAX(receipt_number), so only one checkout may use it at a time
+        PERFORM pg_advisory_xact_lock(hashtext('create_sale:receipt_number'));
+        _receipt_number := public.generate_receipt_number();
+    END IF;
+
+    INSERT INTO public.sales (
+        department_id, cashier_id, cashier_name, customer_id, payment_method,
+        subtotal, discount, discount_reason, discount_approved_by, tax, total,
+        amount_paid, change_amount, receipt_number, sale_number, invoice_number,
+        is_invoice, is_loan, notes, remarks, status, created_at, idempotency_key
+    )
+    SELECT
+        s.department_id, COALESCE(s.cashier_id, auth.uid()), s.cashier_name, s.customer_id, s.payment_method,
+        s.subtotal, COALESCE(s.discount, 0), s.discount_reason, s.discount_approved_by, COALESCE(s.tax, 0), s.total,
+        s.amount_paid, COALESCE(s.change_amount, 0), _receipt_number, COALESCE(s.sale_number, _receipt_number), s.invoice_number,
+        COALESCE(s.is_invoice, false), COALESCE(s.is_loan, false), s.notes, s.remarks, COALESCE(s.status, 'completed'),
+        COALESCE(s.created_at, now()), _idempotency_key
+    FROM jsonb_populate_record(NULL::public.sales, _sale) s
+    RETURNING * INTO _new_sale;
+
+    INSERT INTO public.sale_items (
+        sale_id, product_id, service_id, variant_id, name, item_name, quantity, unit_price, total,
+        discount_type, discount_value, discount_amount, discount_reason,
+        tax_profile_id, tax_name, tax_treatment, tax_rate, tax_inclusive, taxable_amount, tax_amount,
+        customer_type, scent_mixture, scent_breakdown, bottle_cost, ml_amount, price_per_ml
+    )
+    SELECT
+        _new_sale.id, i.product_id, i.service_id, i.variant_id, COALESCE(i.name, i.item_name, 'Unnamed Item'),
+        COALESCE(i.item_name, i.name), COALESCE(i.quantity, 1), COALESCE(i.unit_price, 0), COALESCE(i.total, 0),
+        i.discount_type, COALESCE(i.discount_value, 0), COALESCE(i.discount_amount, 0), i.discount_reason,
+        i.tax_profile_id, i.tax_name, i.tax_treatment, i.tax_rate, i.tax_inclusive, i.taxable_amount, i.tax_amount,
+        i.customer_type, i.scent_mixture, i.scent_breakdown, i.bottle_cost, i.ml_amount, i.price_per_ml
+    FROM jsonb_populate_recordset(NULL::public.sale_items, _items) i;
+
+    -- Check every line before taking anything, holding the rows so another till can't sell them meanwhile
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_stock, '[]'::jsonb)) LOOP
+        _item_id := NULLIF(_line ->> 'item_id', '')::uuid;
+        _quantity := COALESCE((_line ->> 'quantity')::numeric, 0);
+        CONTINUE WHEN _quantity <= 0;
+
+        IF _line ->> 'item_type' = 'scent' THEN
+            IF _item_id IS NULL THEN
+                _item_id := public.find_department_scent(_new_sale.department_id, _line ->> 'name');
+                -- Untracked scents have never blocked a sale
+                CONTINUE WHEN _item_id IS NULL;
+            END IF;
+            SELECT COALESCE(stock_ml, 0) INTO _available FROM public.perfume_scents WHERE id = _item_id FOR UPDATE;
+        ELSIF _line ->> 'item_type' = 'variant' THEN
+            SELECT COALESCE(stock, 0) INTO _available FROM public.product_variants WHERE id = _item_id FOR UPDATE;
+        ELSIF COALESCE((_line ->> 'use_ml')::boolean, false) THEN
+            SELECT COALESCE(total_ml, 0) INTO _available FROM public.products WHERE id = _item_id FOR UPDATE;
+        ELSE
+            SELECT COALESCE(stock, 0) INTO _available FROM public.products WHERE id = _item_id FOR UPDATE;
+        END IF;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Stock item for % not found', COALESCE(_line ->> 'name', _item_id::text);
+        END IF;
+
+        -- An offline sale has already left the shop; recording it anyway takes stock to zero
+        IF _available < _quantity AND NOT _allow_oversell THEN
+            RAISE EXCEPTION 'Insufficient stock for %. Available: %', COALESCE(_line ->> 'name', 'item'), _available;
+        END IF;
+
+        PERFORM public.apply_stock_movement(
+            _line ->> 'item_type',
+            _item_id,
+            'sale',
+            -_quantity,
+            NULL,
+            COALESCE((_line ->> 'use_ml')::boolean, false),
+            'sale',
+            _new_sale.id,
+            'Receipt ' || _receipt_number
+        );
+    END LOOP;
+
+    FOR _payment IN
+        INSERT INTO public.sale_payments (
+            sale_id, department_id, method, amount, tendered_amount, reference,
+            phone_number, provider, customer_id, status, created_by
+        )
+        SELECT
+            _new_sale.id, _new_sale.department_id, p.method, p.amount, p.tendered_amount, p.reference,
+            p.phone_number, p.provider, p.customer_id, COALESCE(p.status, 'completed'), auth.uid()
+        FROM jsonb_populate_recordset(NULL::public.sale_payments, COALESCE(_payments, '[]'::jsonb)) p
+        WHERE COALESCE(p.amount, 0) > 0
+        RETURNING *
+    LOOP
+        IF _payment.method = 'credit' AND _payment.customer_id IS NOT NULL THEN
+            UPDATE public.customers
+            SET outstanding_balance = COALESCE(outstanding_balance, 0) + _payment.amount
+            WHERE id = _payment.customer_id
+            RETURNING outstanding_balance INTO _balance_after;
+
+            INSERT INTO public.customer_credit_transactions (
+                customer_id, department_id, sale_id, amount, balance_after, transaction_type, notes, created_by
+            )
+            VALUES (
+                _payment.customer_id, _new_sale.department_id, _new_sale.id, _payment.amount,
+                _balance_after, 'credit', 'Sale on credit', auth.uid()
+            );
+        ELSIF _payment.method = 'voucher' THEN
+            PERFORM public.redeem_gift_voucher(_payment.reference, _payment.amount, _new_sale.id);
+        ELSIF _payment.method = 'store_credit' THEN
+            IF _payment.customer_id IS NULL THEN
+                RAISE EXCEPTION 'Store credit needs a customer';
+            END IF;
+
+            UPDATE public.customers
+            SET store_credit_balance = COALESCE(store_credit_balance, 0) - _payment.amount
+            WHERE id = _payment.customer_id
+            RETURNING store_credit_balance INTO _balance_after;
+
+            IF _balance_after < 0 THEN
+                RAISE EXCEPTION 'Only UGX % of store credit left', _balance_after + _payment.amount;
+            END IF;
+
+            INSERT INTO public.customer_credit_transactions (
+                customer_id, department_id, sale_id, amount, balance_after, transaction_type, notes, created_by
+            )
+            VALUES (
+                _payment.customer_id, _new_sale.department_id, _new_sale.id, _payment.amount,
+                _balance_after, 'store_credit_used', 'Receipt ' || _receipt_number, auth.uid()
+            );
+        END IF;
+    END LOOP;
+
+    PERFORM public.apply_sale_loyalty(_new_sale.id);
+
+    RETURN jsonb_build_object(
+        'sale', to_jsonb(_new_sale),
+        'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM public.sale_payments p WHERE p.sale_id = _new_sale.id), '[]'::jsonb),
+        'loyalty', public.get_sale_loyalty(_new_sale.id),
+        'duplicate', false
+    );
+END;
+$$;
@@ -0,0 +1,327 @@
+-- Mobile money agent float: each agent SIM (agent_lines) carries an e-float balance with its provider,
+-- and the department holds the physical cash. Deposits, withdrawals, float purchases and bank float
+-- transfers go through record_agent_transaction, which moves both balances and keeps them in
+-- agent_transactions. A day is opened with the float and cash counted at the start and closed with
+-- the counts at the end; transactions need an open day.
+CREATE TABLE IF NOT EXISTS public.agent_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  provider text NOT NULL CHECK (provider IN ('mtn', 'airtel')),
+  name text NOT NULL,
+  agent_code text,
+  phone_number text,
+  float_balance numeric NOT NULL DEFAULT 0,
+  low_float_alert numeric NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.agent_lines.float_balance IS 'Running e-float, reset to the counted float when a day is opened';
+COMMENT ON COLUMN public.agent_lines.low_float_alert IS 'Warn when the float drops below this; 0 = no warning';
+
+CREATE INDEX IF NOT EXISTS idx_agent_lines_department ON public.agent_lines(department_id);
+
+CREATE TABLE IF NOT EXISTS public.agent_float_days (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  business_date date NOT NULL DEFAULT current_date,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opening_cash numeric NOT NULL DEFAULT 0,
+  cash_balance numeric NOT NULL DEFAULT 0,
+  low_cash_alert numeric NOT NULL DEFAULT 0,
+  opening_floats jsonb NOT NULL DEFAULT '{}'::jsonb,
+  closing_cash_counted numeric,
+  closing_floats jsonb,
+  notes text,
+  opened_by uuid,
+  opened_at timestamptz NOT NULL DEFAULT now(),
+  closed_by uuid,
+  closed_at timestamptz
+);
+
+COMMENT ON COLUMN public.agent_float_days.cash_balance IS 'Running physical cash for the day; at close this is the expected cash';
+COMMENT ON COLUMN public.agent_float_days.opening_floats IS '{ line_id: float counted at opening }';
+COMMENT ON COLUMN public.agent_float_days.closing_floats IS '{ line_id: { expected, counted } }';
+
+-- One open day per department at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_float_days_open ON public.agent_float_days(department_id) WHERE status = 'open';
+
+CREATE TABLE IF NOT EXISTS public.agent_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  line_id uuid NOT NULL REFERENCES public.agent_lines(id) ON DELETE CASCADE,
+  day_id uuid REFERENCES public.agent_float_days(id) ON DELETE SET NULL,
+  transaction_type text NOT NULL CHECK (transaction_type IN (
+    'deposit', 'withdrawal', 'float_purchase', 'bank_transfer_in', 'bank_transfer_out', 'reversal'
+  )),
+  amount numeric NOT NULL CHECK (amount > 0),
+  float_change numeric NOT NULL,
+  cash_change numeric NOT NULL,
+  float_after numeric NOT NULL,
+  cash_after numeric NOT NULL,
+  customer_phone text,
+  customer_name text,
+  reference text,
+  reversal_of uuid REFERENCES public.agent_transactions(id) ON DELETE SET NULL,
+  notes text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.agent_transactions.transaction_type IS 'deposit = customer cash in, e-float out; withdrawal = e-float in, cash out; float_purchase = cash for e-float; bank_transfer_in/out = e-float from or to the bank';
+
+CREATE INDEX IF NOT EXISTS idx_agent_transactions_line ON public.agent_transactions(line_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_agent_transactions_day ON public.agent_transactions(day_id);
+
+ALTER TABLE public.agent_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_float_days ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agent lines viewable by authenticated" ON public.agent_lines
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Staff can manage agent lines" ON public.agent_lines
+FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Agent float days viewable by authenticated" ON public.agent_float_days
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Agent transactions viewable by authenticated" ON public.agent_transactions
+FOR SELECT TO authenticated USING (true);
+
+-- Balances only move through the functions below, so days and transactions have no write policy
+
+CREATE TRIGGER update_agent_lines_updated_at
+BEFORE UPDATE ON public.agent_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at();
+
+CREATE OR REPLACE FUNCTION public.open_agent_day(
+    _department_id uuid,
+    _opening_cash numeric,
+    _floats jsonb,
+    _low_cash_alert numeric DEFAULT 0,
+    _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _day public.agent_float_days;
+    _line public.agent_lines;
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.agent_float_days WHERE department_id = _department_id AND status = 'open') THEN
+        RAISE EXCEPTION 'Close the open day before starting a new one';
+    END IF;
+    IF COALESCE(_opening_cash, 0) < 0 THEN
+        RAISE EXCEPTION 'Opening cash can''t be negative';
+    END IF;
+
+    -- The float counted on each SIM is the starting balance, whatever the ledger says
+    FOR _line IN
+        SELECT * FROM public.agent_lines WHERE department_id = _department_id AND is_active FOR UPDATE
+    LOOP
+        IF NOT COALESCE(_floats, '{}'::jsonb) ? _line.id::text THEN
+            RAISE EXCEPTION 'Enter the opening float for %', _line.name;
+        END IF;
+        UPDATE public.agent_lines
+        SET float_balance = (_floats ->> _line.id::text)::numeric
+        WHERE id = _line.id;
+    END LOOP;
+
+    INSERT INTO public.agent_float_days (
+        department_id, opening_cash, cash_balance, low_cash_alert, opening_floats, notes, opened_by
+    )
+    VALUES (
+        _department_id, COALESCE(_opening_cash, 0), COALESCE(_opening_cash, 0), COALESCE(_low_cash_alert, 0),
+        COALESCE(_floats, '{}'::jsonb), _notes, auth.uid()
+    )
+    RETURNING * INTO _day;
+
+    RETURN to_jsonb(_day);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_agent_transaction(
+    _line_id uuid,
+    _transaction_type text,
+    _amount numeric,
+    _customer_phone text DEFAULT NULL,
+    _customer_name text DEFAULT NULL,
+    _reference text DEFAULT NULL,
+    _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _line public.agent_lines;
+    _day public.agent_float_days;
+    _float_change numeric;
+    _cash_change numeric;
+    _tx public.agent_transactions;
+BEGIN
+    IF COALESCE(_amount, 0) <= 0 THEN
+        RAISE EXCEPTION 'Enter an amount';
+    END IF;
+
+    SELECT * INTO _line FROM public.agent_lines WHERE id = _line_id FOR UPDATE;
+    IF NOT FOUND OR NOT _line.is_active THEN
+        RAISE EXCEPTION 'Agent line not found';
+    END IF;
+
+    SELECT * INTO _day FROM public.agent_float_days
+    WHERE department_id = _line.department_id AND status = 'open'
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Open the day with the float and cash counts first';
+    END IF;
+
+    CASE _transaction_type
+        WHEN 'deposit' THEN _float_change := -_amount; _cash_change := _amount;
+        WHEN 'withdrawal' THEN _float_change := _amount; _cash_change := -_amount;
+        WHEN 'float_purchase' THEN _float_change := _amount; _cash_change := -_amount;
+        WHEN 'bank_transfer_in' THEN _float_change := _amount; _cash_change := 0;
+        WHEN 'bank_transfer_out' THEN _float_change := -_amount; _cash_change := 0;
+        ELSE RAISE EXCEPTION 'Unknown agent transaction type %', _transaction_type;
+    END CASE;
+
+    IF _line.float_balance + _float_change < 0 THEN
+        RAISE EXCEPTION 'Not enough float on %: UGX % left', _line.name, _line.float_balance;
+    END IF;
+    IF _day.cash_balance + _cash_change < 0 THEN
+        RAISE EXCEPTION 'Not enough cash in the till: UGX % left', _day.cash_balance;
+    END IF;
+
+    UPDATE public.agent_lines SET float_balance = float_balance + _float_change WHERE id = _line.id
+    RETURNING * INTO _line;
+    UPDATE public.agent_float_days SET cash_balance = cash_balance + _cash_change WHERE id = _day.id
+    RETURNING * INTO _day;
+
+    INSERT INTO public.agent_transactions (
+        department_id, line_id, day_id, transaction_type, amount, float_change, cash_change,
+        float_after, cash_after, customer_phone, customer_name, reference, notes, created_by
+    )
+    VALUES (
+        _line.department_id, _line.id, _day.id, _transaction_type, _amount, _float_change, _cash_change,
+        _line.float_balance, _day.cash_balance, NULLIF(trim(_customer_phone), ''), NULLIF(trim(_customer_name), ''),
+        NULLIF(trim(_reference), ''), _notes, auth.uid()
+    )
+    RETURNING * INTO _tx;
+
+    RETURN to_jsonb(_tx);
+END;
+$$;
+
+-- Undo a mistaken entry from today with a counter-entry; the original stays in the ledger
+CREATE OR REPLACE FUNCTION public.reverse_agent_transaction(
+    _transaction_id uuid,
+    _reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _original public.agent_transactions;
+    _line public.agent_lines;
+    _day public.agent_float_days;
+    _tx public.agent_transactions;
+BEGIN
+    IF NULLIF(trim(_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'Give a reason for the reversal';
+    END IF;
+
+    SELECT * INTO _original FROM public.agent_transactions WHERE id = _transaction_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transaction not found';
+    END IF;
+    IF _original.transaction_type = 'reversal' THEN
+        RAISE EXCEPTION 'A reversal can''t be reversed';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.agent_transactions WHERE reversal_of = _original.id) THEN
+        RAISE EXCEPTION 'This transaction has already been reversed';
+    END IF;
+
+    SELECT * INTO _day FROM public.agent_float_days WHERE id = _original.day_id AND status = 'open' FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only transactions from the open day can be reversed';
+    END IF;
+
+    UPDATE public.agent_lines SET float_balance = float_balance - _original.float_change WHERE id = _original.line_id
+    RETURNING * INTO _line;
+    UPDATE public.agent_float_days SET cash_balance = cash_balance - _original.cash_change WHERE id = _day.id
+    RETURNING * INTO _day;
+
+    INSERT INTO public.agent_transactions (
+        department_id, line_id, day_id, transaction_type, amount, float_change, cash_change,
+        float_after, cash_after, customer_phone, customer_name, reference, reversal_of, notes, created_by
+    )
+    VALUES (
+        _original.department_id, _original.line_id, _day.id, 'reversal', _original.amount,
+        -_original.float_change, -_original.cash_change, _line.float_balance, _day.cash_balance,
+        _original.customer_phone, _original.customer_name, _original.reference, _original.id, _reason, auth.uid()
+    )
+    RETURNING * INTO _tx;
+
+    RETURN to_jsonb(_tx);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_agent_day(
+    _day_id uuid,
+    _counted_cash numeric,
+    _counted_floats jsonb,
+    _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _day public.agent_float_days;
+    _closing jsonb := '{}'::jsonb;
+    _line public.agent_lines;
+BEGIN
+    SELECT * INTO _day FROM public.agent_float_days WHERE id = _day_id FOR UPDATE;
+    IF NOT FOUND OR _day.status <> 'open' THEN
+        RAISE EXCEPTION 'This day is not open';
+    END IF;
+
+    FOR _line IN
+        SELECT * FROM public.agent_lines WHERE department_id = _day.department_id AND is_active
+    LOOP
+        IF NOT COALESCE(_counted_floats, '{}'::jsonb) ? _line.id::text THEN
+            RAISE EXCEPTION 'Enter the closing float for %', _line.name;
+        END IF;
+        _closing := _closing || jsonb_build_object(
+            _line.id::text,
+            jsonb_build_object('expected', _line.float_balance, 'counted', (_counted_floats ->> _line.id::text)::numeric)
+        );
+    END LOOP;
+
+    UPDATE public.agent_float_days
+    SET status = 'closed',
+        closing_cash_counted = _counted_cash,
+        closing_floats = _closing,
+        notes = COALESCE(_notes, notes),
+        closed_by = auth.uid(),
+        closed_at = now()
+    WHERE id = _day.id
+    RETURNING * INTO _day;
+
+    RETURN to_jsonb(_day);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_agent_day(uuid, numeric, jsonb, numeric, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_agent_transaction(uuid, text, numeric, text, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reverse_agent_transaction(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.close_agent_day(uuid, numeric, jsonb, text) TO authenticated;
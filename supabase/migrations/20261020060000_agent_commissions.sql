@@ -0,0 +1,277 @@
+-- Agent commissions: each department keeps a commission table per provider, made of amount bands
+-- for deposits and withdrawals. record_agent_transaction looks up the band and stores the expected
+-- commission on the entry, and a reversal takes it back. At month end the commission on the provider's
+-- statement is entered per line and kept next to the expected total for reconciliation.
+CREATE TABLE IF NOT EXISTS public.agent_commission_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  provider text NOT NULL CHECK (provider IN ('mtn', 'airtel')),
+  transaction_type text NOT NULL CHECK (transaction_type IN ('deposit', 'withdrawal')),
+  min_amount numeric NOT NULL DEFAULT 0 CHECK (min_amount >= 0),
+  max_amount numeric CHECK (max_amount IS NULL OR max_amount >= min_amount),
+  fixed_commission numeric NOT NULL DEFAULT 0 CHECK (fixed_commission >= 0),
+  percent_commission numeric NOT NULL DEFAULT 0 CHECK (percent_commission >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.agent_commission_rates.max_amount IS 'Upper end of the band, inclusive; NULL = no upper limit';
+COMMENT ON COLUMN public.agent_commission_rates.percent_commission IS 'Percent of the amount, added to fixed_commission';
+
+CREATE INDEX IF NOT EXISTS idx_agent_commission_rates_lookup
+ON public.agent_commission_rates(department_id, provider, transaction_type, min_amount);
+
+ALTER TABLE public.agent_transactions
+ADD COLUMN IF NOT EXISTS commission numeric NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.agent_transactions.commission IS 'Expected commission from the rate band when recorded; negative on reversals';
+
+CREATE TABLE IF NOT EXISTS public.agent_commission_statements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  line_id uuid NOT NULL REFERENCES public.agent_lines(id) ON DELETE CASCADE,
+  period_month date NOT NULL,
+  expected_commission numeric NOT NULL DEFAULT 0,
+  statement_commission numeric NOT NULL DEFAULT 0,
+  notes text,
+  recorded_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (line_id, period_month)
+);
+
+COMMENT ON COLUMN public.agent_commission_statements.period_month IS 'First day of the statement month';
+COMMENT ON COLUMN public.agent_commission_statements.expected_commission IS 'Commission accrued in the ledger for the month when the statement was entered';
+
+ALTER TABLE public.agent_commission_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_commission_statements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agent commission rates viewable by authenticated" ON public.agent_commission_rates
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Staff can manage agent commission rates" ON public.agent_commission_rates
+FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Agent commission statements viewable by authenticated" ON public.agent_commission_statements
+FOR SELECT TO authenticated USING (true);
+
+-- Statements are written by record_agent_commission_statement so the expected total comes from the ledger
+
+CREATE TRIGGER update_agent_commission_rates_updated_at
+BEFORE UPDATE ON public.agent_commission_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at();
+
+CREATE TRIGGER update_agent_commission_statements_updated_at
+BEFORE UPDATE ON public.agent_commission_statements
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at();
+
+-- Commission for one entry: the band the amount falls in, or 0 when no band covers it
+CREATE OR REPLACE FUNCTION public.get_agent_commission(
+    _department_id uuid,
+    _provider text,
+    _transaction_type text,
+    _amount numeric
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE((
+        SELECT round(fixed_commission + _amount * percent_commission / 100)
+        FROM public.agent_commission_rates
+        WHERE department_id = _department_id
+          AND provider = _provider
+          AND transaction_type = _transaction_type
+          AND _amount >= min_amount
+          AND (max_amount IS NULL OR _amount <= max_amount)
+        ORDER BY min_amount DESC
+        LIMIT 1
+    ), 0);
+$$;
+
+-- Same as 20261020050000_agent_float, now storing the commission on each entry
+CREATE OR REPLACE FUNCTION public.record_agent_transaction(
+    _line_id uuid,
+    _transaction_type text,
+    _amount numeric,
+    _customer_phone text DEFAULT NULL,
+    _customer_name text DEFAULT NULL,
+    _reference text DEFAULT NULL,
+    _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _line public.agent_lines;
+    _day public.agent_float_days;
+    _float_change numeric;
+    _cash_change numeric;
+    _tx public.agent_transactions;
+    _commission numeric;
+BEGIN
+    IF COALESCE(_amount, 0) <= 0 THEN
+        RAISE EXCEPTION 'Enter an amount';
+    END IF;
+
+    SELECT * INTO _line FROM public.agent_lines WHERE id = _line_id FOR UPDATE;
+    IF NOT FOUND OR NOT _line.is_active THEN
+        RAISE EXCEPTION 'Agent line not found';
+    END IF;
+
+    SELECT * INTO _day FROM public.agent_float_days
+    WHERE department_id = _line.department_id AND status = 'open'
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Open the day with the float and cash counts first';
+    END IF;
+
+    CASE _transaction_type
+        WHEN 'deposit' THEN _float_change := -_amount; _cash_change := _amount;
+        WHEN 'withdrawal' THEN _float_change := _amount; _cash_change := -_amount;
+        WHEN 'float_purchase' THEN _float_change := _amount; _cash_change := -_amount;
+        WHEN 'bank_transfer_in' THEN _float_change := _amount; _cash_change := 0;
+        WHEN 'bank_transfer_out' THEN _float_change := -_amount; _cash_change := 0;
+        ELSE RAISE EXCEPTION 'Unknown agent transaction type %', _transaction_type;
+    END CASE;
+
+    IF _line.float_balance + _float_change < 0 THEN
+        RAISE EXCEPTION 'Not enough float on %: UGX % left', _line.name, _line.float_balance;
+    END IF;
+    IF _day.cash_balance + _cash_change < 0 THEN
+        RAISE EXCEPTION 'Not enough cash in the till: UGX % left', _day.cash_balance;
+    END IF;
+
+    _commission := public.get_agent_commission(_line.department_id, _line.provider, _transaction_type, _amount);
+
+    UPDATE public.agent_lines SET float_balance = float_balance + _float_change WHERE id = _line.id
+    RETURNING * INTO _line;
+    UPDATE public.agent_float_days SET cash_balance = cash_balance + _cash_change WHERE id = _day.id
+    RETURNING * INTO _day;
+
+    INSERT INTO public.agent_transactions (
+        department_id, line_id, day_id, transaction_type, amount, float_change, cash_change,
+        float_after, cash_after, commission, customer_phone, customer_name, reference, notes, created_by
+    )
+    VALUES (
+        _line.department_id, _line.id, _day.id, _transaction_type, _amount, _float_change, _cash_change,
+        _line.float_balance, _day.cash_balance, _commission, NULLIF(trim(_customer_phone), ''),
+        NULLIF(trim(_customer_name), ''), NULLIF(trim(_reference), ''), _notes, auth.uid()
+    )
+    RETURNING * INTO _tx;
+
+    RETURN to_jsonb(_tx);
+END;
+$$;
+
+-- Undo a mistaken entry from today with a counter-entry; the original stays in the ledger
+CREATE OR REPLACE FUNCTION public.reverse_agent_transaction(
+    _transaction_id uuid,
+    _reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _original public.agent_transactions;
+    _line public.agent_lines;
+    _day public.agent_float_days;
+    _tx public.agent_transactions;
+BEGIN
+    IF NULLIF(trim(_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'Give a reason for the reversal';
+    END IF;
+
+    SELECT * INTO _original FROM public.agent_transactions WHERE id = _transaction_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transaction not found';
+    END IF;
+    IF _original.transaction_type = 'reversal' THEN
+        RAISE EXCEPTION 'A reversal can''t be reversed';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.agent_transactions WHERE reversal_of = _original.id) THEN
+        RAISE EXCEPTION 'This transaction has already been reversed';
+    END IF;
+
+    SELECT * INTO _day FROM public.agent_float_days WHERE id = _original.day_id AND status = 'open' FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only transactions from the open day can be reversed';
+    END IF;
+
+    UPDATE public.agent_lines SET float_balance = float_balance - _original.float_change WHERE id = _original.line_id
+    RETURNING * INTO _line;
+    UPDATE public.agent_float_days SET cash_balance = cash_balance - _original.cash_change WHERE id = _day.id
+    RETURNING * INTO _day;
+
+    INSERT INTO public.agent_transactions (
+        department_id, line_id, day_id, transaction_type, amount, float_change, cash_change,
+        float_after, cash_after, commission, customer_phone, customer_name, reference, reversal_of, notes, created_by
+    )
+    VALUES (
+        _original.department_id, _original.line_id, _day.id, 'reversal', _original.amount,
+        -_original.float_change, -_original.cash_change, _line.float_balance, _day.cash_balance, -_original.commission,
+        _original.customer_phone, _original.customer_name, _original.reference, _original.id, _reason, auth.uid()
+    )
+    RETURNING * INTO _tx;
+
+    RETURN to_jsonb(_tx);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_agent_commission_statement(
+    _line_id uuid,
+    _period_month date,
+    _statement_commission numeric,
+    _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _line public.agent_lines;
+    _month date := date_trunc('month', _period_month)::date;
+    _expected numeric;
+    _statement public.agent_commission_statements;
+BEGIN
+    IF _statement_commission IS NULL OR _statement_commission < 0 THEN
+        RAISE EXCEPTION 'Enter the commission shown on the statement';
+    END IF;
+
+    SELECT * INTO _line FROM public.agent_lines WHERE id = _line_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Agent line not found';
+    END IF;
+
+    SELECT COALESCE(sum(commission), 0) INTO _expected
+    FROM public.agent_transactions
+    WHERE line_id = _line.id
+      AND created_at >= _month
+      AND created_at < (_month + interval '1 month');
+
+    INSERT INTO public.agent_commission_statements (
+        department_id, line_id, period_month, expected_commission, statement_commission, notes, recorded_by
+    )
+    VALUES (_line.department_id, _line.id, _month, _expected, _statement_commission, _notes, auth.uid())
+    ON CONFLICT (line_id, period_month) DO UPDATE
+    SET expected_commission = EXCLUDED.expected_commission,
+        statement_commission = EXCLUDED.statement_commission,
+        notes = EXCLUDED.notes,
+        recorded_by = EXCLUDED.recorded_by
+    RETURNING * INTO _statement;
+
+    RETURN to_jsonb(_statement);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_agent_commission(uuid, text, text, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_agent_commission_statement(uuid, date, numeric, text) TO authenticated;
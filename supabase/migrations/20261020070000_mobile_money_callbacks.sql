@@ -0,0 +1,267 @@
+-- Mobile money collection status: process-mobile-payment records each request in mobile_money_payments
+-- as pending, then the provider's callback (mobile-money-callback) or a status check (check-mobile-payment)
+-- moves it to completed or failed through apply_mobile_money_result, which also settles the linked
+-- sale_payments tender and the sale. Results that can't be matched to a pending payment, report a
+-- different amount or arrive after the payment was settled go to mobile_money_exceptions for staff.
+
+-- These tables predate the migrations folder; create them where missing and add what the functions use
+CREATE TABLE IF NOT EXISTS public.mobile_money_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid REFERENCES public.departments(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  is_enabled boolean DEFAULT false,
+  environment text DEFAULT 'sandbox',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.mobile_money_settings
+ADD COLUMN IF NOT EXISTS merchant_id text,
+ADD COLUMN IF NOT EXISTS api_key text,
+ADD COLUMN IF NOT EXISTS api_base_url text;
+
+COMMENT ON COLUMN public.mobile_money_settings.api_base_url IS 'Overrides the provider API host, e.g. http://localhost:4010 for the mock provider server';
+
+CREATE TABLE IF NOT EXISTS public.mobile_money_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid REFERENCES public.sales(id) ON DELETE SET NULL,
+  department_id uuid REFERENCES public.departments(id) ON DELETE SET NULL,
+  provider text NOT NULL,
+  phone_number text NOT NULL,
+  amount numeric NOT NULL,
+  status text DEFAULT 'pending',
+  response jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.mobile_money_payments
+ADD COLUMN IF NOT EXISTS sale_payment_id uuid REFERENCES public.sale_payments(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS transaction_id text,
+ADD COLUMN IF NOT EXISTS reference_id text,
+ADD COLUMN IF NOT EXISTS status_message text,
+ADD COLUMN IF NOT EXISTS payment_completed_at timestamptz,
+ADD COLUMN IF NOT EXISTS callback_payload jsonb,
+ADD COLUMN IF NOT EXISTS last_checked_at timestamptz,
+ADD COLUMN IF NOT EXISTS check_attempts integer NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.mobile_money_payments.status IS 'pending until the provider confirms, then completed or failed';
+COMMENT ON COLUMN public.mobile_money_payments.reference_id IS 'Our request ID sent to the provider (MTN X-Reference-Id, Airtel transaction.id), used to match callbacks';
+COMMENT ON COLUMN public.mobile_money_payments.transaction_id IS 'Provider transaction ID once the collection is confirmed';
+
+CREATE INDEX IF NOT EXISTS idx_mobile_money_payments_reference ON public.mobile_money_payments(provider, reference_id);
+CREATE INDEX IF NOT EXISTS idx_mobile_money_payments_pending ON public.mobile_money_payments(department_id, created_at) WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS public.mobile_money_exceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid REFERENCES public.departments(id) ON DELETE CASCADE,
+  payment_id uuid REFERENCES public.mobile_money_payments(id) ON DELETE SET NULL,
+  provider text NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('unmatched', 'amount_mismatch', 'late_result')),
+  reported_status text,
+  reference_id text,
+  transaction_id text,
+  phone_number text,
+  amount numeric,
+  payload jsonb,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'matched', 'dismissed')),
+  resolved_sale_payment_id uuid REFERENCES public.sale_payments(id) ON DELETE SET NULL,
+  resolution_notes text,
+  resolved_by uuid,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.mobile_money_exceptions.reason IS 'unmatched = no payment with this reference; amount_mismatch = provider amount differs; late_result = arrived after the payment was settled';
+
+CREATE INDEX IF NOT EXISTS idx_mobile_money_exceptions_open ON public.mobile_money_exceptions(department_id, created_at) WHERE status = 'open';
+
+ALTER TABLE public.mobile_money_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mobile_money_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mobile_money_exceptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Mobile money settings viewable by authenticated" ON public.mobile_money_settings;
+CREATE POLICY "Mobile money settings viewable by authenticated" ON public.mobile_money_settings
+FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage mobile money settings" ON public.mobile_money_settings;
+CREATE POLICY "Admins can manage mobile money settings" ON public.mobile_money_settings
+FOR ALL TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Mobile money payments viewable by authenticated" ON public.mobile_money_payments;
+CREATE POLICY "Mobile money payments viewable by authenticated" ON public.mobile_money_payments
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Mobile money exceptions viewable by authenticated" ON public.mobile_money_exceptions
+FOR SELECT TO authenticated USING (true);
+
+-- Payments and exceptions are written by the edge functions with the service role and the functions below
+
+CREATE OR REPLACE FUNCTION public.refresh_sale_payment_status(_sale_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- A failed tender leaves the sale pending until it's paid; a sale with every tender paid is completed.
+    -- Tenders still waiting on the provider don't hold the sale back, as at checkout.
+    IF EXISTS (SELECT 1 FROM public.sale_payments WHERE sale_id = _sale_id AND status = 'failed') THEN
+        UPDATE public.sales SET status = 'pending' WHERE id = _sale_id AND status = 'completed';
+    ELSIF NOT EXISTS (SELECT 1 FROM public.sale_payments WHERE sale_id = _sale_id AND status = 'pending') THEN
+        UPDATE public.sales SET status = 'completed' WHERE id = _sale_id AND status = 'pending';
+    END IF;
+END;
+$$;
+
+-- Settle a payment with the provider's result. Repeated results are ignored; anything that doesn't
+-- fit the pending payment is queued as an exception instead of being applied.
+CREATE OR REPLACE FUNCTION public.apply_mobile_money_result(
+    _payment_id uuid,
+    _status text,
+    _transaction_id text DEFAULT NULL,
+    _amount numeric DEFAULT NULL,
+    _message text DEFAULT NULL,
+    _payload jsonb DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _payment public.mobile_money_payments;
+    _reason text;
+BEGIN
+    IF _status NOT IN ('completed', 'failed') THEN
+        RAISE EXCEPTION 'Unknown payment result %', _status;
+    END IF;
+
+    SELECT * INTO _payment FROM public.mobile_money_payments WHERE id = _payment_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Mobile money payment not found';
+    END IF;
+
+    IF _payment.status = _status THEN
+        RETURN 'unchanged';
+    END IF;
+
+    IF _payment.status <> 'pending' THEN
+        _reason := 'late_result';
+    ELSIF _status = 'completed' AND _amount IS NOT NULL AND _amount <> _payment.amount THEN
+        _reason := 'amount_mismatch';
+    END IF;
+
+    IF _reason IS NOT NULL THEN
+        -- Callbacks and status checks can report the same result more than once
+        IF EXISTS (
+            SELECT 1 FROM public.mobile_money_exceptions
+            WHERE payment_id = _payment.id AND reason = _reason AND status = 'open'
+        ) THEN
+            RETURN 'exception';
+        END IF;
+
+        INSERT INTO public.mobile_money_exceptions (
+            department_id, payment_id, provider, reason, reported_status, reference_id, transaction_id,
+            phone_number, amount, payload
+        )
+        VALUES (
+            _payment.department_id, _payment.id, _payment.provider, _reason, _status, _payment.reference_id,
+            _transaction_id, _payment.phone_number, COALESCE(_amount, _payment.amount), _payload
+        );
+        RETURN 'exception';
+    END IF;
+
+    UPDATE public.mobile_money_payments
+    SET status = _status,
+        transaction_id = COALESCE(_transaction_id, transaction_id),
+        status_message = _message,
+        payment_completed_at = now(),
+        callback_payload = COALESCE(_payload, callback_payload),
+        updated_at = now()
+    WHERE id = _payment.id;
+
+    IF _payment.sale_payment_id IS NOT NULL THEN
+        UPDATE public.sale_payments
+        SET status = _status,
+            reference = COALESCE(_transaction_id, reference),
+            updated_at = now()
+        WHERE id = _payment.sale_payment_id AND status IN ('pending', 'failed');
+    END IF;
+
+    IF _payment.sale_id IS NOT NULL THEN
+        PERFORM public.refresh_sale_payment_status(_payment.sale_id);
+    END IF;
+
+    RETURN 'applied';
+END;
+$$;
+
+-- Staff settle an exception by applying it to an unpaid mobile money tender, or dismiss it
+CREATE OR REPLACE FUNCTION public.resolve_mobile_money_exception(
+    _exception_id uuid,
+    _sale_payment_id uuid DEFAULT NULL,
+    _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _exception public.mobile_money_exceptions;
+    _tender public.sale_payments;
+BEGIN
+    SELECT * INTO _exception FROM public.mobile_money_exceptions WHERE id = _exception_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exception not found';
+    END IF;
+    IF _exception.status <> 'open' THEN
+        RAISE EXCEPTION 'This exception has already been resolved';
+    END IF;
+
+    IF _sale_payment_id IS NULL THEN
+        IF NULLIF(trim(_notes), '') IS NULL THEN
+            RAISE EXCEPTION 'Give a reason for dismissing the exception';
+        END IF;
+    ELSE
+        SELECT * INTO _tender FROM public.sale_payments WHERE id = _sale_payment_id FOR UPDATE;
+        IF NOT FOUND OR _tender.method <> 'mobile_money' OR _tender.status NOT IN ('pending', 'failed') THEN
+            RAISE EXCEPTION 'Choose an unpaid mobile money payment';
+        END IF;
+
+        UPDATE public.sale_payments
+        SET status = 'completed',
+            reference = COALESCE(_exception.transaction_id, _exception.reference_id, reference),
+            updated_at = now()
+        WHERE id = _tender.id;
+
+        UPDATE public.mobile_money_payments
+        SET status = 'completed',
+            transaction_id = COALESCE(_exception.transaction_id, transaction_id),
+            payment_completed_at = COALESCE(payment_completed_at, now()),
+            updated_at = now()
+        WHERE sale_payment_id = _tender.id AND status <> 'completed';
+
+        PERFORM public.refresh_sale_payment_status(_tender.sale_id);
+    END IF;
+
+    UPDATE public.mobile_money_exceptions
+    SET status = CASE WHEN _sale_payment_id IS NULL THEN 'dismissed' ELSE 'matched' END,
+        resolved_sale_payment_id = _sale_payment_id,
+        resolution_notes = NULLIF(trim(_notes), ''),
+        resolved_by = auth.uid(),
+        resolved_at = now()
+    WHERE id = _exception.id
+    RETURNING * INTO _exception;
+
+    RETURN to_jsonb(_exception);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_sale_payment_status(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_mobile_money_result(uuid, text, text, numeric, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_mobile_money_result(uuid, text, text, numeric, text, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.resolve_mobile_money_exception(uuid, uuid, text) TO authenticated;
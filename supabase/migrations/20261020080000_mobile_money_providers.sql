@@ -0,0 +1,114 @@
+-- Mobile money provider credentials move out of settings.settings_json.mobile_money into
+-- mobile_money_settings, where the edge functions read them: MTN MoMo Collections (API user, API key
+-- and subscription key, plus the Disbursements product for refunds) and Airtel Money (client ID and
+-- secret). The placeholder merchant_id / api_key columns are replaced by these.
+--
+-- An environment of 'simulator' settles payments inside the edge functions without calling the
+-- provider, so cashiers can practise and payments can be tested offline.
+
+ALTER TABLE public.mobile_money_settings
+ADD COLUMN IF NOT EXISTS mtn_api_user text,
+ADD COLUMN IF NOT EXISTS mtn_api_key text,
+ADD COLUMN IF NOT EXISTS mtn_subscription_key text,
+ADD COLUMN IF NOT EXISTS mtn_disbursement_api_user text,
+ADD COLUMN IF NOT EXISTS mtn_disbursement_api_key text,
+ADD COLUMN IF NOT EXISTS mtn_disbursement_subscription_key text,
+ADD COLUMN IF NOT EXISTS airtel_client_id text,
+ADD COLUMN IF NOT EXISTS airtel_client_secret text,
+DROP COLUMN IF EXISTS merchant_id,
+DROP COLUMN IF EXISTS api_key;
+
+COMMENT ON COLUMN public.mobile_money_settings.mtn_disbursement_api_user IS 'MTN API user for the Disbursements product, only needed for refunds';
+
+UPDATE public.mobile_money_settings
+SET environment = 'sandbox'
+WHERE environment IS NULL OR environment NOT IN ('sandbox', 'production', 'simulator');
+
+ALTER TABLE public.mobile_money_settings
+ALTER COLUMN environment SET NOT NULL,
+ALTER COLUMN environment SET DEFAULT 'sandbox',
+ADD CONSTRAINT mobile_money_settings_environment_check CHECK (environment IN ('sandbox', 'production', 'simulator'));
+
+-- One row per department and provider, keeping the most recently updated
+DELETE FROM public.mobile_money_settings a
+USING public.mobile_money_settings b
+WHERE a.department_id = b.department_id
+  AND a.provider = b.provider
+  AND (COALESCE(a.updated_at, a.created_at), a.id) < (COALESCE(b.updated_at, b.created_at), b.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS mobile_money_settings_department_provider_key
+ON public.mobile_money_settings(department_id, provider);
+
+INSERT INTO public.mobile_money_settings (
+  department_id, provider, is_enabled, environment, mtn_api_user, mtn_api_key, mtn_subscription_key
+)
+SELECT
+  s.department_id,
+  'mtn',
+  COALESCE((s.settings_json->'mobile_money'->'mtn'->>'is_enabled')::boolean, false),
+  CASE WHEN s.settings_json->'mobile_money'->'mtn'->>'environment' = 'production' THEN 'production' ELSE 'sandbox' END,
+  NULLIF(s.settings_json->'mobile_money'->'mtn'->>'mtn_api_user', ''),
+  NULLIF(s.settings_json->'mobile_money'->'mtn'->>'mtn_api_key', ''),
+  NULLIF(s.settings_json->'mobile_money'->'mtn'->>'mtn_subscription_key', '')
+FROM public.settings s
+WHERE s.department_id IS NOT NULL AND s.settings_json->'mobile_money'->'mtn' IS NOT NULL
+ON CONFLICT (department_id, provider) DO NOTHING;
+
+INSERT INTO public.mobile_money_settings (
+  department_id, provider, is_enabled, environment, airtel_client_id, airtel_client_secret
+)
+SELECT
+  s.department_id,
+  'airtel',
+  COALESCE((s.settings_json->'mobile_money'->'airtel'->>'is_enabled')::boolean, false),
+  CASE WHEN s.settings_json->'mobile_money'->'airtel'->>'environment' = 'production' THEN 'production' ELSE 'sandbox' END,
+  NULLIF(s.settings_json->'mobile_money'->'airtel'->>'airtel_client_id', ''),
+  NULLIF(s.settings_json->'mobile_money'->'airtel'->>'airtel_client_secret', '')
+FROM public.settings s
+WHERE s.department_id IS NOT NULL AND s.settings_json->'mobile_money'->'airtel' IS NOT NULL
+ON CONFLICT (department_id, provider) DO NOTHING;
+
+-- Secrets no longer sit in the general settings row every user can read
+UPDATE public.settings
+SET settings_json = settings_json - 'mobile_money'
+WHERE settings_json ? 'mobile_money';
+
+DROP POLICY IF EXISTS "Mobile money settings viewable by authenticated" ON public.mobile_money_settings;
+
+DROP TRIGGER IF EXISTS update_mobile_money_settings_updated_at ON public.mobile_money_settings;
+CREATE TRIGGER update_mobile_money_settings_updated_at
+BEFORE UPDATE ON public.mobile_money_settings
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.mobile_money_payments
+ADD COLUMN IF NOT EXISTS is_simulated boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.mobile_money_payments.is_simulated IS 'Settled by the built-in simulator, no money moved';
+
+-- Money sent back to a payer, e.g. for a collection that matched no sale
+CREATE TABLE public.mobile_money_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid REFERENCES public.departments(id) ON DELETE SET NULL,
+  provider text NOT NULL,
+  exception_id uuid REFERENCES public.mobile_money_exceptions(id) ON DELETE SET NULL,
+  payment_id uuid REFERENCES public.mobile_money_payments(id) ON DELETE SET NULL,
+  reference_id text NOT NULL,
+  original_transaction_id text,
+  phone_number text,
+  amount numeric,
+  status text NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'failed')),
+  status_message text,
+  response jsonb,
+  is_simulated boolean NOT NULL DEFAULT false,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.mobile_money_refunds.reference_id IS 'Our refund request ID sent to the provider';
+
+CREATE INDEX idx_mobile_money_refunds_department ON public.mobile_money_refunds(department_id, created_at);
+
+ALTER TABLE public.mobile_money_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Mobile money refunds viewable by authenticated" ON public.mobile_money_refunds
+FOR SELECT TO authenticated USING (true);
@@ -0,0 +1,435 @@
+-- Mobile money statement import. Agents paste the confirmation SMS or upload the CSV statement of an
+-- MTN or Airtel line; each line is matched against the agent ledger (agent_transactions) and sales
+-- tendered by mobile money, first by the provider's transaction ID and then by amount, phone number
+-- and time. Lines nothing matches stay unmatched until staff add them to the ledger, ignore them, or
+-- raise them as a discrepancy (a reconciliations row, as on the Reconcile page).
+CREATE TABLE public.mobile_money_statement_imports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id uuid NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  line_id uuid REFERENCES public.agent_lines(id) ON DELETE SET NULL,
+  provider text NOT NULL CHECK (provider IN ('mtn', 'airtel')),
+  source text NOT NULL CHECK (source IN ('csv', 'sms')),
+  file_name text,
+  imported_count integer NOT NULL DEFAULT 0,
+  duplicate_count integer NOT NULL DEFAULT 0,
+  imported_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_mobile_money_statement_imports_department ON public.mobile_money_statement_imports(department_id, created_at);
+
+CREATE TABLE public.mobile_money_statement_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id uuid NOT NULL REFERENCES public.mobile_money_statement_imports(id) ON DELETE CASCADE,
+  department_id uuid NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  line_id uuid REFERENCES public.agent_lines(id) ON DELETE SET NULL,
+  provider text NOT NULL,
+  transaction_id text,
+  occurred_on date NOT NULL,
+  occurred_at timestamptz,
+  direction text NOT NULL CHECK (direction IN ('in', 'out')),
+  kind text NOT NULL DEFAULT 'other' CHECK (kind IN ('cash_in', 'cash_out', 'received', 'sent', 'other')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  fee numeric,
+  balance_after numeric,
+  counterparty_phone text,
+  counterparty_name text,
+  raw_text text,
+  status text NOT NULL DEFAULT 'unmatched' CHECK (status IN ('unmatched', 'matched', 'created', 'ignored', 'raised')),
+  match_method text CHECK (match_method IN ('transaction_id', 'amount_time')),
+  matched_agent_transaction_id uuid REFERENCES public.agent_transactions(id) ON DELETE SET NULL,
+  matched_sale_payment_id uuid REFERENCES public.sale_payments(id) ON DELETE SET NULL,
+  reconciliation_id uuid REFERENCES public.reconciliations(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.mobile_money_statement_lines.direction IS 'in = money into the line''s wallet, out = money out of it';
+COMMENT ON COLUMN public.mobile_money_statement_lines.kind IS 'cash_in = agent deposit for a customer, cash_out = customer withdrawal, received / sent = plain transfers';
+COMMENT ON COLUMN public.mobile_money_statement_lines.occurred_at IS 'Null when the statement only gives a date';
+COMMENT ON COLUMN public.mobile_money_statement_lines.status IS 'created = added to the agent ledger from the statement; raised = sent to reconciliations';
+
+-- The same provider transaction is only imported once
+CREATE UNIQUE INDEX idx_mobile_money_statement_lines_transaction
+ON public.mobile_money_statement_lines(provider, transaction_id) WHERE transaction_id IS NOT NULL;
+CREATE INDEX idx_mobile_money_statement_lines_import ON public.mobile_money_statement_lines(import_id);
+CREATE INDEX idx_mobile_money_statement_lines_unmatched ON public.mobile_money_statement_lines(department_id, occurred_on) WHERE status = 'unmatched';
+
+ALTER TABLE public.mobile_money_statement_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mobile_money_statement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Statement imports viewable by authenticated" ON public.mobile_money_statement_imports
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Statement lines viewable by authenticated" ON public.mobile_money_statement_lines
+FOR SELECT TO authenticated USING (true);
+
+-- Imports, matches and discrepancies go through the functions below
+
+-- Tries the agent ledger, then sales, for one unmatched line. Returns true when it matched.
+CREATE OR REPLACE FUNCTION public.match_mobile_money_statement_line(_statement_line_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _line public.mobile_money_statement_lines;
+    _phone text;
+    _types text[];
+    _agent_tx_id uuid;
+    _sale_payment_id uuid;
+    _method text;
+BEGIN
+    SELECT * INTO _line FROM public.mobile_money_statement_lines WHERE id = _statement_line_id FOR UPDATE;
+    IF NOT FOUND OR _line.status <> 'unmatched' THEN
+        RETURN false;
+    END IF;
+
+    _phone := right(regexp_replace(COALESCE(_line.counterparty_phone, ''), '\D', '', 'g'), 9);
+    -- Wallet money out is a customer deposit or float sent to the bank; money in is the reverse
+    _types := CASE WHEN _line.direction = 'out'
+        THEN ARRAY['deposit', 'bank_transfer_out']
+        ELSE ARRAY['withdrawal', 'float_purchase', 'bank_transfer_in'] END;
+
+    IF _line.transaction_id IS NOT NULL THEN
+        SELECT t.id INTO _agent_tx_id
+        FROM public.agent_transactions t
+        JOIN public.agent_lines l ON l.id = t.line_id
+        WHERE t.reference = _line.transaction_id
+          AND l.provider = _line.provider
+          AND t.transaction_type = ANY(_types)
+          AND NOT EXISTS (SELECT 1 FROM public.agent_transactions r WHERE r.reversal_of = t.id)
+          AND NOT EXISTS (
+              SELECT 1 FROM public.mobile_money_statement_lines s WHERE s.matched_agent_transaction_id = t.id
+          )
+        LIMIT 1;
+
+        IF _agent_tx_id IS NULL AND _line.direction = 'in' THEN
+            SELECT sp.id INTO _sale_payment_id
+            FROM public.sale_payments sp
+            LEFT JOIN public.mobile_money_payments mp ON mp.sale_payment_id = sp.id
+            WHERE sp.method = 'mobile_money'
+              AND (sp.reference = _line.transaction_id OR mp.transaction_id = _line.transaction_id)
+              AND NOT EXISTS (
+                  SELECT 1 FROM public.mobile_money_statement_lines s WHERE s.matched_sale_payment_id = sp.id
+              )
+            LIMIT 1;
+        END IF;
+
+        IF _agent_tx_id IS NOT NULL OR _sale_payment_id IS NOT NULL THEN
+            _method := 'transaction_id';
+        END IF;
+    END IF;
+
+    -- Same amount within half an hour (or on the same day when the statement has no times),
+    -- with the same customer number when both sides have one; the closest in time wins
+    IF _method IS NULL THEN
+        SELECT t.id INTO _agent_tx_id
+        FROM public.agent_transactions t
+        JOIN public.agent_lines l ON l.id = t.line_id
+        WHERE t.department_id = _line.department_id
+          AND l.provider = _line.provider
+          AND (_line.line_id IS NULL OR t.line_id = _line.line_id)
+          AND t.transaction_type = ANY(_types)
+          AND NOT EXISTS (SELECT 1 FROM public.agent_transactions r WHERE r.reversal_of = t.id)
+          AND t.amount = _line.amount
+          AND CASE WHEN _line.occurred_at IS NOT NULL
+              THEN t.created_at BETWEEN _line.occurred_at - interval '30 minutes' AND _line.occurred_at + interval '30 minutes'
+              ELSE t.created_at::date = _line.occurred_on END
+          AND (_phone = '' OR t.customer_phone IS NULL OR right(regexp_replace(t.customer_phone, '\D', '', 'g'), 9) = _phone)
+          AND NOT EXISTS (
+              SELECT 1 FROM public.mobile_money_statement_lines s WHERE s.matched_agent_transaction_id = t.id
+          )
+        ORDER BY abs(extract(epoch FROM t.created_at - COALESCE(_line.occurred_at, t.created_at)))
+        LIMIT 1;
+
+        IF _agent_tx_id IS NULL AND _line.direction = 'in' THEN
+            SELECT sp.id INTO _sale_payment_id
+            FROM public.sale_payments sp
+            JOIN public.sales s ON s.id = sp.sale_id
+            WHERE sp.method = 'mobile_money'
+              AND sp.status IN ('completed', 'pending')
+              AND s.status <> 'voided'
+              AND (sp.provider IS NULL OR sp.provider = _line.provider)
+              AND sp.amount = _line.amount
+              AND CASE WHEN _line.occurred_at IS NOT NULL
+                  THEN sp.created_at BETWEEN _line.occurred_at - interval '30 minutes' AND _line.occurred_at + interval '30 minutes'
+                  ELSE sp.created_at::date = _line.occurred_on END
+              AND (_phone = '' OR sp.phone_number IS NULL OR right(regexp_replace(sp.phone_number, '\D', '', 'g'), 9) = _phone)
+              AND NOT EXISTS (
+                  SELECT 1 FROM public.mobile_money_statement_lines m WHERE m.matched_sale_payment_id = sp.id
+              )
+            ORDER BY abs(extract(epoch FROM sp.created_at - COALESCE(_line.occurred_at, sp.created_at)))
+            LIMIT 1;
+        END IF;
+
+        IF _agent_tx_id IS NOT NULL OR _sale_payment_id IS NOT NULL THEN
+            _method := 'amount_time';
+        END IF;
+    END IF;
+
+    IF _method IS NULL THEN
+        RETURN false;
+    END IF;
+
+    UPDATE public.mobile_money_statement_lines
+    SET status = 'matched',
+        match_method = _method,
+        matched_agent_transaction_id = _agent_tx_id,
+        matched_sale_payment_id = _sale_payment_id
+    WHERE id = _line.id;
+    RETURN true;
+END;
+$$;
+
+-- _lines: [{ transaction_id, occurred_on, occurred_at, direction, kind, amount, fee, balance_after,
+-- counterparty_phone, counterparty_name, raw_text }]
+CREATE OR REPLACE FUNCTION public.import_mobile_money_statement(
+    _department_id uuid,
+    _line_id uuid,
+    _provider text,
+    _source text,
+    _file_name text,
+    _lines jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _import public.mobile_money_statement_imports;
+    _item jsonb;
+    _statement_line_id uuid;
+    _imported integer := 0;
+    _duplicates integer := 0;
+    _matched integer := 0;
+BEGIN
+    IF jsonb_array_length(COALESCE(_lines, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'The statement has no transactions';
+    END IF;
+    IF _line_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.agent_lines WHERE id = _line_id AND department_id = _department_id AND provider = _provider
+    ) THEN
+        RAISE EXCEPTION 'Agent line not found for this provider';
+    END IF;
+
+    INSERT INTO public.mobile_money_statement_imports (department_id, line_id, provider, source, file_name, imported_by)
+    VALUES (_department_id, _line_id, _provider, _source, _file_name, auth.uid())
+    RETURNING * INTO _import;
+
+    FOR _item IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+        IF NULLIF(_item->>'transaction_id', '') IS NOT NULL AND EXISTS (
+            SELECT 1 FROM public.mobile_money_statement_lines
+            WHERE provider = _provider AND transaction_id = _item->>'transaction_id'
+        ) THEN
+            _duplicates := _duplicates + 1;
+            CONTINUE;
+        END IF;
+
+        INSERT INTO public.mobile_money_statement_lines (
+            import_id, department_id, line_id, provider, transaction_id, occurred_on, occurred_at, direction, kind,
+            amount, fee, balance_after, counterparty_phone, counterparty_name, raw_text
+        )
+        VALUES (
+            _import.id, _department_id, _line_id, _provider,
+            NULLIF(_item->>'transaction_id', ''),
+            (_item->>'occurred_on')::date,
+            NULLIF(_item->>'occurred_at', '')::timestamptz,
+            _item->>'direction',
+            COALESCE(NULLIF(_item->>'kind', ''), 'other'),
+            (_item->>'amount')::numeric,
+            NULLIF(_item->>'fee', '')::numeric,
+            NULLIF(_item->>'balance_after', '')::numeric,
+            NULLIF(_item->>'counterparty_phone', ''),
+            NULLIF(_item->>'counterparty_name', ''),
+            _item->>'raw_text'
+        )
+        RETURNING id INTO _statement_line_id;
+        _imported := _imported + 1;
+
+        IF public.match_mobile_money_statement_line(_statement_line_id) THEN
+            _matched := _matched + 1;
+        END IF;
+    END LOOP;
+
+    UPDATE public.mobile_money_statement_imports
+    SET imported_count = _imported, duplicate_count = _duplicates
+    WHERE id = _import.id;
+
+    RETURN jsonb_build_object(
+        'import_id', _import.id,
+        'imported', _imported,
+        'duplicates', _duplicates,
+        'matched', _matched,
+        'unmatched', _imported - _matched
+    );
+END;
+$$;
+
+-- Runs matching again for an import's unmatched lines, e.g. after missing entries were recorded
+CREATE OR REPLACE FUNCTION public.rematch_mobile_money_statement(_import_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _statement_line_id uuid;
+    _matched integer := 0;
+BEGIN
+    FOR _statement_line_id IN
+        SELECT id FROM public.mobile_money_statement_lines WHERE import_id = _import_id AND status = 'unmatched'
+    LOOP
+        IF public.match_mobile_money_statement_line(_statement_line_id) THEN
+            _matched := _matched + 1;
+        END IF;
+    END LOOP;
+    RETURN _matched;
+END;
+$$;
+
+-- Adds a cash-in / cash-out missing from the agent ledger, moving the float and till as usual
+CREATE OR REPLACE FUNCTION public.record_statement_line_in_ledger(_statement_line_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _line public.mobile_money_statement_lines;
+    _tx jsonb;
+BEGIN
+    SELECT * INTO _line FROM public.mobile_money_statement_lines WHERE id = _statement_line_id FOR UPDATE;
+    IF NOT FOUND OR _line.status <> 'unmatched' THEN
+        RAISE EXCEPTION 'Only unmatched statement lines can be added to the ledger';
+    END IF;
+    IF _line.line_id IS NULL THEN
+        RAISE EXCEPTION 'This statement was not imported for an agent line';
+    END IF;
+    IF _line.kind NOT IN ('cash_in', 'cash_out') THEN
+        RAISE EXCEPTION 'Only cash-in and cash-out lines can be added to the ledger';
+    END IF;
+
+    _tx := public.record_agent_transaction(
+        _line.line_id,
+        CASE WHEN _line.kind = 'cash_in' THEN 'deposit' ELSE 'withdrawal' END,
+        _line.amount,
+        _line.counterparty_phone,
+        _line.counterparty_name,
+        _line.transaction_id,
+        'Added from statement'
+    );
+
+    UPDATE public.mobile_money_statement_lines
+    SET status = 'created', matched_agent_transaction_id = (_tx->>'id')::uuid
+    WHERE id = _line.id;
+
+    RETURN _tx;
+END;
+$$;
+
+-- Ignoring needs a reason; passing 'unmatched' puts an ignored line back in the queue
+CREATE OR REPLACE FUNCTION public.set_statement_line_status(_statement_line_id uuid, _status text, _notes text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF _status NOT IN ('ignored', 'unmatched') THEN
+        RAISE EXCEPTION 'Unknown statement line status %', _status;
+    END IF;
+    IF _status = 'ignored' AND NULLIF(trim(COALESCE(_notes, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'Say why this line is ignored';
+    END IF;
+
+    UPDATE public.mobile_money_statement_lines
+    SET status = _status, notes = CASE WHEN _status = 'ignored' THEN trim(_notes) ELSE notes END
+    WHERE id = _statement_line_id
+      AND status = CASE WHEN _status = 'ignored' THEN 'unmatched' ELSE 'ignored' END;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Statement line not found or already settled';
+    END IF;
+END;
+$$;
+
+-- Raises unmatched lines as one discrepancy for the department, the way the Reconcile page does:
+-- the statement's net movement is what was reported, nothing of it is in the system, and a surplus
+-- goes to suspended revenue
+CREATE OR REPLACE FUNCTION public.raise_statement_discrepancy(
+    _statement_line_ids uuid[],
+    _cashier_name text,
+    _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _department_id uuid;
+    _count integer;
+    _net numeric;
+    _date date;
+    _details text;
+    _reconciliation_id uuid;
+BEGIN
+    IF NULLIF(trim(COALESCE(_cashier_name, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'Enter who is raising the discrepancy';
+    END IF;
+
+    SELECT count(*), sum(CASE WHEN direction = 'in' THEN amount ELSE -amount END), max(occurred_on),
+           string_agg(
+               upper(provider) || ' ' || COALESCE(transaction_id, 'no ID') || ': ' || direction || ' UGX ' || amount::text,
+               '; ' ORDER BY occurred_on
+           )
+    INTO _count, _net, _date, _details
+    FROM public.mobile_money_statement_lines
+    WHERE id = ANY(_statement_line_ids) AND status = 'unmatched';
+
+    IF _count = 0 OR _count <> COALESCE(array_length(_statement_line_ids, 1), 0) THEN
+        RAISE EXCEPTION 'Only unmatched statement lines can be raised';
+    END IF;
+
+    SELECT department_id INTO _department_id
+    FROM public.mobile_money_statement_lines WHERE id = _statement_line_ids[1];
+    IF EXISTS (
+        SELECT 1 FROM public.mobile_money_statement_lines
+        WHERE id = ANY(_statement_line_ids) AND department_id <> _department_id
+    ) THEN
+        RAISE EXCEPTION 'Raise lines from one department at a time';
+    END IF;
+
+    INSERT INTO public.reconciliations (
+        cashier_name, date, system_cash, reported_cash, discrepancy, notes, department_id, status
+    )
+    VALUES (
+        trim(_cashier_name), _date, 0, _net, _net,
+        'Mobile money statement lines not in the system: ' || _details
+            || COALESCE('. ' || NULLIF(trim(_notes), ''), ''),
+        _department_id,
+        CASE WHEN _net = 0 THEN 'completed' ELSE 'pending' END
+    )
+    RETURNING id INTO _reconciliation_id;
+
+    IF _net > 0 THEN
+        INSERT INTO public.suspended_revenue (cashier_name, date, amount, reason, department_id, status)
+        VALUES (trim(_cashier_name), _date, _net, 'Unmatched mobile money statement lines on ' || _date::text, _department_id, 'pending');
+    END IF;
+
+    UPDATE public.mobile_money_statement_lines
+    SET status = 'raised', reconciliation_id = _reconciliation_id, notes = COALESCE(NULLIF(trim(_notes), ''), notes)
+    WHERE id = ANY(_statement_line_ids);
+
+    RETURN _reconciliation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_mobile_money_statement_line(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.import_mobile_money_statement(uuid, uuid, text, text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rematch_mobile_money_statement(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_statement_line_in_ledger(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_statement_line_status(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.raise_statement_discrepancy(uuid[], text, text) TO authenticated;
@@ -0,0 +1,154 @@
+-- Deleting a product, variant, scent or department nulls its column on stock_movements
+-- (ON DELETE SET NULL), which Postgres applies as an UPDATE. Let exactly that through the
+-- immutability trigger so the history stays and the delete goes ahead; anything else still raises.
+-- The trigger's arguments are the reference columns that may be nulled.
+CREATE OR REPLACE FUNCTION public.prevent_stock_movement_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    _old jsonb;
+    _new jsonb;
+    _column text;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        _old := to_jsonb(OLD);
+        _new := to_jsonb(NEW);
+
+        FOREACH _column IN ARRAY TG_ARGV LOOP
+            IF _new ->> _column IS NOT NULL AND _new -> _column IS DISTINCT FROM _old -> _column THEN
+                RAISE EXCEPTION 'Stock movements cannot be changed or deleted';
+            END IF;
+            _old := _old - _column;
+            _new := _new - _column;
+        END LOOP;
+
+        IF _old = _new THEN
+            RETURN NEW;
+        END IF;
+    END IF;
+
+    RAISE EXCEPTION 'Stock movements cannot be changed or deleted';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stock_movements_immutable ON public.stock_movements;
+CREATE TRIGGER stock_movements_immutable
+BEFORE UPDATE OR DELETE ON public.stock_movements
+FOR EACH ROW EXECUTE FUNCTION public.prevent_stock_movement_changes('department_id', 'product_id', 'variant_id', 'scent_id');
+
+-- Same as before, but only staff who may manage the item (admins, managers, or the item's own
+-- department, as on products) can move its stock
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(
+    _item_type text,
+    _item_id uuid,
+    _movement_type text,
+    _quantity numeric DEFAULT NULL,
+    _new_balance numeric DEFAULT NULL,
+    _use_ml boolean DEFAULT false,
+    _reference_type text DEFAULT NULL,
+    _reference_id uuid DEFAULT NULL,
+    _notes text DEFAULT NULL
+)
+RETURNS public.stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _department_id uuid;
+    _product_id uuid;
+    _field text;
+    _before numeric;
+    _after numeric;
+    _movement public.stock_movements;
+BEGIN
+    IF _quantity IS NULL AND _new_balance IS NULL THEN
+        RAISE EXCEPTION 'Either a quantity or a new balance is required';
+    END IF;
+
+    IF _item_type = 'product' THEN
+        _field := CASE WHEN _use_ml THEN 'total_ml' ELSE 'stock' END;
+        SELECT department_id, CASE WHEN _use_ml THEN COALESCE(total_ml, 0) ELSE COALESCE(stock, 0) END
+        INTO _department_id, _before
+        FROM public.products WHERE id = _item_id FOR UPDATE;
+        _product_id := _item_id;
+    ELSIF _item_type = 'variant' THEN
+        _field := 'stock';
+        SELECT p.department_id, COALESCE(v.stock, 0), v.product_id
+        INTO _department_id, _before, _product_id
+        FROM public.product_variants v
+        LEFT JOIN public.products p ON p.id = v.product_id
+        WHERE v.id = _item_id FOR UPDATE OF v;
+    ELSIF _item_type = 'scent' THEN
+        _field := 'stock_ml';
+        SELECT department_id, COALESCE(stock_ml, 0)
+        INTO _department_id, _before
+        FROM public.perfume_scents WHERE id = _item_id FOR UPDATE;
+    ELSIF _item_type = 'packaging' THEN
+        _field := 'stock';
+        SELECT department_id, COALESCE(stock, 0)
+        INTO _department_id, _before
+        FROM public.packaging_items WHERE id = _item_id FOR UPDATE;
+    ELSE
+        RAISE EXCEPTION 'Unknown stock item type: %', _item_type;
+    END IF;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Stock item % not found', _item_id;
+    END IF;
+
+    IF NOT (
+        public.has_role(auth.uid(), 'admin')
+        OR public.has_role(auth.uid(), 'manager')
+        OR _department_id = public.get_user_department(auth.uid())
+    ) THEN
+        RAISE EXCEPTION 'You cannot move stock for this department';
+    END IF;
+
+    _after := GREATEST(0, COALESCE(_new_balance, _before + _quantity));
+
+    PERFORM set_config('app.stock_movement', 'on', true);
+
+    IF _item_type = 'product' AND _use_ml THEN
+        UPDATE public.products SET total_ml = _after WHERE id = _item_id;
+    ELSIF _item_type = 'product' THEN
+        UPDATE public.products SET stock = _after WHERE id = _item_id;
+    ELSIF _item_type = 'variant' THEN
+        UPDATE public.product_variants SET stock = _after WHERE id = _item_id;
+    ELSIF _item_type = 'packaging' THEN
+        UPDATE public.packaging_items SET stock = _after, updated_at = now() WHERE id = _item_id;
+    ELSE
+        UPDATE public.perfume_scents SET stock_ml = _after WHERE id = _item_id;
+    END IF;
+
+    PERFORM set_config('app.stock_movement', 'off', true);
+
+    INSERT INTO public.stock_movements (
+        department_id, product_id, variant_id, scent_id, packaging_id, stock_field, movement_type,
+        quantity, balance_before, balance_after, reference_type, reference_id, notes, created_by
+    )
+    VALUES (
+        _department_id,
+        _product_id,
+        CASE WHEN _item_type = 'variant' THEN _item_id END,
+        CASE WHEN _item_type = 'scent' THEN _item_id END,
+        CASE WHEN _item_type = 'packaging' THEN _item_id END,
+        _field,
+        _movement_type,
+        _after - _before,
+        _before,
+        _after,
+        _reference_type,
+        _reference_id,
+        _notes,
+        auth.uid()
+    )
+    RETURNING * INTO _movement;
+
+    RETURN _movement;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_stock_movement(text, uuid, text, numeric, numeric, boolean, text, uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_stock_movement(text, uuid, text, numeric, numeric, boolean, text, uuid, text) TO authenticated;
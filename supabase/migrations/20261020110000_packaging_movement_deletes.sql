@@ -0,0 +1,5 @@
+-- Packaging items with movements can be deleted too: their packaging_id is nulled like the other references
+DROP TRIGGER IF EXISTS stock_movements_immutable ON public.stock_movements;
+CREATE TRIGGER stock_movements_immutable
+BEFORE UPDATE OR DELETE ON public.stock_movements
+FOR EACH ROW EXECUTE FUNCTION public.prevent_stock_movement_changes('department_id', 'product_id', 'variant_id', 'scent_id', 'packaging_id');
@@ -0,0 +1,246 @@
+-- Loyalty balances only move through create_sale, voids and manager adjustments.
+-- apply_sale_loyalty is internal to create_sale and applies once per sale, like apply_mobile_money_result.
+CREATE OR REPLACE FUNCTION public.apply_sale_loyalty(_sale_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _sale public.sales;
+    _settings jsonb;
+    _enabled boolean;
+    _punch_card boolean;
+    _point_value numeric;
+    _min_points integer;
+    _punches_required integer;
+    _payment public.sale_payments;
+    _customer public.customers;
+    _points integer;
+    _refill_total numeric;
+    _redeemed numeric := 0;
+    _free_refill boolean := false;
+    _refills integer;
+    _earned integer;
+    _punches integer;
+BEGIN
+    -- Only ever applied once per sale
+    IF EXISTS (SELECT 1 FROM public.loyalty_transactions WHERE sale_id = _sale_id) THEN
+        RETURN;
+    END IF;
+
+    SELECT * INTO _sale FROM public.sales WHERE id = _sale_id;
+    _settings := public.get_loyalty_settings(_sale.department_id);
+    _enabled := COALESCE((_settings ->> 'enabled')::boolean, false);
+    _punch_card := COALESCE((_settings ->> 'punchCardEnabled')::boolean, false);
+    _point_value := COALESCE((_settings ->> 'pointValue')::numeric, 0);
+    _min_points := COALESCE((_settings ->> 'minRedeemPoints')::integer, 0);
+    -- "Every 10th refill free" means nine paid refills fill the card
+    _punches_required := GREATEST(COALESCE((_settings ->> 'freeRefillEvery')::integer, 0) - 1, 0);
+
+    FOR _payment IN
+        SELECT * FROM public.sale_payments WHERE sale_id = _sale_id AND method = 'loyalty' ORDER BY created_at
+    LOOP
+        IF NOT _enabled THEN
+            RAISE EXCEPTION 'Loyalty rewards are not enabled for this department';
+        END IF;
+        IF _payment.customer_id IS NULL THEN
+            RAISE EXCEPTION 'Select the customer redeeming loyalty rewards';
+        END IF;
+
+        SELECT * INTO _customer FROM public.customers WHERE id = _payment.customer_id FOR UPDATE;
+
+        IF _payment.reference = 'free_refill' THEN
+            IF NOT _punch_card OR _punches_required = 0 THEN
+                RAISE EXCEPTION 'Refill punch-cards are not enabled for this department';
+            END IF;
+            IF _customer.refill_punches < _punches_required THEN
+                RAISE EXCEPTION '% has % of % refills for a free one', _customer.name, _customer.refill_punches, _punches_required;
+            END IF;
+
+            SELECT COALESCE(MAX(total), 0) INTO _refill_total
+            FROM public.sale_items
+            WHERE sale_id = _sale_id AND scent_mixture IS NOT NULL;
+            IF _payment.amount > _refill_total THEN
+                RAISE EXCEPTION 'A free refill covers one refill on the sale (UGX %)', _refill_total;
+            END IF;
+
+            UPDATE public.customers
+            SET refill_punches = refill_punches - _punches_required
+            WHERE id = _customer.id
+            RETURNING * INTO _customer;
+
+            INSERT INTO public.loyalty_transactions (
+                customer_id, department_id, sale_id, transaction_type, punches, amount,
+                points_after, punches_after, notes, created_by
+            )
+            VALUES (
+                _customer.id, _sale.department_id, _sale_id, 'free_refill', -_punches_required, _payment.amount,
+                _customer.loyalty_points, _customer.refill_punches, 'Free refill on receipt ' || _sale.receipt_number, auth.uid()
+            );
+
+            _free_refill := _free_refill OR _customer.id = _sale.customer_id;
+        ELSE
+            IF _point_value <= 0 THEN
+                RAISE EXCEPTION 'Points have no redemption value set for this department';
+            END IF;
+
+            _points := ceil(_payment.amount / _point_value);
+            IF _points < _min_points THEN
+                RAISE EXCEPTION 'At least % points must be redeemed at a time', _min_points;
+            END IF;
+            IF _customer.loyalty_points < _points THEN
+                RAISE EXCEPTION '% has % points, % needed', _customer.name, _customer.loyalty_points, _points;
+            END IF;
+
+            UPDATE public.customers
+            SET loyalty_points = loyalty_points - _points
+            WHERE id = _customer.id
+            RETURNING * INTO _customer;
+
+            INSERT INTO public.loyalty_transactions (
+                customer_id, department_id, sale_id, transaction_type, points, amount,
+                points_after, punches_after, notes, created_by
+            )
+            VALUES (
+                _customer.id, _sale.department_id, _sale_id, 'redeem', -_points, _payment.amount,
+                _customer.loyalty_points, _customer.refill_punches, 'Redeemed on receipt ' || _sale.receipt_number, auth.uid()
+            );
+        END IF;
+
+        _redeemed := _redeemed + _payment.amount;
+    END LOOP;
+
+    IF NOT _enabled OR _sale.customer_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    -- Rewards are earned on what the customer paid, not on what loyalty covered
+    _earned := CASE
+        WHEN COALESCE((_settings ->> 'spendPerPoint')::numeric, 0) > 0
+        THEN floor(GREATEST(_sale.total - _redeemed, 0) / (_settings ->> 'spendPerPoint')::numeric)
+        ELSE 0
+    END;
+
+    SELECT count(*) INTO _refills FROM public.sale_items WHERE sale_id = _sale_id AND scent_mixture IS NOT NULL;
+    _earned := _earned + _refills * COALESCE((_settings ->> 'refillBonusPoints')::integer, 0);
+    -- The free refill itself doesn't count towards the next card
+    _punches := CASE WHEN _punch_card THEN GREATEST(_refills - CASE WHEN _free_refill THEN 1 ELSE 0 END, 0) ELSE 0 END;
+
+    IF _earned <= 0 AND _punches <= 0 THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.customers
+    SET loyalty_points = loyalty_points + _earned,
+        refill_punches = refill_punches + _punches
+    WHERE id = _sale.customer_id
+    RETURNING * INTO _customer;
+
+    INSERT INTO public.loyalty_transactions (
+        customer_id, department_id, sale_id, transaction_type, points, punches, amount,
+        points_after, punches_after, notes, created_by
+    )
+    VALUES (
+        _customer.id, _sale.department_id, _sale_id, 'earn', _earned, _punches, GREATEST(_sale.total - _redeemed, 0),
+        _customer.loyalty_points, _customer.refill_punches, 'Receipt ' || _sale.receipt_number, auth.uid()
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_sale_loyalty(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, but rewards a customer has already spent are taken back only down to zero;
+-- the reversal row records what was actually taken back
+CREATE OR REPLACE FUNCTION public.reverse_sale_loyalty()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _tx public.loyalty_transactions;
+    _before public.customers;
+    _customer public.customers;
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.loyalty_transactions WHERE sale_id = NEW.id AND transaction_type = 'reversal') THEN
+        RETURN NEW;
+    END IF;
+
+    FOR _tx IN
+        SELECT * FROM public.loyalty_transactions WHERE sale_id = NEW.id ORDER BY created_at
+    LOOP
+        SELECT * INTO _before FROM public.customers WHERE id = _tx.customer_id FOR UPDATE;
+
+        UPDATE public.customers
+        SET loyalty_points = GREATEST(loyalty_points - _tx.points, 0),
+            refill_punches = GREATEST(refill_punches - _tx.punches, 0)
+        WHERE id = _tx.customer_id
+        RETURNING * INTO _customer;
+
+        INSERT INTO public.loyalty_transactions (
+            customer_id, department_id, sale_id, transaction_type, points, punches, amount,
+            points_after, punches_after, notes, created_by
+        )
+        VALUES (
+            _tx.customer_id, _tx.department_id, NEW.id, 'reversal',
+            _customer.loyalty_points - _before.loyalty_points, _customer.refill_punches - _before.refill_punches, _tx.amount,
+            _customer.loyalty_points, _customer.refill_punches, 'Voided receipt ' || NEW.receipt_number, auth.uid()
+        );
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Same as before, managers and admins only
+CREATE OR REPLACE FUNCTION public.adjust_loyalty(
+    _customer_id uuid,
+    _points integer,
+    _punches integer DEFAULT 0,
+    _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _customer public.customers;
+BEGIN
+    IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+        RAISE EXCEPTION 'Only managers and admins can adjust loyalty balances';
+    END IF;
+
+    IF COALESCE(_points, 0) = 0 AND COALESCE(_punches, 0) = 0 THEN
+        RAISE EXCEPTION 'Nothing to adjust';
+    END IF;
+
+    UPDATE public.customers
+    SET loyalty_points = loyalty_points + COALESCE(_points, 0),
+        refill_punches = refill_punches + COALESCE(_punches, 0)
+    WHERE id = _customer_id
+    RETURNING * INTO _customer;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Customer not found';
+    END IF;
+    IF _customer.loyalty_points < 0 OR _customer.refill_punches < 0 THEN
+        RAISE EXCEPTION 'Points and punches can''t go below zero';
+    END IF;
+
+    INSERT INTO public.loyalty_transactions (
+        customer_id, department_id, transaction_type, points, punches,
+        points_after, punches_after, notes, created_by
+    )
+    VALUES (
+        _customer.id, _customer.department_id, 'adjustment', COALESCE(_points, 0), COALESCE(_punches, 0),
+        _customer.loyalty_points, _customer.refill_punches, _notes, auth.uid()
+    );
+
+    RETURN public.get_customer_loyalty(_customer.id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_loyalty(uuid, integer, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.adjust_loyalty(uuid, integer, integer, text) TO authenticated;
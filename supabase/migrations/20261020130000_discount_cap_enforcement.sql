@@ -0,0 +1,332 @@
+-- Discount caps and override PINs enforced on the server. The POS checks each discount as it is
+-- given; create_sale checks the whole sale (line discounts plus the cart discount) against the
+-- cashier's cap, or the approving manager's when a PIN override was given.
+
+-- Every override PIN check, by who asked. Failures lock the asker out for a while; successes are
+-- what create_sale accepts as proof that the approver really was asked.
+CREATE TABLE IF NOT EXISTS public.override_pin_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  requested_by uuid NOT NULL,
+  approver_id uuid,
+  succeeded boolean NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.override_pin_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_override_pin_attempts_requested_by ON public.override_pin_attempts(requested_by, created_at);
+
+-- Same as before, but signed-in staff only, and five wrong PINs in 15 minutes lock the asker out
+-- for the rest of that window
+CREATE OR REPLACE FUNCTION public.verify_override_pin(_pin text)
+RETURNS TABLE (user_id uuid, full_name text, role public.app_role)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    _failures integer;
+    _approver record;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to verify an override PIN';
+    END IF;
+
+    SELECT count(*) INTO _failures
+    FROM public.override_pin_attempts a
+    WHERE a.requested_by = auth.uid()
+      AND NOT a.succeeded
+      AND a.created_at > now() - interval '15 minutes';
+
+    IF _failures >= 5 THEN
+        RAISE EXCEPTION 'Too many wrong PINs. Try again in 15 minutes';
+    END IF;
+
+    SELECT p.user_id, pr.full_name, ur.role
+    INTO _approver
+    FROM public.staff_override_pins p
+    JOIN public.user_roles ur ON ur.user_id = p.user_id
+    LEFT JOIN public.profiles pr ON pr.id = p.user_id
+    WHERE p.pin_hash = crypt(_pin, p.pin_hash)
+      AND ur.role IN ('admin', 'manager')
+    ORDER BY CASE WHEN ur.role = 'admin' THEN 0 ELSE 1 END
+    LIMIT 1;
+
+    INSERT INTO public.override_pin_attempts (requested_by, approver_id, succeeded)
+    VALUES (auth.uid(), _approver.user_id, _approver.user_id IS NOT NULL);
+
+    IF _approver.user_id IS NOT NULL THEN
+        RETURN QUERY SELECT _approver.user_id, _approver.full_name, _approver.role;
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_override_pin(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.verify_override_pin(text) TO authenticated;
+
+-- Discount cap in percent for a user, from settings_json.discounts (department over global).
+-- Admins are never capped.
+CREATE OR REPLACE FUNCTION public.get_discount_cap(_user_id uuid, _department_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH caps AS (
+        SELECT jsonb_build_object('cashier', 5, 'manager', 20)
+            || COALESCE((SELECT settings_json -> 'discounts' -> 'caps' FROM public.settings WHERE department_id IS NULL LIMIT 1), '{}'::jsonb)
+            || COALESCE((SELECT settings_json -> 'discounts' -> 'caps' FROM public.settings WHERE department_id = _department_id LIMIT 1), '{}'::jsonb)
+            AS value
+    )
+    SELECT CASE
+        WHEN public.has_role(_user_id, 'admin') THEN 100
+        WHEN public.has_role(_user_id, 'manager') THEN COALESCE((caps.value ->> 'manager')::numeric, 20)
+        ELSE COALESCE((caps.value ->> 'cashier')::numeric, 5)
+    END
+    FROM caps;
+$$;
+
+-- Raises when a sale's combined discount is over what the cashier, or the manager who approved it
+-- with their PIN in the last day, may give. Called by create_sale once the items are in.
+CREATE OR REPLACE FUNCTION public.check_sale_discount(_sale_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _sale public.sales;
+    _gross numeric;
+    _discount numeric;
+    _percent numeric;
+    _cap numeric;
+BEGIN
+    SELECT * INTO _sale FROM public.sales WHERE id = _sale_id;
+
+    -- sale_items.total is net of the line discount
+    SELECT COALESCE(SUM(COALESCE(total, 0) + COALESCE(discount_amount, 0)), 0),
+           COALESCE(SUM(COALESCE(discount_amount, 0)), 0)
+    INTO _gross, _discount
+    FROM public.sale_items
+    WHERE sale_id = _sale_id;
+
+    -- sales.discount is line discounts plus the cart discount
+    _discount := GREATEST(_discount, COALESCE(_sale.discount, 0));
+    IF _discount <= 0 THEN
+        RETURN;
+    END IF;
+    IF _gross <= 0 THEN
+        RAISE EXCEPTION 'A discount needs something to come off';
+    END IF;
+
+    _percent := _discount / _gross * 100;
+    _cap := public.get_discount_cap(auth.uid(), _sale.department_id);
+
+    IF _percent > _cap + 0.01 AND _sale.discount_approved_by IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.override_pin_attempts
+        WHERE requested_by = auth.uid()
+          AND approver_id = _sale.discount_approved_by
+          AND succeeded
+          AND created_at > now() - interval '1 day'
+    ) THEN
+        _cap := GREATEST(_cap, public.get_discount_cap(_sale.discount_approved_by, _sale.department_id));
+    END IF;
+
+    IF _percent > _cap + 0.01 THEN
+        RAISE EXCEPTION '%', format(
+            'Total discount of %s%% is over the %s%% limit. A manager must approve it with their PIN',
+            round(_percent, 1), _cap
+        );
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_sale_discount(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, plus the discount check
+CREATE OR REPLACE FUNCTION public.create_sale(
+    _idempotency_key text,
+    _sale jsonb,
+    _items jsonb,
+    _payments jsonb DEFAULT '[]'::jsonb,
+    _stock jsonb DEFAULT '[]'::jsonb,
+    _allow_oversell boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _existing public.sales;
+    _new_sale public.sales;
+    _receipt_number text;
+    _line jsonb;
+    _item_id uuid;
+    _quantity numeric;
+    _available numeric;
+    _payment public.sale_payments;
+    _balance_after numeric;
+BEGIN
+    IF _idempotency_key IS NOT NULL THEN
+        -- Serialise retries of the same checkout
+        PERFORM pg_advisory_xact_lock(hashtext('create_sale:' || _idempotency_key));
+
+        SELECT * INTO _existing FROM public.sales WHERE idempotency_key = _idempotency_key;
+        IF FOUND THEN
+            RETURN jsonb_build_object(
+                'sale', to_jsonb(_existing),
+                'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM public.sale_payments p WHERE p.sale_id = _existing.id), '[]'::jsonb),
+                'loyalty', public.get_sale_loyalty(_existing.id),
+                'duplicate', true
+            );
+        END IF;
+    END IF;
+
+    IF jsonb_array_length(COALESCE(_items, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'A sale needs at least one item';
+    END IF;
+
+    _receipt_number := NULLIF(_sale ->> 'receipt_number', '');
+    IF _receipt_number IS NULL THEN
+        -- generate_receipt_number reads MAX(receipt_number), so only one checkout may use it at a time
+        PERFORM pg_advisory_xact_lock(hashtext('create_sale:receipt_number'));
+        _receipt_number := public.generate_receipt_number();
+    END IF;
+
+    INSERT INTO public.sales (
+        department_id, cashier_id, cashier_name, customer_id, payment_method,
+        subtotal, discount, discount_reason, discount_approved_by, tax, total,
+        amount_paid, change_amount, receipt_number, sale_number, invoice_number,
+        is_invoice, is_loan, notes, remarks, status, created_at, idempotency_key
+    )
+    SELECT
+        s.department_id, COALESCE(s.cashier_id, auth.uid()), s.cashier_name, s.customer_id, s.payment_method,
+        s.subtotal, COALESCE(s.discount, 0), s.discount_reason, s.discount_approved_by, COALESCE(s.tax, 0), s.total,
+        s.amount_paid, COALESCE(s.change_amount, 0), _receipt_number, COALESCE(s.sale_number, _receipt_number), s.invoice_number,
+        COALESCE(s.is_invoice, false), COALESCE(s.is_loan, false), s.notes, s.remarks, COALESCE(s.status, 'completed'),
+        COALESCE(s.created_at, now()), _idempotency_key
+    FROM jsonb_populate_record(NULL::public.sales, _sale) s
+    RETURNING * INTO _new_sale;
+
+    INSERT INTO public.sale_items (
+        sale_id, product_id, service_id, variant_id, name, item_name, quantity, unit_price, total,
+        discount_type, discount_value, discount_amount, discount_reason,
+        tax_profile_id, tax_name, tax_treatment, tax_rate, tax_inclusive, taxable_amount, tax_amount,
+        customer_type, scent_mixture, scent_breakdown, bottle_cost, ml_amount, price_per_ml
+    )
+    SELECT
+        _new_sale.id, i.product_id, i.service_id, i.variant_id, COALESCE(i.name, i.item_name, 'Unnamed Item'),
+        COALESCE(i.item_name, i.name), COALESCE(i.quantity, 1), COALESCE(i.unit_price, 0), COALESCE(i.total, 0),
+        i.discount_type, COALESCE(i.discount_value, 0), COALESCE(i.discount_amount, 0), i.discount_reason,
+        i.tax_profile_id, i.tax_name, i.tax_treatment, i.tax_rate, i.tax_inclusive, i.taxable_amount, i.tax_amount,
+        i.customer_type, i.scent_mixture, i.scent_breakdown, i.bottle_cost, i.ml_amount, i.price_per_ml
+    FROM jsonb_populate_recordset(NULL::public.sale_items, _items) i;
+
+    PERFORM public.check_sale_discount(_new_sale.id);
+
+    -- Check every line before taking anything, holding the rows so another till can't sell them meanwhile
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_stock, '[]'::jsonb)) LOOP
+        _item_id := NULLIF(_line ->> 'item_id', '')::uuid;
+        _quantity := COALESCE((_line ->> 'quantity')::numeric, 0);
+        CONTINUE WHEN _quantity <= 0;
+
+        IF _line ->> 'item_type' = 'scent' THEN
+            IF _item_id IS NULL THEN
+                _item_id := public.find_department_scent(_new_sale.department_id, _line ->> 'name');
+                -- Untracked scents have never blocked a sale
+                CONTINUE WHEN _item_id IS NULL;
+            END IF;
+            SELECT COALESCE(stock_ml, 0) INTO _available FROM public.perfume_scents WHERE id = _item_id FOR UPDATE;
+        ELSIF _line ->> 'item_type' = 'variant' THEN
+            SELECT COALESCE(stock, 0) INTO _available FROM public.product_variants WHERE id = _item_id FOR UPDATE;
+        ELSIF COALESCE((_line ->> 'use_ml')::boolean, false) THEN
+            SELECT COALESCE(total_ml, 0) INTO _available FROM public.products WHERE id = _item_id FOR UPDATE;
+        ELSE
+            SELECT COALESCE(stock, 0) INTO _available FROM public.products WHERE id = _item_id FOR UPDATE;
+        END IF;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Stock item for % not found', COALESCE(_line ->> 'name', _item_id::text);
+        END IF;
+
+        -- An offline sale has already left the shop; recording it anyway takes stock to zero
+        IF _available < _quantity AND NOT _allow_oversell THEN
+            RAISE EXCEPTION 'Insufficient stock for %. Available: %', COALESCE(_line ->> 'name', 'item'), _available;
+        END IF;
+
+        PERFORM public.apply_stock_movement(
+            _line ->> 'item_type',
+            _item_id,
+            'sale',
+            -_quantity,
+            NULL,
+            COALESCE((_line ->> 'use_ml')::boolean, false),
+            'sale',
+            _new_sale.id,
+            'Receipt ' || _receipt_number
+        );
+    END LOOP;
+
+    FOR _payment IN
+        INSERT INTO public.sale_payments (
+            sale_id, department_id, method, amount, tendered_amount, reference,
+            phone_number, provider, customer_id, status, created_by
+        )
+        SELECT
+            _new_sale.id, _new_sale.department_id, p.method, p.amount, p.tendered_amount, p.reference,
+            p.phone_number, p.provider, p.customer_id, COALESCE(p.status, 'completed'), auth.uid()
+        FROM jsonb_populate_recordset(NULL::public.sale_payments, COALESCE(_payments, '[]'::jsonb)) p
+        WHERE COALESCE(p.amount, 0) > 0
+        RETURNING *
+    LOOP
+        IF _payment.method = 'credit' AND _payment.customer_id IS NOT NULL THEN
+            UPDATE public.customers
+            SET outstanding_balance = COALESCE(outstanding_balance, 0) + _payment.amount
+            WHERE id = _payment.customer_id
+            RETURNING outstanding_balance INTO _balance_after;
+
+            INSERT INTO public.customer_credit_transactions (
+                customer_id, department_id, sale_id, amount, balance_after, transaction_type, notes, created_by
+            )
+            VALUES (
+                _payment.customer_id, _new_sale.department_id, _new_sale.id, _payment.amount,
+                _balance_after, 'credit', 'Sale on credit', auth.uid()
+            );
+        ELSIF _payment.method = 'voucher' THEN
+            PERFORM public.redeem_gift_voucher(_payment.reference, _payment.amount, _new_sale.id);
+        ELSIF _payment.method = 'store_credit' THEN
+            IF _payment.customer_id IS NULL THEN
+                RAISE EXCEPTION 'Store credit needs a customer';
+            END IF;
+
+            UPDATE public.customers
+            SET store_credit_balance = COALESCE(store_credit_balance, 0) - _payment.amount
+            WHERE id = _payment.customer_id
+            RETURNING store_credit_balance INTO _balance_after;
+
+            IF _balance_after < 0 THEN
+                RAISE EXCEPTION 'Only UGX % of store credit left', _balance_after + _payment.amount;
+            END IF;
+
+            INSERT INTO public.customer_credit_transactions (
+                customer_id, department_id, sale_id, amount, balance_after, transaction_type, notes, created_by
+            )
+            VALUES (
+                _payment.customer_id, _new_sale.department_id, _new_sale.id, _payment.amount,
+                _balance_after, 'store_credit_used', 'Receipt ' || _receipt_number, auth.uid()
+            );
+        END IF;
+    END LOOP;
+
+    PERFORM public.apply_sale_loyalty(_new_sale.id);
+
+    RETURN jsonb_build_object(
+        'sale', to_jsonb(_new_sale),
+        'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM public.sale_payments p WHERE p.sale_id = _new_sale.id), '[]'::jsonb),
+        'loyalty', public.get_sale_loyalty(_new_sale.id),
+        'duplicate', false
+    );
+END;
+$$;
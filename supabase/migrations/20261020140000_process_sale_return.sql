@@ -0,0 +1,332 @@
+-- Returns in one transaction, like create_sale: the return, its lines, restocking, the refund to the
+-- customer's account or a voucher, the sale's refund total and the loyalty it earned all succeed or
+-- none do. The sale row is locked, so two returns of the same sale queue up and each sees what the
+-- other took back.
+CREATE SEQUENCE IF NOT EXISTS public.credit_note_number_seq;
+
+-- Returns take back the loyalty earned on what came back; kept apart from 'reversal' so a later
+-- void still reverses the rest
+ALTER TABLE public.loyalty_transactions DROP CONSTRAINT IF EXISTS loyalty_transactions_transaction_type_check;
+ALTER TABLE public.loyalty_transactions ADD CONSTRAINT loyalty_transactions_transaction_type_check CHECK (
+    transaction_type IN ('earn', 'redeem', 'free_refill', 'adjustment', 'reversal', 'return')
+);
+
+-- Put part of a sold line back into stock. _quantity is in the unit of sale_items.quantity (ml for
+-- refills); mixtures go back into each scent, and a refill's packaging once the whole line is back.
+CREATE OR REPLACE FUNCTION public.restock_returned_sale_item(
+    _item public.sale_items,
+    _quantity numeric,
+    _returned_before numeric,
+    _department_id uuid,
+    _return_id uuid,
+    _notes text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _fraction numeric;
+    _scent jsonb;
+    _names text[];
+    _scent_id uuid;
+    _ml numeric;
+    _tracking text;
+    _packaging record;
+BEGIN
+    IF _quantity <= 0 OR COALESCE(_item.quantity, 0) <= 0 THEN
+        RETURN;
+    END IF;
+    _fraction := _quantity / _item.quantity;
+
+    IF _item.scent_mixture IS NOT NULL THEN
+        IF jsonb_typeof(_item.scent_breakdown) = 'array' AND jsonb_array_length(_item.scent_breakdown) > 0 THEN
+            FOR _scent IN SELECT * FROM jsonb_array_elements(_item.scent_breakdown) LOOP
+                _ml := round(COALESCE((_scent ->> 'ml')::numeric, 0) * _fraction, 2);
+                CONTINUE WHEN _ml <= 0;
+
+                _scent_id := NULL;
+                IF NULLIF(_scent ->> 'scentId', '') IS NOT NULL THEN
+                    SELECT id INTO _scent_id FROM public.perfume_scents WHERE id = (_scent ->> 'scentId')::uuid;
+                END IF;
+                _scent_id := COALESCE(_scent_id, public.find_department_scent(_department_id, _scent ->> 'scent'));
+                -- Untracked scents were never taken out either
+                CONTINUE WHEN _scent_id IS NULL;
+
+                PERFORM public.apply_stock_movement('scent', _scent_id, 'return', _ml, NULL, false, 'sale_return', _return_id, _notes);
+            END LOOP;
+        ELSE
+            -- Older sales: the ml split equally over the names in "Oud + Rose"
+            SELECT array_agg(trim(name)) INTO _names
+            FROM unnest(string_to_array(_item.scent_mixture, '+')) AS name
+            WHERE trim(name) <> '';
+
+            IF COALESCE(array_length(_names, 1), 0) > 0 THEN
+                _ml := round(COALESCE(NULLIF(_item.ml_amount, 0), _item.quantity) / array_length(_names, 1) * _fraction, 2);
+                FOR i IN 1 .. array_length(_names, 1) LOOP
+                    _scent_id := public.find_department_scent(_department_id, _names[i]);
+                    CONTINUE WHEN _scent_id IS NULL OR _ml <= 0;
+                    PERFORM public.apply_stock_movement('scent', _scent_id, 'return', _ml, NULL, false, 'sale_return', _return_id, _notes);
+                END LOOP;
+            END IF;
+        END IF;
+
+        IF _returned_before + _quantity >= _item.quantity THEN
+            FOR _packaging IN
+                SELECT packaging_id, SUM(quantity) AS net
+                FROM public.stock_movements
+                WHERE reference_type = 'sale_item' AND reference_id = _item.id AND packaging_id IS NOT NULL
+                GROUP BY packaging_id
+            LOOP
+                CONTINUE WHEN _packaging.net >= 0;
+                PERFORM public.apply_stock_movement('packaging', _packaging.packaging_id, 'return', -_packaging.net, NULL, false, 'sale_item', _item.id, _notes);
+            END LOOP;
+        END IF;
+        RETURN;
+    END IF;
+
+    IF _item.variant_id IS NOT NULL THEN
+        PERFORM public.apply_stock_movement('variant', _item.variant_id, 'return', _quantity, NULL, false, 'sale_return', _return_id, _notes);
+        RETURN;
+    END IF;
+
+    IF _item.product_id IS NULL THEN
+        RETURN; -- Services
+    END IF;
+
+    SELECT tracking_type::text INTO _tracking FROM public.products WHERE id = _item.product_id;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF _tracking = 'ml' THEN
+        PERFORM public.apply_stock_movement(
+            'product', _item.product_id, 'return', COALESCE(NULLIF(_item.ml_amount, 0), _item.quantity) * _fraction,
+            NULL, true, 'sale_return', _return_id, _notes
+        );
+    ELSE
+        PERFORM public.apply_stock_movement('product', _item.product_id, 'return', _quantity, NULL, false, 'sale_return', _return_id, _notes);
+    END IF;
+END;
+$$;
+
+-- _lines: [{ sale_item_id, quantity, disposition: restock | write_off }]
+-- Refunds are pro rata to what was paid for each line: after discounts, with added tax.
+CREATE OR REPLACE FUNCTION public.process_sale_return(
+    _sale_id uuid,
+    _lines jsonb,
+    _reason text,
+    _refund_method text,
+    _refund_reference text DEFAULT NULL,
+    _customer_id uuid DEFAULT NULL,
+    _voucher_expires_at date DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _sale public.sales;
+    _return public.sale_returns;
+    _line jsonb;
+    _item public.sale_items;
+    _quantity numeric;
+    _returned numeric;
+    _line_totals numeric;
+    _paid numeric;
+    _amount numeric;
+    _refund numeric := 0;
+    _customer_id_used uuid;
+    _balance_after numeric;
+    _voucher jsonb;
+    _notes text;
+    _result_lines jsonb := '[]'::jsonb;
+    _earn public.loyalty_transactions;
+    _customer public.customers;
+    _taken_points integer;
+    _taken_punches integer;
+    _target_points integer;
+    _target_punches integer;
+BEGIN
+    SELECT * INTO _sale FROM public.sales WHERE id = _sale_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sale not found';
+    END IF;
+    IF _sale.status = 'voided' THEN
+        RAISE EXCEPTION 'This sale has been voided';
+    END IF;
+    IF NULLIF(trim(_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'Please provide a reason for the return';
+    END IF;
+    IF _refund_method NOT IN ('cash', 'card', 'mobile_money', 'credit', 'store_credit', 'voucher') THEN
+        RAISE EXCEPTION 'Unknown refund method: %', _refund_method;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(COALESCE(_lines, '[]'::jsonb)) l WHERE COALESCE((l ->> 'quantity')::numeric, 0) > 0
+    ) THEN
+        RAISE EXCEPTION 'Select at least one item to return';
+    END IF;
+
+    _customer_id_used := COALESCE(_customer_id, _sale.customer_id);
+    IF _refund_method IN ('store_credit', 'credit') AND _customer_id_used IS NULL THEN
+        RAISE EXCEPTION 'Select the customer to refund to';
+    END IF;
+
+    SELECT COALESCE(SUM(COALESCE(total, 0)), 0) INTO _line_totals FROM public.sale_items WHERE sale_id = _sale_id;
+
+    INSERT INTO public.sale_returns (
+        sale_id, department_id, credit_note_number, reason, refund_method, refund_amount,
+        refund_reference, customer_id, created_by
+    )
+    VALUES (
+        _sale_id, _sale.department_id, 'CN-' || lpad(nextval('public.credit_note_number_seq')::text, 6, '0'),
+        trim(_reason), _refund_method, 0, NULLIF(trim(_refund_reference), ''), _customer_id_used, auth.uid()
+    )
+    RETURNING * INTO _return;
+    _notes := 'Credit note ' || _return.credit_note_number;
+
+    FOR _line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+        _quantity := COALESCE((_line ->> 'quantity')::numeric, 0);
+        CONTINUE WHEN _quantity <= 0;
+
+        SELECT * INTO _item FROM public.sale_items
+        WHERE id = (_line ->> 'sale_item_id')::uuid AND sale_id = _sale_id;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Item is not part of this sale';
+        END IF;
+
+        SELECT COALESCE(SUM(quantity), 0) INTO _returned FROM public.sale_return_items WHERE sale_item_id = _item.id;
+        IF _returned + _quantity > COALESCE(_item.quantity, 0) THEN
+            RAISE EXCEPTION 'Only % % of % can be returned',
+                GREATEST(COALESCE(_item.quantity, 0) - _returned, 0),
+                CASE WHEN _item.scent_mixture IS NOT NULL OR COALESCE(_item.ml_amount, 0) > 0 THEN 'ml' ELSE 'units' END,
+                COALESCE(_item.item_name, _item.name);
+        END IF;
+
+        -- What the customer paid for the line; sales from before tax snapshots spread the total over the lines
+        _paid := CASE
+            WHEN _item.tax_treatment IS NOT NULL THEN COALESCE(_item.taxable_amount, 0) + COALESCE(_item.tax_amount, 0)
+            WHEN _line_totals > 0 THEN COALESCE(_item.total, 0) * _sale.total / _line_totals
+            ELSE COALESCE(_item.total, 0)
+        END;
+        _amount := round(_paid * _quantity / _item.quantity);
+        _refund := _refund + _amount;
+
+        INSERT INTO public.sale_return_items (return_id, sale_item_id, quantity, amount, disposition)
+        VALUES (_return.id, _item.id, _quantity, _amount, COALESCE(_line ->> 'disposition', 'restock'));
+
+        -- Written-off lines (damaged, opened mixtures) stay out of stock
+        IF COALESCE(_line ->> 'disposition', 'restock') = 'restock' THEN
+            PERFORM public.restock_returned_sale_item(_item, _quantity, _returned, _sale.department_id, _return.id, _notes);
+        END IF;
+
+        _result_lines := _result_lines || jsonb_build_object(
+            'sale_item_id', _item.id,
+            'quantity', _quantity,
+            'amount', _amount,
+            'disposition', COALESCE(_line ->> 'disposition', 'restock')
+        );
+    END LOOP;
+
+    IF _refund_method IN ('store_credit', 'credit') THEN
+        IF _refund_method = 'store_credit' THEN
+            UPDATE public.customers
+            SET store_credit_balance = COALESCE(store_credit_balance, 0) + _refund
+            WHERE id = _customer_id_used
+            RETURNING store_credit_balance INTO _balance_after;
+        ELSE
+            UPDATE public.customers
+            SET outstanding_balance = GREATEST(COALESCE(outstanding_balance, 0) - _refund, 0)
+            WHERE id = _customer_id_used
+            RETURNING outstanding_balance INTO _balance_after;
+        END IF;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Customer not found';
+        END IF;
+
+        INSERT INTO public.customer_credit_transactions (
+            customer_id, department_id, sale_id, amount, balance_after, transaction_type, notes, created_by
+        )
+        VALUES (
+            _customer_id_used, _sale.department_id, _sale_id, _refund, _balance_after,
+            CASE WHEN _refund_method = 'store_credit' THEN 'store_credit' ELSE 'return' END,
+            'Return ' || _return.credit_note_number || ': ' || trim(_reason), auth.uid()
+        );
+    ELSIF _refund_method = 'voucher' THEN
+        -- The voucher code goes on the credit note as the refund reference
+        _voucher := public.issue_gift_voucher(
+            _sale.department_id, _refund, 'open', _voucher_expires_at, 'refund', NULL, NULL,
+            _customer_id_used, NULL, 'Return ' || _return.credit_note_number, _return.id
+        );
+    END IF;
+
+    UPDATE public.sale_returns
+    SET refund_amount = _refund,
+        refund_reference = COALESCE(_voucher ->> 'code', refund_reference)
+    WHERE id = _return.id
+    RETURNING * INTO _return;
+
+    UPDATE public.sales
+    SET returned_amount = COALESCE(returned_amount, 0) + _refund
+    WHERE id = _sale_id
+    RETURNING * INTO _sale;
+
+    -- Take back loyalty earned on what came back: points in proportion to the refunds so far, and a
+    -- punch for each refill returned in full. Like voids, never below zero.
+    SELECT * INTO _earn FROM public.loyalty_transactions
+    WHERE sale_id = _sale_id AND transaction_type = 'earn'
+    LIMIT 1;
+
+    IF FOUND THEN
+        SELECT COALESCE(-SUM(points), 0), COALESCE(-SUM(punches), 0)
+        INTO _taken_points, _taken_punches
+        FROM public.loyalty_transactions
+        WHERE sale_id = _sale_id AND transaction_type = 'return';
+
+        _target_points := CASE
+            WHEN COALESCE(_sale.total, 0) > 0
+            THEN round(_earn.points * LEAST(COALESCE(_sale.returned_amount, 0) / _sale.total, 1))
+            ELSE 0
+        END;
+        SELECT LEAST(count(*), _earn.punches) INTO _target_punches
+        FROM public.sale_items i
+        WHERE i.sale_id = _sale_id
+          AND i.scent_mixture IS NOT NULL
+          AND (SELECT COALESCE(SUM(r.quantity), 0) FROM public.sale_return_items r WHERE r.sale_item_id = i.id) >= i.quantity;
+
+        IF _target_points > _taken_points OR _target_punches > _taken_punches THEN
+            SELECT * INTO _customer FROM public.customers WHERE id = _earn.customer_id FOR UPDATE;
+            _taken_points := LEAST(GREATEST(_target_points - _taken_points, 0), GREATEST(_customer.loyalty_points, 0));
+            _taken_punches := LEAST(GREATEST(_target_punches - _taken_punches, 0), GREATEST(_customer.refill_punches, 0));
+
+            UPDATE public.customers
+            SET loyalty_points = loyalty_points - _taken_points,
+                refill_punches = refill_punches - _taken_punches
+            WHERE id = _customer.id
+            RETURNING * INTO _customer;
+
+            INSERT INTO public.loyalty_transactions (
+                customer_id, department_id, sale_id, transaction_type, points, punches, amount,
+                points_after, punches_after, notes, created_by
+            )
+            VALUES (
+                _customer.id, _earn.department_id, _sale_id, 'return', -_taken_points, -_taken_punches, _refund,
+                _customer.loyalty_points, _customer.refill_punches, 'Return ' || _return.credit_note_number, auth.uid()
+            );
+        END IF;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'sale_return', to_jsonb(_return),
+        'lines', _result_lines,
+        'refund_amount', _refund,
+        'voucher', _voucher
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.restock_returned_sale_item(public.sale_items, numeric, numeric, uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_sale_return(uuid, jsonb, text, text, text, uuid, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.process_sale_return(uuid, jsonb, text, text, text, uuid, date) TO authenticated;
@@ -0,0 +1,120 @@
+-- Same as before, but transaction ID matches stay within the statement's department, as the
+-- amount and time matches already did for the agent ledger, and sales match only their own department
+CREATE OR REPLACE FUNCTION public.match_mobile_money_statement_line(_statement_line_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _line public.mobile_money_statement_lines;
+    _phone text;
+    _types text[];
+    _agent_tx_id uuid;
+    _sale_payment_id uuid;
+    _method text;
+BEGIN
+    SELECT * INTO _line FROM public.mobile_money_statement_lines WHERE id = _statement_line_id FOR UPDATE;
+    IF NOT FOUND OR _line.status <> 'unmatched' THEN
+        RETURN false;
+    END IF;
+
+    _phone := right(regexp_replace(COALESCE(_line.counterparty_phone, ''), '\D', '', 'g'), 9);
+    -- Wallet money out is a customer deposit or float sent to the bank; money in is the reverse
+    _types := CASE WHEN _line.direction = 'out'
+        THEN ARRAY['deposit', 'bank_transfer_out']
+        ELSE ARRAY['withdrawal', 'float_purchase', 'bank_transfer_in'] END;
+
+    IF _line.transaction_id IS NOT NULL THEN
+        SELECT t.id INTO _agent_tx_id
+        FROM public.agent_transactions t
+        JOIN public.agent_lines l ON l.id = t.line_id
+        WHERE t.reference = _line.transaction_id
+          AND t.department_id = _line.department_id
+          AND l.provider = _line.provider
+          AND t.transaction_type = ANY(_types)
+          AND NOT EXISTS (SELECT 1 FROM public.agent_transactions r WHERE r.reversal_of = t.id)
+          AND NOT EXISTS (
+              SELECT 1 FROM public.mobile_money_statement_lines s WHERE s.matched_agent_transaction_id = t.id
+          )
+        LIMIT 1;
+
+        IF _agent_tx_id IS NULL AND _line.direction = 'in' THEN
+            SELECT sp.id INTO _sale_payment_id
+            FROM public.sale_payments sp
+            LEFT JOIN public.mobile_money_payments mp ON mp.sale_payment_id = sp.id
+            WHERE sp.method = 'mobile_money'
+              AND sp.department_id = _line.department_id
+              AND (sp.reference = _line.transaction_id OR mp.transaction_id = _line.transaction_id)
+              AND NOT EXISTS (
+                  SELECT 1 FROM public.mobile_money_statement_lines s WHERE s.matched_sale_payment_id = sp.id
+              )
+            LIMIT 1;
+        END IF;
+
+        IF _agent_tx_id IS NOT NULL OR _sale_payment_id IS NOT NULL THEN
+            _method := 'transaction_id';
+        END IF;
+    END IF;
+
+    -- Same amount within half an hour (or on the same day when the statement has no times),
+    -- with the same customer number when both sides have one; the closest in time wins
+    IF _method IS NULL THEN
+        SELECT t.id INTO _agent_tx_id
+        FROM public.agent_transactions t
+        JOIN public.agent_lines l ON l.id = t.line_id
+        WHERE t.department_id = _line.department_id
+          AND l.provider = _line.provider
+          AND (_line.line_id IS NULL OR t.line_id = _line.line_id)
+          AND t.transaction_type = ANY(_types)
+          AND NOT EXISTS (SELECT 1 FROM public.agent_transactions r WHERE r.reversal_of = t.id)
+          AND t.amount = _line.amount
+          AND CASE WHEN _line.occurred_at IS NOT NULL
+              THEN t.created_at BETWEEN _line.occurred_at - interval '30 minutes' AND _line.occurred_at + interval '30 minutes'
+              ELSE t.created_at::date = _line.occurred_on END
+          AND (_phone = '' OR t.customer_phone IS NULL OR right(regexp_replace(t.customer_phone, '\D', '', 'g'), 9) = _phone)
+          AND NOT EXISTS (
+              SELECT 1 FROM public.mobile_money_statement_lines s WHERE s.matched_agent_transaction_id = t.id
+          )
+        ORDER BY abs(extract(epoch FROM t.created_at - COALESCE(_line.occurred_at, t.created_at)))
+        LIMIT 1;
+
+        IF _agent_tx_id IS NULL AND _line.direction = 'in' THEN
+            SELECT sp.id INTO _sale_payment_id
+            FROM public.sale_payments sp
+            JOIN public.sales s ON s.id = sp.sale_id
+            WHERE sp.method = 'mobile_money'
+              AND sp.status IN ('completed', 'pending')
+              AND s.status <> 'voided'
+              AND sp.department_id = _line.department_id
+              AND (sp.provider IS NULL OR sp.provider = _line.provider)
+              AND sp.amount = _line.amount
+              AND CASE WHEN _line.occurred_at IS NOT NULL
+                  THEN sp.created_at BETWEEN _line.occurred_at - interval '30 minutes' AND _line.occurred_at + interval '30 minutes'
+                  ELSE sp.created_at::date = _line.occurred_on END
+              AND (_phone = '' OR sp.phone_number IS NULL OR right(regexp_replace(sp.phone_number, '\D', '', 'g'), 9) = _phone)
+              AND NOT EXISTS (
+                  SELECT 1 FROM public.mobile_money_statement_lines m WHERE m.matched_sale_payment_id = sp.id
+              )
+            ORDER BY abs(extract(epoch FROM sp.created_at - COALESCE(_line.occurred_at, sp.created_at)))
+            LIMIT 1;
+        END IF;
+
+        IF _agent_tx_id IS NOT NULL OR _sale_payment_id IS NOT NULL THEN
+            _method := 'amount_time';
+        END IF;
+    END IF;
+
+    IF _method IS NULL THEN
+        RETURN false;
+    END IF;
+
+    UPDATE public.mobile_money_statement_lines
+    SET status = 'matched',
+        match_method = _method,
+        matched_agent_transaction_id = _agent_tx_id,
+        matched_sale_payment_id = _sale_payment_id
+    WHERE id = _line.id;
+    RETURN true;
+END;
+$$;
@@ -0,0 +1,73 @@
+-- A line at its list price: quantity times unit price. Refills keep quantity in ml and unit_price per
+-- bottle of ml_amount ml.
+CREATE OR REPLACE FUNCTION public.sale_item_gross(_item public.sale_items)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN _item.scent_mixture IS NOT NULL AND COALESCE(_item.ml_amount, 0) > 0
+        THEN COALESCE(_item.unit_price, 0) * COALESCE(_item.quantity, 0) / _item.ml_amount
+        ELSE COALESCE(_item.unit_price, 0) * COALESCE(_item.quantity, 0)
+    END;
+$$;
+
+-- Same as before, but the gross comes from the price list rather than the line totals the till sent,
+-- and a sale total below it counts as discount
+CREATE OR REPLACE FUNCTION public.check_sale_discount(_sale_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _sale public.sales;
+    _gross numeric;
+    _discount numeric;
+    _added_tax numeric;
+    _percent numeric;
+    _cap numeric;
+BEGIN
+    SELECT * INTO _sale FROM public.sales WHERE id = _sale_id;
+
+    SELECT COALESCE(SUM(public.sale_item_gross(i)), 0),
+           COALESCE(SUM(COALESCE(i.discount_amount, 0)), 0),
+           COALESCE(SUM(CASE WHEN i.tax_treatment IS NOT NULL AND i.tax_inclusive = false THEN COALESCE(i.tax_amount, 0) ELSE 0 END), 0)
+    INTO _gross, _discount, _added_tax
+    FROM public.sale_items i
+    WHERE i.sale_id = _sale_id;
+
+    -- sales.discount is line discounts plus the cart discount. Whatever else the total falls short of
+    -- the price list by is a discount too, however the lines were written.
+    _discount := GREATEST(_discount, COALESCE(_sale.discount, 0), round(_gross + _added_tax - COALESCE(_sale.total, 0)));
+    IF _discount <= 0 THEN
+        RETURN;
+    END IF;
+    IF _gross <= 0 THEN
+        RAISE EXCEPTION 'A discount needs something to come off';
+    END IF;
+
+    _percent := _discount / _gross * 100;
+    _cap := public.get_discount_cap(auth.uid(), _sale.department_id);
+
+    IF _percent > _cap + 0.01 AND _sale.discount_approved_by IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.override_pin_attempts
+        WHERE requested_by = auth.uid()
+          AND approver_id = _sale.discount_approved_by
+          AND succeeded
+          AND created_at > now() - interval '1 day'
+    ) THEN
+        _cap := GREATEST(_cap, public.get_discount_cap(_sale.discount_approved_by, _sale.department_id));
+    END IF;
+
+    IF _percent > _cap + 0.01 THEN
+        RAISE EXCEPTION '%', format(
+            'Total discount of %s%% is over the %s%% limit. A manager must approve it with their PIN',
+            round(_percent, 1), _cap
+        );
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_sale_discount(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,242 @@
+-- Same as before, but only signed-in staff of the sale's department (or admins) can record it, only
+-- managers can sell beyond the stock on hand, and line totals, the sale total and the payments are
+-- checked against the price list before anything is taken
+CREATE OR REPLACE FUNCTION public.create_sale(
+    _idempotency_key text,
+    _sale jsonb,
+    _items jsonb,
+    _payments jsonb DEFAULT '[]'::jsonb,
+    _stock jsonb DEFAULT '[]'::jsonb,
+    _allow_oversell boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _existing public.sales;
+    _new_sale public.sales;
+    _receipt_number text;
+    _line jsonb;
+    _item_id uuid;
+    _quantity numeric;
+    _available numeric;
+    _payment public.sale_payments;
+    _balance_after numeric;
+    _department_id uuid := NULLIF(_sale ->> 'department_id', '')::uuid;
+    _expected_total numeric;
+    _paid numeric;
+    _mismatch text;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF NOT (public.has_role(auth.uid(), 'admin') OR _department_id = public.get_user_department(auth.uid())) THEN
+        RAISE EXCEPTION 'You can only record sales for your own department';
+    END IF;
+    -- Selling beyond the stock on hand is a manager's call (an offline sale they accepted)
+    IF _allow_oversell AND NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+        RAISE EXCEPTION 'Only a manager can record a sale beyond the stock on hand';
+    END IF;
+
+    IF _idempotency_key IS NOT NULL THEN
+        -- Serialise retries of the same checkout
+        PERFORM pg_advisory_xact_lock(hashtext('create_sale:' || _idempotency_key));
+
+        SELECT * INTO _existing FROM public.sales WHERE idempotency_key = _idempotency_key;
+        IF FOUND THEN
+            RETURN jsonb_build_object(
+                'sale', to_jsonb(_existing),
+                'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM public.sale_payments p WHERE p.sale_id = _existing.id), '[]'::jsonb),
+                'loyalty', public.get_sale_loyalty(_existing.id),
+                'duplicate', true
+            );
+        END IF;
+    END IF;
+
+    IF jsonb_array_length(COALESCE(_items, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'A sale needs at least one item';
+    END IF;
+
+    _receipt_number := NULLIF(_sale ->> 'receipt_number', '');
+    IF _receipt_number IS NULL THEN
+        -- generate_receipt_number reads MAX(receipt_number), so only one checkout may use it at a time
+        PERFORM pg_advisory_xact_lock(hashtext('create_sale:receipt_number'));
+        _receipt_number := public.generate_receipt_number();
+    END IF;
+
+    INSERT INTO public.sales (
+        department_id, cashier_id, cashier_name, customer_id, payment_method,
+        subtotal, discount, discount_reason, discount_approved_by, tax, total,
+        amount_paid, change_amount, receipt_number, sale_number, invoice_number,
+        is_invoice, is_loan, notes, remarks, status, created_at, idempotency_key
+    )
+    SELECT
+        s.department_id, COALESCE(s.cashier_id, auth.uid()), s.cashier_name, s.customer_id, s.payment_method,
+        s.subtotal, COALESCE(s.discount, 0), s.discount_reason, s.discount_approved_by, COALESCE(s.tax, 0), s.total,
+        s.amount_paid, COALESCE(s.change_amount, 0), _receipt_number, COALESCE(s.sale_number, _receipt_number), s.invoice_number,
+        COALESCE(s.is_invoice, false), COALESCE(s.is_loan, false), s.notes, s.remarks, COALESCE(s.status, 'completed'),
+        COALESCE(s.created_at, now()), _idempotency_key
+    FROM jsonb_populate_record(NULL::public.sales, _sale) s
+    RETURNING * INTO _new_sale;
+
+    INSERT INTO public.sale_items (
+        sale_id, product_id, service_id, variant_id, name, item_name, quantity, unit_price, total,
+        discount_type, discount_value, discount_amount, discount_reason,
+        tax_profile_id, tax_name, tax_treatment, tax_rate, tax_inclusive, taxable_amount, tax_amount,
+        customer_type, scent_mixture, scent_breakdown, bottle_cost, ml_amount, price_per_ml
+    )
+    SELECT
+        _new_sale.id, i.product_id, i.service_id, i.variant_id, COALESCE(i.name, i.item_name, 'Unnamed Item'),
+        COALESCE(i.item_name, i.name), COALESCE(i.quantity, 1), COALESCE(i.unit_price, 0), COALESCE(i.total, 0),
+        i.discount_type, COALESCE(i.discount_value, 0), COALESCE(i.discount_amount, 0), i.discount_reason,
+        i.tax_profile_id, i.tax_name, i.tax_treatment, i.tax_rate, i.tax_inclusive, i.taxable_amount, i.tax_amount,
+        i.customer_type, i.scent_mixture, i.scent_breakdown, i.bottle_cost, i.ml_amount, i.price_per_ml
+    FROM jsonb_populate_recordset(NULL::public.sale_items, _items) i;
+
+    -- The till's sums are only trusted when they agree with the price list, to the shilling
+    SELECT COALESCE(i.item_name, i.name) INTO _mismatch
+    FROM public.sale_items i
+    WHERE i.sale_id = _new_sale.id
+      AND abs(COALESCE(i.total, 0) + COALESCE(i.discount_amount, 0) - public.sale_item_gross(i)) > 1
+    LIMIT 1;
+    IF _mismatch IS NOT NULL THEN
+        RAISE EXCEPTION 'The line total for % doesn''t match its price and quantity', _mismatch;
+    END IF;
+
+    SELECT SUM(public.sale_item_gross(i))
+           - GREATEST(SUM(COALESCE(i.discount_amount, 0)), COALESCE(_new_sale.discount, 0))
+           + SUM(CASE WHEN i.tax_treatment IS NOT NULL AND i.tax_inclusive = false THEN COALESCE(i.tax_amount, 0) ELSE 0 END)
+    INTO _expected_total
+    FROM public.sale_items i
+    WHERE i.sale_id = _new_sale.id;
+    IF abs(COALESCE(_new_sale.total, 0) - _expected_total) > 1 THEN
+        RAISE EXCEPTION 'The sale total of UGX % doesn''t match its items (UGX %)', _new_sale.total, round(_expected_total);
+    END IF;
+
+    SELECT COALESCE(SUM(p.amount), 0) INTO _paid
+    FROM jsonb_populate_recordset(NULL::public.sale_payments, COALESCE(_payments, '[]'::jsonb)) p
+    WHERE COALESCE(p.amount, 0) > 0;
+    IF abs(_paid - COALESCE(_new_sale.total, 0)) > 1 THEN
+        RAISE EXCEPTION 'Payments of UGX % don''t match the sale total of UGX %', _paid, _new_sale.total;
+    END IF;
+
+    PERFORM public.check_sale_discount(_new_sale.id);
+
+    -- Check every line before taking anything, holding the rows so another till can't sell them meanwhile
+    FOR _line IN SELECT * FROM jsonb_array_elements(COALESCE(_stock, '[]'::jsonb)) LOOP
+        _item_id := NULLIF(_line ->> 'item_id', '')::uuid;
+        _quantity := COALESCE((_line ->> 'quantity')::numeric, 0);
+        CONTINUE WHEN _quantity <= 0;
+
+        IF _line ->> 'item_type' = 'scent' THEN
+            IF _item_id IS NULL THEN
+                _item_id := public.find_department_scent(_new_sale.department_id, _line ->> 'name');
+                -- Untracked scents have never blocked a sale
+                CONTINUE WHEN _item_id IS NULL;
+            END IF;
+            SELECT COALESCE(stock_ml, 0) INTO _available FROM public.perfume_scents WHERE id = _item_id FOR UPDATE;
+        ELSIF _line ->> 'item_type' = 'variant' THEN
+            SELECT COALESCE(stock, 0) INTO _available FROM public.product_variants WHERE id = _item_id FOR UPDATE;
+        ELSIF COALESCE((_line ->> 'use_ml')::boolean, false) THEN
+            SELECT COALESCE(total_ml, 0) INTO _available FROM public.products WHERE id = _item_id FOR UPDATE;
+        ELSE
+            SELECT COALESCE(stock, 0) INTO _available FROM public.products WHERE id = _item_id FOR UPDATE;
+        END IF;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Stock item for % not found', COALESCE(_line ->> 'name', _item_id::text);
+        END IF;
+
+        -- An offline sale has already left the shop; recording it anyway takes stock below zero
+        IF _available < _quantity AND NOT _allow_oversell THEN
+            RAISE EXCEPTION 'Insufficient stock for %. Available: %', COALESCE(_line ->> 'name', 'item'), _available;
+        END IF;
+
+        PERFORM public.apply_stock_movement(
+            _line ->> 'item_type',
+            _item_id,
+            'sale',
+            -_quantity,
+            NULL,
+            COALESCE((_line ->> 'use_ml')::boolean, false),
+            'sale',
+            _new_sale.id,
+            'Receipt ' || _receipt_number
+        );
+    END LOOP;
+
+    FOR _payment IN
+        INSERT INTO public.sale_payments (
+            sale_id, department_id, method, amount, tendered_amount, reference,
+            phone_number, provider, customer_id, status, created_by
+        )
+        SELECT
+            _new_sale.id, _new_sale.department_id, p.method, p.amount, p.tendered_amount, p.reference,
+            p.phone_number, p.provider, p.customer_id, COALESCE(p.status, 'completed'), auth.uid()
+        FROM jsonb_populate_recordset(NULL::public.sale_payments, COALESCE(_payments, '[]'::jsonb)) p
+        WHERE COALESCE(p.amount, 0) > 0
+        RETURNING *
+    LOOP
+        IF _payment.method = 'credit' AND _payment.customer_id IS NOT NULL THEN
+            UPDATE public.customers
+            SET outstanding_balance = COALESCE(outstanding_balance, 0) + _payment.amount
+            WHERE id = _payment.customer_id
+            RETURNING outstanding_balance INTO _balance_after;
+
+            INSERT INTO public.customer_credit_transactions (
+                customer_id, department_id, sale_id, amount, balance_after, transaction_type, notes, created_by
+            )
+            VALUES (
+                _payment.customer_id, _new_sale.department_id, _new_sale.id, _payment.amount,
+                _balance_after, 'credit', 'Sale on credit', auth.uid()
+            );
+        ELSIF _payment.method = 'voucher' THEN
+            PERFORM public.redeem_gift_voucher(_payment.reference, _payment.amount, _new_sale.id);
+        ELSIF _payment.method = 'store_credit' THEN
+            IF _payment.customer_id IS NULL THEN
+                RAISE EXCEPTION 'Store credit needs a customer';
+            END IF;
+
+            -- Lock the balance first: a missing customer or a NULL balance must not let the tender through
+            SELECT COALESCE(store_credit_balance, 0) INTO _balance_after
+            FROM public.customers
+            WHERE id = _payment.customer_id
+            FOR UPDATE;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Customer not found';
+            END IF;
+            IF _balance_after < _payment.amount THEN
+                RAISE EXCEPTION 'Only UGX % of store credit left', _balance_after;
+            END IF;
+
+            UPDATE public.customers
+            SET store_credit_balance = _balance_after - _payment.amount
+            WHERE id = _payment.customer_id
+            RETURNING store_credit_balance INTO _balance_after;
+
+            INSERT INTO public.customer_credit_transactions (
+                customer_id, department_id, sale_id, amount, balance_after, transaction_type, notes, created_by
+            )
+            VALUES (
+                _payment.customer_id, _new_sale.department_id, _new_sale.id, _payment.amount,
+                _balance_after, 'store_credit_used', 'Receipt ' || _receipt_number, auth.uid()
+            );
+        END IF;
+    END LOOP;
+
+    PERFORM public.apply_sale_loyalty(_new_sale.id);
+
+    RETURN jsonb_build_object(
+        'sale', to_jsonb(_new_sale),
+        'payments', COALESCE((SELECT jsonb_agg(to_jsonb(p)) FROM public.sale_payments p WHERE p.sale_id = _new_sale.id), '[]'::jsonb),
+        'loyalty', public.get_sale_loyalty(_new_sale.id),
+        'duplicate', false
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_sale(text, jsonb, jsonb, jsonb, jsonb, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_sale(text, jsonb, jsonb, jsonb, jsonb, boolean) TO authenticated;
@@ -0,0 +1,143 @@
+-- Same as before, but a voucher tender needs a positive amount and a live sale that hasn't already
+-- used the voucher. Only create_sale redeems vouchers.
+CREATE OR REPLACE FUNCTION public.redeem_gift_voucher(
+    _code text,
+    _amount numeric,
+    _sale_id uuid
+)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _voucher public.gift_vouchers;
+    _sale public.sales;
+BEGIN
+    IF COALESCE(_amount, 0) <= 0 THEN
+        RAISE EXCEPTION 'A voucher tender needs an amount';
+    END IF;
+
+    SELECT * INTO _sale FROM public.sales WHERE id = _sale_id;
+    IF NOT FOUND OR _sale.status = 'voided' THEN
+        RAISE EXCEPTION 'Sale not found';
+    END IF;
+
+    SELECT * INTO _voucher FROM public.gift_vouchers
+    WHERE code = upper(trim(_code))
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Gift voucher % not found', _code;
+    END IF;
+    IF _voucher.status = 'cancelled' THEN
+        RAISE EXCEPTION 'Gift voucher % has been cancelled', _voucher.code;
+    END IF;
+    IF _voucher.expires_at IS NOT NULL AND _voucher.expires_at < current_date THEN
+        RAISE EXCEPTION 'Gift voucher % expired on %', _voucher.code, _voucher.expires_at;
+    END IF;
+    IF _voucher.department_id IS DISTINCT FROM _sale.department_id THEN
+        RAISE EXCEPTION 'Gift voucher % belongs to another department', _voucher.code;
+    END IF;
+    IF EXISTS (
+        SELECT 1 FROM public.gift_voucher_transactions
+        WHERE voucher_id = _voucher.id AND sale_id = _sale_id AND transaction_type = 'redeem'
+    ) THEN
+        RAISE EXCEPTION 'Gift voucher % has already been used on this sale', _voucher.code;
+    END IF;
+    IF _voucher.balance < _amount THEN
+        RAISE EXCEPTION 'Gift voucher % only has UGX % left', _voucher.code, _voucher.balance;
+    END IF;
+
+    UPDATE public.gift_vouchers
+    SET balance = balance - _amount
+    WHERE id = _voucher.id
+    RETURNING * INTO _voucher;
+
+    INSERT INTO public.gift_voucher_transactions (
+        voucher_id, department_id, sale_id, transaction_type, amount, balance_after, notes, created_by
+    )
+    VALUES (
+        _voucher.id, _sale.department_id, _sale_id, 'redeem', -_amount, _voucher.balance,
+        'Receipt ' || _sale.receipt_number, auth.uid()
+    );
+
+    RETURN _voucher.balance;
+END;
+$$;
+
+-- Same as before, but only for the caller's department: complimentary vouchers need a manager, and
+-- refund vouchers a voucher-refunded return that doesn't have one yet
+CREATE OR REPLACE FUNCTION public.issue_gift_voucher(
+    _department_id uuid,
+    _amount numeric,
+    _value_type text DEFAULT 'fixed',
+    _expires_at date DEFAULT NULL,
+    _source text DEFAULT 'sold',
+    _payment_method text DEFAULT NULL,
+    _payment_reference text DEFAULT NULL,
+    _customer_id uuid DEFAULT NULL,
+    _recipient_name text DEFAULT NULL,
+    _notes text DEFAULT NULL,
+    _sale_return_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _voucher public.gift_vouchers;
+BEGIN
+    IF COALESCE(_amount, 0) <= 0 THEN
+        RAISE EXCEPTION 'A voucher needs a value';
+    END IF;
+    IF _source = 'sold' AND _payment_method IS NULL THEN
+        RAISE EXCEPTION 'Choose how the voucher was paid for';
+    END IF;
+    IF NOT (public.has_role(auth.uid(), 'admin') OR _department_id = public.get_user_department(auth.uid())) THEN
+        RAISE EXCEPTION 'You can only issue vouchers for your own department';
+    END IF;
+
+    IF _source = 'refund' THEN
+        -- Refund vouchers come from process_sale_return, once per return and up to what it refunds
+        IF NOT EXISTS (
+            SELECT 1 FROM public.sale_returns
+            WHERE id = _sale_return_id AND department_id = _department_id AND refund_method = 'voucher'
+        ) THEN
+            RAISE EXCEPTION 'A refund voucher needs a return refunded by voucher';
+        END IF;
+        IF EXISTS (SELECT 1 FROM public.gift_vouchers WHERE sale_return_id = _sale_return_id) THEN
+            RAISE EXCEPTION 'This return already has a voucher';
+        END IF;
+        IF _amount > (SELECT COALESCE(SUM(amount), 0) FROM public.sale_return_items WHERE return_id = _sale_return_id) THEN
+            RAISE EXCEPTION 'A refund voucher can''t be worth more than the items returned';
+        END IF;
+    ELSIF _source IS DISTINCT FROM 'sold'
+        AND NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+        RAISE EXCEPTION 'Only a manager can issue a complimentary voucher';
+    END IF;
+
+    INSERT INTO public.gift_vouchers (
+        department_id, code, value_type, initial_value, balance, expires_at, source,
+        payment_method, payment_reference, customer_id, recipient_name, sale_return_id, notes, created_by
+    )
+    VALUES (
+        _department_id, public.generate_voucher_code(), COALESCE(_value_type, 'fixed'), _amount, _amount, _expires_at,
+        COALESCE(_source, 'sold'), CASE WHEN _source = 'sold' THEN _payment_method END, NULLIF(trim(_payment_reference), ''),
+        _customer_id, NULLIF(trim(_recipient_name), ''), _sale_return_id, _notes, auth.uid()
+    )
+    RETURNING * INTO _voucher;
+
+    INSERT INTO public.gift_voucher_transactions (
+        voucher_id, department_id, transaction_type, amount, balance_after, notes, created_by
+    )
+    VALUES (_voucher.id, _department_id, 'issue', _amount, _amount, _notes, auth.uid());
+
+    RETURN to_jsonb(_voucher);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_gift_voucher(text, numeric, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.issue_gift_voucher(uuid, numeric, text, date, text, text, text, uuid, text, text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.issue_gift_voucher(uuid, numeric, text, date, text, text, text, uuid, text, text, uuid) TO authenticated;
@@ -0,0 +1,239 @@
+-- Agent lines are set up by admins or managers of their department, and their float only moves
+-- through open_agent_day, record_agent_transaction and reverse_agent_transaction
+DROP POLICY IF EXISTS "Staff can manage agent lines" ON public.agent_lines;
+
+CREATE POLICY "Managers can manage agent lines" ON public.agent_lines
+FOR ALL TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin')
+  OR (public.has_role(auth.uid(), 'manager') AND department_id = public.get_user_department(auth.uid()))
+)
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin')
+  OR (public.has_role(auth.uid(), 'manager') AND department_id = public.get_user_department(auth.uid()))
+);
+
+CREATE OR REPLACE FUNCTION public.guard_agent_float_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.float_balance IS DISTINCT FROM OLD.float_balance
+        AND current_setting('app.agent_ledger', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'The float only changes through agent transactions or the day''s opening count';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_agent_lines_float_balance
+BEFORE UPDATE OF float_balance ON public.agent_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_agent_float_balance();
+
+-- Same as before, but marks its float updates as ledger moves
+CREATE OR REPLACE FUNCTION public.open_agent_day(
+    _department_id uuid,
+    _opening_cash numeric,
+    _floats jsonb,
+    _low_cash_alert numeric DEFAULT 0,
+    _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _day public.agent_float_days;
+    _line public.agent_lines;
+BEGIN
+    IF NOT (public.has_role(auth.uid(), 'admin') OR _department_id = public.get_user_department(auth.uid())) THEN
+        RAISE EXCEPTION 'You can only work with agent lines in your own department';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.agent_float_days WHERE department_id = _department_id AND status = 'open') THEN
+        RAISE EXCEPTION 'Close the open day before starting a new one';
+    END IF;
+    IF COALESCE(_opening_cash, 0) < 0 THEN
+        RAISE EXCEPTION 'Opening cash can''t be negative';
+    END IF;
+
+    -- The float counted on each SIM is the starting balance, whatever the ledger says
+    PERFORM set_config('app.agent_ledger', 'on', true);
+    FOR _line IN
+        SELECT * FROM public.agent_lines WHERE department_id = _department_id AND is_active FOR UPDATE
+    LOOP
+        IF NOT COALESCE(_floats, '{}'::jsonb) ? _line.id::text THEN
+            RAISE EXCEPTION 'Enter the opening float for %', _line.name;
+        END IF;
+        UPDATE public.agent_lines
+        SET float_balance = (_floats ->> _line.id::text)::numeric
+        WHERE id = _line.id;
+    END LOOP;
+    PERFORM set_config('app.agent_ledger', 'off', true);
+
+    INSERT INTO public.agent_float_days (
+        department_id, opening_cash, cash_balance, low_cash_alert, opening_floats, notes, opened_by
+    )
+    VALUES (
+        _department_id, COALESCE(_opening_cash, 0), COALESCE(_opening_cash, 0), COALESCE(_low_cash_alert, 0),
+        COALESCE(_floats, '{}'::jsonb), _notes, auth.uid()
+    )
+    RETURNING * INTO _day;
+
+    RETURN to_jsonb(_day);
+END;
+$$;
+
+-- Same as before, but marks its float update as a ledger move
+CREATE OR REPLACE FUNCTION public.record_agent_transaction(
+    _line_id uuid,
+    _transaction_type text,
+    _amount numeric,
+    _customer_phone text DEFAULT NULL,
+    _customer_name text DEFAULT NULL,
+    _reference text DEFAULT NULL,
+    _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _line public.agent_lines;
+    _day public.agent_float_days;
+    _float_change numeric;
+    _cash_change numeric;
+    _tx public.agent_transactions;
+    _commission numeric;
+BEGIN
+    IF COALESCE(_amount, 0) <= 0 THEN
+        RAISE EXCEPTION 'Enter an amount';
+    END IF;
+
+    SELECT * INTO _line FROM public.agent_lines WHERE id = _line_id FOR UPDATE;
+    IF NOT FOUND OR NOT _line.is_active THEN
+        RAISE EXCEPTION 'Agent line not found';
+    END IF;
+    IF NOT (public.has_role(auth.uid(), 'admin') OR _line.department_id = public.get_user_department(auth.uid())) THEN
+        RAISE EXCEPTION 'You can only work with agent lines in your own department';
+    END IF;
+
+    SELECT * INTO _day FROM public.agent_float_days
+    WHERE department_id = _line.department_id AND status = 'open'
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Open the day with the float and cash counts first';
+    END IF;
+
+    CASE _transaction_type
+        WHEN 'deposit' THEN _float_change := -_amount; _cash_change := _amount;
+        WHEN 'withdrawal' THEN _float_change := _amount; _cash_change := -_amount;
+        WHEN 'float_purchase' THEN _float_change := _amount; _cash_change := -_amount;
+        WHEN 'bank_transfer_in' THEN _float_change := _amount; _cash_change := 0;
+        WHEN 'bank_transfer_out' THEN _float_change := -_amount; _cash_change := 0;
+        ELSE RAISE EXCEPTION 'Unknown agent transaction type %', _transaction_type;
+    END CASE;
+
+    IF _line.float_balance + _float_change < 0 THEN
+        RAISE EXCEPTION 'Not enough float on %: UGX % left', _line.name, _line.float_balance;
+    END IF;
+    IF _day.cash_balance + _cash_change < 0 THEN
+        RAISE EXCEPTION 'Not enough cash in the till: UGX % left', _day.cash_balance;
+    END IF;
+
+    _commission := public.get_agent_commission(_line.department_id, _line.provider, _transaction_type, _amount);
+
+    PERFORM set_config('app.agent_ledger', 'on', true);
+    UPDATE public.agent_lines SET float_balance = float_balance + _float_change WHERE id = _line.id
+    RETURNING * INTO _line;
+    PERFORM set_config('app.agent_ledger', 'off', true);
+    UPDATE public.agent_float_days SET cash_balance = cash_balance + _cash_change WHERE id = _day.id
+    RETURNING * INTO _day;
+
+    INSERT INTO public.agent_transactions (
+        department_id, line_id, day_id, transaction_type, amount, float_change, cash_change,
+        float_after, cash_after, commission, customer_phone, customer_name, reference, notes, created_by
+    )
+    VALUES (
+        _line.department_id, _line.id, _day.id, _transaction_type, _amount, _float_change, _cash_change,
+        _line.float_balance, _day.cash_balance, _commission, NULLIF(trim(_customer_phone), ''),
+        NULLIF(trim(_customer_name), ''), NULLIF(trim(_reference), ''), _notes, auth.uid()
+    )
+    RETURNING * INTO _tx;
+
+    RETURN to_jsonb(_tx);
+END;
+$$;
+
+-- Same as before, but refuses a reversal that would take the float or the till below zero
+CREATE OR REPLACE FUNCTION public.reverse_agent_transaction(
+    _transaction_id uuid,
+    _reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _original public.agent_transactions;
+    _line public.agent_lines;
+    _day public.agent_float_days;
+    _tx public.agent_transactions;
+BEGIN
+    IF NULLIF(trim(_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'Give a reason for the reversal';
+    END IF;
+
+    SELECT * INTO _original FROM public.agent_transactions WHERE id = _transaction_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transaction not found';
+    END IF;
+    IF NOT (public.has_role(auth.uid(), 'admin') OR _original.department_id = public.get_user_department(auth.uid())) THEN
+        RAISE EXCEPTION 'You can only work with agent lines in your own department';
+    END IF;
+    IF _original.transaction_type = 'reversal' THEN
+        RAISE EXCEPTION 'A reversal can''t be reversed';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.agent_transactions WHERE reversal_of = _original.id) THEN
+        RAISE EXCEPTION 'This transaction has already been reversed';
+    END IF;
+
+    SELECT * INTO _day FROM public.agent_float_days WHERE id = _original.day_id AND status = 'open' FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only transactions from the open day can be reversed';
+    END IF;
+
+    SELECT * INTO _line FROM public.agent_lines WHERE id = _original.line_id FOR UPDATE;
+    IF _line.float_balance - _original.float_change < 0 THEN
+        RAISE EXCEPTION 'Not enough float on % to reverse this: UGX % left', _line.name, _line.float_balance;
+    END IF;
+    IF _day.cash_balance - _original.cash_change < 0 THEN
+        RAISE EXCEPTION 'Not enough cash in the till to reverse this: UGX % left', _day.cash_balance;
+    END IF;
+
+    PERFORM set_config('app.agent_ledger', 'on', true);
+    UPDATE public.agent_lines SET float_balance = float_balance - _original.float_change WHERE id = _original.line_id
+    RETURNING * INTO _line;
+    PERFORM set_config('app.agent_ledger', 'off', true);
+    UPDATE public.agent_float_days SET cash_balance = cash_balance - _original.cash_change WHERE id = _day.id
+    RETURNING * INTO _day;
+
+    INSERT INTO public.agent_transactions (
+        department_id, line_id, day_id, transaction_type, amount, float_change, cash_change,
+        float_after, cash_after, commission, customer_phone, customer_name, reference, reversal_of, notes, created_by
+    )
+    VALUES (
+        _original.department_id, _original.line_id, _day.id, 'reversal', _original.amount,
+        -_original.float_change, -_original.cash_change, _line.float_balance, _day.cash_balance, -_original.commission,
+        _original.customer_phone, _original.customer_name, _original.reference, _original.id, _reason, auth.uid()
+    )
+    RETURNING * INTO _tx;
+
+    RETURN to_jsonb(_tx);
+END;
+$$;
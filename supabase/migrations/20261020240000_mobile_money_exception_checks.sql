@@ -0,0 +1,85 @@
+-- Same as before, but only for the exception's department, and a payment can only be marked paid
+-- from an exception with the same department and provider for at least the amount due
+CREATE OR REPLACE FUNCTION public.resolve_mobile_money_exception(
+    _exception_id uuid,
+    _sale_payment_id uuid DEFAULT NULL,
+    _notes text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _exception public.mobile_money_exceptions;
+    _tender public.sale_payments;
+    _provider text;
+BEGIN
+    SELECT * INTO _exception FROM public.mobile_money_exceptions WHERE id = _exception_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Exception not found';
+    END IF;
+    IF _exception.status <> 'open' THEN
+        RAISE EXCEPTION 'This exception has already been resolved';
+    END IF;
+    IF NOT (public.has_role(auth.uid(), 'admin') OR COALESCE(_exception.department_id = public.get_user_department(auth.uid()), false)) THEN
+        RAISE EXCEPTION 'You can only resolve exceptions for your own department';
+    END IF;
+
+    IF _sale_payment_id IS NULL THEN
+        IF NULLIF(trim(_notes), '') IS NULL THEN
+            RAISE EXCEPTION 'Give a reason for dismissing the exception';
+        END IF;
+    ELSE
+        SELECT * INTO _tender FROM public.sale_payments WHERE id = _sale_payment_id FOR UPDATE;
+        IF NOT FOUND OR _tender.method <> 'mobile_money' OR _tender.status NOT IN ('pending', 'failed') THEN
+            RAISE EXCEPTION 'Choose an unpaid mobile money payment';
+        END IF;
+
+        -- The money the provider reported has to be this department's and cover the whole tender
+        _provider := _tender.provider;
+        IF _provider IS NULL THEN
+            SELECT provider INTO _provider FROM public.mobile_money_payments WHERE sale_payment_id = _tender.id LIMIT 1;
+        END IF;
+        IF _tender.department_id IS DISTINCT FROM _exception.department_id THEN
+            RAISE EXCEPTION 'This payment belongs to another department';
+        END IF;
+        IF _provider IS DISTINCT FROM _exception.provider THEN
+            RAISE EXCEPTION 'This payment was made with another provider';
+        END IF;
+        IF COALESCE(_exception.amount, 0) < _tender.amount THEN
+            RAISE EXCEPTION 'The provider reported UGX %, less than the UGX % due on this payment',
+                COALESCE(_exception.amount, 0), _tender.amount;
+        END IF;
+
+        UPDATE public.sale_payments
+        SET status = 'completed',
+            reference = COALESCE(_exception.transaction_id, _exception.reference_id, reference),
+            updated_at = now()
+        WHERE id = _tender.id;
+
+        UPDATE public.mobile_money_payments
+        SET status = 'completed',
+            transaction_id = COALESCE(_exception.transaction_id, transaction_id),
+            payment_completed_at = COALESCE(payment_completed_at, now()),
+            updated_at = now()
+        WHERE sale_payment_id = _tender.id AND status <> 'completed';
+
+        PERFORM public.refresh_sale_payment_status(_tender.sale_id);
+    END IF;
+
+    UPDATE public.mobile_money_exceptions
+    SET status = CASE WHEN _sale_payment_id IS NULL THEN 'dismissed' ELSE 'matched' END,
+        resolved_sale_payment_id = _sale_payment_id,
+        resolution_notes = NULLIF(trim(_notes), ''),
+        resolved_by = auth.uid(),
+        resolved_at = now()
+    WHERE id = _exception.id
+    RETURNING * INTO _exception;
+
+    RETURN to_jsonb(_exception);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_mobile_money_exception(uuid, uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.resolve_mobile_money_exception(uuid, uuid, text) TO authenticated;
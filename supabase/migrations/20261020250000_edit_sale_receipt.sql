@@ -0,0 +1,78 @@
+-- Saves an edited receipt's totals, payment method and date, and rewrites its tenders in
+-- sale_payments to match in the same transaction. Tenders that moved a customer balance, points or a
+-- voucher can't be rewritten here; those sales are voided and rung up again.
+CREATE OR REPLACE FUNCTION public.update_sale_receipt(
+    _sale_id uuid,
+    _subtotal numeric,
+    _total numeric,
+    _payment_method text,
+    _created_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _sale public.sales;
+    _previous public.sale_payments;
+BEGIN
+    SELECT * INTO _sale FROM public.sales WHERE id = _sale_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sale not found';
+    END IF;
+    IF NOT (public.has_role(auth.uid(), 'admin') OR _sale.department_id = public.get_user_department(auth.uid())) THEN
+        RAISE EXCEPTION 'You can only edit receipts for your own department';
+    END IF;
+    IF _sale.status = 'voided' THEN
+        RAISE EXCEPTION 'A voided sale can''t be edited';
+    END IF;
+    IF _payment_method NOT IN ('cash', 'card', 'mobile_money') THEN
+        RAISE EXCEPTION 'Receipts can only be changed to cash, card or mobile money';
+    END IF;
+    IF COALESCE(_total, 0) < 0 OR COALESCE(_subtotal, 0) < 0 THEN
+        RAISE EXCEPTION 'The receipt total can''t be negative';
+    END IF;
+    IF EXISTS (
+        SELECT 1 FROM public.sale_payments
+        WHERE sale_id = _sale_id AND method IN ('credit', 'loyalty', 'voucher', 'store_credit')
+    ) THEN
+        RAISE EXCEPTION 'This sale was paid with customer credit, points, a voucher or store credit - void it and ring it up again';
+    END IF;
+
+    -- Keep the reference and status of a tender that already used this method, e.g. a mobile money transaction ID
+    SELECT * INTO _previous FROM public.sale_payments
+    WHERE sale_id = _sale_id AND method = _payment_method
+    ORDER BY created_at
+    LIMIT 1;
+
+    DELETE FROM public.sale_payments WHERE sale_id = _sale_id;
+
+    IF _total > 0 THEN
+        INSERT INTO public.sale_payments (
+            sale_id, department_id, method, amount, reference, phone_number, provider, status, created_by, created_at
+        )
+        VALUES (
+            _sale.id, _sale.department_id, _payment_method, _total, _previous.reference, _previous.phone_number,
+            _previous.provider, COALESCE(_previous.status, 'completed'), auth.uid(),
+            COALESCE(_created_at, _sale.created_at)
+        );
+    END IF;
+
+    UPDATE public.sales
+    SET subtotal = _subtotal,
+        total = _total,
+        amount_paid = _total,
+        payment_method = _payment_method::public.payment_method,
+        created_at = COALESCE(_created_at, created_at)
+    WHERE id = _sale.id
+    RETURNING * INTO _sale;
+
+    PERFORM public.refresh_sale_payment_status(_sale.id);
+
+    RETURN to_jsonb(_sale);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_sale_receipt(uuid, numeric, numeric, text, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_sale_receipt(uuid, numeric, numeric, text, timestamptz) TO authenticated;